@@ -3,7 +3,7 @@ import { View, ActivityIndicator, StyleSheet } from 'react-native';
 import { Tabs } from 'expo-router';
 import { useRouter } from 'expo-router';
 import { useAuth } from '@/contexts/AuthContext';
-import { ShoppingCart, Package, Receipt, User, Users, Database } from 'lucide-react-native';
+import { ShoppingCart, Package, Receipt, User, Users, Database, Wallet, ChartColumn } from 'lucide-react-native';
 
 export default function TabLayout() {
   const { session, loading } = useAuth();
@@ -71,6 +71,15 @@ export default function TabLayout() {
           ),
         }}
       />
+      <Tabs.Screen
+        name="shift"
+        options={{
+          title: 'Shift',
+          tabBarIcon: ({ size, color }) => (
+            <Wallet size={size} color={color} />
+          ),
+        }}
+      />
       <Tabs.Screen
         name="products"
         options={{
@@ -80,6 +89,15 @@ export default function TabLayout() {
           ),
         }}
       />
+      <Tabs.Screen
+        name="reports"
+        options={{
+          title: 'Reports',
+          tabBarIcon: ({ size, color }) => (
+            <ChartColumn size={size} color={color} />
+          ),
+        }}
+      />
       <Tabs.Screen
         name="users"
         options={{
@@ -113,6 +131,30 @@ export default function TabLayout() {
           href: null, // Hide from tab bar
         }}
       />
+      <Tabs.Screen
+        name="purchasing"
+        options={{
+          href: null, // Opened from Profile > Admin Tools
+        }}
+      />
+      <Tabs.Screen
+        name="stocktake"
+        options={{
+          href: null, // Opened from Products
+        }}
+      />
+      <Tabs.Screen
+        name="modifiers"
+        options={{
+          href: null, // Opened from Products
+        }}
+      />
+      <Tabs.Screen
+        name="customers"
+        options={{
+          href: null, // Opened from Cart and Profile
+        }}
+      />
     </Tabs>
   );
 }
@@ -8,39 +8,139 @@ import {
   SafeAreaView,
   Alert,
   ActivityIndicator,
+  TextInput,
+  Modal,
 } from 'react-native';
 import { useRouter, useFocusEffect } from 'expo-router';
+import * as Crypto from 'expo-crypto';
 import { useAuth } from '@/contexts/AuthContext';
 import { useCart } from '@/contexts/CartContext';
+import { useSalesQueue } from '@/contexts/SalesQueueContext';
+import { useShift } from '@/contexts/ShiftContext';
 import {
   fetchProductsForCart,
   validateCartStock,
   checkProductStock
 } from '@/services/cart.service';
 import {
-  createOrderWithItems,
-  decrementProductStock
+  checkoutOrder,
+  CheckoutLineError,
+  CheckoutOrder
 } from '@/services/orders.service';
+import { approveDiscount, fetchDiscountApprovalThreshold } from '@/services/discounts.service';
+import { fetchLoyaltySettings } from '@/services/customers.service';
+import CustomerPickerModal from '@/components/CustomerPickerModal';
+import HeldTicketsModal from '@/components/HeldTicketsModal';
+import DiscountModal from '@/components/DiscountModal';
+import PaymentModal from '@/components/PaymentModal';
+import ReceiptModal from '@/components/ReceiptModal';
 import { formatPrice } from '@/utils/currency';
-import { ArrowLeft, CreditCard, Banknote, Smartphone, Plus, Minus, Trash2, AlertTriangle } from 'lucide-react-native';
+import { computeTotals, getUnitPrice, TaxExemptionType, TAX_EXEMPTION_LABELS } from '@/utils/tax';
+import { formatModifiers } from '@/utils/modifiers';
+import {
+  Discount,
+  DEFAULT_APPROVAL_THRESHOLD_PERCENT,
+  DISCOUNT_REASON_LABELS,
+  formatDiscount,
+  requiresDiscountApproval,
+} from '@/utils/discounts';
+import { summarizeTenders, Tender } from '@/utils/payments';
+import { DEFAULT_LOYALTY_SETTINGS, formatPoints, getPointsEarned, LoyaltySettings } from '@/utils/loyalty';
+import { isNetworkErrorMessage } from '@/utils/errorHandler';
+import { useTaxConfig } from '@/hooks/useTaxConfig';
+import { invalidateProductSearches } from '@/hooks/useProductSearch';
+import {
+  ArrowLeft,
+  CreditCard,
+  Banknote,
+  Smartphone,
+  Plus,
+  Minus,
+  Trash2,
+  AlertTriangle,
+  Tag,
+  UserRound,
+  X,
+  CirclePause,
+} from 'lucide-react-native';
+
+type DiscountTarget = { kind: 'item'; lineKey: string } | { kind: 'order' };
 
 export default function CartScreen() {
   const router = useRouter();
-  const { user } = useAuth();
-  const { cart, removeFromCart, updateQuantity, clearCart, getCartTotal, getCartCount, checkCartStockAvailability } = useCart();
+  const { user, profile } = useAuth();
+  const {
+    cart,
+    removeFromCart,
+    updateQuantity,
+    clearCart,
+    setItemDiscount,
+    orderDiscount,
+    setOrderDiscount,
+    getCartCount,
+    checkCartStockAvailability,
+    customer,
+    setCustomer,
+    ticketName,
+    heldTickets,
+  } = useCart();
+  const { isOnline, enqueueSale } = useSalesQueue();
+  const { currentShift } = useShift();
   const [processingPayment, setProcessingPayment] = useState(false);
   const [products, setProducts] = useState<any[]>([]);
   const [loadingProducts, setLoadingProducts] = useState(false);
+  const [lineErrors, setLineErrors] = useState<Record<string, CheckoutLineError>>({});
+  const [exemptionType, setExemptionType] = useState<TaxExemptionType | null>(null);
+  const [exemptionId, setExemptionId] = useState('');
+  const { taxConfig } = useTaxConfig();
+  const [discountTarget, setDiscountTarget] = useState<DiscountTarget | null>(null);
+  const [approvalThreshold, setApprovalThreshold] = useState(DEFAULT_APPROVAL_THRESHOLD_PERCENT);
+  const [discountApprovalId, setDiscountApprovalId] = useState<string | null>(null);
+  const [approvalModalVisible, setApprovalModalVisible] = useState(false);
+  const [approverEmail, setApproverEmail] = useState('');
+  const [approverPassword, setApproverPassword] = useState('');
+  const [approving, setApproving] = useState(false);
+  const [paymentModalVisible, setPaymentModalVisible] = useState(false);
+  const [receiptOrder, setReceiptOrder] = useState<CheckoutOrder | null>(null);
+  const [customerPickerVisible, setCustomerPickerVisible] = useState(false);
+  const [ticketsVisible, setTicketsVisible] = useState(false);
+  const [loyaltySettings, setLoyaltySettings] = useState<LoyaltySettings>(DEFAULT_LOYALTY_SETTINGS);
+
+  const isAdmin = profile?.role === 'admin';
+  const exemption = exemptionType ? { type: exemptionType, idNumber: exemptionId.trim() } : null;
+  const totals = computeTotals(cart, taxConfig, { exemption, orderDiscount });
+  // Admins approve their own discounts; checkout_order records them as the approver
+  const needsApproval = !isAdmin && requiresDiscountApproval(totals, approvalThreshold);
+  // The balance is checked at checkout, so points can't be spent offline
+  const paymentLoyalty = customer && isOnline && customer.points > 0
+    ? { points: customer.points, settings: loyaltySettings }
+    : null;
   
   useEffect(() => {
     loadProducts();
+    fetchDiscountApprovalThreshold().then(result => {
+      if (result.data !== null) {
+        setApprovalThreshold(result.data);
+      }
+    });
+    fetchLoyaltySettings().then(result => {
+      if (result.data) {
+        setLoyaltySettings(result.data);
+      }
+    });
   }, []);
 
   // Refresh products when cart contents change
   useEffect(() => {
     loadProducts();
+    setLineErrors({});
   }, [cart]);
 
+  // An approval covers the discounts as they were when the admin signed off
+  useEffect(() => {
+    setDiscountApprovalId(null);
+  }, [cart, orderDiscount]);
+
   // Refresh products when screen gains focus
   useFocusEffect(
     useCallback(() => {
@@ -70,33 +170,27 @@ export default function CartScreen() {
     }
   };
 
-  const getSubtotal = () => {
-    return cart.reduce((sum, item) => sum + item.product.price * item.quantity, 0);
-  };
-
-  const getTax = () => {
-    return getSubtotal() * 0.1;
-  };
-
-  const getTotal = () => {
-    return getSubtotal() + getTax();
-  };
+  // Lines of the same product with different modifiers share its stock
+  const getProductQuantity = (productId: string) =>
+    cart.reduce((sum, item) => (item.product.id === productId ? sum + item.quantity : sum), 0);
 
-  const validateCartStockLocal = async (): Promise<{ isValid: boolean; errors: any[] }> => {
+  // unreachable is set when the check could not get an answer from the server
+  const validateCartStockLocal = async (): Promise<{ isValid: boolean; errors: any[]; unreachable?: boolean }> => {
     if (cart.length === 0) return { isValid: true, errors: [] };
     
     try {
-      // Map cart to normalized shape for the service
-      const normalizedCartItems = cart.map(item => ({
-        product_id: item.product.id,
-        quantity: item.quantity
+      // Map cart to normalized shape for the service, one entry per product
+      // since lines with different modifiers share the product's stock
+      const normalizedCartItems = Array.from(new Set(cart.map(item => item.product.id))).map(productId => ({
+        product_id: productId,
+        quantity: getProductQuantity(productId)
       }));
       
       const validationResult = await validateCartStock(normalizedCartItems);
       
       if (validationResult.error) {
         console.error('Error validating stock:', validationResult.error);
-        return { isValid: false, errors: [] };
+        return { isValid: false, errors: [], unreachable: isNetworkErrorMessage(validationResult.error) };
       }
       
       return validationResult.data || { isValid: false, errors: [] };
@@ -106,28 +200,98 @@ export default function CartScreen() {
     }
   };
 
-  const updateProductStock = async (orderItems: any[]) => {
-    try {
-      const result = await decrementProductStock(orderItems);
-      
-      if (result.error) {
-        console.error('Error updating stock for multiple products', result.error);
-        throw new Error(result.error);
-      }
-    } catch (error) {
-      console.error('Error updating product stock:', error);
-      throw error;
+  const getLineErrorMessage = (lineError: CheckoutLineError) => {
+    switch (lineError.code) {
+      case 'INSUFFICIENT_STOCK':
+        return `Only ${lineError.available_stock} available (requested ${lineError.requested_qty})`;
+      case 'PRODUCT_INACTIVE':
+        return 'No longer available for sale';
+      case 'PRODUCT_NOT_FOUND':
+        return 'Product no longer exists';
+      case 'INVALID_QUANTITY':
+        return 'Invalid quantity';
+      case 'INVALID_TAX_EXEMPTION':
+        return 'Invalid tax exemption';
+      case 'INVALID_DISCOUNT':
+        return 'Invalid discount';
+      case 'INVALID_MODIFIERS':
+        return 'Options have changed; remove the item and add it again';
+      case 'DISCOUNT_APPROVAL_REQUIRED':
+        return 'Discount needs admin approval';
+      case 'INSUFFICIENT_PAYMENT':
+        return `Payments do not cover the total of ${formatPrice(lineError.amount_due ?? 0)}`;
+      case 'PAYMENT_EXCEEDS_TOTAL':
+        return `Card/GCash payments exceed the total of ${formatPrice(lineError.amount_due ?? 0)}`;
+      case 'INVALID_PAYMENT':
+        return 'Invalid payment';
+      case 'CUSTOMER_NOT_FOUND':
+        return 'The customer no longer exists';
+      case 'INSUFFICIENT_POINTS':
+        return `The customer has only ${formatPoints(lineError.available_points ?? 0)}`;
+      default:
+        return 'Cannot be checked out';
     }
   };
 
-  const handleCheckout = async (paymentMethod: 'cash' | 'card' | 'mobile') => {
+  const handleCheckout = async (tenders: Tender[]) => {
     if (!user || cart.length === 0) return;
 
+    setPaymentModalVisible(false);
+    // A fully discounted sale has no tenders
+    const paymentMethod = tenders[0]?.method ?? 'cash';
+    const payments = tenders.length > 0 ? tenders : null;
+
     setProcessingPayment(true);
 
+    // One key per attempt: if the connection drops before the answer arrives,
+    // the sale is queued under the same key, so replaying it cannot record it twice
+    const idempotencyKey = Crypto.randomUUID();
+
+    // The sale is queued and replayed later; stock conflicts are resolved from
+    // the pending sales list on the POS screen
+    const queueSale = async (reason: string) => {
+      const queuedSale = await enqueueSale(
+        cart.map((item) => ({
+          product_id: item.product.id,
+          name: item.product.name,
+          price: getUnitPrice(item),
+          quantity: item.quantity,
+          discount: item.discount ?? null,
+          modifiers: item.modifiers,
+        })),
+        paymentMethod,
+        { idempotencyKey, exemption, orderDiscount, discountApprovalId, payments, customerId: customer?.id ?? null }
+      );
+
+      if (!queuedSale) {
+        Alert.alert('Error', 'Failed to save the sale offline. Please try again.');
+        return;
+      }
+
+      const offlineChange = summarizeTenders(tenders, totals.total).changeDue;
+      clearCart();
+      setExemptionType(null);
+      setExemptionId('');
+      Alert.alert(
+        'Saved Offline',
+        `${offlineChange > 0 ? `Change due: ${formatPrice(offlineChange)}\n\n` : ''}${reason} The sale was saved and will be submitted automatically when the connection returns.`,
+        [{ text: 'OK', onPress: () => router.replace('/(tabs)') }]
+      );
+    };
+
     try {
+      if (!isOnline) {
+        await queueSale('You are offline.');
+        return;
+      }
+
       // Validate stock availability before checkout
       const stockValidation = await validateCartStockLocal();
+
+      if (stockValidation.unreachable) {
+        await queueSale('The connection was lost.');
+        return;
+      }
       
       if (!stockValidation.isValid) {
         const errorMessage = stockValidation.errors
@@ -145,33 +309,86 @@ export default function CartScreen() {
         return;
       }
 
-      const orderData = {
-        user_id: user.id,
-        total: getTotal(),
-        tax: getTax(),
-        status: 'completed',
-        payment_method: paymentMethod,
-      };
-
-      const orderItems = cart.map((item) => ({
+      const checkoutItems = cart.map((item) => ({
         product_id: item.product.id,
         quantity: item.quantity,
-        price: item.product.price,
+        discount: item.discount ?? null,
+        modifier_ids: item.modifiers.map(modifier => modifier.id),
       }));
 
-      const result = await createOrderWithItems(orderData, orderItems);
+      const result = await checkoutOrder(checkoutItems, paymentMethod, {
+        idempotencyKey,
+        exemption,
+        orderDiscount,
+        discountApprovalId,
+        payments,
+        customerId: customer?.id ?? null,
+      });
       
-      if (result.error) {
+      // The sale may or may not have been recorded; the queue replays it under
+      // the same key, which returns the order if it was
+      if (result.error && isNetworkErrorMessage(result.error)) {
+        console.error('Connection lost during checkout:', result.error);
+        await queueSale('The connection was lost.');
+        return;
+      }
+
+      if (result.error || !result.data) {
         console.error('Error processing order:', result.error);
-        Alert.alert('Error', result.error);
+        Alert.alert('Error', result.error || 'Failed to process order. Please try again.');
+        setProcessingPayment(false);
+        return;
+      }
+
+      if (result.data.errors.some(lineError => lineError.code === 'DISCOUNT_APPROVAL_REQUIRED')) {
+        setDiscountApprovalId(null);
+        Alert.alert('Approval Required', 'The discount approval has expired or no longer covers this sale. Please ask an admin to approve it again.');
+        setProcessingPayment(false);
+        return;
+      }
+
+      // The order was rejected as a whole; flag the offending lines in the cart
+      if (result.data.errors.length > 0) {
+        const errorsByProduct: Record<string, CheckoutLineError> = {};
+        result.data.errors.forEach(lineError => {
+          if (lineError.product_id) {
+            errorsByProduct[lineError.product_id] = lineError;
+          }
+        });
+        setLineErrors(errorsByProduct);
+        loadProducts();
+
+        const errorMessage = result.data.errors
+          .map(lineError => lineError.product_id
+            ? `${lineError.product_name || 'Item'}: ${getLineErrorMessage(lineError)}`
+            : getLineErrorMessage(lineError))
+          .join('\n');
+        Alert.alert(
+          'Checkout Failed',
+          `Some items in your cart cannot be checked out:\n\n${errorMessage}\n\nPlease update your cart to continue.`
+        );
         setProcessingPayment(false);
         return;
       }
 
+      const changeDue = (result.data.order?.order_payments ?? [])
+        .reduce((sum, payment) => sum + Number(payment.change_due), 0);
+
       // Clear cart only on successful result
       clearCart();
+      // Stock has changed, so the POS grid is fetched again when next shown
+      invalidateProductSearches();
+      setExemptionType(null);
+      setExemptionId('');
       
-      Alert.alert('Success', 'Order placed successfully!', [
+      const placedOrder = result.data.order;
+      const pointsEarned = placedOrder?.points_earned ?? 0;
+      const successMessage = [
+        changeDue > 0 ? `Order placed. Change due: ${formatPrice(changeDue)}` : 'Order placed successfully!',
+        pointsEarned > 0 ? `${customer?.name ?? 'The customer'} earned ${formatPoints(pointsEarned)}.` : null,
+      ].filter(Boolean).join('\n\n');
+      Alert.alert('Success', successMessage, [
+        { text: 'Receipt', onPress: () => setReceiptOrder(placedOrder) },
         { text: 'OK', onPress: () => router.replace('/(tabs)') }
       ]);
     } catch (error) {
@@ -182,11 +399,83 @@ export default function CartScreen() {
     }
   };
 
-  const handleQuantityUpdate = async (productId: string, newQuantity: number) => {
+  const handleApplyDiscount = (discount: Discount | null) => {
+    if (discountTarget?.kind === 'item') {
+      setItemDiscount(discountTarget.lineKey, discount);
+    } else if (discountTarget?.kind === 'order') {
+      setOrderDiscount(discount);
+    }
+    setDiscountTarget(null);
+  };
+
+  const getEditingDiscount = () => {
+    if (discountTarget?.kind === 'item') {
+      return cart.find(item => item.key === discountTarget.lineKey)?.discount ?? null;
+    }
+    return discountTarget?.kind === 'order' ? orderDiscount : null;
+  };
+
+  const handleProceedToCheckout = () => {
+    // Every sale belongs to a cash drawer shift
+    if (!currentShift) {
+      Alert.alert('Open a Shift', 'Open a shift with a starting float before making sales.', [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Open Shift', onPress: () => router.push('/(tabs)/shift') },
+      ]);
+      return;
+    }
+
+    // Senior citizen / PWD sales must record the ID that was presented
+    if (exemption && !exemption.idNumber) {
+      Alert.alert('ID Required', `Enter the ${TAX_EXEMPTION_LABELS[exemption.type]} ID number to apply the exemption.`);
+      return;
+    }
+
+    if (needsApproval && !discountApprovalId) {
+      // Approvals are written to the server, so they can't be given offline
+      if (!isOnline) {
+        Alert.alert(
+          'Approval Required',
+          `Discounts above ${approvalThreshold}% need admin approval, which requires a connection. Reduce the discount or ask an admin to ring up the sale.`
+        );
+        return;
+      }
+      setApproverEmail('');
+      setApproverPassword('');
+      setApprovalModalVisible(true);
+      return;
+    }
+    setPaymentModalVisible(true);
+  };
+
+  const handleApproveDiscount = async () => {
+    if (!user || !approverEmail.trim() || !approverPassword) {
+      Alert.alert('Error', 'Please enter the admin email and password');
+      return;
+    }
+
+    setApproving(true);
+    try {
+      const result = await approveDiscount(approverEmail.trim(), approverPassword, user.id, totals.discount);
+      if (result.error || !result.data) {
+        Alert.alert('Approval Failed', result.error || 'Only an admin can approve this discount.');
+        return;
+      }
+
+      setDiscountApprovalId(result.data);
+      setApprovalModalVisible(false);
+      setPaymentModalVisible(true);
+    } finally {
+      setApproverPassword('');
+      setApproving(false);
+    }
+  };
+
+  const handleQuantityUpdate = async (item: (typeof cart)[number], newQuantity: number) => {
     // For increments, fetch the latest stock to ensure accuracy
     if (newQuantity > 0) {
       try {
-        const result = await checkProductStock(productId);
+        const result = await checkProductStock(item.product.id);
         
         if (result.error) {
           console.error('Error fetching latest stock:', result.error);
@@ -194,7 +483,8 @@ export default function CartScreen() {
           return;
         }
         
-        if (result.data && newQuantity > result.data.stock) {
+        const otherLines = getProductQuantity(item.product.id) - item.quantity;
+        if (result.data && otherLines + newQuantity > result.data.stock) {
           Alert.alert(
             'Insufficient Stock',
             `Only ${result.data.stock} items available.`
@@ -208,7 +498,7 @@ export default function CartScreen() {
       }
     }
     
-    const success = updateQuantity(productId, newQuantity);
+    const success = updateQuantity(item.key, newQuantity);
     if (!success) {
       Alert.alert('Error', 'Failed to update quantity. Please try again.');
     }
@@ -223,13 +513,23 @@ export default function CartScreen() {
         >
           <ArrowLeft size={24} color="#111827" />
         </TouchableOpacity>
-        <Text style={styles.headerTitle}>Cart</Text>
+        <View>
+          <Text style={styles.headerTitle}>Cart</Text>
+          {ticketName && <Text style={styles.ticketNameText}>{ticketName}</Text>}
+          {!isOnline && <Text style={styles.offlineText}>Offline</Text>}
+        </View>
+        <TouchableOpacity style={styles.ticketsButton} onPress={() => setTicketsVisible(true)}>
+          <CirclePause size={18} color="#3B82F6" />
+          <Text style={styles.ticketsButtonText}>
+            {heldTickets.length > 0 ? `Held (${heldTickets.length})` : 'Hold'}
+          </Text>
+        </TouchableOpacity>
         <View style={styles.cartSummaryHeader}>
           <Text style={styles.cartSummaryText}>
             {getCartCount()} items
           </Text>
           <Text style={styles.cartSummaryText}>
-            Total: {formatPrice(getCartTotal())}
+            Total: {formatPrice(totals.total)}
           </Text>
         </View>
       </View>
@@ -271,31 +571,48 @@ export default function CartScreen() {
               {cart.map((item) => {
                 const product = products.find(p => p.id === item.product.id);
                 const currentStock = product ? product.stock : item.product.stock;
-                const hasInsufficientStock = item.quantity > currentStock;
-                const isMaxQuantity = item.quantity >= currentStock;
+                const lineError = lineErrors[item.product.id];
+                const line = totals.lines.find(l => l.lineKey === item.key);
+                const productQuantity = getProductQuantity(item.product.id);
+                const hasInsufficientStock = productQuantity > currentStock;
+                const isMaxQuantity = productQuantity >= currentStock;
                 
                 return (
-                  <View key={item.product.id} style={[
+                  <View key={item.key} style={[
                     styles.cartItem,
-                    hasInsufficientStock && styles.cartItemWarning
+                    (hasInsufficientStock || lineError) && styles.cartItemWarning
                   ]}>
                     <View style={styles.cartItemInfo}>
                       <Text style={styles.cartItemName}>{item.product.name}</Text>
+                      {item.modifiers.length > 0 && (
+                        <Text style={styles.modifiersText}>{formatModifiers(item.modifiers)}</Text>
+                      )}
                       <Text style={styles.cartItemPrice}>
-                        {formatPrice(item.product.price)}
+                        {formatPrice(getUnitPrice(item))}
                       </Text>
+                      {item.discount && (
+                        <Text style={styles.discountText}>
+                          {formatDiscount(item.discount)} · {DISCOUNT_REASON_LABELS[item.discount.reason]}
+                          {line && line.lineDiscount > 0 && ` (−${formatPrice(line.lineDiscount)})`}
+                        </Text>
+                      )}
                       <Text style={[
                         styles.stockInfoText,
                         hasInsufficientStock && styles.stockWarningText
                       ]}>
                         {currentStock} available
-                        {hasInsufficientStock && ` (requested: ${item.quantity})`}
+                        {hasInsufficientStock && ` (requested: ${productQuantity})`}
                       </Text>
+                      {lineError && (
+                        <Text style={styles.lineErrorText}>
+                          {getLineErrorMessage(lineError)}
+                        </Text>
+                      )}
                     </View>
                     <View style={styles.cartItemActions}>
                       <TouchableOpacity
                         style={styles.quantityButton}
-                        onPress={() => handleQuantityUpdate(item.product.id, item.quantity - 1)}>
+                        onPress={() => handleQuantityUpdate(item, item.quantity - 1)}>
                         <Minus size={16} color="#6B7280" />
                       </TouchableOpacity>
                       <Text style={styles.quantityText}>{item.quantity}</Text>
@@ -304,13 +621,18 @@ export default function CartScreen() {
                           styles.quantityButton,
                           isMaxQuantity && styles.quantityButtonDisabled
                         ]}
-                        onPress={() => handleQuantityUpdate(item.product.id, item.quantity + 1)}
+                        onPress={() => handleQuantityUpdate(item, item.quantity + 1)}
                         disabled={isMaxQuantity}>
                         <Plus size={16} color={isMaxQuantity ? "#9CA3AF" : "#6B7280"} />
                       </TouchableOpacity>
+                      <TouchableOpacity
+                        style={[styles.discountButton, item.discount && styles.discountButtonActive]}
+                        onPress={() => setDiscountTarget({ kind: 'item', lineKey: item.key })}>
+                        <Tag size={16} color={item.discount ? '#FFFFFF' : '#3B82F6'} />
+                      </TouchableOpacity>
                       <TouchableOpacity
                         style={styles.removeButton}
-                        onPress={() => removeFromCart(item.product.id)}>
+                        onPress={() => removeFromCart(item.key)}>
                         <Trash2 size={16} color="#EF4444" />
                       </TouchableOpacity>
                     </View>
@@ -319,18 +641,108 @@ export default function CartScreen() {
               })}
             </View>
 
+            {customer ? (
+              <View style={styles.customerCard}>
+                <UserRound size={18} color="#3B82F6" />
+                <TouchableOpacity
+                  style={styles.customerInfo}
+                  onPress={() => router.push({ pathname: '/(tabs)/customers', params: { id: customer.id } })}>
+                  <Text style={styles.customerName}>{customer.name}</Text>
+                  <Text style={styles.customerDetail}>
+                    {formatPoints(customer.points)} · earns {formatPoints(getPointsEarned(totals.total, 0, loyaltySettings))}
+                  </Text>
+                </TouchableOpacity>
+                <TouchableOpacity onPress={() => setCustomer(null)}>
+                  <X size={18} color="#6B7280" />
+                </TouchableOpacity>
+              </View>
+            ) : (
+              <TouchableOpacity
+                style={styles.orderDiscountButton}
+                onPress={() => setCustomerPickerVisible(true)}>
+                <UserRound size={16} color="#3B82F6" />
+                <Text style={styles.orderDiscountButtonText}>Add customer</Text>
+              </TouchableOpacity>
+            )}
+
+            <TouchableOpacity
+              style={styles.orderDiscountButton}
+              onPress={() => setDiscountTarget({ kind: 'order' })}>
+              <Tag size={16} color="#3B82F6" />
+              <Text style={styles.orderDiscountButtonText}>
+                {orderDiscount
+                  ? `Order discount: ${formatDiscount(orderDiscount)} · ${DISCOUNT_REASON_LABELS[orderDiscount.reason]}`
+                  : 'Add order discount'}
+              </Text>
+            </TouchableOpacity>
+
+            <View style={styles.exemptionSection}>
+              <Text style={styles.exemptionTitle}>VAT Exemption</Text>
+              <View style={styles.exemptionChips}>
+                {([null, 'senior_citizen', 'pwd'] as const).map(type => (
+                  <TouchableOpacity
+                    key={type ?? 'none'}
+                    style={[styles.exemptionChip, exemptionType === type && styles.exemptionChipActive]}
+                    onPress={() => setExemptionType(type)}>
+                    <Text style={[styles.exemptionChipText, exemptionType === type && styles.exemptionChipTextActive]}>
+                      {type ? TAX_EXEMPTION_LABELS[type] : 'None'}
+                    </Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+              {exemptionType && (
+                <TextInput
+                  style={styles.exemptionInput}
+                  value={exemptionId}
+                  onChangeText={setExemptionId}
+                  placeholder={`${TAX_EXEMPTION_LABELS[exemptionType]} ID number`}
+                  autoCapitalize="characters"
+                />
+              )}
+            </View>
+
             <View style={styles.cartSummary}>
+              {totals.discount > 0 && (
+                <>
+                  <View style={styles.summaryRow}>
+                    <Text style={styles.summaryLabel}>Items</Text>
+                    <Text style={styles.summaryValue}>{formatPrice(totals.grossSubtotal)}</Text>
+                  </View>
+                  <View style={styles.summaryRow}>
+                    <Text style={styles.summaryLabel}>
+                      Discounts{needsApproval && (discountApprovalId ? ' (approved)' : ' (needs approval)')}
+                    </Text>
+                    <Text style={[styles.summaryValue, styles.discountValue]}>
+                      −{formatPrice(totals.discount)}
+                    </Text>
+                  </View>
+                </>
+              )}
               <View style={styles.summaryRow}>
                 <Text style={styles.summaryLabel}>Subtotal</Text>
-                <Text style={styles.summaryValue}>{formatPrice(getSubtotal())}</Text>
+                <Text style={styles.summaryValue}>{formatPrice(totals.subtotal)}</Text>
               </View>
               <View style={styles.summaryRow}>
-                <Text style={styles.summaryLabel}>Tax (10%)</Text>
-                <Text style={styles.summaryValue}>{formatPrice(getTax())}</Text>
+                <Text style={styles.summaryLabel}>
+                  {taxConfig.pricesIncludeTax ? 'VAT (included)' : 'VAT'}
+                </Text>
+                <Text style={styles.summaryValue}>{formatPrice(totals.tax)}</Text>
               </View>
+              {totals.vatExemptSales > 0 && (
+                <View style={styles.summaryRow}>
+                  <Text style={styles.summaryLabel}>VAT-Exempt Sales</Text>
+                  <Text style={styles.summaryValue}>{formatPrice(totals.vatExemptSales)}</Text>
+                </View>
+              )}
+              {totals.zeroRatedSales > 0 && (
+                <View style={styles.summaryRow}>
+                  <Text style={styles.summaryLabel}>Zero-Rated Sales</Text>
+                  <Text style={styles.summaryValue}>{formatPrice(totals.zeroRatedSales)}</Text>
+                </View>
+              )}
               <View style={[styles.summaryRow, styles.totalRow]}>
                 <Text style={styles.totalLabel}>Total</Text>
-                <Text style={styles.totalValue}>{formatPrice(getTotal())}</Text>
+                <Text style={styles.totalValue}>{formatPrice(totals.total)}</Text>
               </View>
             </View>
           </>
@@ -341,36 +753,100 @@ export default function CartScreen() {
         <View style={styles.footer}>
           <TouchableOpacity
             style={styles.checkoutButton}
-            onPress={() => {
-              // Show payment options modal or navigate to payment screen
-              Alert.alert(
-                'Select Payment Method',
-                'Choose a payment method to complete your order',
-                [
-                  {
-                    text: 'Cash',
-                    onPress: () => handleCheckout('cash')
-                  },
-                  {
-                    text: 'Card',
-                    onPress: () => handleCheckout('card')
-                  },
-                  {
-                    text: 'Mobile Payment',
-                    onPress: () => handleCheckout('mobile')
-                  },
-                  {
-                    text: 'Cancel',
-                    style: 'cancel'
-                  }
-                ]
-              );
-            }}>
+            onPress={handleProceedToCheckout}>
             <Text style={styles.checkoutButtonText}>Proceed to Checkout</Text>
           </TouchableOpacity>
         </View>
       )}
 
+      <ReceiptModal
+        visible={receiptOrder !== null}
+        order={receiptOrder}
+        onClose={() => {
+          setReceiptOrder(null);
+          router.replace('/(tabs)');
+        }}
+      />
+
+      <PaymentModal
+        visible={paymentModalVisible}
+        total={totals.total}
+        processing={processingPayment}
+        loyalty={paymentLoyalty}
+        onComplete={handleCheckout}
+        onClose={() => setPaymentModalVisible(false)}
+      />
+
+      <HeldTicketsModal
+        visible={ticketsVisible}
+        onClose={() => setTicketsVisible(false)}
+      />
+
+      <CustomerPickerModal
+        visible={customerPickerVisible}
+        onSelect={selected => {
+          setCustomer(selected);
+          setCustomerPickerVisible(false);
+        }}
+        onClose={() => setCustomerPickerVisible(false)}
+      />
+
+      <DiscountModal
+        visible={discountTarget !== null}
+        title={discountTarget?.kind === 'order' ? 'Order Discount' : 'Item Discount'}
+        discount={getEditingDiscount()}
+        onApply={handleApplyDiscount}
+        onClose={() => setDiscountTarget(null)}
+      />
+
+      <Modal
+        visible={approvalModalVisible}
+        transparent
+        animationType="slide"
+        onRequestClose={() => setApprovalModalVisible(false)}>
+        <View style={styles.modalOverlay}>
+          <View style={styles.modalContent}>
+            <Text style={styles.modalTitle}>Admin Approval Required</Text>
+            <Text style={styles.modalMessage}>
+              Discounts of {formatPrice(totals.discount)} exceed the {approvalThreshold}% limit. An admin must sign in to approve.
+            </Text>
+            <TextInput
+              style={styles.modalInput}
+              value={approverEmail}
+              onChangeText={setApproverEmail}
+              placeholder="Admin email"
+              autoCapitalize="none"
+              keyboardType="email-address"
+            />
+            <TextInput
+              style={styles.modalInput}
+              value={approverPassword}
+              onChangeText={setApproverPassword}
+              placeholder="Password"
+              secureTextEntry
+            />
+            <View style={styles.modalActions}>
+              <TouchableOpacity
+                style={styles.modalCancelButton}
+                onPress={() => setApprovalModalVisible(false)}
+                disabled={approving}>
+                <Text style={styles.modalCancelButtonText}>Cancel</Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={styles.modalApproveButton}
+                onPress={handleApproveDiscount}
+                disabled={approving}>
+                {approving ? (
+                  <ActivityIndicator color="#FFFFFF" />
+                ) : (
+                  <Text style={styles.modalApproveButtonText}>Approve</Text>
+                )}
+              </TouchableOpacity>
+            </View>
+          </View>
+        </View>
+      </Modal>
+
       {processingPayment && (
         <View style={styles.loadingOverlay}>
           <ActivityIndicator size="large" color="#3B82F6" />
@@ -403,6 +879,30 @@ const styles = StyleSheet.create({
     fontWeight: '700',
     color: '#111827',
   },
+  offlineText: {
+    fontSize: 12,
+    color: '#EF4444',
+    fontWeight: '600',
+  },
+  ticketNameText: {
+    fontSize: 12,
+    color: '#3B82F6',
+    fontWeight: '600',
+  },
+  ticketsButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    paddingVertical: 6,
+    paddingHorizontal: 10,
+    borderRadius: 8,
+    backgroundColor: '#EFF6FF',
+  },
+  ticketsButtonText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#3B82F6',
+  },
   cartSummaryHeader: {
     alignItems: 'flex-end',
   },
@@ -462,6 +962,11 @@ const styles = StyleSheet.create({
     fontSize: 14,
     color: '#6B7280',
   },
+  modifiersText: {
+    fontSize: 12,
+    color: '#374151',
+    marginBottom: 2,
+  },
   cartItemActions: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -491,6 +996,46 @@ const styles = StyleSheet.create({
     alignItems: 'center',
     marginLeft: 8,
   },
+  exemptionSection: {
+    marginBottom: 16,
+  },
+  exemptionTitle: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#111827',
+    marginBottom: 8,
+  },
+  exemptionChips: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  exemptionChip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    backgroundColor: '#F3F4F6',
+  },
+  exemptionChipActive: {
+    backgroundColor: '#3B82F6',
+  },
+  exemptionChipText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#6B7280',
+  },
+  exemptionChipTextActive: {
+    color: '#FFFFFF',
+  },
+  exemptionInput: {
+    backgroundColor: '#FFFFFF',
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+    borderRadius: 8,
+    padding: 12,
+    fontSize: 16,
+    color: '#111827',
+    marginTop: 8,
+  },
   cartSummary: {
     borderTopWidth: 1,
     borderTopColor: '#E5E7EB',
@@ -583,6 +1128,131 @@ const styles = StyleSheet.create({
     borderLeftWidth: 3,
     borderLeftColor: '#EF4444',
   },
+  lineErrorText: {
+    fontSize: 12,
+    color: '#EF4444',
+    fontWeight: '600',
+    marginTop: 4,
+  },
+  discountText: {
+    fontSize: 12,
+    color: '#10B981',
+    fontWeight: '600',
+    marginTop: 4,
+  },
+  discountButton: {
+    width: 28,
+    height: 28,
+    borderRadius: 6,
+    backgroundColor: '#EFF6FF',
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginLeft: 8,
+  },
+  discountButtonActive: {
+    backgroundColor: '#3B82F6',
+  },
+  orderDiscountButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    padding: 12,
+    borderRadius: 8,
+    backgroundColor: '#EFF6FF',
+    marginBottom: 16,
+  },
+  customerCard: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    padding: 12,
+    borderRadius: 8,
+    backgroundColor: '#EFF6FF',
+    marginBottom: 16,
+  },
+  customerInfo: {
+    flex: 1,
+  },
+  customerName: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#111827',
+  },
+  customerDetail: {
+    fontSize: 12,
+    color: '#6B7280',
+    marginTop: 2,
+  },
+  orderDiscountButtonText: {
+    flex: 1,
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#3B82F6',
+  },
+  discountValue: {
+    color: '#10B981',
+  },
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  modalContent: {
+    backgroundColor: '#FFFFFF',
+    borderRadius: 16,
+    padding: 24,
+    width: '90%',
+    maxWidth: 400,
+    gap: 12,
+  },
+  modalTitle: {
+    fontSize: 20,
+    fontWeight: '700',
+    color: '#111827',
+  },
+  modalMessage: {
+    fontSize: 14,
+    color: '#6B7280',
+  },
+  modalInput: {
+    backgroundColor: '#F9FAFB',
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+    borderRadius: 8,
+    padding: 12,
+    fontSize: 16,
+    color: '#111827',
+  },
+  modalActions: {
+    flexDirection: 'row',
+    gap: 12,
+    marginTop: 8,
+  },
+  modalCancelButton: {
+    flex: 1,
+    padding: 12,
+    borderRadius: 8,
+    backgroundColor: '#F3F4F6',
+    alignItems: 'center',
+  },
+  modalCancelButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#6B7280',
+  },
+  modalApproveButton: {
+    flex: 1,
+    padding: 12,
+    borderRadius: 8,
+    backgroundColor: '#3B82F6',
+    alignItems: 'center',
+  },
+  modalApproveButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#FFFFFF',
+  },
   quantityButtonDisabled: {
     backgroundColor: '#E5E7EB',
     opacity: 0.6,
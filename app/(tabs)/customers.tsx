@@ -0,0 +1,545 @@
+import { useState, useEffect, useCallback } from 'react';
+import {
+  View,
+  Text,
+  ScrollView,
+  StyleSheet,
+  SafeAreaView,
+  ActivityIndicator,
+  TouchableOpacity,
+  TextInput,
+  Alert,
+} from 'react-native';
+import { useRouter, useFocusEffect, useLocalSearchParams } from 'expo-router';
+import { ArrowLeft, Search } from 'lucide-react-native';
+import {
+  Customer,
+  CustomerHistory,
+  fetchCustomerHistory,
+  searchCustomers,
+  updateCustomer,
+} from '@/services/customers.service';
+import { formatPrice } from '@/utils/currency';
+import { formatPoints, LOYALTY_KIND_LABELS, summarizeLoyalty } from '@/utils/loyalty';
+
+const formatDate = (dateString: string) =>
+  new Date(dateString).toLocaleDateString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+  });
+
+const getStatusLabel = (status: string) => {
+  const label = status.replace('_', ' ');
+  return label.charAt(0).toUpperCase() + label.slice(1);
+};
+
+const getPointsColor = (points: number) => (points > 0 ? '#10B981' : points < 0 ? '#EF4444' : '#6B7280');
+
+export default function CustomersScreen() {
+  const router = useRouter();
+  // Opened from the cart with the attached customer
+  const params = useLocalSearchParams<{ id?: string }>();
+  const [query, setQuery] = useState('');
+  const [customers, setCustomers] = useState<Customer[]>([]);
+  const [searching, setSearching] = useState(false);
+  const [selectedId, setSelectedId] = useState<string | null>(params.id ?? null);
+  const [history, setHistory] = useState<CustomerHistory | null>(null);
+  const [loadingHistory, setLoadingHistory] = useState(false);
+  const [editing, setEditing] = useState(false);
+  const [form, setForm] = useState({ name: '', phone: '', email: '', notes: '' });
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    setSelectedId(params.id ?? null);
+  }, [params.id]);
+
+  const loadHistory = useCallback(async (customerId: string) => {
+    setLoadingHistory(true);
+    try {
+      const result = await fetchCustomerHistory(customerId);
+      if (result.error || !result.data) throw new Error(result.error || 'Failed to load customer');
+      setHistory(result.data);
+    } catch (error: any) {
+      console.error('Error loading customer history:', error);
+      Alert.alert('Error', error.message || 'Failed to load customer');
+    } finally {
+      setLoadingHistory(false);
+    }
+  }, []);
+
+  useFocusEffect(
+    useCallback(() => {
+      if (selectedId) {
+        loadHistory(selectedId);
+      }
+    }, [selectedId, loadHistory])
+  );
+
+  useEffect(() => {
+    setEditing(false);
+    if (!selectedId) setHistory(null);
+  }, [selectedId]);
+
+  // Wait for typing to stop before searching
+  useEffect(() => {
+    if (selectedId) return;
+
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      setSearching(true);
+      const result = await searchCustomers(query, 50);
+      if (cancelled) return;
+      if (result.error) {
+        console.error('Error searching customers:', result.error);
+      }
+      setCustomers(result.data ?? []);
+      setSearching(false);
+    }, 300);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [selectedId, query]);
+
+  const handleBack = () => {
+    if (selectedId && !params.id) {
+      setSelectedId(null);
+    } else {
+      router.back();
+    }
+  };
+
+  const startEditing = () => {
+    if (!history) return;
+    const { customer } = history;
+    setForm({
+      name: customer.name,
+      phone: customer.phone ?? '',
+      email: customer.email ?? '',
+      notes: customer.notes ?? '',
+    });
+    setEditing(true);
+  };
+
+  const handleSave = async () => {
+    if (!history) return;
+    if (!form.name.trim()) {
+      Alert.alert('Error', 'Please enter the customer name');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const result = await updateCustomer(history.customer.id, form);
+      if (result.error) throw new Error(result.error);
+
+      setEditing(false);
+      loadHistory(history.customer.id);
+    } catch (error: any) {
+      console.error('Error updating customer:', error);
+      Alert.alert('Error', error.message || 'Failed to update customer');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const renderSearch = () => (
+    <>
+      <View style={styles.searchBar}>
+        <Search size={18} color="#6B7280" />
+        <TextInput
+          style={styles.searchInput}
+          value={query}
+          onChangeText={setQuery}
+          placeholder="Search by name, phone or email"
+        />
+        {searching && <ActivityIndicator size="small" color="#3B82F6" />}
+      </View>
+
+      {customers.length === 0 && !searching ? (
+        <View style={styles.emptyState}>
+          <Text style={styles.emptyText}>No customers found</Text>
+          <Text style={styles.emptySubtext}>Customers are added from the cart at checkout</Text>
+        </View>
+      ) : (
+        customers.map(customer => (
+          <TouchableOpacity key={customer.id} style={styles.card} onPress={() => setSelectedId(customer.id)}>
+            <View style={styles.rowBetween}>
+              <Text style={styles.cardTitle}>{customer.name}</Text>
+              <Text style={[styles.pointsText, { color: getPointsColor(customer.points) }]}>
+                {formatPoints(customer.points)}
+              </Text>
+            </View>
+            {(customer.phone || customer.email) && (
+              <Text style={styles.cardMeta}>{[customer.phone, customer.email].filter(Boolean).join(' · ')}</Text>
+            )}
+          </TouchableOpacity>
+        ))
+      )}
+    </>
+  );
+
+  const renderEditForm = () => (
+    <View style={styles.card}>
+      <Text style={styles.label}>Name *</Text>
+      <TextInput style={styles.input} value={form.name} onChangeText={name => setForm({ ...form, name })} />
+      <Text style={styles.label}>Phone</Text>
+      <TextInput
+        style={styles.input}
+        value={form.phone}
+        onChangeText={phone => setForm({ ...form, phone })}
+        keyboardType="phone-pad"
+      />
+      <Text style={styles.label}>Email</Text>
+      <TextInput
+        style={styles.input}
+        value={form.email}
+        onChangeText={email => setForm({ ...form, email })}
+        keyboardType="email-address"
+        autoCapitalize="none"
+      />
+      <Text style={styles.label}>Notes</Text>
+      <TextInput
+        style={[styles.input, styles.notesInput]}
+        value={form.notes}
+        onChangeText={notes => setForm({ ...form, notes })}
+        multiline
+      />
+      <View style={styles.actions}>
+        <TouchableOpacity style={styles.primaryButton} onPress={handleSave} disabled={saving}>
+          {saving ? <ActivityIndicator color="#FFFFFF" /> : <Text style={styles.primaryButtonText}>Save</Text>}
+        </TouchableOpacity>
+        <TouchableOpacity style={styles.secondaryButton} onPress={() => setEditing(false)} disabled={saving}>
+          <Text style={styles.secondaryButtonText}>Cancel</Text>
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+
+  const renderHistory = () => {
+    if (!history) {
+      return loadingHistory ? <ActivityIndicator size="large" color="#3B82F6" style={styles.loader} /> : null;
+    }
+
+    const { customer, orders, transactions } = history;
+    const summary = summarizeLoyalty(transactions);
+
+    return (
+      <>
+        {editing ? (
+          renderEditForm()
+        ) : (
+          <View style={styles.card}>
+            <View style={styles.rowBetween}>
+              <Text style={styles.cardTitle}>{customer.name}</Text>
+              <TouchableOpacity onPress={startEditing}>
+                <Text style={styles.linkText}>Edit</Text>
+              </TouchableOpacity>
+            </View>
+            {customer.phone && <Text style={styles.cardSubtitle}>{customer.phone}</Text>}
+            {customer.email && <Text style={styles.cardSubtitle}>{customer.email}</Text>}
+            {customer.notes && <Text style={styles.notes}>{customer.notes}</Text>}
+            <Text style={styles.cardMeta}>Customer since {formatDate(customer.created_at)}</Text>
+          </View>
+        )}
+
+        <View style={styles.summaryGrid}>
+          <View style={styles.summaryCard}>
+            <Text style={styles.summaryLabel}>Points Balance</Text>
+            <Text style={[styles.summaryValue, { color: getPointsColor(summary.balance) }]}>{summary.balance}</Text>
+          </View>
+          <View style={styles.summaryCard}>
+            <Text style={styles.summaryLabel}>Orders</Text>
+            <Text style={styles.summaryValue}>{orders.length}</Text>
+          </View>
+          <View style={styles.summaryCard}>
+            <Text style={styles.summaryLabel}>Points Earned</Text>
+            <Text style={styles.summaryValue}>{summary.earned}</Text>
+          </View>
+          <View style={styles.summaryCard}>
+            <Text style={styles.summaryLabel}>Points Redeemed</Text>
+            <Text style={styles.summaryValue}>{summary.redeemed}</Text>
+          </View>
+        </View>
+
+        <Text style={styles.sectionTitle}>Orders</Text>
+        {orders.length === 0 ? (
+          <Text style={styles.cardSubtitle}>No orders yet</Text>
+        ) : (
+          orders.map(order => (
+            <View key={order.id} style={styles.historyRow}>
+              <View style={styles.historyInfo}>
+                <Text style={styles.historyTitle}>
+                  #{order.id.substring(0, 8)} · {formatDate(order.created_at)}
+                </Text>
+                <Text style={styles.cardMeta} numberOfLines={1}>
+                  {order.order_items.map(item => `${item.quantity}× ${item.products?.name ?? 'Item'}`).join(', ')}
+                </Text>
+                <Text style={styles.cardMeta}>
+                  {getStatusLabel(order.status)}
+                  {order.points_earned > 0 && ` · +${formatPoints(order.points_earned)}`}
+                  {order.points_redeemed > 0 && ` · −${formatPoints(order.points_redeemed)}`}
+                </Text>
+              </View>
+              <Text style={styles.historyAmount}>{formatPrice(Number(order.total))}</Text>
+            </View>
+          ))
+        )}
+
+        <Text style={styles.sectionTitle}>Points</Text>
+        {transactions.length === 0 ? (
+          <Text style={styles.cardSubtitle}>No points yet</Text>
+        ) : (
+          transactions.map(transaction => (
+            <View key={transaction.id} style={styles.historyRow}>
+              <View style={styles.historyInfo}>
+                <Text style={styles.historyTitle}>{LOYALTY_KIND_LABELS[transaction.kind]}</Text>
+                <Text style={styles.cardMeta}>
+                  {formatDate(transaction.created_at)}
+                  {transaction.order_id && ` · #${transaction.order_id.substring(0, 8)}`}
+                </Text>
+              </View>
+              <Text style={[styles.historyAmount, { color: getPointsColor(transaction.points) }]}>
+                {transaction.points > 0 ? '+' : ''}
+                {transaction.points}
+              </Text>
+            </View>
+          ))
+        )}
+      </>
+    );
+  };
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <View style={styles.header}>
+        <View style={styles.headerLeft}>
+          <TouchableOpacity onPress={handleBack}>
+            <ArrowLeft size={24} color="#111827" />
+          </TouchableOpacity>
+          <Text style={styles.headerTitle}>{selectedId ? 'Customer' : 'Customers'}</Text>
+        </View>
+      </View>
+
+      <ScrollView style={styles.content} keyboardShouldPersistTaps="handled">
+        {selectedId ? renderHistory() : renderSearch()}
+        <View style={styles.bottomSpacer} />
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F9FAFB',
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    backgroundColor: '#FFFFFF',
+    padding: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: '#E5E7EB',
+  },
+  headerLeft: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+  },
+  headerTitle: {
+    fontSize: 24,
+    fontWeight: '700',
+    color: '#111827',
+  },
+  content: {
+    flex: 1,
+    padding: 16,
+  },
+  loader: {
+    marginTop: 32,
+  },
+  searchBar: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    backgroundColor: '#FFFFFF',
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    marginBottom: 12,
+  },
+  searchInput: {
+    flex: 1,
+    paddingVertical: 10,
+    fontSize: 16,
+    color: '#111827',
+  },
+  card: {
+    backgroundColor: '#FFFFFF',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 12,
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+    gap: 4,
+  },
+  rowBetween: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    gap: 8,
+  },
+  cardTitle: {
+    flex: 1,
+    fontSize: 16,
+    fontWeight: '700',
+    color: '#111827',
+  },
+  cardSubtitle: {
+    fontSize: 14,
+    color: '#6B7280',
+  },
+  cardMeta: {
+    fontSize: 12,
+    color: '#6B7280',
+  },
+  notes: {
+    fontSize: 14,
+    color: '#374151',
+    fontStyle: 'italic',
+  },
+  pointsText: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  linkText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#3B82F6',
+  },
+  label: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#374151',
+    marginBottom: 6,
+    marginTop: 12,
+  },
+  input: {
+    backgroundColor: '#F9FAFB',
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+    borderRadius: 8,
+    padding: 12,
+    fontSize: 16,
+    color: '#111827',
+  },
+  notesInput: {
+    minHeight: 72,
+    textAlignVertical: 'top',
+  },
+  summaryGrid: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginBottom: 8,
+  },
+  summaryCard: {
+    flexGrow: 1,
+    minWidth: '45%',
+    backgroundColor: '#FFFFFF',
+    borderRadius: 12,
+    padding: 12,
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+  },
+  summaryLabel: {
+    fontSize: 12,
+    color: '#6B7280',
+    marginBottom: 4,
+  },
+  summaryValue: {
+    fontSize: 18,
+    fontWeight: '700',
+    color: '#111827',
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: '700',
+    color: '#111827',
+    marginTop: 16,
+    marginBottom: 8,
+  },
+  historyRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    gap: 12,
+    backgroundColor: '#FFFFFF',
+    paddingVertical: 10,
+    paddingHorizontal: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: '#F3F4F6',
+  },
+  historyInfo: {
+    flex: 1,
+  },
+  historyTitle: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#111827',
+  },
+  historyAmount: {
+    fontSize: 16,
+    fontWeight: '700',
+    color: '#111827',
+  },
+  actions: {
+    gap: 8,
+    marginTop: 16,
+  },
+  primaryButton: {
+    backgroundColor: '#3B82F6',
+    padding: 14,
+    borderRadius: 8,
+    alignItems: 'center',
+  },
+  primaryButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#FFFFFF',
+  },
+  secondaryButton: {
+    backgroundColor: '#EFF6FF',
+    padding: 14,
+    borderRadius: 8,
+    alignItems: 'center',
+  },
+  secondaryButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#3B82F6',
+  },
+  emptyState: {
+    alignItems: 'center',
+    padding: 32,
+  },
+  emptyText: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#111827',
+    marginBottom: 8,
+  },
+  emptySubtext: {
+    fontSize: 14,
+    color: '#6B7280',
+    textAlign: 'center',
+  },
+  bottomSpacer: {
+    height: 32,
+  },
+});
@@ -1,4 +1,4 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useCallback } from 'react';
 import {
   View,
   Text,
@@ -11,12 +11,25 @@ import {
   ActivityIndicator,
   Alert,
 } from 'react-native';
-import { useRouter } from 'expo-router';
+import { useRouter, useFocusEffect } from 'expo-router';
 import { useAuth } from '@/contexts/AuthContext';
 import { useCart } from '@/contexts/CartContext';
-import { fetchCategories, fetchActiveProducts } from '@/services/products.service';
+import { useSalesQueue, QueuedSale } from '@/contexts/SalesQueueContext';
+import { fetchCategories, fetchProductByCode, fetchVariants } from '@/services/products.service';
+import { fetchModifierGroups } from '@/services/modifiers.service';
+import BarcodeScanner from '@/components/BarcodeScanner';
+import ModifierPickerModal from '@/components/ModifierPickerModal';
+import VariantPickerModal from '@/components/VariantPickerModal';
+import HeldTicketsModal from '@/components/HeldTicketsModal';
 import { formatPrice } from '@/utils/currency';
-import { Plus, Minus, ShoppingCart, CreditCard, Banknote, Smartphone } from 'lucide-react-native';
+import { getProductModifierGroups, ModifierGroup, SelectedModifier } from '@/utils/modifiers';
+import { isLowStock } from '@/utils/reorder';
+import { computeTotals } from '@/utils/tax';
+import { formatPriceRange, getTopLevelProducts, getVariants, getVariantStock } from '@/utils/variants';
+import { useTaxConfig } from '@/hooks/useTaxConfig';
+import { useProductSearch } from '@/hooks/useProductSearch';
+import { findProductByCode, isNearScrollEnd, mergeProductPages } from '@/utils/productSearch';
+import { Plus, Minus, ShoppingCart, CreditCard, Banknote, Smartphone, Wifi, WifiOff, Clock, ScanLine, CirclePause, Search } from 'lucide-react-native';
 
 type Category = {
   id: string;
@@ -29,52 +42,92 @@ type Product = {
   name: string;
   price: number;
   category_id: string | null;
+  tax_class_id: string | null;
   stock: number;
+  reorder_point: number;
+  sku: string | null;
+  barcode: string | null;
+  parent_id: string | null;
+  variant_name: string | null;
+  created_at?: string;
 };
 
 export default function POSScreen() {
   const router = useRouter();
   const { user } = useAuth();
-  const { addToCart, getCartCount, getCartTotal, cart } = useCart();
+  const { addToCart, getCartCount, cart, heldTickets } = useCart();
+  const { isOnline, queue, pendingCount, replaying, replayQueue, retrySale, sellAvailable, discardSale } = useSalesQueue();
   const [categories, setCategories] = useState<Category[]>([]);
-  const [products, setProducts] = useState<Product[]>([]);
   const [selectedCategory, setSelectedCategory] = useState<string | null>(null);
-  const [loading, setLoading] = useState(true);
+  const [searchInput, setSearchInput] = useState('');
+  const [searchQuery, setSearchQuery] = useState('');
   const [checkoutModal, setCheckoutModal] = useState(false);
   const [processingPayment, setProcessingPayment] = useState(false);
+  const [pendingModal, setPendingModal] = useState(false);
+  const [ticketsModal, setTicketsModal] = useState(false);
+  const [scanMode, setScanMode] = useState(false);
+  const [lastScanMessage, setLastScanMessage] = useState<string | null>(null);
+  const [variantPickerProduct, setVariantPickerProduct] = useState<Product | null>(null);
+  const [modifierGroups, setModifierGroups] = useState<ModifierGroup[]>([]);
+  const [modifierPickerProduct, setModifierPickerProduct] = useState<Product | null>(null);
+  // Variants of scanned products that are not on a loaded page
+  const [scannedVariants, setScannedVariants] = useState<Product[]>([]);
+  const { taxConfig } = useTaxConfig();
+  const cartTotals = computeTotals(cart, taxConfig);
+  // Pages of the selected category matching the search, cached between tab switches
+  const { products, loading, loadingMore, hasMore, loadMore, revalidate } = useProductSearch<Product>({
+    query: searchQuery,
+    categoryId: selectedCategory,
+  });
 
   useEffect(() => {
     loadData();
   }, []);
 
+  // Stock changes after each sale, so old pages are refetched on the way back
+  useFocusEffect(
+    useCallback(() => {
+      revalidate();
+    }, [revalidate])
+  );
+
+  // Wait for typing to stop before searching
+  useEffect(() => {
+    const timer = setTimeout(() => setSearchQuery(searchInput), 300);
+    return () => clearTimeout(timer);
+  }, [searchInput]);
+
   const loadData = async () => {
     try {
-      const [categoriesResult, productsResult] = await Promise.all([
+      const [categoriesResult, modifiersResult] = await Promise.all([
         fetchCategories(),
-        fetchActiveProducts(),
+        fetchModifierGroups(),
       ]);
 
       if (categoriesResult.data) setCategories(categoriesResult.data);
-      if (productsResult.data) setProducts(productsResult.data);
+      if (modifiersResult.data) setModifierGroups(modifiersResult.data);
       
       if (categoriesResult.error) {
         console.error('Error loading categories:', categoriesResult.error);
       }
-      if (productsResult.error) {
-        console.error('Error loading products:', productsResult.error);
+      if (modifiersResult.error) {
+        console.error('Error loading modifiers:', modifiersResult.error);
       }
     } catch (error) {
       console.error('Error loading data:', error);
-    } finally {
-      setLoading(false);
     }
   };
 
-  const filteredProducts = selectedCategory
-    ? products.filter((p) => p.category_id === selectedCategory)
-    : products;
+  // Variants are picked from their parent's card rather than shown in the grid
+  const filteredProducts = getTopLevelProducts(products);
+  // Loaded pages win over earlier scans, which may hold older stock
+  const knownProducts = mergeProductPages(scannedVariants, products);
 
-  const handleAddToCart = (product: Product) => {
+  // Summed over lines, since the same product can be in the cart with different modifiers
+  const getCartQuantity = (productId: string) =>
+    cart.reduce((sum, item) => (item.product.id === productId ? sum + item.quantity : sum), 0);
+
+  const handleAddToCart = (product: Product, modifiers: SelectedModifier[] = []) => {
     // Check if product has sufficient stock
     if (product.stock <= 0) {
       Alert.alert('Insufficient Stock', 'This product is out of stock.');
@@ -82,33 +135,75 @@ export default function POSScreen() {
     }
 
     // Check if adding to cart would exceed available stock
-    const cartItem = cart.find(item => item.product.id === product.id);
-    const currentQuantity = cartItem ? cartItem.quantity : 0;
+    const currentQuantity = getCartQuantity(product.id);
     
     if (currentQuantity + 1 > product.stock) {
       Alert.alert('Insufficient Stock', `Only ${product.stock} items available.`);
       return;
     }
 
-    const success = addToCart(product);
+    const success = addToCart(product, modifiers);
     if (!success) {
       Alert.alert('Error', 'Failed to add item to cart. Please try again.');
     }
   };
 
-  const getSubtotal = () => {
-    // This will be calculated in the cart context
-    return 0;
+  // Asks for options first when the product has modifier groups
+  const handleSellableProduct = (product: Product) => {
+    if (getProductModifierGroups(modifierGroups, product).length > 0) {
+      if (product.stock - getCartQuantity(product.id) <= 0) {
+        Alert.alert('Insufficient Stock', `Only ${product.stock} items available.`);
+        return;
+      }
+      setModifierPickerProduct(product);
+      return;
+    }
+    handleAddToCart(product);
   };
 
-  const getTax = () => {
-    // This will be calculated in the cart context
-    return 0;
+  const handleProductPress = (product: Product, catalog: Product[] = knownProducts) => {
+    if (getVariants(catalog, product.id).length > 0) {
+      setVariantPickerProduct(product);
+      return;
+    }
+    handleSellableProduct(product);
   };
 
-  const getTotal = () => {
-    // This will be calculated in the cart context
-    return 0;
+  const handleScan = async (code: string) => {
+    // Match against the loaded pages first so scanning keeps working offline
+    let catalog = knownProducts;
+    let product: Product | null = findProductByCode(catalog, code) || null;
+
+    if (!product) {
+      const result = await fetchProductByCode(code);
+      if (result.error) {
+        console.error('Error looking up scanned code:', result.error);
+        Alert.alert('Error', 'Failed to look up the scanned code. Please try again.');
+        return;
+      }
+      product = result.data;
+
+      // A parent's variants are needed to offer the choice of option
+      if (product && !product.parent_id) {
+        const variantsResult = await fetchVariants([product.id]);
+        if (variantsResult.error) {
+          console.error('Error loading variants:', variantsResult.error);
+        }
+        if (variantsResult.data && variantsResult.data.length > 0) {
+          catalog = mergeProductPages(catalog, variantsResult.data);
+          setScannedVariants((current) => mergeProductPages(current, variantsResult.data ?? []));
+        }
+      }
+    }
+
+    if (!product) {
+      setLastScanMessage(null);
+      Alert.alert('Not Found', `No product matches "${code}".`);
+      return;
+    }
+
+    handleProductPress(product, catalog);
+    setLastScanMessage(`Scanned: ${product.name}`);
   };
 
   const handleCheckout = async (paymentMethod: 'cash' | 'card' | 'mobile') => {
@@ -116,29 +211,94 @@ export default function POSScreen() {
     router.push('/(tabs)/cart');
   };
 
-  if (loading) {
-    return (
-      <View style={styles.loadingContainer}>
-        <ActivityIndicator size="large" color="#3B82F6" />
-      </View>
+  const getQueuedSaleSubtotal = (sale: QueuedSale) => {
+    return sale.items.reduce((sum, item) => sum + item.price * item.quantity, 0);
+  };
+
+  const getConflictMessage = (sale: QueuedSale) => {
+    return sale.errors
+      .map(lineError => {
+        // Errors without a product apply to the sale as a whole
+        switch (lineError.code) {
+          case 'INSUFFICIENT_PAYMENT':
+            return `Payments no longer cover the total of ${formatPrice(lineError.amount_due ?? 0)}`;
+          case 'PAYMENT_EXCEEDS_TOTAL':
+            return `Card/GCash payments exceed the new total of ${formatPrice(lineError.amount_due ?? 0)}`;
+          case 'DISCOUNT_APPROVAL_REQUIRED':
+            return 'Discount approval has expired';
+        }
+        const item = sale.items.find(i => i.product_id === lineError.product_id);
+        const name = item?.name || lineError.product_name || 'Item';
+        if (lineError.code === 'INSUFFICIENT_STOCK') {
+          return `${name}: only ${lineError.available_stock} left (sold ${lineError.requested_qty})`;
+        }
+        return `${name}: no longer available`;
+      })
+      .join('\n');
+  };
+
+  const handleDiscardSale = (sale: QueuedSale) => {
+    Alert.alert(
+      'Discard Sale',
+      'This sale will not be recorded. Make sure the customer has been refunded.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Discard', style: 'destructive', onPress: () => discardSale(sale.id) },
+      ]
     );
-  }
+  };
 
   return (
     <SafeAreaView style={styles.container}>
       <View style={styles.header}>
         <Text style={styles.headerTitle}>Point of Sale</Text>
-        <TouchableOpacity 
-          style={styles.cartButton}
-          onPress={() => router.push('/(tabs)/cart')}
-        >
-          <ShoppingCart size={24} color="#111827" />
-          {getCartCount() > 0 && (
-            <View style={styles.cartBadge}>
-              <Text style={styles.cartBadgeText}>{getCartCount()}</Text>
-            </View>
+        <View style={styles.headerActions}>
+          <View style={[styles.connectionBadge, !isOnline && styles.connectionBadgeOffline]}>
+            {isOnline ? (
+              <Wifi size={14} color="#10B981" />
+            ) : (
+              <WifiOff size={14} color="#EF4444" />
+            )}
+            <Text style={[styles.connectionText, !isOnline && styles.connectionTextOffline]}>
+              {isOnline ? 'Online' : 'Offline'}
+            </Text>
+          </View>
+          <TouchableOpacity
+            style={[styles.scanButton, scanMode && styles.scanButtonActive]}
+            onPress={() => {
+              setScanMode(!scanMode);
+              setLastScanMessage(null);
+            }}>
+            <ScanLine size={20} color={scanMode ? '#FFFFFF' : '#111827'} />
+          </TouchableOpacity>
+          {pendingCount > 0 && (
+            <TouchableOpacity
+              style={styles.pendingButton}
+              onPress={() => setPendingModal(true)}>
+              <Clock size={14} color="#92400E" />
+              <Text style={styles.pendingButtonText}>{pendingCount} pending</Text>
+            </TouchableOpacity>
           )}
-        </TouchableOpacity>
+          <TouchableOpacity
+            style={styles.ticketsButton}
+            onPress={() => setTicketsModal(true)}>
+            <CirclePause size={14} color="#3B82F6" />
+            {heldTickets.length > 0 && (
+              <Text style={styles.ticketsButtonText}>{heldTickets.length} held</Text>
+            )}
+          </TouchableOpacity>
+          <TouchableOpacity 
+            style={styles.cartButton}
+            onPress={() => router.push('/(tabs)/cart')}
+          >
+            <ShoppingCart size={24} color="#111827" />
+            {getCartCount() > 0 && (
+              <View style={styles.cartBadge}>
+                <Text style={styles.cartBadgeText}>{getCartCount()}</Text>
+              </View>
+            )}
+          </TouchableOpacity>
+        </View>
       </View>
 
       {/* Cart Summary Bar */}
@@ -148,13 +308,34 @@ export default function POSScreen() {
             {getCartCount()} items in cart
           </Text>
           <Text style={styles.cartSummaryText}>
-            Total: {formatPrice(getCartTotal())}
+            Total: {formatPrice(cartTotals.total)}
           </Text>
         </View>
       )}
 
       <View style={styles.content}>
         <View style={styles.productsSection}>
+          {scanMode && (
+            <View style={styles.scanSection}>
+              <BarcodeScanner onScan={handleScan} />
+              {lastScanMessage && (
+                <Text style={styles.scanMessage}>{lastScanMessage}</Text>
+              )}
+            </View>
+          )}
+
+          <View style={styles.searchBar}>
+            <Search size={18} color="#6B7280" />
+            <TextInput
+              style={styles.searchInput}
+              value={searchInput}
+              onChangeText={setSearchInput}
+              placeholder="Search by name, SKU or barcode"
+              autoCorrect={false}
+              clearButtonMode="while-editing"
+            />
+          </View>
+
           <ScrollView horizontal showsHorizontalScrollIndicator={false} style={styles.categoriesScroll}>
             <TouchableOpacity
               style={[styles.categoryChip, !selectedCategory && styles.categoryChipActive]}
@@ -183,14 +364,31 @@ export default function POSScreen() {
             ))}
           </ScrollView>
 
-          <ScrollView style={styles.productsGrid}>
+          <ScrollView
+            style={styles.productsGrid}
+            scrollEventThrottle={200}
+            onScroll={({ nativeEvent }) => {
+              if (hasMore && isNearScrollEnd(nativeEvent)) loadMore();
+            }}>
+            {loading && (
+              <ActivityIndicator size="large" color="#3B82F6" style={styles.gridLoading} />
+            )}
+            {!loading && filteredProducts.length === 0 && (
+              <Text style={styles.emptyGridText}>
+                {searchQuery.trim() ? 'No products found' : 'No products yet'}
+              </Text>
+            )}
             <View style={styles.productsRow}>
               {filteredProducts.map((product) => {
-                const cartItem = cart.find(item => item.product.id === product.id);
-                const currentQuantity = cartItem ? cartItem.quantity : 0;
-                const isOutOfStock = product.stock === 0;
-                const isLowStock = product.stock > 0 && product.stock <= 5;
-                const isMaxQuantityReached = currentQuantity >= product.stock;
+                const variants = getVariants(products, product.id);
+                const hasVariants = variants.length > 0;
+                const stock = hasVariants ? getVariantStock(variants) : product.stock;
+                const currentQuantity = hasVariants
+                  ? variants.reduce((sum, variant) => sum + getCartQuantity(variant.id), 0)
+                  : getCartQuantity(product.id);
+                const isOutOfStock = stock <= 0;
+                const lowStock = hasVariants ? variants.some(isLowStock) : isLowStock(product);
+                const isMaxQuantityReached = currentQuantity >= stock;
                 
                 return (
                   <TouchableOpacity
@@ -198,18 +396,21 @@ export default function POSScreen() {
                     style={[
                       styles.productCard,
                       isOutOfStock && styles.productCardOutOfStock,
-                      isLowStock && styles.productCardLowStock
+                      lowStock && styles.productCardLowStock
                     ]}
-                    onPress={() => !isOutOfStock && handleAddToCart(product)}
+                    onPress={() => !isOutOfStock && handleProductPress(product)}
                     disabled={isOutOfStock}>
                     <Text style={styles.productName}>{product.name}</Text>
-                    <Text style={styles.productPrice}>{formatPrice(product.price)}</Text>
+                    <Text style={styles.productPrice}>
+                      {hasVariants ? formatPriceRange(variants) : formatPrice(product.price)}
+                    </Text>
                     <Text style={[
                       styles.productStock,
                       isOutOfStock && styles.productStockOutOfStock,
-                      isLowStock && styles.productStockLowStock
+                      lowStock && styles.productStockLowStock
                     ]}>
-                      Stock: {product.stock}
+                      Stock: {stock}
+                      {hasVariants && ` · ${variants.length} options`}
                       {currentQuantity > 0 && ` (${currentQuantity} in cart)`}
                     </Text>
                     {isOutOfStock && (
@@ -217,7 +418,7 @@ export default function POSScreen() {
                         <Text style={styles.outOfStockText}>Out of Stock</Text>
                       </View>
                     )}
-                    {isLowStock && !isOutOfStock && (
+                    {lowStock && !isOutOfStock && (
                       <View style={styles.lowStockBadge}>
                         <Text style={styles.lowStockText}>Low Stock</Text>
                       </View>
@@ -230,18 +431,21 @@ export default function POSScreen() {
                       ]}
                       onPress={(e) => {
                         e.stopPropagation();
-                        handleAddToCart(product);
+                        handleProductPress(product);
                       }}
                       disabled={isOutOfStock || isMaxQuantityReached}>
                       <Plus size={16} color="#FFFFFF" />
                       <Text style={styles.addToCartText}>
-                        {isOutOfStock ? 'Out of Stock' : isMaxQuantityReached ? 'Max Reached' : 'Add'}
+                        {isOutOfStock ? 'Out of Stock' : isMaxQuantityReached ? 'Max Reached' : hasVariants ? 'Choose' : 'Add'}
                       </Text>
                     </TouchableOpacity>
                   </TouchableOpacity>
                 );
               })}
             </View>
+            {loadingMore && (
+              <ActivityIndicator color="#3B82F6" style={styles.loadingMore} />
+            )}
           </ScrollView>
         </View>
       </View>
@@ -260,6 +464,105 @@ export default function POSScreen() {
         </TouchableOpacity>
       </View>
 
+      <Modal
+        visible={pendingModal}
+        transparent
+        animationType="slide"
+        onRequestClose={() => setPendingModal(false)}>
+        <View style={styles.modalOverlay}>
+          <View style={styles.modalContent}>
+            <Text style={styles.modalTitle}>Pending Sales</Text>
+            <Text style={styles.pendingSubtitle}>
+              {isOnline
+                ? 'Sales saved while offline are being submitted.'
+                : 'Sales will be submitted when the connection returns.'}
+            </Text>
+
+            <ScrollView style={styles.pendingList}>
+              {queue.length === 0 ? (
+                <Text style={styles.pendingEmptyText}>All sales have been submitted.</Text>
+              ) : (
+                queue.map((sale) => (
+                  <View
+                    key={sale.id}
+                    style={[styles.pendingSale, sale.status === 'conflict' && styles.pendingSaleConflict]}>
+                    <View style={styles.pendingSaleHeader}>
+                      <Text style={styles.pendingSaleTitle}>
+                        {new Date(sale.queuedAt).toLocaleTimeString('en-US', { hour: '2-digit', minute: '2-digit' })}
+                        {' · '}
+                        {sale.paymentMethod.charAt(0).toUpperCase() + sale.paymentMethod.slice(1)}
+                      </Text>
+                      <Text style={styles.pendingSaleAmount}>{formatPrice(getQueuedSaleSubtotal(sale))}</Text>
+                    </View>
+                    <Text style={styles.pendingSaleItems}>
+                      {sale.items.map(item => `${item.quantity}x ${item.name}`).join(', ')}
+                    </Text>
+                    {sale.status === 'conflict' ? (
+                      <>
+                        {/* Without line errors the server turned the sale down as a whole */}
+                        <Text style={styles.pendingSaleConflictText}>
+                          {sale.errors.length > 0
+                            ? `Some items could not be sold:\n${getConflictMessage(sale)}`
+                            : `The sale was rejected: ${sale.lastError || 'unknown error'}`}
+                        </Text>
+                        <View style={styles.pendingSaleActions}>
+                          {sale.errors.length > 0 && (
+                            <TouchableOpacity
+                              style={styles.pendingActionButton}
+                              onPress={() => sellAvailable(sale.id)}>
+                              <Text style={styles.pendingActionText}>Sell Available</Text>
+                            </TouchableOpacity>
+                          )}
+                          <TouchableOpacity
+                            style={styles.pendingActionButton}
+                            onPress={() => retrySale(sale.id)}>
+                            <Text style={styles.pendingActionText}>Retry</Text>
+                          </TouchableOpacity>
+                          <TouchableOpacity
+                            style={[styles.pendingActionButton, styles.pendingActionDestructive]}
+                            onPress={() => handleDiscardSale(sale)}>
+                            <Text style={[styles.pendingActionText, styles.pendingActionDestructiveText]}>Discard</Text>
+                          </TouchableOpacity>
+                        </View>
+                      </>
+                    ) : (
+                      sale.lastError && (
+                        <Text style={styles.pendingSaleErrorText}>Last attempt failed: {sale.lastError}</Text>
+                      )
+                    )}
+                  </View>
+                ))
+              )}
+            </ScrollView>
+
+            {replaying && (
+              <ActivityIndicator size="small" color="#3B82F6" style={styles.modalLoader} />
+            )}
+
+            {isOnline && queue.some(sale => sale.status === 'pending') && (
+              <TouchableOpacity
+                style={styles.paymentOption}
+                onPress={() => replayQueue()}
+                disabled={replaying}>
+                <Text style={styles.paymentOptionText}>Submit Now</Text>
+              </TouchableOpacity>
+            )}
+
+            <TouchableOpacity
+              style={styles.cancelButton}
+              onPress={() => setPendingModal(false)}>
+              <Text style={styles.cancelButtonText}>Close</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      </Modal>
+
+      <HeldTicketsModal
+        visible={ticketsModal}
+        onClose={() => setTicketsModal(false)}
+        onRecalled={() => router.push('/(tabs)/cart')}
+      />
+
       <Modal
         visible={checkoutModal}
         transparent
@@ -268,7 +571,7 @@ export default function POSScreen() {
         <View style={styles.modalOverlay}>
           <View style={styles.modalContent}>
             <Text style={styles.modalTitle}>Select Payment Method</Text>
-            <Text style={styles.modalAmount}>{formatPrice(getTotal())}</Text>
+            <Text style={styles.modalAmount}>{formatPrice(cartTotals.total)}</Text>
 
             <TouchableOpacity
               style={styles.paymentOption}
@@ -307,6 +610,31 @@ export default function POSScreen() {
           </View>
         </View>
       </Modal>
+
+      <VariantPickerModal
+        visible={variantPickerProduct !== null}
+        productName={variantPickerProduct?.name ?? ''}
+        variants={variantPickerProduct ? getVariants(knownProducts, variantPickerProduct.id) : []}
+        cartQuantities={Object.fromEntries(cart.map(item => [item.product.id, getCartQuantity(item.product.id)]))}
+        onSelect={(variant) => {
+          setVariantPickerProduct(null);
+          handleSellableProduct(variant);
+        }}
+        onClose={() => setVariantPickerProduct(null)}
+      />
+
+      <ModifierPickerModal
+        visible={modifierPickerProduct !== null}
+        productName={modifierPickerProduct?.name ?? ''}
+        price={modifierPickerProduct?.price ?? 0}
+        groups={modifierPickerProduct ? getProductModifierGroups(modifierGroups, modifierPickerProduct) : []}
+        onConfirm={(modifiers) => {
+          const product = modifierPickerProduct;
+          setModifierPickerProduct(null);
+          if (product) handleAddToCart(product, modifiers);
+        }}
+        onClose={() => setModifierPickerProduct(null)}
+      />
     </SafeAreaView>
   );
 }
@@ -316,11 +644,6 @@ const styles = StyleSheet.create({
     flex: 1,
     backgroundColor: '#F9FAFB',
   },
-  loadingContainer: {
-    flex: 1,
-    justifyContent: 'center',
-    alignItems: 'center',
-  },
   header: {
     backgroundColor: '#FFFFFF',
     padding: 16,
@@ -335,6 +658,75 @@ const styles = StyleSheet.create({
     fontWeight: '700',
     color: '#111827',
   },
+  headerActions: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  connectionBadge: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    paddingHorizontal: 8,
+    paddingVertical: 4,
+    borderRadius: 12,
+    backgroundColor: '#D1FAE5',
+  },
+  connectionBadgeOffline: {
+    backgroundColor: '#FEE2E2',
+  },
+  connectionText: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#065F46',
+  },
+  connectionTextOffline: {
+    color: '#991B1B',
+  },
+  pendingButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    paddingHorizontal: 8,
+    paddingVertical: 4,
+    borderRadius: 12,
+    backgroundColor: '#FEF3C7',
+  },
+  pendingButtonText: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#92400E',
+  },
+  ticketsButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    paddingHorizontal: 8,
+    paddingVertical: 6,
+    borderRadius: 12,
+    backgroundColor: '#EFF6FF',
+  },
+  ticketsButtonText: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#3B82F6',
+  },
+  scanButton: {
+    padding: 6,
+    borderRadius: 8,
+  },
+  scanButtonActive: {
+    backgroundColor: '#3B82F6',
+  },
+  scanSection: {
+    marginBottom: 16,
+  },
+  scanMessage: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#10B981',
+    marginTop: 8,
+  },
   cartButton: {
     position: 'relative',
     padding: 4,
@@ -375,6 +767,23 @@ const styles = StyleSheet.create({
     flex: 1,
     padding: 16,
   },
+  searchBar: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    backgroundColor: '#FFFFFF',
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    marginBottom: 12,
+  },
+  searchInput: {
+    flex: 1,
+    paddingVertical: 10,
+    fontSize: 15,
+    color: '#111827',
+  },
   categoriesScroll: {
     marginBottom: 16,
     maxHeight: 48,
@@ -403,6 +812,18 @@ const styles = StyleSheet.create({
   productsGrid: {
     flex: 1,
   },
+  gridLoading: {
+    marginTop: 48,
+  },
+  emptyGridText: {
+    fontSize: 16,
+    color: '#6B7280',
+    textAlign: 'center',
+    marginTop: 48,
+  },
+  loadingMore: {
+    marginVertical: 16,
+  },
   productsRow: {
     flexDirection: 'row',
     flexWrap: 'wrap',
@@ -522,6 +943,88 @@ const styles = StyleSheet.create({
     fontWeight: '600',
     color: '#111827',
   },
+  pendingSubtitle: {
+    fontSize: 14,
+    color: '#6B7280',
+    textAlign: 'center',
+    marginBottom: 16,
+  },
+  pendingList: {
+    maxHeight: 360,
+    marginBottom: 12,
+  },
+  pendingEmptyText: {
+    fontSize: 14,
+    color: '#6B7280',
+    textAlign: 'center',
+    paddingVertical: 16,
+  },
+  pendingSale: {
+    backgroundColor: '#F9FAFB',
+    borderRadius: 12,
+    padding: 12,
+    marginBottom: 8,
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+  },
+  pendingSaleConflict: {
+    backgroundColor: '#FEF2F2',
+    borderColor: '#FCA5A5',
+  },
+  pendingSaleHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginBottom: 4,
+  },
+  pendingSaleTitle: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#111827',
+  },
+  pendingSaleAmount: {
+    fontSize: 14,
+    fontWeight: '700',
+    color: '#3B82F6',
+  },
+  pendingSaleItems: {
+    fontSize: 12,
+    color: '#6B7280',
+  },
+  pendingSaleConflictText: {
+    fontSize: 12,
+    color: '#991B1B',
+    marginTop: 8,
+  },
+  pendingSaleErrorText: {
+    fontSize: 12,
+    color: '#92400E',
+    marginTop: 8,
+  },
+  pendingSaleActions: {
+    flexDirection: 'row',
+    gap: 8,
+    marginTop: 8,
+  },
+  pendingActionButton: {
+    flex: 1,
+    paddingVertical: 8,
+    borderRadius: 8,
+    backgroundColor: '#FFFFFF',
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+    alignItems: 'center',
+  },
+  pendingActionText: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#374151',
+  },
+  pendingActionDestructive: {
+    borderColor: '#FCA5A5',
+  },
+  pendingActionDestructiveText: {
+    color: '#EF4444',
+  },
   modalLoader: {
     marginVertical: 16,
   },
@@ -0,0 +1,620 @@
+import { useState, useCallback } from 'react';
+import {
+  View,
+  Text,
+  ScrollView,
+  StyleSheet,
+  SafeAreaView,
+  ActivityIndicator,
+  TouchableOpacity,
+  TextInput,
+  Alert,
+  Switch,
+} from 'react-native';
+import { useRouter, useFocusEffect } from 'expo-router';
+import { ArrowLeft, Edit2, Plus, Search, Trash2 } from 'lucide-react-native';
+import { useAuth } from '@/contexts/AuthContext';
+import { fetchCategories, fetchProducts } from '@/services/products.service';
+import { deleteModifierGroup, fetchModifierGroups, saveModifierGroup } from '@/services/modifiers.service';
+import { describeSelectionRule, formatModifiers, getActiveModifiers, ModifierGroup } from '@/utils/modifiers';
+
+type OptionForm = {
+  id?: string;
+  name: string;
+  price_delta: string;
+  active: boolean;
+};
+
+type GroupForm = {
+  name: string;
+  min_select: string;
+  max_select: string;
+  modifiers: OptionForm[];
+  product_ids: string[];
+  category_ids: string[];
+};
+
+const EMPTY_FORM: GroupForm = {
+  name: '',
+  min_select: '0',
+  max_select: '1',
+  modifiers: [{ name: '', price_delta: '0', active: true }],
+  product_ids: [],
+  category_ids: [],
+};
+
+const toggleId = (ids: string[], id: string) => (ids.includes(id) ? ids.filter(i => i !== id) : [...ids, id]);
+
+export default function ModifiersScreen() {
+  const { profile } = useAuth();
+  const router = useRouter();
+  const [groups, setGroups] = useState<ModifierGroup[]>([]);
+  const [products, setProducts] = useState<{ id: string; name: string }[]>([]);
+  const [categories, setCategories] = useState<{ id: string; name: string }[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  // null while browsing; 'new' or the group id while editing
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [form, setForm] = useState<GroupForm>(EMPTY_FORM);
+  const [productQuery, setProductQuery] = useState('');
+
+  const isAdmin = profile?.role === 'admin';
+
+  const loadData = useCallback(async () => {
+    try {
+      const [groupsResult, productsResult, categoriesResult] = await Promise.all([
+        fetchModifierGroups(),
+        fetchProducts(),
+        fetchCategories(),
+      ]);
+      if (groupsResult.error) throw new Error(groupsResult.error);
+      if (productsResult.error) throw new Error(productsResult.error);
+      if (categoriesResult.error) throw new Error(categoriesResult.error);
+
+      setGroups(groupsResult.data || []);
+      // Variants use their parent's groups, so only top-level products are offered
+      setProducts((productsResult.data || []).filter(p => !p.parent_id));
+      setCategories(categoriesResult.data || []);
+    } catch (error: any) {
+      console.error('Error loading modifiers:', error);
+      Alert.alert('Error', error.message || 'Failed to load modifiers');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useFocusEffect(
+    useCallback(() => {
+      loadData();
+    }, [loadData])
+  );
+
+  const openNewGroup = () => {
+    setForm(EMPTY_FORM);
+    setProductQuery('');
+    setEditingId('new');
+  };
+
+  const openEditGroup = (group: ModifierGroup) => {
+    setForm({
+      name: group.name,
+      min_select: group.min_select.toString(),
+      max_select: group.max_select === null ? '' : group.max_select.toString(),
+      modifiers: group.modifiers.map(modifier => ({
+        id: modifier.id,
+        name: modifier.name,
+        price_delta: modifier.price_delta.toString(),
+        active: modifier.active,
+      })),
+      product_ids: group.product_ids,
+      category_ids: group.category_ids,
+    });
+    setProductQuery('');
+    setEditingId(group.id);
+  };
+
+  const updateOption = (index: number, changes: Partial<OptionForm>) => {
+    setForm(current => ({
+      ...current,
+      modifiers: current.modifiers.map((option, i) => (i === index ? { ...option, ...changes } : option)),
+    }));
+  };
+
+  const removeOption = (index: number) => {
+    setForm(current => ({ ...current, modifiers: current.modifiers.filter((_, i) => i !== index) }));
+  };
+
+  const handleSave = async () => {
+    const name = form.name.trim();
+    const minSelect = parseInt(form.min_select, 10);
+    const maxSelect = form.max_select.trim() ? parseInt(form.max_select, 10) : null;
+    const modifiers = form.modifiers
+      .filter(option => option.name.trim())
+      .map(option => ({
+        id: option.id,
+        name: option.name.trim(),
+        price_delta: parseFloat(option.price_delta),
+        active: option.active,
+      }));
+    const activeCount = modifiers.filter(option => option.active).length;
+
+    if (!name) {
+      Alert.alert('Error', 'Please enter the group name, e.g. Milk');
+      return;
+    }
+    if (isNaN(minSelect) || minSelect < 0) {
+      Alert.alert('Error', 'Minimum must be zero or more');
+      return;
+    }
+    if (maxSelect !== null && (isNaN(maxSelect) || maxSelect < 1 || maxSelect < minSelect)) {
+      Alert.alert('Error', 'Maximum must be at least 1 and not less than the minimum');
+      return;
+    }
+    if (modifiers.length === 0) {
+      Alert.alert('Error', 'Add at least one option');
+      return;
+    }
+    if (modifiers.some(option => isNaN(option.price_delta))) {
+      Alert.alert('Error', 'Please enter a valid price for each option');
+      return;
+    }
+    if (activeCount < minSelect) {
+      Alert.alert('Error', `The group needs at least ${minSelect} active options`);
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const result = await saveModifierGroup(editingId === 'new' ? null : editingId, {
+        name,
+        min_select: minSelect,
+        max_select: maxSelect,
+        modifiers,
+        product_ids: form.product_ids,
+        category_ids: form.category_ids,
+      });
+      if (result.error) throw new Error(result.error);
+
+      setEditingId(null);
+      await loadData();
+    } catch (error: any) {
+      console.error('Error saving modifier group:', error);
+      Alert.alert('Error', error.message || 'Failed to save modifier group');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const confirmDelete = (group: ModifierGroup) => {
+    Alert.alert(
+      'Delete Modifier Group',
+      `Delete ${group.name}? Past orders keep the options they were sold with.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: async () => {
+            const result = await deleteModifierGroup(group.id);
+            if (result.error) {
+              Alert.alert('Error', result.error);
+              return;
+            }
+            await loadData();
+          },
+        },
+      ]
+    );
+  };
+
+  if (loading) {
+    return (
+      <View style={styles.loadingContainer}>
+        <ActivityIndicator size="large" color="#3B82F6" />
+      </View>
+    );
+  }
+
+  if (!isAdmin) {
+    return (
+      <SafeAreaView style={styles.container}>
+        <View style={styles.emptyState}>
+          <Text style={styles.emptyText}>Access Denied</Text>
+          <Text style={styles.emptySubtext}>Only admins can manage modifiers</Text>
+        </View>
+      </SafeAreaView>
+    );
+  }
+
+  const query = productQuery.trim().toLowerCase();
+  // Linked products stay visible so they can be unlinked without searching
+  const visibleProducts = products.filter(
+    p => form.product_ids.includes(p.id) || (query.length > 0 && p.name.toLowerCase().includes(query))
+  );
+
+  const renderEditor = () => (
+    <View style={styles.card}>
+      <Text style={styles.cardTitle}>{editingId === 'new' ? 'New Modifier Group' : 'Edit Modifier Group'}</Text>
+
+      <Text style={styles.label}>Name</Text>
+      <TextInput
+        style={styles.input}
+        value={form.name}
+        onChangeText={text => setForm({ ...form, name: text })}
+        placeholder="e.g. Milk, Extras"
+      />
+
+      <View style={styles.row}>
+        <View style={styles.rowField}>
+          <Text style={styles.label}>Minimum</Text>
+          <TextInput
+            style={styles.input}
+            value={form.min_select}
+            onChangeText={text => setForm({ ...form, min_select: text })}
+            placeholder="0"
+            keyboardType="number-pad"
+          />
+        </View>
+        <View style={styles.rowField}>
+          <Text style={styles.label}>Maximum</Text>
+          <TextInput
+            style={styles.input}
+            value={form.max_select}
+            onChangeText={text => setForm({ ...form, max_select: text })}
+            placeholder="No limit"
+            keyboardType="number-pad"
+          />
+        </View>
+      </View>
+      <Text style={styles.cardMeta}>A minimum of 1 or more makes the group required at the counter</Text>
+
+      <Text style={styles.label}>Options</Text>
+      {form.modifiers.map((option, index) => (
+        <View key={option.id ?? `new-${index}`} style={styles.optionRow}>
+          <TextInput
+            style={[styles.input, styles.optionName]}
+            value={option.name}
+            onChangeText={text => updateOption(index, { name: text })}
+            placeholder="e.g. Oat milk"
+          />
+          <TextInput
+            style={[styles.input, styles.optionPrice]}
+            value={option.price_delta}
+            onChangeText={text => updateOption(index, { price_delta: text })}
+            placeholder="+0.00"
+            keyboardType="numbers-and-punctuation"
+          />
+          <Switch value={option.active} onValueChange={value => updateOption(index, { active: value })} />
+          <TouchableOpacity style={styles.iconButton} onPress={() => removeOption(index)}>
+            <Trash2 size={16} color="#EF4444" />
+          </TouchableOpacity>
+        </View>
+      ))}
+      <TouchableOpacity
+        style={styles.addOptionButton}
+        onPress={() =>
+          setForm({ ...form, modifiers: [...form.modifiers, { name: '', price_delta: '0', active: true }] })
+        }>
+        <Plus size={16} color="#3B82F6" />
+        <Text style={styles.addOptionText}>Add Option</Text>
+      </TouchableOpacity>
+
+      <Text style={styles.label}>Categories</Text>
+      <View style={styles.chips}>
+        {categories.map(category => {
+          const selected = form.category_ids.includes(category.id);
+          return (
+            <TouchableOpacity
+              key={category.id}
+              style={[styles.chip, selected && styles.chipActive]}
+              onPress={() => setForm({ ...form, category_ids: toggleId(form.category_ids, category.id) })}>
+              <Text style={[styles.chipText, selected && styles.chipTextActive]}>{category.name}</Text>
+            </TouchableOpacity>
+          );
+        })}
+      </View>
+
+      <Text style={styles.label}>Products</Text>
+      <View style={styles.searchBar}>
+        <Search size={18} color="#6B7280" />
+        <TextInput
+          style={styles.searchInput}
+          value={productQuery}
+          onChangeText={setProductQuery}
+          placeholder="Search products to link..."
+        />
+      </View>
+      <View style={styles.chips}>
+        {visibleProducts.map(product => {
+          const selected = form.product_ids.includes(product.id);
+          return (
+            <TouchableOpacity
+              key={product.id}
+              style={[styles.chip, selected && styles.chipActive]}
+              onPress={() => setForm({ ...form, product_ids: toggleId(form.product_ids, product.id) })}>
+              <Text style={[styles.chipText, selected && styles.chipTextActive]}>{product.name}</Text>
+            </TouchableOpacity>
+          );
+        })}
+      </View>
+
+      <View style={styles.actions}>
+        <TouchableOpacity style={styles.cancelButton} onPress={() => setEditingId(null)} disabled={saving}>
+          <Text style={styles.cancelButtonText}>Cancel</Text>
+        </TouchableOpacity>
+        <TouchableOpacity style={styles.saveButton} onPress={handleSave} disabled={saving}>
+          {saving ? <ActivityIndicator color="#FFFFFF" /> : <Text style={styles.saveButtonText}>Save</Text>}
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+
+  const renderGroups = () =>
+    groups.length === 0 ? (
+      <View style={styles.emptyState}>
+        <Text style={styles.emptyText}>No modifier groups yet</Text>
+        <Text style={styles.emptySubtext}>Add options such as milk choices or extra shots</Text>
+      </View>
+    ) : (
+      groups.map(group => {
+        const linkCount = group.product_ids.length + group.category_ids.length;
+        return (
+          <View key={group.id} style={styles.card}>
+            <View style={styles.groupHeader}>
+              <View style={styles.groupInfo}>
+                <Text style={styles.cardTitle}>{group.name}</Text>
+                <Text style={styles.cardMeta}>
+                  {describeSelectionRule(group)} ·{' '}
+                  {linkCount === 0
+                    ? 'Not attached'
+                    : `${group.category_ids.length} categories, ${group.product_ids.length} products`}
+                </Text>
+              </View>
+              <TouchableOpacity style={styles.iconButton} onPress={() => openEditGroup(group)}>
+                <Edit2 size={16} color="#3B82F6" />
+              </TouchableOpacity>
+              <TouchableOpacity style={styles.iconButton} onPress={() => confirmDelete(group)}>
+                <Trash2 size={16} color="#EF4444" />
+              </TouchableOpacity>
+            </View>
+            <Text style={styles.optionsText}>{formatModifiers(getActiveModifiers(group)) || 'No active options'}</Text>
+          </View>
+        );
+      })
+    );
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <View style={styles.header}>
+        <View style={styles.headerLeft}>
+          <TouchableOpacity onPress={() => router.back()}>
+            <ArrowLeft size={24} color="#111827" />
+          </TouchableOpacity>
+          <Text style={styles.headerTitle}>Modifiers</Text>
+        </View>
+        {editingId === null && (
+          <TouchableOpacity style={styles.addButton} onPress={openNewGroup}>
+            <Plus size={20} color="#FFFFFF" />
+            <Text style={styles.saveButtonText}>Add Group</Text>
+          </TouchableOpacity>
+        )}
+      </View>
+
+      <ScrollView style={styles.content} keyboardShouldPersistTaps="handled">
+        {editingId === null ? renderGroups() : renderEditor()}
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F9FAFB',
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    backgroundColor: '#FFFFFF',
+    padding: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: '#E5E7EB',
+  },
+  headerLeft: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+  },
+  headerTitle: {
+    fontSize: 24,
+    fontWeight: '700',
+    color: '#111827',
+  },
+  addButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    backgroundColor: '#3B82F6',
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 8,
+  },
+  content: {
+    flex: 1,
+    padding: 16,
+  },
+  card: {
+    backgroundColor: '#FFFFFF',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 12,
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+    gap: 4,
+  },
+  cardTitle: {
+    fontSize: 16,
+    fontWeight: '700',
+    color: '#111827',
+  },
+  cardMeta: {
+    fontSize: 12,
+    color: '#6B7280',
+  },
+  groupHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  groupInfo: {
+    flex: 1,
+  },
+  optionsText: {
+    fontSize: 14,
+    color: '#374151',
+    marginTop: 4,
+  },
+  label: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#374151',
+    marginBottom: 6,
+    marginTop: 12,
+  },
+  input: {
+    backgroundColor: '#F9FAFB',
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+    borderRadius: 8,
+    padding: 12,
+    fontSize: 16,
+    color: '#111827',
+  },
+  row: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  rowField: {
+    flex: 1,
+  },
+  optionRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginBottom: 8,
+  },
+  optionName: {
+    flex: 1,
+  },
+  optionPrice: {
+    width: 90,
+  },
+  addOptionButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    paddingVertical: 8,
+  },
+  addOptionText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#3B82F6',
+  },
+  chips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 8,
+    backgroundColor: '#F3F4F6',
+  },
+  chipActive: {
+    backgroundColor: '#3B82F6',
+  },
+  chipText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#6B7280',
+  },
+  chipTextActive: {
+    color: '#FFFFFF',
+  },
+  searchBar: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    backgroundColor: '#F9FAFB',
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    marginBottom: 8,
+  },
+  searchInput: {
+    flex: 1,
+    paddingVertical: 10,
+    fontSize: 16,
+    color: '#111827',
+  },
+  iconButton: {
+    width: 32,
+    height: 32,
+    borderRadius: 8,
+    backgroundColor: '#EFF6FF',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  actions: {
+    flexDirection: 'row',
+    gap: 12,
+    marginTop: 16,
+  },
+  cancelButton: {
+    flex: 1,
+    padding: 12,
+    borderRadius: 8,
+    backgroundColor: '#F3F4F6',
+    alignItems: 'center',
+  },
+  cancelButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#6B7280',
+  },
+  saveButton: {
+    flex: 1,
+    padding: 12,
+    borderRadius: 8,
+    backgroundColor: '#3B82F6',
+    alignItems: 'center',
+  },
+  saveButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#FFFFFF',
+  },
+  emptyState: {
+    alignItems: 'center',
+    padding: 32,
+  },
+  emptyText: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#111827',
+    marginBottom: 8,
+  },
+  emptySubtext: {
+    fontSize: 14,
+    color: '#6B7280',
+    textAlign: 'center',
+  },
+});
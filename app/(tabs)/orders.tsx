@@ -1,8 +1,10 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef } from 'react';
 import {
   View,
   Text,
   ScrollView,
+  FlatList,
+  TextInput,
   StyleSheet,
   SafeAreaView,
   ActivityIndicator,
@@ -10,26 +12,56 @@ import {
   Modal,
   Alert,
 } from 'react-native';
+import { Download, Search } from 'lucide-react-native';
 import { useAuth } from '@/contexts/AuthContext';
 import { formatPrice } from '@/utils/currency';
+import { TAX_EXEMPTION_LABELS, TaxExemptionType } from '@/utils/tax';
+import { DISCOUNT_REASON_LABELS, DiscountReason } from '@/utils/discounts';
+import { PAYMENT_METHOD_LABELS, PaymentMethod } from '@/utils/payments';
+import { ORDER_STATUS_LABELS, OrderCursor, OrderStatus } from '@/utils/orderQuery';
+import { getReportRange, REPORT_RANGE_LABELS, ReportRangePreset } from '@/utils/reports';
+import { formatPoints } from '@/utils/loyalty';
+import { getReturnableQuantity } from '@/utils/refunds';
+import { formatModifiers, parseOrderItemModifiers, SelectedModifier } from '@/utils/modifiers';
+import { formatBundleComponents, OrderItemComponent, parseOrderItemComponents } from '@/utils/bundles';
+import ReturnModal from '@/components/ReturnModal';
+import ReceiptModal from '@/components/ReceiptModal';
+import OrderExportModal from '@/components/OrderExportModal';
 import {
-  fetchAllOrders,
-  fetchUserOrders,
+  fetchOrders,
+  fetchOrderById,
+  refundOrder,
+  RefundItem,
+  RefundOptions,
   updateOrderStatus as updateOrderStatusService
 } from '@/services/orders.service';
+import { fetchAllUsers } from '@/services/users.service';
 
 type Order = {
   id: string;
   user_id: string;
   total: number;
   tax: number;
-  status: 'completed' | 'refunded' | 'cancelled';
-  payment_method: 'cash' | 'card' | 'mobile';
+  status: OrderStatus;
+  payment_method: PaymentMethod | 'split';
+  tax_exemption: TaxExemptionType | null;
+  tax_exemption_id: string | null;
+  discount_amount: number;
+  discount_total: number;
+  discount_reason: DiscountReason | null;
+  customer_id: string | null;
+  points_earned: number;
+  points_redeemed: number;
   created_at: string;
   profiles?: {
     full_name: string;
     email: string;
   };
+  customers?: {
+    id: string;
+    name: string;
+    phone: string | null;
+  } | null;
 };
 
 type OrderWithItems = Order & {
@@ -38,10 +70,36 @@ type OrderWithItems = Order & {
     quantity: number;
     price: number;
     subtotal: number;
+    line_total: number | null; // Null for orders placed before the tax engine
+    tax_amount: number;
+    tax_exempt: boolean;
+    discount_amount: number;
+    discount_reason: DiscountReason | null;
+    refunded_quantity: number;
+    refunded_amount: number;
+    modifiers: SelectedModifier[];
+    components: OrderItemComponent[];
     products: {
       name: string;
     };
   }>;
+  order_payments: Array<{
+    id: string;
+    position: number;
+    method: PaymentMethod;
+    amount: number;
+    amount_tendered: number;
+    change_due: number;
+    reference: string | null;
+  }>;
+  refunds: Array<{
+    id: string;
+    amount: number;
+    method: PaymentMethod;
+    reason: string | null;
+    restocked: boolean;
+    created_at: string;
+  }>;
 };
 
 export default function OrdersScreen() {
@@ -51,35 +109,79 @@ export default function OrdersScreen() {
   const [selectedOrder, setSelectedOrder] = useState<OrderWithItems | null>(null);
   const [modalVisible, setModalVisible] = useState(false);
   const [updatingStatus, setUpdatingStatus] = useState(false);
-  const [updatingTarget, setUpdatingTarget] = useState<'completed' | 'refunded' | 'cancelled' | null>(null);
+  const [updatingTarget, setUpdatingTarget] = useState<'completed' | 'cancelled' | null>(null);
+  const [returnModalVisible, setReturnModalVisible] = useState(false);
+  const [processingRefund, setProcessingRefund] = useState(false);
+  const [receiptModalVisible, setReceiptModalVisible] = useState(false);
+  const [exportModalVisible, setExportModalVisible] = useState(false);
+  const [nextCursor, setNextCursor] = useState<OrderCursor | null>(null);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [refreshing, setRefreshing] = useState(false);
+  const [statusFilter, setStatusFilter] = useState<OrderStatus | null>(null);
+  const [paymentFilter, setPaymentFilter] = useState<PaymentMethod | 'split' | null>(null);
+  const [rangeFilter, setRangeFilter] = useState<ReportRangePreset | null>(null);
+  const [staffFilter, setStaffFilter] = useState<string | null>(null);
+  const [users, setUsers] = useState<{ id: string; full_name: string | null; email: string }[]>([]);
+  const [searchInput, setSearchInput] = useState('');
+  const [search, setSearch] = useState('');
+  const requestRef = useRef(0);
 
   const isAdmin = profile?.role === 'admin';
 
+  // Wait for typing to stop before searching
+  useEffect(() => {
+    const timer = setTimeout(() => setSearch(searchInput), 300);
+    return () => clearTimeout(timer);
+  }, [searchInput]);
+
   useEffect(() => {
     loadOrders();
+  }, [user, isAdmin, statusFilter, paymentFilter, rangeFilter, staffFilter, search]);
+
+  useEffect(() => {
     if (isAdmin) {
-      // loadUsers();
+      loadUsers();
     }
-  }, [user, isAdmin]);
+  }, [isAdmin]);
+
+  const loadUsers = async () => {
+    const result = await fetchAllUsers();
+    if (result.error) {
+      console.error('Error loading users:', result.error);
+      return;
+    }
+    setUsers(result.data || []);
+  };
 
+  const getFilters = () => {
+    const range = rangeFilter ? getReportRange(rangeFilter) : null;
+    return {
+      status: statusFilter,
+      paymentMethod: paymentFilter,
+      // Staff only ever see their own orders
+      userId: isAdmin ? staffFilter : user!.id,
+      dateFrom: range?.from ?? null,
+      dateTo: range?.to ?? null,
+      search,
+    };
+  };
+
+  // Loads the first page; a newer load (from changing a filter) wins over an older one
   const loadOrders = async () => {
     // For non-admin users, guard against undefined user.id
     if (!isAdmin && !user?.id) {
       return; // Exit without entering try/catch/finally
     }
-    
+
+    const request = ++requestRef.current;
+    setLoading(true);
     try {
-      let result;
-      
-      // For non-admin users, only show their own orders
-      if (!isAdmin) {
-        result = await fetchUserOrders(user!.id); // We know user exists because of the guard above
-      } else {
-        result = await fetchAllOrders();
-      }
+      const result = await fetchOrders(getFilters());
+      if (request !== requestRef.current) return;
+      if (result.error || !result.data) throw new Error(result.error || 'Failed to load orders');
 
-      if (result.error) throw new Error(result.error);
-      setOrders(result.data || []);
+      setOrders(result.data.orders);
+      setNextCursor(result.data.nextCursor);
     } catch (error) {
       console.error('Error loading orders:', error);
       Alert.alert(
@@ -97,15 +199,62 @@ export default function OrdersScreen() {
         ]
       );
     } finally {
-      setLoading(false);
+      if (request === requestRef.current) {
+        setLoading(false);
+        setRefreshing(false);
+      }
     }
   };
 
+  const loadMoreOrders = async () => {
+    if (!nextCursor || loading || loadingMore) return;
+
+    const request = requestRef.current;
+    setLoadingMore(true);
+    try {
+      const result = await fetchOrders({ ...getFilters(), cursor: nextCursor });
+      if (request !== requestRef.current) return;
+      if (result.error || !result.data) throw new Error(result.error || 'Failed to load orders');
+
+      const page = result.data;
+      setOrders(current => {
+        const loaded = new Set(current.map(order => order.id));
+        return [...current, ...page.orders.filter(order => !loaded.has(order.id))];
+      });
+      setNextCursor(page.nextCursor);
+    } catch (error) {
+      // Scrolling to the end again retries
+      console.error('Error loading more orders:', error);
+    } finally {
+      setLoadingMore(false);
+    }
+  };
+
+  const handleRefresh = () => {
+    setRefreshing(true);
+    loadOrders();
+  };
+
+  // Reloads one order in place so the list keeps its pages and scroll position
+  const refreshOrder = async (orderId: string) => {
+    const result = await fetchOrderById(orderId);
+    if (result.error || !result.data) {
+      console.error('Error refreshing order:', result.error);
+      return;
+    }
+    const order = result.data as OrderWithItems;
+    setOrders(current => current.map(existing => (existing.id === orderId ? order : existing)));
+    setSelectedOrder(current => (current?.id === orderId ? order : current));
+  };
+
+  const hasFilters = !!(statusFilter || paymentFilter || rangeFilter || staffFilter || search.trim());
+
   const getStatusColor = (status: string) => {
     switch (status) {
       case 'completed':
         return '#10B981';
       case 'refunded':
+      case 'partially_refunded':
         return '#F59E0B';
       case 'cancelled':
         return '#EF4444';
@@ -122,11 +271,35 @@ export default function OrdersScreen() {
         return '💳';
       case 'mobile':
         return '📱';
+      case 'points':
+        return '⭐';
       default:
         return '💰';
     }
   };
 
+  const getStatusLabel = (status: string) => {
+    const label = status.replace('_', ' ');
+    return label.charAt(0).toUpperCase() + label.slice(1);
+  };
+
+  const getPaymentMethodLabel = (method: string) =>
+    method === 'split' ? 'Split' : PAYMENT_METHOD_LABELS[method as PaymentMethod] ?? method;
+
+  const getSortedPayments = (order: OrderWithItems) =>
+    [...(order.order_payments ?? [])].sort((a, b) => a.position - b.position);
+
+  // One tender reads as before; split payments list each tender's amount
+  const getPaymentSummary = (order: OrderWithItems) => {
+    const payments = getSortedPayments(order);
+    if (payments.length <= 1) {
+      return `${getPaymentMethodIcon(order.payment_method)} ${getPaymentMethodLabel(order.payment_method)}`;
+    }
+    return payments
+      .map(payment => `${getPaymentMethodIcon(payment.method)} ${formatPrice(payment.amount)}`)
+      .join(' + ');
+  };
+
   const formatDate = (dateString: string) => {
     const date = new Date(dateString);
     return date.toLocaleDateString('en-US', {
@@ -139,15 +312,15 @@ export default function OrdersScreen() {
   };
 
   // Helper function to perform the actual status update
-  const performStatusUpdate = async (orderId: string, newStatus: 'completed' | 'refunded' | 'cancelled') => {
+  const performStatusUpdate = async (orderId: string, newStatus: 'completed' | 'cancelled') => {
     setUpdatingTarget(newStatus);
     try {
       const result = await updateOrderStatusService(orderId, newStatus);
 
       if (result.error) throw new Error(result.error);
       
-      // Refresh orders and close modal immediately
-      await loadOrders();
+      // Refresh the order and close modal immediately
+      await refreshOrder(orderId);
       setModalVisible(false);
       
       // Show non-blocking success message
@@ -173,16 +346,14 @@ export default function OrdersScreen() {
     }
   };
 
-  const handleUpdateOrderStatus = async (orderId: string, newStatus: 'completed' | 'refunded' | 'cancelled') => {
+  const handleUpdateOrderStatus = async (orderId: string, newStatus: 'completed' | 'cancelled') => {
     // Get current order to display in confirmation
     const currentOrder = orders.find(order => order.id === orderId);
     const currentStatus = currentOrder?.status || 'unknown';
     
     // Customize confirmation message based on status
     let confirmMessage = `Change order status from '${currentStatus}' to '${newStatus}'?`;
-    if (newStatus === 'refunded') {
-      confirmMessage += '\n\nThis will mark the order as refunded. This action should be done after processing the refund.';
-    } else if (newStatus === 'cancelled') {
+    if (newStatus === 'cancelled') {
       confirmMessage += '\n\nThis will cancel the order. This action cannot be easily undone.';
     }
 
@@ -202,72 +373,209 @@ export default function OrdersScreen() {
     );
   };
 
-  if (loading) {
-    return (
-      <View style={styles.loadingContainer}>
-        <ActivityIndicator size="large" color="#3B82F6" />
-      </View>
-    );
-  }
+  // The detail modal is closed while returning items so the two modals never stack
+  const openReturnModal = () => {
+    setModalVisible(false);
+    setReturnModalVisible(true);
+  };
+
+  const closeReturnModal = () => {
+    setReturnModalVisible(false);
+    setModalVisible(true);
+  };
+
+  const openReceiptModal = () => {
+    setModalVisible(false);
+    setReceiptModalVisible(true);
+  };
+
+  const closeReceiptModal = () => {
+    setReceiptModalVisible(false);
+    setModalVisible(true);
+  };
+
+  const handleRefund = async (items: RefundItem[], options: RefundOptions) => {
+    if (!selectedOrder) return;
+
+    setProcessingRefund(true);
+    try {
+      const result = await refundOrder(selectedOrder.id, items, options);
+      if (result.error || !result.data) throw new Error(result.error || 'Unknown error');
+
+      setReturnModalVisible(false);
+      await refreshOrder(selectedOrder.id);
+      Alert.alert(
+        'Refund Processed',
+        `Refund ${formatPrice(result.data.amount)} to the customer${options.restock === false ? '.' : '. Returned items were put back in stock.'}`
+      );
+    } catch (error) {
+      console.error('Error refunding order:', error);
+      Alert.alert(
+        'Refund Failed',
+        `Failed to process the return.\n\nError: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    } finally {
+      setProcessingRefund(false);
+    }
+  };
+
+  const canReturnItems = (order: OrderWithItems) =>
+    (order.status === 'completed' || order.status === 'partially_refunded') &&
+    order.order_items.some(item => getReturnableQuantity(item) > 0);
+
+  const hasRefunds = (order: OrderWithItems) => (order.refunds ?? []).length > 0;
+
+  const renderChips = <T extends string>(
+    options: { value: T | null; label: string }[],
+    selected: T | null,
+    onSelect: (value: T | null) => void
+  ) => (
+    <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.chips}>
+      {options.map(option => (
+        <TouchableOpacity
+          key={option.value ?? 'all'}
+          style={[styles.chip, selected === option.value && styles.chipActive]}
+          onPress={() => onSelect(option.value)}>
+          <Text style={[styles.chipText, selected === option.value && styles.chipTextActive]}>{option.label}</Text>
+        </TouchableOpacity>
+      ))}
+    </ScrollView>
+  );
 
   return (
     <SafeAreaView style={styles.container}>
       <View style={styles.header}>
         <Text style={styles.headerTitle}>Order History</Text>
+        {isAdmin && (
+          <TouchableOpacity style={styles.exportButton} onPress={() => setExportModalVisible(true)}>
+            <Download size={20} color="#3B82F6" />
+            <Text style={styles.exportButtonText}>Export</Text>
+          </TouchableOpacity>
+        )}
       </View>
 
-      <ScrollView style={styles.content}>
-        {orders.length === 0 ? (
-          <View style={styles.emptyState}>
-            <Text style={styles.emptyStateText}>No orders yet</Text>
-            <Text style={styles.emptyStateSubtext}>
-              {isAdmin ? 'No orders found' : 'Your completed orders will appear here'}
-            </Text>
-          </View>
-        ) : (
-          orders.map((order) => (
-            <TouchableOpacity
-              key={order.id}
-              style={styles.orderCard}
-              onPress={() => {
-                setSelectedOrder(order);
-                setModalVisible(true);
-              }}>
-              <View style={styles.orderHeader}>
-                <View style={styles.orderHeaderLeft}>
-                  <Text style={styles.orderDate}>{formatDate(order.created_at)}</Text>
-                  {isAdmin && order.profiles && (
-                    <Text style={styles.userName}>{order.profiles.full_name}</Text>
-                  )}
-                  <View style={styles.orderMetadata}>
-                    <View
+      <View style={styles.filters}>
+        <View style={styles.searchBar}>
+          <Search size={18} color="#6B7280" />
+          <TextInput
+            style={styles.searchInput}
+            value={searchInput}
+            onChangeText={setSearchInput}
+            placeholder="Search by order # or customer"
+            autoCapitalize="none"
+            autoCorrect={false}
+          />
+        </View>
+        {renderChips<OrderStatus>(
+          [
+            { value: null, label: 'All Statuses' },
+            ...(Object.keys(ORDER_STATUS_LABELS) as OrderStatus[]).map(status => ({
+              value: status,
+              label: ORDER_STATUS_LABELS[status],
+            })),
+          ],
+          statusFilter,
+          setStatusFilter
+        )}
+        {renderChips<PaymentMethod | 'split'>(
+          [
+            { value: null, label: 'All Payments' },
+            ...(Object.keys(PAYMENT_METHOD_LABELS) as PaymentMethod[]).map(method => ({
+              value: method,
+              label: PAYMENT_METHOD_LABELS[method],
+            })),
+            { value: 'split', label: 'Split' },
+          ],
+          paymentFilter,
+          setPaymentFilter
+        )}
+        {renderChips<ReportRangePreset>(
+          [
+            { value: null, label: 'All Time' },
+            ...(Object.keys(REPORT_RANGE_LABELS) as ReportRangePreset[]).map(preset => ({
+              value: preset,
+              label: REPORT_RANGE_LABELS[preset],
+            })),
+          ],
+          rangeFilter,
+          setRangeFilter
+        )}
+        {isAdmin && users.length > 0 &&
+          renderChips<string>(
+            [
+              { value: null, label: 'All Staff' },
+              ...users.map(staff => ({ value: staff.id, label: staff.full_name || staff.email })),
+            ],
+            staffFilter,
+            setStaffFilter
+          )}
+      </View>
+
+      <FlatList
+        style={styles.content}
+        contentContainerStyle={styles.listContent}
+        data={orders}
+        keyExtractor={order => order.id}
+        onEndReached={loadMoreOrders}
+        onEndReachedThreshold={0.5}
+        refreshing={refreshing}
+        onRefresh={handleRefresh}
+        ListEmptyComponent={
+          loading ? (
+            <ActivityIndicator size="large" color="#3B82F6" style={styles.listLoader} />
+          ) : (
+            <View style={styles.emptyState}>
+              <Text style={styles.emptyStateText}>{hasFilters ? 'No matching orders' : 'No orders yet'}</Text>
+              <Text style={styles.emptyStateSubtext}>
+                {hasFilters
+                  ? 'Try a different search or filter'
+                  : isAdmin
+                    ? 'No orders found'
+                    : 'Your completed orders will appear here'}
+              </Text>
+            </View>
+          )
+        }
+        ListFooterComponent={
+          loadingMore ? <ActivityIndicator color="#3B82F6" style={styles.listLoader} /> : null
+        }
+        renderItem={({ item: order }) => (
+          <TouchableOpacity
+            style={styles.orderCard}
+            onPress={() => {
+              setSelectedOrder(order);
+              setModalVisible(true);
+            }}>
+            <View style={styles.orderHeader}>
+              <View style={styles.orderHeaderLeft}>
+                <Text style={styles.orderDate}>{formatDate(order.created_at)}</Text>
+                {isAdmin && order.profiles && (
+                  <Text style={styles.userName}>{order.profiles.full_name}</Text>
+                )}
+                <View style={styles.orderMetadata}>
+                  <View
+                    style={[
+                      styles.statusBadge,
+                      { backgroundColor: getStatusColor(order.status) + '20' },
+                    ]}>
+                    <Text
                       style={[
-                        styles.statusBadge,
-                        { backgroundColor: getStatusColor(order.status) + '20' },
+                        styles.statusText,
+                        { color: getStatusColor(order.status) },
                       ]}>
-                      <Text
-                        style={[
-                          styles.statusText,
-                          { color: getStatusColor(order.status) },
-                        ]}>
-                        {order.status.charAt(0).toUpperCase() + order.status.slice(1)}
-                      </Text>
-                    </View>
-                    <View style={styles.paymentBadge}>
-                      <Text style={styles.paymentText}>
-                        {getPaymentMethodIcon(order.payment_method)}{' '}
-                        {order.payment_method.charAt(0).toUpperCase() +
-                          order.payment_method.slice(1)}
-                      </Text>
-                    </View>
+                      {getStatusLabel(order.status)}
+                    </Text>
+                  </View>
+                  <View style={styles.paymentBadge}>
+                    <Text style={styles.paymentText}>{getPaymentSummary(order)}</Text>
                   </View>
                 </View>
-                <Text style={styles.orderTotal}>{formatPrice(order.total)}</Text>
               </View>
-            </TouchableOpacity>
-          ))
+              <Text style={styles.orderTotal}>{formatPrice(order.total)}</Text>
+            </View>
+          </TouchableOpacity>
         )}
-      </ScrollView>
+      />
 
       {/* Order Detail Modal */}
       <Modal
@@ -307,7 +615,7 @@ export default function OrdersScreen() {
                             styles.statusText,
                             { color: getStatusColor(selectedOrder.status) },
                           ]}>
-                          {selectedOrder.status.charAt(0).toUpperCase() + selectedOrder.status.slice(1)}
+                          {getStatusLabel(selectedOrder.status)}
                         </Text>
                       </View>
                     </View>
@@ -315,25 +623,74 @@ export default function OrdersScreen() {
                       <Text style={styles.paymentLabel}>Payment:</Text>
                       <Text style={styles.paymentValue}>
                         {getPaymentMethodIcon(selectedOrder.payment_method)}{' '}
-                        {selectedOrder.payment_method.charAt(0).toUpperCase() +
-                          selectedOrder.payment_method.slice(1)}
+                        {getPaymentMethodLabel(selectedOrder.payment_method)}
                       </Text>
                     </View>
+                    {selectedOrder.customers && (
+                      <View style={styles.paymentRow}>
+                        <Text style={styles.paymentLabel}>Customer:</Text>
+                        <Text style={styles.paymentValue}>
+                          {selectedOrder.customers.name}
+                          {selectedOrder.points_earned > 0 && ` · +${formatPoints(selectedOrder.points_earned)}`}
+                          {selectedOrder.points_redeemed > 0 && ` · −${formatPoints(selectedOrder.points_redeemed)}`}
+                        </Text>
+                      </View>
+                    )}
+                    {selectedOrder.tax_exemption && (
+                      <View style={styles.paymentRow}>
+                        <Text style={styles.paymentLabel}>VAT Exempt:</Text>
+                        <Text style={styles.paymentValue}>
+                          {TAX_EXEMPTION_LABELS[selectedOrder.tax_exemption]} ({selectedOrder.tax_exemption_id})
+                        </Text>
+                      </View>
+                    )}
                   </View>
 
                   <View style={styles.itemsSection}>
                     <Text style={styles.sectionTitle}>Items</Text>
                     {selectedOrder.order_items.map((item) => (
                       <View key={item.id} style={styles.orderItem}>
-                        <Text style={styles.orderItemName}>
-                          {item.quantity}x {item.products.name}
+                        <View style={styles.orderItemInfo}>
+                          <Text style={styles.orderItemName}>
+                            {item.quantity}x {item.products.name}
+                          </Text>
+                          {parseOrderItemModifiers(item.modifiers).length > 0 && (
+                            <Text style={styles.orderItemModifiers}>
+                              {formatModifiers(parseOrderItemModifiers(item.modifiers))}
+                            </Text>
+                          )}
+                          {parseOrderItemComponents(item.components).length > 0 && (
+                            <Text style={styles.orderItemModifiers}>
+                              Includes {formatBundleComponents(parseOrderItemComponents(item.components))}
+                            </Text>
+                          )}
+                          {item.discount_amount > 0 && item.discount_reason && (
+                            <Text style={styles.orderItemDiscount}>
+                              −{formatPrice(item.discount_amount)} ({DISCOUNT_REASON_LABELS[item.discount_reason]})
+                            </Text>
+                          )}
+                          {item.refunded_quantity > 0 && (
+                            <Text style={styles.orderItemReturned}>
+                              {item.refunded_quantity} returned (−{formatPrice(item.refunded_amount)})
+                            </Text>
+                          )}
+                        </View>
+                        <Text style={styles.orderItemPrice}>
+                          {formatPrice(item.line_total ?? item.subtotal)}
                         </Text>
-                        <Text style={styles.orderItemPrice}>{formatPrice(item.subtotal)}</Text>
                       </View>
                     ))}
                   </View>
 
                   <View style={styles.summarySection}>
+                    {selectedOrder.discount_amount > 0 && selectedOrder.discount_reason && (
+                      <View style={styles.summaryRow}>
+                        <Text style={styles.summaryLabel}>
+                          Order Discount ({DISCOUNT_REASON_LABELS[selectedOrder.discount_reason]})
+                        </Text>
+                        <Text style={styles.summaryValue}>−{formatPrice(selectedOrder.discount_amount)}</Text>
+                      </View>
+                    )}
                     <View style={styles.summaryRow}>
                       <Text style={styles.summaryLabel}>Subtotal</Text>
                       <Text style={styles.summaryValue}>
@@ -341,7 +698,7 @@ export default function OrdersScreen() {
                       </Text>
                     </View>
                     <View style={styles.summaryRow}>
-                      <Text style={styles.summaryLabel}>Tax</Text>
+                      <Text style={styles.summaryLabel}>VAT</Text>
                       <Text style={styles.summaryValue}>{formatPrice(selectedOrder.tax)}</Text>
                     </View>
                     <View style={[styles.summaryRow, styles.totalRow]}>
@@ -350,6 +707,53 @@ export default function OrdersScreen() {
                     </View>
                   </View>
 
+                  {getSortedPayments(selectedOrder).length > 0 && (
+                    <View style={styles.summarySection}>
+                      <Text style={styles.sectionTitle}>Payments</Text>
+                      {getSortedPayments(selectedOrder).map((payment) => (
+                        <View key={payment.id} style={styles.paymentDetail}>
+                          <View style={styles.summaryRow}>
+                            <Text style={styles.summaryLabel}>
+                              {getPaymentMethodIcon(payment.method)} {PAYMENT_METHOD_LABELS[payment.method]}
+                              {payment.reference ? ` · ${payment.reference}` : ''}
+                            </Text>
+                            <Text style={styles.summaryValue}>{formatPrice(payment.amount)}</Text>
+                          </View>
+                          {payment.change_due > 0 && (
+                            <Text style={styles.paymentChange}>
+                              Tendered {formatPrice(payment.amount_tendered)}, change {formatPrice(payment.change_due)}
+                            </Text>
+                          )}
+                        </View>
+                      ))}
+                    </View>
+                  )}
+
+                  {hasRefunds(selectedOrder) && (
+                    <View style={styles.summarySection}>
+                      <Text style={styles.sectionTitle}>Refunds</Text>
+                      {selectedOrder.refunds.map((refund) => (
+                        <View key={refund.id} style={styles.paymentDetail}>
+                          <View style={styles.summaryRow}>
+                            <Text style={styles.summaryLabel}>
+                              {formatDate(refund.created_at)} · {PAYMENT_METHOD_LABELS[refund.method]}
+                            </Text>
+                            <Text style={styles.summaryValue}>−{formatPrice(refund.amount)}</Text>
+                          </View>
+                          {(refund.reason || !refund.restocked) && (
+                            <Text style={styles.paymentChange}>
+                              {[refund.reason, !refund.restocked && 'Not restocked'].filter(Boolean).join(' · ')}
+                            </Text>
+                          )}
+                        </View>
+                      ))}
+                    </View>
+                  )}
+
+                  <TouchableOpacity style={styles.reprintButton} onPress={openReceiptModal}>
+                    <Text style={styles.reprintButtonText}>Reprint Receipt</Text>
+                  </TouchableOpacity>
+
                   {/* Admin Actions */}
                   {isAdmin && (
                     <View style={styles.actionsSection}>
@@ -359,16 +763,16 @@ export default function OrdersScreen() {
                           style={[
                             styles.actionButton,
                             selectedOrder.status === 'completed' && styles.actionButtonActive,
-                            selectedOrder.status === 'completed' && styles.actionButtonDisabled,
+                            (selectedOrder.status === 'completed' || hasRefunds(selectedOrder)) && styles.actionButtonDisabled,
                             updatingTarget && styles.actionButtonDisabled,
                           ]}
                           onPress={() => handleUpdateOrderStatus(selectedOrder.id, 'completed')}
-                          disabled={selectedOrder.status === 'completed' || updatingTarget !== null}>
+                          disabled={selectedOrder.status === 'completed' || hasRefunds(selectedOrder) || updatingTarget !== null}>
                           <Text
                             style={[
                               styles.actionButtonText,
                               selectedOrder.status === 'completed' && styles.actionButtonTextActive,
-                              selectedOrder.status === 'completed' && styles.actionButtonTextDisabled,
+                              (selectedOrder.status === 'completed' || hasRefunds(selectedOrder)) && styles.actionButtonTextDisabled,
                               updatingTarget && styles.actionButtonTextDisabled,
                             ]}>
                             {updatingTarget === 'completed' ? 'Updating...' : 'Mark Completed'}
@@ -377,36 +781,32 @@ export default function OrdersScreen() {
                         <TouchableOpacity
                           style={[
                             styles.actionButton,
-                            selectedOrder.status === 'refunded' && styles.actionButtonActive,
-                            selectedOrder.status === 'refunded' && styles.actionButtonDisabled,
-                            updatingTarget && styles.actionButtonDisabled,
+                            (!canReturnItems(selectedOrder) || updatingTarget) && styles.actionButtonDisabled,
                           ]}
-                          onPress={() => handleUpdateOrderStatus(selectedOrder.id, 'refunded')}
-                          disabled={selectedOrder.status === 'refunded' || updatingTarget !== null}>
+                          onPress={openReturnModal}
+                          disabled={!canReturnItems(selectedOrder) || updatingTarget !== null}>
                           <Text
                             style={[
                               styles.actionButtonText,
-                              selectedOrder.status === 'refunded' && styles.actionButtonTextActive,
-                              selectedOrder.status === 'refunded' && styles.actionButtonTextDisabled,
-                              updatingTarget && styles.actionButtonTextDisabled,
+                              (!canReturnItems(selectedOrder) || updatingTarget) && styles.actionButtonTextDisabled,
                             ]}>
-                            {updatingTarget === 'refunded' ? 'Updating...' : 'Mark Refunded'}
+                            Return Items
                           </Text>
                         </TouchableOpacity>
                         <TouchableOpacity
                           style={[
                             styles.actionButton,
                             selectedOrder.status === 'cancelled' && styles.actionButtonActive,
-                            selectedOrder.status === 'cancelled' && styles.actionButtonDisabled,
+                            (selectedOrder.status === 'cancelled' || hasRefunds(selectedOrder)) && styles.actionButtonDisabled,
                             updatingTarget && styles.actionButtonDisabled,
                           ]}
                           onPress={() => handleUpdateOrderStatus(selectedOrder.id, 'cancelled')}
-                          disabled={selectedOrder.status === 'cancelled' || updatingTarget !== null}>
+                          disabled={selectedOrder.status === 'cancelled' || hasRefunds(selectedOrder) || updatingTarget !== null}>
                           <Text
                             style={[
                               styles.actionButtonText,
                               selectedOrder.status === 'cancelled' && styles.actionButtonTextActive,
-                              selectedOrder.status === 'cancelled' && styles.actionButtonTextDisabled,
+                              (selectedOrder.status === 'cancelled' || hasRefunds(selectedOrder)) && styles.actionButtonTextDisabled,
                               updatingTarget && styles.actionButtonTextDisabled,
                             ]}>
                             {updatingTarget === 'cancelled' ? 'Updating...' : 'Mark Cancelled'}
@@ -421,6 +821,31 @@ export default function OrdersScreen() {
           </View>
         </View>
       </Modal>
+
+      {selectedOrder && (
+        <ReturnModal
+          visible={returnModalVisible}
+          items={selectedOrder.order_items}
+          defaultMethod={
+            selectedOrder.payment_method === 'split' || (selectedOrder.payment_method === 'points' && !selectedOrder.customer_id)
+              ? 'cash'
+              : selectedOrder.payment_method
+          }
+          allowPoints={selectedOrder.customer_id !== null}
+          processing={processingRefund}
+          onSubmit={handleRefund}
+          onClose={closeReturnModal}
+        />
+      )}
+
+      <ReceiptModal
+        visible={receiptModalVisible}
+        order={selectedOrder}
+        reprint
+        onClose={closeReceiptModal}
+      />
+
+      <OrderExportModal visible={exportModalVisible} onClose={() => setExportModalVisible(false)} />
     </SafeAreaView>
   );
 }
@@ -430,26 +855,88 @@ const styles = StyleSheet.create({
     flex: 1,
     backgroundColor: '#F9FAFB',
   },
-  loadingContainer: {
-    flex: 1,
-    justifyContent: 'center',
-    alignItems: 'center',
-  },
   header: {
     backgroundColor: '#FFFFFF',
     padding: 16,
     borderBottomWidth: 1,
     borderBottomColor: '#E5E7EB',
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
   },
   headerTitle: {
     fontSize: 24,
     fontWeight: '700',
     color: '#111827',
   },
+  exportButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 8,
+    backgroundColor: '#EFF6FF',
+  },
+  exportButtonText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#3B82F6',
+  },
   content: {
     flex: 1,
+  },
+  listContent: {
     padding: 16,
   },
+  listLoader: {
+    marginVertical: 24,
+  },
+  filters: {
+    backgroundColor: '#FFFFFF',
+    paddingHorizontal: 16,
+    paddingTop: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: '#E5E7EB',
+  },
+  searchBar: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    backgroundColor: '#F9FAFB',
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    marginBottom: 12,
+  },
+  searchInput: {
+    flex: 1,
+    paddingVertical: 10,
+    fontSize: 15,
+    color: '#111827',
+  },
+  chips: {
+    gap: 8,
+    paddingBottom: 12,
+  },
+  chip: {
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 16,
+    backgroundColor: '#F3F4F6',
+  },
+  chipActive: {
+    backgroundColor: '#3B82F6',
+  },
+  chipText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#6B7280',
+  },
+  chipTextActive: {
+    color: '#FFFFFF',
+  },
   emptyState: {
     alignItems: 'center',
     marginTop: 64,
@@ -616,10 +1103,27 @@ const styles = StyleSheet.create({
     borderBottomWidth: 1,
     borderBottomColor: '#F3F4F6',
   },
+  orderItemInfo: {
+    flex: 1,
+  },
   orderItemName: {
     fontSize: 14,
     color: '#6B7280',
-    flex: 1,
+  },
+  orderItemModifiers: {
+    fontSize: 12,
+    color: '#6B7280',
+    marginTop: 2,
+  },
+  orderItemDiscount: {
+    fontSize: 12,
+    color: '#10B981',
+    marginTop: 2,
+  },
+  orderItemReturned: {
+    fontSize: 12,
+    color: '#F59E0B',
+    marginTop: 2,
   },
   orderItemPrice: {
     fontSize: 14,
@@ -643,6 +1147,15 @@ const styles = StyleSheet.create({
     fontWeight: '600',
     color: '#6B7280',
   },
+  paymentDetail: {
+    marginBottom: 4,
+  },
+  paymentChange: {
+    fontSize: 12,
+    color: '#6B7280',
+    marginTop: -4,
+    marginBottom: 8,
+  },
   totalRow: {
     marginTop: 8,
     paddingTop: 8,
@@ -659,6 +1172,18 @@ const styles = StyleSheet.create({
     fontWeight: '700',
     color: '#3B82F6',
   },
+  reprintButton: {
+    padding: 12,
+    borderRadius: 8,
+    backgroundColor: '#EFF6FF',
+    alignItems: 'center',
+    marginBottom: 24,
+  },
+  reprintButtonText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#3B82F6',
+  },
   actionsSection: {
     marginBottom: 16,
   },
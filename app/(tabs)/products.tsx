@@ -16,9 +16,17 @@ import {
 import * as ImagePicker from 'expo-image-picker';
 import { useAuth } from '@/contexts/AuthContext';
 import { formatPrice } from '@/utils/currency';
+import { DEFAULT_REORDER_POINT } from '@/utils/reorder';
+import { formatPriceRange, getTopLevelProducts, getVariants, getVariantStock } from '@/utils/variants';
+import { BundleComponent, formatBundleComponents, isBundle } from '@/utils/bundles';
+import { formatPercent, getBundleCost, getMargin, getNetPrice } from '@/utils/margins';
+import { productsToCsv } from '@/utils/productCsv';
+import { shareCsv } from '@/lib/files';
+import { isNearScrollEnd } from '@/utils/productSearch';
+import { useTaxConfig } from '@/hooks/useTaxConfig';
+import { useProductSearch } from '@/hooks/useProductSearch';
 import {
   fetchProducts,
-  fetchActiveProducts,
   fetchProductsByIds,
   createProduct,
   updateProduct,
@@ -26,17 +34,26 @@ import {
   bulkActivateProducts,
   bulkDeactivateProducts,
   uploadProductImage,
+  fetchProductCosts,
+  saveProductCost,
   fetchCategories,
   createCategory,
   updateCategory,
   deleteCategory
 } from '@/services/products.service';
-import { Plus, Edit2, Trash2, Search, Check, X, Upload } from 'lucide-react-native';
+import { useRouter } from 'expo-router';
+import { Plus, Edit2, Trash2, Search, Check, X, Upload, History, SlidersHorizontal, ClipboardList, Layers, Settings2, Package, Download, FileUp } from 'lucide-react-native';
+import StockHistoryModal from '@/components/StockHistoryModal';
+import StockAdjustmentModal from '@/components/StockAdjustmentModal';
+import ProductVariantsModal from '@/components/ProductVariantsModal';
+import BundleComponentsModal from '@/components/BundleComponentsModal';
+import ProductImportModal from '@/components/ProductImportModal';
 
 type Category = {
   id: string;
   name: string;
   color: string;
+  tax_class_id: string | null;
 };
 
 type Product = {
@@ -44,9 +61,18 @@ type Product = {
   name: string;
   price: number;
   category_id: string | null;
+  tax_class_id: string | null;
   stock: number;
+  reorder_point: number;
+  reorder_quantity: number | null;
   active: boolean;
+  sku: string | null;
+  barcode: string | null;
   image_url: string | null;
+  parent_id: string | null;
+  variant_name: string | null;
+  bundle_components: BundleComponent[];
+  created_at?: string;
   categories?: Category | null;
 };
 
@@ -56,15 +82,23 @@ type ProductWithCategories = {
   name: string;
   price: number;
   category_id: string | null;
+  tax_class_id: string | null;
   stock: number;
+  reorder_point: number;
+  reorder_quantity: number | null;
   active: boolean;
+  sku: string | null;
+  barcode: string | null;
   image_url: string | null;
+  parent_id: string | null;
+  variant_name: string | null;
+  created_at?: string;
   categories?: Category[] | null;
 };
 
 export default function ProductsScreen() {
   const { profile } = useAuth();
-  const [products, setProducts] = useState<Product[]>([]);
+  const router = useRouter();
   const [categories, setCategories] = useState<Category[]>([]);
   const [loading, setLoading] = useState(true);
   const [productModalVisible, setProductModalVisible] = useState(false);
@@ -74,21 +108,40 @@ export default function ProductsScreen() {
   const [formData, setFormData] = useState({
     name: '',
     price: '',
+    cost: '',
     category_id: '',
+    tax_class_id: '',
     stock: '',
+    sku: '',
+    barcode: '',
+    reorder_point: '',
+    reorder_quantity: '',
   });
   const [categoryFormData, setCategoryFormData] = useState({
     name: '',
     color: '#3B82F6',
+    tax_class_id: '',
   });
+  const { taxConfig, reloadTaxConfig } = useTaxConfig();
   
   // New state for search, filters, and selection
+  const [searchInput, setSearchInput] = useState('');
   const [searchQuery, setSearchQuery] = useState('');
   const [showInactive, setShowInactive] = useState(false);
   const [selectionMode, setSelectionMode] = useState(false);
   const [selectedProducts, setSelectedProducts] = useState<Set<string>>(new Set());
   const [uploadingImage, setUploadingImage] = useState(false);
   const [selectedImageUri, setSelectedImageUri] = useState<string | null>(null);
+  const [stockHistoryProduct, setStockHistoryProduct] = useState<Product | null>(null);
+  const [stockAdjustmentProduct, setStockAdjustmentProduct] = useState<Product | null>(null);
+  const [variantsProduct, setVariantsProduct] = useState<Product | null>(null);
+  const [bundleProduct, setBundleProduct] = useState<Product | null>(null);
+  const [importModalVisible, setImportModalVisible] = useState(false);
+  // The whole catalog, loaded only for exports, imports and bundle components
+  const [catalog, setCatalog] = useState<Product[]>([]);
+  const [loadingCatalog, setLoadingCatalog] = useState(false);
+  // Cost prices by product id; only admins can read them
+  const [costs, setCosts] = useState<Record<string, number>>({});
   
   // Color presets for categories
   const colorPresets = [
@@ -103,26 +156,35 @@ export default function ProductsScreen() {
   ];
 
   const isAdmin = profile?.role === 'admin';
+  // Pages of products matching the search, with their variants
+  const {
+    products,
+    loading: productsLoading,
+    loadingMore,
+    hasMore,
+    error: productsError,
+    loadMore,
+    refresh: refreshProducts,
+  } = useProductSearch<Product>({ query: searchQuery, includeInactive: isAdmin && showInactive });
 
   useEffect(() => {
     loadData();
   }, []);
 
+  // Wait for typing to stop before searching
+  useEffect(() => {
+    const timer = setTimeout(() => setSearchQuery(searchInput), 300);
+    return () => clearTimeout(timer);
+  }, [searchInput]);
+
+  // After changes to products, which the POS grid caches too
+  const reloadData = () => {
+    refreshProducts();
+    loadData();
+  };
+
   const loadData = async () => {
     try {
-      const productsResult = await fetchProducts();
-      
-      if (productsResult.error) {
-        console.error('Products error:', productsResult.error);
-        Alert.alert('Error', 'Failed to load products. Please try again.');
-        return;
-      }
-
-      if (productsResult.data) {
-        // Use the normalized response directly since the service now handles the transformation
-        setProducts(productsResult.data);
-      }
-      
       // Use the service to fetch categories
       const categoriesResult = await fetchCategories();
         
@@ -133,6 +195,14 @@ export default function ProductsScreen() {
       }
       
       if (categoriesResult.data) setCategories(categoriesResult.data);
+
+      if (isAdmin) {
+        const costsResult = await fetchProductCosts();
+        if (costsResult.error) {
+          console.error('Product costs error:', costsResult.error);
+        }
+        if (costsResult.data) setCosts(costsResult.data);
+      }
     } catch (error) {
       console.error('Error loading data:', error);
       Alert.alert('Error', 'An unexpected error occurred while loading data.');
@@ -141,30 +211,47 @@ export default function ProductsScreen() {
     }
   };
 
-  // Compute filtered products based on search and active status
-  const filteredProducts = products.filter((product) => {
-    // Filter by active status
-    if (!isAdmin && !product.active) return false;
-    if (isAdmin && !showInactive && !product.active) return false;
-    
-    // Filter by search query
-    if (searchQuery.trim()) {
-      const query = searchQuery.toLowerCase();
-      const nameMatch = product.name.toLowerCase().includes(query);
-      const categoryMatch = product.categories?.name.toLowerCase().includes(query);
-      return nameMatch || categoryMatch;
+  // Search and the active filter are applied by search_products; variants
+  // are listed under their parent
+  const filteredProducts = getTopLevelProducts(products);
+
+  const loadCatalog = async (): Promise<Product[] | null> => {
+    setLoadingCatalog(true);
+    try {
+      const result = await fetchProducts();
+      if (result.error || !result.data) {
+        console.error('Products error:', result.error);
+        Alert.alert('Error', 'Failed to load products. Please try again.');
+        return null;
+      }
+      setCatalog(result.data);
+      return result.data;
+    } finally {
+      setLoadingCatalog(false);
     }
-    
-    return true;
-  });
+  };
+
+  const openImportModal = async () => {
+    if (await loadCatalog()) setImportModalVisible(true);
+  };
+
+  const openBundleModal = async (product: Product) => {
+    if (await loadCatalog()) setBundleProduct(product);
+  };
 
   const openAddProductModal = () => {
     setEditingProduct(null);
     setFormData({
       name: '',
       price: '',
+      cost: '',
       category_id: categories[0]?.id || '',
+      tax_class_id: '',
       stock: '0',
+      sku: '',
+      barcode: '',
+      reorder_point: String(DEFAULT_REORDER_POINT),
+      reorder_quantity: '',
     });
     setSelectedImageUri(null);
     setProductModalVisible(true);
@@ -175,8 +262,14 @@ export default function ProductsScreen() {
     setFormData({
       name: product.name,
       price: product.price.toString(),
+      cost: costs[product.id]?.toString() ?? '',
       category_id: product.category_id || '',
+      tax_class_id: product.tax_class_id || '',
       stock: product.stock.toString(),
+      sku: product.sku || '',
+      barcode: product.barcode || '',
+      reorder_point: product.reorder_point.toString(),
+      reorder_quantity: product.reorder_quantity?.toString() || '',
     });
     setSelectedImageUri(product.image_url);
     setProductModalVisible(true);
@@ -187,6 +280,7 @@ export default function ProductsScreen() {
     setCategoryFormData({
       name: '',
       color: '#3B82F6',
+      tax_class_id: '',
     });
     setCategoryModalVisible(true);
   };
@@ -196,6 +290,7 @@ export default function ProductsScreen() {
     setCategoryFormData({
       name: category.name,
       color: category.color,
+      tax_class_id: category.tax_class_id || '',
     });
     setCategoryModalVisible(true);
   };
@@ -259,6 +354,34 @@ export default function ProductsScreen() {
       return;
     }
 
+    // SKUs and barcodes are unique; check the loaded pages first for a clearer
+    // message and leave the rest to the unique indexes
+    const sku = formData.sku.trim().toLowerCase();
+    const barcode = formData.barcode.trim();
+    const duplicate = products.find(
+      (p) =>
+        p.id !== editingProduct?.id &&
+        ((sku && p.sku?.toLowerCase() === sku) || (barcode && p.barcode === barcode))
+    );
+    if (duplicate) {
+      Alert.alert('Error', `"${duplicate.name}" already uses this SKU or barcode`);
+      return;
+    }
+
+    const reorderPoint = formData.reorder_point.trim() ? parseInt(formData.reorder_point, 10) : DEFAULT_REORDER_POINT;
+    const reorderQuantity = formData.reorder_quantity.trim() ? parseInt(formData.reorder_quantity, 10) : null;
+    if (isNaN(reorderPoint) || reorderPoint < 0 || (reorderQuantity !== null && (isNaN(reorderQuantity) || reorderQuantity <= 0))) {
+      Alert.alert('Error', 'Reorder point must be 0 or more and reorder quantity above 0');
+      return;
+    }
+
+    // A blank cost leaves the current cost price alone
+    const cost = formData.cost.trim() ? parseFloat(formData.cost) : null;
+    if (cost !== null && (isNaN(cost) || cost < 0)) {
+      Alert.alert('Error', 'Cost must be 0 or more');
+      return;
+    }
+
     try {
       let imageUrl = selectedImageUri;
       
@@ -279,12 +402,18 @@ export default function ProductsScreen() {
         name: formData.name,
         price: parseFloat(formData.price),
         category_id: formData.category_id || null,
-        stock: parseInt(formData.stock) || 0,
+        tax_class_id: formData.tax_class_id || null,
+        sku: formData.sku.trim() || null,
+        barcode: formData.barcode.trim() || null,
+        reorder_point: reorderPoint,
+        reorder_quantity: reorderQuantity,
       };
 
-      // Only set active: true for new products
+      // Only set active: true and the opening stock for new products; later
+      // changes go through a stock adjustment so they are logged
       if (!editingProduct) {
         productData.active = true;
+        productData.stock = parseInt(formData.stock) || 0;
       }
       
       // Include image_url if we have one
@@ -292,6 +421,7 @@ export default function ProductsScreen() {
         productData.image_url = imageUrl;
       }
 
+      let productId = editingProduct?.id;
       if (editingProduct) {
         const result = await updateProduct(editingProduct.id, productData);
 
@@ -300,11 +430,18 @@ export default function ProductsScreen() {
         const result = await createProduct(productData);
 
         if (result.error) throw new Error(result.error);
+        productId = result.data?.id;
+      }
+
+      if (productId && cost !== null && cost !== costs[productId]) {
+        const costResult = await saveProductCost(productId, cost);
+
+        if (costResult.error) throw new Error(`The product was saved but its cost was not: ${costResult.error}`);
       }
 
       setProductModalVisible(false);
       setSelectedImageUri(null);
-      loadData();
+      reloadData();
     } catch (error: any) {
       console.error('Error saving product:', error);
       Alert.alert('Error', error.message || 'Failed to save product');
@@ -321,6 +458,7 @@ export default function ProductsScreen() {
       const categoryData = {
         name: categoryFormData.name,
         color: categoryFormData.color,
+        tax_class_id: categoryFormData.tax_class_id || null,
       };
 
       if (editingCategory) {
@@ -334,7 +472,9 @@ export default function ProductsScreen() {
       }
 
       setCategoryModalVisible(false);
-      loadData();
+      reloadData();
+      // Category tax classes feed into cart totals
+      reloadTaxConfig();
     } catch (error: any) {
       console.error('Error saving category:', error);
       Alert.alert('Error', error.message || 'Failed to save category');
@@ -355,7 +495,7 @@ export default function ProductsScreen() {
               const result = await deleteProduct(productId);
 
               if (result.error) throw new Error(result.error);
-              loadData();
+              reloadData();
             } catch (error: any) {
               console.error('Error deleting product:', error);
               Alert.alert('Error', error.message || 'Failed to delete product');
@@ -380,7 +520,7 @@ export default function ProductsScreen() {
               const result = await deleteCategory(categoryId);
 
               if (result.error) throw new Error(result.error);
-              loadData();
+              reloadData();
             } catch (error: any) {
               console.error('Error deleting category:', error);
               Alert.alert('Error', error.message || 'Failed to delete category');
@@ -427,7 +567,7 @@ export default function ProductsScreen() {
               if (result.error) throw new Error(result.error);
               setSelectedProducts(new Set());
               setSelectionMode(false);
-              loadData();
+              reloadData();
             } catch (error: any) {
               console.error('Error activating products:', error);
               Alert.alert('Error', error.message || 'Failed to activate products');
@@ -456,7 +596,7 @@ export default function ProductsScreen() {
               if (result.error) throw new Error(result.error);
               setSelectedProducts(new Set());
               setSelectionMode(false);
-              loadData();
+              reloadData();
             } catch (error: any) {
               console.error('Error deactivating products:', error);
               Alert.alert('Error', error.message || 'Failed to deactivate products');
@@ -467,6 +607,17 @@ export default function ProductsScreen() {
     );
   };
 
+  const handleExport = async () => {
+    try {
+      const allProducts = await loadCatalog();
+      if (!allProducts) return;
+      await shareCsv(`products-${new Date().toISOString().slice(0, 10)}.csv`, productsToCsv(allProducts, categories));
+    } catch (error) {
+      console.error('Error exporting products:', error);
+      Alert.alert('Export Failed', 'Unable to export the products.');
+    }
+  };
+
   if (loading) {
     return (
       <View style={styles.loadingContainer}>
@@ -479,18 +630,36 @@ export default function ProductsScreen() {
     <SafeAreaView style={styles.container}>
       <View style={styles.header}>
         <Text style={styles.headerTitle}>Products</Text>
-        {isAdmin && (
-          <View style={styles.headerActions}>
-            <TouchableOpacity style={styles.addButton} onPress={openAddCategoryModal}>
-              <Plus size={20} color="#FFFFFF" />
-              <Text style={styles.addButtonText}>Add Category</Text>
-            </TouchableOpacity>
-            <TouchableOpacity style={styles.addButton} onPress={openAddProductModal}>
-              <Plus size={20} color="#FFFFFF" />
-              <Text style={styles.addButtonText}>Add Product</Text>
-            </TouchableOpacity>
-          </View>
-        )}
+        <View style={styles.headerActions}>
+          <TouchableOpacity style={styles.secondaryButton} onPress={() => router.push('/(tabs)/stocktake')}>
+            <ClipboardList size={20} color="#3B82F6" />
+            <Text style={styles.secondaryButtonText}>Stocktake</Text>
+          </TouchableOpacity>
+          {isAdmin && (
+            <>
+              <TouchableOpacity style={styles.secondaryButton} onPress={() => router.push('/(tabs)/modifiers')}>
+                <Settings2 size={20} color="#3B82F6" />
+                <Text style={styles.secondaryButtonText}>Modifiers</Text>
+              </TouchableOpacity>
+              <TouchableOpacity style={styles.secondaryButton} onPress={handleExport} disabled={loadingCatalog}>
+                <Download size={20} color="#3B82F6" />
+                <Text style={styles.secondaryButtonText}>Export</Text>
+              </TouchableOpacity>
+              <TouchableOpacity style={styles.secondaryButton} onPress={openImportModal} disabled={loadingCatalog}>
+                <FileUp size={20} color="#3B82F6" />
+                <Text style={styles.secondaryButtonText}>Import</Text>
+              </TouchableOpacity>
+              <TouchableOpacity style={styles.addButton} onPress={openAddCategoryModal}>
+                <Plus size={20} color="#FFFFFF" />
+                <Text style={styles.addButtonText}>Add Category</Text>
+              </TouchableOpacity>
+              <TouchableOpacity style={styles.addButton} onPress={openAddProductModal}>
+                <Plus size={20} color="#FFFFFF" />
+                <Text style={styles.addButtonText}>Add Product</Text>
+              </TouchableOpacity>
+            </>
+          )}
+        </View>
       </View>
 
       {/* Search and Filters */}
@@ -500,8 +669,8 @@ export default function ProductsScreen() {
           <TextInput
             style={styles.searchInput}
             placeholder="Search products..."
-            value={searchQuery}
-            onChangeText={setSearchQuery}
+            value={searchInput}
+            onChangeText={setSearchInput}
           />
         </View>
         {isAdmin && (
@@ -565,7 +734,12 @@ export default function ProductsScreen() {
         )}
       </View>
 
-      <ScrollView style={styles.content}>
+      <ScrollView
+        style={styles.content}
+        scrollEventThrottle={200}
+        onScroll={({ nativeEvent }) => {
+          if (hasMore && isNearScrollEnd(nativeEvent)) loadMore();
+        }}>
         {/* Categories Section */}
         {isAdmin && (
           <View style={styles.section}>
@@ -605,12 +779,14 @@ export default function ProductsScreen() {
           <View style={styles.sectionHeader}>
             <Text style={styles.sectionTitle}>Products</Text>
           </View>
-          {filteredProducts.length === 0 ? (
+          {productsLoading ? (
+            <ActivityIndicator size="large" color="#3B82F6" style={styles.listLoading} />
+          ) : filteredProducts.length === 0 ? (
             <View style={styles.emptyState}>
               <Text style={styles.emptyStateText}>
-                {searchQuery.trim() ? 'No products found' : 'No products yet'}
+                {productsError ? 'Failed to load products' : searchQuery.trim() ? 'No products found' : 'No products yet'}
               </Text>
-              {isAdmin && !searchQuery.trim() && (
+              {isAdmin && !searchQuery.trim() && !productsError && (
                 <TouchableOpacity style={styles.addButton} onPress={openAddProductModal}>
                   <Plus size={20} color="#FFFFFF" />
                   <Text style={styles.addButtonText}>Add Product</Text>
@@ -618,75 +794,141 @@ export default function ProductsScreen() {
               )}
             </View>
           ) : (
-            filteredProducts.map((product) => (
-              <View key={product.id} style={styles.productCard}>
-                {selectionMode && (
-                  <TouchableOpacity
-                    style={[
-                      styles.checkbox,
-                      selectedProducts.has(product.id) && styles.checkboxSelected,
-                    ]}
-                    onPress={() => toggleProductSelection(product.id)}>
-                    {selectedProducts.has(product.id) && (
-                      <Check size={14} color="#FFFFFF" />
-                    )}
-                  </TouchableOpacity>
-                )}
+            filteredProducts.map((product) => {
+              const variants = getVariants(products, product.id);
+              const hasVariants = variants.length > 0;
+              const productIsBundle = isBundle(product);
+              return (
+                <View key={product.id} style={styles.productCard}>
+                  {selectionMode && (
+                    <TouchableOpacity
+                      style={[
+                        styles.checkbox,
+                        selectedProducts.has(product.id) && styles.checkboxSelected,
+                      ]}
+                      onPress={() => toggleProductSelection(product.id)}>
+                      {selectedProducts.has(product.id) && (
+                        <Check size={14} color="#FFFFFF" />
+                      )}
+                    </TouchableOpacity>
+                  )}
                 
-                <View style={styles.productInfo}>
-                  <View style={styles.productMain}>
-                    <Text style={styles.productName}>{product.name}</Text>
-                    {product.categories && (
-                      <View
-                        style={[
-                          styles.categoryBadge,
-                          { backgroundColor: product.categories.color + '20' },
-                        ]}>
-                        <Text
+                  <View style={styles.productInfo}>
+                    <View style={styles.productMain}>
+                      <Text style={styles.productName}>{product.name}</Text>
+                      {product.categories && (
+                        <View
                           style={[
-                            styles.categoryText,
-                            { color: product.categories.color },
+                            styles.categoryBadge,
+                            { backgroundColor: product.categories.color + '20' },
                           ]}>
-                          {product.categories.name}
+                          <Text
+                            style={[
+                              styles.categoryText,
+                              { color: product.categories.color },
+                            ]}>
+                            {product.categories.name}
+                          </Text>
+                        </View>
+                      )}
+                    </View>
+                    <View style={styles.productDetails}>
+                      <Text style={styles.productPrice}>
+                        {hasVariants ? formatPriceRange(variants) : formatPrice(product.price)}
+                      </Text>
+                      <Text style={styles.productStock}>
+                        Stock: {hasVariants ? getVariantStock(variants) : product.stock}
+                      </Text>
+                      {hasVariants && (
+                        <Text style={styles.productStock}>
+                          {variants.length} {variants.length === 1 ? 'variant' : 'variants'}
                         </Text>
-                      </View>
+                      )}
+                    </View>
+                    {productIsBundle && (
+                      <Text style={styles.productSku}>
+                        Bundle: {formatBundleComponents(product.bundle_components)}
+                      </Text>
+                    )}
+                    {isAdmin && !hasVariants && (() => {
+                      const cost = productIsBundle
+                        ? getBundleCost(product.bundle_components, costs)
+                        : costs[product.id] ?? null;
+                      if (cost === null) return null;
+                      const margin = getMargin(getNetPrice(product, taxConfig), cost);
+                      return (
+                        <Text style={[styles.productMargin, margin.profit < 0 && styles.productMarginNegative]}>
+                          Cost {formatPrice(cost)} · Margin {formatPercent(margin.marginPercent)} · Markup {formatPercent(margin.markupPercent)}
+                        </Text>
+                      );
+                    })()}
+                    {product.sku && (
+                      <Text style={styles.productSku}>SKU: {product.sku}</Text>
                     )}
                   </View>
-                  <View style={styles.productDetails}>
-                    <Text style={styles.productPrice}>{formatPrice(product.price)}</Text>
-                    <Text style={styles.productStock}>Stock: {product.stock}</Text>
-                  </View>
-                </View>
 
-                {product.image_url && (
-                  <Image
-                    source={{ uri: product.image_url }}
-                    style={styles.productImage}
-                  />
-                )}
+                  {product.image_url && (
+                    <Image
+                      source={{ uri: product.image_url }}
+                      style={styles.productImage}
+                    />
+                  )}
 
-                {!product.active && (
-                  <View style={styles.inactiveBadge}>
-                    <Text style={styles.inactiveBadgeText}>Inactive</Text>
-                  </View>
-                )}
+                  {!product.active && (
+                    <View style={styles.inactiveBadge}>
+                      <Text style={styles.inactiveBadgeText}>Inactive</Text>
+                    </View>
+                  )}
 
-                {isAdmin && !selectionMode && (
-                  <View style={styles.productActions}>
-                    <TouchableOpacity
-                      style={styles.editButton}
-                      onPress={() => openEditProductModal(product)}>
-                      <Edit2 size={18} color="#3B82F6" />
-                    </TouchableOpacity>
-                    <TouchableOpacity
-                      style={styles.deleteButton}
-                      onPress={() => handleDeleteProduct(product.id)}>
-                      <Trash2 size={18} color="#EF4444" />
-                    </TouchableOpacity>
-                  </View>
-                )}
-              </View>
-            ))
+                  {isAdmin && !selectionMode && (
+                    <View style={styles.productActions}>
+                      {/* Products with variants and bundles hold no stock themselves */}
+                      {!hasVariants && !productIsBundle && (
+                        <>
+                          <TouchableOpacity
+                            style={styles.editButton}
+                            onPress={() => setStockHistoryProduct(product)}>
+                            <History size={18} color="#3B82F6" />
+                          </TouchableOpacity>
+                          <TouchableOpacity
+                            style={styles.editButton}
+                            onPress={() => setStockAdjustmentProduct(product)}>
+                            <SlidersHorizontal size={18} color="#3B82F6" />
+                          </TouchableOpacity>
+                        </>
+                      )}
+                      {!productIsBundle && (
+                        <TouchableOpacity
+                          style={styles.editButton}
+                          onPress={() => setVariantsProduct(product)}>
+                          <Layers size={18} color="#3B82F6" />
+                        </TouchableOpacity>
+                      )}
+                      {!hasVariants && (
+                        <TouchableOpacity
+                          style={styles.editButton}
+                          onPress={() => openBundleModal(product)}>
+                          <Package size={18} color="#3B82F6" />
+                        </TouchableOpacity>
+                      )}
+                      <TouchableOpacity
+                        style={styles.editButton}
+                        onPress={() => openEditProductModal(product)}>
+                        <Edit2 size={18} color="#3B82F6" />
+                      </TouchableOpacity>
+                      <TouchableOpacity
+                        style={styles.deleteButton}
+                        onPress={() => handleDeleteProduct(product.id)}>
+                        <Trash2 size={18} color="#EF4444" />
+                      </TouchableOpacity>
+                    </View>
+                  )}
+                </View>
+              );
+            })
+          )}
+          {loadingMore && (
+            <ActivityIndicator color="#3B82F6" style={styles.listLoadingMore} />
           )}
         </View>
       </ScrollView>
@@ -712,14 +954,56 @@ export default function ProductsScreen() {
                 placeholder="Enter product name"
               />
 
-              <Text style={styles.label}>Price *</Text>
-              <TextInput
-                style={styles.input}
-                value={formData.price}
-                onChangeText={(text) => setFormData({ ...formData, price: text })}
-                placeholder="0.00"
-                keyboardType="decimal-pad"
-              />
+              <View style={styles.codeRow}>
+                <View style={styles.codeField}>
+                  <Text style={styles.label}>Price *</Text>
+                  <TextInput
+                    style={styles.input}
+                    value={formData.price}
+                    onChangeText={(text) => setFormData({ ...formData, price: text })}
+                    placeholder="0.00"
+                    keyboardType="decimal-pad"
+                  />
+                </View>
+                {/* Bundles cost what their components cost and variants carry their own */}
+                {!(editingProduct && (isBundle(editingProduct) || getVariants(products, editingProduct.id).length > 0)) && (
+                  <View style={styles.codeField}>
+                    <Text style={styles.label}>Cost</Text>
+                    <TextInput
+                      style={styles.input}
+                      value={formData.cost}
+                      onChangeText={(text) => setFormData({ ...formData, cost: text })}
+                      placeholder="Optional"
+                      keyboardType="decimal-pad"
+                    />
+                  </View>
+                )}
+              </View>
+
+              <View style={styles.codeRow}>
+                <View style={styles.codeField}>
+                  <Text style={styles.label}>SKU</Text>
+                  <TextInput
+                    style={styles.input}
+                    value={formData.sku}
+                    onChangeText={(text) => setFormData({ ...formData, sku: text })}
+                    placeholder="Optional"
+                    autoCapitalize="characters"
+                    autoCorrect={false}
+                  />
+                </View>
+                <View style={styles.codeField}>
+                  <Text style={styles.label}>Barcode</Text>
+                  <TextInput
+                    style={styles.input}
+                    value={formData.barcode}
+                    onChangeText={(text) => setFormData({ ...formData, barcode: text })}
+                    placeholder="Optional"
+                    autoCapitalize="none"
+                    autoCorrect={false}
+                  />
+                </View>
+              </View>
 
               <Text style={styles.label}>Category</Text>
               <View style={styles.categoryPicker}>
@@ -744,14 +1028,87 @@ export default function ProductsScreen() {
                 ))}
               </View>
 
-              <Text style={styles.label}>Stock</Text>
-              <TextInput
-                style={styles.input}
-                value={formData.stock}
-                onChangeText={(text) => setFormData({ ...formData, stock: text })}
-                placeholder="0"
-                keyboardType="number-pad"
-              />
+              <Text style={styles.label}>Tax Class</Text>
+              <View style={styles.categoryPicker}>
+                {[null, ...taxConfig.taxClasses].map((taxClass) => {
+                  const value = taxClass?.id || '';
+                  const selected = formData.tax_class_id === value;
+                  return (
+                    <TouchableOpacity
+                      key={value || 'inherit'}
+                      style={[styles.categoryOption, selected && styles.categoryOptionSelected]}
+                      onPress={() => setFormData({ ...formData, tax_class_id: value })}>
+                      <Text style={[styles.categoryOptionText, selected && styles.categoryOptionTextSelected]}>
+                        {taxClass ? taxClass.name : 'Use category default'}
+                      </Text>
+                    </TouchableOpacity>
+                  );
+                })}
+              </View>
+
+              {editingProduct && getVariants(products, editingProduct.id).length > 0 ? (
+                <>
+                  <Text style={styles.label}>Stock</Text>
+                  <View style={styles.stockRow}>
+                    <Text style={styles.stockValue}>Tracked per variant</Text>
+                    <TouchableOpacity
+                      onPress={() => {
+                        setProductModalVisible(false);
+                        setVariantsProduct(editingProduct);
+                      }}>
+                      <Text style={styles.stockAdjustLink}>Manage Variants</Text>
+                    </TouchableOpacity>
+                  </View>
+                </>
+              ) : editingProduct ? (
+                <>
+                  <Text style={styles.label}>Stock</Text>
+                  <View style={styles.stockRow}>
+                    <Text style={styles.stockValue}>{editingProduct.stock} in stock</Text>
+                    <TouchableOpacity
+                      onPress={() => {
+                        setProductModalVisible(false);
+                        setStockAdjustmentProduct(editingProduct);
+                      }}>
+                      <Text style={styles.stockAdjustLink}>Adjust Stock</Text>
+                    </TouchableOpacity>
+                  </View>
+                </>
+              ) : (
+                <>
+                  <Text style={styles.label}>Opening Stock</Text>
+                  <TextInput
+                    style={styles.input}
+                    value={formData.stock}
+                    onChangeText={(text) => setFormData({ ...formData, stock: text })}
+                    placeholder="0"
+                    keyboardType="number-pad"
+                  />
+                </>
+              )}
+
+              <View style={styles.codeRow}>
+                <View style={styles.codeField}>
+                  <Text style={styles.label}>Reorder Point</Text>
+                  <TextInput
+                    style={styles.input}
+                    value={formData.reorder_point}
+                    onChangeText={(text) => setFormData({ ...formData, reorder_point: text })}
+                    placeholder={String(DEFAULT_REORDER_POINT)}
+                    keyboardType="number-pad"
+                  />
+                </View>
+                <View style={styles.codeField}>
+                  <Text style={styles.label}>Reorder Qty</Text>
+                  <TextInput
+                    style={styles.input}
+                    value={formData.reorder_quantity}
+                    onChangeText={(text) => setFormData({ ...formData, reorder_quantity: text })}
+                    placeholder="Optional"
+                    keyboardType="number-pad"
+                  />
+                </View>
+              </View>
 
               {/* Image Picker Section */}
               <View style={styles.imagePickerContainer}>
@@ -848,6 +1205,24 @@ export default function ProductsScreen() {
                 placeholder="#3B82F6"
               />
 
+              <Text style={styles.label}>Tax Class</Text>
+              <View style={styles.categoryPicker}>
+                {[null, ...taxConfig.taxClasses].map((taxClass) => {
+                  const value = taxClass?.id || '';
+                  const selected = categoryFormData.tax_class_id === value;
+                  return (
+                    <TouchableOpacity
+                      key={value || 'default'}
+                      style={[styles.categoryOption, selected && styles.categoryOptionSelected]}
+                      onPress={() => setCategoryFormData({ ...categoryFormData, tax_class_id: value })}>
+                      <Text style={[styles.categoryOptionText, selected && styles.categoryOptionTextSelected]}>
+                        {taxClass ? taxClass.name : 'Store default'}
+                      </Text>
+                    </TouchableOpacity>
+                  );
+                })}
+              </View>
+
               <View style={styles.modalActions}>
                 <TouchableOpacity
                   style={styles.cancelButton}
@@ -862,6 +1237,57 @@ export default function ProductsScreen() {
           </View>
         </View>
       </Modal>
+
+      <StockHistoryModal
+        visible={stockHistoryProduct !== null}
+        product={stockHistoryProduct}
+        onClose={() => setStockHistoryProduct(null)}
+      />
+
+      <StockAdjustmentModal
+        visible={stockAdjustmentProduct !== null}
+        product={stockAdjustmentProduct}
+        onClose={() => setStockAdjustmentProduct(null)}
+        onAdjusted={() => {
+          setStockAdjustmentProduct(null);
+          reloadData();
+        }}
+      />
+
+      <ProductVariantsModal
+        visible={variantsProduct !== null}
+        product={variantsProduct}
+        variants={variantsProduct ? getVariants(products, variantsProduct.id) : []}
+        onClose={() => setVariantsProduct(null)}
+        onChanged={reloadData}
+        onShowHistory={(variant) => {
+          setVariantsProduct(null);
+          setStockHistoryProduct(variant);
+        }}
+        onAdjustStock={(variant) => {
+          setVariantsProduct(null);
+          setStockAdjustmentProduct(variant);
+        }}
+      />
+
+      <BundleComponentsModal
+        visible={bundleProduct !== null}
+        product={bundleProduct}
+        products={catalog}
+        onClose={() => setBundleProduct(null)}
+        onChanged={reloadData}
+      />
+
+      <ProductImportModal
+        visible={importModalVisible}
+        products={catalog}
+        categories={categories}
+        onClose={() => setImportModalVisible(false)}
+        onImported={() => {
+          setImportModalVisible(false);
+          reloadData();
+        }}
+      />
     </SafeAreaView>
   );
 }
@@ -908,6 +1334,20 @@ const styles = StyleSheet.create({
     fontSize: 12,
     fontWeight: '600',
   },
+  secondaryButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#EFF6FF',
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 8,
+    gap: 4,
+  },
+  secondaryButtonText: {
+    color: '#3B82F6',
+    fontSize: 12,
+    fontWeight: '600',
+  },
   content: {
     flex: 1,
     padding: 16,
@@ -966,6 +1406,12 @@ const styles = StyleSheet.create({
     color: '#6B7280',
     marginBottom: 16,
   },
+  listLoading: {
+    marginTop: 32,
+  },
+  listLoadingMore: {
+    marginVertical: 16,
+  },
   productCard: {
     backgroundColor: '#FFFFFF',
     borderRadius: 12,
@@ -1013,10 +1459,42 @@ const styles = StyleSheet.create({
     fontSize: 14,
     color: '#6B7280',
   },
+  productSku: {
+    fontSize: 12,
+    color: '#9CA3AF',
+    marginTop: 4,
+  },
+  productMargin: {
+    fontSize: 12,
+    color: '#10B981',
+    marginTop: 4,
+  },
+  productMarginNegative: {
+    color: '#EF4444',
+  },
   productActions: {
     flexDirection: 'row',
     gap: 8,
   },
+  stockRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    backgroundColor: '#F9FAFB',
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+    borderRadius: 8,
+    padding: 12,
+  },
+  stockValue: {
+    fontSize: 16,
+    color: '#111827',
+  },
+  stockAdjustLink: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#3B82F6',
+  },
   editButton: {
     width: 36,
     height: 36,
@@ -1061,6 +1539,13 @@ const styles = StyleSheet.create({
     color: '#374151',
     marginBottom: 4,
   },
+  codeRow: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+  codeField: {
+    flex: 1,
+  },
   input: {
     backgroundColor: '#F9FAFB',
     borderWidth: 1,
@@ -1,52 +1,72 @@
-import { View, Text, StyleSheet, SafeAreaView, TouchableOpacity, TextInput, Alert, ActivityIndicator } from 'react-native';
+import { View, Text, StyleSheet, SafeAreaView, TouchableOpacity, TextInput, Alert, ActivityIndicator, Modal } from 'react-native';
 import { useRouter } from 'expo-router';
 import { useAuth } from '@/contexts/AuthContext';
 import { useCart } from '@/contexts/CartContext';
 import { updateOwnProfile } from '@/services/users.service';
-import { User, Mail, Shield, LogOut, Users } from 'lucide-react-native';
+import { User, Mail, Shield, LogOut, Users, Store, Truck, UserRound } from 'lucide-react-native';
 import { useState } from 'react';
+import StoreSettingsModal from '@/components/StoreSettingsModal';
 
 export default function ProfileScreen() {
   const { user, profile, signOut } = useAuth();
-  const { clearCart } = useCart();
+  const { cart, getCartCount, holdCart, transferCart, clearCart } = useCart();
   const router = useRouter();
   const [fullName, setFullName] = useState(profile?.full_name || '');
   const [editing, setEditing] = useState(false);
   const [saving, setSaving] = useState(false);
   const [signingOut, setSigningOut] = useState(false);
+  const [storeSettingsVisible, setStoreSettingsVisible] = useState(false);
+  const [cartChoiceVisible, setCartChoiceVisible] = useState(false);
+
+  const performSignOut = async () => {
+    try {
+      // Set loading state
+      setSigningOut(true);
+      
+      await signOut();
+      // Explicitly navigate to login to ensure proper navigation stack
+      router.replace('/(auth)/login');
+    } catch (error: any) {
+      console.error('Sign out error:', error);
+      Alert.alert('Error', error.message || 'Failed to sign out. Please try again.');
+      // Reset loading state on error
+      setSigningOut(false);
+    }
+  };
 
   const handleSignOut = async () => {
+    // A sale in progress has to be dealt with before the till changes hands
+    if (cart.length > 0) {
+      setCartChoiceVisible(true);
+      return;
+    }
+
     Alert.alert(
       'Sign Out',
       'Are you sure you want to sign out?',
       [
         { text: 'Cancel', style: 'cancel' },
-        {
-          text: 'Sign Out',
-          style: 'destructive',
-          onPress: async () => {
-            try {
-              // Clear cart before signing out
-              clearCart();
-              
-              // Set loading state
-              setSigningOut(true);
-              
-              await signOut();
-              // Explicitly navigate to login to ensure proper navigation stack
-              router.replace('/(auth)/login');
-            } catch (error: any) {
-              console.error('Sign out error:', error);
-              Alert.alert('Error', error.message || 'Failed to sign out. Please try again.');
-              // Reset loading state on error
-              setSigningOut(false);
-            }
-          },
-        },
+        { text: 'Sign Out', style: 'destructive', onPress: performSignOut },
       ]
     );
   };
 
+  const handleCartChoice = async (choice: 'hold' | 'transfer' | 'discard') => {
+    setCartChoiceVisible(false);
+    if (choice === 'hold') {
+      const result = await holdCart('');
+      if (!result.ticket) {
+        Alert.alert('Error', result.error || 'Failed to hold the cart');
+        return;
+      }
+    } else if (choice === 'transfer') {
+      await transferCart();
+    } else {
+      clearCart();
+    }
+    await performSignOut();
+  };
+
   const handleSave = async () => {
     if (!user) return;
 
@@ -161,6 +181,18 @@ export default function ProfileScreen() {
           </View>
         </View>
 
+        <View style={styles.adminSection}>
+          <Text style={styles.adminTitle}>Customers</Text>
+          <TouchableOpacity
+            style={[styles.adminButton, signingOut && styles.buttonDisabled]}
+            onPress={() => router.push('/(tabs)/customers')}
+            disabled={signingOut}
+          >
+            <UserRound size={20} color="#3B82F6" />
+            <Text style={styles.adminButtonText}>Customers & Points</Text>
+          </TouchableOpacity>
+        </View>
+
         {/* Admin Actions */}
         {profile?.role === 'admin' && (
           <View style={styles.adminSection}>
@@ -173,6 +205,22 @@ export default function ProfileScreen() {
               <Users size={20} color="#3B82F6" />
               <Text style={styles.adminButtonText}>Manage Users</Text>
             </TouchableOpacity>
+            <TouchableOpacity
+              style={[styles.adminButton, signingOut && styles.buttonDisabled]}
+              onPress={() => setStoreSettingsVisible(true)}
+              disabled={signingOut}
+            >
+              <Store size={20} color="#3B82F6" />
+              <Text style={styles.adminButtonText}>Store & Receipt Settings</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={[styles.adminButton, signingOut && styles.buttonDisabled]}
+              onPress={() => router.push('/(tabs)/purchasing')}
+              disabled={signingOut}
+            >
+              <Truck size={20} color="#3B82F6" />
+              <Text style={styles.adminButtonText}>Purchasing & Suppliers</Text>
+            </TouchableOpacity>
           </View>
         )}
 
@@ -196,6 +244,48 @@ export default function ProfileScreen() {
           <Text style={styles.footerSubtext}>Built with React Native & Supabase</Text>
         </View>
       </View>
+
+      <StoreSettingsModal
+        visible={storeSettingsVisible}
+        onClose={() => setStoreSettingsVisible(false)}
+      />
+
+      <Modal
+        visible={cartChoiceVisible}
+        transparent
+        animationType="slide"
+        onRequestClose={() => setCartChoiceVisible(false)}>
+        <View style={styles.modalOverlay}>
+          <View style={styles.modalContent}>
+            <View style={styles.modalHeader}>
+              <Text style={styles.modalTitle}>Cart in Progress</Text>
+              <TouchableOpacity onPress={() => setCartChoiceVisible(false)}>
+                <Text style={styles.closeButton}>✕</Text>
+              </TouchableOpacity>
+            </View>
+            <Text style={styles.modalText}>
+              The cart has {getCartCount()} items. Choose what happens to it before signing out.
+            </Text>
+
+            <TouchableOpacity style={styles.cartChoiceButton} onPress={() => handleCartChoice('hold')}>
+              <Text style={styles.cartChoiceTitle}>Hold as a ticket</Text>
+              <Text style={styles.cartChoiceText}>Anyone on this device can recall it from Held Tickets</Text>
+            </TouchableOpacity>
+            <TouchableOpacity style={styles.cartChoiceButton} onPress={() => handleCartChoice('transfer')}>
+              <Text style={styles.cartChoiceTitle}>Transfer to the next cashier</Text>
+              <Text style={styles.cartChoiceText}>It becomes the cart of whoever signs in next on this device</Text>
+            </TouchableOpacity>
+            <TouchableOpacity style={styles.cartChoiceButton} onPress={() => handleCartChoice('discard')}>
+              <Text style={[styles.cartChoiceTitle, styles.discardText]}>Discard</Text>
+              <Text style={styles.cartChoiceText}>The items are removed from the cart</Text>
+            </TouchableOpacity>
+
+            <TouchableOpacity style={styles.cartChoiceCancel} onPress={() => setCartChoiceVisible(false)}>
+              <Text style={styles.cancelButtonText}>Cancel</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      </Modal>
     </SafeAreaView>
   );
 }
@@ -343,12 +433,13 @@ const styles = StyleSheet.create({
     borderWidth: 1,
     borderColor: '#E5E7EB',
     marginTop: 16,
+    gap: 12,
   },
   adminTitle: {
     fontSize: 18,
     fontWeight: '700',
     color: '#111827',
-    marginBottom: 16,
+    marginBottom: 4,
   },
   adminButton: {
     flexDirection: 'row',
@@ -394,4 +485,66 @@ const styles = StyleSheet.create({
     fontSize: 12,
     color: '#9CA3AF',
   },
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  modalContent: {
+    backgroundColor: '#FFFFFF',
+    borderRadius: 16,
+    padding: 24,
+    width: '90%',
+    maxWidth: 480,
+    maxHeight: '90%',
+  },
+  modalHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 12,
+  },
+  modalTitle: {
+    flex: 1,
+    fontSize: 20,
+    fontWeight: '700',
+    color: '#111827',
+  },
+  closeButton: {
+    fontSize: 24,
+    color: '#6B7280',
+  },
+  modalText: {
+    fontSize: 14,
+    color: '#6B7280',
+    marginBottom: 12,
+  },
+  cartChoiceButton: {
+    padding: 12,
+    marginBottom: 8,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+  },
+  cartChoiceTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#111827',
+  },
+  cartChoiceText: {
+    fontSize: 12,
+    color: '#6B7280',
+    marginTop: 2,
+  },
+  discardText: {
+    color: '#EF4444',
+  },
+  cartChoiceCancel: {
+    padding: 12,
+    marginTop: 8,
+    borderRadius: 8,
+    backgroundColor: '#F3F4F6',
+    alignItems: 'center',
+  },
 });
\ No newline at end of file
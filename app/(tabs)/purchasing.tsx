@@ -0,0 +1,1048 @@
+import { useState, useCallback } from 'react';
+import {
+  View,
+  Text,
+  ScrollView,
+  StyleSheet,
+  SafeAreaView,
+  ActivityIndicator,
+  TouchableOpacity,
+  Modal,
+  TextInput,
+  Alert,
+  Switch,
+} from 'react-native';
+import { useRouter, useFocusEffect } from 'expo-router';
+import { ArrowLeft, Plus, Edit2, Check } from 'lucide-react-native';
+import { useAuth } from '@/contexts/AuthContext';
+import PurchaseOrderModal from '@/components/PurchaseOrderModal';
+import ReceivePurchaseOrderModal from '@/components/ReceivePurchaseOrderModal';
+import { fetchProducts } from '@/services/products.service';
+import {
+  createSupplier,
+  deletePurchaseOrder,
+  fetchPurchaseOrders,
+  fetchReorderReport,
+  fetchSuppliers,
+  savePurchaseOrder,
+  SupplierInput,
+  updatePurchaseOrderStatus,
+  updateSupplier,
+} from '@/services/purchasing.service';
+import { formatPrice } from '@/utils/currency';
+import {
+  canReceivePurchaseOrder,
+  formatPoNumber,
+  getPurchaseOrderTotal,
+  PurchaseOrder,
+  PURCHASE_ORDER_STATUS_COLORS,
+  PURCHASE_ORDER_STATUS_LABELS,
+  Supplier,
+} from '@/utils/purchasing';
+import {
+  buildReorderSuggestions,
+  REORDER_COVER_OPTIONS,
+  REORDER_SALES_DAYS,
+  ReorderReportRow,
+  toPurchaseOrderLines,
+} from '@/utils/reorder';
+import { getStockProducts } from '@/utils/variants';
+
+type Section = 'orders' | 'suppliers' | 'reorder';
+
+const SECTION_LABELS: Record<Section, string> = {
+  orders: 'Purchase Orders',
+  suppliers: 'Suppliers',
+  reorder: 'Reorder',
+};
+
+const EMPTY_SUPPLIER: SupplierInput = {
+  name: '',
+  contact_name: null,
+  phone: null,
+  email: null,
+  address: null,
+  notes: null,
+  active: true,
+};
+
+const formatDate = (dateString: string) =>
+  new Date(dateString).toLocaleDateString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+  });
+
+const getOrderTotal = (order: PurchaseOrder) =>
+  getPurchaseOrderTotal(
+    order.purchase_order_items.map(item => ({ quantity: item.quantity_ordered, unit_cost: item.unit_cost }))
+  );
+
+export default function PurchasingScreen() {
+  const { profile } = useAuth();
+  const router = useRouter();
+  const [section, setSection] = useState<Section>('orders');
+  const [purchaseOrders, setPurchaseOrders] = useState<PurchaseOrder[]>([]);
+  const [suppliers, setSuppliers] = useState<Supplier[]>([]);
+  const [products, setProducts] = useState<any[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [selectedOrder, setSelectedOrder] = useState<PurchaseOrder | null>(null);
+  const [editorVisible, setEditorVisible] = useState(false);
+  const [editingOrder, setEditingOrder] = useState<PurchaseOrder | null>(null);
+  const [receivingOrder, setReceivingOrder] = useState<PurchaseOrder | null>(null);
+  const [supplierModalVisible, setSupplierModalVisible] = useState(false);
+  const [editingSupplier, setEditingSupplier] = useState<Supplier | null>(null);
+  const [supplierForm, setSupplierForm] = useState<SupplierInput>(EMPTY_SUPPLIER);
+  const [savingSupplier, setSavingSupplier] = useState(false);
+  const [reorderRows, setReorderRows] = useState<ReorderReportRow[]>([]);
+  const [coverDays, setCoverDays] = useState(14);
+  const [excludedProductIds, setExcludedProductIds] = useState<string[]>([]);
+  const [reorderSupplierId, setReorderSupplierId] = useState('');
+  const [creatingDraft, setCreatingDraft] = useState(false);
+
+  const isAdmin = profile?.role === 'admin';
+
+  const loadData = useCallback(async () => {
+    if (!isAdmin) {
+      setLoading(false);
+      return;
+    }
+
+    try {
+      const [ordersResult, suppliersResult, productsResult, reorderResult] = await Promise.all([
+        fetchPurchaseOrders(),
+        fetchSuppliers(),
+        fetchProducts(),
+        fetchReorderReport(REORDER_SALES_DAYS),
+      ]);
+
+      if (ordersResult.error) throw new Error(ordersResult.error);
+      if (suppliersResult.error) throw new Error(suppliersResult.error);
+      if (productsResult.error) throw new Error(productsResult.error);
+      if (reorderResult.error) throw new Error(reorderResult.error);
+
+      setPurchaseOrders(ordersResult.data || []);
+      setSuppliers(suppliersResult.data || []);
+      // Variants are ordered individually; their parents hold no stock
+      setProducts(getStockProducts(productsResult.data || []));
+      setReorderRows(reorderResult.data || []);
+    } catch (error: any) {
+      console.error('Error loading purchasing data:', error);
+      Alert.alert('Error', error.message || 'Failed to load purchase orders');
+    } finally {
+      setLoading(false);
+    }
+  }, [isAdmin]);
+
+  useFocusEffect(
+    useCallback(() => {
+      loadData();
+    }, [loadData])
+  );
+
+  const openNewOrder = () => {
+    if (suppliers.filter(s => s.active).length === 0) {
+      Alert.alert('No Suppliers', 'Add a supplier before creating a purchase order.');
+      setSection('suppliers');
+      return;
+    }
+    setEditingOrder(null);
+    setEditorVisible(true);
+  };
+
+  // The detail modal is closed while another modal is open so they never stack
+  const openEditOrder = (order: PurchaseOrder) => {
+    setSelectedOrder(null);
+    setEditingOrder(order);
+    setEditorVisible(true);
+  };
+
+  const openReceiveOrder = (order: PurchaseOrder) => {
+    setSelectedOrder(null);
+    setReceivingOrder(order);
+  };
+
+  const changeStatus = async (order: PurchaseOrder, status: 'draft' | 'sent' | 'cancelled') => {
+    try {
+      const result = await updatePurchaseOrderStatus(order.id, status);
+      if (result.error) throw new Error(result.error);
+
+      setSelectedOrder(null);
+      loadData();
+    } catch (error: any) {
+      console.error('Error updating purchase order:', error);
+      Alert.alert('Error', error.message || 'Failed to update purchase order');
+    }
+  };
+
+  const confirmCancel = (order: PurchaseOrder) => {
+    Alert.alert('Cancel Purchase Order', `Cancel ${formatPoNumber(order.po_number)}?`, [
+      { text: 'Keep', style: 'cancel' },
+      { text: 'Cancel Order', style: 'destructive', onPress: () => changeStatus(order, 'cancelled') },
+    ]);
+  };
+
+  const confirmDelete = (order: PurchaseOrder) => {
+    Alert.alert('Delete Draft', `Delete ${formatPoNumber(order.po_number)}?`, [
+      { text: 'Keep', style: 'cancel' },
+      {
+        text: 'Delete',
+        style: 'destructive',
+        onPress: async () => {
+          const result = await deletePurchaseOrder(order.id);
+          if (result.error) {
+            Alert.alert('Error', result.error);
+            return;
+          }
+          setSelectedOrder(null);
+          loadData();
+        },
+      },
+    ]);
+  };
+
+  const suggestions = buildReorderSuggestions(reorderRows, REORDER_SALES_DAYS, coverDays);
+  const selectedSuggestions = suggestions.filter(s => !excludedProductIds.includes(s.product_id));
+  const activeSuppliers = suppliers.filter(s => s.active);
+  const draftSupplierId = activeSuppliers.some(s => s.id === reorderSupplierId)
+    ? reorderSupplierId
+    : activeSuppliers[0]?.id ?? '';
+
+  const toggleSuggestion = (productId: string) => {
+    setExcludedProductIds(
+      excludedProductIds.includes(productId)
+        ? excludedProductIds.filter(id => id !== productId)
+        : [...excludedProductIds, productId]
+    );
+  };
+
+  // The draft opens in the editor so quantities and costs can be checked before sending
+  const createDraftFromSuggestions = async () => {
+    if (!draftSupplierId) {
+      Alert.alert('No Suppliers', 'Add a supplier before creating a purchase order.');
+      setSection('suppliers');
+      return;
+    }
+    if (selectedSuggestions.length === 0) {
+      Alert.alert('Error', 'Select at least one product');
+      return;
+    }
+
+    setCreatingDraft(true);
+    try {
+      const result = await savePurchaseOrder(null, draftSupplierId, toPurchaseOrderLines(selectedSuggestions), {
+        notes: `Reorder suggestions (${coverDays} days of cover)`,
+      });
+      if (result.error || !result.data) throw new Error(result.error || 'Failed to create purchase order');
+
+      setExcludedProductIds([]);
+      setSection('orders');
+      await loadData();
+      setEditingOrder(result.data);
+      setEditorVisible(true);
+    } catch (error: any) {
+      console.error('Error creating purchase order from suggestions:', error);
+      Alert.alert('Error', error.message || 'Failed to create purchase order');
+    } finally {
+      setCreatingDraft(false);
+    }
+  };
+
+  const openSupplierModal = (supplier: Supplier | null) => {
+    setEditingSupplier(supplier);
+    setSupplierForm(
+      supplier
+        ? {
+            name: supplier.name,
+            contact_name: supplier.contact_name,
+            phone: supplier.phone,
+            email: supplier.email,
+            address: supplier.address,
+            notes: supplier.notes,
+            active: supplier.active,
+          }
+        : EMPTY_SUPPLIER
+    );
+    setSupplierModalVisible(true);
+  };
+
+  const handleSaveSupplier = async () => {
+    if (!supplierForm.name.trim()) {
+      Alert.alert('Error', 'Please enter the supplier name');
+      return;
+    }
+
+    const supplierData: SupplierInput = {
+      name: supplierForm.name.trim(),
+      contact_name: supplierForm.contact_name?.trim() || null,
+      phone: supplierForm.phone?.trim() || null,
+      email: supplierForm.email?.trim() || null,
+      address: supplierForm.address?.trim() || null,
+      notes: supplierForm.notes?.trim() || null,
+      active: supplierForm.active,
+    };
+
+    setSavingSupplier(true);
+    try {
+      const result = editingSupplier
+        ? await updateSupplier(editingSupplier.id, supplierData)
+        : await createSupplier(supplierData);
+      if (result.error) throw new Error(result.error);
+
+      setSupplierModalVisible(false);
+      loadData();
+    } catch (error: any) {
+      console.error('Error saving supplier:', error);
+      Alert.alert('Error', error.message || 'Failed to save supplier');
+    } finally {
+      setSavingSupplier(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <View style={styles.loadingContainer}>
+        <ActivityIndicator size="large" color="#3B82F6" />
+      </View>
+    );
+  }
+
+  if (!isAdmin) {
+    return (
+      <SafeAreaView style={styles.container}>
+        <View style={styles.emptyState}>
+          <Text style={styles.emptyText}>Admin access required</Text>
+          <Text style={styles.emptySubtext}>Only admins can manage purchasing</Text>
+        </View>
+      </SafeAreaView>
+    );
+  }
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <View style={styles.header}>
+        <View style={styles.headerLeft}>
+          <TouchableOpacity onPress={() => router.back()}>
+            <ArrowLeft size={24} color="#111827" />
+          </TouchableOpacity>
+          <Text style={styles.headerTitle}>Purchasing</Text>
+        </View>
+        {section !== 'reorder' && (
+          <TouchableOpacity
+            style={styles.addButton}
+            onPress={section === 'orders' ? openNewOrder : () => openSupplierModal(null)}>
+            <Plus size={20} color="#FFFFFF" />
+            <Text style={styles.addButtonText}>{section === 'orders' ? 'New PO' : 'Add Supplier'}</Text>
+          </TouchableOpacity>
+        )}
+      </View>
+
+      <View style={styles.tabs}>
+        {(['orders', 'suppliers', 'reorder'] as Section[]).map(option => (
+          <TouchableOpacity
+            key={option}
+            style={[styles.tab, section === option && styles.tabActive]}
+            onPress={() => setSection(option)}>
+            <Text style={[styles.tabText, section === option && styles.tabTextActive]}>
+              {SECTION_LABELS[option]}
+              {option === 'reorder' && suggestions.length > 0 ? ` (${suggestions.length})` : ''}
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+
+      <ScrollView style={styles.content}>
+        {section === 'reorder' ? (
+          <>
+            <Text style={styles.label}>Cover for</Text>
+            <View style={styles.chips}>
+              {REORDER_COVER_OPTIONS.map(days => (
+                <TouchableOpacity
+                  key={days}
+                  style={[styles.chip, coverDays === days && styles.chipActive]}
+                  onPress={() => setCoverDays(days)}>
+                  <Text style={[styles.chipText, coverDays === days && styles.chipTextActive]}>{days} days</Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+            <Text style={styles.cardMeta}>
+              Based on sales over the last {REORDER_SALES_DAYS} days, less stock already on order
+            </Text>
+
+            {suggestions.length === 0 ? (
+              <View style={styles.emptyState}>
+                <Text style={styles.emptyText}>Nothing to reorder</Text>
+                <Text style={styles.emptySubtext}>Every product is above its reorder point with enough cover</Text>
+              </View>
+            ) : (
+              <>
+                {suggestions.map(suggestion => {
+                  const selected = !excludedProductIds.includes(suggestion.product_id);
+                  return (
+                    <TouchableOpacity
+                      key={suggestion.product_id}
+                      style={[styles.card, !selected && styles.cardInactive]}
+                      onPress={() => toggleSuggestion(suggestion.product_id)}>
+                      <View style={styles.cardHeader}>
+                        <View style={styles.detailInfo}>
+                          <Text style={styles.cardTitle}>{suggestion.name}</Text>
+                          {suggestion.category_name && (
+                            <Text style={styles.cardMeta}>{suggestion.category_name}</Text>
+                          )}
+                        </View>
+                        <View style={[styles.checkbox, selected && styles.checkboxChecked]}>
+                          {selected && <Check size={14} color="#FFFFFF" />}
+                        </View>
+                      </View>
+                      <Text style={styles.cardSubtitle}>
+                        {suggestion.stock} in stock · reorder at {suggestion.reorder_point}
+                        {suggestion.on_order > 0 ? ` · ${suggestion.on_order} on order` : ''}
+                      </Text>
+                      <View style={styles.cardFooter}>
+                        <Text style={styles.cardMeta}>
+                          {suggestion.daysOfCover === null
+                            ? 'No recent sales'
+                            : `${suggestion.daysOfCover} days of cover · ${suggestion.dailyVelocity.toFixed(1)}/day`}
+                        </Text>
+                        <Text style={styles.cardTotal}>Order {suggestion.suggestedQuantity}</Text>
+                      </View>
+                    </TouchableOpacity>
+                  );
+                })}
+
+                <Text style={styles.label}>Supplier</Text>
+                <View style={styles.chips}>
+                  {activeSuppliers.map(supplier => (
+                    <TouchableOpacity
+                      key={supplier.id}
+                      style={[styles.chip, draftSupplierId === supplier.id && styles.chipActive]}
+                      onPress={() => setReorderSupplierId(supplier.id)}>
+                      <Text style={[styles.chipText, draftSupplierId === supplier.id && styles.chipTextActive]}>
+                        {supplier.name}
+                      </Text>
+                    </TouchableOpacity>
+                  ))}
+                </View>
+                <TouchableOpacity
+                  style={[styles.primaryButton, styles.reorderButton]}
+                  onPress={createDraftFromSuggestions}
+                  disabled={creatingDraft}>
+                  {creatingDraft ? (
+                    <ActivityIndicator color="#FFFFFF" />
+                  ) : (
+                    <Text style={styles.primaryButtonText}>
+                      Create Draft PO ({selectedSuggestions.length})
+                    </Text>
+                  )}
+                </TouchableOpacity>
+              </>
+            )}
+          </>
+        ) : section === 'orders' ? (
+          purchaseOrders.length === 0 ? (
+            <View style={styles.emptyState}>
+              <Text style={styles.emptyText}>No purchase orders yet</Text>
+              <Text style={styles.emptySubtext}>Create one to restock from a supplier</Text>
+            </View>
+          ) : (
+            purchaseOrders.map(order => (
+              <TouchableOpacity key={order.id} style={styles.card} onPress={() => setSelectedOrder(order)}>
+                <View style={styles.cardHeader}>
+                  <Text style={styles.cardTitle}>{formatPoNumber(order.po_number)}</Text>
+                  <View
+                    style={[
+                      styles.statusBadge,
+                      { backgroundColor: PURCHASE_ORDER_STATUS_COLORS[order.status] + '20' },
+                    ]}>
+                    <Text style={[styles.statusText, { color: PURCHASE_ORDER_STATUS_COLORS[order.status] }]}>
+                      {PURCHASE_ORDER_STATUS_LABELS[order.status]}
+                    </Text>
+                  </View>
+                </View>
+                <Text style={styles.cardSubtitle}>{order.suppliers?.name ?? 'Unknown supplier'}</Text>
+                <View style={styles.cardFooter}>
+                  <Text style={styles.cardMeta}>
+                    {formatDate(order.created_at)} · {order.purchase_order_items.length}{' '}
+                    {order.purchase_order_items.length === 1 ? 'item' : 'items'}
+                  </Text>
+                  <Text style={styles.cardTotal}>{formatPrice(getOrderTotal(order))}</Text>
+                </View>
+              </TouchableOpacity>
+            ))
+          )
+        ) : suppliers.length === 0 ? (
+          <View style={styles.emptyState}>
+            <Text style={styles.emptyText}>No suppliers yet</Text>
+          </View>
+        ) : (
+          suppliers.map(supplier => (
+            <View key={supplier.id} style={[styles.card, !supplier.active && styles.cardInactive]}>
+              <View style={styles.cardHeader}>
+                <Text style={styles.cardTitle}>{supplier.name}</Text>
+                <TouchableOpacity style={styles.iconButton} onPress={() => openSupplierModal(supplier)}>
+                  <Edit2 size={18} color="#3B82F6" />
+                </TouchableOpacity>
+              </View>
+              {(supplier.contact_name || supplier.phone) && (
+                <Text style={styles.cardSubtitle}>
+                  {[supplier.contact_name, supplier.phone].filter(Boolean).join(' · ')}
+                </Text>
+              )}
+              {supplier.email && <Text style={styles.cardMeta}>{supplier.email}</Text>}
+              {!supplier.active && <Text style={styles.cardMeta}>Inactive</Text>}
+            </View>
+          ))
+        )}
+      </ScrollView>
+
+      {/* Purchase Order Detail Modal */}
+      <Modal
+        visible={selectedOrder !== null}
+        transparent
+        animationType="slide"
+        onRequestClose={() => setSelectedOrder(null)}>
+        <View style={styles.modalOverlay}>
+          <View style={styles.modalContent}>
+            {selectedOrder && (
+              <>
+                <View style={styles.modalHeader}>
+                  <View>
+                    <Text style={styles.modalTitle}>{formatPoNumber(selectedOrder.po_number)}</Text>
+                    <Text style={styles.cardSubtitle}>
+                      {selectedOrder.suppliers?.name} · {PURCHASE_ORDER_STATUS_LABELS[selectedOrder.status]}
+                    </Text>
+                  </View>
+                  <TouchableOpacity onPress={() => setSelectedOrder(null)}>
+                    <Text style={styles.closeButton}>✕</Text>
+                  </TouchableOpacity>
+                </View>
+
+                <ScrollView style={styles.detailList}>
+                  {selectedOrder.purchase_order_items.map(item => (
+                    <View key={item.id} style={styles.detailRow}>
+                      <View style={styles.detailInfo}>
+                        <Text style={styles.detailName}>{item.products?.name ?? 'Unknown product'}</Text>
+                        <Text style={styles.cardMeta}>
+                          {item.quantity_received} / {item.quantity_ordered} received · {formatPrice(item.unit_cost)} each
+                        </Text>
+                      </View>
+                      <Text style={styles.detailAmount}>{formatPrice(item.quantity_ordered * item.unit_cost)}</Text>
+                    </View>
+                  ))}
+                  {selectedOrder.expected_date && (
+                    <Text style={styles.cardMeta}>Expected {selectedOrder.expected_date}</Text>
+                  )}
+                  {selectedOrder.notes && <Text style={styles.notes}>{selectedOrder.notes}</Text>}
+                </ScrollView>
+
+                <View style={styles.totalRow}>
+                  <Text style={styles.totalLabel}>Expected Total</Text>
+                  <Text style={styles.totalLabel}>{formatPrice(getOrderTotal(selectedOrder))}</Text>
+                </View>
+
+                <View style={styles.detailActions}>
+                  {selectedOrder.status === 'draft' && (
+                    <>
+                      <TouchableOpacity style={styles.primaryButton} onPress={() => changeStatus(selectedOrder, 'sent')}>
+                        <Text style={styles.primaryButtonText}>Mark as Sent</Text>
+                      </TouchableOpacity>
+                      <TouchableOpacity style={styles.secondaryButton} onPress={() => openEditOrder(selectedOrder)}>
+                        <Text style={styles.secondaryButtonText}>Edit Draft</Text>
+                      </TouchableOpacity>
+                      <TouchableOpacity style={styles.dangerButton} onPress={() => confirmDelete(selectedOrder)}>
+                        <Text style={styles.dangerButtonText}>Delete Draft</Text>
+                      </TouchableOpacity>
+                    </>
+                  )}
+                  {canReceivePurchaseOrder(selectedOrder.status) && (
+                    <TouchableOpacity style={styles.receiveButton} onPress={() => openReceiveOrder(selectedOrder)}>
+                      <Text style={styles.primaryButtonText}>Receive Stock</Text>
+                    </TouchableOpacity>
+                  )}
+                  {selectedOrder.status === 'sent' && (
+                    <>
+                      <TouchableOpacity
+                        style={styles.secondaryButton}
+                        onPress={() => changeStatus(selectedOrder, 'draft')}>
+                        <Text style={styles.secondaryButtonText}>Back to Draft</Text>
+                      </TouchableOpacity>
+                      <TouchableOpacity style={styles.dangerButton} onPress={() => confirmCancel(selectedOrder)}>
+                        <Text style={styles.dangerButtonText}>Cancel Order</Text>
+                      </TouchableOpacity>
+                    </>
+                  )}
+                </View>
+              </>
+            )}
+          </View>
+        </View>
+      </Modal>
+
+      <PurchaseOrderModal
+        visible={editorVisible}
+        purchaseOrder={editingOrder}
+        suppliers={suppliers}
+        products={products}
+        onClose={() => setEditorVisible(false)}
+        onSaved={order => {
+          setEditorVisible(false);
+          loadData();
+          setSelectedOrder(order);
+        }}
+      />
+
+      <ReceivePurchaseOrderModal
+        visible={receivingOrder !== null}
+        purchaseOrder={receivingOrder}
+        onClose={() => setReceivingOrder(null)}
+        onReceived={order => {
+          setReceivingOrder(null);
+          loadData();
+          Alert.alert(
+            'Stock Received',
+            `${formatPoNumber(order.po_number)} is now ${PURCHASE_ORDER_STATUS_LABELS[order.status].toLowerCase()}.`
+          );
+        }}
+      />
+
+      {/* Supplier Modal */}
+      <Modal
+        visible={supplierModalVisible}
+        transparent
+        animationType="slide"
+        onRequestClose={() => setSupplierModalVisible(false)}>
+        <View style={styles.modalOverlay}>
+          <View style={styles.modalContent}>
+            <Text style={styles.modalTitle}>{editingSupplier ? 'Edit Supplier' : 'Add Supplier'}</Text>
+            <ScrollView style={styles.detailList}>
+              <Text style={styles.label}>Name</Text>
+              <TextInput
+                style={styles.input}
+                value={supplierForm.name}
+                onChangeText={text => setSupplierForm({ ...supplierForm, name: text })}
+                placeholder="Supplier name"
+              />
+              <Text style={styles.label}>Contact Person</Text>
+              <TextInput
+                style={styles.input}
+                value={supplierForm.contact_name ?? ''}
+                onChangeText={text => setSupplierForm({ ...supplierForm, contact_name: text })}
+                placeholder="Optional"
+              />
+              <Text style={styles.label}>Phone</Text>
+              <TextInput
+                style={styles.input}
+                value={supplierForm.phone ?? ''}
+                onChangeText={text => setSupplierForm({ ...supplierForm, phone: text })}
+                placeholder="Optional"
+                keyboardType="phone-pad"
+              />
+              <Text style={styles.label}>Email</Text>
+              <TextInput
+                style={styles.input}
+                value={supplierForm.email ?? ''}
+                onChangeText={text => setSupplierForm({ ...supplierForm, email: text })}
+                placeholder="Optional"
+                keyboardType="email-address"
+                autoCapitalize="none"
+              />
+              <Text style={styles.label}>Address</Text>
+              <TextInput
+                style={[styles.input, styles.multilineInput]}
+                value={supplierForm.address ?? ''}
+                onChangeText={text => setSupplierForm({ ...supplierForm, address: text })}
+                placeholder="Optional"
+                multiline
+              />
+              <Text style={styles.label}>Notes</Text>
+              <TextInput
+                style={[styles.input, styles.multilineInput]}
+                value={supplierForm.notes ?? ''}
+                onChangeText={text => setSupplierForm({ ...supplierForm, notes: text })}
+                placeholder="Payment terms, delivery days, ..."
+                multiline
+              />
+              {editingSupplier && (
+                <View style={styles.switchRow}>
+                  <Text style={styles.label}>Active</Text>
+                  <Switch
+                    value={supplierForm.active}
+                    onValueChange={value => setSupplierForm({ ...supplierForm, active: value })}
+                  />
+                </View>
+              )}
+            </ScrollView>
+            <View style={styles.modalActions}>
+              <TouchableOpacity
+                style={styles.cancelButton}
+                onPress={() => setSupplierModalVisible(false)}
+                disabled={savingSupplier}>
+                <Text style={styles.cancelButtonText}>Cancel</Text>
+              </TouchableOpacity>
+              <TouchableOpacity style={styles.saveButton} onPress={handleSaveSupplier} disabled={savingSupplier}>
+                {savingSupplier ? (
+                  <ActivityIndicator color="#FFFFFF" />
+                ) : (
+                  <Text style={styles.saveButtonText}>Save</Text>
+                )}
+              </TouchableOpacity>
+            </View>
+          </View>
+        </View>
+      </Modal>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F9FAFB',
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    backgroundColor: '#FFFFFF',
+    padding: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: '#E5E7EB',
+  },
+  headerLeft: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+  },
+  headerTitle: {
+    fontSize: 24,
+    fontWeight: '700',
+    color: '#111827',
+  },
+  addButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    backgroundColor: '#3B82F6',
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 8,
+  },
+  addButtonText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#FFFFFF',
+  },
+  tabs: {
+    flexDirection: 'row',
+    gap: 8,
+    padding: 16,
+    paddingBottom: 0,
+  },
+  tab: {
+    flex: 1,
+    padding: 10,
+    borderRadius: 8,
+    backgroundColor: '#F3F4F6',
+    alignItems: 'center',
+  },
+  tabActive: {
+    backgroundColor: '#3B82F6',
+  },
+  tabText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#6B7280',
+  },
+  tabTextActive: {
+    color: '#FFFFFF',
+  },
+  content: {
+    flex: 1,
+    padding: 16,
+  },
+  card: {
+    backgroundColor: '#FFFFFF',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 12,
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+    gap: 4,
+  },
+  cardInactive: {
+    opacity: 0.6,
+  },
+  cardHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  cardTitle: {
+    fontSize: 16,
+    fontWeight: '700',
+    color: '#111827',
+  },
+  cardSubtitle: {
+    fontSize: 14,
+    color: '#6B7280',
+  },
+  cardFooter: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginTop: 4,
+  },
+  cardMeta: {
+    fontSize: 12,
+    color: '#6B7280',
+  },
+  cardTotal: {
+    fontSize: 16,
+    fontWeight: '700',
+    color: '#111827',
+  },
+  statusBadge: {
+    paddingHorizontal: 8,
+    paddingVertical: 4,
+    borderRadius: 6,
+  },
+  statusText: {
+    fontSize: 12,
+    fontWeight: '600',
+  },
+  chips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginBottom: 8,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 8,
+    backgroundColor: '#F3F4F6',
+  },
+  chipActive: {
+    backgroundColor: '#3B82F6',
+  },
+  chipText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#6B7280',
+  },
+  chipTextActive: {
+    color: '#FFFFFF',
+  },
+  checkbox: {
+    width: 22,
+    height: 22,
+    borderRadius: 6,
+    borderWidth: 2,
+    borderColor: '#E5E7EB',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  checkboxChecked: {
+    backgroundColor: '#3B82F6',
+    borderColor: '#3B82F6',
+  },
+  reorderButton: {
+    marginTop: 12,
+    marginBottom: 32,
+  },
+  iconButton: {
+    width: 36,
+    height: 36,
+    borderRadius: 8,
+    backgroundColor: '#EFF6FF',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  emptyState: {
+    alignItems: 'center',
+    padding: 32,
+  },
+  emptyText: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#111827',
+    marginBottom: 8,
+  },
+  emptySubtext: {
+    fontSize: 14,
+    color: '#6B7280',
+    textAlign: 'center',
+  },
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  modalContent: {
+    backgroundColor: '#FFFFFF',
+    borderRadius: 16,
+    padding: 24,
+    width: '90%',
+    maxWidth: 480,
+    maxHeight: '90%',
+  },
+  modalHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'flex-start',
+    marginBottom: 12,
+  },
+  modalTitle: {
+    fontSize: 20,
+    fontWeight: '700',
+    color: '#111827',
+  },
+  closeButton: {
+    fontSize: 24,
+    color: '#6B7280',
+  },
+  detailList: {
+    flexGrow: 0,
+  },
+  detailRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingVertical: 8,
+    borderBottomWidth: 1,
+    borderBottomColor: '#F3F4F6',
+    gap: 12,
+  },
+  detailInfo: {
+    flex: 1,
+  },
+  detailName: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#111827',
+  },
+  detailAmount: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#111827',
+  },
+  notes: {
+    fontSize: 13,
+    color: '#6B7280',
+    fontStyle: 'italic',
+    marginTop: 8,
+  },
+  totalRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginTop: 12,
+  },
+  totalLabel: {
+    fontSize: 16,
+    fontWeight: '700',
+    color: '#111827',
+  },
+  detailActions: {
+    gap: 8,
+    marginTop: 16,
+  },
+  primaryButton: {
+    padding: 12,
+    borderRadius: 8,
+    backgroundColor: '#3B82F6',
+    alignItems: 'center',
+  },
+  receiveButton: {
+    padding: 12,
+    borderRadius: 8,
+    backgroundColor: '#10B981',
+    alignItems: 'center',
+  },
+  primaryButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#FFFFFF',
+  },
+  secondaryButton: {
+    padding: 12,
+    borderRadius: 8,
+    backgroundColor: '#EFF6FF',
+    alignItems: 'center',
+  },
+  secondaryButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#3B82F6',
+  },
+  dangerButton: {
+    padding: 12,
+    borderRadius: 8,
+    backgroundColor: '#FEF2F2',
+    alignItems: 'center',
+  },
+  dangerButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#EF4444',
+  },
+  label: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#374151',
+    marginBottom: 6,
+    marginTop: 12,
+  },
+  input: {
+    backgroundColor: '#F9FAFB',
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+    borderRadius: 8,
+    padding: 12,
+    fontSize: 16,
+    color: '#111827',
+  },
+  multilineInput: {
+    minHeight: 60,
+    textAlignVertical: 'top',
+  },
+  switchRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  modalActions: {
+    flexDirection: 'row',
+    gap: 12,
+    marginTop: 20,
+  },
+  cancelButton: {
+    flex: 1,
+    padding: 12,
+    borderRadius: 8,
+    backgroundColor: '#F3F4F6',
+    alignItems: 'center',
+  },
+  cancelButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#6B7280',
+  },
+  saveButton: {
+    flex: 1,
+    padding: 12,
+    borderRadius: 8,
+    backgroundColor: '#3B82F6',
+    alignItems: 'center',
+  },
+  saveButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#FFFFFF',
+  },
+});
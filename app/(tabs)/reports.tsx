@@ -0,0 +1,458 @@
+import { useState, useCallback } from 'react';
+import {
+  View,
+  Text,
+  ScrollView,
+  StyleSheet,
+  SafeAreaView,
+  ActivityIndicator,
+  TouchableOpacity,
+} from 'react-native';
+import { useFocusEffect } from 'expo-router';
+import { RefreshCw } from 'lucide-react-native';
+import { useAuth } from '@/contexts/AuthContext';
+import { fetchMarginReport, fetchSalesReport } from '@/services/reports.service';
+import { formatPrice } from '@/utils/currency';
+import {
+  formatPercent,
+  MARGIN_DIMENSION_LABELS,
+  MarginDimension,
+  MarginReport,
+} from '@/utils/margins';
+import {
+  getReportRange,
+  REPORT_DIMENSION_LABELS,
+  REPORT_RANGE_LABELS,
+  ReportDimension,
+  ReportRangePreset,
+  SalesReport,
+} from '@/utils/reports';
+
+type ReportView = 'sales' | 'margins';
+
+const REPORT_VIEW_LABELS: Record<ReportView, string> = {
+  sales: 'Sales',
+  margins: 'Margins',
+};
+
+export default function ReportsScreen() {
+  const { profile } = useAuth();
+  const [preset, setPreset] = useState<ReportRangePreset>('today');
+  const [dimension, setDimension] = useState<ReportDimension>('day');
+  const [report, setReport] = useState<SalesReport | null>(null);
+  const [view, setView] = useState<ReportView>('sales');
+  const [marginDimension, setMarginDimension] = useState<MarginDimension>('product');
+  const [marginReport, setMarginReport] = useState<MarginReport | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const isAdmin = profile?.role === 'admin';
+
+  const loadReport = useCallback(async () => {
+    if (!isAdmin) return;
+
+    setLoading(true);
+    setError(null);
+    try {
+      if (view === 'margins') {
+        const result = await fetchMarginReport(getReportRange(preset));
+        if (result.error) throw new Error(result.error);
+        setMarginReport(result.data);
+      } else {
+        const result = await fetchSalesReport(getReportRange(preset));
+        if (result.error) throw new Error(result.error);
+        setReport(result.data);
+      }
+    } catch (err: any) {
+      console.error(`Error loading ${view} report:`, err);
+      setError(err.message || `Failed to load ${view} report`);
+    } finally {
+      setLoading(false);
+    }
+  }, [isAdmin, preset, view]);
+
+  useFocusEffect(
+    useCallback(() => {
+      loadReport();
+    }, [loadReport])
+  );
+
+  if (!isAdmin) {
+    return (
+      <SafeAreaView style={styles.container}>
+        <View style={styles.header}>
+          <Text style={styles.headerTitle}>Reports</Text>
+        </View>
+        <View style={styles.emptyState}>
+          <Text style={styles.emptyText}>Admin access required</Text>
+          <Text style={styles.emptySubtext}>Only admins can view sales reports</Text>
+        </View>
+      </SafeAreaView>
+    );
+  }
+
+  const rows = report ? report.breakdowns[dimension] : [];
+  const maxNet = rows.reduce((max, row) => Math.max(max, row.net), 0);
+  const marginRows = marginReport ? marginReport.breakdowns[marginDimension] : [];
+  const maxProfit = marginRows.reduce((max, row) => Math.max(max, row.profit), 0);
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <View style={styles.header}>
+        <Text style={styles.headerTitle}>Reports</Text>
+        <TouchableOpacity onPress={loadReport} disabled={loading}>
+          <RefreshCw size={22} color="#3B82F6" />
+        </TouchableOpacity>
+      </View>
+
+      <ScrollView style={styles.content}>
+        <View style={styles.chips}>
+          <View style={styles.viewToggle}>
+            {(Object.keys(REPORT_VIEW_LABELS) as ReportView[]).map(option => (
+              <TouchableOpacity
+                key={option}
+                style={[styles.chip, view === option && styles.chipActive]}
+                onPress={() => setView(option)}>
+                <Text style={[styles.chipText, view === option && styles.chipTextActive]}>
+                  {REPORT_VIEW_LABELS[option]}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+        </View>
+
+        <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.chips}>
+          {(Object.keys(REPORT_RANGE_LABELS) as ReportRangePreset[]).map(option => (
+            <TouchableOpacity
+              key={option}
+              style={[styles.chip, preset === option && styles.chipActive]}
+              onPress={() => setPreset(option)}>
+              <Text style={[styles.chipText, preset === option && styles.chipTextActive]}>
+                {REPORT_RANGE_LABELS[option]}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </ScrollView>
+
+        {error && <Text style={styles.errorText}>{error}</Text>}
+
+        {view === 'margins' ? (
+          loading && !marginReport ? (
+            <ActivityIndicator size="large" color="#3B82F6" style={styles.loader} />
+          ) : marginReport ? (
+            <>
+              <View style={styles.summaryGrid}>
+                <View style={styles.summaryCard}>
+                  <Text style={styles.summaryLabel}>Revenue (ex VAT)</Text>
+                  <Text style={styles.summaryValue}>{formatPrice(marginReport.summary.revenue)}</Text>
+                </View>
+                <View style={styles.summaryCard}>
+                  <Text style={styles.summaryLabel}>Cost</Text>
+                  <Text style={styles.summaryValue}>{formatPrice(marginReport.summary.cost)}</Text>
+                </View>
+                <View style={styles.summaryCard}>
+                  <Text style={styles.summaryLabel}>Gross Profit</Text>
+                  <Text style={[styles.summaryValue, marginReport.summary.profit < 0 ? styles.refundValue : styles.netValue]}>
+                    {formatPrice(marginReport.summary.profit)}
+                  </Text>
+                </View>
+                <View style={styles.summaryCard}>
+                  <Text style={styles.summaryLabel}>Margin</Text>
+                  <Text style={styles.summaryValue}>{formatPercent(marginReport.summary.marginPercent)}</Text>
+                </View>
+                <View style={styles.summaryCard}>
+                  <Text style={styles.summaryLabel}>Markup</Text>
+                  <Text style={styles.summaryValue}>{formatPercent(marginReport.summary.markupPercent)}</Text>
+                </View>
+                <View style={styles.summaryCard}>
+                  <Text style={styles.summaryLabel}>Items Without Cost</Text>
+                  <Text style={styles.summaryValue}>{marginReport.summary.uncostedQuantity}</Text>
+                </View>
+              </View>
+
+              {/* Margins only count items sold while their product had a cost price */}
+              {marginReport.summary.uncostedQuantity !== 0 && (
+                <Text style={styles.hintText}>
+                  Items sold without a cost price are left out of profit and margin.
+                </Text>
+              )}
+
+              <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.chips}>
+                {(Object.keys(MARGIN_DIMENSION_LABELS) as MarginDimension[]).map(option => (
+                  <TouchableOpacity
+                    key={option}
+                    style={[styles.chip, marginDimension === option && styles.chipActive]}
+                    onPress={() => setMarginDimension(option)}>
+                    <Text style={[styles.chipText, marginDimension === option && styles.chipTextActive]}>
+                      {MARGIN_DIMENSION_LABELS[option]}
+                    </Text>
+                  </TouchableOpacity>
+                ))}
+              </ScrollView>
+
+              <View style={styles.table}>
+                {marginRows.length === 0 ? (
+                  <Text style={styles.emptySubtext}>No sales in this period</Text>
+                ) : (
+                  marginRows.map(row => (
+                    <View key={row.key} style={styles.tableRow}>
+                      <View style={styles.tableRowHeader}>
+                        <Text style={styles.rowLabel} numberOfLines={1}>{row.label}</Text>
+                        <Text style={[styles.rowNet, row.profit < 0 && styles.refundValue]}>
+                          {formatPrice(row.profit)}
+                        </Text>
+                      </View>
+                      <View style={styles.barTrack}>
+                        <View
+                          style={[
+                            styles.bar,
+                            { width: `${maxProfit > 0 ? Math.max(0, (row.profit / maxProfit) * 100) : 0}%` },
+                          ]}
+                        />
+                      </View>
+                      <Text style={styles.rowDetail}>
+                        {row.quantity} items · Revenue {formatPrice(row.revenue)} · Cost {formatPrice(row.cost)}
+                        {` · Margin ${formatPercent(row.marginPercent)} · Markup ${formatPercent(row.markupPercent)}`}
+                        {row.uncostedQuantity !== 0 ? ` · ${row.uncostedQuantity} without cost` : ''}
+                      </Text>
+                    </View>
+                  ))
+                )}
+              </View>
+            </>
+          ) : null
+        ) : loading && !report ? (
+          <ActivityIndicator size="large" color="#3B82F6" style={styles.loader} />
+        ) : report ? (
+          <>
+            <View style={styles.summaryGrid}>
+              <View style={styles.summaryCard}>
+                <Text style={styles.summaryLabel}>Gross Sales</Text>
+                <Text style={styles.summaryValue}>{formatPrice(report.summary.gross)}</Text>
+              </View>
+              <View style={styles.summaryCard}>
+                <Text style={styles.summaryLabel}>Refunds</Text>
+                <Text style={[styles.summaryValue, styles.refundValue]}>
+                  {formatPrice(report.summary.refunds)}
+                </Text>
+              </View>
+              <View style={styles.summaryCard}>
+                <Text style={styles.summaryLabel}>Net Sales</Text>
+                <Text style={[styles.summaryValue, styles.netValue]}>{formatPrice(report.summary.net)}</Text>
+              </View>
+              <View style={styles.summaryCard}>
+                <Text style={styles.summaryLabel}>Tax (VAT)</Text>
+                <Text style={styles.summaryValue}>{formatPrice(report.summary.tax)}</Text>
+              </View>
+              <View style={styles.summaryCard}>
+                <Text style={styles.summaryLabel}>Orders</Text>
+                <Text style={styles.summaryValue}>{report.summary.orderCount}</Text>
+              </View>
+              <View style={styles.summaryCard}>
+                <Text style={styles.summaryLabel}>Items Sold</Text>
+                <Text style={styles.summaryValue}>{report.summary.quantity}</Text>
+              </View>
+            </View>
+
+            <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.chips}>
+              {(Object.keys(REPORT_DIMENSION_LABELS) as ReportDimension[]).map(option => (
+                <TouchableOpacity
+                  key={option}
+                  style={[styles.chip, dimension === option && styles.chipActive]}
+                  onPress={() => setDimension(option)}>
+                  <Text style={[styles.chipText, dimension === option && styles.chipTextActive]}>
+                    {REPORT_DIMENSION_LABELS[option]}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </ScrollView>
+
+            <View style={styles.table}>
+              {rows.length === 0 ? (
+                <Text style={styles.emptySubtext}>No sales in this period</Text>
+              ) : (
+                rows.map(row => (
+                  <View key={row.key} style={styles.tableRow}>
+                    <View style={styles.tableRowHeader}>
+                      <Text style={styles.rowLabel} numberOfLines={1}>{row.label}</Text>
+                      <Text style={styles.rowNet}>{formatPrice(row.net)}</Text>
+                    </View>
+                    <View style={styles.barTrack}>
+                      <View
+                        style={[
+                          styles.bar,
+                          { width: `${maxNet > 0 ? Math.max(0, (row.net / maxNet) * 100) : 0}%` },
+                        ]}
+                      />
+                    </View>
+                    <Text style={styles.rowDetail}>
+                      {row.orderCount} {row.orderCount === 1 ? 'order' : 'orders'}
+                      {dimension !== 'paymentMethod' ? ` · ${row.quantity} items` : ''}
+                      {` · Gross ${formatPrice(row.gross)} · Tax ${formatPrice(row.tax)}`}
+                      {row.refunds > 0 ? ` · Refunds ${formatPrice(row.refunds)}` : ''}
+                    </Text>
+                  </View>
+                ))
+              )}
+            </View>
+          </>
+        ) : null}
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F9FAFB',
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    backgroundColor: '#FFFFFF',
+    padding: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: '#E5E7EB',
+  },
+  headerTitle: {
+    fontSize: 24,
+    fontWeight: '700',
+    color: '#111827',
+  },
+  content: {
+    flex: 1,
+    padding: 16,
+  },
+  chips: {
+    gap: 8,
+    paddingBottom: 12,
+  },
+  chip: {
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 16,
+    backgroundColor: '#F3F4F6',
+  },
+  chipActive: {
+    backgroundColor: '#3B82F6',
+  },
+  chipText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#6B7280',
+  },
+  chipTextActive: {
+    color: '#FFFFFF',
+  },
+  viewToggle: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  loader: {
+    marginTop: 32,
+  },
+  hintText: {
+    fontSize: 12,
+    color: '#6B7280',
+    marginBottom: 12,
+  },
+  errorText: {
+    fontSize: 14,
+    color: '#EF4444',
+    marginBottom: 12,
+  },
+  summaryGrid: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 12,
+    marginBottom: 16,
+  },
+  summaryCard: {
+    flexBasis: '30%',
+    flexGrow: 1,
+    backgroundColor: '#FFFFFF',
+    borderRadius: 12,
+    padding: 12,
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+  },
+  summaryLabel: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#6B7280',
+    marginBottom: 4,
+  },
+  summaryValue: {
+    fontSize: 18,
+    fontWeight: '700',
+    color: '#111827',
+  },
+  refundValue: {
+    color: '#EF4444',
+  },
+  netValue: {
+    color: '#10B981',
+  },
+  table: {
+    backgroundColor: '#FFFFFF',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 32,
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+    gap: 16,
+  },
+  tableRow: {
+    gap: 6,
+  },
+  tableRowHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    gap: 12,
+  },
+  rowLabel: {
+    flex: 1,
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#111827',
+  },
+  rowNet: {
+    fontSize: 15,
+    fontWeight: '700',
+    color: '#111827',
+  },
+  barTrack: {
+    height: 6,
+    borderRadius: 3,
+    backgroundColor: '#F3F4F6',
+    overflow: 'hidden',
+  },
+  bar: {
+    height: 6,
+    borderRadius: 3,
+    backgroundColor: '#3B82F6',
+  },
+  rowDetail: {
+    fontSize: 12,
+    color: '#6B7280',
+  },
+  emptyState: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 32,
+  },
+  emptyText: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#111827',
+    marginBottom: 8,
+  },
+  emptySubtext: {
+    fontSize: 14,
+    color: '#6B7280',
+    textAlign: 'center',
+  },
+});
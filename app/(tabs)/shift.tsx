@@ -0,0 +1,622 @@
+import { useState, useCallback } from 'react';
+import {
+  View,
+  Text,
+  ScrollView,
+  StyleSheet,
+  SafeAreaView,
+  ActivityIndicator,
+  TouchableOpacity,
+  Modal,
+  TextInput,
+  Alert,
+} from 'react-native';
+import { useFocusEffect } from 'expo-router';
+import { CircleArrowDown, CircleArrowUp, Lock, RefreshCw } from 'lucide-react-native';
+import { useShift } from '@/contexts/ShiftContext';
+import { useSalesQueue } from '@/contexts/SalesQueueContext';
+import { fetchShiftReport } from '@/services/shifts.service';
+import { formatPrice } from '@/utils/currency';
+import { PAYMENT_METHOD_LABELS } from '@/utils/payments';
+import {
+  CASH_MOVEMENT_LABELS,
+  CashMovementType,
+  formatVariance,
+  getCashVariance,
+  ShiftReport,
+} from '@/utils/shifts';
+
+const formatDateTime = (dateString: string) =>
+  new Date(dateString).toLocaleString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+
+function ReportView({ report }: { report: ShiftReport }) {
+  const { shift } = report;
+  const closed = shift.status === 'closed';
+
+  return (
+    <View style={styles.card}>
+      <Text style={styles.cardTitle}>{closed ? 'Z Report' : 'X Report'}</Text>
+      <Text style={styles.cardSubtitle}>
+        Opened {formatDateTime(shift.opened_at)}
+        {shift.closed_at ? ` · Closed ${formatDateTime(shift.closed_at)}` : ''}
+      </Text>
+
+      <Text style={styles.sectionTitle}>Sales</Text>
+      <View style={styles.row}>
+        <Text style={styles.rowLabel}>Orders</Text>
+        <Text style={styles.rowValue}>{report.orderCount}</Text>
+      </View>
+      {report.salesByMethod.map(total => (
+        <View key={total.method} style={styles.row}>
+          <Text style={styles.rowLabel}>
+            {PAYMENT_METHOD_LABELS[total.method]} ({total.count})
+          </Text>
+          <Text style={styles.rowValue}>{formatPrice(total.amount)}</Text>
+        </View>
+      ))}
+      <View style={styles.row}>
+        <Text style={styles.rowLabelStrong}>Total Sales</Text>
+        <Text style={styles.rowValueStrong}>{formatPrice(report.salesTotal)}</Text>
+      </View>
+
+      {report.refundsByMethod.length > 0 && (
+        <>
+          <Text style={styles.sectionTitle}>Refunds</Text>
+          {report.refundsByMethod.map(total => (
+            <View key={total.method} style={styles.row}>
+              <Text style={styles.rowLabel}>
+                {PAYMENT_METHOD_LABELS[total.method]} ({total.count})
+              </Text>
+              <Text style={styles.rowValue}>−{formatPrice(total.amount)}</Text>
+            </View>
+          ))}
+        </>
+      )}
+
+      <Text style={styles.sectionTitle}>Cash Drawer</Text>
+      <View style={styles.row}>
+        <Text style={styles.rowLabel}>Opening Float</Text>
+        <Text style={styles.rowValue}>{formatPrice(shift.opening_float)}</Text>
+      </View>
+      <View style={styles.row}>
+        <Text style={styles.rowLabel}>{CASH_MOVEMENT_LABELS.paid_in}</Text>
+        <Text style={styles.rowValue}>{formatPrice(report.paidIn)}</Text>
+      </View>
+      <View style={styles.row}>
+        <Text style={styles.rowLabel}>{CASH_MOVEMENT_LABELS.paid_out}</Text>
+        <Text style={styles.rowValue}>−{formatPrice(report.paidOut)}</Text>
+      </View>
+      <View style={styles.row}>
+        <Text style={styles.rowLabelStrong}>Expected Cash</Text>
+        <Text style={styles.rowValueStrong}>{formatPrice(report.expectedCash)}</Text>
+      </View>
+
+      {closed && shift.counted_cash !== null && shift.variance !== null && (
+        <>
+          <View style={styles.row}>
+            <Text style={styles.rowLabelStrong}>Counted Cash</Text>
+            <Text style={styles.rowValueStrong}>{formatPrice(shift.counted_cash)}</Text>
+          </View>
+          <View style={styles.row}>
+            <Text style={styles.rowLabelStrong}>Variance</Text>
+            <Text style={[styles.rowValueStrong, shift.variance !== 0 && styles.varianceValue]}>
+              {formatVariance(shift.variance)}
+            </Text>
+          </View>
+          {shift.notes && <Text style={styles.notes}>{shift.notes}</Text>}
+        </>
+      )}
+    </View>
+  );
+}
+
+export default function ShiftScreen() {
+  const { currentShift, loading, openShift, recordCashMovement, closeShift } = useShift();
+  const { queue, isOnline } = useSalesQueue();
+  const [report, setReport] = useState<ShiftReport | null>(null);
+  const [loadingReport, setLoadingReport] = useState(false);
+  const [lastZReport, setLastZReport] = useState<ShiftReport | null>(null);
+  const [openingFloat, setOpeningFloat] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+  const [movementType, setMovementType] = useState<CashMovementType | null>(null);
+  const [movementAmount, setMovementAmount] = useState('');
+  const [movementReason, setMovementReason] = useState('');
+  const [closeModalVisible, setCloseModalVisible] = useState(false);
+  const [countedCash, setCountedCash] = useState('');
+  const [closeNotes, setCloseNotes] = useState('');
+
+  const loadReport = useCallback(async () => {
+    if (!currentShift) {
+      setReport(null);
+      return;
+    }
+
+    setLoadingReport(true);
+    try {
+      const result = await fetchShiftReport(currentShift.id);
+      if (result.error) throw new Error(result.error);
+      setReport(result.data);
+    } catch (error) {
+      console.error('Error loading shift report:', error);
+    } finally {
+      setLoadingReport(false);
+    }
+  }, [currentShift]);
+
+  // Sales are rung up on another tab, so refresh the X report when coming back
+  useFocusEffect(
+    useCallback(() => {
+      loadReport();
+    }, [loadReport])
+  );
+
+  const handleOpenShift = async () => {
+    const amount = parseFloat(openingFloat);
+    if (isNaN(amount) || amount < 0) {
+      Alert.alert('Error', 'Please enter the starting float');
+      return;
+    }
+
+    setSubmitting(true);
+    try {
+      const error = await openShift(amount);
+      if (error) throw new Error(error);
+      setOpeningFloat('');
+      setLastZReport(null);
+    } catch (error: any) {
+      console.error('Error opening shift:', error);
+      Alert.alert('Error', error.message || 'Failed to open shift');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const openMovementModal = (type: CashMovementType) => {
+    setMovementAmount('');
+    setMovementReason('');
+    setMovementType(type);
+  };
+
+  const handleRecordMovement = async () => {
+    if (!movementType) return;
+
+    const amount = parseFloat(movementAmount);
+    if (isNaN(amount) || amount <= 0) {
+      Alert.alert('Error', 'Please enter an amount greater than zero');
+      return;
+    }
+    if (!movementReason.trim()) {
+      Alert.alert('Error', 'Please enter a reason');
+      return;
+    }
+
+    setSubmitting(true);
+    try {
+      const error = await recordCashMovement(movementType, amount, movementReason.trim());
+      if (error) throw new Error(error);
+      setMovementType(null);
+      await loadReport();
+    } catch (error: any) {
+      console.error('Error recording cash movement:', error);
+      Alert.alert('Error', error.message || 'Failed to record cash movement');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const openCloseModal = () => {
+    // Queued sales belong to this drawer, so they have to reach the server first
+    if (queue.length > 0) {
+      Alert.alert(
+        'Pending Sales',
+        'Submit or resolve the pending offline sales on the POS screen before closing the shift.'
+      );
+      return;
+    }
+    if (!isOnline) {
+      Alert.alert('Offline', 'Closing a shift requires a connection.');
+      return;
+    }
+
+    setCountedCash('');
+    setCloseNotes('');
+    setCloseModalVisible(true);
+    loadReport();
+  };
+
+  const handleCloseShift = async () => {
+    const amount = parseFloat(countedCash);
+    if (isNaN(amount) || amount < 0) {
+      Alert.alert('Error', 'Please enter the counted cash');
+      return;
+    }
+
+    setSubmitting(true);
+    try {
+      const { report: zReport, error } = await closeShift(amount, closeNotes.trim() || null);
+      if (error) throw new Error(error);
+      setCloseModalVisible(false);
+      setReport(null);
+      setLastZReport(zReport);
+    } catch (error: any) {
+      console.error('Error closing shift:', error);
+      Alert.alert('Error', error.message || 'Failed to close shift');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <View style={styles.loadingContainer}>
+        <ActivityIndicator size="large" color="#3B82F6" />
+      </View>
+    );
+  }
+
+  const countedAmount = parseFloat(countedCash);
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <View style={styles.header}>
+        <Text style={styles.headerTitle}>Shift</Text>
+        {currentShift && (
+          <TouchableOpacity onPress={loadReport} disabled={loadingReport}>
+            <RefreshCw size={22} color="#3B82F6" />
+          </TouchableOpacity>
+        )}
+      </View>
+
+      <ScrollView style={styles.content}>
+        {!currentShift ? (
+          <>
+            {lastZReport && <ReportView report={lastZReport} />}
+
+            <View style={styles.card}>
+              <Text style={styles.cardTitle}>Open Shift</Text>
+              <Text style={styles.cardSubtitle}>Count the cash in the drawer before the first sale.</Text>
+              <TextInput
+                style={styles.input}
+                value={openingFloat}
+                onChangeText={setOpeningFloat}
+                placeholder="Starting float (e.g. 2000.00)"
+                keyboardType="decimal-pad"
+              />
+              <TouchableOpacity
+                style={[styles.primaryButton, submitting && styles.buttonDisabled]}
+                onPress={handleOpenShift}
+                disabled={submitting}>
+                {submitting ? (
+                  <ActivityIndicator color="#FFFFFF" />
+                ) : (
+                  <Text style={styles.primaryButtonText}>Open Shift</Text>
+                )}
+              </TouchableOpacity>
+            </View>
+          </>
+        ) : (
+          <>
+            <View style={styles.actions}>
+              <TouchableOpacity style={styles.actionButton} onPress={() => openMovementModal('paid_in')}>
+                <CircleArrowDown size={20} color="#10B981" />
+                <Text style={styles.actionButtonText}>{CASH_MOVEMENT_LABELS.paid_in}</Text>
+              </TouchableOpacity>
+              <TouchableOpacity style={styles.actionButton} onPress={() => openMovementModal('paid_out')}>
+                <CircleArrowUp size={20} color="#EF4444" />
+                <Text style={styles.actionButtonText}>{CASH_MOVEMENT_LABELS.paid_out}</Text>
+              </TouchableOpacity>
+            </View>
+
+            {report ? (
+              <ReportView report={report} />
+            ) : (
+              <View style={styles.card}>
+                <Text style={styles.cardTitle}>Shift Open</Text>
+                <Text style={styles.cardSubtitle}>
+                  Opened {formatDateTime(currentShift.opened_at)} with {formatPrice(currentShift.opening_float)}
+                </Text>
+                {loadingReport && <ActivityIndicator color="#3B82F6" />}
+              </View>
+            )}
+
+            <TouchableOpacity style={styles.closeShiftButton} onPress={openCloseModal}>
+              <Lock size={20} color="#FFFFFF" />
+              <Text style={styles.primaryButtonText}>Close Shift</Text>
+            </TouchableOpacity>
+          </>
+        )}
+      </ScrollView>
+
+      {/* Paid In / Paid Out Modal */}
+      <Modal
+        visible={movementType !== null}
+        transparent
+        animationType="slide"
+        onRequestClose={() => setMovementType(null)}>
+        <View style={styles.modalOverlay}>
+          <View style={styles.modalContent}>
+            <Text style={styles.modalTitle}>{movementType ? CASH_MOVEMENT_LABELS[movementType] : ''}</Text>
+            <TextInput
+              style={styles.input}
+              value={movementAmount}
+              onChangeText={setMovementAmount}
+              placeholder="Amount"
+              keyboardType="decimal-pad"
+            />
+            <TextInput
+              style={styles.input}
+              value={movementReason}
+              onChangeText={setMovementReason}
+              placeholder={movementType === 'paid_out' ? 'Reason (e.g. ice delivery)' : 'Reason (e.g. change from safe)'}
+            />
+            <View style={styles.modalActions}>
+              <TouchableOpacity
+                style={styles.cancelButton}
+                onPress={() => setMovementType(null)}
+                disabled={submitting}>
+                <Text style={styles.cancelButtonText}>Cancel</Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={[styles.saveButton, submitting && styles.buttonDisabled]}
+                onPress={handleRecordMovement}
+                disabled={submitting}>
+                <Text style={styles.saveButtonText}>{submitting ? 'Saving...' : 'Record'}</Text>
+              </TouchableOpacity>
+            </View>
+          </View>
+        </View>
+      </Modal>
+
+      {/* Close Shift Modal */}
+      <Modal
+        visible={closeModalVisible}
+        transparent
+        animationType="slide"
+        onRequestClose={() => setCloseModalVisible(false)}>
+        <View style={styles.modalOverlay}>
+          <View style={styles.modalContent}>
+            <Text style={styles.modalTitle}>Close Shift</Text>
+            <Text style={styles.cardSubtitle}>Count the cash in the drawer and enter the total.</Text>
+            <TextInput
+              style={styles.input}
+              value={countedCash}
+              onChangeText={setCountedCash}
+              placeholder="Counted cash"
+              keyboardType="decimal-pad"
+            />
+            {report && (
+              <>
+                <View style={styles.row}>
+                  <Text style={styles.rowLabel}>Expected Cash</Text>
+                  <Text style={styles.rowValue}>{formatPrice(report.expectedCash)}</Text>
+                </View>
+                {!isNaN(countedAmount) && (
+                  <View style={styles.row}>
+                    <Text style={styles.rowLabel}>Variance</Text>
+                    <Text style={styles.rowValue}>
+                      {formatVariance(getCashVariance(report.expectedCash, countedAmount))}
+                    </Text>
+                  </View>
+                )}
+              </>
+            )}
+            <TextInput
+              style={styles.input}
+              value={closeNotes}
+              onChangeText={setCloseNotes}
+              placeholder="Notes (optional)"
+            />
+            <View style={styles.modalActions}>
+              <TouchableOpacity
+                style={styles.cancelButton}
+                onPress={() => setCloseModalVisible(false)}
+                disabled={submitting}>
+                <Text style={styles.cancelButtonText}>Cancel</Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={[styles.saveButton, submitting && styles.buttonDisabled]}
+                onPress={handleCloseShift}
+                disabled={submitting}>
+                <Text style={styles.saveButtonText}>{submitting ? 'Closing...' : 'Close Shift'}</Text>
+              </TouchableOpacity>
+            </View>
+          </View>
+        </View>
+      </Modal>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F9FAFB',
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    backgroundColor: '#FFFFFF',
+    padding: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: '#E5E7EB',
+  },
+  headerTitle: {
+    fontSize: 24,
+    fontWeight: '700',
+    color: '#111827',
+  },
+  content: {
+    flex: 1,
+    padding: 16,
+  },
+  card: {
+    backgroundColor: '#FFFFFF',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 16,
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+    gap: 8,
+  },
+  cardTitle: {
+    fontSize: 18,
+    fontWeight: '700',
+    color: '#111827',
+  },
+  cardSubtitle: {
+    fontSize: 14,
+    color: '#6B7280',
+    marginBottom: 4,
+  },
+  sectionTitle: {
+    fontSize: 14,
+    fontWeight: '700',
+    color: '#374151',
+    marginTop: 8,
+  },
+  row: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+  },
+  rowLabel: {
+    fontSize: 14,
+    color: '#6B7280',
+  },
+  rowValue: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#111827',
+  },
+  rowLabelStrong: {
+    fontSize: 15,
+    fontWeight: '700',
+    color: '#111827',
+  },
+  rowValueStrong: {
+    fontSize: 15,
+    fontWeight: '700',
+    color: '#111827',
+  },
+  varianceValue: {
+    color: '#EF4444',
+  },
+  notes: {
+    fontSize: 13,
+    color: '#6B7280',
+    fontStyle: 'italic',
+  },
+  input: {
+    backgroundColor: '#F9FAFB',
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+    borderRadius: 8,
+    padding: 12,
+    fontSize: 16,
+    color: '#111827',
+  },
+  primaryButton: {
+    backgroundColor: '#3B82F6',
+    padding: 14,
+    borderRadius: 8,
+    alignItems: 'center',
+  },
+  primaryButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#FFFFFF',
+  },
+  buttonDisabled: {
+    opacity: 0.6,
+  },
+  actions: {
+    flexDirection: 'row',
+    gap: 12,
+    marginBottom: 16,
+  },
+  actionButton: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 8,
+    padding: 14,
+    borderRadius: 12,
+    backgroundColor: '#FFFFFF',
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+  },
+  actionButtonText: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#111827',
+  },
+  closeShiftButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 8,
+    backgroundColor: '#111827',
+    padding: 14,
+    borderRadius: 12,
+    marginBottom: 32,
+  },
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  modalContent: {
+    backgroundColor: '#FFFFFF',
+    borderRadius: 16,
+    padding: 24,
+    width: '90%',
+    maxWidth: 400,
+    gap: 12,
+  },
+  modalTitle: {
+    fontSize: 20,
+    fontWeight: '700',
+    color: '#111827',
+  },
+  modalActions: {
+    flexDirection: 'row',
+    gap: 12,
+    marginTop: 8,
+  },
+  cancelButton: {
+    flex: 1,
+    padding: 12,
+    borderRadius: 8,
+    backgroundColor: '#F3F4F6',
+    alignItems: 'center',
+  },
+  cancelButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#6B7280',
+  },
+  saveButton: {
+    flex: 1,
+    padding: 12,
+    borderRadius: 8,
+    backgroundColor: '#3B82F6',
+    alignItems: 'center',
+  },
+  saveButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#FFFFFF',
+  },
+});
@@ -0,0 +1,769 @@
+import { useState, useCallback } from 'react';
+import {
+  View,
+  Text,
+  ScrollView,
+  StyleSheet,
+  SafeAreaView,
+  ActivityIndicator,
+  TouchableOpacity,
+  TextInput,
+  Alert,
+} from 'react-native';
+import { useRouter, useFocusEffect } from 'expo-router';
+import { ArrowLeft, Search } from 'lucide-react-native';
+import { useAuth } from '@/contexts/AuthContext';
+import BarcodeScanner from '@/components/BarcodeScanner';
+import { fetchCategories } from '@/services/products.service';
+import {
+  approveStocktake,
+  fetchActiveStocktake,
+  fetchStocktakeCounts,
+  fetchStocktakeReport,
+  recordStocktakeCount,
+  startStocktake,
+  updateStocktakeStatus,
+} from '@/services/stocktake.service';
+import { formatPrice } from '@/utils/currency';
+import { formatQuantityChange } from '@/utils/stock';
+import {
+  findStocktakeProduct,
+  getApprovalChange,
+  getStocktakeTotals,
+  getVariance,
+  Stocktake,
+  StocktakeCount,
+  StocktakeReport,
+  STOCKTAKE_STATUS_LABELS,
+} from '@/utils/stocktake';
+
+const formatDate = (dateString: string) =>
+  new Date(dateString).toLocaleDateString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+  });
+
+const getVarianceColor = (variance: number) =>
+  variance > 0 ? '#10B981' : variance < 0 ? '#EF4444' : '#6B7280';
+
+export default function StocktakeScreen() {
+  const { profile } = useAuth();
+  const router = useRouter();
+  const [stocktake, setStocktake] = useState<Stocktake | null>(null);
+  const [counts, setCounts] = useState<StocktakeCount[]>([]);
+  const [report, setReport] = useState<StocktakeReport | null>(null);
+  const [categories, setCategories] = useState<{ id: string; name: string }[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [busy, setBusy] = useState(false);
+  const [startCategoryId, setStartCategoryId] = useState<string | null>(null);
+  const [startNotes, setStartNotes] = useState('');
+  const [searchQuery, setSearchQuery] = useState('');
+  const [quantityInputs, setQuantityInputs] = useState<Record<string, string>>({});
+  const [lastScanMessage, setLastScanMessage] = useState<string | null>(null);
+
+  const isAdmin = profile?.role === 'admin';
+
+  const loadData = useCallback(async () => {
+    try {
+      const stocktakeResult = await fetchActiveStocktake();
+      if (stocktakeResult.error) throw new Error(stocktakeResult.error);
+
+      const active = stocktakeResult.data;
+      setStocktake(active);
+      setReport(null);
+      setCounts([]);
+
+      if (!active) {
+        if (isAdmin) {
+          const categoriesResult = await fetchCategories();
+          if (categoriesResult.error) throw new Error(categoriesResult.error);
+          setCategories(categoriesResult.data || []);
+        }
+        return;
+      }
+
+      if (active.status === 'counting') {
+        const countsResult = await fetchStocktakeCounts(active.id);
+        if (countsResult.error) throw new Error(countsResult.error);
+        setCounts(countsResult.data || []);
+      } else if (isAdmin) {
+        const reportResult = await fetchStocktakeReport(active.id);
+        if (reportResult.error) throw new Error(reportResult.error);
+        setReport(reportResult.data);
+      }
+    } catch (error: any) {
+      console.error('Error loading stocktake:', error);
+      Alert.alert('Error', error.message || 'Failed to load stocktake');
+    } finally {
+      setLoading(false);
+    }
+  }, [isAdmin]);
+
+  useFocusEffect(
+    useCallback(() => {
+      loadData();
+    }, [loadData])
+  );
+
+  const handleStart = async () => {
+    setBusy(true);
+    try {
+      const result = await startStocktake(startCategoryId, startNotes.trim() || null);
+      if (result.error) throw new Error(result.error);
+
+      setStartNotes('');
+      await loadData();
+    } catch (error: any) {
+      console.error('Error starting stocktake:', error);
+      Alert.alert('Error', error.message || 'Failed to start stocktake');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const applyCount = (productId: string, counted: number) => {
+    setCounts(current =>
+      current.map(p => (p.product_id === productId ? { ...p, counted_quantity: counted } : p))
+    );
+  };
+
+  // Each scan adds one; the server adds it to whatever has been counted so far
+  // so several people can scan the same product
+  const handleScan = async (code: string) => {
+    if (!stocktake) return;
+
+    const product = findStocktakeProduct(counts, code);
+    if (!product) {
+      setLastScanMessage(null);
+      Alert.alert('Not Found', `No product in this stocktake matches "${code.trim()}"`);
+      return;
+    }
+
+    const result = await recordStocktakeCount(stocktake.id, product.product_id, 1, 'add');
+    if (result.error || result.data === null) {
+      Alert.alert('Error', result.error || 'Failed to record count');
+      return;
+    }
+
+    applyCount(product.product_id, result.data);
+    setLastScanMessage(`${product.name}: ${result.data} counted`);
+  };
+
+  const handleSetCount = async (product: StocktakeCount) => {
+    if (!stocktake) return;
+
+    const quantity = parseInt(quantityInputs[product.product_id] ?? '', 10);
+    if (isNaN(quantity) || quantity < 0) {
+      Alert.alert('Error', 'Enter the quantity on the shelf');
+      return;
+    }
+
+    const result = await recordStocktakeCount(stocktake.id, product.product_id, quantity, 'set');
+    if (result.error || result.data === null) {
+      Alert.alert('Error', result.error || 'Failed to record count');
+      return;
+    }
+
+    applyCount(product.product_id, result.data);
+    setQuantityInputs(current => ({ ...current, [product.product_id]: '' }));
+  };
+
+  const changeStatus = async (status: 'counting' | 'review' | 'cancelled') => {
+    if (!stocktake) return;
+
+    setBusy(true);
+    try {
+      const result = await updateStocktakeStatus(stocktake.id, status);
+      if (result.error) throw new Error(result.error);
+
+      await loadData();
+    } catch (error: any) {
+      console.error('Error updating stocktake:', error);
+      Alert.alert('Error', error.message || 'Failed to update stocktake');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const confirmCloseCounting = () => {
+    const uncounted = counts.filter(p => p.counted_quantity === null).length;
+    Alert.alert(
+      'Close Counting',
+      uncounted > 0
+        ? `${uncounted} ${uncounted === 1 ? 'product has' : 'products have'} not been counted and will be left unchanged.`
+        : 'Stop counting and review the variances?',
+      [
+        { text: 'Keep Counting', style: 'cancel' },
+        { text: 'Close Counting', onPress: () => changeStatus('review') },
+      ]
+    );
+  };
+
+  const confirmCancel = () => {
+    Alert.alert('Cancel Stocktake', 'Discard all counts? Stock will not be changed.', [
+      { text: 'Keep', style: 'cancel' },
+      { text: 'Cancel Stocktake', style: 'destructive', onPress: () => changeStatus('cancelled') },
+    ]);
+  };
+
+  const handleApprove = async () => {
+    if (!stocktake) return;
+
+    setBusy(true);
+    try {
+      const result = await approveStocktake(stocktake.id);
+      if (result.error || !result.data) throw new Error(result.error || 'Failed to approve stocktake');
+
+      const posted = result.data.items.filter(item => getVariance(item) !== 0).length;
+      Alert.alert(
+        'Stocktake Approved',
+        posted > 0
+          ? `${posted} stock ${posted === 1 ? 'correction was' : 'corrections were'} posted.`
+          : 'No corrections were needed.'
+      );
+      await loadData();
+    } catch (error: any) {
+      console.error('Error approving stocktake:', error);
+      Alert.alert('Error', error.message || 'Failed to approve stocktake');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const confirmApprove = () => {
+    Alert.alert(
+      'Approve Stocktake',
+      'Post the variances as count corrections? Sales made since each product was counted are kept.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Approve & Post', onPress: handleApprove },
+      ]
+    );
+  };
+
+  if (loading) {
+    return (
+      <View style={styles.loadingContainer}>
+        <ActivityIndicator size="large" color="#3B82F6" />
+      </View>
+    );
+  }
+
+  const query = searchQuery.trim().toLowerCase();
+  const visibleCounts = query
+    ? counts.filter(p => p.name.toLowerCase().includes(query) || p.sku?.toLowerCase().includes(query))
+    : counts;
+  const countedProducts = counts.filter(p => p.counted_quantity !== null).length;
+  const totals = report ? getStocktakeTotals(report.items) : null;
+  const scopeLabel = stocktake?.categories?.name ?? 'All products';
+
+  const renderStart = () =>
+    isAdmin ? (
+      <View style={styles.card}>
+        <Text style={styles.cardTitle}>Start a Stocktake</Text>
+        <Text style={styles.cardSubtitle}>
+          Staff count what is on the shelf without seeing system quantities. You review the variances before anything
+          is posted.
+        </Text>
+        <Text style={styles.label}>Products to count</Text>
+        <View style={styles.options}>
+          <TouchableOpacity
+            style={[styles.option, startCategoryId === null && styles.optionActive]}
+            onPress={() => setStartCategoryId(null)}>
+            <Text style={[styles.optionText, startCategoryId === null && styles.optionTextActive]}>All products</Text>
+          </TouchableOpacity>
+          {categories.map(category => (
+            <TouchableOpacity
+              key={category.id}
+              style={[styles.option, startCategoryId === category.id && styles.optionActive]}
+              onPress={() => setStartCategoryId(category.id)}>
+              <Text style={[styles.optionText, startCategoryId === category.id && styles.optionTextActive]}>
+                {category.name}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+        <Text style={styles.label}>Notes</Text>
+        <TextInput
+          style={styles.input}
+          value={startNotes}
+          onChangeText={setStartNotes}
+          placeholder="Optional"
+        />
+        <TouchableOpacity style={styles.primaryButton} onPress={handleStart} disabled={busy}>
+          {busy ? <ActivityIndicator color="#FFFFFF" /> : <Text style={styles.primaryButtonText}>Start Counting</Text>}
+        </TouchableOpacity>
+      </View>
+    ) : (
+      <View style={styles.emptyState}>
+        <Text style={styles.emptyText}>No stocktake in progress</Text>
+        <Text style={styles.emptySubtext}>An admin needs to start a stocktake before you can count</Text>
+      </View>
+    );
+
+  const renderCounting = () => (
+    <>
+      <View style={styles.card}>
+        <BarcodeScanner onScan={handleScan} />
+        {lastScanMessage && <Text style={styles.scanMessage}>{lastScanMessage}</Text>}
+      </View>
+
+      <View style={styles.searchBar}>
+        <Search size={20} color="#6B7280" />
+        <TextInput
+          style={styles.searchInput}
+          placeholder="Search products..."
+          value={searchQuery}
+          onChangeText={setSearchQuery}
+        />
+      </View>
+
+      {visibleCounts.map(product => (
+        <View key={product.product_id} style={styles.countRow}>
+          <View style={styles.countInfo}>
+            <Text style={styles.detailName} numberOfLines={1}>{product.name}</Text>
+            <Text style={styles.cardMeta}>
+              {product.sku ? `${product.sku} · ` : ''}
+              {product.counted_quantity === null ? 'Not counted' : `${product.counted_quantity} counted`}
+            </Text>
+          </View>
+          <TextInput
+            style={styles.countInput}
+            value={quantityInputs[product.product_id] ?? ''}
+            onChangeText={text => setQuantityInputs(current => ({ ...current, [product.product_id]: text }))}
+            placeholder="Qty"
+            keyboardType="number-pad"
+          />
+          <TouchableOpacity style={styles.setButton} onPress={() => handleSetCount(product)}>
+            <Text style={styles.primaryButtonText}>Set</Text>
+          </TouchableOpacity>
+        </View>
+      ))}
+
+      {isAdmin && (
+        <View style={styles.actions}>
+          <TouchableOpacity style={styles.primaryButton} onPress={confirmCloseCounting} disabled={busy}>
+            <Text style={styles.primaryButtonText}>Close Counting & Review</Text>
+          </TouchableOpacity>
+          <TouchableOpacity style={styles.dangerButton} onPress={confirmCancel} disabled={busy}>
+            <Text style={styles.dangerButtonText}>Cancel Stocktake</Text>
+          </TouchableOpacity>
+        </View>
+      )}
+    </>
+  );
+
+  const renderReview = () => {
+    if (!isAdmin) {
+      return (
+        <View style={styles.emptyState}>
+          <Text style={styles.emptyText}>Counting is closed</Text>
+          <Text style={styles.emptySubtext}>An admin is reviewing the results</Text>
+        </View>
+      );
+    }
+    if (!report || !totals) return null;
+
+    return (
+      <>
+        <View style={styles.summaryGrid}>
+          <View style={styles.summaryCard}>
+            <Text style={styles.summaryLabel}>Counted</Text>
+            <Text style={styles.summaryValue}>{totals.countedProducts}</Text>
+          </View>
+          <View style={styles.summaryCard}>
+            <Text style={styles.summaryLabel}>With Variance</Text>
+            <Text style={styles.summaryValue}>{totals.productsWithVariance}</Text>
+          </View>
+          <View style={styles.summaryCard}>
+            <Text style={styles.summaryLabel}>Units Over / Short</Text>
+            <Text style={styles.summaryValue}>
+              +{totals.unitsOver} / -{totals.unitsShort}
+            </Text>
+          </View>
+          <View style={styles.summaryCard}>
+            <Text style={styles.summaryLabel}>Value at Cost</Text>
+            <Text style={[styles.summaryValue, { color: getVarianceColor(totals.costVariance) }]}>
+              {formatPrice(totals.costVariance)}
+            </Text>
+          </View>
+          <View style={styles.summaryCard}>
+            <Text style={styles.summaryLabel}>Value at Retail</Text>
+            <Text style={[styles.summaryValue, { color: getVarianceColor(totals.retailVariance) }]}>
+              {formatPrice(totals.retailVariance)}
+            </Text>
+          </View>
+        </View>
+        {totals.missingCost > 0 && (
+          <Text style={styles.warningText}>
+            {totals.missingCost} {totals.missingCost === 1 ? 'product has' : 'products have'} no cost price and{' '}
+            {totals.missingCost === 1 ? 'is' : 'are'} left out of the value at cost.
+          </Text>
+        )}
+
+        <Text style={styles.sectionTitle}>Counted Products</Text>
+        {report.items.length === 0 ? (
+          <Text style={styles.cardMeta}>Nothing was counted</Text>
+        ) : (
+          report.items.map(item => {
+            const variance = getVariance(item);
+            const change = getApprovalChange(item);
+            return (
+              <View key={item.product_id} style={styles.reportRow}>
+                <View style={styles.countInfo}>
+                  <Text style={styles.detailName} numberOfLines={1}>{item.name}</Text>
+                  <Text style={styles.cardMeta}>
+                    System {item.expected_quantity} · Counted {item.counted_quantity}
+                    {change !== variance ? ` · posts ${formatQuantityChange(change)}` : ''}
+                  </Text>
+                </View>
+                <View style={styles.varianceColumn}>
+                  <Text style={[styles.varianceText, { color: getVarianceColor(variance) }]}>
+                    {formatQuantityChange(variance)}
+                  </Text>
+                  {variance !== 0 && (
+                    <Text style={styles.cardMeta}>{formatPrice(variance * item.unit_price)}</Text>
+                  )}
+                </View>
+              </View>
+            );
+          })
+        )}
+
+        {report.uncounted.length > 0 && (
+          <>
+            <Text style={styles.sectionTitle}>Not Counted ({report.uncounted.length})</Text>
+            <Text style={styles.cardMeta}>These keep their current stock</Text>
+            {report.uncounted.map(item => (
+              <View key={item.product_id} style={styles.reportRow}>
+                <Text style={styles.detailName} numberOfLines={1}>{item.name}</Text>
+                <Text style={styles.cardMeta}>{item.current_stock} in stock</Text>
+              </View>
+            ))}
+          </>
+        )}
+
+        <View style={styles.actions}>
+          <TouchableOpacity style={styles.approveButton} onPress={confirmApprove} disabled={busy}>
+            {busy ? <ActivityIndicator color="#FFFFFF" /> : <Text style={styles.primaryButtonText}>Approve & Post</Text>}
+          </TouchableOpacity>
+          <TouchableOpacity style={styles.secondaryButton} onPress={() => changeStatus('counting')} disabled={busy}>
+            <Text style={styles.secondaryButtonText}>Reopen Counting</Text>
+          </TouchableOpacity>
+          <TouchableOpacity style={styles.dangerButton} onPress={confirmCancel} disabled={busy}>
+            <Text style={styles.dangerButtonText}>Cancel Stocktake</Text>
+          </TouchableOpacity>
+        </View>
+      </>
+    );
+  };
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <View style={styles.header}>
+        <View style={styles.headerLeft}>
+          <TouchableOpacity onPress={() => router.back()}>
+            <ArrowLeft size={24} color="#111827" />
+          </TouchableOpacity>
+          <View>
+            <Text style={styles.headerTitle}>Stocktake</Text>
+            {stocktake && (
+              <Text style={styles.cardSubtitle}>
+                {scopeLabel} · {STOCKTAKE_STATUS_LABELS[stocktake.status]} · {formatDate(stocktake.created_at)}
+              </Text>
+            )}
+          </View>
+        </View>
+        {stocktake?.status === 'counting' && (
+          <Text style={styles.progressText}>
+            {countedProducts} / {counts.length}
+          </Text>
+        )}
+      </View>
+
+      <ScrollView style={styles.content} keyboardShouldPersistTaps="handled">
+        {stocktake?.notes && <Text style={styles.notes}>{stocktake.notes}</Text>}
+        {!stocktake ? renderStart() : stocktake.status === 'counting' ? renderCounting() : renderReview()}
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F9FAFB',
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    backgroundColor: '#FFFFFF',
+    padding: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: '#E5E7EB',
+  },
+  headerLeft: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+  },
+  headerTitle: {
+    fontSize: 24,
+    fontWeight: '700',
+    color: '#111827',
+  },
+  progressText: {
+    fontSize: 16,
+    fontWeight: '700',
+    color: '#3B82F6',
+  },
+  content: {
+    flex: 1,
+    padding: 16,
+  },
+  card: {
+    backgroundColor: '#FFFFFF',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 12,
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+    gap: 4,
+  },
+  cardTitle: {
+    fontSize: 16,
+    fontWeight: '700',
+    color: '#111827',
+  },
+  cardSubtitle: {
+    fontSize: 14,
+    color: '#6B7280',
+  },
+  cardMeta: {
+    fontSize: 12,
+    color: '#6B7280',
+  },
+  notes: {
+    fontSize: 14,
+    color: '#374151',
+    fontStyle: 'italic',
+    marginBottom: 12,
+  },
+  label: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#374151',
+    marginBottom: 6,
+    marginTop: 12,
+  },
+  input: {
+    backgroundColor: '#F9FAFB',
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+    borderRadius: 8,
+    padding: 12,
+    fontSize: 16,
+    color: '#111827',
+  },
+  options: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  option: {
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 8,
+    backgroundColor: '#F3F4F6',
+  },
+  optionActive: {
+    backgroundColor: '#3B82F6',
+  },
+  optionText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#6B7280',
+  },
+  optionTextActive: {
+    color: '#FFFFFF',
+  },
+  scanMessage: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#10B981',
+    marginTop: 8,
+  },
+  searchBar: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    backgroundColor: '#FFFFFF',
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    marginBottom: 12,
+  },
+  searchInput: {
+    flex: 1,
+    paddingVertical: 12,
+    fontSize: 16,
+    color: '#111827',
+  },
+  countRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    backgroundColor: '#FFFFFF',
+    borderRadius: 8,
+    padding: 12,
+    marginBottom: 8,
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+  },
+  countInfo: {
+    flex: 1,
+  },
+  countInput: {
+    width: 72,
+    backgroundColor: '#F9FAFB',
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+    borderRadius: 8,
+    padding: 8,
+    fontSize: 16,
+    color: '#111827',
+    textAlign: 'center',
+  },
+  setButton: {
+    backgroundColor: '#3B82F6',
+    paddingHorizontal: 14,
+    paddingVertical: 10,
+    borderRadius: 8,
+  },
+  detailName: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#111827',
+  },
+  summaryGrid: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginBottom: 8,
+  },
+  summaryCard: {
+    flexGrow: 1,
+    minWidth: '45%',
+    backgroundColor: '#FFFFFF',
+    borderRadius: 12,
+    padding: 12,
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+  },
+  summaryLabel: {
+    fontSize: 12,
+    color: '#6B7280',
+    marginBottom: 4,
+  },
+  summaryValue: {
+    fontSize: 18,
+    fontWeight: '700',
+    color: '#111827',
+  },
+  warningText: {
+    fontSize: 12,
+    color: '#F59E0B',
+    marginBottom: 8,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: '700',
+    color: '#111827',
+    marginTop: 16,
+    marginBottom: 8,
+  },
+  reportRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    gap: 8,
+    paddingVertical: 10,
+    borderBottomWidth: 1,
+    borderBottomColor: '#F3F4F6',
+  },
+  varianceColumn: {
+    alignItems: 'flex-end',
+  },
+  varianceText: {
+    fontSize: 16,
+    fontWeight: '700',
+  },
+  actions: {
+    gap: 8,
+    marginTop: 16,
+    marginBottom: 32,
+  },
+  primaryButton: {
+    backgroundColor: '#3B82F6',
+    padding: 14,
+    borderRadius: 8,
+    alignItems: 'center',
+    marginTop: 12,
+  },
+  primaryButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#FFFFFF',
+  },
+  approveButton: {
+    backgroundColor: '#10B981',
+    padding: 14,
+    borderRadius: 8,
+    alignItems: 'center',
+  },
+  secondaryButton: {
+    backgroundColor: '#EFF6FF',
+    padding: 14,
+    borderRadius: 8,
+    alignItems: 'center',
+  },
+  secondaryButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#3B82F6',
+  },
+  dangerButton: {
+    backgroundColor: '#FEE2E2',
+    padding: 14,
+    borderRadius: 8,
+    alignItems: 'center',
+  },
+  dangerButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#EF4444',
+  },
+  emptyState: {
+    alignItems: 'center',
+    padding: 32,
+  },
+  emptyText: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#111827',
+    marginBottom: 8,
+  },
+  emptySubtext: {
+    fontSize: 14,
+    color: '#6B7280',
+    textAlign: 'center',
+  },
+});
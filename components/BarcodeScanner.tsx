@@ -0,0 +1,116 @@
+import { useState, useRef } from 'react';
+import { View, Text, TextInput, TouchableOpacity, StyleSheet, Platform } from 'react-native';
+import { CameraView, useCameraPermissions } from 'expo-camera';
+import { ScanLine } from 'lucide-react-native';
+
+type BarcodeScannerProps = {
+  onScan: (code: string) => void;
+  // The camera is skipped on web; tests can turn it off to drive the text input
+  useCamera?: boolean;
+  placeholder?: string;
+};
+
+// The same barcode stays in frame for several camera callbacks
+const RESCAN_DELAY_MS = 1500;
+
+export default function BarcodeScanner({
+  onScan,
+  useCamera = Platform.OS !== 'web',
+  placeholder = 'Scan or type SKU / barcode',
+}: BarcodeScannerProps) {
+  const [permission, requestPermission] = useCameraPermissions();
+  const [manualCode, setManualCode] = useState('');
+  const lastScanRef = useRef<{ code: string; at: number } | null>(null);
+
+  const handleCameraScan = ({ data }: { data: string }) => {
+    const now = Date.now();
+    const lastScan = lastScanRef.current;
+    if (lastScan && lastScan.code === data && now - lastScan.at < RESCAN_DELAY_MS) {
+      return;
+    }
+    lastScanRef.current = { code: data, at: now };
+    onScan(data);
+  };
+
+  // Keyboard-wedge scanners type the code and press Enter, so they go through here too
+  const handleManualSubmit = () => {
+    const code = manualCode.trim();
+    if (!code) return;
+    setManualCode('');
+    onScan(code);
+  };
+
+  return (
+    <View style={styles.container}>
+      {useCamera && (
+        permission?.granted ? (
+          <CameraView
+            style={styles.camera}
+            facing="back"
+            barcodeScannerSettings={{
+              barcodeTypes: ['ean13', 'ean8', 'upc_a', 'upc_e', 'code128', 'code39', 'qr'],
+            }}
+            onBarcodeScanned={handleCameraScan}
+          />
+        ) : (
+          <TouchableOpacity style={styles.permissionButton} onPress={requestPermission}>
+            <ScanLine size={20} color="#3B82F6" />
+            <Text style={styles.permissionText}>
+              {permission && !permission.canAskAgain
+                ? 'Camera access denied. Enable it in settings or type the code below.'
+                : 'Enable camera to scan barcodes'}
+            </Text>
+          </TouchableOpacity>
+        )
+      )}
+
+      <TextInput
+        style={styles.input}
+        value={manualCode}
+        onChangeText={setManualCode}
+        onSubmitEditing={handleManualSubmit}
+        placeholder={placeholder}
+        autoCapitalize="none"
+        autoCorrect={false}
+        autoFocus={!useCamera}
+        blurOnSubmit={false}
+        returnKeyType="search"
+        testID="barcode-input"
+      />
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    gap: 8,
+  },
+  camera: {
+    height: 180,
+    borderRadius: 12,
+    overflow: 'hidden',
+  },
+  permissionButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    padding: 12,
+    borderRadius: 12,
+    backgroundColor: '#EFF6FF',
+  },
+  permissionText: {
+    flex: 1,
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#3B82F6',
+  },
+  input: {
+    backgroundColor: '#FFFFFF',
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+    borderRadius: 8,
+    padding: 12,
+    fontSize: 16,
+    color: '#111827',
+  },
+});
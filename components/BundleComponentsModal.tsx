@@ -0,0 +1,363 @@
+import { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  StyleSheet,
+  Modal,
+  Alert,
+  ScrollView,
+  ActivityIndicator,
+} from 'react-native';
+import { Search, Trash2 } from 'lucide-react-native';
+import { setBundleComponents } from '@/services/products.service';
+import { formatPrice } from '@/utils/currency';
+import { BundleComponent, getBundleStock, isBundle } from '@/utils/bundles';
+
+type BundleProduct = {
+  id: string;
+  name: string;
+  price: number;
+  stock: number;
+  parent_id: string | null;
+  bundle_components: BundleComponent[];
+};
+
+type BundleComponentsModalProps<T extends BundleProduct> = {
+  visible: boolean;
+  product: T | null;
+  // Every product; those that hold their own stock can be components
+  products: T[];
+  onClose: () => void;
+  onChanged: () => void;
+};
+
+type ComponentForm = {
+  component_id: string;
+  quantity: string;
+};
+
+export default function BundleComponentsModal<T extends BundleProduct>({
+  visible,
+  product,
+  products,
+  onClose,
+  onChanged,
+}: BundleComponentsModalProps<T>) {
+  const [components, setComponents] = useState<ComponentForm[]>([]);
+  const [searchQuery, setSearchQuery] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (visible && product) {
+      setComponents(
+        product.bundle_components.map(component => ({
+          component_id: component.component_id,
+          quantity: component.quantity.toString(),
+        }))
+      );
+      setSearchQuery('');
+    }
+  }, [visible, product]);
+
+  if (!product) return null;
+
+  // The product's own stock would be stranded once its components hold the stock
+  const blockedByStock = !isBundle(product) && product.stock !== 0;
+  const findProduct = (productId: string) => products.find(p => p.id === productId);
+  const holdsStock = (p: T) => !isBundle(p) && !products.some(other => other.parent_id === p.id);
+
+  const query = searchQuery.trim().toLowerCase();
+  const candidates = query
+    ? products
+        .filter(
+          p =>
+            p.id !== product.id &&
+            holdsStock(p) &&
+            !components.some(component => component.component_id === p.id) &&
+            p.name.toLowerCase().includes(query)
+        )
+        .slice(0, 8)
+    : [];
+
+  const parsedComponents = components.map(component => ({
+    product_id: component.component_id,
+    quantity: parseInt(component.quantity, 10),
+  }));
+  const makesUp = getBundleStock(
+    parsedComponents
+      .filter(component => component.quantity > 0)
+      .map(component => ({ quantity: component.quantity, stock: findProduct(component.product_id)?.stock ?? 0 }))
+  );
+
+  const updateQuantity = (componentId: string, quantity: string) => {
+    setComponents(current =>
+      current.map(component => (component.component_id === componentId ? { ...component, quantity } : component))
+    );
+  };
+
+  const handleSave = async () => {
+    if (parsedComponents.some(component => isNaN(component.quantity) || component.quantity <= 0)) {
+      Alert.alert('Error', 'Each component needs a quantity of at least 1');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const result = await setBundleComponents(product.id, parsedComponents);
+      if (result.error) throw new Error(result.error);
+
+      onChanged();
+      onClose();
+    } catch (error: any) {
+      console.error('Error saving bundle:', error);
+      Alert.alert('Error', error.message || 'Failed to save bundle');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Modal visible={visible} transparent animationType="slide" onRequestClose={onClose}>
+      <View style={styles.modalOverlay}>
+        <View style={styles.modalContent}>
+          <View style={styles.modalHeader}>
+            <Text style={styles.modalTitle}>{product.name} Bundle</Text>
+            <TouchableOpacity onPress={onClose}>
+              <Text style={styles.closeButton}>✕</Text>
+            </TouchableOpacity>
+          </View>
+
+          <ScrollView style={styles.form} keyboardShouldPersistTaps="handled">
+            <Text style={styles.hint}>
+              Sells at {formatPrice(product.price)}. Each sale takes these quantities from the components' stock.
+            </Text>
+
+            {components.length === 0 ? (
+              <Text style={[styles.hint, styles.emptyHint]}>No components yet. Search for products to add.</Text>
+            ) : (
+              components.map(component => {
+                const componentProduct = findProduct(component.component_id);
+                return (
+                  <View key={component.component_id} style={styles.componentRow}>
+                    <View style={styles.componentInfo}>
+                      <Text style={styles.componentName}>{componentProduct?.name ?? 'Unknown product'}</Text>
+                      <Text style={styles.hint}>
+                        {formatPrice(componentProduct?.price ?? 0)} · {componentProduct?.stock ?? 0} in stock
+                      </Text>
+                    </View>
+                    <TextInput
+                      style={styles.quantityInput}
+                      value={component.quantity}
+                      onChangeText={text => updateQuantity(component.component_id, text)}
+                      keyboardType="number-pad"
+                    />
+                    <TouchableOpacity
+                      style={styles.iconButton}
+                      onPress={() =>
+                        setComponents(current => current.filter(c => c.component_id !== component.component_id))
+                      }>
+                      <Trash2 size={16} color="#EF4444" />
+                    </TouchableOpacity>
+                  </View>
+                );
+              })
+            )}
+
+            {components.length > 0 && <Text style={styles.makesText}>Components on hand make {makesUp}</Text>}
+
+            {blockedByStock ? (
+              <Text style={styles.warning}>
+                {product.name} has {product.stock} in stock. Adjust it to zero before making it a bundle.
+              </Text>
+            ) : (
+              <>
+                <View style={styles.searchBar}>
+                  <Search size={18} color="#6B7280" />
+                  <TextInput
+                    style={styles.searchInput}
+                    value={searchQuery}
+                    onChangeText={setSearchQuery}
+                    placeholder="Add a component..."
+                  />
+                </View>
+                {candidates.map(candidate => (
+                  <TouchableOpacity
+                    key={candidate.id}
+                    style={styles.candidateRow}
+                    onPress={() => {
+                      setComponents(current => [...current, { component_id: candidate.id, quantity: '1' }]);
+                      setSearchQuery('');
+                    }}>
+                    <Text style={styles.componentName}>{candidate.name}</Text>
+                    <Text style={styles.hint}>{candidate.stock} in stock</Text>
+                  </TouchableOpacity>
+                ))}
+              </>
+            )}
+          </ScrollView>
+
+          <View style={styles.modalActions}>
+            <TouchableOpacity style={styles.cancelButton} onPress={onClose} disabled={saving}>
+              <Text style={styles.cancelButtonText}>Cancel</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={[styles.saveButton, blockedByStock && styles.saveButtonDisabled]}
+              onPress={handleSave}
+              disabled={saving || blockedByStock}>
+              {saving ? <ActivityIndicator color="#FFFFFF" /> : <Text style={styles.saveButtonText}>Save</Text>}
+            </TouchableOpacity>
+          </View>
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  modalContent: {
+    backgroundColor: '#FFFFFF',
+    borderRadius: 16,
+    padding: 24,
+    width: '90%',
+    maxWidth: 480,
+    maxHeight: '90%',
+  },
+  modalHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 12,
+  },
+  modalTitle: {
+    flex: 1,
+    fontSize: 20,
+    fontWeight: '700',
+    color: '#111827',
+  },
+  closeButton: {
+    fontSize: 24,
+    color: '#6B7280',
+  },
+  form: {
+    flexGrow: 0,
+  },
+  hint: {
+    fontSize: 12,
+    color: '#6B7280',
+  },
+  emptyHint: {
+    marginTop: 12,
+  },
+  warning: {
+    fontSize: 12,
+    color: '#F59E0B',
+    marginTop: 12,
+  },
+  componentRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    paddingVertical: 10,
+    borderBottomWidth: 1,
+    borderBottomColor: '#F3F4F6',
+  },
+  componentInfo: {
+    flex: 1,
+  },
+  componentName: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#111827',
+  },
+  quantityInput: {
+    width: 56,
+    backgroundColor: '#F9FAFB',
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+    borderRadius: 8,
+    padding: 8,
+    fontSize: 16,
+    color: '#111827',
+    textAlign: 'center',
+  },
+  iconButton: {
+    width: 32,
+    height: 32,
+    borderRadius: 8,
+    backgroundColor: '#FEF2F2',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  makesText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#374151',
+    marginTop: 12,
+  },
+  searchBar: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    backgroundColor: '#F9FAFB',
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    marginTop: 16,
+  },
+  searchInput: {
+    flex: 1,
+    paddingVertical: 10,
+    fontSize: 16,
+    color: '#111827',
+  },
+  candidateRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingVertical: 10,
+    paddingHorizontal: 4,
+    borderBottomWidth: 1,
+    borderBottomColor: '#F3F4F6',
+  },
+  modalActions: {
+    flexDirection: 'row',
+    gap: 12,
+    marginTop: 16,
+  },
+  cancelButton: {
+    flex: 1,
+    padding: 12,
+    borderRadius: 8,
+    backgroundColor: '#F3F4F6',
+    alignItems: 'center',
+  },
+  cancelButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#6B7280',
+  },
+  saveButton: {
+    flex: 1,
+    padding: 12,
+    borderRadius: 8,
+    backgroundColor: '#3B82F6',
+    alignItems: 'center',
+  },
+  saveButtonDisabled: {
+    backgroundColor: '#E5E7EB',
+  },
+  saveButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#FFFFFF',
+  },
+});
@@ -0,0 +1,338 @@
+import { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  StyleSheet,
+  Modal,
+  Alert,
+  ScrollView,
+  ActivityIndicator,
+} from 'react-native';
+import { Search, UserPlus } from 'lucide-react-native';
+import { createCustomer, Customer, searchCustomers } from '@/services/customers.service';
+import { formatPoints } from '@/utils/loyalty';
+
+type CustomerPickerModalProps = {
+  visible: boolean;
+  onSelect: (customer: Customer) => void;
+  onClose: () => void;
+};
+
+const emptyForm = { name: '', phone: '', email: '', notes: '' };
+
+export default function CustomerPickerModal({ visible, onSelect, onClose }: CustomerPickerModalProps) {
+  const [query, setQuery] = useState('');
+  const [results, setResults] = useState<Customer[]>([]);
+  const [searching, setSearching] = useState(false);
+  const [creating, setCreating] = useState(false);
+  const [form, setForm] = useState(emptyForm);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (visible) {
+      setQuery('');
+      setCreating(false);
+      setForm(emptyForm);
+    }
+  }, [visible]);
+
+  // Wait for the cashier to stop typing before searching
+  useEffect(() => {
+    if (!visible || creating) return;
+
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      setSearching(true);
+      const result = await searchCustomers(query);
+      if (cancelled) return;
+      if (result.error) {
+        console.error('Error searching customers:', result.error);
+      }
+      setResults(result.data ?? []);
+      setSearching(false);
+    }, 300);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [visible, creating, query]);
+
+  const startCreating = () => {
+    // A typed phone number or name carries over to the new customer
+    const typed = query.trim();
+    setForm({ ...emptyForm, ...(/^[\d+\s-]+$/.test(typed) ? { phone: typed } : { name: typed }) });
+    setCreating(true);
+  };
+
+  const handleCreate = async () => {
+    if (!form.name.trim()) {
+      Alert.alert('Error', 'Please enter the customer name');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const result = await createCustomer(form);
+      if (result.error || !result.data) throw new Error(result.error || 'Failed to add customer');
+
+      onSelect(result.data);
+    } catch (error: any) {
+      console.error('Error creating customer:', error);
+      Alert.alert('Error', error.message || 'Failed to add customer');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Modal visible={visible} transparent animationType="slide" onRequestClose={onClose}>
+      <View style={styles.modalOverlay}>
+        <View style={styles.modalContent}>
+          <View style={styles.modalHeader}>
+            <Text style={styles.modalTitle}>{creating ? 'New Customer' : 'Customer'}</Text>
+            <TouchableOpacity onPress={onClose}>
+              <Text style={styles.closeButton}>✕</Text>
+            </TouchableOpacity>
+          </View>
+
+          {creating ? (
+            <>
+              <ScrollView style={styles.form} keyboardShouldPersistTaps="handled">
+                <Text style={styles.label}>Name *</Text>
+                <TextInput
+                  style={styles.input}
+                  value={form.name}
+                  onChangeText={name => setForm({ ...form, name })}
+                  placeholder="Full name"
+                />
+                <Text style={styles.label}>Phone</Text>
+                <TextInput
+                  style={styles.input}
+                  value={form.phone}
+                  onChangeText={phone => setForm({ ...form, phone })}
+                  placeholder="09XX XXX XXXX"
+                  keyboardType="phone-pad"
+                />
+                <Text style={styles.label}>Email</Text>
+                <TextInput
+                  style={styles.input}
+                  value={form.email}
+                  onChangeText={email => setForm({ ...form, email })}
+                  placeholder="name@example.com"
+                  keyboardType="email-address"
+                  autoCapitalize="none"
+                />
+                <Text style={styles.label}>Notes</Text>
+                <TextInput
+                  style={[styles.input, styles.notesInput]}
+                  value={form.notes}
+                  onChangeText={notes => setForm({ ...form, notes })}
+                  placeholder="Preferences, allergies..."
+                  multiline
+                />
+              </ScrollView>
+
+              <View style={styles.modalActions}>
+                <TouchableOpacity style={styles.cancelButton} onPress={() => setCreating(false)} disabled={saving}>
+                  <Text style={styles.cancelButtonText}>Back</Text>
+                </TouchableOpacity>
+                <TouchableOpacity style={styles.saveButton} onPress={handleCreate} disabled={saving}>
+                  {saving ? <ActivityIndicator color="#FFFFFF" /> : <Text style={styles.saveButtonText}>Add</Text>}
+                </TouchableOpacity>
+              </View>
+            </>
+          ) : (
+            <>
+              <View style={styles.searchBar}>
+                <Search size={18} color="#6B7280" />
+                <TextInput
+                  style={styles.searchInput}
+                  value={query}
+                  onChangeText={setQuery}
+                  placeholder="Name, phone or email"
+                  autoFocus
+                />
+                {searching && <ActivityIndicator size="small" color="#3B82F6" />}
+              </View>
+
+              <ScrollView style={styles.results} keyboardShouldPersistTaps="handled">
+                {results.length === 0 && !searching ? (
+                  <Text style={styles.hint}>No customers found.</Text>
+                ) : (
+                  results.map(customer => (
+                    <TouchableOpacity
+                      key={customer.id}
+                      style={styles.customerRow}
+                      onPress={() => onSelect(customer)}>
+                      <View style={styles.customerInfo}>
+                        <Text style={styles.customerName}>{customer.name}</Text>
+                        {(customer.phone || customer.email) && (
+                          <Text style={styles.hint}>{[customer.phone, customer.email].filter(Boolean).join(' · ')}</Text>
+                        )}
+                      </View>
+                      <Text style={styles.pointsText}>{formatPoints(customer.points)}</Text>
+                    </TouchableOpacity>
+                  ))
+                )}
+              </ScrollView>
+
+              <TouchableOpacity style={styles.newCustomerButton} onPress={startCreating}>
+                <UserPlus size={16} color="#3B82F6" />
+                <Text style={styles.newCustomerText}>New Customer</Text>
+              </TouchableOpacity>
+            </>
+          )}
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  modalContent: {
+    backgroundColor: '#FFFFFF',
+    borderRadius: 16,
+    padding: 24,
+    width: '90%',
+    maxWidth: 480,
+    maxHeight: '90%',
+  },
+  modalHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 12,
+  },
+  modalTitle: {
+    flex: 1,
+    fontSize: 20,
+    fontWeight: '700',
+    color: '#111827',
+  },
+  closeButton: {
+    fontSize: 24,
+    color: '#6B7280',
+  },
+  form: {
+    flexGrow: 0,
+  },
+  label: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#374151',
+    marginBottom: 6,
+    marginTop: 12,
+  },
+  input: {
+    backgroundColor: '#F9FAFB',
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+    borderRadius: 8,
+    padding: 12,
+    fontSize: 16,
+    color: '#111827',
+  },
+  notesInput: {
+    minHeight: 72,
+    textAlignVertical: 'top',
+  },
+  searchBar: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    backgroundColor: '#F9FAFB',
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+    borderRadius: 8,
+    paddingHorizontal: 12,
+  },
+  searchInput: {
+    flex: 1,
+    paddingVertical: 10,
+    fontSize: 16,
+    color: '#111827',
+  },
+  results: {
+    flexGrow: 0,
+    marginTop: 8,
+  },
+  hint: {
+    fontSize: 12,
+    color: '#6B7280',
+  },
+  customerRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    paddingVertical: 10,
+    paddingHorizontal: 4,
+    borderBottomWidth: 1,
+    borderBottomColor: '#F3F4F6',
+  },
+  customerInfo: {
+    flex: 1,
+  },
+  customerName: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#111827',
+  },
+  pointsText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#10B981',
+  },
+  newCustomerButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 8,
+    padding: 12,
+    marginTop: 12,
+    borderRadius: 8,
+    backgroundColor: '#EFF6FF',
+  },
+  newCustomerText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#3B82F6',
+  },
+  modalActions: {
+    flexDirection: 'row',
+    gap: 12,
+    marginTop: 16,
+  },
+  cancelButton: {
+    flex: 1,
+    padding: 12,
+    borderRadius: 8,
+    backgroundColor: '#F3F4F6',
+    alignItems: 'center',
+  },
+  cancelButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#6B7280',
+  },
+  saveButton: {
+    flex: 1,
+    padding: 12,
+    borderRadius: 8,
+    backgroundColor: '#3B82F6',
+    alignItems: 'center',
+  },
+  saveButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#FFFFFF',
+  },
+});
@@ -0,0 +1,233 @@
+import { useState, useEffect } from 'react';
+import { View, Text, TextInput, TouchableOpacity, StyleSheet, Modal, Alert } from 'react-native';
+import {
+  Discount,
+  DiscountReason,
+  DiscountType,
+  DISCOUNT_REASON_LABELS,
+  isValidDiscount,
+} from '@/utils/discounts';
+
+type DiscountModalProps = {
+  visible: boolean;
+  title: string;
+  discount: Discount | null;
+  onApply: (discount: Discount | null) => void;
+  onClose: () => void;
+};
+
+export default function DiscountModal({ visible, title, discount, onApply, onClose }: DiscountModalProps) {
+  const [type, setType] = useState<DiscountType>('percent');
+  const [value, setValue] = useState('');
+  const [reason, setReason] = useState<DiscountReason | null>(null);
+
+  // Start from the discount being edited each time the modal opens
+  useEffect(() => {
+    if (visible) {
+      setType(discount?.type ?? 'percent');
+      setValue(discount ? discount.value.toString() : '');
+      setReason(discount?.reason ?? null);
+    }
+  }, [visible, discount]);
+
+  const handleApply = () => {
+    if (!reason) {
+      Alert.alert('Reason Required', 'Select a reason for the discount.');
+      return;
+    }
+
+    const next: Discount = { type, value: parseFloat(value), reason };
+    if (!isValidDiscount(next)) {
+      Alert.alert(
+        'Invalid Discount',
+        type === 'percent' ? 'Enter a percentage between 0 and 100.' : 'Enter an amount greater than zero.'
+      );
+      return;
+    }
+
+    onApply(next);
+  };
+
+  return (
+    <Modal visible={visible} transparent animationType="slide" onRequestClose={onClose}>
+      <View style={styles.modalOverlay}>
+        <View style={styles.modalContent}>
+          <Text style={styles.modalTitle}>{title}</Text>
+
+          <View style={styles.typeToggle}>
+            {(['percent', 'amount'] as const).map(option => (
+              <TouchableOpacity
+                key={option}
+                style={[styles.typeOption, type === option && styles.typeOptionActive]}
+                onPress={() => setType(option)}>
+                <Text style={[styles.typeOptionText, type === option && styles.typeOptionTextActive]}>
+                  {option === 'percent' ? 'Percent (%)' : 'Amount (₱)'}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+
+          <TextInput
+            style={styles.input}
+            value={value}
+            onChangeText={setValue}
+            placeholder={type === 'percent' ? 'e.g. 10' : 'e.g. 50.00'}
+            keyboardType="decimal-pad"
+          />
+
+          <Text style={styles.label}>Reason</Text>
+          <View style={styles.reasons}>
+            {(Object.keys(DISCOUNT_REASON_LABELS) as DiscountReason[]).map(code => (
+              <TouchableOpacity
+                key={code}
+                style={[styles.reasonChip, reason === code && styles.reasonChipActive]}
+                onPress={() => setReason(code)}>
+                <Text style={[styles.reasonChipText, reason === code && styles.reasonChipTextActive]}>
+                  {DISCOUNT_REASON_LABELS[code]}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+
+          <View style={styles.modalActions}>
+            {discount && (
+              <TouchableOpacity style={styles.removeButton} onPress={() => onApply(null)}>
+                <Text style={styles.removeButtonText}>Remove</Text>
+              </TouchableOpacity>
+            )}
+            <TouchableOpacity style={styles.cancelButton} onPress={onClose}>
+              <Text style={styles.cancelButtonText}>Cancel</Text>
+            </TouchableOpacity>
+            <TouchableOpacity style={styles.saveButton} onPress={handleApply}>
+              <Text style={styles.saveButtonText}>Apply</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  modalContent: {
+    backgroundColor: '#FFFFFF',
+    borderRadius: 16,
+    padding: 24,
+    width: '90%',
+    maxWidth: 400,
+    gap: 12,
+  },
+  modalTitle: {
+    fontSize: 20,
+    fontWeight: '700',
+    color: '#111827',
+    marginBottom: 12,
+  },
+  typeToggle: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  typeOption: {
+    flex: 1,
+    padding: 10,
+    borderRadius: 8,
+    backgroundColor: '#F3F4F6',
+    alignItems: 'center',
+  },
+  typeOptionActive: {
+    backgroundColor: '#3B82F6',
+  },
+  typeOptionText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#6B7280',
+  },
+  typeOptionTextActive: {
+    color: '#FFFFFF',
+  },
+  label: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#374151',
+  },
+  input: {
+    backgroundColor: '#F9FAFB',
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+    borderRadius: 8,
+    padding: 12,
+    fontSize: 16,
+    color: '#111827',
+  },
+  reasons: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  reasonChip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    backgroundColor: '#F3F4F6',
+  },
+  reasonChipActive: {
+    backgroundColor: '#EFF6FF',
+    borderWidth: 1,
+    borderColor: '#3B82F6',
+  },
+  reasonChipText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#6B7280',
+  },
+  reasonChipTextActive: {
+    color: '#3B82F6',
+  },
+  modalActions: {
+    flexDirection: 'row',
+    gap: 12,
+    marginTop: 8,
+  },
+  removeButton: {
+    flex: 1,
+    padding: 12,
+    borderRadius: 8,
+    backgroundColor: '#FEE2E2',
+    alignItems: 'center',
+  },
+  removeButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#EF4444',
+  },
+  cancelButton: {
+    flex: 1,
+    padding: 12,
+    borderRadius: 8,
+    backgroundColor: '#F3F4F6',
+    alignItems: 'center',
+  },
+  cancelButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#6B7280',
+  },
+  saveButton: {
+    flex: 1,
+    padding: 12,
+    borderRadius: 8,
+    backgroundColor: '#3B82F6',
+    alignItems: 'center',
+  },
+  saveButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#FFFFFF',
+  },
+});
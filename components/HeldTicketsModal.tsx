@@ -0,0 +1,335 @@
+import { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  StyleSheet,
+  Modal,
+  Alert,
+  ScrollView,
+  Switch,
+  ActivityIndicator,
+} from 'react-native';
+import { useCart } from '@/contexts/CartContext';
+import { useSalesQueue } from '@/contexts/SalesQueueContext';
+import { fetchSharedTickets } from '@/services/tickets.service';
+import { formatPrice } from '@/utils/currency';
+import { getDefaultTicketName, getTicketCount, getTicketSubtotal, HeldTicket } from '@/utils/tickets';
+
+type HeldTicketsModalProps = {
+  visible: boolean;
+  onClose: () => void;
+  // Called once a ticket is in the cart
+  onRecalled?: () => void;
+};
+
+const formatHeldAt = (dateString: string) =>
+  new Date(dateString).toLocaleString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+
+export default function HeldTicketsModal({ visible, onClose, onRecalled }: HeldTicketsModalProps) {
+  const { cart, ticketName, heldTickets, holdCart, recallTicket, discardTicket } = useCart();
+  const { isOnline } = useSalesQueue();
+  const [name, setName] = useState('');
+  const [share, setShare] = useState(false);
+  const [sharedTickets, setSharedTickets] = useState<HeldTicket[]>([]);
+  const [loadingShared, setLoadingShared] = useState(false);
+  const [busy, setBusy] = useState(false);
+
+  const loadSharedTickets = async () => {
+    setLoadingShared(true);
+    const result = await fetchSharedTickets();
+    if (result.error) {
+      console.error('Error loading shared tickets:', result.error);
+    }
+    setSharedTickets(result.data ?? []);
+    setLoadingShared(false);
+  };
+
+  useEffect(() => {
+    if (visible) {
+      setName('');
+      setShare(false);
+      if (isOnline) {
+        loadSharedTickets();
+      } else {
+        setSharedTickets([]);
+      }
+    }
+  }, [visible, isOnline]);
+
+  const defaultName = ticketName || getDefaultTicketName([...heldTickets, ...sharedTickets]);
+
+  const handleHold = async () => {
+    setBusy(true);
+    try {
+      const result = await holdCart(name.trim() || defaultName, share && isOnline);
+      if (!result.ticket) {
+        Alert.alert('Error', result.error || 'Failed to hold the ticket');
+        return;
+      }
+      if (result.error) {
+        Alert.alert('Held on This Device', `${result.ticket.name} could not be shared with other devices: ${result.error}`);
+      }
+      onClose();
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleRecall = async (ticket: HeldTicket) => {
+    setBusy(true);
+    try {
+      const result = await recallTicket(ticket);
+      if (!result.ticket) {
+        Alert.alert('Cannot Recall Ticket', result.error || 'Failed to recall the ticket');
+        if (ticket.shared) loadSharedTickets();
+        return;
+      }
+
+      // Anything that changed while the ticket was held needs the cashier's attention
+      const notes = [
+        result.removed.length > 0 ? `No longer sold: ${result.removed.join(', ')}` : null,
+        result.repriced.length > 0 ? `New price: ${result.repriced.join(', ')}` : null,
+        ...result.stockErrors.map(error =>
+          `${error.productName}: Requested ${error.requestedQty}, Available ${error.availableStock}`
+        ),
+      ].filter(Boolean);
+      if (notes.length > 0) {
+        Alert.alert('Ticket Updated', `${result.ticket.name} has changed since it was held:\n\n${notes.join('\n')}`);
+      }
+
+      onClose();
+      onRecalled?.();
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleDiscard = (ticket: HeldTicket) => {
+    Alert.alert('Discard Ticket', `Discard ${ticket.name}? Its items will be removed.`, [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Discard',
+        style: 'destructive',
+        onPress: async () => {
+          setBusy(true);
+          const error = await discardTicket(ticket);
+          setBusy(false);
+          if (error) {
+            Alert.alert('Error', error);
+          }
+          if (ticket.shared) loadSharedTickets();
+        },
+      },
+    ]);
+  };
+
+  const renderTicket = (ticket: HeldTicket) => (
+    <View key={ticket.id} style={styles.ticketRow}>
+      <View style={styles.ticketInfo}>
+        <Text style={styles.ticketName}>{ticket.name}</Text>
+        <Text style={styles.hint}>
+          {getTicketCount(ticket)} items · {formatPrice(getTicketSubtotal(ticket))} · {formatHeldAt(ticket.heldAt)}
+          {ticket.customer && ` · ${ticket.customer.name}`}
+        </Text>
+      </View>
+      <TouchableOpacity style={styles.discardButton} onPress={() => handleDiscard(ticket)} disabled={busy}>
+        <Text style={styles.discardButtonText}>Discard</Text>
+      </TouchableOpacity>
+      <TouchableOpacity style={styles.recallButton} onPress={() => handleRecall(ticket)} disabled={busy}>
+        <Text style={styles.recallButtonText}>Recall</Text>
+      </TouchableOpacity>
+    </View>
+  );
+
+  return (
+    <Modal visible={visible} transparent animationType="slide" onRequestClose={onClose}>
+      <View style={styles.modalOverlay}>
+        <View style={styles.modalContent}>
+          <View style={styles.modalHeader}>
+            <Text style={styles.modalTitle}>Held Tickets</Text>
+            <TouchableOpacity onPress={onClose}>
+              <Text style={styles.closeButton}>✕</Text>
+            </TouchableOpacity>
+          </View>
+
+          {cart.length > 0 && (
+            <View style={styles.holdSection}>
+              <Text style={styles.label}>Hold the current cart</Text>
+              <TextInput
+                style={styles.input}
+                value={name}
+                onChangeText={setName}
+                placeholder={defaultName}
+              />
+              {isOnline && (
+                <View style={styles.switchRow}>
+                  <Text style={styles.switchLabel}>Recall from other devices</Text>
+                  <Switch value={share} onValueChange={setShare} />
+                </View>
+              )}
+              <TouchableOpacity style={styles.holdButton} onPress={handleHold} disabled={busy}>
+                {busy ? <ActivityIndicator color="#FFFFFF" /> : <Text style={styles.holdButtonText}>Hold</Text>}
+              </TouchableOpacity>
+            </View>
+          )}
+
+          <ScrollView style={styles.list}>
+            <Text style={styles.sectionTitle}>On this device</Text>
+            {heldTickets.length === 0 ? (
+              <Text style={styles.hint}>No tickets held on this device.</Text>
+            ) : (
+              heldTickets.map(renderTicket)
+            )}
+
+            <Text style={styles.sectionTitle}>Other devices</Text>
+            {!isOnline ? (
+              <Text style={styles.hint}>Connect to see tickets held on other devices.</Text>
+            ) : loadingShared ? (
+              <ActivityIndicator color="#3B82F6" />
+            ) : sharedTickets.length === 0 ? (
+              <Text style={styles.hint}>No shared tickets.</Text>
+            ) : (
+              sharedTickets.map(renderTicket)
+            )}
+          </ScrollView>
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  modalContent: {
+    backgroundColor: '#FFFFFF',
+    borderRadius: 16,
+    padding: 24,
+    width: '90%',
+    maxWidth: 480,
+    maxHeight: '90%',
+  },
+  modalHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 12,
+  },
+  modalTitle: {
+    flex: 1,
+    fontSize: 20,
+    fontWeight: '700',
+    color: '#111827',
+  },
+  closeButton: {
+    fontSize: 24,
+    color: '#6B7280',
+  },
+  holdSection: {
+    paddingBottom: 16,
+    marginBottom: 8,
+    borderBottomWidth: 1,
+    borderBottomColor: '#E5E7EB',
+  },
+  label: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#374151',
+    marginBottom: 6,
+  },
+  input: {
+    backgroundColor: '#F9FAFB',
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+    borderRadius: 8,
+    padding: 12,
+    fontSize: 16,
+    color: '#111827',
+  },
+  switchRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginTop: 8,
+  },
+  switchLabel: {
+    fontSize: 14,
+    color: '#374151',
+  },
+  holdButton: {
+    padding: 12,
+    marginTop: 12,
+    borderRadius: 8,
+    backgroundColor: '#3B82F6',
+    alignItems: 'center',
+  },
+  holdButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#FFFFFF',
+  },
+  list: {
+    flexGrow: 0,
+  },
+  sectionTitle: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#6B7280',
+    marginTop: 12,
+    marginBottom: 4,
+  },
+  hint: {
+    fontSize: 12,
+    color: '#6B7280',
+  },
+  ticketRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    paddingVertical: 10,
+    paddingHorizontal: 4,
+    borderBottomWidth: 1,
+    borderBottomColor: '#F3F4F6',
+  },
+  ticketInfo: {
+    flex: 1,
+  },
+  ticketName: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#111827',
+  },
+  discardButton: {
+    paddingVertical: 6,
+    paddingHorizontal: 10,
+    borderRadius: 6,
+    backgroundColor: '#F3F4F6',
+  },
+  discardButtonText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#EF4444',
+  },
+  recallButton: {
+    paddingVertical: 6,
+    paddingHorizontal: 10,
+    borderRadius: 6,
+    backgroundColor: '#EFF6FF',
+  },
+  recallButtonText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#3B82F6',
+  },
+});
@@ -0,0 +1,216 @@
+import { useState, useEffect } from 'react';
+import { View, Text, TouchableOpacity, StyleSheet, Modal, ScrollView } from 'react-native';
+import { Check } from 'lucide-react-native';
+import { formatPrice } from '@/utils/currency';
+import {
+  describeSelectionRule,
+  formatPriceDelta,
+  getActiveModifiers,
+  getModifiersTotal,
+  ModifierGroup,
+  SelectedModifier,
+  toggleModifier,
+  toSelectedModifiers,
+  validateModifierSelection,
+} from '@/utils/modifiers';
+
+type ModifierPickerModalProps = {
+  visible: boolean;
+  productName: string;
+  price: number;
+  // The groups that apply to the product, see getProductModifierGroups
+  groups: ModifierGroup[];
+  onConfirm: (modifiers: SelectedModifier[]) => void;
+  onClose: () => void;
+};
+
+export default function ModifierPickerModal({
+  visible,
+  productName,
+  price,
+  groups,
+  onConfirm,
+  onClose,
+}: ModifierPickerModalProps) {
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+
+  useEffect(() => {
+    if (visible) {
+      setSelectedIds([]);
+    }
+  }, [visible]);
+
+  const selected = toSelectedModifiers(groups, selectedIds);
+  const validationError = validateModifierSelection(groups, selectedIds);
+
+  return (
+    <Modal visible={visible} transparent animationType="slide" onRequestClose={onClose}>
+      <View style={styles.modalOverlay}>
+        <View style={styles.modalContent}>
+          <View style={styles.modalHeader}>
+            <Text style={styles.modalTitle}>{productName}</Text>
+            <TouchableOpacity onPress={onClose}>
+              <Text style={styles.closeButton}>✕</Text>
+            </TouchableOpacity>
+          </View>
+
+          <ScrollView style={styles.list}>
+            {groups.map(group => (
+              <View key={group.id} style={styles.group}>
+                <View style={styles.groupHeader}>
+                  <Text style={styles.groupName}>{group.name}</Text>
+                  <Text style={[styles.groupRule, group.min_select > 0 && styles.groupRuleRequired]}>
+                    {describeSelectionRule(group)}
+                  </Text>
+                </View>
+                {getActiveModifiers(group).map(modifier => {
+                  const isSelected = selectedIds.includes(modifier.id);
+                  return (
+                    <TouchableOpacity
+                      key={modifier.id}
+                      style={[styles.option, isSelected && styles.optionSelected]}
+                      onPress={() => setSelectedIds(toggleModifier(group, selectedIds, modifier.id))}>
+                      <View style={[styles.checkbox, isSelected && styles.checkboxSelected]}>
+                        {isSelected && <Check size={14} color="#FFFFFF" />}
+                      </View>
+                      <Text style={styles.optionName}>{modifier.name}</Text>
+                      {modifier.price_delta !== 0 && (
+                        <Text style={styles.optionPrice}>{formatPriceDelta(modifier.price_delta)}</Text>
+                      )}
+                    </TouchableOpacity>
+                  );
+                })}
+              </View>
+            ))}
+          </ScrollView>
+
+          {validationError && <Text style={styles.validationText}>{validationError}</Text>}
+
+          <TouchableOpacity
+            style={[styles.addButton, validationError !== null && styles.addButtonDisabled]}
+            onPress={() => onConfirm(selected)}
+            disabled={validationError !== null}>
+            <Text style={styles.addButtonText}>
+              Add to Cart · {formatPrice(price + getModifiersTotal(selected))}
+            </Text>
+          </TouchableOpacity>
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  modalContent: {
+    backgroundColor: '#FFFFFF',
+    borderRadius: 16,
+    padding: 24,
+    width: '90%',
+    maxWidth: 400,
+    maxHeight: '90%',
+  },
+  modalHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 12,
+  },
+  modalTitle: {
+    flex: 1,
+    fontSize: 20,
+    fontWeight: '700',
+    color: '#111827',
+  },
+  closeButton: {
+    fontSize: 24,
+    color: '#6B7280',
+  },
+  list: {
+    flexGrow: 0,
+  },
+  group: {
+    marginBottom: 16,
+  },
+  groupHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+  groupName: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#111827',
+  },
+  groupRule: {
+    fontSize: 12,
+    color: '#6B7280',
+  },
+  groupRuleRequired: {
+    color: '#F59E0B',
+    fontWeight: '600',
+  },
+  option: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+    borderRadius: 8,
+    padding: 12,
+    marginBottom: 6,
+    gap: 10,
+  },
+  optionSelected: {
+    borderColor: '#3B82F6',
+    backgroundColor: '#EFF6FF',
+  },
+  checkbox: {
+    width: 20,
+    height: 20,
+    borderRadius: 4,
+    borderWidth: 2,
+    borderColor: '#E5E7EB',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  checkboxSelected: {
+    backgroundColor: '#3B82F6',
+    borderColor: '#3B82F6',
+  },
+  optionName: {
+    flex: 1,
+    fontSize: 15,
+    color: '#111827',
+  },
+  optionPrice: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#3B82F6',
+  },
+  validationText: {
+    fontSize: 12,
+    color: '#6B7280',
+    marginTop: 8,
+  },
+  addButton: {
+    padding: 14,
+    borderRadius: 8,
+    backgroundColor: '#3B82F6',
+    alignItems: 'center',
+    marginTop: 12,
+  },
+  addButtonDisabled: {
+    backgroundColor: '#E5E7EB',
+  },
+  addButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#FFFFFF',
+  },
+});
@@ -0,0 +1,333 @@
+import { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  StyleSheet,
+  Modal,
+  ScrollView,
+  Alert,
+  ActivityIndicator,
+} from 'react-native';
+import { Download } from 'lucide-react-native';
+import { fetchOrdersForExport } from '@/services/orders.service';
+import { fetchJournalAccounts, updateJournalAccounts } from '@/services/store.service';
+import { shareCsv } from '@/lib/files';
+import { getReportRange, REPORT_RANGE_LABELS, ReportRangePreset } from '@/utils/reports';
+import {
+  buildDailyJournal,
+  DEFAULT_JOURNAL_ACCOUNTS,
+  getOrderExportFilename,
+  JOURNAL_ACCOUNT_KEYS,
+  JOURNAL_ACCOUNT_LABELS,
+  JournalAccountKey,
+  JournalAccounts,
+  journalToCsv,
+  ORDER_EXPORT_LABELS,
+  OrderExportKind,
+  orderLinesToCsv,
+  ordersToCsv,
+  parseJournalAccounts,
+} from '@/utils/orderExport';
+
+type OrderExportModalProps = {
+  visible: boolean;
+  onClose: () => void;
+};
+
+export default function OrderExportModal({ visible, onClose }: OrderExportModalProps) {
+  const [preset, setPreset] = useState<ReportRangePreset>('yesterday');
+  const [exporting, setExporting] = useState<OrderExportKind | null>(null);
+  const [accounts, setAccounts] = useState<JournalAccounts>(DEFAULT_JOURNAL_ACCOUNTS);
+  const [savingAccounts, setSavingAccounts] = useState(false);
+
+  useEffect(() => {
+    if (!visible) return;
+
+    const loadAccounts = async () => {
+      const result = await fetchJournalAccounts();
+      if (result.error || !result.data) {
+        console.error('Error loading journal accounts:', result.error);
+        return;
+      }
+      setAccounts(result.data);
+    };
+    loadAccounts();
+  }, [visible]);
+
+  const updateAccount = (key: JournalAccountKey, field: 'code' | 'name', value: string) => {
+    setAccounts(current => ({ ...current, [key]: { ...current[key], [field]: value } }));
+  };
+
+  const handleExport = async (kind: OrderExportKind) => {
+    setExporting(kind);
+    try {
+      const range = getReportRange(preset);
+      const result = await fetchOrdersForExport(range);
+      if (result.error || !result.data) throw new Error(result.error || 'Failed to load orders');
+
+      const csv =
+        kind === 'orders'
+          ? ordersToCsv(result.data, range)
+          : kind === 'lines'
+            ? orderLinesToCsv(result.data, range)
+            : journalToCsv(buildDailyJournal(result.data, range), parseJournalAccounts(accounts));
+      await shareCsv(getOrderExportFilename(kind, range), csv);
+    } catch (error: any) {
+      console.error('Error exporting orders:', error);
+      Alert.alert('Export Failed', error.message || 'Unable to export the orders.');
+    } finally {
+      setExporting(null);
+    }
+  };
+
+  const handleSaveAccounts = async () => {
+    setSavingAccounts(true);
+    try {
+      const cleaned = parseJournalAccounts(accounts);
+      const result = await updateJournalAccounts(cleaned);
+      if (result.error) throw new Error(result.error);
+
+      setAccounts(cleaned);
+      Alert.alert('Saved', 'Journal accounts updated.');
+    } catch (error: any) {
+      console.error('Error saving journal accounts:', error);
+      Alert.alert('Error', error.message || 'Failed to save journal accounts');
+    } finally {
+      setSavingAccounts(false);
+    }
+  };
+
+  return (
+    <Modal visible={visible} transparent animationType="slide" onRequestClose={onClose}>
+      <View style={styles.modalOverlay}>
+        <View style={styles.modalContent}>
+          <View style={styles.modalHeader}>
+            <Text style={styles.modalTitle}>Export Orders</Text>
+            <TouchableOpacity onPress={onClose}>
+              <Text style={styles.closeButton}>✕</Text>
+            </TouchableOpacity>
+          </View>
+
+          <ScrollView>
+            <Text style={styles.label}>Date Range</Text>
+            <View style={styles.chips}>
+              {(Object.keys(REPORT_RANGE_LABELS) as ReportRangePreset[]).map(option => (
+                <TouchableOpacity
+                  key={option}
+                  style={[styles.chip, preset === option && styles.chipActive]}
+                  onPress={() => setPreset(option)}>
+                  <Text style={[styles.chipText, preset === option && styles.chipTextActive]}>
+                    {REPORT_RANGE_LABELS[option]}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+
+            <View style={styles.exportButtons}>
+              {(Object.keys(ORDER_EXPORT_LABELS) as OrderExportKind[]).map(kind => (
+                <TouchableOpacity
+                  key={kind}
+                  style={styles.exportButton}
+                  onPress={() => handleExport(kind)}
+                  disabled={exporting !== null}>
+                  {exporting === kind ? (
+                    <ActivityIndicator color="#3B82F6" />
+                  ) : (
+                    <>
+                      <Download size={18} color="#3B82F6" />
+                      <Text style={styles.exportButtonText}>{ORDER_EXPORT_LABELS[kind]}</Text>
+                    </>
+                  )}
+                </TouchableOpacity>
+              ))}
+            </View>
+            <Text style={styles.hint}>
+              The daily journal posts each day's takings by payment method against sales and output VAT, and
+              refunds the other way round, to the accounts below.
+            </Text>
+
+            <Text style={styles.label}>Journal Accounts</Text>
+            {JOURNAL_ACCOUNT_KEYS.map(key => (
+              <View key={key} style={styles.accountRow}>
+                <Text style={styles.accountLabel}>{JOURNAL_ACCOUNT_LABELS[key]}</Text>
+                <View style={styles.accountInputs}>
+                  <TextInput
+                    style={[styles.input, styles.codeInput]}
+                    value={accounts[key].code}
+                    onChangeText={value => updateAccount(key, 'code', value)}
+                    placeholder={DEFAULT_JOURNAL_ACCOUNTS[key].code}
+                    autoCapitalize="none"
+                  />
+                  <TextInput
+                    style={[styles.input, styles.nameInput]}
+                    value={accounts[key].name}
+                    onChangeText={value => updateAccount(key, 'name', value)}
+                    placeholder={DEFAULT_JOURNAL_ACCOUNTS[key].name}
+                  />
+                </View>
+              </View>
+            ))}
+          </ScrollView>
+
+          <View style={styles.modalActions}>
+            <TouchableOpacity style={styles.cancelButton} onPress={onClose}>
+              <Text style={styles.cancelButtonText}>Close</Text>
+            </TouchableOpacity>
+            <TouchableOpacity style={styles.saveButton} onPress={handleSaveAccounts} disabled={savingAccounts}>
+              {savingAccounts ? (
+                <ActivityIndicator color="#FFFFFF" />
+              ) : (
+                <Text style={styles.saveButtonText}>Save Accounts</Text>
+              )}
+            </TouchableOpacity>
+          </View>
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  modalContent: {
+    backgroundColor: '#FFFFFF',
+    borderRadius: 16,
+    padding: 24,
+    width: '90%',
+    maxWidth: 480,
+    maxHeight: '90%',
+  },
+  modalHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 4,
+  },
+  modalTitle: {
+    fontSize: 20,
+    fontWeight: '700',
+    color: '#111827',
+  },
+  closeButton: {
+    fontSize: 24,
+    color: '#6B7280',
+  },
+  label: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#374151',
+    marginBottom: 8,
+    marginTop: 12,
+  },
+  chips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  chip: {
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 16,
+    backgroundColor: '#F3F4F6',
+  },
+  chipActive: {
+    backgroundColor: '#3B82F6',
+  },
+  chipText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#6B7280',
+  },
+  chipTextActive: {
+    color: '#FFFFFF',
+  },
+  exportButtons: {
+    flexDirection: 'row',
+    gap: 8,
+    marginTop: 16,
+  },
+  exportButton: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 6,
+    padding: 12,
+    borderRadius: 8,
+    backgroundColor: '#EFF6FF',
+    minHeight: 44,
+  },
+  exportButtonText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#3B82F6',
+  },
+  hint: {
+    fontSize: 13,
+    color: '#6B7280',
+    marginTop: 8,
+  },
+  accountRow: {
+    marginBottom: 10,
+  },
+  accountLabel: {
+    fontSize: 13,
+    color: '#6B7280',
+    marginBottom: 4,
+  },
+  accountInputs: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  input: {
+    backgroundColor: '#F9FAFB',
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+    borderRadius: 8,
+    padding: 10,
+    fontSize: 15,
+    color: '#111827',
+  },
+  codeInput: {
+    width: 90,
+  },
+  nameInput: {
+    flex: 1,
+  },
+  modalActions: {
+    flexDirection: 'row',
+    gap: 12,
+    marginTop: 20,
+  },
+  cancelButton: {
+    flex: 1,
+    padding: 12,
+    borderRadius: 8,
+    backgroundColor: '#F3F4F6',
+    alignItems: 'center',
+  },
+  cancelButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#6B7280',
+  },
+  saveButton: {
+    flex: 1,
+    padding: 12,
+    borderRadius: 8,
+    backgroundColor: '#3B82F6',
+    alignItems: 'center',
+  },
+  saveButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#FFFFFF',
+  },
+});
@@ -0,0 +1,444 @@
+import { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  StyleSheet,
+  Modal,
+  Alert,
+  ScrollView,
+  ActivityIndicator,
+} from 'react-native';
+import { Banknote, CreditCard, Smartphone, Star, X } from 'lucide-react-native';
+import { formatPrice } from '@/utils/currency';
+import { PaymentMethod, PAYMENT_METHOD_LABELS, summarizeTenders, Tender } from '@/utils/payments';
+import {
+  formatPoints,
+  getMaxPointsAmount,
+  getPointsForAmount,
+  getPointsValue,
+  LoyaltySettings,
+} from '@/utils/loyalty';
+
+type PaymentModalProps = {
+  visible: boolean;
+  total: number;
+  processing?: boolean;
+  // The attached customer's balance; points are only offered when given
+  loyalty?: { points: number; settings: LoyaltySettings } | null;
+  onComplete: (tenders: Tender[]) => void;
+  onClose: () => void;
+};
+
+const QUICK_CASH_AMOUNTS = [100, 200, 500, 1000];
+
+const METHOD_ICONS: Record<PaymentMethod, (color: string) => React.ReactNode> = {
+  cash: color => <Banknote size={18} color={color} />,
+  card: color => <CreditCard size={18} color={color} />,
+  mobile: color => <Smartphone size={18} color={color} />,
+  points: color => <Star size={18} color={color} />,
+};
+
+export default function PaymentModal({
+  visible,
+  total,
+  processing = false,
+  loyalty = null,
+  onComplete,
+  onClose,
+}: PaymentModalProps) {
+  const [tenders, setTenders] = useState<Tender[]>([]);
+  const [method, setMethod] = useState<PaymentMethod>('cash');
+  const [amountText, setAmountText] = useState('');
+  const [reference, setReference] = useState('');
+
+  useEffect(() => {
+    if (visible) {
+      setTenders([]);
+      setMethod('cash');
+      setAmountText('');
+      setReference('');
+    }
+  }, [visible]);
+
+  // Whatever is typed in but not yet added still counts, so a single
+  // payment only needs the amount and Complete Sale
+  const enteredAmount = parseFloat(amountText);
+  const pendingTender: Tender | null = enteredAmount > 0
+    ? { method, amount: enteredAmount, reference: reference.trim() || null }
+    : null;
+  const allTenders = pendingTender ? [...tenders, pendingTender] : tenders;
+  const summary = summarizeTenders(allTenders, total);
+  const addedSummary = summarizeTenders(tenders, total);
+  const methods = (Object.keys(PAYMENT_METHOD_LABELS) as PaymentMethod[]).filter(
+    option => option !== 'points' || loyalty !== null
+  );
+
+  const pointsAmount = (list: Tender[]) =>
+    list.filter(t => t.method === 'points').reduce((sum, t) => sum + t.amount, 0);
+  const pointsLeft = loyalty
+    ? loyalty.points - (getPointsForAmount(pointsAmount(tenders), loyalty.settings) ?? 0)
+    : 0;
+
+  // Points tenders pay for whole points the customer has
+  const getPointsError = (list: Tender[]) => {
+    if (!loyalty || !list.some(t => t.method === 'points')) return null;
+    const points = getPointsForAmount(pointsAmount(list), loyalty.settings);
+    if (points === null) {
+      return `Points pay in steps of ${formatPrice(loyalty.settings.pointValue)}.`;
+    }
+    if (points > loyalty.points) {
+      return `The customer has ${formatPoints(loyalty.points)} (${formatPrice(getPointsValue(loyalty.points, loyalty.settings))}).`;
+    }
+    return null;
+  };
+
+  const handleExact = () => {
+    const amount = method === 'points' && loyalty
+      ? getMaxPointsAmount(pointsLeft, addedSummary.remaining, loyalty.settings)
+      : addedSummary.remaining;
+    setAmountText(amount.toFixed(2));
+  };
+
+  const handleAddTender = () => {
+    if (!pendingTender) {
+      Alert.alert('Invalid Amount', 'Enter an amount greater than zero.');
+      return;
+    }
+    if (method !== 'cash' && pendingTender.amount > addedSummary.remaining) {
+      Alert.alert('Invalid Amount', 'Card and GCash payments cannot be more than the amount remaining.');
+      return;
+    }
+    const pointsError = getPointsError([...tenders, pendingTender]);
+    if (pointsError) {
+      Alert.alert('Invalid Amount', pointsError);
+      return;
+    }
+    setTenders([...tenders, pendingTender]);
+    setAmountText('');
+    setReference('');
+  };
+
+  const handleComplete = () => {
+    if (summary.nonCashExceedsTotal) {
+      Alert.alert('Invalid Amount', 'Card and GCash payments cannot be more than the total.');
+      return;
+    }
+    if (total > 0 && !summary.isCovered) {
+      Alert.alert('Payment Incomplete', `${formatPrice(summary.remaining)} is still due.`);
+      return;
+    }
+    const pointsError = getPointsError(allTenders);
+    if (pointsError) {
+      Alert.alert('Invalid Amount', pointsError);
+      return;
+    }
+    onComplete(allTenders);
+  };
+
+  return (
+    <Modal visible={visible} transparent animationType="slide" onRequestClose={onClose}>
+      <View style={styles.modalOverlay}>
+        <View style={styles.modalContent}>
+          <Text style={styles.modalTitle}>Payment</Text>
+          <Text style={styles.modalAmount}>{formatPrice(total)}</Text>
+
+          <ScrollView style={styles.tenderList}>
+            {tenders.map((tender, index) => (
+              <View key={index} style={styles.tenderRow}>
+                {METHOD_ICONS[tender.method]('#6B7280')}
+                <Text style={styles.tenderLabel}>
+                  {PAYMENT_METHOD_LABELS[tender.method]}
+                  {tender.reference ? ` · ${tender.reference}` : ''}
+                </Text>
+                <Text style={styles.tenderAmount}>{formatPrice(tender.amount)}</Text>
+                <TouchableOpacity onPress={() => setTenders(tenders.filter((_, i) => i !== index))}>
+                  <X size={18} color="#EF4444" />
+                </TouchableOpacity>
+              </View>
+            ))}
+          </ScrollView>
+
+          <View style={styles.methodRow}>
+            {methods.map(option => (
+              <TouchableOpacity
+                key={option}
+                style={[styles.methodOption, method === option && styles.methodOptionActive]}
+                onPress={() => setMethod(option)}>
+                {METHOD_ICONS[option](method === option ? '#FFFFFF' : '#6B7280')}
+                <Text style={[styles.methodOptionText, method === option && styles.methodOptionTextActive]}>
+                  {PAYMENT_METHOD_LABELS[option]}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+
+          <View style={styles.amountRow}>
+            <TextInput
+              style={[styles.input, styles.amountInput]}
+              value={amountText}
+              onChangeText={setAmountText}
+              placeholder={method === 'cash' ? 'Amount tendered' : 'Amount'}
+              keyboardType="decimal-pad"
+            />
+            <TouchableOpacity style={styles.exactButton} onPress={handleExact}>
+              <Text style={styles.exactButtonText}>Exact</Text>
+            </TouchableOpacity>
+          </View>
+
+          {method === 'cash' ? (
+            <View style={styles.quickCashRow}>
+              {QUICK_CASH_AMOUNTS.map(amount => (
+                <TouchableOpacity
+                  key={amount}
+                  style={styles.quickCashButton}
+                  onPress={() => setAmountText(amount.toString())}>
+                  <Text style={styles.quickCashText}>{formatPrice(amount)}</Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+          ) : method === 'points' && loyalty ? (
+            <Text style={styles.pointsHint}>
+              {formatPoints(pointsLeft)} available ({formatPrice(getPointsValue(pointsLeft, loyalty.settings))})
+            </Text>
+          ) : (
+            <TextInput
+              style={styles.input}
+              value={reference}
+              onChangeText={setReference}
+              placeholder="Reference no. (optional)"
+              autoCapitalize="characters"
+            />
+          )}
+
+          <TouchableOpacity style={styles.addTenderButton} onPress={handleAddTender}>
+            <Text style={styles.addTenderText}>Add Another Payment</Text>
+          </TouchableOpacity>
+
+          <View style={styles.summaryRow}>
+            <Text style={styles.summaryLabel}>Paid</Text>
+            <Text style={styles.summaryValue}>{formatPrice(summary.tendered)}</Text>
+          </View>
+          {summary.changeDue > 0 ? (
+            <View style={styles.summaryRow}>
+              <Text style={styles.changeLabel}>Change Due</Text>
+              <Text style={styles.changeValue}>{formatPrice(summary.changeDue)}</Text>
+            </View>
+          ) : (
+            <View style={styles.summaryRow}>
+              <Text style={styles.summaryLabel}>Remaining</Text>
+              <Text style={[styles.summaryValue, summary.remaining > 0 && styles.remainingValue]}>
+                {formatPrice(summary.remaining)}
+              </Text>
+            </View>
+          )}
+
+          <View style={styles.modalActions}>
+            <TouchableOpacity style={styles.cancelButton} onPress={onClose} disabled={processing}>
+              <Text style={styles.cancelButtonText}>Cancel</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={[styles.completeButton, !(summary.isCovered || total === 0) && styles.completeButtonDisabled]}
+              onPress={handleComplete}
+              disabled={processing}>
+              {processing ? (
+                <ActivityIndicator color="#FFFFFF" />
+              ) : (
+                <Text style={styles.completeButtonText}>Complete Sale</Text>
+              )}
+            </TouchableOpacity>
+          </View>
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  modalContent: {
+    backgroundColor: '#FFFFFF',
+    borderRadius: 16,
+    padding: 24,
+    width: '90%',
+    maxWidth: 420,
+    gap: 12,
+  },
+  modalTitle: {
+    fontSize: 20,
+    fontWeight: '700',
+    color: '#111827',
+  },
+  modalAmount: {
+    fontSize: 32,
+    fontWeight: '700',
+    color: '#3B82F6',
+  },
+  tenderList: {
+    maxHeight: 140,
+  },
+  tenderRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    paddingVertical: 8,
+    borderBottomWidth: 1,
+    borderBottomColor: '#F3F4F6',
+  },
+  tenderLabel: {
+    flex: 1,
+    fontSize: 14,
+    color: '#111827',
+  },
+  tenderAmount: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#111827',
+  },
+  methodRow: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  methodOption: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 6,
+    padding: 10,
+    borderRadius: 8,
+    backgroundColor: '#F3F4F6',
+  },
+  methodOptionActive: {
+    backgroundColor: '#3B82F6',
+  },
+  methodOptionText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#6B7280',
+  },
+  methodOptionTextActive: {
+    color: '#FFFFFF',
+  },
+  amountRow: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  input: {
+    backgroundColor: '#F9FAFB',
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+    borderRadius: 8,
+    padding: 12,
+    fontSize: 16,
+    color: '#111827',
+  },
+  amountInput: {
+    flex: 1,
+  },
+  exactButton: {
+    paddingHorizontal: 16,
+    borderRadius: 8,
+    backgroundColor: '#EFF6FF',
+    justifyContent: 'center',
+  },
+  exactButtonText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#3B82F6',
+  },
+  pointsHint: {
+    fontSize: 14,
+    color: '#6B7280',
+  },
+  quickCashRow: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  quickCashButton: {
+    flex: 1,
+    paddingVertical: 8,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+    alignItems: 'center',
+  },
+  quickCashText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#111827',
+  },
+  addTenderButton: {
+    alignItems: 'center',
+    paddingVertical: 4,
+  },
+  addTenderText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#3B82F6',
+  },
+  summaryRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+  },
+  summaryLabel: {
+    fontSize: 14,
+    color: '#6B7280',
+  },
+  summaryValue: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#111827',
+  },
+  remainingValue: {
+    color: '#EF4444',
+  },
+  changeLabel: {
+    fontSize: 18,
+    fontWeight: '700',
+    color: '#111827',
+  },
+  changeValue: {
+    fontSize: 18,
+    fontWeight: '700',
+    color: '#10B981',
+  },
+  modalActions: {
+    flexDirection: 'row',
+    gap: 12,
+    marginTop: 8,
+  },
+  cancelButton: {
+    flex: 1,
+    padding: 12,
+    borderRadius: 8,
+    backgroundColor: '#F3F4F6',
+    alignItems: 'center',
+  },
+  cancelButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#6B7280',
+  },
+  completeButton: {
+    flex: 1,
+    padding: 12,
+    borderRadius: 8,
+    backgroundColor: '#10B981',
+    alignItems: 'center',
+  },
+  completeButtonDisabled: {
+    opacity: 0.5,
+  },
+  completeButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#FFFFFF',
+  },
+});
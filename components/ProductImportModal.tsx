@@ -0,0 +1,407 @@
+import { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  StyleSheet,
+  Modal,
+  ScrollView,
+  Alert,
+  ActivityIndicator,
+  Platform,
+} from 'react-native';
+import { FileUp } from 'lucide-react-native';
+import { createCategory, createProduct, updateProduct } from '@/services/products.service';
+import { pickTextFile } from '@/lib/files';
+import {
+  CsvCategory,
+  CsvProduct,
+  getProductImportPayload,
+  planProductImport,
+  PRODUCT_CSV_HEADERS,
+  PRODUCT_IMPORT_ACTION_LABELS,
+  PRODUCT_IMPORT_BATCH_SIZE,
+  ProductImportAction,
+  ProductImportPlan,
+  ProductImportRow,
+} from '@/utils/productCsv';
+
+type ProductImportModalProps = {
+  visible: boolean;
+  products: CsvProduct[];
+  categories: CsvCategory[];
+  onClose: () => void;
+  onImported: () => void;
+};
+
+const ACTION_COLORS: Record<ProductImportAction, string> = {
+  create: '#10B981',
+  update: '#3B82F6',
+  unchanged: '#6B7280',
+  reject: '#EF4444',
+};
+
+export default function ProductImportModal({ visible, products, categories, onClose, onImported }: ProductImportModalProps) {
+  const [text, setText] = useState('');
+  const [plan, setPlan] = useState<ProductImportPlan | null>(null);
+  const [importing, setImporting] = useState(false);
+  const [progress, setProgress] = useState(0);
+
+  useEffect(() => {
+    if (visible) {
+      setText('');
+      setPlan(null);
+      setProgress(0);
+    }
+  }, [visible]);
+
+  const rowsToApply = plan?.rows.filter(row => row.action === 'create' || row.action === 'update') ?? [];
+
+  const handleChooseFile = async () => {
+    try {
+      const contents = await pickTextFile();
+      if (contents !== null) {
+        setText(contents);
+        setPlan(null);
+      }
+    } catch (error) {
+      console.error('Error reading CSV file:', error);
+      Alert.alert('Error', 'Unable to read the file.');
+    }
+  };
+
+  const handlePreview = () => {
+    if (!text.trim()) {
+      Alert.alert('Error', 'Please paste or choose a CSV file');
+      return;
+    }
+    setPlan(planProductImport(text, products, categories));
+  };
+
+  const handleImport = async () => {
+    if (!plan || rowsToApply.length === 0) return;
+
+    setImporting(true);
+    setProgress(0);
+    const failures: string[] = [];
+    let failedRows = 0;
+    try {
+      const categoryIds: Record<string, string> = Object.fromEntries(
+        categories.map(category => [category.name.trim().toLowerCase(), category.id])
+      );
+      for (const name of plan.newCategories) {
+        const result = await createCategory({ name, color: '#3B82F6', tax_class_id: null });
+        if (result.error || !result.data) {
+          failures.push(`Category "${name}": ${result.error || 'Failed to create category'}`);
+        } else {
+          categoryIds[name.trim().toLowerCase()] = result.data.id;
+        }
+      }
+
+      const applyRow = async (row: ProductImportRow) => {
+        if (row.categoryName && !categoryIds[row.categoryName.trim().toLowerCase()]) {
+          failures.push(`Line ${row.line}: category "${row.categoryName}" could not be created`);
+          failedRows++;
+          return;
+        }
+        const payload = getProductImportPayload(row, categoryIds);
+        const result = row.action === 'create'
+          ? await createProduct(payload)
+          : await updateProduct(row.productId as string, payload);
+        if (result.error) {
+          failures.push(`Line ${row.line}: ${result.error}`);
+          failedRows++;
+        }
+      };
+
+      for (let start = 0; start < rowsToApply.length; start += PRODUCT_IMPORT_BATCH_SIZE) {
+        const batch = rowsToApply.slice(start, start + PRODUCT_IMPORT_BATCH_SIZE);
+        await Promise.all(batch.map(applyRow));
+        setProgress(start + batch.length);
+      }
+
+      const imported = rowsToApply.length - failedRows;
+      if (failures.length > 0) {
+        Alert.alert(
+          'Import Finished With Errors',
+          `${imported} of ${rowsToApply.length} products imported.\n\n${failures.slice(0, 10).join('\n')}` +
+            (failures.length > 10 ? `\n…and ${failures.length - 10} more` : '')
+        );
+      } else {
+        Alert.alert('Import Complete', `${imported} products imported.`);
+      }
+      onImported();
+    } catch (error: any) {
+      console.error('Error importing products:', error);
+      Alert.alert('Error', error.message || 'Failed to import products');
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  return (
+    <Modal visible={visible} transparent animationType="slide" onRequestClose={onClose}>
+      <View style={styles.modalOverlay}>
+        <View style={styles.modalContent}>
+          <View style={styles.modalHeader}>
+            <Text style={styles.modalTitle}>Import Products</Text>
+            <TouchableOpacity onPress={onClose} disabled={importing}>
+              <Text style={styles.closeButton}>✕</Text>
+            </TouchableOpacity>
+          </View>
+
+          {!plan ? (
+            <>
+              <Text style={styles.hint}>
+                Columns: {PRODUCT_CSV_HEADERS.join(', ')}. Rows match existing products by SKU, then by name;
+                columns left out of the file are not changed.
+              </Text>
+              {Platform.OS === 'web' && (
+                <TouchableOpacity style={styles.fileButton} onPress={handleChooseFile}>
+                  <FileUp size={18} color="#3B82F6" />
+                  <Text style={styles.fileButtonText}>Choose File</Text>
+                </TouchableOpacity>
+              )}
+              <TextInput
+                style={styles.csvInput}
+                value={text}
+                onChangeText={setText}
+                placeholder={`${PRODUCT_CSV_HEADERS.join(',')}\nLatte,LAT-01,,Coffee,120.00,0,true`}
+                multiline
+                autoCapitalize="none"
+                autoCorrect={false}
+              />
+              <View style={styles.modalActions}>
+                <TouchableOpacity style={styles.cancelButton} onPress={onClose}>
+                  <Text style={styles.cancelButtonText}>Cancel</Text>
+                </TouchableOpacity>
+                <TouchableOpacity style={styles.saveButton} onPress={handlePreview}>
+                  <Text style={styles.saveButtonText}>Preview</Text>
+                </TouchableOpacity>
+              </View>
+            </>
+          ) : (
+            <>
+              {plan.errors.length > 0 ? (
+                plan.errors.map(error => (
+                  <Text key={error} style={styles.rowError}>{error}</Text>
+                ))
+              ) : (
+                <>
+                  <View style={styles.counts}>
+                    {(Object.keys(PRODUCT_IMPORT_ACTION_LABELS) as ProductImportAction[]).map(action => (
+                      <View key={action} style={styles.countChip}>
+                        <Text style={[styles.countValue, { color: ACTION_COLORS[action] }]}>{plan.counts[action]}</Text>
+                        <Text style={styles.countLabel}>{PRODUCT_IMPORT_ACTION_LABELS[action]}</Text>
+                      </View>
+                    ))}
+                  </View>
+                  {plan.newCategories.length > 0 && (
+                    <Text style={styles.hint}>New categories: {plan.newCategories.join(', ')}</Text>
+                  )}
+                  <ScrollView style={styles.rowList}>
+                    {plan.rows
+                      .filter(row => row.action !== 'unchanged')
+                      .map(row => (
+                        <View key={row.line} style={styles.row}>
+                          <View style={styles.rowHeader}>
+                            <Text style={styles.rowName} numberOfLines={1}>
+                              Line {row.line} · {row.name || '(no name)'}
+                            </Text>
+                            <Text style={[styles.rowAction, { color: ACTION_COLORS[row.action] }]}>
+                              {PRODUCT_IMPORT_ACTION_LABELS[row.action]}
+                            </Text>
+                          </View>
+                          {row.errors.map(error => (
+                            <Text key={error} style={styles.rowError}>{error}</Text>
+                          ))}
+                          {row.warnings.map(warning => (
+                            <Text key={warning} style={styles.rowWarning}>{warning}</Text>
+                          ))}
+                        </View>
+                      ))}
+                  </ScrollView>
+                </>
+              )}
+
+              {importing && (
+                <Text style={styles.hint}>
+                  Importing {progress} of {rowsToApply.length}…
+                </Text>
+              )}
+
+              <View style={styles.modalActions}>
+                <TouchableOpacity style={styles.cancelButton} onPress={() => setPlan(null)} disabled={importing}>
+                  <Text style={styles.cancelButtonText}>Back</Text>
+                </TouchableOpacity>
+                <TouchableOpacity
+                  style={[styles.saveButton, rowsToApply.length === 0 && styles.saveButtonDisabled]}
+                  onPress={handleImport}
+                  disabled={importing || rowsToApply.length === 0}>
+                  {importing ? (
+                    <ActivityIndicator color="#FFFFFF" />
+                  ) : (
+                    <Text style={styles.saveButtonText}>Import {rowsToApply.length}</Text>
+                  )}
+                </TouchableOpacity>
+              </View>
+            </>
+          )}
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  modalContent: {
+    backgroundColor: '#FFFFFF',
+    borderRadius: 16,
+    padding: 24,
+    width: '90%',
+    maxWidth: 480,
+    maxHeight: '90%',
+  },
+  modalHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 12,
+  },
+  modalTitle: {
+    fontSize: 20,
+    fontWeight: '700',
+    color: '#111827',
+  },
+  closeButton: {
+    fontSize: 24,
+    color: '#6B7280',
+  },
+  hint: {
+    fontSize: 13,
+    color: '#6B7280',
+    marginBottom: 12,
+  },
+  fileButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 8,
+    padding: 12,
+    borderRadius: 8,
+    backgroundColor: '#EFF6FF',
+    marginBottom: 12,
+  },
+  fileButtonText: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#3B82F6',
+  },
+  csvInput: {
+    backgroundColor: '#F9FAFB',
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+    borderRadius: 8,
+    padding: 12,
+    fontSize: 13,
+    color: '#111827',
+    minHeight: 180,
+    maxHeight: 320,
+    textAlignVertical: 'top',
+    fontFamily: Platform.select({ ios: 'Menlo', default: 'monospace' }),
+  },
+  counts: {
+    flexDirection: 'row',
+    gap: 8,
+    marginBottom: 12,
+  },
+  countChip: {
+    flex: 1,
+    padding: 10,
+    borderRadius: 8,
+    backgroundColor: '#F3F4F6',
+    alignItems: 'center',
+  },
+  countValue: {
+    fontSize: 18,
+    fontWeight: '700',
+  },
+  countLabel: {
+    fontSize: 12,
+    color: '#6B7280',
+    marginTop: 2,
+  },
+  rowList: {
+    maxHeight: 360,
+  },
+  row: {
+    paddingVertical: 10,
+    borderBottomWidth: 1,
+    borderBottomColor: '#E5E7EB',
+  },
+  rowHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    gap: 8,
+  },
+  rowName: {
+    flex: 1,
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#111827',
+  },
+  rowAction: {
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  rowError: {
+    fontSize: 13,
+    color: '#EF4444',
+    marginTop: 4,
+  },
+  rowWarning: {
+    fontSize: 13,
+    color: '#F59E0B',
+    marginTop: 4,
+  },
+  modalActions: {
+    flexDirection: 'row',
+    gap: 12,
+    marginTop: 20,
+  },
+  cancelButton: {
+    flex: 1,
+    padding: 12,
+    borderRadius: 8,
+    backgroundColor: '#F3F4F6',
+    alignItems: 'center',
+  },
+  cancelButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#6B7280',
+  },
+  saveButton: {
+    flex: 1,
+    padding: 12,
+    borderRadius: 8,
+    backgroundColor: '#3B82F6',
+    alignItems: 'center',
+  },
+  saveButtonDisabled: {
+    opacity: 0.5,
+  },
+  saveButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#FFFFFF',
+  },
+});
@@ -0,0 +1,434 @@
+import { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  StyleSheet,
+  Modal,
+  Alert,
+  ScrollView,
+  ActivityIndicator,
+  Switch,
+} from 'react-native';
+import { Edit2, History, SlidersHorizontal } from 'lucide-react-native';
+import { createProduct, updateProduct } from '@/services/products.service';
+import { formatPrice } from '@/utils/currency';
+import { formatVariantProductName } from '@/utils/variants';
+
+type VariantProduct = {
+  id: string;
+  name: string;
+  price: number;
+  stock: number;
+  active: boolean;
+  sku: string | null;
+  barcode: string | null;
+  variant_name: string | null;
+  reorder_point: number;
+};
+
+type ProductVariantsModalProps<T extends VariantProduct> = {
+  visible: boolean;
+  product: T | null;
+  variants: T[];
+  onClose: () => void;
+  onChanged: () => void;
+  // Stock is changed from the products screen so the modals never stack
+  onShowHistory: (variant: T) => void;
+  onAdjustStock: (variant: T) => void;
+};
+
+type VariantForm = {
+  variant_name: string;
+  price: string;
+  sku: string;
+  barcode: string;
+  stock: string;
+  active: boolean;
+};
+
+const EMPTY_FORM: VariantForm = {
+  variant_name: '',
+  price: '',
+  sku: '',
+  barcode: '',
+  stock: '0',
+  active: true,
+};
+
+export default function ProductVariantsModal<T extends VariantProduct>({
+  visible,
+  product,
+  variants,
+  onClose,
+  onChanged,
+  onShowHistory,
+  onAdjustStock,
+}: ProductVariantsModalProps<T>) {
+  const [editingVariant, setEditingVariant] = useState<T | null>(null);
+  const [formVisible, setFormVisible] = useState(false);
+  const [form, setForm] = useState<VariantForm>(EMPTY_FORM);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (visible) {
+      setFormVisible(false);
+      setEditingVariant(null);
+    }
+  }, [visible]);
+
+  if (!product) return null;
+
+  // The parent's own stock would be stranded once its variants hold the stock
+  const blockedByStock = variants.length === 0 && product.stock !== 0;
+
+  const openAddForm = () => {
+    setEditingVariant(null);
+    setForm({ ...EMPTY_FORM, price: product.price.toString() });
+    setFormVisible(true);
+  };
+
+  const openEditForm = (variant: T) => {
+    setEditingVariant(variant);
+    setForm({
+      variant_name: variant.variant_name ?? '',
+      price: variant.price.toString(),
+      sku: variant.sku ?? '',
+      barcode: variant.barcode ?? '',
+      stock: variant.stock.toString(),
+      active: variant.active,
+    });
+    setFormVisible(true);
+  };
+
+  const handleSave = async () => {
+    const variantName = form.variant_name.trim();
+    const price = parseFloat(form.price);
+    const stock = parseInt(form.stock, 10);
+
+    if (!variantName) {
+      Alert.alert('Error', 'Please enter the variant name, e.g. Medium');
+      return;
+    }
+    if (isNaN(price) || price < 0) {
+      Alert.alert('Error', 'Please enter a valid price');
+      return;
+    }
+    if (!editingVariant && (isNaN(stock) || stock < 0)) {
+      Alert.alert('Error', 'Please enter a valid opening stock');
+      return;
+    }
+    if (variants.some(v => v.id !== editingVariant?.id && v.variant_name?.toLowerCase() === variantName.toLowerCase())) {
+      Alert.alert('Error', `${product.name} already has a "${variantName}" variant`);
+      return;
+    }
+
+    const variantData: any = {
+      name: formatVariantProductName(product.name, variantName),
+      variant_name: variantName,
+      price,
+      sku: form.sku.trim() || null,
+      barcode: form.barcode.trim() || null,
+      active: form.active,
+    };
+
+    // Opening stock only; later changes go through a stock adjustment
+    if (!editingVariant) {
+      variantData.parent_id = product.id;
+      variantData.stock = stock;
+      variantData.reorder_point = product.reorder_point;
+    }
+
+    setSaving(true);
+    try {
+      const result = editingVariant
+        ? await updateProduct(editingVariant.id, variantData)
+        : await createProduct(variantData);
+      if (result.error) throw new Error(result.error);
+
+      setFormVisible(false);
+      onChanged();
+    } catch (error: any) {
+      console.error('Error saving variant:', error);
+      Alert.alert('Error', error.message || 'Failed to save variant');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Modal visible={visible} transparent animationType="slide" onRequestClose={onClose}>
+      <View style={styles.modalOverlay}>
+        <View style={styles.modalContent}>
+          <View style={styles.modalHeader}>
+            <Text style={styles.modalTitle}>{product.name} Variants</Text>
+            <TouchableOpacity onPress={onClose}>
+              <Text style={styles.closeButton}>✕</Text>
+            </TouchableOpacity>
+          </View>
+
+          {formVisible ? (
+            <>
+              <ScrollView style={styles.form} keyboardShouldPersistTaps="handled">
+                <Text style={styles.label}>Variant</Text>
+                <TextInput
+                  style={styles.input}
+                  value={form.variant_name}
+                  onChangeText={text => setForm({ ...form, variant_name: text })}
+                  placeholder="e.g. Medium, L / Red"
+                />
+                <Text style={styles.label}>Price</Text>
+                <TextInput
+                  style={styles.input}
+                  value={form.price}
+                  onChangeText={text => setForm({ ...form, price: text })}
+                  placeholder="0.00"
+                  keyboardType="decimal-pad"
+                />
+                <View style={styles.row}>
+                  <View style={styles.rowField}>
+                    <Text style={styles.label}>SKU</Text>
+                    <TextInput
+                      style={styles.input}
+                      value={form.sku}
+                      onChangeText={text => setForm({ ...form, sku: text })}
+                      placeholder="Optional"
+                      autoCapitalize="characters"
+                      autoCorrect={false}
+                    />
+                  </View>
+                  <View style={styles.rowField}>
+                    <Text style={styles.label}>Barcode</Text>
+                    <TextInput
+                      style={styles.input}
+                      value={form.barcode}
+                      onChangeText={text => setForm({ ...form, barcode: text })}
+                      placeholder="Optional"
+                      autoCapitalize="none"
+                      autoCorrect={false}
+                    />
+                  </View>
+                </View>
+                {editingVariant ? (
+                  <View style={styles.switchRow}>
+                    <Text style={styles.label}>Active</Text>
+                    <Switch value={form.active} onValueChange={value => setForm({ ...form, active: value })} />
+                  </View>
+                ) : (
+                  <>
+                    <Text style={styles.label}>Opening Stock</Text>
+                    <TextInput
+                      style={styles.input}
+                      value={form.stock}
+                      onChangeText={text => setForm({ ...form, stock: text })}
+                      placeholder="0"
+                      keyboardType="number-pad"
+                    />
+                  </>
+                )}
+              </ScrollView>
+
+              <View style={styles.modalActions}>
+                <TouchableOpacity style={styles.cancelButton} onPress={() => setFormVisible(false)} disabled={saving}>
+                  <Text style={styles.cancelButtonText}>Back</Text>
+                </TouchableOpacity>
+                <TouchableOpacity style={styles.saveButton} onPress={handleSave} disabled={saving}>
+                  {saving ? (
+                    <ActivityIndicator color="#FFFFFF" />
+                  ) : (
+                    <Text style={styles.saveButtonText}>{editingVariant ? 'Save' : 'Add Variant'}</Text>
+                  )}
+                </TouchableOpacity>
+              </View>
+            </>
+          ) : (
+            <>
+              <ScrollView style={styles.form}>
+                {variants.length === 0 ? (
+                  <Text style={styles.hint}>
+                    No variants yet. Add sizes or colors that each have their own price and stock.
+                  </Text>
+                ) : (
+                  variants.map(variant => (
+                    <View key={variant.id} style={[styles.variantRow, !variant.active && styles.variantInactive]}>
+                      <View style={styles.variantInfo}>
+                        <Text style={styles.variantName}>{variant.variant_name}</Text>
+                        <Text style={styles.hint}>
+                          {formatPrice(variant.price)} · {variant.stock} in stock
+                          {variant.sku ? ` · ${variant.sku}` : ''}
+                          {!variant.active ? ' · Inactive' : ''}
+                        </Text>
+                      </View>
+                      <TouchableOpacity style={styles.iconButton} onPress={() => onShowHistory(variant)}>
+                        <History size={16} color="#3B82F6" />
+                      </TouchableOpacity>
+                      <TouchableOpacity style={styles.iconButton} onPress={() => onAdjustStock(variant)}>
+                        <SlidersHorizontal size={16} color="#3B82F6" />
+                      </TouchableOpacity>
+                      <TouchableOpacity style={styles.iconButton} onPress={() => openEditForm(variant)}>
+                        <Edit2 size={16} color="#3B82F6" />
+                      </TouchableOpacity>
+                    </View>
+                  ))
+                )}
+                {blockedByStock && (
+                  <Text style={styles.warning}>
+                    {product.name} has {product.stock} in stock. Adjust it to zero before adding variants, then give
+                    each variant its opening stock.
+                  </Text>
+                )}
+              </ScrollView>
+
+              <TouchableOpacity
+                style={[styles.addButton, blockedByStock && styles.addButtonDisabled]}
+                onPress={openAddForm}
+                disabled={blockedByStock}>
+                <Text style={styles.saveButtonText}>Add Variant</Text>
+              </TouchableOpacity>
+            </>
+          )}
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  modalContent: {
+    backgroundColor: '#FFFFFF',
+    borderRadius: 16,
+    padding: 24,
+    width: '90%',
+    maxWidth: 480,
+    maxHeight: '90%',
+  },
+  modalHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 12,
+  },
+  modalTitle: {
+    flex: 1,
+    fontSize: 20,
+    fontWeight: '700',
+    color: '#111827',
+  },
+  closeButton: {
+    fontSize: 24,
+    color: '#6B7280',
+  },
+  form: {
+    flexGrow: 0,
+  },
+  label: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#374151',
+    marginBottom: 6,
+    marginTop: 12,
+  },
+  input: {
+    backgroundColor: '#F9FAFB',
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+    borderRadius: 8,
+    padding: 12,
+    fontSize: 16,
+    color: '#111827',
+  },
+  row: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  rowField: {
+    flex: 1,
+  },
+  switchRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  hint: {
+    fontSize: 12,
+    color: '#6B7280',
+  },
+  warning: {
+    fontSize: 12,
+    color: '#F59E0B',
+    marginTop: 12,
+  },
+  variantRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    paddingVertical: 10,
+    borderBottomWidth: 1,
+    borderBottomColor: '#F3F4F6',
+  },
+  variantInactive: {
+    opacity: 0.6,
+  },
+  variantInfo: {
+    flex: 1,
+  },
+  variantName: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#111827',
+  },
+  iconButton: {
+    width: 32,
+    height: 32,
+    borderRadius: 8,
+    backgroundColor: '#EFF6FF',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  addButton: {
+    padding: 12,
+    borderRadius: 8,
+    backgroundColor: '#3B82F6',
+    alignItems: 'center',
+    marginTop: 16,
+  },
+  addButtonDisabled: {
+    backgroundColor: '#E5E7EB',
+  },
+  modalActions: {
+    flexDirection: 'row',
+    gap: 12,
+    marginTop: 16,
+  },
+  cancelButton: {
+    flex: 1,
+    padding: 12,
+    borderRadius: 8,
+    backgroundColor: '#F3F4F6',
+    alignItems: 'center',
+  },
+  cancelButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#6B7280',
+  },
+  saveButton: {
+    flex: 1,
+    padding: 12,
+    borderRadius: 8,
+    backgroundColor: '#3B82F6',
+    alignItems: 'center',
+  },
+  saveButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#FFFFFF',
+  },
+});
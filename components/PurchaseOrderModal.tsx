@@ -0,0 +1,427 @@
+import { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  StyleSheet,
+  Modal,
+  Alert,
+  ScrollView,
+  ActivityIndicator,
+} from 'react-native';
+import { X } from 'lucide-react-native';
+import { savePurchaseOrder } from '@/services/purchasing.service';
+import { formatPrice } from '@/utils/currency';
+import {
+  formatPoNumber,
+  getPurchaseOrderTotal,
+  PurchaseOrder,
+  Supplier,
+} from '@/utils/purchasing';
+
+type ProductOption = {
+  id: string;
+  name: string;
+  sku: string | null;
+  stock: number;
+};
+
+type DraftLine = {
+  product: ProductOption;
+  quantity: string;
+  unitCost: string;
+};
+
+type PurchaseOrderModalProps = {
+  visible: boolean;
+  purchaseOrder: PurchaseOrder | null;
+  suppliers: Supplier[];
+  products: ProductOption[];
+  onClose: () => void;
+  onSaved: (purchaseOrder: PurchaseOrder) => void;
+};
+
+export default function PurchaseOrderModal({
+  visible,
+  purchaseOrder,
+  suppliers,
+  products,
+  onClose,
+  onSaved,
+}: PurchaseOrderModalProps) {
+  const [supplierId, setSupplierId] = useState('');
+  const [lines, setLines] = useState<DraftLine[]>([]);
+  const [productSearch, setProductSearch] = useState('');
+  const [expectedDate, setExpectedDate] = useState('');
+  const [notes, setNotes] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!visible) return;
+
+    setProductSearch('');
+    if (purchaseOrder) {
+      setSupplierId(purchaseOrder.supplier_id);
+      setExpectedDate(purchaseOrder.expected_date ?? '');
+      setNotes(purchaseOrder.notes ?? '');
+      setLines(
+        purchaseOrder.purchase_order_items.map(item => ({
+          product: products.find(p => p.id === item.product_id) ?? {
+            id: item.product_id,
+            name: item.products?.name ?? 'Unknown product',
+            sku: item.products?.sku ?? null,
+            stock: item.products?.stock ?? 0,
+          },
+          quantity: String(item.quantity_ordered),
+          unitCost: item.unit_cost.toFixed(2),
+        }))
+      );
+    } else {
+      setSupplierId(suppliers.find(s => s.active)?.id ?? '');
+      setExpectedDate('');
+      setNotes('');
+      setLines([]);
+    }
+  }, [visible, purchaseOrder, suppliers, products]);
+
+  const query = productSearch.trim().toLowerCase();
+  const matchingProducts = query
+    ? products
+        .filter(p => !lines.some(line => line.product.id === p.id))
+        .filter(p => p.name.toLowerCase().includes(query) || p.sku?.toLowerCase().includes(query))
+        .slice(0, 6)
+    : [];
+
+  const addLine = (product: ProductOption) => {
+    setLines([...lines, { product, quantity: '1', unitCost: '' }]);
+    setProductSearch('');
+  };
+
+  const updateLine = (index: number, changes: Partial<DraftLine>) => {
+    setLines(lines.map((line, i) => (i === index ? { ...line, ...changes } : line)));
+  };
+
+  const removeLine = (index: number) => {
+    setLines(lines.filter((_, i) => i !== index));
+  };
+
+  const parsedLines = lines.map(line => ({
+    product_id: line.product.id,
+    quantity: parseInt(line.quantity, 10),
+    unit_cost: parseFloat(line.unitCost || '0'),
+  }));
+  const total = getPurchaseOrderTotal(
+    parsedLines.filter(line => !isNaN(line.quantity) && !isNaN(line.unit_cost))
+  );
+
+  const handleSave = async () => {
+    if (!supplierId) {
+      Alert.alert('Error', 'Please select a supplier');
+      return;
+    }
+    if (parsedLines.length === 0) {
+      Alert.alert('Error', 'Add at least one product');
+      return;
+    }
+    if (parsedLines.some(line => isNaN(line.quantity) || line.quantity <= 0 || isNaN(line.unit_cost) || line.unit_cost < 0)) {
+      Alert.alert('Error', 'Every line needs a quantity above zero and a valid cost');
+      return;
+    }
+    if (expectedDate && !/^\d{4}-\d{2}-\d{2}$/.test(expectedDate.trim())) {
+      Alert.alert('Error', 'Enter the expected date as YYYY-MM-DD');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const result = await savePurchaseOrder(purchaseOrder?.id ?? null, supplierId, parsedLines, {
+        expectedDate: expectedDate.trim() || null,
+        notes: notes.trim() || null,
+      });
+      if (result.error || !result.data) throw new Error(result.error || 'Failed to save purchase order');
+
+      onSaved(result.data);
+    } catch (error: any) {
+      console.error('Error saving purchase order:', error);
+      Alert.alert('Error', error.message || 'Failed to save purchase order');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const activeSuppliers = suppliers.filter(s => s.active || s.id === supplierId);
+
+  return (
+    <Modal visible={visible} transparent animationType="slide" onRequestClose={onClose}>
+      <View style={styles.modalOverlay}>
+        <View style={styles.modalContent}>
+          <Text style={styles.modalTitle}>
+            {purchaseOrder ? `Edit ${formatPoNumber(purchaseOrder.po_number)}` : 'New Purchase Order'}
+          </Text>
+
+          <ScrollView style={styles.form} keyboardShouldPersistTaps="handled">
+            <Text style={styles.label}>Supplier</Text>
+            {activeSuppliers.length === 0 ? (
+              <Text style={styles.hint}>Add a supplier first</Text>
+            ) : (
+              <View style={styles.options}>
+                {activeSuppliers.map(supplier => (
+                  <TouchableOpacity
+                    key={supplier.id}
+                    style={[styles.option, supplierId === supplier.id && styles.optionActive]}
+                    onPress={() => setSupplierId(supplier.id)}>
+                    <Text style={[styles.optionText, supplierId === supplier.id && styles.optionTextActive]}>
+                      {supplier.name}
+                    </Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+            )}
+
+            <Text style={styles.label}>Products</Text>
+            {lines.map((line, index) => (
+              <View key={line.product.id} style={styles.line}>
+                <View style={styles.lineHeader}>
+                  <Text style={styles.lineName} numberOfLines={1}>{line.product.name}</Text>
+                  <TouchableOpacity onPress={() => removeLine(index)}>
+                    <X size={18} color="#6B7280" />
+                  </TouchableOpacity>
+                </View>
+                <Text style={styles.hint}>{line.product.stock} in stock</Text>
+                <View style={styles.lineInputs}>
+                  <View style={styles.lineInput}>
+                    <Text style={styles.inputLabel}>Qty</Text>
+                    <TextInput
+                      style={styles.input}
+                      value={line.quantity}
+                      onChangeText={text => updateLine(index, { quantity: text })}
+                      keyboardType="number-pad"
+                    />
+                  </View>
+                  <View style={styles.lineInput}>
+                    <Text style={styles.inputLabel}>Unit Cost</Text>
+                    <TextInput
+                      style={styles.input}
+                      value={line.unitCost}
+                      onChangeText={text => updateLine(index, { unitCost: text })}
+                      placeholder="0.00"
+                      keyboardType="decimal-pad"
+                    />
+                  </View>
+                </View>
+              </View>
+            ))}
+
+            <TextInput
+              style={styles.input}
+              value={productSearch}
+              onChangeText={setProductSearch}
+              placeholder="Search products to add..."
+            />
+            {matchingProducts.map(product => (
+              <TouchableOpacity key={product.id} style={styles.searchResult} onPress={() => addLine(product)}>
+                <Text style={styles.searchResultText}>{product.name}</Text>
+                {product.sku && <Text style={styles.hint}>{product.sku}</Text>}
+              </TouchableOpacity>
+            ))}
+
+            <Text style={styles.label}>Expected Date</Text>
+            <TextInput
+              style={styles.input}
+              value={expectedDate}
+              onChangeText={setExpectedDate}
+              placeholder="YYYY-MM-DD (optional)"
+            />
+
+            <Text style={styles.label}>Notes</Text>
+            <TextInput
+              style={[styles.input, styles.multilineInput]}
+              value={notes}
+              onChangeText={setNotes}
+              placeholder="Optional"
+              multiline
+            />
+          </ScrollView>
+
+          <View style={styles.totalRow}>
+            <Text style={styles.totalLabel}>Expected Total</Text>
+            <Text style={styles.totalValue}>{formatPrice(total)}</Text>
+          </View>
+
+          <View style={styles.modalActions}>
+            <TouchableOpacity style={styles.cancelButton} onPress={onClose} disabled={saving}>
+              <Text style={styles.cancelButtonText}>Cancel</Text>
+            </TouchableOpacity>
+            <TouchableOpacity style={styles.saveButton} onPress={handleSave} disabled={saving}>
+              {saving ? (
+                <ActivityIndicator color="#FFFFFF" />
+              ) : (
+                <Text style={styles.saveButtonText}>Save Draft</Text>
+              )}
+            </TouchableOpacity>
+          </View>
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  modalContent: {
+    backgroundColor: '#FFFFFF',
+    borderRadius: 16,
+    padding: 24,
+    width: '90%',
+    maxWidth: 480,
+    maxHeight: '90%',
+  },
+  modalTitle: {
+    fontSize: 20,
+    fontWeight: '700',
+    color: '#111827',
+    marginBottom: 12,
+  },
+  form: {
+    flexGrow: 0,
+  },
+  label: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#374151',
+    marginBottom: 6,
+    marginTop: 12,
+  },
+  hint: {
+    fontSize: 12,
+    color: '#6B7280',
+  },
+  options: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  option: {
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 8,
+    backgroundColor: '#F3F4F6',
+  },
+  optionActive: {
+    backgroundColor: '#3B82F6',
+  },
+  optionText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#6B7280',
+  },
+  optionTextActive: {
+    color: '#FFFFFF',
+  },
+  line: {
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+    borderRadius: 8,
+    padding: 12,
+    marginBottom: 8,
+    gap: 4,
+  },
+  lineHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    gap: 8,
+  },
+  lineName: {
+    flex: 1,
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#111827',
+  },
+  lineInputs: {
+    flexDirection: 'row',
+    gap: 8,
+    marginTop: 4,
+  },
+  lineInput: {
+    flex: 1,
+  },
+  inputLabel: {
+    fontSize: 12,
+    color: '#6B7280',
+    marginBottom: 4,
+  },
+  input: {
+    backgroundColor: '#F9FAFB',
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+    borderRadius: 8,
+    padding: 12,
+    fontSize: 16,
+    color: '#111827',
+  },
+  multilineInput: {
+    minHeight: 60,
+    textAlignVertical: 'top',
+  },
+  searchResult: {
+    paddingVertical: 10,
+    paddingHorizontal: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: '#F3F4F6',
+  },
+  searchResultText: {
+    fontSize: 15,
+    color: '#111827',
+  },
+  totalRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginTop: 16,
+  },
+  totalLabel: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#111827',
+  },
+  totalValue: {
+    fontSize: 16,
+    fontWeight: '700',
+    color: '#111827',
+  },
+  modalActions: {
+    flexDirection: 'row',
+    gap: 12,
+    marginTop: 16,
+  },
+  cancelButton: {
+    flex: 1,
+    padding: 12,
+    borderRadius: 8,
+    backgroundColor: '#F3F4F6',
+    alignItems: 'center',
+  },
+  cancelButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#6B7280',
+  },
+  saveButton: {
+    flex: 1,
+    padding: 12,
+    borderRadius: 8,
+    backgroundColor: '#3B82F6',
+    alignItems: 'center',
+  },
+  saveButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#FFFFFF',
+  },
+});
@@ -0,0 +1,205 @@
+import { useState, useEffect } from 'react';
+import { View, Text, TouchableOpacity, StyleSheet, Modal, ScrollView, Platform, Share, Alert } from 'react-native';
+import { Printer, Share2 } from 'lucide-react-native';
+import { useStoreInfo } from '@/hooks/useStoreInfo';
+import {
+  ReceiptOrder,
+  ReceiptWidth,
+  RECEIPT_COLUMNS,
+  renderReceiptHtml,
+  renderReceiptText,
+} from '@/utils/receipt';
+
+type ReceiptModalProps = {
+  visible: boolean;
+  order: ReceiptOrder | null;
+  reprint?: boolean;
+  onClose: () => void;
+};
+
+// Browser printing goes through a hidden iframe so the POS page itself isn't printed
+function printHtml(html: string) {
+  const frame = document.createElement('iframe');
+  frame.style.display = 'none';
+  document.body.appendChild(frame);
+  const frameDocument = frame.contentWindow?.document;
+  if (!frameDocument || !frame.contentWindow) {
+    document.body.removeChild(frame);
+    throw new Error('Printing is not available in this browser');
+  }
+  frameDocument.open();
+  frameDocument.write(html);
+  frameDocument.close();
+  frame.contentWindow.focus();
+  frame.contentWindow.print();
+  setTimeout(() => document.body.removeChild(frame), 1000);
+}
+
+export default function ReceiptModal({ visible, order, reprint = false, onClose }: ReceiptModalProps) {
+  const { storeInfo } = useStoreInfo();
+  const [width, setWidth] = useState<ReceiptWidth>(storeInfo.receiptWidth);
+
+  useEffect(() => {
+    if (visible) {
+      setWidth(storeInfo.receiptWidth);
+    }
+  }, [visible, storeInfo.receiptWidth]);
+
+  if (!order) return null;
+
+  const receiptText = renderReceiptText(order, storeInfo, { width, reprint });
+
+  const handlePrint = () => {
+    try {
+      printHtml(renderReceiptHtml(order, storeInfo, { width, reprint }));
+    } catch (error) {
+      console.error('Error printing receipt:', error);
+      Alert.alert('Print Failed', error instanceof Error ? error.message : 'Unable to print the receipt.');
+    }
+  };
+
+  const handleShare = async () => {
+    try {
+      await Share.share({ title: `Receipt #${order.id.substring(0, 8)}`, message: receiptText });
+    } catch (error) {
+      console.error('Error sharing receipt:', error);
+      Alert.alert('Share Failed', 'Unable to share the receipt.');
+    }
+  };
+
+  return (
+    <Modal visible={visible} transparent animationType="slide" onRequestClose={onClose}>
+      <View style={styles.modalOverlay}>
+        <View style={styles.modalContent}>
+          <View style={styles.modalHeader}>
+            <Text style={styles.modalTitle}>Receipt</Text>
+            <TouchableOpacity onPress={onClose}>
+              <Text style={styles.closeButton}>✕</Text>
+            </TouchableOpacity>
+          </View>
+
+          <View style={styles.widthToggle}>
+            {(Object.keys(RECEIPT_COLUMNS) as ReceiptWidth[]).map(option => (
+              <TouchableOpacity
+                key={option}
+                style={[styles.widthOption, width === option && styles.widthOptionActive]}
+                onPress={() => setWidth(option)}>
+                <Text style={[styles.widthOptionText, width === option && styles.widthOptionTextActive]}>
+                  {option}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+
+          <ScrollView style={styles.preview} horizontal={false}>
+            <Text style={styles.previewText}>{receiptText}</Text>
+          </ScrollView>
+
+          <View style={styles.modalActions}>
+            {Platform.OS === 'web' && (
+              <TouchableOpacity style={styles.actionButton} onPress={handlePrint}>
+                <Printer size={18} color="#FFFFFF" />
+                <Text style={styles.actionButtonText}>Print</Text>
+              </TouchableOpacity>
+            )}
+            <TouchableOpacity style={[styles.actionButton, styles.shareButton]} onPress={handleShare}>
+              <Share2 size={18} color="#3B82F6" />
+              <Text style={[styles.actionButtonText, styles.shareButtonText]}>Share</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  modalContent: {
+    backgroundColor: '#FFFFFF',
+    borderRadius: 16,
+    padding: 24,
+    width: '90%',
+    maxWidth: 480,
+    maxHeight: '90%',
+    gap: 12,
+  },
+  modalHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  modalTitle: {
+    fontSize: 20,
+    fontWeight: '700',
+    color: '#111827',
+  },
+  closeButton: {
+    fontSize: 24,
+    color: '#6B7280',
+  },
+  widthToggle: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  widthOption: {
+    flex: 1,
+    padding: 8,
+    borderRadius: 8,
+    backgroundColor: '#F3F4F6',
+    alignItems: 'center',
+  },
+  widthOptionActive: {
+    backgroundColor: '#3B82F6',
+  },
+  widthOptionText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#6B7280',
+  },
+  widthOptionTextActive: {
+    color: '#FFFFFF',
+  },
+  preview: {
+    backgroundColor: '#F9FAFB',
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+    borderRadius: 8,
+    padding: 12,
+  },
+  previewText: {
+    fontFamily: Platform.select({ ios: 'Menlo', default: 'monospace' }),
+    fontSize: 11,
+    color: '#111827',
+  },
+  modalActions: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+  actionButton: {
+    flex: 1,
+    flexDirection: 'row',
+    justifyContent: 'center',
+    alignItems: 'center',
+    gap: 8,
+    padding: 12,
+    borderRadius: 8,
+    backgroundColor: '#3B82F6',
+  },
+  actionButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#FFFFFF',
+  },
+  shareButton: {
+    backgroundColor: '#EFF6FF',
+  },
+  shareButtonText: {
+    color: '#3B82F6',
+  },
+});
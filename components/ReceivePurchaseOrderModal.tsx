@@ -0,0 +1,304 @@
+import { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  StyleSheet,
+  Modal,
+  Alert,
+  ScrollView,
+  ActivityIndicator,
+} from 'react-native';
+import { receivePurchaseOrder, ReceivedItem } from '@/services/purchasing.service';
+import { formatPrice } from '@/utils/currency';
+import {
+  formatPoNumber,
+  getOutstandingQuantity,
+  getPurchaseOrderTotal,
+  PurchaseOrder,
+} from '@/utils/purchasing';
+
+type ReceivePurchaseOrderModalProps = {
+  visible: boolean;
+  purchaseOrder: PurchaseOrder | null;
+  onClose: () => void;
+  onReceived: (purchaseOrder: PurchaseOrder) => void;
+};
+
+type ReceiveInput = {
+  quantity: string;
+  unitCost: string;
+};
+
+export default function ReceivePurchaseOrderModal({
+  visible,
+  purchaseOrder,
+  onClose,
+  onReceived,
+}: ReceivePurchaseOrderModalProps) {
+  const [inputs, setInputs] = useState<Record<string, ReceiveInput>>({});
+  const [notes, setNotes] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  // Default to receiving everything still outstanding at the ordered cost
+  useEffect(() => {
+    if (visible && purchaseOrder) {
+      const initial: Record<string, ReceiveInput> = {};
+      purchaseOrder.purchase_order_items.forEach(item => {
+        initial[item.id] = {
+          quantity: String(getOutstandingQuantity(item)),
+          unitCost: item.unit_cost.toFixed(2),
+        };
+      });
+      setInputs(initial);
+      setNotes('');
+    }
+  }, [visible, purchaseOrder]);
+
+  if (!purchaseOrder) return null;
+
+  const openItems = purchaseOrder.purchase_order_items.filter(item => getOutstandingQuantity(item) > 0);
+
+  const received: ReceivedItem[] = openItems
+    .map(item => ({
+      purchase_order_item_id: item.id,
+      quantity: parseInt(inputs[item.id]?.quantity || '0', 10),
+      unit_cost: parseFloat(inputs[item.id]?.unitCost || '0'),
+    }))
+    .filter(item => item.quantity > 0);
+
+  const receivedTotal = getPurchaseOrderTotal(
+    received.map(item => ({ quantity: item.quantity, unit_cost: item.unit_cost ?? 0 }))
+  );
+
+  const updateInput = (itemId: string, changes: Partial<ReceiveInput>) => {
+    setInputs({ ...inputs, [itemId]: { ...inputs[itemId], ...changes } });
+  };
+
+  const handleReceive = async () => {
+    const invalid = openItems.find(item => {
+      const quantity = parseInt(inputs[item.id]?.quantity || '0', 10);
+      const unitCost = parseFloat(inputs[item.id]?.unitCost || '0');
+      return isNaN(quantity) || quantity < 0 || quantity > getOutstandingQuantity(item) || isNaN(unitCost) || unitCost < 0;
+    });
+    if (invalid) {
+      Alert.alert(
+        'Error',
+        `Check ${invalid.products?.name ?? 'the quantities'}: at most ${getOutstandingQuantity(invalid)} can be received`
+      );
+      return;
+    }
+    if (received.length === 0) {
+      Alert.alert('Error', 'Enter at least one received quantity');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const result = await receivePurchaseOrder(purchaseOrder.id, received, notes.trim() || null);
+      if (result.error || !result.data) throw new Error(result.error || 'Failed to receive stock');
+
+      onReceived(result.data);
+    } catch (error: any) {
+      console.error('Error receiving purchase order:', error);
+      Alert.alert('Error', error.message || 'Failed to receive stock');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Modal visible={visible} transparent animationType="slide" onRequestClose={onClose}>
+      <View style={styles.modalOverlay}>
+        <View style={styles.modalContent}>
+          <Text style={styles.modalTitle}>Receive {formatPoNumber(purchaseOrder.po_number)}</Text>
+          <Text style={styles.modalSubtitle}>{purchaseOrder.suppliers?.name}</Text>
+
+          <ScrollView style={styles.form} keyboardShouldPersistTaps="handled">
+            {openItems.map(item => (
+              <View key={item.id} style={styles.line}>
+                <Text style={styles.lineName} numberOfLines={1}>{item.products?.name ?? 'Unknown product'}</Text>
+                <Text style={styles.hint}>
+                  {item.quantity_received} of {item.quantity_ordered} received · ordered at {formatPrice(item.unit_cost)}
+                </Text>
+                <View style={styles.lineInputs}>
+                  <View style={styles.lineInput}>
+                    <Text style={styles.inputLabel}>Received</Text>
+                    <TextInput
+                      style={styles.input}
+                      value={inputs[item.id]?.quantity ?? ''}
+                      onChangeText={text => updateInput(item.id, { quantity: text })}
+                      keyboardType="number-pad"
+                    />
+                  </View>
+                  <View style={styles.lineInput}>
+                    <Text style={styles.inputLabel}>Actual Unit Cost</Text>
+                    <TextInput
+                      style={styles.input}
+                      value={inputs[item.id]?.unitCost ?? ''}
+                      onChangeText={text => updateInput(item.id, { unitCost: text })}
+                      keyboardType="decimal-pad"
+                    />
+                  </View>
+                </View>
+              </View>
+            ))}
+
+            <Text style={styles.label}>Notes</Text>
+            <TextInput
+              style={[styles.input, styles.multilineInput]}
+              value={notes}
+              onChangeText={setNotes}
+              placeholder="Delivery receipt no., condition, ..."
+              multiline
+            />
+          </ScrollView>
+
+          <View style={styles.totalRow}>
+            <Text style={styles.totalLabel}>Received Value</Text>
+            <Text style={styles.totalValue}>{formatPrice(receivedTotal)}</Text>
+          </View>
+
+          <View style={styles.modalActions}>
+            <TouchableOpacity style={styles.cancelButton} onPress={onClose} disabled={saving}>
+              <Text style={styles.cancelButtonText}>Cancel</Text>
+            </TouchableOpacity>
+            <TouchableOpacity style={styles.saveButton} onPress={handleReceive} disabled={saving}>
+              {saving ? (
+                <ActivityIndicator color="#FFFFFF" />
+              ) : (
+                <Text style={styles.saveButtonText}>Receive Stock</Text>
+              )}
+            </TouchableOpacity>
+          </View>
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  modalContent: {
+    backgroundColor: '#FFFFFF',
+    borderRadius: 16,
+    padding: 24,
+    width: '90%',
+    maxWidth: 480,
+    maxHeight: '90%',
+  },
+  modalTitle: {
+    fontSize: 20,
+    fontWeight: '700',
+    color: '#111827',
+  },
+  modalSubtitle: {
+    fontSize: 14,
+    color: '#6B7280',
+    marginTop: 2,
+    marginBottom: 12,
+  },
+  form: {
+    flexGrow: 0,
+  },
+  label: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#374151',
+    marginBottom: 6,
+    marginTop: 12,
+  },
+  hint: {
+    fontSize: 12,
+    color: '#6B7280',
+  },
+  line: {
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+    borderRadius: 8,
+    padding: 12,
+    marginBottom: 8,
+    gap: 4,
+  },
+  lineName: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#111827',
+  },
+  lineInputs: {
+    flexDirection: 'row',
+    gap: 8,
+    marginTop: 4,
+  },
+  lineInput: {
+    flex: 1,
+  },
+  inputLabel: {
+    fontSize: 12,
+    color: '#6B7280',
+    marginBottom: 4,
+  },
+  input: {
+    backgroundColor: '#F9FAFB',
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+    borderRadius: 8,
+    padding: 12,
+    fontSize: 16,
+    color: '#111827',
+  },
+  multilineInput: {
+    minHeight: 60,
+    textAlignVertical: 'top',
+  },
+  totalRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginTop: 16,
+  },
+  totalLabel: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#111827',
+  },
+  totalValue: {
+    fontSize: 16,
+    fontWeight: '700',
+    color: '#111827',
+  },
+  modalActions: {
+    flexDirection: 'row',
+    gap: 12,
+    marginTop: 16,
+  },
+  cancelButton: {
+    flex: 1,
+    padding: 12,
+    borderRadius: 8,
+    backgroundColor: '#F3F4F6',
+    alignItems: 'center',
+  },
+  cancelButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#6B7280',
+  },
+  saveButton: {
+    flex: 1,
+    padding: 12,
+    borderRadius: 8,
+    backgroundColor: '#10B981',
+    alignItems: 'center',
+  },
+  saveButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#FFFFFF',
+  },
+});
@@ -0,0 +1,347 @@
+import { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  StyleSheet,
+  Modal,
+  Alert,
+  ScrollView,
+  Switch,
+  ActivityIndicator,
+} from 'react-native';
+import { Minus, Plus } from 'lucide-react-native';
+import { formatPrice } from '@/utils/currency';
+import { PaymentMethod, PAYMENT_METHOD_LABELS } from '@/utils/payments';
+import { computeRefundAmount, getReturnableQuantity, RefundableLine } from '@/utils/refunds';
+import { formatModifiers, parseOrderItemModifiers } from '@/utils/modifiers';
+import { RefundItem, RefundOptions } from '@/services/orders.service';
+
+type ReturnLine = RefundableLine & {
+  id: string;
+  modifiers?: unknown;
+  products: {
+    name: string;
+  };
+};
+
+type ReturnModalProps = {
+  visible: boolean;
+  items: ReturnLine[];
+  defaultMethod: PaymentMethod;
+  // Points can only be refunded to the order's customer
+  allowPoints?: boolean;
+  processing?: boolean;
+  onSubmit: (items: RefundItem[], options: RefundOptions) => void;
+  onClose: () => void;
+};
+
+export default function ReturnModal({
+  visible,
+  items,
+  defaultMethod,
+  allowPoints = false,
+  processing = false,
+  onSubmit,
+  onClose,
+}: ReturnModalProps) {
+  const [quantities, setQuantities] = useState<Record<string, number>>({});
+  const [reason, setReason] = useState('');
+  const [method, setMethod] = useState<PaymentMethod>(defaultMethod);
+  const [restock, setRestock] = useState(true);
+
+  useEffect(() => {
+    if (visible) {
+      setQuantities({});
+      setReason('');
+      setMethod(defaultMethod);
+      setRestock(true);
+    }
+  }, [visible, defaultMethod]);
+
+  const returnableItems = items.filter(item => getReturnableQuantity(item) > 0);
+  const refundTotal = returnableItems.reduce(
+    (sum, item) => sum + computeRefundAmount(item, quantities[item.id] ?? 0),
+    0
+  );
+
+  const setQuantity = (item: ReturnLine, quantity: number) => {
+    const clamped = Math.min(Math.max(quantity, 0), getReturnableQuantity(item));
+    setQuantities({ ...quantities, [item.id]: clamped });
+  };
+
+  const handleReturnAll = () => {
+    setQuantities(
+      Object.fromEntries(returnableItems.map(item => [item.id, getReturnableQuantity(item)]))
+    );
+  };
+
+  const handleSubmit = () => {
+    const selected = returnableItems
+      .filter(item => (quantities[item.id] ?? 0) > 0)
+      .map(item => ({ order_item_id: item.id, quantity: quantities[item.id] }));
+
+    if (selected.length === 0) {
+      Alert.alert('No Items Selected', 'Select the items and quantities being returned.');
+      return;
+    }
+
+    onSubmit(selected, { reason: reason.trim() || null, method, restock });
+  };
+
+  return (
+    <Modal visible={visible} transparent animationType="slide" onRequestClose={onClose}>
+      <View style={styles.modalOverlay}>
+        <View style={styles.modalContent}>
+          <View style={styles.modalHeader}>
+            <Text style={styles.modalTitle}>Return Items</Text>
+            <TouchableOpacity onPress={handleReturnAll}>
+              <Text style={styles.returnAllText}>Return All</Text>
+            </TouchableOpacity>
+          </View>
+
+          <ScrollView style={styles.itemList}>
+            {returnableItems.map(item => {
+              const quantity = quantities[item.id] ?? 0;
+              return (
+                <View key={item.id} style={styles.itemRow}>
+                  <View style={styles.itemInfo}>
+                    <Text style={styles.itemName}>{item.products.name}</Text>
+                    {parseOrderItemModifiers(item.modifiers).length > 0 && (
+                      <Text style={styles.itemMeta}>{formatModifiers(parseOrderItemModifiers(item.modifiers))}</Text>
+                    )}
+                    <Text style={styles.itemMeta}>
+                      {getReturnableQuantity(item)} of {item.quantity} returnable
+                    </Text>
+                  </View>
+                  <View style={styles.stepper}>
+                    <TouchableOpacity
+                      style={styles.stepperButton}
+                      onPress={() => setQuantity(item, quantity - 1)}>
+                      <Minus size={16} color="#6B7280" />
+                    </TouchableOpacity>
+                    <Text style={styles.stepperValue}>{quantity}</Text>
+                    <TouchableOpacity
+                      style={styles.stepperButton}
+                      onPress={() => setQuantity(item, quantity + 1)}>
+                      <Plus size={16} color="#6B7280" />
+                    </TouchableOpacity>
+                  </View>
+                </View>
+              );
+            })}
+          </ScrollView>
+
+          <Text style={styles.label}>Refund Method</Text>
+          <View style={styles.methodRow}>
+            {(Object.keys(PAYMENT_METHOD_LABELS) as PaymentMethod[])
+              .filter(option => option !== 'points' || allowPoints)
+              .map(option => (
+                <TouchableOpacity
+                  key={option}
+                  style={[styles.methodOption, method === option && styles.methodOptionActive]}
+                  onPress={() => setMethod(option)}>
+                  <Text style={[styles.methodOptionText, method === option && styles.methodOptionTextActive]}>
+                    {PAYMENT_METHOD_LABELS[option]}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+          </View>
+
+          <TextInput
+            style={styles.input}
+            value={reason}
+            onChangeText={setReason}
+            placeholder="Reason (optional)"
+          />
+
+          <View style={styles.restockRow}>
+            <Text style={styles.label}>Return items to stock</Text>
+            <Switch value={restock} onValueChange={setRestock} />
+          </View>
+
+          <View style={styles.totalRow}>
+            <Text style={styles.totalLabel}>Refund</Text>
+            <Text style={styles.totalValue}>{formatPrice(refundTotal)}</Text>
+          </View>
+
+          <View style={styles.modalActions}>
+            <TouchableOpacity style={styles.cancelButton} onPress={onClose} disabled={processing}>
+              <Text style={styles.cancelButtonText}>Cancel</Text>
+            </TouchableOpacity>
+            <TouchableOpacity style={styles.refundButton} onPress={handleSubmit} disabled={processing}>
+              {processing ? (
+                <ActivityIndicator color="#FFFFFF" />
+              ) : (
+                <Text style={styles.refundButtonText}>Refund</Text>
+              )}
+            </TouchableOpacity>
+          </View>
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  modalContent: {
+    backgroundColor: '#FFFFFF',
+    borderRadius: 16,
+    padding: 24,
+    width: '90%',
+    maxWidth: 420,
+    gap: 12,
+  },
+  modalHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  modalTitle: {
+    fontSize: 20,
+    fontWeight: '700',
+    color: '#111827',
+  },
+  returnAllText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#3B82F6',
+  },
+  itemList: {
+    maxHeight: 240,
+  },
+  itemRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 8,
+    borderBottomWidth: 1,
+    borderBottomColor: '#F3F4F6',
+  },
+  itemInfo: {
+    flex: 1,
+  },
+  itemName: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#111827',
+  },
+  itemMeta: {
+    fontSize: 12,
+    color: '#6B7280',
+    marginTop: 2,
+  },
+  stepper: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  stepperButton: {
+    width: 28,
+    height: 28,
+    borderRadius: 6,
+    backgroundColor: '#F3F4F6',
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  stepperValue: {
+    minWidth: 20,
+    textAlign: 'center',
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#111827',
+  },
+  label: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#374151',
+  },
+  methodRow: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  methodOption: {
+    flex: 1,
+    padding: 10,
+    borderRadius: 8,
+    backgroundColor: '#F3F4F6',
+    alignItems: 'center',
+  },
+  methodOptionActive: {
+    backgroundColor: '#3B82F6',
+  },
+  methodOptionText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#6B7280',
+  },
+  methodOptionTextActive: {
+    color: '#FFFFFF',
+  },
+  input: {
+    backgroundColor: '#F9FAFB',
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+    borderRadius: 8,
+    padding: 12,
+    fontSize: 16,
+    color: '#111827',
+  },
+  restockRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  totalRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    paddingTop: 8,
+    borderTopWidth: 1,
+    borderTopColor: '#E5E7EB',
+  },
+  totalLabel: {
+    fontSize: 18,
+    fontWeight: '700',
+    color: '#111827',
+  },
+  totalValue: {
+    fontSize: 18,
+    fontWeight: '700',
+    color: '#EF4444',
+  },
+  modalActions: {
+    flexDirection: 'row',
+    gap: 12,
+    marginTop: 8,
+  },
+  cancelButton: {
+    flex: 1,
+    padding: 12,
+    borderRadius: 8,
+    backgroundColor: '#F3F4F6',
+    alignItems: 'center',
+  },
+  cancelButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#6B7280',
+  },
+  refundButton: {
+    flex: 1,
+    padding: 12,
+    borderRadius: 8,
+    backgroundColor: '#EF4444',
+    alignItems: 'center',
+  },
+  refundButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#FFFFFF',
+  },
+});
@@ -0,0 +1,246 @@
+import { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  StyleSheet,
+  Modal,
+  Alert,
+  ActivityIndicator,
+} from 'react-native';
+import { adjustProductStock } from '@/services/stock.service';
+import {
+  formatQuantityChange,
+  getAdjustmentChange,
+  StockAdjustmentReason,
+  STOCK_ADJUSTMENT_REASONS,
+  STOCK_REASON_LABELS,
+} from '@/utils/stock';
+
+type StockAdjustmentModalProps = {
+  visible: boolean;
+  product: { id: string; name: string; stock: number } | null;
+  onClose: () => void;
+  onAdjusted: (stock: number) => void;
+};
+
+export default function StockAdjustmentModal({ visible, product, onClose, onAdjusted }: StockAdjustmentModalProps) {
+  const [reason, setReason] = useState<StockAdjustmentReason>('receiving');
+  const [quantity, setQuantity] = useState('');
+  const [note, setNote] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (visible) {
+      setReason('receiving');
+      setQuantity('');
+      setNote('');
+    }
+  }, [visible]);
+
+  if (!product) return null;
+
+  const entered = parseInt(quantity, 10);
+  const change = isNaN(entered) ? null : getAdjustmentChange(reason, product.stock, entered);
+
+  const handleSave = async () => {
+    if (isNaN(entered) || entered < 0 || (reason !== 'count_correction' && entered === 0)) {
+      Alert.alert('Error', 'Please enter a valid quantity');
+      return;
+    }
+    if (change === 0) {
+      Alert.alert('No Change', 'The counted quantity matches the current stock.');
+      return;
+    }
+    if (change !== null && product.stock + change < 0) {
+      Alert.alert('Error', `Only ${product.stock} in stock`);
+      return;
+    }
+    if (reason === 'damage' && !note.trim()) {
+      Alert.alert('Error', 'Please describe the damage');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const result = await adjustProductStock(product.id, change as number, reason, note.trim() || null);
+      if (result.error || result.data === null) throw new Error(result.error || 'Failed to adjust stock');
+
+      onAdjusted(result.data);
+    } catch (error: any) {
+      console.error('Error adjusting stock:', error);
+      Alert.alert('Error', error.message || 'Failed to adjust stock');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Modal visible={visible} transparent animationType="slide" onRequestClose={onClose}>
+      <View style={styles.modalOverlay}>
+        <View style={styles.modalContent}>
+          <Text style={styles.modalTitle}>Adjust Stock</Text>
+          <Text style={styles.modalSubtitle} numberOfLines={1}>
+            {product.name} · {product.stock} in stock
+          </Text>
+
+          <Text style={styles.label}>Reason</Text>
+          <View style={styles.reasonOptions}>
+            {STOCK_ADJUSTMENT_REASONS.map(option => (
+              <TouchableOpacity
+                key={option}
+                style={[styles.reasonOption, reason === option && styles.reasonOptionActive]}
+                onPress={() => setReason(option)}>
+                <Text style={[styles.reasonOptionText, reason === option && styles.reasonOptionTextActive]}>
+                  {STOCK_REASON_LABELS[option]}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+
+          <Text style={styles.label}>
+            {reason === 'count_correction' ? 'Counted Quantity' : reason === 'damage' ? 'Quantity Damaged' : 'Quantity Received'}
+          </Text>
+          <TextInput
+            style={styles.input}
+            value={quantity}
+            onChangeText={setQuantity}
+            placeholder="0"
+            keyboardType="number-pad"
+          />
+          {change !== null && (
+            <Text style={styles.preview}>
+              {formatQuantityChange(change)} → {product.stock + change} in stock
+            </Text>
+          )}
+
+          <Text style={styles.label}>Note{reason === 'damage' ? '' : ' (optional)'}</Text>
+          <TextInput
+            style={[styles.input, styles.multilineInput]}
+            value={note}
+            onChangeText={setNote}
+            placeholder={reason === 'damage' ? 'What happened?' : 'Delivery receipt no., count sheet, ...'}
+            multiline
+          />
+
+          <View style={styles.modalActions}>
+            <TouchableOpacity style={styles.cancelButton} onPress={onClose} disabled={saving}>
+              <Text style={styles.cancelButtonText}>Cancel</Text>
+            </TouchableOpacity>
+            <TouchableOpacity style={styles.saveButton} onPress={handleSave} disabled={saving}>
+              {saving ? (
+                <ActivityIndicator color="#FFFFFF" />
+              ) : (
+                <Text style={styles.saveButtonText}>Save</Text>
+              )}
+            </TouchableOpacity>
+          </View>
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  modalContent: {
+    backgroundColor: '#FFFFFF',
+    borderRadius: 16,
+    padding: 24,
+    width: '90%',
+    maxWidth: 400,
+  },
+  modalTitle: {
+    fontSize: 20,
+    fontWeight: '700',
+    color: '#111827',
+  },
+  modalSubtitle: {
+    fontSize: 14,
+    color: '#6B7280',
+    marginTop: 2,
+  },
+  label: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#374151',
+    marginBottom: 6,
+    marginTop: 12,
+  },
+  reasonOptions: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  reasonOption: {
+    flex: 1,
+    padding: 10,
+    borderRadius: 8,
+    backgroundColor: '#F3F4F6',
+    alignItems: 'center',
+  },
+  reasonOptionActive: {
+    backgroundColor: '#3B82F6',
+  },
+  reasonOptionText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#6B7280',
+    textAlign: 'center',
+  },
+  reasonOptionTextActive: {
+    color: '#FFFFFF',
+  },
+  input: {
+    backgroundColor: '#F9FAFB',
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+    borderRadius: 8,
+    padding: 12,
+    fontSize: 16,
+    color: '#111827',
+  },
+  multilineInput: {
+    minHeight: 60,
+    textAlignVertical: 'top',
+  },
+  preview: {
+    fontSize: 13,
+    color: '#6B7280',
+    marginTop: 6,
+  },
+  modalActions: {
+    flexDirection: 'row',
+    gap: 12,
+    marginTop: 20,
+  },
+  cancelButton: {
+    flex: 1,
+    padding: 12,
+    borderRadius: 8,
+    backgroundColor: '#F3F4F6',
+    alignItems: 'center',
+  },
+  cancelButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#6B7280',
+  },
+  saveButton: {
+    flex: 1,
+    padding: 12,
+    borderRadius: 8,
+    backgroundColor: '#3B82F6',
+    alignItems: 'center',
+  },
+  saveButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#FFFFFF',
+  },
+});
@@ -0,0 +1,190 @@
+import { useState, useEffect } from 'react';
+import { View, Text, TouchableOpacity, StyleSheet, Modal, ScrollView, ActivityIndicator } from 'react-native';
+import { fetchStockHistory } from '@/services/stock.service';
+import { formatQuantityChange, formatStockReference, StockLog, STOCK_REASON_LABELS } from '@/utils/stock';
+
+type StockHistoryModalProps = {
+  visible: boolean;
+  product: { id: string; name: string; stock: number } | null;
+  onClose: () => void;
+};
+
+const formatDate = (dateString: string) =>
+  new Date(dateString).toLocaleString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+
+export default function StockHistoryModal({ visible, product, onClose }: StockHistoryModalProps) {
+  const [logs, setLogs] = useState<StockLog[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!visible || !product) return;
+
+    const loadHistory = async () => {
+      setLoading(true);
+      setError(null);
+      const result = await fetchStockHistory(product.id);
+      if (result.error) {
+        setError(result.error);
+      } else {
+        setLogs(result.data || []);
+      }
+      setLoading(false);
+    };
+
+    loadHistory();
+  }, [visible, product]);
+
+  if (!product) return null;
+
+  return (
+    <Modal visible={visible} transparent animationType="slide" onRequestClose={onClose}>
+      <View style={styles.modalOverlay}>
+        <View style={styles.modalContent}>
+          <View style={styles.modalHeader}>
+            <View style={styles.headerText}>
+              <Text style={styles.modalTitle}>Stock History</Text>
+              <Text style={styles.modalSubtitle} numberOfLines={1}>
+                {product.name} · {product.stock} in stock
+              </Text>
+            </View>
+            <TouchableOpacity onPress={onClose}>
+              <Text style={styles.closeButton}>✕</Text>
+            </TouchableOpacity>
+          </View>
+
+          {loading ? (
+            <ActivityIndicator size="large" color="#3B82F6" style={styles.loader} />
+          ) : error ? (
+            <Text style={styles.errorText}>{error}</Text>
+          ) : logs.length === 0 ? (
+            <Text style={styles.emptyText}>No stock movements recorded yet</Text>
+          ) : (
+            <ScrollView style={styles.list}>
+              {logs.map(log => {
+                const reference = formatStockReference(log);
+                const by = log.profiles?.full_name || log.profiles?.email;
+                return (
+                  <View key={log.id} style={styles.logRow}>
+                    <View style={styles.logMain}>
+                      <Text style={styles.logReason}>{STOCK_REASON_LABELS[log.reason]}</Text>
+                      <Text style={[styles.logChange, log.quantity_change < 0 ? styles.decrease : styles.increase]}>
+                        {formatQuantityChange(log.quantity_change)}
+                      </Text>
+                    </View>
+                    <Text style={styles.logDetail}>
+                      {formatDate(log.created_at)} · {log.remaining_stock} left
+                    </Text>
+                    {(reference || by) && (
+                      <Text style={styles.logDetail}>
+                        {[reference, by ? `by ${by}` : null].filter(Boolean).join(' · ')}
+                      </Text>
+                    )}
+                    {log.note && <Text style={styles.logNote}>{log.note}</Text>}
+                  </View>
+                );
+              })}
+            </ScrollView>
+          )}
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  modalContent: {
+    backgroundColor: '#FFFFFF',
+    borderRadius: 16,
+    padding: 24,
+    width: '90%',
+    maxWidth: 480,
+    maxHeight: '90%',
+    gap: 12,
+  },
+  modalHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'flex-start',
+    gap: 12,
+  },
+  headerText: {
+    flex: 1,
+  },
+  modalTitle: {
+    fontSize: 20,
+    fontWeight: '700',
+    color: '#111827',
+  },
+  modalSubtitle: {
+    fontSize: 14,
+    color: '#6B7280',
+    marginTop: 2,
+  },
+  closeButton: {
+    fontSize: 24,
+    color: '#6B7280',
+  },
+  loader: {
+    marginVertical: 24,
+  },
+  errorText: {
+    fontSize: 14,
+    color: '#EF4444',
+  },
+  emptyText: {
+    fontSize: 14,
+    color: '#6B7280',
+    textAlign: 'center',
+    marginVertical: 24,
+  },
+  list: {
+    flexGrow: 0,
+  },
+  logRow: {
+    paddingVertical: 10,
+    borderBottomWidth: 1,
+    borderBottomColor: '#F3F4F6',
+    gap: 2,
+  },
+  logMain: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+  },
+  logReason: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#111827',
+  },
+  logChange: {
+    fontSize: 15,
+    fontWeight: '700',
+  },
+  increase: {
+    color: '#10B981',
+  },
+  decrease: {
+    color: '#EF4444',
+  },
+  logDetail: {
+    fontSize: 12,
+    color: '#6B7280',
+  },
+  logNote: {
+    fontSize: 12,
+    color: '#374151',
+    fontStyle: 'italic',
+  },
+});
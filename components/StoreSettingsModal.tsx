@@ -0,0 +1,240 @@
+import { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  StyleSheet,
+  Modal,
+  Alert,
+  ScrollView,
+  ActivityIndicator,
+} from 'react-native';
+import { useStoreInfo } from '@/hooks/useStoreInfo';
+import { updateStoreInfo } from '@/services/store.service';
+import { ReceiptWidth, RECEIPT_COLUMNS } from '@/utils/receipt';
+
+type StoreSettingsModalProps = {
+  visible: boolean;
+  onClose: () => void;
+};
+
+export default function StoreSettingsModal({ visible, onClose }: StoreSettingsModalProps) {
+  const { storeInfo, reloadStoreInfo } = useStoreInfo();
+  const [storeName, setStoreName] = useState('');
+  const [tin, setTin] = useState('');
+  const [address, setAddress] = useState('');
+  const [phone, setPhone] = useState('');
+  const [footer, setFooter] = useState('');
+  const [receiptWidth, setReceiptWidth] = useState<ReceiptWidth>('58mm');
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (visible) {
+      setStoreName(storeInfo.storeName);
+      setTin(storeInfo.tin ?? '');
+      setAddress(storeInfo.address ?? '');
+      setPhone(storeInfo.phone ?? '');
+      setFooter(storeInfo.footer ?? '');
+      setReceiptWidth(storeInfo.receiptWidth);
+    }
+  }, [visible, storeInfo]);
+
+  const handleSave = async () => {
+    if (!storeName.trim()) {
+      Alert.alert('Error', 'Please enter the store name');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const result = await updateStoreInfo({
+        storeName: storeName.trim(),
+        tin: tin.trim() || null,
+        address: address.trim() || null,
+        phone: phone.trim() || null,
+        footer: footer.trim() || null,
+        receiptWidth,
+      });
+      if (result.error) throw new Error(result.error);
+
+      await reloadStoreInfo();
+      onClose();
+      Alert.alert('Success', 'Store settings saved');
+    } catch (error: any) {
+      console.error('Error saving store settings:', error);
+      Alert.alert('Error', error.message || 'Failed to save store settings');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Modal visible={visible} transparent animationType="slide" onRequestClose={onClose}>
+      <View style={styles.modalOverlay}>
+        <View style={styles.modalContent}>
+          <Text style={styles.modalTitle}>Store & Receipt</Text>
+
+          <ScrollView style={styles.form}>
+            <Text style={styles.label}>Store Name</Text>
+            <TextInput style={styles.input} value={storeName} onChangeText={setStoreName} placeholder="Store name" />
+
+            <Text style={styles.label}>TIN</Text>
+            <TextInput style={styles.input} value={tin} onChangeText={setTin} placeholder="000-000-000-000" />
+
+            <Text style={styles.label}>Address</Text>
+            <TextInput
+              style={[styles.input, styles.multilineInput]}
+              value={address}
+              onChangeText={setAddress}
+              placeholder="Store address"
+              multiline
+            />
+
+            <Text style={styles.label}>Phone</Text>
+            <TextInput
+              style={styles.input}
+              value={phone}
+              onChangeText={setPhone}
+              placeholder="Contact number"
+              keyboardType="phone-pad"
+            />
+
+            <Text style={styles.label}>Receipt Footer</Text>
+            <TextInput
+              style={[styles.input, styles.multilineInput]}
+              value={footer}
+              onChangeText={setFooter}
+              placeholder="Thank you for your purchase!"
+              multiline
+            />
+
+            <Text style={styles.label}>Paper Width</Text>
+            <View style={styles.widthToggle}>
+              {(Object.keys(RECEIPT_COLUMNS) as ReceiptWidth[]).map(option => (
+                <TouchableOpacity
+                  key={option}
+                  style={[styles.widthOption, receiptWidth === option && styles.widthOptionActive]}
+                  onPress={() => setReceiptWidth(option)}>
+                  <Text style={[styles.widthOptionText, receiptWidth === option && styles.widthOptionTextActive]}>
+                    {option}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+          </ScrollView>
+
+          <View style={styles.modalActions}>
+            <TouchableOpacity style={styles.cancelButton} onPress={onClose} disabled={saving}>
+              <Text style={styles.cancelButtonText}>Cancel</Text>
+            </TouchableOpacity>
+            <TouchableOpacity style={styles.saveButton} onPress={handleSave} disabled={saving}>
+              {saving ? (
+                <ActivityIndicator color="#FFFFFF" />
+              ) : (
+                <Text style={styles.saveButtonText}>Save</Text>
+              )}
+            </TouchableOpacity>
+          </View>
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  modalContent: {
+    backgroundColor: '#FFFFFF',
+    borderRadius: 16,
+    padding: 24,
+    width: '90%',
+    maxWidth: 400,
+    maxHeight: '90%',
+  },
+  modalTitle: {
+    fontSize: 20,
+    fontWeight: '700',
+    color: '#111827',
+    marginBottom: 12,
+  },
+  form: {
+    flexGrow: 0,
+  },
+  label: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#374151',
+    marginBottom: 6,
+    marginTop: 12,
+  },
+  input: {
+    backgroundColor: '#F9FAFB',
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+    borderRadius: 8,
+    padding: 12,
+    fontSize: 16,
+    color: '#111827',
+  },
+  multilineInput: {
+    minHeight: 60,
+    textAlignVertical: 'top',
+  },
+  widthToggle: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  widthOption: {
+    flex: 1,
+    padding: 10,
+    borderRadius: 8,
+    backgroundColor: '#F3F4F6',
+    alignItems: 'center',
+  },
+  widthOptionActive: {
+    backgroundColor: '#3B82F6',
+  },
+  widthOptionText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#6B7280',
+  },
+  widthOptionTextActive: {
+    color: '#FFFFFF',
+  },
+  modalActions: {
+    flexDirection: 'row',
+    gap: 12,
+    marginTop: 20,
+  },
+  cancelButton: {
+    flex: 1,
+    padding: 12,
+    borderRadius: 8,
+    backgroundColor: '#F3F4F6',
+    alignItems: 'center',
+  },
+  cancelButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#6B7280',
+  },
+  saveButton: {
+    flex: 1,
+    padding: 12,
+    borderRadius: 8,
+    backgroundColor: '#3B82F6',
+    alignItems: 'center',
+  },
+  saveButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#FFFFFF',
+  },
+});
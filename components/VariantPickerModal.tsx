@@ -0,0 +1,144 @@
+import { View, Text, TouchableOpacity, StyleSheet, Modal, ScrollView } from 'react-native';
+import { formatPrice } from '@/utils/currency';
+
+type VariantOption = {
+  id: string;
+  name: string;
+  price: number;
+  stock: number;
+  variant_name?: string | null;
+};
+
+type VariantPickerModalProps<T extends VariantOption> = {
+  visible: boolean;
+  productName: string;
+  variants: T[];
+  // Quantity of each variant already in the cart, by product id
+  cartQuantities: Record<string, number>;
+  onSelect: (variant: T) => void;
+  onClose: () => void;
+};
+
+export default function VariantPickerModal<T extends VariantOption>({
+  visible,
+  productName,
+  variants,
+  cartQuantities,
+  onSelect,
+  onClose,
+}: VariantPickerModalProps<T>) {
+  return (
+    <Modal visible={visible} transparent animationType="slide" onRequestClose={onClose}>
+      <View style={styles.modalOverlay}>
+        <View style={styles.modalContent}>
+          <View style={styles.modalHeader}>
+            <Text style={styles.modalTitle}>{productName}</Text>
+            <TouchableOpacity onPress={onClose}>
+              <Text style={styles.closeButton}>✕</Text>
+            </TouchableOpacity>
+          </View>
+          <Text style={styles.modalSubtitle}>Choose an option</Text>
+
+          <ScrollView style={styles.list}>
+            {variants.map(variant => {
+              const inCart = cartQuantities[variant.id] ?? 0;
+              const available = variant.stock - inCart;
+              const disabled = available <= 0;
+              return (
+                <TouchableOpacity
+                  key={variant.id}
+                  style={[styles.option, disabled && styles.optionDisabled]}
+                  onPress={() => onSelect(variant)}
+                  disabled={disabled}>
+                  <View style={styles.optionInfo}>
+                    <Text style={styles.optionName}>{variant.variant_name ?? variant.name}</Text>
+                    <Text style={[styles.optionStock, variant.stock <= 0 && styles.optionStockOut]}>
+                      {variant.stock <= 0 ? 'Out of stock' : `${variant.stock} in stock`}
+                      {inCart > 0 && ` · ${inCart} in cart`}
+                    </Text>
+                  </View>
+                  <Text style={styles.optionPrice}>{formatPrice(variant.price)}</Text>
+                </TouchableOpacity>
+              );
+            })}
+          </ScrollView>
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  modalContent: {
+    backgroundColor: '#FFFFFF',
+    borderRadius: 16,
+    padding: 24,
+    width: '90%',
+    maxWidth: 400,
+    maxHeight: '90%',
+  },
+  modalHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  modalTitle: {
+    fontSize: 20,
+    fontWeight: '700',
+    color: '#111827',
+  },
+  modalSubtitle: {
+    fontSize: 14,
+    color: '#6B7280',
+    marginTop: 2,
+    marginBottom: 12,
+  },
+  closeButton: {
+    fontSize: 24,
+    color: '#6B7280',
+  },
+  list: {
+    flexGrow: 0,
+  },
+  option: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+    borderRadius: 8,
+    padding: 14,
+    marginBottom: 8,
+    gap: 12,
+  },
+  optionDisabled: {
+    opacity: 0.5,
+  },
+  optionInfo: {
+    flex: 1,
+  },
+  optionName: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#111827',
+  },
+  optionStock: {
+    fontSize: 12,
+    color: '#6B7280',
+    marginTop: 2,
+  },
+  optionStockOut: {
+    color: '#EF4444',
+  },
+  optionPrice: {
+    fontSize: 16,
+    fontWeight: '700',
+    color: '#3B82F6',
+  },
+});
@@ -1,24 +1,58 @@
-import React, { createContext, useContext, useState, ReactNode, useCallback } from 'react';
-import { formatPrice } from '@/utils/currency';
-
-type Product = {
-  id: string;
-  name: string;
-  price: number;
-  stock: number;
-};
+import React, { createContext, useContext, useState, useEffect, useRef, ReactNode, useCallback } from 'react';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as Crypto from 'expo-crypto';
+import { useAuth } from '@/contexts/AuthContext';
+import { fetchProductsForCart, validateCartStock } from '@/services/cart.service';
+import { recallSharedTicket, shareTicket } from '@/services/tickets.service';
+import { Discount } from '@/utils/discounts';
+import { getCartLineKey, SelectedModifier } from '@/utils/modifiers';
+import { getUnitPrice } from '@/utils/tax';
+import {
+  CartItem,
+  CartProduct as Product,
+  getCartStorageKey,
+  getDefaultTicketName,
+  getHandoffTicketName,
+  HeldTicket,
+  refreshCartItems,
+  resolveSignInCart,
+  shouldStoreCart,
+  StoredCart,
+  TicketCustomer,
+} from '@/utils/tickets';
+
+const TICKETS_STORAGE_KEY = 'boltpos:held-tickets';
+// A cart left for whoever signs in next on this device
+const HANDOFF_STORAGE_KEY = 'boltpos:cart-handoff';
 
-type CartItem = {
-  product: Product;
-  quantity: number;
+export type RecallResult = {
+  // Null when the ticket could not be recalled
+  ticket: HeldTicket | null;
+  error: string | null;
+  // Products dropped or repriced since the ticket was held
+  removed: string[];
+  repriced: string[];
+  stockErrors: Array<{productName: string; requestedQty: number; availableStock: number}>;
 };
 
 type CartContextType = {
   cart: CartItem[];
-  addToCart: (product: Product) => boolean;
-  removeFromCart: (productId: string) => void;
-  updateQuantity: (productId: string, quantity: number) => boolean;
+  addToCart: (product: Product, modifiers?: SelectedModifier[]) => boolean;
+  removeFromCart: (lineKey: string) => void;
+  updateQuantity: (lineKey: string, quantity: number) => boolean;
   clearCart: () => void;
+  setItemDiscount: (lineKey: string, discount: Discount | null) => void;
+  orderDiscount: Discount | null;
+  setOrderDiscount: (discount: Discount | null) => void;
+  customer: TicketCustomer | null;
+  setCustomer: (customer: TicketCustomer | null) => void;
+  // Name of the held ticket the cart was recalled from
+  ticketName: string | null;
+  heldTickets: HeldTicket[];
+  holdCart: (name: string, share?: boolean) => Promise<{ ticket: HeldTicket | null; error: string | null }>;
+  recallTicket: (ticket: HeldTicket) => Promise<RecallResult>;
+  discardTicket: (ticket: HeldTicket) => Promise<string | null>;
+  transferCart: () => Promise<void>;
   getCartTotal: () => number;
   getCartCount: () => number;
   checkCartStockAvailability: (products: Product[]) => {
@@ -29,47 +63,186 @@ type CartContextType = {
 
 const CartContext = createContext<CartContextType | undefined>(undefined);
 
+// Lines of the same product with different modifiers share its stock
+const getProductQuantity = (cart: CartItem[], productId: string) =>
+  cart.reduce((sum, item) => (item.product.id === productId ? sum + item.quantity : sum), 0);
+
+// Lines that sat in storage may have stale prices and stock. Offline, the
+// stored prices are kept; checkout re-checks everything anyway.
+const refreshItems = async (items: CartItem[]): Promise<Omit<RecallResult, 'ticket' | 'error'> & { items: CartItem[] }> => {
+  const productIds = Array.from(new Set(items.map(item => item.product.id)));
+  const productsResult = await fetchProductsForCart(productIds);
+  if (!productsResult.data) {
+    console.error('Cart: Error refreshing cart products:', productsResult.error);
+    return { items, removed: [], repriced: [], stockErrors: [] };
+  }
+
+  const refreshed = refreshCartItems(items, productsResult.data);
+  const stockResult = await validateCartStock(
+    Array.from(new Set(refreshed.items.map(item => item.product.id))).map(productId => ({
+      product_id: productId,
+      quantity: getProductQuantity(refreshed.items, productId),
+    }))
+  );
+  return { ...refreshed, stockErrors: stockResult.data?.errors ?? [] };
+};
+
 export function CartProvider({ children }: { children: ReactNode }) {
+  const { user, profile } = useAuth();
   const [cart, setCart] = useState<CartItem[]>([]);
+  const [orderDiscount, setOrderDiscount] = useState<Discount | null>(null);
+  const [customer, setCustomer] = useState<TicketCustomer | null>(null);
+  const [ticketName, setTicketName] = useState<string | null>(null);
+  const [heldTickets, setHeldTickets] = useState<HeldTicket[]>([]);
+  // The user whose stored cart is loaded; nothing is saved until it is set
+  const [cartOwner, setCartOwner] = useState<string | null>(null);
+
+  // Holding and recalling await the network, so they work off the latest list
+  const heldTicketsRef = useRef<HeldTicket[]>([]);
+  const cartOwnerRef = useRef<string | null>(null);
+  const ticketsLoadedRef = useRef<Promise<void> | null>(null);
+
+  // The order discount, customer and ticket belong to the sale in progress, not the next one
+  useEffect(() => {
+    if (cart.length === 0) {
+      setOrderDiscount(null);
+      setCustomer(null);
+      setTicketName(null);
+    }
+  }, [cart.length]);
+
+  const persistTickets = useCallback(async (next: HeldTicket[]) => {
+    heldTicketsRef.current = next;
+    setHeldTickets(next);
+    try {
+      await AsyncStorage.setItem(TICKETS_STORAGE_KEY, JSON.stringify(next));
+    } catch (error) {
+      console.error('Cart: Error persisting held tickets:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    ticketsLoadedRef.current = AsyncStorage.getItem(TICKETS_STORAGE_KEY)
+      .then(stored => {
+        if (stored) {
+          const parsed: HeldTicket[] = JSON.parse(stored);
+          heldTicketsRef.current = parsed;
+          setHeldTickets(parsed);
+        }
+      })
+      .catch(error => {
+        console.error('Cart: Error loading held tickets:', error);
+      });
+  }, []);
+
+  const changeCartOwner = useCallback((userId: string | null) => {
+    cartOwnerRef.current = userId;
+    setCartOwner(userId);
+  }, []);
+
+  // Swap in the signed-in cashier's cart, and pick up a cart handed off by
+  // the previous cashier. Signing out leaves the stored cart alone, so a
+  // session that expires mid-sale gets its cart back on the next sign-in.
+  const userId = user?.id ?? null;
+  useEffect(() => {
+    changeCartOwner(null);
+    setCart([]);
+    if (!userId) return;
+
+    let cancelled = false;
+    (async () => {
+      let stored: StoredCart | null = null;
+      let handoff: HeldTicket | null = null;
+      try {
+        const [storedJson, handoffJson] = await Promise.all([
+          AsyncStorage.getItem(getCartStorageKey(userId)),
+          AsyncStorage.getItem(HANDOFF_STORAGE_KEY),
+        ]);
+        stored = storedJson ? JSON.parse(storedJson) : null;
+        handoff = handoffJson ? JSON.parse(handoffJson) : null;
+      } catch (error) {
+        console.error('Cart: Error loading stored cart:', error);
+      }
+      if (cancelled) return;
+
+      if (handoff) {
+        await AsyncStorage.removeItem(HANDOFF_STORAGE_KEY).catch(error => {
+          console.error('Cart: Error clearing handed off cart:', error);
+        });
+      }
+      const { cart: restored, held } = resolveSignInCart(stored, handoff);
+      if (held) {
+        await ticketsLoadedRef.current;
+        await persistTickets([...heldTicketsRef.current, held]);
+      }
+
+      const refreshed = restored ? await refreshItems(restored.items) : null;
+      if (cancelled) return;
+
+      if (restored && refreshed) {
+        console.log('Cart: Restored cart for user:', userId, refreshed.removed.length > 0 ? `(dropped ${refreshed.removed.join(', ')})` : '');
+        setCart(refreshed.items);
+        setOrderDiscount(restored.orderDiscount);
+        setCustomer(restored.customer);
+        setTicketName(restored.ticketName);
+      }
+      changeCartOwner(userId);
+    })();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [userId, changeCartOwner, persistTickets]);
+
+  useEffect(() => {
+    if (!cartOwner) return;
 
-  const addToCart = useCallback((product: Product) => {
+    const key = getCartStorageKey(cartOwner);
+    const stored: StoredCart = { items: cart, orderDiscount, customer, ticketName };
+    (shouldStoreCart(stored) ? AsyncStorage.setItem(key, JSON.stringify(stored)) : AsyncStorage.removeItem(key))
+      .catch(error => {
+        console.error('Cart: Error persisting cart:', error);
+      });
+  }, [cartOwner, cart, orderDiscount, customer, ticketName]);
+
+  const addToCart = useCallback((product: Product, modifiers: SelectedModifier[] = []) => {
     // Check if product has sufficient stock
     if (product.stock <= 0) {
       return false;
     }
 
+    const key = getCartLineKey(product.id, modifiers);
     let didUpdate = false;
 
     setCart(prevCart => {
-      const existingItem = prevCart.find(item => item.product.id === product.id);
+      // Check if adding one more would exceed available stock
+      if (getProductQuantity(prevCart, product.id) + 1 > product.stock) {
+        didUpdate = false;
+        return prevCart; // Don't update if stock is insufficient
+      }
+      didUpdate = true;
+      const existingItem = prevCart.find(item => item.key === key);
       if (existingItem) {
-        // Check if adding one more would exceed available stock
-        if (existingItem.quantity + 1 > product.stock) {
-          didUpdate = false;
-          return prevCart; // Don't update if stock is insufficient
-        }
-        didUpdate = true;
         return prevCart.map(item =>
-          item.product.id === product.id
+          item.key === key
             ? { ...item, quantity: item.quantity + 1 }
             : item
         );
       } else {
-        didUpdate = true;
-        return [...prevCart, { product, quantity: 1 }];
+        return [...prevCart, { key, product, quantity: 1, modifiers }];
       }
     });
     
     return didUpdate;
   }, []);
 
-  const removeFromCart = useCallback((productId: string) => {
-    setCart(prevCart => prevCart.filter(item => item.product.id !== productId));
+  const removeFromCart = useCallback((lineKey: string) => {
+    setCart(prevCart => prevCart.filter(item => item.key !== lineKey));
   }, []);
 
-  const updateQuantity = useCallback((productId: string, quantity: number) => {
+  const updateQuantity = useCallback((lineKey: string, quantity: number) => {
     if (quantity <= 0) {
-      removeFromCart(productId);
+      removeFromCart(lineKey);
       return true;
     }
     
@@ -77,9 +250,10 @@ export function CartProvider({ children }: { children: ReactNode }) {
     
     setCart(prevCart =>
       prevCart.map(item => {
-        if (item.product.id === productId) {
+        if (item.key === lineKey) {
           // Check if the requested quantity exceeds available stock
-          if (quantity > item.product.stock) {
+          const otherLines = getProductQuantity(prevCart, item.product.id) - item.quantity;
+          if (otherLines + quantity > item.product.stock) {
             isValid = false;
             return item; // Don't update if stock is insufficient
           }
@@ -94,10 +268,121 @@ export function CartProvider({ children }: { children: ReactNode }) {
 
   const clearCart = useCallback(() => {
     setCart([]);
+    setOrderDiscount(null);
+    setCustomer(null);
+    setTicketName(null);
+    // Removed right away as well, since clearing often comes just before signing out
+    if (cartOwnerRef.current) {
+      AsyncStorage.removeItem(getCartStorageKey(cartOwnerRef.current)).catch(error => {
+        console.error('Cart: Error clearing stored cart:', error);
+      });
+    }
+  }, []);
+
+  const buildTicket = useCallback((name: string): HeldTicket => ({
+    id: Crypto.randomUUID(),
+    name: name.trim() || ticketName || getDefaultTicketName(heldTicketsRef.current),
+    items: cart,
+    orderDiscount,
+    customer,
+    heldBy: user?.id ?? null,
+    heldAt: new Date().toISOString(),
+    shared: false,
+  }), [cart, orderDiscount, customer, ticketName, user]);
+
+  // Sets the cart aside and empties it for the next customer. A ticket that
+  // can't be shared is kept on this device and the error is returned.
+  const holdCart = useCallback(async (name: string, share = false) => {
+    if (cart.length === 0) {
+      return { ticket: null, error: 'The cart is empty' };
+    }
+
+    let ticket = buildTicket(name);
+    let error: string | null = null;
+    if (share) {
+      const result = await shareTicket(ticket);
+      if (result.data) {
+        ticket = result.data;
+      } else {
+        error = result.error;
+      }
+    }
+
+    if (!ticket.shared) {
+      await persistTickets([...heldTicketsRef.current, ticket]);
+    }
+    clearCart();
+    return { ticket, error };
+  }, [cart, buildTicket, persistTickets, clearCart]);
+
+  // Swaps the ticket into the cart; a cart in progress is held on this device
+  // so the cashier can switch back to it. Prices and stock are refreshed and
+  // re-checked since they may have changed while the ticket was held.
+  const recallTicket = useCallback(async (ticket: HeldTicket): Promise<RecallResult> => {
+    const failed = (error: string): RecallResult => ({ ticket: null, error, removed: [], repriced: [], stockErrors: [] });
+
+    let recalled = ticket;
+    if (ticket.shared) {
+      const result = await recallSharedTicket(ticket.id);
+      if (result.error) {
+        return failed(result.error);
+      }
+      if (!result.data) {
+        return failed('This ticket was already recalled or discarded on another device.');
+      }
+      recalled = result.data;
+    }
+
+    const remaining = heldTicketsRef.current.filter(held => held.id !== ticket.id);
+    await persistTickets(cart.length > 0 ? [...remaining, buildTicket('')] : remaining);
+
+    const { items, ...changes } = await refreshItems(recalled.items);
+
+    setCart(items);
+    setOrderDiscount(recalled.orderDiscount);
+    setCustomer(recalled.customer);
+    setTicketName(recalled.name);
+
+    return { ticket: recalled, error: null, ...changes };
+  }, [cart, buildTicket, persistTickets]);
+
+  const discardTicket = useCallback(async (ticket: HeldTicket) => {
+    if (ticket.shared) {
+      const result = await recallSharedTicket(ticket.id);
+      return result.error;
+    }
+    await persistTickets(heldTicketsRef.current.filter(held => held.id !== ticket.id));
+    return null;
+  }, [persistTickets]);
+
+  // Leaves the cart for the next cashier to sign in on this device
+  const transferCart = useCallback(async () => {
+    if (cart.length === 0) return;
+
+    const ticket = buildTicket(getHandoffTicketName(ticketName, profile));
+    try {
+      // A cart handed off earlier and not yet picked up waits as a ticket
+      const earlier = await AsyncStorage.getItem(HANDOFF_STORAGE_KEY);
+      if (earlier) {
+        await persistTickets([...heldTicketsRef.current, JSON.parse(earlier)]);
+      }
+      await AsyncStorage.setItem(HANDOFF_STORAGE_KEY, JSON.stringify(ticket));
+    } catch (error) {
+      // Better held than lost if the handoff can't be written
+      console.error('Cart: Error handing off cart:', error);
+      await persistTickets([...heldTicketsRef.current, ticket]);
+    }
+    clearCart();
+  }, [cart, ticketName, profile, buildTicket, persistTickets, clearCart]);
+
+  const setItemDiscount = useCallback((lineKey: string, discount: Discount | null) => {
+    setCart(prevCart =>
+      prevCart.map(item => (item.key === lineKey ? { ...item, discount } : item))
+    );
   }, []);
 
   const getCartTotal = useCallback(() => {
-    return cart.reduce((total, item) => total + (item.product.price * item.quantity), 0);
+    return cart.reduce((total, item) => total + (getUnitPrice(item) * item.quantity), 0);
   }, [cart]);
 
   const getCartCount = useCallback(() => {
@@ -107,13 +392,15 @@ export function CartProvider({ children }: { children: ReactNode }) {
   const checkCartStockAvailability = useCallback((products: Product[]) => {
     const insufficientItems: Array<{productId: string; requestedQty: number; availableStock: number}> = [];
     
-    cart.forEach(cartItem => {
-      const product = products.find(p => p.id === cartItem.product.id);
+    const productIds = Array.from(new Set(cart.map(cartItem => cartItem.product.id)));
+    productIds.forEach(productId => {
+      const product = products.find(p => p.id === productId);
+      const requestedQty = getProductQuantity(cart, productId);
       if (product) {
-        if (cartItem.quantity > product.stock) {
+        if (requestedQty > product.stock) {
           insufficientItems.push({
-            productId: cartItem.product.id,
-            requestedQty: cartItem.quantity,
+            productId,
+            requestedQty,
             availableStock: product.stock
           });
         }
@@ -132,6 +419,17 @@ export function CartProvider({ children }: { children: ReactNode }) {
     removeFromCart,
     updateQuantity,
     clearCart,
+    setItemDiscount,
+    orderDiscount,
+    setOrderDiscount,
+    customer,
+    setCustomer,
+    ticketName,
+    heldTickets,
+    holdCart,
+    recallTicket,
+    discardTicket,
+    transferCart,
     getCartTotal,
     getCartCount,
     checkCartStockAvailability
@@ -0,0 +1,275 @@
+import React, { createContext, useContext, useState, useEffect, useCallback, useRef, ReactNode } from 'react';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import NetInfo from '@react-native-community/netinfo';
+import * as Crypto from 'expo-crypto';
+import { useAuth } from '@/contexts/AuthContext';
+import { checkoutOrder, CheckoutLineError } from '@/services/orders.service';
+import { TaxExemption } from '@/utils/tax';
+import { Discount } from '@/utils/discounts';
+import { SelectedModifier } from '@/utils/modifiers';
+import { PaymentMethod, Tender } from '@/utils/payments';
+import {
+  applyReplayOutcome,
+  getAvailableSale,
+  getReplayOrder,
+  getReplayOutcome,
+  QueuedSaleStatus,
+  ReplayOutcome,
+  shouldStopReplay,
+} from '@/utils/salesQueue';
+
+const STORAGE_KEY = 'boltpos:sales-queue';
+
+export type QueuedSaleItem = {
+  product_id: string;
+  name: string;
+  // Unit price including modifiers
+  price: number;
+  quantity: number;
+  discount?: Discount | null;
+  modifiers?: SelectedModifier[];
+};
+
+export type QueuedSale = {
+  id: string; // Also sent as the checkout idempotency key
+  userId: string;
+  paymentMethod: PaymentMethod;
+  items: QueuedSaleItem[];
+  // Optional fields are missing on sales queued by older app versions
+  exemption?: TaxExemption | null;
+  orderDiscount?: Discount | null;
+  discountApprovalId?: string | null;
+  payments?: Tender[] | null;
+  // Customer attached before the connection dropped; the sale earns their points on replay
+  customerId?: string | null;
+  queuedAt: string;
+  // A conflict with no errors is a sale the server rejected outright; lastError says why
+  status: QueuedSaleStatus;
+  errors: CheckoutLineError[];
+  lastError: string | null;
+};
+
+export type QueuedSaleOptions = {
+  // The key of an online checkout attempt that failed to get an answer, so
+  // replaying cannot record the sale twice if the attempt went through
+  idempotencyKey?: string;
+  exemption?: TaxExemption | null;
+  orderDiscount?: Discount | null;
+  discountApprovalId?: string | null;
+  payments?: Tender[] | null;
+  customerId?: string | null;
+};
+
+type SalesQueueContextType = {
+  isOnline: boolean;
+  queue: QueuedSale[];
+  pendingCount: number;
+  replaying: boolean;
+  enqueueSale: (
+    items: QueuedSaleItem[],
+    paymentMethod: PaymentMethod,
+    options?: QueuedSaleOptions
+  ) => Promise<QueuedSale | null>;
+  replayQueue: () => Promise<void>;
+  retrySale: (saleId: string) => Promise<void>;
+  sellAvailable: (saleId: string) => Promise<void>;
+  discardSale: (saleId: string) => Promise<void>;
+};
+
+const SalesQueueContext = createContext<SalesQueueContextType | undefined>(undefined);
+
+export function SalesQueueProvider({ children }: { children: ReactNode }) {
+  const { user } = useAuth();
+  const [sales, setSales] = useState<QueuedSale[]>([]);
+  const [loaded, setLoaded] = useState(false);
+  const [isOnline, setIsOnline] = useState(true);
+  const [replaying, setReplaying] = useState(false);
+
+  // Refs keep replay working off the latest queue while it awaits the network
+  const salesRef = useRef<QueuedSale[]>([]);
+  const replayingRef = useRef(false);
+
+  const persist = useCallback(async (next: QueuedSale[]) => {
+    salesRef.current = next;
+    setSales(next);
+    try {
+      await AsyncStorage.setItem(STORAGE_KEY, JSON.stringify(next));
+    } catch (error) {
+      console.error('SalesQueue: Error persisting queue:', error);
+    }
+  }, []);
+
+  const updateSale = useCallback(async (saleId: string, changes: Partial<QueuedSale>) => {
+    await persist(salesRef.current.map(sale => (sale.id === saleId ? { ...sale, ...changes } : sale)));
+  }, [persist]);
+
+  const removeSale = useCallback(async (saleId: string) => {
+    await persist(salesRef.current.filter(sale => sale.id !== saleId));
+  }, [persist]);
+
+  useEffect(() => {
+    AsyncStorage.getItem(STORAGE_KEY)
+      .then(stored => {
+        if (stored) {
+          const parsed: QueuedSale[] = JSON.parse(stored);
+          salesRef.current = parsed;
+          setSales(parsed);
+        }
+      })
+      .catch(error => {
+        console.error('SalesQueue: Error loading queue:', error);
+      })
+      .finally(() => setLoaded(true));
+  }, []);
+
+  useEffect(() => {
+    const unsubscribe = NetInfo.addEventListener(state => {
+      // isInternetReachable is null until the first reachability check completes
+      setIsOnline(state.isConnected !== false && state.isInternetReachable !== false);
+    });
+    return () => unsubscribe();
+  }, []);
+
+  const submitSale = useCallback(async (sale: QueuedSale): Promise<ReplayOutcome<CheckoutLineError>> => {
+    const result = await checkoutOrder(
+      sale.items.map(item => ({
+        product_id: item.product_id,
+        quantity: item.quantity,
+        discount: item.discount ?? null,
+        modifier_ids: (item.modifiers ?? []).map(modifier => modifier.id),
+      })),
+      sale.paymentMethod,
+      {
+        idempotencyKey: sale.id,
+        exemption: sale.exemption ?? null,
+        orderDiscount: sale.orderDiscount ?? null,
+        discountApprovalId: sale.discountApprovalId ?? null,
+        payments: sale.payments ?? null,
+        customerId: sale.customerId ?? null,
+      }
+    );
+
+    const outcome = getReplayOutcome(result);
+    if (outcome.kind === 'submitted') {
+      console.log('SalesQueue: Sale submitted:', sale.id, result.data?.replayed ? '(already placed)' : '');
+    } else {
+      console.error('SalesQueue: Sale not submitted:', sale.id, outcome);
+    }
+
+    const next = applyReplayOutcome(sale, outcome);
+    if (next) {
+      await updateSale(sale.id, next);
+    } else {
+      await removeSale(sale.id);
+    }
+    return outcome;
+  }, [updateSale, removeSale]);
+
+  const replayQueue = useCallback(async () => {
+    if (!user || replayingRef.current) return;
+
+    replayingRef.current = true;
+    setReplaying(true);
+    try {
+      for (const sale of getReplayOrder(salesRef.current, user.id)) {
+        const outcome = await submitSale(sale);
+        if (shouldStopReplay(outcome)) break;
+      }
+    } finally {
+      replayingRef.current = false;
+      setReplaying(false);
+    }
+  }, [user, submitSale]);
+
+  useEffect(() => {
+    if (loaded && isOnline && user) {
+      replayQueue();
+    }
+  }, [loaded, isOnline, user, replayQueue]);
+
+  const enqueueSale = useCallback(async (
+    items: QueuedSaleItem[],
+    paymentMethod: PaymentMethod,
+    options: QueuedSaleOptions = {}
+  ) => {
+    if (!user || items.length === 0) return null;
+
+    const sale: QueuedSale = {
+      id: options.idempotencyKey ?? Crypto.randomUUID(),
+      userId: user.id,
+      paymentMethod,
+      items,
+      exemption: options.exemption ?? null,
+      orderDiscount: options.orderDiscount ?? null,
+      discountApprovalId: options.discountApprovalId ?? null,
+      payments: options.payments ?? null,
+      customerId: options.customerId ?? null,
+      queuedAt: new Date().toISOString(),
+      status: 'pending',
+      errors: [],
+      lastError: null,
+    };
+
+    await persist([...salesRef.current, sale]);
+    return sale;
+  }, [user, persist]);
+
+  const retrySale = useCallback(async (saleId: string) => {
+    const sale = salesRef.current.find(s => s.id === saleId);
+    if (!sale) return;
+
+    const retried = { ...sale, status: 'pending' as const, errors: [], lastError: null };
+    await updateSale(saleId, retried);
+    if (isOnline) {
+      await submitSale(retried);
+    }
+  }, [isOnline, updateSale, submitSale]);
+
+  const sellAvailable = useCallback(async (saleId: string) => {
+    const sale = salesRef.current.find(s => s.id === saleId);
+    if (!sale) return;
+
+    const adjusted = getAvailableSale(sale, Crypto.randomUUID());
+    if (!adjusted) {
+      await removeSale(saleId);
+      return;
+    }
+
+    await persist(salesRef.current.map(s => (s.id === saleId ? adjusted : s)));
+    if (isOnline) {
+      await submitSale(adjusted);
+    }
+  }, [isOnline, persist, removeSale, submitSale]);
+
+  const discardSale = useCallback(async (saleId: string) => {
+    await removeSale(saleId);
+  }, [removeSale]);
+
+  const queue = user ? sales.filter(sale => sale.userId === user.id) : [];
+
+  const value = {
+    isOnline,
+    queue,
+    pendingCount: queue.length,
+    replaying,
+    enqueueSale,
+    replayQueue,
+    retrySale,
+    sellAvailable,
+    discardSale,
+  };
+
+  return (
+    <SalesQueueContext.Provider value={value}>
+      {children}
+    </SalesQueueContext.Provider>
+  );
+}
+
+export function useSalesQueue() {
+  const context = useContext(SalesQueueContext);
+  if (context === undefined) {
+    throw new Error('useSalesQueue must be used within a SalesQueueProvider');
+  }
+  return context;
+}
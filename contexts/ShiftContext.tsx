@@ -0,0 +1,125 @@
+import React, { createContext, useContext, useState, useEffect, useCallback, ReactNode } from 'react';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { useAuth } from '@/contexts/AuthContext';
+import {
+  closeShift as closeShiftService,
+  fetchOpenShift,
+  openShift as openShiftService,
+  recordCashMovement as recordCashMovementService,
+} from '@/services/shifts.service';
+import { CashMovementType, Shift, ShiftReport } from '@/utils/shifts';
+
+const STORAGE_KEY = 'boltpos:open-shift';
+
+type ShiftContextType = {
+  currentShift: Shift | null;
+  loading: boolean;
+  openShift: (openingFloat: number) => Promise<string | null>;
+  recordCashMovement: (type: CashMovementType, amount: number, reason: string) => Promise<string | null>;
+  closeShift: (countedCash: number, notes?: string | null) => Promise<{ report: ShiftReport | null; error: string | null }>;
+  reloadShift: () => Promise<void>;
+};
+
+const ShiftContext = createContext<ShiftContextType | undefined>(undefined);
+
+export function ShiftProvider({ children }: { children: ReactNode }) {
+  const { user } = useAuth();
+  const [currentShift, setCurrentShift] = useState<Shift | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  // The open shift is kept on the device so sales can still be rung up offline
+  const storeShift = useCallback(async (shift: Shift | null) => {
+    setCurrentShift(shift);
+    try {
+      if (shift) {
+        await AsyncStorage.setItem(STORAGE_KEY, JSON.stringify(shift));
+      } else {
+        await AsyncStorage.removeItem(STORAGE_KEY);
+      }
+    } catch (error) {
+      console.error('Shift: Error persisting shift:', error);
+    }
+  }, []);
+
+  const reloadShift = useCallback(async () => {
+    if (!user) {
+      setCurrentShift(null);
+      setLoading(false);
+      return;
+    }
+
+    setLoading(true);
+    try {
+      const result = await fetchOpenShift(user.id);
+      if (!result.error) {
+        await storeShift(result.data);
+        return;
+      }
+
+      // Unreachable server: fall back to the shift last seen on this device
+      const stored = await AsyncStorage.getItem(STORAGE_KEY);
+      const shift: Shift | null = stored ? JSON.parse(stored) : null;
+      setCurrentShift(shift && shift.user_id === user.id ? shift : null);
+    } catch (error) {
+      console.error('Shift: Error loading shift:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [user, storeShift]);
+
+  useEffect(() => {
+    reloadShift();
+  }, [reloadShift]);
+
+  const openShift = useCallback(async (openingFloat: number) => {
+    if (!user) return 'Not signed in';
+
+    const result = await openShiftService(user.id, openingFloat);
+    if (result.error || !result.data) return result.error || 'Failed to open shift';
+
+    await storeShift(result.data);
+    return null;
+  }, [user, storeShift]);
+
+  const recordCashMovement = useCallback(async (type: CashMovementType, amount: number, reason: string) => {
+    if (!currentShift) return 'No open shift';
+
+    const result = await recordCashMovementService(currentShift.id, type, amount, reason);
+    return result.error;
+  }, [currentShift]);
+
+  const closeShift = useCallback(async (countedCash: number, notes?: string | null) => {
+    if (!currentShift) return { report: null, error: 'No open shift' };
+
+    const result = await closeShiftService(currentShift.id, countedCash, notes);
+    if (result.error || !result.data) {
+      return { report: null, error: result.error || 'Failed to close shift' };
+    }
+
+    await storeShift(null);
+    return { report: result.data, error: null };
+  }, [currentShift, storeShift]);
+
+  const value = {
+    currentShift,
+    loading,
+    openShift,
+    recordCashMovement,
+    closeShift,
+    reloadShift,
+  };
+
+  return (
+    <ShiftContext.Provider value={value}>
+      {children}
+    </ShiftContext.Provider>
+  );
+}
+
+export function useShift() {
+  const context = useContext(ShiftContext);
+  if (context === undefined) {
+    throw new Error('useShift must be used within a ShiftProvider');
+  }
+  return context;
+}
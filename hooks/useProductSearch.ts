@@ -0,0 +1,149 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { searchProducts } from '@/services/products.service';
+import {
+  getProductSearchKey,
+  isProductSearchStale,
+  mergeProductPages,
+  PRODUCT_PAGE_SIZE,
+  ProductSearchParams,
+} from '@/utils/productSearch';
+
+type CachedSearch = {
+  products: any[];
+  // Top-level products fetched so far; the next page starts here
+  offset: number;
+  hasMore: boolean;
+  fetchedAt: number;
+};
+
+// Shared across screens and kept between tab switches, so going back to a
+// category or search shows the pages already loaded straight away
+const cachedSearches = new Map<string, CachedSearch>();
+// First pages being fetched, so a search shown twice at once is fetched once
+const pendingSearches = new Map<string, Promise<CachedSearch | null>>();
+
+// Called after products change so every search is fetched again when next shown
+export function invalidateProductSearches() {
+  cachedSearches.clear();
+  pendingSearches.clear();
+}
+
+const fetchFirstPage = async (key: string, params: ProductSearchParams): Promise<CachedSearch | null> => {
+  const { data, error } = await searchProducts({ ...params, limit: PRODUCT_PAGE_SIZE, offset: 0 });
+  if (error || !data) {
+    console.error('useProductSearch: Error searching products:', error);
+    return null;
+  }
+
+  const entry = { products: data.products, offset: data.count, hasMore: data.hasMore, fetchedAt: Date.now() };
+  cachedSearches.set(key, entry);
+  return entry;
+};
+
+export function useProductSearch<T = any>(params: ProductSearchParams) {
+  const key = getProductSearchKey(params);
+  const [search, setSearch] = useState<CachedSearch | null>(cachedSearches.get(key) ?? null);
+  const [loading, setLoading] = useState(!cachedSearches.has(key));
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  // Responses for a search that is no longer shown are cached but not displayed
+  const keyRef = useRef(key);
+  keyRef.current = key;
+  const paramsRef = useRef(params);
+  paramsRef.current = params;
+  // Scroll events arrive faster than state updates, so this guards loadMore
+  const loadingMoreRef = useRef(false);
+
+  const loadFirstPage = useCallback(async (searchKey: string) => {
+    let pending = pendingSearches.get(searchKey);
+    if (!pending) {
+      pending = fetchFirstPage(searchKey, paramsRef.current);
+      pendingSearches.set(searchKey, pending);
+      const request = pending;
+      request.finally(() => {
+        if (pendingSearches.get(searchKey) === request) pendingSearches.delete(searchKey);
+      });
+    }
+
+    const entry = await pending;
+    if (keyRef.current !== searchKey) return;
+    if (entry) {
+      setSearch(entry);
+      setError(null);
+    } else {
+      // Keep showing the cached pages, if any, rather than an empty list
+      setError('Failed to load products');
+    }
+  }, []);
+
+  useEffect(() => {
+    const cached = cachedSearches.get(key) ?? null;
+    setSearch(cached);
+    setError(null);
+    if (cached && !isProductSearchStale(cached.fetchedAt)) {
+      setLoading(false);
+      return;
+    }
+
+    setLoading(!cached);
+    loadFirstPage(key).finally(() => {
+      if (keyRef.current === key) setLoading(false);
+    });
+  }, [key, loadFirstPage]);
+
+  const loadMore = useCallback(async () => {
+    const current = cachedSearches.get(key);
+    if (!current || !current.hasMore || loadingMoreRef.current) return;
+
+    loadingMoreRef.current = true;
+    setLoadingMore(true);
+    try {
+      const { data, error: searchError } = await searchProducts({
+        ...paramsRef.current,
+        limit: PRODUCT_PAGE_SIZE,
+        offset: current.offset,
+      });
+      if (searchError || !data) {
+        console.error('useProductSearch: Error loading more products:', searchError);
+        return;
+      }
+
+      const entry = {
+        products: mergeProductPages(current.products, data.products),
+        offset: current.offset + data.count,
+        hasMore: data.hasMore,
+        fetchedAt: current.fetchedAt,
+      };
+      cachedSearches.set(key, entry);
+      if (keyRef.current === key) setSearch(entry);
+    } finally {
+      loadingMoreRef.current = false;
+      setLoadingMore(false);
+    }
+  }, [key]);
+
+  // For screens coming back into view: refetches only if the cached pages were
+  // invalidated or have grown old
+  const revalidate = useCallback(async () => {
+    const cached = cachedSearches.get(key);
+    if (cached && !isProductSearchStale(cached.fetchedAt)) return;
+    await loadFirstPage(key);
+  }, [key, loadFirstPage]);
+
+  // Starts again from the first page, for pull-to-refresh and after edits
+  const refresh = useCallback(async () => {
+    invalidateProductSearches();
+    await loadFirstPage(key);
+  }, [key, loadFirstPage]);
+
+  return {
+    products: (search?.products ?? []) as T[],
+    hasMore: search?.hasMore ?? false,
+    loading,
+    loadingMore,
+    error,
+    loadMore,
+    refresh,
+    revalidate,
+  };
+}
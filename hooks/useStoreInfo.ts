@@ -0,0 +1,29 @@
+import { useState, useEffect, useCallback } from 'react';
+import { fetchStoreInfo } from '@/services/store.service';
+import { DEFAULT_STORE_INFO, StoreInfo } from '@/utils/receipt';
+
+// Shared across screens so receipts print straight away after checkout
+let cachedStoreInfo: StoreInfo | null = null;
+
+export function useStoreInfo() {
+  const [storeInfo, setStoreInfo] = useState<StoreInfo>(cachedStoreInfo ?? DEFAULT_STORE_INFO);
+
+  const reloadStoreInfo = useCallback(async () => {
+    const { data, error } = await fetchStoreInfo();
+    if (error || !data) {
+      // Keep the last known (or default) details so receipts can still print
+      console.error('useStoreInfo: Error loading store settings:', error);
+      return;
+    }
+    cachedStoreInfo = data;
+    setStoreInfo(data);
+  }, []);
+
+  useEffect(() => {
+    if (!cachedStoreInfo) {
+      reloadStoreInfo();
+    }
+  }, [reloadStoreInfo]);
+
+  return { storeInfo, reloadStoreInfo };
+}
@@ -0,0 +1,29 @@
+import { useState, useEffect, useCallback } from 'react';
+import { fetchTaxConfig } from '@/services/tax.service';
+import { DEFAULT_TAX_CONFIG, TaxConfig } from '@/utils/tax';
+
+// Shared across screens so the POS and cart don't each refetch on mount
+let cachedConfig: TaxConfig | null = null;
+
+export function useTaxConfig() {
+  const [taxConfig, setTaxConfig] = useState<TaxConfig>(cachedConfig ?? DEFAULT_TAX_CONFIG);
+
+  const reloadTaxConfig = useCallback(async () => {
+    const { data, error } = await fetchTaxConfig();
+    if (error || !data) {
+      // Keep the last known (or default) config so totals can still be shown
+      console.error('useTaxConfig: Error loading tax configuration:', error);
+      return;
+    }
+    cachedConfig = data;
+    setTaxConfig(data);
+  }, []);
+
+  useEffect(() => {
+    if (!cachedConfig) {
+      reloadTaxConfig();
+    }
+  }, [reloadTaxConfig]);
+
+  return { taxConfig, reloadTaxConfig };
+}
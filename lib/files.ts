@@ -0,0 +1,38 @@
+import { Platform, Share } from 'react-native';
+
+// Browsers download the file; on devices the CSV goes to the share sheet as text
+export async function shareCsv(filename: string, csv: string): Promise<void> {
+  if (Platform.OS === 'web') {
+    const url = URL.createObjectURL(new Blob([csv], { type: 'text/csv;charset=utf-8' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = filename;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    setTimeout(() => URL.revokeObjectURL(url), 1000);
+    return;
+  }
+
+  await Share.share({ title: filename, message: csv });
+}
+
+// Only browsers can pick a file; resolves null when nothing was chosen
+export function pickTextFile(accept = '.csv,text/csv'): Promise<string | null> {
+  if (Platform.OS !== 'web') return Promise.resolve(null);
+
+  return new Promise((resolve, reject) => {
+    const input = document.createElement('input');
+    input.type = 'file';
+    input.accept = accept;
+    input.onchange = () => {
+      const file = input.files?.[0];
+      if (!file) {
+        resolve(null);
+        return;
+      }
+      file.text().then(resolve, reject);
+    };
+    input.click();
+  });
+}
@@ -39,8 +39,28 @@ export const supabaseService = createClient(supabaseUrl, 'eyJhbGciOiJIUzI1NiIsIn
   },
 });
 
+// Sessionless client for checking another user's credentials (e.g. an admin
+// approving a discount at the till) without replacing the signed-in session
+export const createIsolatedClient = () =>
+  createClient(supabaseUrl, supabaseAnonKey, {
+    auth: {
+      autoRefreshToken: false,
+      persistSession: false,
+    },
+  });
+
 console.log('Supabase: Client created successfully');
 
+type DiscountReasonCode = 'price_match' | 'damaged' | 'loyalty' | 'promo' | 'employee' | 'manager' | 'other';
+
+type StockReasonCode = 'sale' | 'return' | 'receiving' | 'damage' | 'count_correction';
+
+type OrderItemModifier = { id: string; group_name: string; name: string; price_delta: number };
+type OrderItemComponent = { product_id: string; name: string; quantity: number; price: number };
+// Held tickets keep cart lines, discounts and customers in the app's own shape
+type HeldTicketJson = Record<string, unknown>;
+type JournalAccountsJson = Record<string, { code: string; name: string }>;
+
 export type Database = {
   public: {
     Tables: {
@@ -78,18 +98,21 @@ export type Database = {
           id: string;
           name: string;
           color: string;
+          tax_class_id: string | null;
           created_at: string;
         };
         Insert: {
           id?: string;
           name: string;
           color?: string;
+          tax_class_id?: string | null;
           created_at?: string;
         };
         Update: {
           id?: string;
           name?: string;
           color?: string;
+          tax_class_id?: string | null;
           created_at?: string;
         };
       };
@@ -99,8 +122,15 @@ export type Database = {
           name: string;
           price: number;
           category_id: string | null;
+          sku: string | null;
+          barcode: string | null;
+          tax_class_id: string | null;
           image_url: string | null;
           stock: number;
+          reorder_point: number;
+          reorder_quantity: number | null;
+          parent_id: string | null;
+          variant_name: string | null;
           active: boolean;
           created_at: string;
           updated_at: string;
@@ -110,8 +140,15 @@ export type Database = {
           name: string;
           price: number;
           category_id?: string | null;
+          sku?: string | null;
+          barcode?: string | null;
+          tax_class_id?: string | null;
           image_url?: string | null;
           stock?: number;
+          reorder_point?: number;
+          reorder_quantity?: number | null;
+          parent_id?: string | null;
+          variant_name?: string | null;
           active?: boolean;
           created_at?: string;
           updated_at?: string;
@@ -121,8 +158,15 @@ export type Database = {
           name?: string;
           price?: number;
           category_id?: string | null;
+          sku?: string | null;
+          barcode?: string | null;
+          tax_class_id?: string | null;
           image_url?: string | null;
           stock?: number;
+          reorder_point?: number;
+          reorder_quantity?: number | null;
+          parent_id?: string | null;
+          variant_name?: string | null;
           active?: boolean;
           created_at?: string;
           updated_at?: string;
@@ -134,8 +178,24 @@ export type Database = {
           user_id: string;
           total: number;
           tax: number;
-          status: 'completed' | 'refunded' | 'cancelled';
-          payment_method: 'cash' | 'card' | 'mobile';
+          status: 'completed' | 'partially_refunded' | 'refunded' | 'cancelled';
+          payment_method: 'cash' | 'card' | 'mobile' | 'points' | 'split';
+          idempotency_key: string | null;
+          tax_exemption: 'senior_citizen' | 'pwd' | null;
+          tax_exemption_id: string | null;
+          discount_type: 'percent' | 'amount' | null;
+          discount_value: number | null;
+          discount_reason: DiscountReasonCode | null;
+          discount_amount: number;
+          discount_total: number;
+          discount_approved_by: string | null;
+          discount_approval_id: string | null;
+          shift_id: string | null;
+          customer_id: string | null;
+          points_earned: number;
+          points_redeemed: number;
+          // First 8 characters of id, generated
+          short_id: string;
           created_at: string;
         };
         Insert: {
@@ -143,8 +203,22 @@ export type Database = {
           user_id: string;
           total: number;
           tax?: number;
-          status?: 'completed' | 'refunded' | 'cancelled';
-          payment_method?: 'cash' | 'card' | 'mobile';
+          status?: 'completed' | 'partially_refunded' | 'refunded' | 'cancelled';
+          payment_method?: 'cash' | 'card' | 'mobile' | 'points' | 'split';
+          idempotency_key?: string | null;
+          tax_exemption?: 'senior_citizen' | 'pwd' | null;
+          tax_exemption_id?: string | null;
+          discount_type?: 'percent' | 'amount' | null;
+          discount_value?: number | null;
+          discount_reason?: DiscountReasonCode | null;
+          discount_amount?: number;
+          discount_total?: number;
+          discount_approved_by?: string | null;
+          discount_approval_id?: string | null;
+          shift_id?: string | null;
+          customer_id?: string | null;
+          points_earned?: number;
+          points_redeemed?: number;
           created_at?: string;
         };
         Update: {
@@ -152,8 +226,22 @@ export type Database = {
           user_id?: string;
           total?: number;
           tax?: number;
-          status?: 'completed' | 'refunded' | 'cancelled';
-          payment_method?: 'cash' | 'card' | 'mobile';
+          status?: 'completed' | 'partially_refunded' | 'refunded' | 'cancelled';
+          payment_method?: 'cash' | 'card' | 'mobile' | 'points' | 'split';
+          idempotency_key?: string | null;
+          tax_exemption?: 'senior_citizen' | 'pwd' | null;
+          tax_exemption_id?: string | null;
+          discount_type?: 'percent' | 'amount' | null;
+          discount_value?: number | null;
+          discount_reason?: DiscountReasonCode | null;
+          discount_amount?: number;
+          discount_total?: number;
+          discount_approved_by?: string | null;
+          discount_approval_id?: string | null;
+          shift_id?: string | null;
+          customer_id?: string | null;
+          points_earned?: number;
+          points_redeemed?: number;
           created_at?: string;
         };
       };
@@ -165,6 +253,21 @@ export type Database = {
           quantity: number;
           price: number;
           subtotal: number;
+          discount_type: 'percent' | 'amount' | null;
+          discount_value: number | null;
+          discount_reason: DiscountReasonCode | null;
+          discount_amount: number;
+          order_discount_share: number;
+          tax_class_code: string | null;
+          tax_rate: number;
+          taxable_amount: number | null;
+          tax_amount: number;
+          line_total: number | null;
+          tax_exempt: boolean;
+          refunded_quantity: number;
+          refunded_amount: number;
+          modifiers: OrderItemModifier[];
+          components: OrderItemComponent[];
           created_at: string;
         };
         Insert: {
@@ -174,6 +277,21 @@ export type Database = {
           quantity: number;
           price: number;
           subtotal: number;
+          discount_type?: 'percent' | 'amount' | null;
+          discount_value?: number | null;
+          discount_reason?: DiscountReasonCode | null;
+          discount_amount?: number;
+          order_discount_share?: number;
+          tax_class_code?: string | null;
+          tax_rate?: number;
+          taxable_amount?: number | null;
+          tax_amount?: number;
+          line_total?: number | null;
+          tax_exempt?: boolean;
+          refunded_quantity?: number;
+          refunded_amount?: number;
+          modifiers?: OrderItemModifier[];
+          components?: OrderItemComponent[];
           created_at?: string;
         };
         Update: {
@@ -183,6 +301,812 @@ export type Database = {
           quantity?: number;
           price?: number;
           subtotal?: number;
+          discount_type?: 'percent' | 'amount' | null;
+          discount_value?: number | null;
+          discount_reason?: DiscountReasonCode | null;
+          discount_amount?: number;
+          order_discount_share?: number;
+          tax_class_code?: string | null;
+          tax_rate?: number;
+          taxable_amount?: number | null;
+          tax_amount?: number;
+          line_total?: number | null;
+          tax_exempt?: boolean;
+          refunded_quantity?: number;
+          refunded_amount?: number;
+          modifiers?: OrderItemModifier[];
+          components?: OrderItemComponent[];
+          created_at?: string;
+        };
+      };
+      tax_classes: {
+        Row: {
+          id: string;
+          code: string;
+          name: string;
+          kind: 'standard' | 'exempt' | 'zero_rated';
+          rate: number;
+          is_default: boolean;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          code: string;
+          name: string;
+          kind?: 'standard' | 'exempt' | 'zero_rated';
+          rate?: number;
+          is_default?: boolean;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          code?: string;
+          name?: string;
+          kind?: 'standard' | 'exempt' | 'zero_rated';
+          rate?: number;
+          is_default?: boolean;
+          created_at?: string;
+        };
+      };
+      tax_settings: {
+        Row: {
+          id: boolean;
+          prices_include_tax: boolean;
+          updated_at: string;
+        };
+        Insert: {
+          id?: boolean;
+          prices_include_tax?: boolean;
+          updated_at?: string;
+        };
+        Update: {
+          id?: boolean;
+          prices_include_tax?: boolean;
+          updated_at?: string;
+        };
+      };
+      order_payments: {
+        Row: {
+          id: string;
+          order_id: string;
+          position: number;
+          method: 'cash' | 'card' | 'mobile' | 'points';
+          amount: number;
+          amount_tendered: number;
+          change_due: number;
+          reference: string | null;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          order_id: string;
+          position: number;
+          method: 'cash' | 'card' | 'mobile' | 'points';
+          amount: number;
+          amount_tendered: number;
+          change_due?: number;
+          reference?: string | null;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          order_id?: string;
+          position?: number;
+          method?: 'cash' | 'card' | 'mobile' | 'points';
+          amount?: number;
+          amount_tendered?: number;
+          change_due?: number;
+          reference?: string | null;
+          created_at?: string;
+        };
+      };
+      discount_settings: {
+        Row: {
+          id: boolean;
+          approval_threshold_percent: number;
+          updated_at: string;
+        };
+        Insert: {
+          id?: boolean;
+          approval_threshold_percent?: number;
+          updated_at?: string;
+        };
+        Update: {
+          id?: boolean;
+          approval_threshold_percent?: number;
+          updated_at?: string;
+        };
+      };
+      discount_approvals: {
+        Row: {
+          id: string;
+          requested_by: string;
+          approved_by: string;
+          max_discount_amount: number;
+          order_id: string | null;
+          created_at: string;
+          expires_at: string;
+        };
+        Insert: {
+          id?: string;
+          requested_by: string;
+          approved_by?: string;
+          max_discount_amount: number;
+          order_id?: string | null;
+          created_at?: string;
+          expires_at?: string;
+        };
+        Update: {
+          id?: string;
+          requested_by?: string;
+          approved_by?: string;
+          max_discount_amount?: number;
+          order_id?: string | null;
+          created_at?: string;
+          expires_at?: string;
+        };
+      };
+      store_settings: {
+        Row: {
+          id: boolean;
+          store_name: string;
+          tin: string | null;
+          address: string | null;
+          phone: string | null;
+          receipt_footer: string | null;
+          receipt_width: '58mm' | '80mm';
+          loyalty_earn_amount: number;
+          loyalty_point_value: number;
+          journal_accounts: JournalAccountsJson;
+          updated_at: string;
+        };
+        Insert: {
+          id?: boolean;
+          store_name?: string;
+          tin?: string | null;
+          address?: string | null;
+          phone?: string | null;
+          receipt_footer?: string | null;
+          receipt_width?: '58mm' | '80mm';
+          loyalty_earn_amount?: number;
+          loyalty_point_value?: number;
+          journal_accounts?: JournalAccountsJson;
+          updated_at?: string;
+        };
+        Update: {
+          id?: boolean;
+          store_name?: string;
+          tin?: string | null;
+          address?: string | null;
+          phone?: string | null;
+          receipt_footer?: string | null;
+          receipt_width?: '58mm' | '80mm';
+          loyalty_earn_amount?: number;
+          loyalty_point_value?: number;
+          journal_accounts?: JournalAccountsJson;
+          updated_at?: string;
+        };
+      };
+      refunds: {
+        Row: {
+          id: string;
+          order_id: string;
+          processed_by: string;
+          amount: number;
+          method: 'cash' | 'card' | 'mobile' | 'points';
+          reason: string | null;
+          restocked: boolean;
+          shift_id: string | null;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          order_id: string;
+          processed_by?: string;
+          amount: number;
+          method: 'cash' | 'card' | 'mobile' | 'points';
+          reason?: string | null;
+          restocked?: boolean;
+          shift_id?: string | null;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          order_id?: string;
+          processed_by?: string;
+          amount?: number;
+          method?: 'cash' | 'card' | 'mobile' | 'points';
+          reason?: string | null;
+          restocked?: boolean;
+          shift_id?: string | null;
+          created_at?: string;
+        };
+      };
+      shifts: {
+        Row: {
+          id: string;
+          user_id: string;
+          status: 'open' | 'closed';
+          opening_float: number;
+          opened_at: string;
+          closed_at: string | null;
+          counted_cash: number | null;
+          expected_cash: number | null;
+          variance: number | null;
+          notes: string | null;
+        };
+        Insert: {
+          id?: string;
+          user_id?: string;
+          status?: 'open' | 'closed';
+          opening_float?: number;
+          opened_at?: string;
+          closed_at?: string | null;
+          counted_cash?: number | null;
+          expected_cash?: number | null;
+          variance?: number | null;
+          notes?: string | null;
+        };
+        Update: {
+          id?: string;
+          user_id?: string;
+          status?: 'open' | 'closed';
+          opening_float?: number;
+          opened_at?: string;
+          closed_at?: string | null;
+          counted_cash?: number | null;
+          expected_cash?: number | null;
+          variance?: number | null;
+          notes?: string | null;
+        };
+      };
+      cash_movements: {
+        Row: {
+          id: string;
+          shift_id: string;
+          type: 'paid_in' | 'paid_out';
+          amount: number;
+          reason: string;
+          created_by: string;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          shift_id: string;
+          type: 'paid_in' | 'paid_out';
+          amount: number;
+          reason: string;
+          created_by?: string;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          shift_id?: string;
+          type?: 'paid_in' | 'paid_out';
+          amount?: number;
+          reason?: string;
+          created_by?: string;
+          created_at?: string;
+        };
+      };
+      refund_items: {
+        Row: {
+          id: string;
+          refund_id: string;
+          order_item_id: string;
+          product_id: string;
+          quantity: number;
+          amount: number;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          refund_id: string;
+          order_item_id: string;
+          product_id: string;
+          quantity: number;
+          amount: number;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          refund_id?: string;
+          order_item_id?: string;
+          product_id?: string;
+          quantity?: number;
+          amount?: number;
+          created_at?: string;
+        };
+      };
+      stock_logs: {
+        Row: {
+          id: string;
+          product_id: string;
+          quantity_change: number;
+          remaining_stock: number;
+          reason: StockReasonCode;
+          user_id: string | null;
+          reference_type: string | null;
+          reference_id: string | null;
+          note: string | null;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          product_id: string;
+          quantity_change: number;
+          remaining_stock: number;
+          reason: StockReasonCode;
+          user_id?: string | null;
+          reference_type?: string | null;
+          reference_id?: string | null;
+          note?: string | null;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          product_id?: string;
+          quantity_change?: number;
+          remaining_stock?: number;
+          reason?: StockReasonCode;
+          user_id?: string | null;
+          reference_type?: string | null;
+          reference_id?: string | null;
+          note?: string | null;
+          created_at?: string;
+        };
+      };
+      suppliers: {
+        Row: {
+          id: string;
+          name: string;
+          contact_name: string | null;
+          phone: string | null;
+          email: string | null;
+          address: string | null;
+          notes: string | null;
+          active: boolean;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          name: string;
+          contact_name?: string | null;
+          phone?: string | null;
+          email?: string | null;
+          address?: string | null;
+          notes?: string | null;
+          active?: boolean;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          id?: string;
+          name?: string;
+          contact_name?: string | null;
+          phone?: string | null;
+          email?: string | null;
+          address?: string | null;
+          notes?: string | null;
+          active?: boolean;
+          created_at?: string;
+          updated_at?: string;
+        };
+      };
+      purchase_orders: {
+        Row: {
+          id: string;
+          po_number: number;
+          supplier_id: string;
+          status: 'draft' | 'sent' | 'partially_received' | 'received' | 'cancelled';
+          expected_date: string | null;
+          notes: string | null;
+          created_by: string;
+          created_at: string;
+          updated_at: string;
+          sent_at: string | null;
+          received_at: string | null;
+        };
+        Insert: {
+          id?: string;
+          po_number?: number;
+          supplier_id: string;
+          status?: 'draft' | 'sent' | 'partially_received' | 'received' | 'cancelled';
+          expected_date?: string | null;
+          notes?: string | null;
+          created_by?: string;
+          created_at?: string;
+          updated_at?: string;
+          sent_at?: string | null;
+          received_at?: string | null;
+        };
+        Update: {
+          id?: string;
+          po_number?: number;
+          supplier_id?: string;
+          status?: 'draft' | 'sent' | 'partially_received' | 'received' | 'cancelled';
+          expected_date?: string | null;
+          notes?: string | null;
+          created_by?: string;
+          created_at?: string;
+          updated_at?: string;
+          sent_at?: string | null;
+          received_at?: string | null;
+        };
+      };
+      purchase_order_items: {
+        Row: {
+          id: string;
+          purchase_order_id: string;
+          product_id: string;
+          quantity_ordered: number;
+          quantity_received: number;
+          unit_cost: number;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          purchase_order_id: string;
+          product_id: string;
+          quantity_ordered: number;
+          quantity_received?: number;
+          unit_cost?: number;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          purchase_order_id?: string;
+          product_id?: string;
+          quantity_ordered?: number;
+          quantity_received?: number;
+          unit_cost?: number;
+          created_at?: string;
+        };
+      };
+      purchase_receipts: {
+        Row: {
+          id: string;
+          purchase_order_id: string;
+          received_by: string;
+          notes: string | null;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          purchase_order_id: string;
+          received_by?: string;
+          notes?: string | null;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          purchase_order_id?: string;
+          received_by?: string;
+          notes?: string | null;
+          created_at?: string;
+        };
+      };
+      purchase_receipt_items: {
+        Row: {
+          id: string;
+          receipt_id: string;
+          purchase_order_item_id: string;
+          product_id: string;
+          quantity: number;
+          unit_cost: number;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          receipt_id: string;
+          purchase_order_item_id: string;
+          product_id: string;
+          quantity: number;
+          unit_cost: number;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          receipt_id?: string;
+          purchase_order_item_id?: string;
+          product_id?: string;
+          quantity?: number;
+          unit_cost?: number;
+          created_at?: string;
+        };
+      };
+      product_costs: {
+        Row: {
+          product_id: string;
+          cost_price: number;
+          updated_at: string;
+        };
+        Insert: {
+          product_id: string;
+          cost_price: number;
+          updated_at?: string;
+        };
+        Update: {
+          product_id?: string;
+          cost_price?: number;
+          updated_at?: string;
+        };
+      };
+      stocktakes: {
+        Row: {
+          id: string;
+          status: 'counting' | 'review' | 'approved' | 'cancelled';
+          category_id: string | null;
+          notes: string | null;
+          created_by: string;
+          created_at: string;
+          closed_at: string | null;
+          approved_by: string | null;
+          approved_at: string | null;
+        };
+        Insert: {
+          id?: string;
+          status?: 'counting' | 'review' | 'approved' | 'cancelled';
+          category_id?: string | null;
+          notes?: string | null;
+          created_by?: string;
+          created_at?: string;
+          closed_at?: string | null;
+          approved_by?: string | null;
+          approved_at?: string | null;
+        };
+        Update: {
+          id?: string;
+          status?: 'counting' | 'review' | 'approved' | 'cancelled';
+          category_id?: string | null;
+          notes?: string | null;
+          created_by?: string;
+          created_at?: string;
+          closed_at?: string | null;
+          approved_by?: string | null;
+          approved_at?: string | null;
+        };
+      };
+      stocktake_items: {
+        Row: {
+          id: string;
+          stocktake_id: string;
+          product_id: string;
+          expected_quantity: number;
+          counted_quantity: number;
+          counted_by: string | null;
+          counted_at: string;
+        };
+        Insert: {
+          id?: string;
+          stocktake_id: string;
+          product_id: string;
+          expected_quantity: number;
+          counted_quantity: number;
+          counted_by?: string | null;
+          counted_at?: string;
+        };
+        Update: {
+          id?: string;
+          stocktake_id?: string;
+          product_id?: string;
+          expected_quantity?: number;
+          counted_quantity?: number;
+          counted_by?: string | null;
+          counted_at?: string;
+        };
+      };
+      modifier_groups: {
+        Row: {
+          id: string;
+          name: string;
+          min_select: number;
+          max_select: number | null;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          name: string;
+          min_select?: number;
+          max_select?: number | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          id?: string;
+          name?: string;
+          min_select?: number;
+          max_select?: number | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+      };
+      modifiers: {
+        Row: {
+          id: string;
+          group_id: string;
+          name: string;
+          price_delta: number;
+          active: boolean;
+          position: number;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          group_id: string;
+          name: string;
+          price_delta?: number;
+          active?: boolean;
+          position?: number;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          group_id?: string;
+          name?: string;
+          price_delta?: number;
+          active?: boolean;
+          position?: number;
+          created_at?: string;
+        };
+      };
+      product_modifier_groups: {
+        Row: {
+          product_id: string;
+          group_id: string;
+        };
+        Insert: {
+          product_id: string;
+          group_id: string;
+        };
+        Update: {
+          product_id?: string;
+          group_id?: string;
+        };
+      };
+      category_modifier_groups: {
+        Row: {
+          category_id: string;
+          group_id: string;
+        };
+        Insert: {
+          category_id: string;
+          group_id: string;
+        };
+        Update: {
+          category_id?: string;
+          group_id?: string;
+        };
+      };
+      bundle_components: {
+        Row: {
+          bundle_id: string;
+          component_id: string;
+          quantity: number;
+          created_at: string;
+        };
+        Insert: {
+          bundle_id: string;
+          component_id: string;
+          quantity: number;
+          created_at?: string;
+        };
+        Update: {
+          bundle_id?: string;
+          component_id?: string;
+          quantity?: number;
+          created_at?: string;
+        };
+      };
+      customers: {
+        Row: {
+          id: string;
+          name: string;
+          phone: string | null;
+          email: string | null;
+          notes: string | null;
+          created_by: string | null;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          name: string;
+          phone?: string | null;
+          email?: string | null;
+          notes?: string | null;
+          created_by?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          id?: string;
+          name?: string;
+          phone?: string | null;
+          email?: string | null;
+          notes?: string | null;
+          created_by?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+      };
+      loyalty_transactions: {
+        Row: {
+          id: string;
+          customer_id: string;
+          order_id: string | null;
+          refund_id: string | null;
+          kind: 'earn' | 'redeem' | 'reversal' | 'refund';
+          points: number;
+          created_by: string | null;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          customer_id: string;
+          order_id?: string | null;
+          refund_id?: string | null;
+          kind: 'earn' | 'redeem' | 'reversal' | 'refund';
+          points: number;
+          created_by?: string | null;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          customer_id?: string;
+          order_id?: string | null;
+          refund_id?: string | null;
+          kind?: 'earn' | 'redeem' | 'reversal' | 'refund';
+          points?: number;
+          created_by?: string | null;
+          created_at?: string;
+        };
+      };
+      held_tickets: {
+        Row: {
+          id: string;
+          name: string;
+          items: HeldTicketJson[];
+          order_discount: HeldTicketJson | null;
+          customer: HeldTicketJson | null;
+          held_by: string;
+          created_at: string;
+        };
+        Insert: {
+          id: string;
+          name: string;
+          items?: HeldTicketJson[];
+          order_discount?: HeldTicketJson | null;
+          customer?: HeldTicketJson | null;
+          held_by?: string;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          name?: string;
+          items?: HeldTicketJson[];
+          order_discount?: HeldTicketJson | null;
+          customer?: HeldTicketJson | null;
+          held_by?: string;
+          created_at?: string;
+        };
+      };
+      order_item_costs: {
+        Row: {
+          order_item_id: string;
+          unit_cost: number;
+          created_at: string;
+        };
+        Insert: {
+          order_item_id: string;
+          unit_cost: number;
+          created_at?: string;
+        };
+        Update: {
+          order_item_id?: string;
+          unit_cost?: number;
           created_at?: string;
         };
       };
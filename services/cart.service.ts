@@ -1,5 +1,7 @@
 import { supabase } from '@/lib/supabase';
 import { getErrorMessage } from '@/utils/errorHandler';
+import { expandBundleItems, withBundleStock } from '@/utils/bundles';
+import { BUNDLE_COMPONENTS_SELECT } from './products.service';
 import { ServiceResult } from './types';
 
 export const fetchProductsForCart = async (productIds: string[]): Promise<ServiceResult<any[]>> => {
@@ -7,7 +9,7 @@ export const fetchProductsForCart = async (productIds: string[]): Promise<Servic
     console.log('cart.service: Fetching products for cart');
     const { data, error } = await supabase
       .from('products')
-      .select('id, name, price, stock')
+      .select(`id, name, price, stock, ${BUNDLE_COMPONENTS_SELECT}`)
       .in('id', productIds);
       
     if (error) {
@@ -16,7 +18,7 @@ export const fetchProductsForCart = async (productIds: string[]): Promise<Servic
     }
 
     console.log('cart.service: Products for cart fetched successfully');
-    return { data, error: null };
+    return { data: (data ?? []).map(withBundleStock), error: null };
   } catch (error) {
     console.error('cart.service: Error fetching products for cart:', error);
     return { data: null, error: getErrorMessage(error) };
@@ -31,7 +33,20 @@ export const validateCartStock = async (cartItems: { product_id: string; quantit
       return { data: { isValid: true, errors: [] }, error: null };
     }
     
-    const productIds = cartItems.map(item => item.product_id);
+    // Bundles are checked against their components, the same way
+    // checkout_order checks them
+    const { data: components, error: componentsError } = await supabase
+      .from('bundle_components')
+      .select('bundle_id, component_id, quantity')
+      .in('bundle_id', cartItems.map(item => item.product_id));
+
+    if (componentsError) {
+      console.error('cart.service: Supabase error fetching bundle components:', componentsError);
+      return { data: null, error: getErrorMessage(componentsError) };
+    }
+
+    const stockItems = expandBundleItems(cartItems, components ?? []);
+    const productIds = stockItems.map(item => item.product_id);
     const { data: currentProducts, error } = await supabase
       .from('products')
       .select('id, name, stock')
@@ -44,7 +59,7 @@ export const validateCartStock = async (cartItems: { product_id: string; quantit
     
     const errors: Array<{productName: string; requestedQty: number; availableStock: number}> = [];
     
-    cartItems.forEach(cartItem => {
+    stockItems.forEach(cartItem => {
       const product = currentProducts?.find(p => p.id === cartItem.product_id);
       if (product && cartItem.quantity > product.stock) {
         errors.push({
@@ -71,9 +86,9 @@ export const validateCartStock = async (cartItems: { product_id: string; quantit
 export const checkProductStock = async (productId: string): Promise<ServiceResult<{ stock: number; hasStock: boolean }>> => {
   try {
     console.log('cart.service: Checking product stock:', productId);
-    const { data, error } = await supabase
+    const { data: row, error } = await supabase
       .from('products')
-      .select('id, stock')
+      .select(`id, stock, ${BUNDLE_COMPONENTS_SELECT}`)
       .eq('id', productId)
       .single();
       
@@ -82,6 +97,7 @@ export const checkProductStock = async (productId: string): Promise<ServiceResul
       return { data: null, error: getErrorMessage(error) };
     }
 
+    const data = withBundleStock(row);
     const result = {
       stock: data.stock,
       hasStock: data.stock > 0
@@ -0,0 +1,191 @@
+import { supabase } from '@/lib/supabase';
+import { getErrorMessage } from '@/utils/errorHandler';
+import { DEFAULT_LOYALTY_SETTINGS, LoyaltySettings, LoyaltyTransaction } from '@/utils/loyalty';
+import { ServiceResult } from './types';
+
+export type Customer = {
+  id: string;
+  name: string;
+  phone: string | null;
+  email: string | null;
+  notes: string | null;
+  created_at: string;
+  // Current points balance
+  points: number;
+};
+
+export type CustomerInput = {
+  name: string;
+  phone?: string | null;
+  email?: string | null;
+  notes?: string | null;
+};
+
+export type CustomerOrder = {
+  id: string;
+  created_at: string;
+  total: number;
+  status: 'completed' | 'partially_refunded' | 'refunded' | 'cancelled';
+  payment_method: string;
+  points_earned: number;
+  points_redeemed: number;
+  order_items: Array<{ quantity: number; products: { name: string } | null }>;
+};
+
+export type CustomerHistory = {
+  customer: Customer;
+  // Newest first; cashiers only see the orders they rang up
+  orders: CustomerOrder[];
+  transactions: LoyaltyTransaction[];
+};
+
+const CUSTOMER_COLUMNS = 'id,name,phone,email,notes,created_at';
+
+// Blank fields are stored as null so phone numbers stay unique
+const toCustomerRow = (input: CustomerInput) => ({
+  name: input.name.trim(),
+  phone: input.phone?.trim() || null,
+  email: input.email?.trim() || null,
+  notes: input.notes?.trim() || null,
+});
+
+// Matches name, phone or email; an empty query lists customers by name
+export const searchCustomers = async (query: string, limit = 20): Promise<ServiceResult<Customer[]>> => {
+  try {
+    console.log('customers.service: Searching customers:', query);
+    const { data, error } = await supabase.rpc('search_customers', {
+      p_query: query,
+      p_limit: limit,
+    });
+
+    if (error) {
+      console.error('customers.service: Supabase error searching customers:', error);
+      return { data: null, error: getErrorMessage(error) };
+    }
+
+    console.log('customers.service: Customers searched successfully');
+    return {
+      data: (data ?? []).map((row: any) => ({ ...row, points: Number(row.points ?? 0) })),
+      error: null,
+    };
+  } catch (error) {
+    console.error('customers.service: Error searching customers:', error);
+    return { data: null, error: getErrorMessage(error) };
+  }
+};
+
+export const createCustomer = async (input: CustomerInput): Promise<ServiceResult<Customer>> => {
+  try {
+    console.log('customers.service: Creating customer');
+    const { data, error } = await supabase
+      .from('customers')
+      .insert(toCustomerRow(input))
+      .select(CUSTOMER_COLUMNS)
+      .single();
+
+    if (error) {
+      console.error('customers.service: Supabase error creating customer:', error);
+      return { data: null, error: getErrorMessage(error) };
+    }
+
+    console.log('customers.service: Customer created successfully');
+    return { data: { ...data, points: 0 }, error: null };
+  } catch (error) {
+    console.error('customers.service: Error creating customer:', error);
+    return { data: null, error: getErrorMessage(error) };
+  }
+};
+
+export const updateCustomer = async (customerId: string, input: CustomerInput): Promise<ServiceResult<any>> => {
+  try {
+    console.log('customers.service: Updating customer:', customerId);
+    const { data, error } = await supabase
+      .from('customers')
+      .update({ ...toCustomerRow(input), updated_at: new Date().toISOString() })
+      .eq('id', customerId)
+      .select(CUSTOMER_COLUMNS)
+      .single();
+
+    if (error) {
+      console.error('customers.service: Supabase error updating customer:', error);
+      return { data: null, error: getErrorMessage(error) };
+    }
+
+    console.log('customers.service: Customer updated successfully');
+    return { data, error: null };
+  } catch (error) {
+    console.error('customers.service: Error updating customer:', error);
+    return { data: null, error: getErrorMessage(error) };
+  }
+};
+
+// The customer with their orders and points ledger
+export const fetchCustomerHistory = async (customerId: string): Promise<ServiceResult<CustomerHistory>> => {
+  try {
+    console.log('customers.service: Fetching customer history:', customerId);
+    const [customerResult, ordersResult, transactionsResult] = await Promise.all([
+      supabase.from('customers').select(CUSTOMER_COLUMNS).eq('id', customerId).single(),
+      supabase
+        .from('orders')
+        .select(
+          'id,created_at,total,status,payment_method,points_earned,points_redeemed,order_items(quantity,products(name))'
+        )
+        .eq('customer_id', customerId)
+        .order('created_at', { ascending: false }),
+      supabase
+        .from('loyalty_transactions')
+        .select('id,customer_id,order_id,refund_id,kind,points,created_at')
+        .eq('customer_id', customerId)
+        .order('created_at', { ascending: false }),
+    ]);
+
+    const error = customerResult.error || ordersResult.error || transactionsResult.error;
+    if (error) {
+      console.error('customers.service: Supabase error fetching customer history:', error);
+      return { data: null, error: getErrorMessage(error) };
+    }
+
+    const transactions = (transactionsResult.data ?? []) as LoyaltyTransaction[];
+    console.log('customers.service: Customer history fetched successfully');
+    return {
+      data: {
+        customer: {
+          ...customerResult.data,
+          points: transactions.reduce((sum, transaction) => sum + transaction.points, 0),
+        },
+        orders: (ordersResult.data ?? []) as unknown as CustomerOrder[],
+        transactions,
+      },
+      error: null,
+    };
+  } catch (error) {
+    console.error('customers.service: Error fetching customer history:', error);
+    return { data: null, error: getErrorMessage(error) };
+  }
+};
+
+export const fetchLoyaltySettings = async (): Promise<ServiceResult<LoyaltySettings>> => {
+  try {
+    console.log('customers.service: Fetching loyalty settings');
+    const { data, error } = await supabase
+      .from('store_settings')
+      .select('loyalty_earn_amount,loyalty_point_value')
+      .maybeSingle();
+
+    if (error) {
+      console.error('customers.service: Supabase error fetching loyalty settings:', error);
+      return { data: null, error: getErrorMessage(error) };
+    }
+
+    console.log('customers.service: Loyalty settings fetched successfully');
+    return {
+      data: data
+        ? { earnAmount: Number(data.loyalty_earn_amount), pointValue: Number(data.loyalty_point_value) }
+        : DEFAULT_LOYALTY_SETTINGS,
+      error: null,
+    };
+  } catch (error) {
+    console.error('customers.service: Error fetching loyalty settings:', error);
+    return { data: null, error: getErrorMessage(error) };
+  }
+};
@@ -0,0 +1,76 @@
+import { supabase, createIsolatedClient } from '@/lib/supabase';
+import { getErrorMessage } from '@/utils/errorHandler';
+import { DEFAULT_APPROVAL_THRESHOLD_PERCENT } from '@/utils/discounts';
+import { ServiceResult } from './types';
+
+export const fetchDiscountApprovalThreshold = async (): Promise<ServiceResult<number>> => {
+  try {
+    console.log('discounts.service: Fetching discount approval threshold');
+    const { data, error } = await supabase
+      .from('discount_settings')
+      .select('approval_threshold_percent')
+      .maybeSingle();
+
+    if (error) {
+      console.error('discounts.service: Supabase error fetching discount settings:', error);
+      return { data: null, error: getErrorMessage(error) };
+    }
+
+    console.log('discounts.service: Discount approval threshold fetched successfully');
+    return {
+      data: data ? Number(data.approval_threshold_percent) : DEFAULT_APPROVAL_THRESHOLD_PERCENT,
+      error: null,
+    };
+  } catch (error) {
+    console.error('discounts.service: Error fetching discount settings:', error);
+    return { data: null, error: getErrorMessage(error) };
+  }
+};
+
+// An admin signs in on the cashier's device to approve a discounted sale.
+// The approval is written with the admin's own session (RLS only lets admins
+// insert), and the returned id is passed to checkoutOrder. The cashier's
+// session is left untouched.
+export const approveDiscount = async (
+  adminEmail: string,
+  adminPassword: string,
+  requestedBy: string,
+  maxDiscountAmount: number
+): Promise<ServiceResult<string>> => {
+  const adminClient = createIsolatedClient();
+  try {
+    console.log('discounts.service: Requesting discount approval for:', requestedBy);
+    const { data: authData, error: authError } = await adminClient.auth.signInWithPassword({
+      email: adminEmail,
+      password: adminPassword,
+    });
+
+    if (authError || !authData.user) {
+      console.error('discounts.service: Approver sign-in failed:', authError);
+      return { data: null, error: getErrorMessage(authError) };
+    }
+
+    const { data, error } = await adminClient
+      .from('discount_approvals')
+      .insert({
+        requested_by: requestedBy,
+        approved_by: authData.user.id,
+        max_discount_amount: maxDiscountAmount,
+      })
+      .select('id')
+      .single();
+
+    if (error) {
+      console.error('discounts.service: Supabase error approving discount:', error);
+      return { data: null, error: getErrorMessage(error) };
+    }
+
+    console.log('discounts.service: Discount approved successfully');
+    return { data: data.id, error: null };
+  } catch (error) {
+    console.error('discounts.service: Error approving discount:', error);
+    return { data: null, error: getErrorMessage(error) };
+  } finally {
+    await adminClient.auth.signOut().catch(() => undefined);
+  }
+};
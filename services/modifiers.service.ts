@@ -0,0 +1,79 @@
+import { supabase } from '@/lib/supabase';
+import { getErrorMessage } from '@/utils/errorHandler';
+import { ModifierGroup, parseModifierGroups } from '@/utils/modifiers';
+import { ServiceResult } from './types';
+
+export type ModifierGroupInput = {
+  name: string;
+  min_select: number;
+  max_select: number | null;
+  // Options without an id are created; existing options left out are removed
+  modifiers: Array<{ id?: string; name: string; price_delta: number; active: boolean }>;
+  product_ids: string[];
+  category_ids: string[];
+};
+
+// Groups with their options and the products and categories they apply to
+export const fetchModifierGroups = async (): Promise<ServiceResult<ModifierGroup[]>> => {
+  try {
+    console.log('modifiers.service: Fetching modifier groups');
+    const { data, error } = await supabase
+      .from('modifier_groups')
+      .select('*, modifiers(*), product_modifier_groups(product_id), category_modifier_groups(category_id)')
+      .order('created_at');
+
+    if (error) {
+      console.error('modifiers.service: Supabase error fetching modifier groups:', error);
+      return { data: null, error: getErrorMessage(error) };
+    }
+
+    console.log('modifiers.service: Modifier groups fetched successfully');
+    return { data: parseModifierGroups(data ?? []), error: null };
+  } catch (error) {
+    console.error('modifiers.service: Error fetching modifier groups:', error);
+    return { data: null, error: getErrorMessage(error) };
+  }
+};
+
+// save_modifier_group replaces the options and links in one transaction
+export const saveModifierGroup = async (
+  groupId: string | null,
+  group: ModifierGroupInput
+): Promise<ServiceResult<string>> => {
+  try {
+    console.log('modifiers.service: Saving modifier group:', groupId ?? 'new');
+    const { data, error } = await supabase.rpc('save_modifier_group', {
+      p_group_id: groupId,
+      p_group: group,
+    });
+
+    if (error) {
+      console.error('modifiers.service: Supabase error saving modifier group:', error);
+      return { data: null, error: getErrorMessage(error) };
+    }
+
+    console.log('modifiers.service: Modifier group saved successfully');
+    return { data, error: null };
+  } catch (error) {
+    console.error('modifiers.service: Error saving modifier group:', error);
+    return { data: null, error: getErrorMessage(error) };
+  }
+};
+
+export const deleteModifierGroup = async (groupId: string): Promise<ServiceResult<any>> => {
+  try {
+    console.log('modifiers.service: Deleting modifier group:', groupId);
+    const { data, error } = await supabase.from('modifier_groups').delete().eq('id', groupId);
+
+    if (error) {
+      console.error('modifiers.service: Supabase error deleting modifier group:', error);
+      return { data: null, error: getErrorMessage(error) };
+    }
+
+    console.log('modifiers.service: Modifier group deleted successfully');
+    return { data, error: null };
+  } catch (error) {
+    console.error('modifiers.service: Error deleting modifier group:', error);
+    return { data: null, error: getErrorMessage(error) };
+  }
+};
@@ -1,194 +1,394 @@
-import { supabase } from '@/lib/supabase';
+import { supabase, Database } from '@/lib/supabase';
 import { getErrorMessage } from '@/utils/errorHandler';
+import { TaxExemption } from '@/utils/tax';
+import { Discount } from '@/utils/discounts';
+import { PaymentMethod, Tender } from '@/utils/payments';
+import { ReportRange } from '@/utils/reports';
+import {
+  combineOrFilters,
+  getOrderCursorFilter,
+  getOrderPage,
+  OrderCursor,
+  OrderFilters,
+  ORDERS_PAGE_SIZE,
+  parseOrderSearch,
+} from '@/utils/orderQuery';
 import { ServiceResult } from './types';
 
-export const fetchAllOrders = async (): Promise<ServiceResult<any[]>> => {
-  try {
-    console.log('orders.service: Fetching all orders');
-    const { data, error } = await supabase
-      .from('orders')
-      .select(`
-        *,
-        order_items (
-          id,
-          product_id,
-          quantity,
-          price,
-          subtotal,
-          products (
-            id,
-            name
-          )
-        ),
-        profiles (
-          id,
-          email,
-          full_name
-        )
-      `)
-      .order('created_at', { ascending: false });
+// Orders with their lines, payments, refunds, cashier and customer, as the
+// order history shows them
+const ORDER_SELECT = `
+  *,
+  order_items (
+    id,
+    product_id,
+    quantity,
+    price,
+    subtotal,
+    discount_type,
+    discount_value,
+    discount_reason,
+    discount_amount,
+    order_discount_share,
+    tax_class_code,
+    tax_rate,
+    taxable_amount,
+    tax_amount,
+    line_total,
+    tax_exempt,
+    refunded_quantity,
+    refunded_amount,
+    modifiers,
+    components,
+    products (
+      id,
+      name
+    )
+  ),
+  order_payments (
+    id,
+    position,
+    method,
+    amount,
+    amount_tendered,
+    change_due,
+    reference
+  ),
+  refunds (
+    id,
+    amount,
+    method,
+    reason,
+    restocked,
+    created_at,
+    refund_items (
+      order_item_id,
+      quantity,
+      amount
+    )
+  ),
+  profiles (
+    id,
+    email,
+    full_name
+  ),
+  customers (
+    id,
+    name,
+    phone
+  )
+`;
 
-    if (error) {
-      console.error('orders.service: Supabase error fetching all orders:', error);
-      return { data: null, error: getErrorMessage(error) };
-    }
+// Orders are searched for customers among this many name or phone matches
+const CUSTOMER_SEARCH_LIMIT = 50;
 
-    console.log('orders.service: All orders fetched successfully');
-    return { data, error: null };
-  } catch (error) {
-    console.error('orders.service: Error fetching all orders:', error);
-    return { data: null, error: getErrorMessage(error) };
-  }
+export type FetchOrdersParams = OrderFilters & {
+  cursor?: OrderCursor | null;
+  limit?: number;
 };
 
-export const fetchUserOrders = async (userId: string): Promise<ServiceResult<any[]>> => {
+export type OrderPage = {
+  orders: any[];
+  // Null on the last page
+  nextCursor: OrderCursor | null;
+};
+
+// Keyset pagination over (created_at, id), newest first; each filter has a
+// matching index
+export const fetchOrders = async ({
+  cursor = null,
+  limit = ORDERS_PAGE_SIZE,
+  status,
+  paymentMethod,
+  userId,
+  dateFrom,
+  dateTo,
+  search,
+}: FetchOrdersParams = {}): Promise<ServiceResult<OrderPage>> => {
   try {
-    console.log('orders.service: Fetching orders for user:', userId);
-    const { data, error } = await supabase
+    console.log('orders.service: Fetching orders page');
+    let query = supabase
       .from('orders')
-      .select(`
-        *,
-        order_items (
-          id,
-          product_id,
-          quantity,
-          price,
-          subtotal,
-          products (
-            id,
-            name
-          )
-        )
-      `)
-      .eq('user_id', userId)
-      .order('created_at', { ascending: false });
+      .select(ORDER_SELECT)
+      .order('created_at', { ascending: false })
+      .order('id', { ascending: false })
+      .limit(limit + 1);
 
-    if (error) {
-      console.error('orders.service: Supabase error fetching user orders:', error);
-      return { data: null, error: getErrorMessage(error) };
+    if (status) query = query.eq('status', status);
+    if (paymentMethod) query = query.eq('payment_method', paymentMethod);
+    if (userId) query = query.eq('user_id', userId);
+    if (dateFrom) query = query.gte('created_at', dateFrom.toISOString());
+    if (dateTo) query = query.lt('created_at', dateTo.toISOString());
+
+    const orFilters = cursor ? [getOrderCursorFilter(cursor)] : [];
+    const terms = parseOrderSearch(search);
+    if (terms) {
+      const searchFilters = terms.idPrefix ? [`short_id.like.${terms.idPrefix.slice(0, 8)}*`] : [];
+      if (terms.text) {
+        const { data: customers, error: customersError } = await supabase
+          .from('customers')
+          .select('id')
+          .or(`name.ilike.*${terms.text}*,phone.ilike.*${terms.text}*`)
+          .limit(CUSTOMER_SEARCH_LIMIT);
+
+        if (customersError) {
+          console.error('orders.service: Supabase error searching customers:', customersError);
+          return { data: null, error: getErrorMessage(customersError) };
+        }
+        if (customers && customers.length > 0) {
+          searchFilters.push(`customer_id.in.(${customers.map(customer => customer.id).join(',')})`);
+        }
+      }
+
+      if (searchFilters.length === 0) {
+        console.log('orders.service: No orders match the search');
+        return { data: { orders: [], nextCursor: null }, error: null };
+      }
+      orFilters.push(searchFilters.join(','));
     }
 
-    console.log('orders.service: User orders fetched successfully');
-    return { data, error: null };
-  } catch (error) {
-    console.error('orders.service: Error fetching user orders:', error);
-    return { data: null, error: getErrorMessage(error) };
-  }
-};
+    const orFilter = combineOrFilters(orFilters);
+    if (orFilter) query = query.or(orFilter);
 
-export const createOrder = async (orderData: any): Promise<ServiceResult<any>> => {
-  try {
-    console.log('orders.service: Creating order');
-    const { data, error } = await supabase
-      .from('orders')
-      .insert(orderData)
-      .select()
-      .single();
+    const { data, error } = await query;
 
     if (error) {
-      console.error('orders.service: Supabase error creating order:', error);
+      console.error('orders.service: Supabase error fetching orders page:', error);
       return { data: null, error: getErrorMessage(error) };
     }
 
-    console.log('orders.service: Order created successfully');
-    return { data, error: null };
+    console.log('orders.service: Orders page fetched successfully');
+    return { data: getOrderPage(data ?? [], limit), error: null };
   } catch (error) {
-    console.error('orders.service: Error creating order:', error);
+    console.error('orders.service: Error fetching orders page:', error);
     return { data: null, error: getErrorMessage(error) };
   }
 };
 
-export const createOrderItems = async (orderItems: any[]): Promise<ServiceResult<any>> => {
+export const fetchOrderById = async (orderId: string): Promise<ServiceResult<any | null>> => {
   try {
-    console.log('orders.service: Creating order items');
+    console.log('orders.service: Fetching order:', orderId);
     const { data, error } = await supabase
-      .from('order_items')
-      .insert(orderItems);
+      .from('orders')
+      .select(ORDER_SELECT)
+      .eq('id', orderId)
+      .maybeSingle();
 
     if (error) {
-      console.error('orders.service: Supabase error creating order items:', error);
+      console.error('orders.service: Supabase error fetching order:', error);
       return { data: null, error: getErrorMessage(error) };
     }
 
-    console.log('orders.service: Order items created successfully');
+    console.log('orders.service: Order fetched successfully');
     return { data, error: null };
   } catch (error) {
-    console.error('orders.service: Error creating order items:', error);
+    console.error('orders.service: Error fetching order:', error);
     return { data: null, error: getErrorMessage(error) };
   }
 };
 
-export const createOrderWithItems = async (orderData: any, items: any[]): Promise<ServiceResult<any>> => {
+// PostgREST caps each response, so exports read the range a page at a time
+const EXPORT_PAGE_SIZE = 1000;
+// Ids go in the query string, which has to stay a reasonable length
+const EXPORT_ID_BATCH_SIZE = 100;
+
+// Orders placed in the range plus older orders refunded in it, so exports can
+// count both sales and refunds on the day they happened
+export const fetchOrdersForExport = async (range: ReportRange): Promise<ServiceResult<any[]>> => {
   try {
-    console.log('orders.service: Creating order with items - transaction-like orchestration');
-    
-    // Step 1: Create the order
-    const orderResult = await createOrder(orderData);
-    if (orderResult.error) {
-      console.error('orders.service: Failed to create order:', orderResult.error);
-      return { data: null, error: orderResult.error };
-    }
+    console.log('orders.service: Fetching orders for export');
+    const orders: any[] = [];
+    for (let offset = 0; ; offset += EXPORT_PAGE_SIZE) {
+      const { data, error } = await supabase
+        .from('orders')
+        .select(ORDER_SELECT)
+        .gte('created_at', range.from.toISOString())
+        .lt('created_at', range.to.toISOString())
+        .order('created_at', { ascending: true })
+        .order('id', { ascending: true })
+        .range(offset, offset + EXPORT_PAGE_SIZE - 1);
 
-    if (!orderResult.data) {
-      return { data: null, error: 'Failed to create order: No data returned' };
+      if (error) {
+        console.error('orders.service: Supabase error fetching orders for export:', error);
+        return { data: null, error: getErrorMessage(error) };
+      }
+
+      orders.push(...(data ?? []));
+      if (!data || data.length < EXPORT_PAGE_SIZE) break;
     }
 
-    // Step 2: Prepare order items with computed subtotals
-    const orderItemsWithSubtotals = items.map(item => ({
-      order_id: orderResult.data.id,
-      product_id: item.product_id,
-      quantity: item.quantity,
-      price: item.price,
-      subtotal: item.price * item.quantity,
-    }));
-
-    // Step 3: Create order items
-    const itemsResult = await createOrderItems(orderItemsWithSubtotals);
-    if (itemsResult.error) {
-      console.error('orders.service: Failed to create order items:', itemsResult.error);
-      // Note: In a real transaction, we would rollback the order creation here
-      // For now, we'll return an error but the order might still exist
-      return { data: null, error: `Failed to create order items: ${itemsResult.error}` };
+    const refunds: { order_id: string }[] = [];
+    for (let offset = 0; ; offset += EXPORT_PAGE_SIZE) {
+      const { data, error } = await supabase
+        .from('refunds')
+        .select('order_id')
+        .gte('created_at', range.from.toISOString())
+        .lt('created_at', range.to.toISOString())
+        .order('created_at', { ascending: true })
+        .order('id', { ascending: true })
+        .range(offset, offset + EXPORT_PAGE_SIZE - 1);
+
+      if (error) {
+        console.error('orders.service: Supabase error fetching refunds for export:', error);
+        return { data: null, error: getErrorMessage(error) };
+      }
+
+      refunds.push(...(data ?? []));
+      if (!data || data.length < EXPORT_PAGE_SIZE) break;
     }
 
-    // Step 4: Decrement product stock
-    const stockResult = await decrementProductStock(orderItemsWithSubtotals);
-    if (stockResult.error) {
-      console.error('orders.service: Failed to decrement product stock:', stockResult.error);
-      // Note: In a real transaction, we would rollback the order and items creation here
-      return { data: null, error: `Failed to decrement product stock: ${stockResult.error}` };
+    const loaded = new Set(orders.map(order => order.id));
+    const refundedOrderIds = Array.from(new Set(refunds.map(refund => refund.order_id)))
+      .filter(orderId => !loaded.has(orderId));
+
+    for (let offset = 0; offset < refundedOrderIds.length; offset += EXPORT_ID_BATCH_SIZE) {
+      const { data, error } = await supabase
+        .from('orders')
+        .select(ORDER_SELECT)
+        .in('id', refundedOrderIds.slice(offset, offset + EXPORT_ID_BATCH_SIZE));
+
+      if (error) {
+        console.error('orders.service: Supabase error fetching refunded orders for export:', error);
+        return { data: null, error: getErrorMessage(error) };
+      }
+
+      orders.push(...(data ?? []));
     }
 
-    console.log('orders.service: Order with items created successfully');
-    return { data: orderResult.data, error: null };
+    console.log('orders.service: Orders for export fetched successfully:', orders.length);
+    return { data: orders, error: null };
   } catch (error) {
-    console.error('orders.service: Error creating order with items:', error);
+    console.error('orders.service: Error fetching orders for export:', error);
     return { data: null, error: getErrorMessage(error) };
   }
 };
 
-export const decrementProductStock = async (orderItems: any[]): Promise<ServiceResult<any>> => {
+export type CheckoutErrorCode =
+  | 'EMPTY_CART'
+  | 'INVALID_PAYMENT_METHOD'
+  | 'INVALID_QUANTITY'
+  | 'PRODUCT_NOT_FOUND'
+  | 'PRODUCT_INACTIVE'
+  | 'INSUFFICIENT_STOCK'
+  | 'INVALID_TAX_EXEMPTION'
+  | 'INVALID_DISCOUNT'
+  | 'INVALID_MODIFIERS'
+  | 'DISCOUNT_APPROVAL_REQUIRED'
+  | 'INVALID_PAYMENT'
+  | 'INSUFFICIENT_PAYMENT'
+  | 'PAYMENT_EXCEEDS_TOTAL'
+  | 'CUSTOMER_NOT_FOUND'
+  | 'INSUFFICIENT_POINTS';
+
+export type CheckoutLineError = {
+  code: CheckoutErrorCode;
+  product_id?: string;
+  product_name?: string | null;
+  requested_qty?: number | null;
+  available_stock?: number;
+  // Order total, for payment errors
+  amount_due?: number;
+  // Customer's balance and what the points tenders needed, for INSUFFICIENT_POINTS
+  available_points?: number;
+  requested_points?: number;
+};
+
+export type CheckoutItem = {
+  product_id: string;
+  quantity: number;
+  discount?: Discount | null;
+  modifier_ids?: string[];
+};
+
+export type CheckoutOptions = {
+  idempotencyKey?: string;
+  exemption?: TaxExemption | null;
+  orderDiscount?: Discount | null;
+  // Required when a discount is above the approval threshold and the cashier is not an admin
+  discountApprovalId?: string | null;
+  // Omit to pay the exact total with the single paymentMethod
+  payments?: Tender[] | null;
+  // Earns points on the sale; required for points tenders
+  customerId?: string | null;
+};
+
+export type CheckoutOrder = Database['public']['Tables']['orders']['Row'] & {
+  order_items: Array<Database['public']['Tables']['order_items']['Row'] & {
+    products: {
+      id: string;
+      name: string;
+    };
+  }>;
+  order_payments: Database['public']['Tables']['order_payments']['Row'][];
+  refunds: Array<Database['public']['Tables']['refunds']['Row'] & {
+    refund_items: Database['public']['Tables']['refund_items']['Row'][];
+  }>;
+};
+
+export type CheckoutResult = {
+  order: CheckoutOrder | null;
+  errors: CheckoutLineError[];
+  // True when the idempotency key matched an order that was already placed
+  replayed: boolean;
+};
+
+// Stock validation, pricing, the order/order_items inserts and the stock
+// decrement run in one transaction inside checkout_order. Validation failures
+// come back in data.errors (one entry per cart line) and nothing is written.
+// Lines are unique by product plus modifier_ids, and each line's unit price
+// includes its modifiers.
+// Passing the same idempotency key again returns the original order.
+// Tax is computed server-side from tax_classes; a senior citizen / PWD
+// exemption removes VAT from taxed lines. Discounts come off before tax.
+// Tenders must cover the total; cash over the total comes back as change.
+// Points tenders are taken from the customer's balance, and sales with a
+// customer earn points on the rest.
+export const checkoutOrder = async (
+  items: CheckoutItem[],
+  paymentMethod: PaymentMethod,
+  options: CheckoutOptions = {}
+): Promise<ServiceResult<CheckoutResult>> => {
   try {
-    console.log('orders.service: Decrementing product stock for multiple products');
-    
-    // Update stock for all products in a single transaction
-    const { data, error } = await supabase.rpc('decrement_multiple_product_stock', {
-      order_items: orderItems
+    console.log('orders.service: Checking out order');
+    const { data, error } = await supabase.rpc('checkout_order', {
+      p_items: items,
+      p_payment_method: paymentMethod,
+      p_options: {
+        idempotency_key: options.idempotencyKey ?? null,
+        tax_exemption: options.exemption?.type ?? null,
+        tax_exemption_id: options.exemption?.idNumber ?? null,
+        order_discount: options.orderDiscount ?? null,
+        discount_approval_id: options.discountApprovalId ?? null,
+        payments: options.payments ?? null,
+        customer_id: options.customerId ?? null,
+      },
     });
-    
+
     if (error) {
-      console.error('orders.service: Supabase error decrementing stock:', error);
+      console.error('orders.service: Supabase error checking out order:', error);
       return { data: null, error: getErrorMessage(error) };
     }
 
-    console.log('orders.service: Product stock decremented successfully');
-    return { data, error: null };
+    const result: CheckoutResult = {
+      order: data?.order ?? null,
+      errors: data?.errors ?? [],
+      replayed: data?.replayed ?? false,
+    };
+
+    if (result.errors.length > 0) {
+      console.log('orders.service: Checkout rejected:', result.errors);
+    } else {
+      console.log('orders.service: Order checked out successfully');
+    }
+    return { data: result, error: null };
   } catch (error) {
-    console.error('orders.service: Error decrementing product stock:', error);
+    console.error('orders.service: Error checking out order:', error);
     return { data: null, error: getErrorMessage(error) };
   }
 };
 
+// The reconcile_order_points trigger takes back the points a cancelled order
+// earned and returns the points it redeemed
 export const updateOrderStatus = async (orderId: string, status: string): Promise<ServiceResult<any>> => {
   try {
     console.log('orders.service: Updating order status:', orderId, status);
@@ -210,4 +410,60 @@ export const updateOrderStatus = async (orderId: string, status: string): Promis
     console.error('orders.service: Error updating order status:', error);
     return { data: null, error: getErrorMessage(error) };
   }
-};
\ No newline at end of file
+};
+
+export type RefundItem = {
+  order_item_id: string;
+  quantity: number;
+};
+
+export type RefundOptions = {
+  reason?: string | null;
+  // Defaults to the order's payment method, or cash for split orders.
+  // Points refunds are credited to the order's customer
+  method?: PaymentMethod | null;
+  // Put the returned items back into stock (default true)
+  restock?: boolean;
+};
+
+export type RefundResult = {
+  refundId: string;
+  amount: number;
+  order: CheckoutOrder;
+};
+
+// Returns the given quantities of order lines in one transaction inside
+// refund_order: records the refund, restocks through increment_product_stock
+// and marks the order refunded or partially_refunded. Admin only.
+export const refundOrder = async (
+  orderId: string,
+  items: RefundItem[],
+  options: RefundOptions = {}
+): Promise<ServiceResult<RefundResult>> => {
+  try {
+    console.log('orders.service: Refunding order:', orderId);
+    const { data, error } = await supabase.rpc('refund_order', {
+      p_order_id: orderId,
+      p_items: items,
+      p_options: {
+        reason: options.reason ?? null,
+        method: options.method ?? null,
+        restock: options.restock ?? true,
+      },
+    });
+
+    if (error) {
+      console.error('orders.service: Supabase error refunding order:', error);
+      return { data: null, error: getErrorMessage(error) };
+    }
+
+    console.log('orders.service: Order refunded successfully');
+    return {
+      data: { refundId: data.refund_id, amount: Number(data.amount), order: data.order },
+      error: null,
+    };
+  } catch (error) {
+    console.error('orders.service: Error refunding order:', error);
+    return { data: null, error: getErrorMessage(error) };
+  }
+};
@@ -1,8 +1,15 @@
 import { supabase } from '@/lib/supabase';
 import { getErrorMessage } from '@/utils/errorHandler';
+import { withBundleStock } from '@/utils/bundles';
+import { normalizeProductSearch, ProductSearchPage, ProductSearchParams } from '@/utils/productSearch';
 import { ServiceResult } from './types';
 import * as FileSystem from 'expo-file-system';
 
+// A bundle's components and their stock; withBundleStock turns them into the
+// bundle's own stock
+export const BUNDLE_COMPONENTS_SELECT =
+  'bundle_components!bundle_id(component_id,quantity,component:products!component_id(name,stock))';
+
 export const fetchCategories = async (): Promise<ServiceResult<any[]>> => {
   try {
     console.log('products.service: Fetching categories');
@@ -21,28 +28,40 @@ export const fetchCategories = async (): Promise<ServiceResult<any[]>> => {
   }
 };
 
+// PostgREST caps each response, so the whole catalog is read a page at a time
+const CATALOG_PAGE_SIZE = 1000;
+
+// Every product, for exports, imports and pickers that need the whole catalog
 export const fetchProducts = async (): Promise<ServiceResult<any[]>> => {
   try {
     console.log('products.service: Fetching products');
-    const { data, error } = await supabase
-      .from('products')
-      .select('id,name,price,stock,active,category_id,image_url,categories!category_id(*)')
-      .order('name');
-
-    if (error) {
-      console.error('products.service: Supabase error fetching products:', error);
-      return { data: null, error: getErrorMessage(error) };
+    const products: any[] = [];
+    for (let offset = 0; ; offset += CATALOG_PAGE_SIZE) {
+      const { data, error } = await supabase
+        .from('products')
+        .select(`id,name,price,stock,reorder_point,reorder_quantity,active,category_id,tax_class_id,sku,barcode,image_url,parent_id,variant_name,created_at,categories!category_id(*),${BUNDLE_COMPONENTS_SELECT}`)
+        .order('name')
+        .order('id')
+        .range(offset, offset + CATALOG_PAGE_SIZE - 1);
+
+      if (error) {
+        console.error('products.service: Supabase error fetching products:', error);
+        return { data: null, error: getErrorMessage(error) };
+      }
+
+      products.push(...(data ?? []));
+      if (!data || data.length < CATALOG_PAGE_SIZE) break;
     }
 
     // Normalize categories to be a single object or null consistently
-    const normalizedData = data?.map(product => ({
+    const normalizedData = products.map(product => withBundleStock({
       ...product,
       categories: product.categories && Array.isArray(product.categories)
         ? product.categories[0]
         : product.categories
-    })) || [];
+    }));
 
-    console.log('products.service: Products fetched successfully');
+    console.log('products.service: Products fetched successfully:', normalizedData.length);
     return { data: normalizedData, error: null };
   } catch (error) {
     console.error('products.service: Error fetching products:', error);
@@ -50,24 +69,74 @@ export const fetchProducts = async (): Promise<ServiceResult<any[]>> => {
   }
 };
 
-export const fetchActiveProducts = async (): Promise<ServiceResult<any[]>> => {
+// One page of top-level products from search_products, with the variants of
+// the products on it so their price range, stock and options can be shown
+export const searchProducts = async (
+  params: ProductSearchParams & { limit: number; offset: number }
+): Promise<ServiceResult<ProductSearchPage<any>>> => {
   try {
-    console.log('products.service: Fetching active products');
+    console.log('products.service: Searching products:', params);
     const { data, error } = await supabase
+      .rpc('search_products', {
+        p_query: normalizeProductSearch(params.query),
+        p_category_id: params.categoryId ?? null,
+        p_include_inactive: !!params.includeInactive,
+        // One more than the page holds, to know whether another page follows
+        p_limit: params.limit + 1,
+        p_offset: params.offset,
+      })
+      .select(`*,categories!category_id(*),${BUNDLE_COMPONENTS_SELECT}`);
+
+    if (error) {
+      console.error('products.service: Supabase error searching products:', error);
+      return { data: null, error: getErrorMessage(error) };
+    }
+
+    const rows = (data as any[] | null) ?? [];
+    const parents = rows.slice(0, params.limit);
+    const variants = await fetchVariants(parents.map(product => product.id), !!params.includeInactive);
+    if (variants.error || !variants.data) return { data: null, error: variants.error };
+
+    console.log('products.service: Products searched successfully');
+    return {
+      data: {
+        products: [...parents.map(withBundleStock), ...variants.data],
+        count: parents.length,
+        hasMore: rows.length > params.limit,
+      },
+      error: null,
+    };
+  } catch (error) {
+    console.error('products.service: Error searching products:', error);
+    return { data: null, error: getErrorMessage(error) };
+  }
+};
+
+export const fetchVariants = async (
+  parentIds: string[],
+  includeInactive: boolean = false
+): Promise<ServiceResult<any[]>> => {
+  if (parentIds.length === 0) return { data: [], error: null };
+
+  try {
+    console.log('products.service: Fetching variants');
+    let query = supabase
       .from('products')
-      .select('*')
-      .eq('active', true)
-      .order('name');
+      .select(`*,categories!category_id(*),${BUNDLE_COMPONENTS_SELECT}`)
+      .in('parent_id', parentIds);
+    if (!includeInactive) query = query.eq('active', true);
+
+    const { data, error } = await query;
 
     if (error) {
-      console.error('products.service: Supabase error fetching active products:', error);
+      console.error('products.service: Supabase error fetching variants:', error);
       return { data: null, error: getErrorMessage(error) };
     }
 
-    console.log('products.service: Active products fetched successfully');
-    return { data, error: null };
+    console.log('products.service: Variants fetched successfully');
+    return { data: (data ?? []).map(withBundleStock), error: null };
   } catch (error) {
-    console.error('products.service: Error fetching active products:', error);
+    console.error('products.service: Error fetching variants:', error);
     return { data: null, error: getErrorMessage(error) };
   }
 };
@@ -77,7 +146,7 @@ export const fetchProductsByIds = async (productIds: string[]): Promise<ServiceR
     console.log('products.service: Fetching products by IDs');
     const { data, error } = await supabase
       .from('products')
-      .select('id, name, price, stock')
+      .select(`id, name, price, stock, ${BUNDLE_COMPONENTS_SELECT}`)
       .in('id', productIds);
 
     if (error) {
@@ -86,13 +155,34 @@ export const fetchProductsByIds = async (productIds: string[]): Promise<ServiceR
     }
 
     console.log('products.service: Products by IDs fetched successfully');
-    return { data, error: null };
+    return { data: (data ?? []).map(withBundleStock), error: null };
   } catch (error) {
     console.error('products.service: Error fetching products by IDs:', error);
     return { data: null, error: getErrorMessage(error) };
   }
 };
 
+export const fetchProductByCode = async (code: string): Promise<ServiceResult<any | null>> => {
+  try {
+    console.log('products.service: Looking up product by code:', code);
+    const { data, error } = await supabase
+      .rpc('find_product_by_code', { p_code: code })
+      .select(`*,${BUNDLE_COMPONENTS_SELECT}`);
+
+    if (error) {
+      console.error('products.service: Supabase error looking up product by code:', error);
+      return { data: null, error: getErrorMessage(error) };
+    }
+
+    console.log('products.service: Product lookup by code completed');
+    const product = (data as any[] | null)?.[0];
+    return { data: product ? withBundleStock(product) : null, error: null };
+  } catch (error) {
+    console.error('products.service: Error looking up product by code:', error);
+    return { data: null, error: getErrorMessage(error) };
+  }
+};
+
 export const createProduct = async (productData: any): Promise<ServiceResult<any>> => {
   try {
     console.log('products.service: Creating product');
@@ -134,6 +224,84 @@ export const updateProduct = async (productId: string, productData: any): Promis
   }
 };
 
+// set_bundle_components replaces the components in one transaction; an empty
+// list makes the bundle an ordinary product again
+export const setBundleComponents = async (
+  bundleId: string,
+  components: { product_id: string; quantity: number }[]
+): Promise<ServiceResult<null>> => {
+  try {
+    console.log('products.service: Setting bundle components:', bundleId);
+    const { error } = await supabase.rpc('set_bundle_components', {
+      p_bundle_id: bundleId,
+      p_components: components,
+    });
+
+    if (error) {
+      console.error('products.service: Supabase error setting bundle components:', error);
+      return { data: null, error: getErrorMessage(error) };
+    }
+
+    console.log('products.service: Bundle components set successfully');
+    return { data: null, error: null };
+  } catch (error) {
+    console.error('products.service: Error setting bundle components:', error);
+    return { data: null, error: getErrorMessage(error) };
+  }
+};
+
+// Cost prices are admin only (RLS on product_costs); staff get an empty map
+export const fetchProductCosts = async (): Promise<ServiceResult<Record<string, number>>> => {
+  try {
+    console.log('products.service: Fetching product costs');
+    const costs: Record<string, number> = {};
+    for (let offset = 0; ; offset += CATALOG_PAGE_SIZE) {
+      const { data, error } = await supabase
+        .from('product_costs')
+        .select('product_id, cost_price')
+        .order('product_id')
+        .range(offset, offset + CATALOG_PAGE_SIZE - 1);
+
+      if (error) {
+        console.error('products.service: Supabase error fetching product costs:', error);
+        return { data: null, error: getErrorMessage(error) };
+      }
+
+      (data ?? []).forEach(row => {
+        costs[row.product_id] = Number(row.cost_price);
+      });
+      if (!data || data.length < CATALOG_PAGE_SIZE) break;
+    }
+
+    console.log('products.service: Product costs fetched successfully:', Object.keys(costs).length);
+    return { data: costs, error: null };
+  } catch (error) {
+    console.error('products.service: Error fetching product costs:', error);
+    return { data: null, error: getErrorMessage(error) };
+  }
+};
+
+// Receiving a purchase order moves the cost to a weighted average; this sets it outright
+export const saveProductCost = async (productId: string, costPrice: number): Promise<ServiceResult<null>> => {
+  try {
+    console.log('products.service: Saving product cost:', productId);
+    const { error } = await supabase
+      .from('product_costs')
+      .upsert({ product_id: productId, cost_price: costPrice, updated_at: new Date().toISOString() });
+
+    if (error) {
+      console.error('products.service: Supabase error saving product cost:', error);
+      return { data: null, error: getErrorMessage(error) };
+    }
+
+    console.log('products.service: Product cost saved successfully');
+    return { data: null, error: null };
+  } catch (error) {
+    console.error('products.service: Error saving product cost:', error);
+    return { data: null, error: getErrorMessage(error) };
+  }
+};
+
 export const deleteProduct = async (productId: string): Promise<ServiceResult<any>> => {
   try {
     console.log('products.service: Deleting product:', productId);
@@ -0,0 +1,227 @@
+import { supabase } from '@/lib/supabase';
+import { getErrorMessage } from '@/utils/errorHandler';
+import {
+  parsePurchaseOrder,
+  PurchaseOrder,
+  PurchaseOrderLineInput,
+  PurchaseOrderStatus,
+  Supplier,
+} from '@/utils/purchasing';
+import { parseReorderReport, ReorderReportRow } from '@/utils/reorder';
+import { ServiceResult } from './types';
+
+const PURCHASE_ORDER_SELECT = `
+  *,
+  suppliers(id, name),
+  purchase_order_items(*, products(id, name, sku, stock))
+`;
+
+export type SupplierInput = Omit<Supplier, 'id'>;
+
+export type ReceivedItem = {
+  purchase_order_item_id: string;
+  quantity: number;
+  unit_cost?: number;
+};
+
+export const fetchSuppliers = async (): Promise<ServiceResult<Supplier[]>> => {
+  try {
+    console.log('purchasing.service: Fetching suppliers');
+    const { data, error } = await supabase.from('suppliers').select('*').order('name');
+
+    if (error) {
+      console.error('purchasing.service: Supabase error fetching suppliers:', error);
+      return { data: null, error: getErrorMessage(error) };
+    }
+
+    console.log('purchasing.service: Suppliers fetched successfully');
+    return { data: data || [], error: null };
+  } catch (error) {
+    console.error('purchasing.service: Error fetching suppliers:', error);
+    return { data: null, error: getErrorMessage(error) };
+  }
+};
+
+export const createSupplier = async (supplier: SupplierInput): Promise<ServiceResult<Supplier>> => {
+  try {
+    console.log('purchasing.service: Creating supplier');
+    const { data, error } = await supabase.from('suppliers').insert(supplier).select().single();
+
+    if (error) {
+      console.error('purchasing.service: Supabase error creating supplier:', error);
+      return { data: null, error: getErrorMessage(error) };
+    }
+
+    console.log('purchasing.service: Supplier created successfully');
+    return { data, error: null };
+  } catch (error) {
+    console.error('purchasing.service: Error creating supplier:', error);
+    return { data: null, error: getErrorMessage(error) };
+  }
+};
+
+export const updateSupplier = async (supplierId: string, supplier: Partial<SupplierInput>): Promise<ServiceResult<Supplier>> => {
+  try {
+    console.log('purchasing.service: Updating supplier:', supplierId);
+    const { data, error } = await supabase
+      .from('suppliers')
+      .update({ ...supplier, updated_at: new Date().toISOString() })
+      .eq('id', supplierId)
+      .select()
+      .single();
+
+    if (error) {
+      console.error('purchasing.service: Supabase error updating supplier:', error);
+      return { data: null, error: getErrorMessage(error) };
+    }
+
+    console.log('purchasing.service: Supplier updated successfully');
+    return { data, error: null };
+  } catch (error) {
+    console.error('purchasing.service: Error updating supplier:', error);
+    return { data: null, error: getErrorMessage(error) };
+  }
+};
+
+export const fetchPurchaseOrders = async (): Promise<ServiceResult<PurchaseOrder[]>> => {
+  try {
+    console.log('purchasing.service: Fetching purchase orders');
+    const { data, error } = await supabase
+      .from('purchase_orders')
+      .select(PURCHASE_ORDER_SELECT)
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      console.error('purchasing.service: Supabase error fetching purchase orders:', error);
+      return { data: null, error: getErrorMessage(error) };
+    }
+
+    console.log('purchasing.service: Purchase orders fetched successfully');
+    return { data: (data || []).map(parsePurchaseOrder), error: null };
+  } catch (error) {
+    console.error('purchasing.service: Error fetching purchase orders:', error);
+    return { data: null, error: getErrorMessage(error) };
+  }
+};
+
+// Creates a draft when purchaseOrderId is null, otherwise replaces the draft's lines
+export const savePurchaseOrder = async (
+  purchaseOrderId: string | null,
+  supplierId: string,
+  items: PurchaseOrderLineInput[],
+  options: { expectedDate?: string | null; notes?: string | null } = {}
+): Promise<ServiceResult<PurchaseOrder>> => {
+  try {
+    console.log('purchasing.service: Saving purchase order:', purchaseOrderId ?? 'new');
+    const { data, error } = await supabase.rpc('save_purchase_order', {
+      p_purchase_order_id: purchaseOrderId,
+      p_supplier_id: supplierId,
+      p_items: items,
+      p_options: {
+        expected_date: options.expectedDate ?? null,
+        notes: options.notes ?? null,
+      },
+    });
+
+    if (error) {
+      console.error('purchasing.service: Supabase error saving purchase order:', error);
+      return { data: null, error: getErrorMessage(error) };
+    }
+
+    console.log('purchasing.service: Purchase order saved successfully');
+    return { data: parsePurchaseOrder(data), error: null };
+  } catch (error) {
+    console.error('purchasing.service: Error saving purchase order:', error);
+    return { data: null, error: getErrorMessage(error) };
+  }
+};
+
+export const updatePurchaseOrderStatus = async (
+  purchaseOrderId: string,
+  status: Extract<PurchaseOrderStatus, 'draft' | 'sent' | 'cancelled'>
+): Promise<ServiceResult<any>> => {
+  try {
+    console.log('purchasing.service: Updating purchase order status:', purchaseOrderId, status);
+    const { data, error } = await supabase
+      .from('purchase_orders')
+      .update({ status })
+      .eq('id', purchaseOrderId)
+      .select()
+      .single();
+
+    if (error) {
+      console.error('purchasing.service: Supabase error updating purchase order status:', error);
+      return { data: null, error: getErrorMessage(error) };
+    }
+
+    console.log('purchasing.service: Purchase order status updated successfully');
+    return { data, error: null };
+  } catch (error) {
+    console.error('purchasing.service: Error updating purchase order status:', error);
+    return { data: null, error: getErrorMessage(error) };
+  }
+};
+
+export const deletePurchaseOrder = async (purchaseOrderId: string): Promise<ServiceResult<any>> => {
+  try {
+    console.log('purchasing.service: Deleting purchase order:', purchaseOrderId);
+    const { data, error } = await supabase.from('purchase_orders').delete().eq('id', purchaseOrderId);
+
+    if (error) {
+      console.error('purchasing.service: Supabase error deleting purchase order:', error);
+      return { data: null, error: getErrorMessage(error) };
+    }
+
+    console.log('purchasing.service: Purchase order deleted successfully');
+    return { data, error: null };
+  } catch (error) {
+    console.error('purchasing.service: Error deleting purchase order:', error);
+    return { data: null, error: getErrorMessage(error) };
+  }
+};
+
+// receive_purchase_order: adds the stock, logs it against the PO and updates cost prices
+export const receivePurchaseOrder = async (
+  purchaseOrderId: string,
+  items: ReceivedItem[],
+  notes?: string | null
+): Promise<ServiceResult<PurchaseOrder>> => {
+  try {
+    console.log('purchasing.service: Receiving purchase order:', purchaseOrderId);
+    const { data, error } = await supabase.rpc('receive_purchase_order', {
+      p_purchase_order_id: purchaseOrderId,
+      p_items: items,
+      p_notes: notes ?? null,
+    });
+
+    if (error) {
+      console.error('purchasing.service: Supabase error receiving purchase order:', error);
+      return { data: null, error: getErrorMessage(error) };
+    }
+
+    console.log('purchasing.service: Purchase order received successfully');
+    return { data: parsePurchaseOrder(data), error: null };
+  } catch (error) {
+    console.error('purchasing.service: Error receiving purchase order:', error);
+    return { data: null, error: getErrorMessage(error) };
+  }
+};
+
+// Sales over the last salesDays days and stock on order for low or selling products
+export const fetchReorderReport = async (salesDays: number): Promise<ServiceResult<ReorderReportRow[]>> => {
+  try {
+    console.log('purchasing.service: Fetching reorder report');
+    const { data, error } = await supabase.rpc('get_reorder_report', { p_days: salesDays });
+
+    if (error) {
+      console.error('purchasing.service: Supabase error fetching reorder report:', error);
+      return { data: null, error: getErrorMessage(error) };
+    }
+
+    console.log('purchasing.service: Reorder report fetched successfully');
+    return { data: parseReorderReport(data || []), error: null };
+  } catch (error) {
+    console.error('purchasing.service: Error fetching reorder report:', error);
+    return { data: null, error: getErrorMessage(error) };
+  }
+};
@@ -0,0 +1,48 @@
+import { supabase } from '@/lib/supabase';
+import { getErrorMessage } from '@/utils/errorHandler';
+import { MarginReport, parseMarginReport } from '@/utils/margins';
+import { getDeviceTimeZone, parseSalesReport, ReportRange, SalesReport } from '@/utils/reports';
+import { ServiceResult } from './types';
+
+export const fetchSalesReport = async (range: ReportRange): Promise<ServiceResult<SalesReport>> => {
+  try {
+    console.log('reports.service: Fetching sales report', range.from.toISOString(), range.to.toISOString());
+    const { data, error } = await supabase.rpc('get_sales_report', {
+      p_from: range.from.toISOString(),
+      p_to: range.to.toISOString(),
+      p_timezone: getDeviceTimeZone(),
+    });
+
+    if (error) {
+      console.error('reports.service: Supabase error fetching sales report:', error);
+      return { data: null, error: getErrorMessage(error) };
+    }
+
+    console.log('reports.service: Sales report fetched successfully');
+    return { data: parseSalesReport(data), error: null };
+  } catch (error) {
+    console.error('reports.service: Error fetching sales report:', error);
+    return { data: null, error: getErrorMessage(error) };
+  }
+};
+
+export const fetchMarginReport = async (range: ReportRange): Promise<ServiceResult<MarginReport>> => {
+  try {
+    console.log('reports.service: Fetching margin report', range.from.toISOString(), range.to.toISOString());
+    const { data, error } = await supabase.rpc('get_margin_report', {
+      p_from: range.from.toISOString(),
+      p_to: range.to.toISOString(),
+    });
+
+    if (error) {
+      console.error('reports.service: Supabase error fetching margin report:', error);
+      return { data: null, error: getErrorMessage(error) };
+    }
+
+    console.log('reports.service: Margin report fetched successfully');
+    return { data: parseMarginReport(data), error: null };
+  } catch (error) {
+    console.error('reports.service: Error fetching margin report:', error);
+    return { data: null, error: getErrorMessage(error) };
+  }
+};
@@ -0,0 +1,123 @@
+import { supabase } from '@/lib/supabase';
+import { getErrorMessage } from '@/utils/errorHandler';
+import { CashMovementType, parseShiftReport, Shift, ShiftReport } from '@/utils/shifts';
+import { ServiceResult } from './types';
+
+export const fetchOpenShift = async (userId: string): Promise<ServiceResult<Shift | null>> => {
+  try {
+    console.log('shifts.service: Fetching open shift for user:', userId);
+    const { data, error } = await supabase
+      .from('shifts')
+      .select('*')
+      .eq('user_id', userId)
+      .eq('status', 'open')
+      .maybeSingle();
+
+    if (error) {
+      console.error('shifts.service: Supabase error fetching open shift:', error);
+      return { data: null, error: getErrorMessage(error) };
+    }
+
+    console.log('shifts.service: Open shift fetched successfully');
+    return { data: data ? { ...data, opening_float: Number(data.opening_float) } : null, error: null };
+  } catch (error) {
+    console.error('shifts.service: Error fetching open shift:', error);
+    return { data: null, error: getErrorMessage(error) };
+  }
+};
+
+export const openShift = async (userId: string, openingFloat: number): Promise<ServiceResult<Shift>> => {
+  try {
+    console.log('shifts.service: Opening shift for user:', userId);
+    const { data, error } = await supabase
+      .from('shifts')
+      .insert({ user_id: userId, opening_float: openingFloat })
+      .select()
+      .single();
+
+    if (error) {
+      console.error('shifts.service: Supabase error opening shift:', error);
+      return { data: null, error: getErrorMessage(error) };
+    }
+
+    console.log('shifts.service: Shift opened successfully');
+    return { data: { ...data, opening_float: Number(data.opening_float) }, error: null };
+  } catch (error) {
+    console.error('shifts.service: Error opening shift:', error);
+    return { data: null, error: getErrorMessage(error) };
+  }
+};
+
+// Paid-ins (e.g. extra change from the safe) and paid-outs (e.g. petty cash purchases)
+export const recordCashMovement = async (
+  shiftId: string,
+  type: CashMovementType,
+  amount: number,
+  reason: string
+): Promise<ServiceResult<any>> => {
+  try {
+    console.log('shifts.service: Recording cash movement:', shiftId, type, amount);
+    const { data, error } = await supabase
+      .from('cash_movements')
+      .insert({ shift_id: shiftId, type, amount, reason })
+      .select()
+      .single();
+
+    if (error) {
+      console.error('shifts.service: Supabase error recording cash movement:', error);
+      return { data: null, error: getErrorMessage(error) };
+    }
+
+    console.log('shifts.service: Cash movement recorded successfully');
+    return { data, error: null };
+  } catch (error) {
+    console.error('shifts.service: Error recording cash movement:', error);
+    return { data: null, error: getErrorMessage(error) };
+  }
+};
+
+// X report: the running totals of a shift without closing it
+export const fetchShiftReport = async (shiftId: string): Promise<ServiceResult<ShiftReport>> => {
+  try {
+    console.log('shifts.service: Fetching shift report:', shiftId);
+    const { data, error } = await supabase.rpc('get_shift_report', { p_shift_id: shiftId });
+
+    if (error) {
+      console.error('shifts.service: Supabase error fetching shift report:', error);
+      return { data: null, error: getErrorMessage(error) };
+    }
+
+    console.log('shifts.service: Shift report fetched successfully');
+    return { data: parseShiftReport(data), error: null };
+  } catch (error) {
+    console.error('shifts.service: Error fetching shift report:', error);
+    return { data: null, error: getErrorMessage(error) };
+  }
+};
+
+// Z report: records the counted cash and the variance and closes the shift
+export const closeShift = async (
+  shiftId: string,
+  countedCash: number,
+  notes?: string | null
+): Promise<ServiceResult<ShiftReport>> => {
+  try {
+    console.log('shifts.service: Closing shift:', shiftId);
+    const { data, error } = await supabase.rpc('close_shift', {
+      p_shift_id: shiftId,
+      p_counted_cash: countedCash,
+      p_notes: notes ?? null,
+    });
+
+    if (error) {
+      console.error('shifts.service: Supabase error closing shift:', error);
+      return { data: null, error: getErrorMessage(error) };
+    }
+
+    console.log('shifts.service: Shift closed successfully');
+    return { data: parseShiftReport(data), error: null };
+  } catch (error) {
+    console.error('shifts.service: Error closing shift:', error);
+    return { data: null, error: getErrorMessage(error) };
+  }
+};
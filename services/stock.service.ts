@@ -0,0 +1,56 @@
+import { supabase } from '@/lib/supabase';
+import { getErrorMessage } from '@/utils/errorHandler';
+import { StockAdjustmentReason, StockLog } from '@/utils/stock';
+import { ServiceResult } from './types';
+
+export const fetchStockHistory = async (productId: string, limit = 50): Promise<ServiceResult<StockLog[]>> => {
+  try {
+    console.log('stock.service: Fetching stock history for product:', productId);
+    const { data, error } = await supabase
+      .from('stock_logs')
+      .select('*, profiles!user_id(full_name, email)')
+      .eq('product_id', productId)
+      .order('created_at', { ascending: false })
+      .limit(limit);
+
+    if (error) {
+      console.error('stock.service: Supabase error fetching stock history:', error);
+      return { data: null, error: getErrorMessage(error) };
+    }
+
+    console.log('stock.service: Stock history fetched successfully');
+    return { data: data || [], error: null };
+  } catch (error) {
+    console.error('stock.service: Error fetching stock history:', error);
+    return { data: null, error: getErrorMessage(error) };
+  }
+};
+
+// Returns the product's stock after the adjustment
+export const adjustProductStock = async (
+  productId: string,
+  quantityChange: number,
+  reason: StockAdjustmentReason,
+  note?: string | null
+): Promise<ServiceResult<number>> => {
+  try {
+    console.log('stock.service: Adjusting stock for product:', productId, quantityChange, reason);
+    const { data, error } = await supabase.rpc('adjust_product_stock', {
+      p_product_id: productId,
+      p_quantity_change: quantityChange,
+      p_reason: reason,
+      p_note: note ?? null,
+    });
+
+    if (error) {
+      console.error('stock.service: Supabase error adjusting stock:', error);
+      return { data: null, error: getErrorMessage(error) };
+    }
+
+    console.log('stock.service: Stock adjusted successfully');
+    return { data, error: null };
+  } catch (error) {
+    console.error('stock.service: Error adjusting stock:', error);
+    return { data: null, error: getErrorMessage(error) };
+  }
+};
@@ -0,0 +1,171 @@
+import { supabase } from '@/lib/supabase';
+import { getErrorMessage } from '@/utils/errorHandler';
+import {
+  parseStocktakeReport,
+  Stocktake,
+  StocktakeCount,
+  StocktakeCountMode,
+  StocktakeReport,
+} from '@/utils/stocktake';
+import { ServiceResult } from './types';
+
+// There is at most one stocktake in counting or review at a time
+export const fetchActiveStocktake = async (): Promise<ServiceResult<Stocktake | null>> => {
+  try {
+    console.log('stocktake.service: Fetching active stocktake');
+    const { data, error } = await supabase
+      .from('stocktakes')
+      .select('*, categories(name)')
+      .in('status', ['counting', 'review'])
+      .maybeSingle();
+
+    if (error) {
+      console.error('stocktake.service: Supabase error fetching active stocktake:', error);
+      return { data: null, error: getErrorMessage(error) };
+    }
+
+    console.log('stocktake.service: Active stocktake fetched successfully');
+    return { data, error: null };
+  } catch (error) {
+    console.error('stocktake.service: Error fetching active stocktake:', error);
+    return { data: null, error: getErrorMessage(error) };
+  }
+};
+
+export const startStocktake = async (
+  categoryId: string | null,
+  notes: string | null
+): Promise<ServiceResult<string>> => {
+  try {
+    console.log('stocktake.service: Starting stocktake');
+    const { data, error } = await supabase.rpc('start_stocktake', {
+      p_category_id: categoryId,
+      p_notes: notes,
+    });
+
+    if (error) {
+      console.error('stocktake.service: Supabase error starting stocktake:', error);
+      return { data: null, error: getErrorMessage(error) };
+    }
+
+    console.log('stocktake.service: Stocktake started successfully');
+    return { data, error: null };
+  } catch (error) {
+    console.error('stocktake.service: Error starting stocktake:', error);
+    return { data: null, error: getErrorMessage(error) };
+  }
+};
+
+export const fetchStocktakeCounts = async (stocktakeId: string): Promise<ServiceResult<StocktakeCount[]>> => {
+  try {
+    console.log('stocktake.service: Fetching stocktake counts:', stocktakeId);
+    const { data, error } = await supabase.rpc('get_stocktake_counts', { p_stocktake_id: stocktakeId });
+
+    if (error) {
+      console.error('stocktake.service: Supabase error fetching stocktake counts:', error);
+      return { data: null, error: getErrorMessage(error) };
+    }
+
+    console.log('stocktake.service: Stocktake counts fetched successfully');
+    return {
+      data: (data || []).map((row: any) => ({
+        ...row,
+        counted_quantity: row.counted_quantity === null ? null : Number(row.counted_quantity),
+      })),
+      error: null,
+    };
+  } catch (error) {
+    console.error('stocktake.service: Error fetching stocktake counts:', error);
+    return { data: null, error: getErrorMessage(error) };
+  }
+};
+
+// Returns the product's new counted quantity
+export const recordStocktakeCount = async (
+  stocktakeId: string,
+  productId: string,
+  quantity: number,
+  mode: StocktakeCountMode
+): Promise<ServiceResult<number>> => {
+  try {
+    console.log('stocktake.service: Recording count:', productId, mode, quantity);
+    const { data, error } = await supabase.rpc('record_stocktake_count', {
+      p_stocktake_id: stocktakeId,
+      p_product_id: productId,
+      p_quantity: quantity,
+      p_mode: mode,
+    });
+
+    if (error) {
+      console.error('stocktake.service: Supabase error recording count:', error);
+      return { data: null, error: getErrorMessage(error) };
+    }
+
+    console.log('stocktake.service: Count recorded successfully');
+    return { data: Number(data), error: null };
+  } catch (error) {
+    console.error('stocktake.service: Error recording count:', error);
+    return { data: null, error: getErrorMessage(error) };
+  }
+};
+
+export const updateStocktakeStatus = async (
+  stocktakeId: string,
+  status: 'counting' | 'review' | 'cancelled'
+): Promise<ServiceResult<null>> => {
+  try {
+    console.log('stocktake.service: Updating stocktake status:', stocktakeId, status);
+    const { error } = await supabase.rpc('set_stocktake_status', {
+      p_stocktake_id: stocktakeId,
+      p_status: status,
+    });
+
+    if (error) {
+      console.error('stocktake.service: Supabase error updating stocktake status:', error);
+      return { data: null, error: getErrorMessage(error) };
+    }
+
+    console.log('stocktake.service: Stocktake status updated successfully');
+    return { data: null, error: null };
+  } catch (error) {
+    console.error('stocktake.service: Error updating stocktake status:', error);
+    return { data: null, error: getErrorMessage(error) };
+  }
+};
+
+export const fetchStocktakeReport = async (stocktakeId: string): Promise<ServiceResult<StocktakeReport>> => {
+  try {
+    console.log('stocktake.service: Fetching stocktake report:', stocktakeId);
+    const { data, error } = await supabase.rpc('get_stocktake_report', { p_stocktake_id: stocktakeId });
+
+    if (error) {
+      console.error('stocktake.service: Supabase error fetching stocktake report:', error);
+      return { data: null, error: getErrorMessage(error) };
+    }
+
+    console.log('stocktake.service: Stocktake report fetched successfully');
+    return { data: parseStocktakeReport(data), error: null };
+  } catch (error) {
+    console.error('stocktake.service: Error fetching stocktake report:', error);
+    return { data: null, error: getErrorMessage(error) };
+  }
+};
+
+// approve_stocktake: posts each variance as a count_correction stock movement
+export const approveStocktake = async (stocktakeId: string): Promise<ServiceResult<StocktakeReport>> => {
+  try {
+    console.log('stocktake.service: Approving stocktake:', stocktakeId);
+    const { data, error } = await supabase.rpc('approve_stocktake', { p_stocktake_id: stocktakeId });
+
+    if (error) {
+      console.error('stocktake.service: Supabase error approving stocktake:', error);
+      return { data: null, error: getErrorMessage(error) };
+    }
+
+    console.log('stocktake.service: Stocktake approved successfully');
+    return { data: parseStocktakeReport(data), error: null };
+  } catch (error) {
+    console.error('stocktake.service: Error approving stocktake:', error);
+    return { data: null, error: getErrorMessage(error) };
+  }
+};
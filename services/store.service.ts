@@ -0,0 +1,109 @@
+import { supabase } from '@/lib/supabase';
+import { getErrorMessage } from '@/utils/errorHandler';
+import { DEFAULT_STORE_INFO, StoreInfo } from '@/utils/receipt';
+import { JournalAccounts, parseJournalAccounts } from '@/utils/orderExport';
+import { ServiceResult } from './types';
+
+export const fetchStoreInfo = async (): Promise<ServiceResult<StoreInfo>> => {
+  try {
+    console.log('store.service: Fetching store settings');
+    const { data, error } = await supabase
+      .from('store_settings')
+      .select('store_name,tin,address,phone,receipt_footer,receipt_width')
+      .maybeSingle();
+
+    if (error) {
+      console.error('store.service: Supabase error fetching store settings:', error);
+      return { data: null, error: getErrorMessage(error) };
+    }
+
+    console.log('store.service: Store settings fetched successfully');
+    return {
+      data: data
+        ? {
+            storeName: data.store_name,
+            tin: data.tin,
+            address: data.address,
+            phone: data.phone,
+            footer: data.receipt_footer,
+            receiptWidth: data.receipt_width,
+          }
+        : DEFAULT_STORE_INFO,
+      error: null,
+    };
+  } catch (error) {
+    console.error('store.service: Error fetching store settings:', error);
+    return { data: null, error: getErrorMessage(error) };
+  }
+};
+
+export const updateStoreInfo = async (storeInfo: StoreInfo): Promise<ServiceResult<StoreInfo>> => {
+  try {
+    console.log('store.service: Updating store settings');
+    const { error } = await supabase
+      .from('store_settings')
+      .upsert({
+        id: true,
+        store_name: storeInfo.storeName,
+        tin: storeInfo.tin,
+        address: storeInfo.address,
+        phone: storeInfo.phone,
+        receipt_footer: storeInfo.footer,
+        receipt_width: storeInfo.receiptWidth,
+        updated_at: new Date().toISOString(),
+      });
+
+    if (error) {
+      console.error('store.service: Supabase error updating store settings:', error);
+      return { data: null, error: getErrorMessage(error) };
+    }
+
+    console.log('store.service: Store settings updated successfully');
+    return { data: storeInfo, error: null };
+  } catch (error) {
+    console.error('store.service: Error updating store settings:', error);
+    return { data: null, error: getErrorMessage(error) };
+  }
+};
+
+export const fetchJournalAccounts = async (): Promise<ServiceResult<JournalAccounts>> => {
+  try {
+    console.log('store.service: Fetching journal accounts');
+    const { data, error } = await supabase
+      .from('store_settings')
+      .select('journal_accounts')
+      .maybeSingle();
+
+    if (error) {
+      console.error('store.service: Supabase error fetching journal accounts:', error);
+      return { data: null, error: getErrorMessage(error) };
+    }
+
+    console.log('store.service: Journal accounts fetched successfully');
+    return { data: parseJournalAccounts(data?.journal_accounts), error: null };
+  } catch (error) {
+    console.error('store.service: Error fetching journal accounts:', error);
+    return { data: null, error: getErrorMessage(error) };
+  }
+};
+
+export const updateJournalAccounts = async (accounts: JournalAccounts): Promise<ServiceResult<JournalAccounts>> => {
+  try {
+    console.log('store.service: Updating journal accounts');
+    const { error } = await supabase
+      .from('store_settings')
+      .update({ journal_accounts: accounts, updated_at: new Date().toISOString() })
+      .eq('id', true);
+
+    if (error) {
+      console.error('store.service: Supabase error updating journal accounts:', error);
+      return { data: null, error: getErrorMessage(error) };
+    }
+
+    console.log('store.service: Journal accounts updated successfully');
+    return { data: accounts, error: null };
+  } catch (error) {
+    console.error('store.service: Error updating journal accounts:', error);
+    return { data: null, error: getErrorMessage(error) };
+  }
+};
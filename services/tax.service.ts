@@ -0,0 +1,67 @@
+import { supabase } from '@/lib/supabase';
+import { getErrorMessage } from '@/utils/errorHandler';
+import { TaxClass, TaxConfig } from '@/utils/tax';
+import { ServiceResult } from './types';
+
+export const fetchTaxClasses = async (): Promise<ServiceResult<TaxClass[]>> => {
+  try {
+    console.log('tax.service: Fetching tax classes');
+    const { data, error } = await supabase
+      .from('tax_classes')
+      .select('id,code,name,kind,rate,is_default')
+      .order('name');
+
+    if (error) {
+      console.error('tax.service: Supabase error fetching tax classes:', error);
+      return { data: null, error: getErrorMessage(error) };
+    }
+
+    // numeric columns arrive as strings
+    const taxClasses = (data || []).map(tc => ({ ...tc, rate: Number(tc.rate) }));
+
+    console.log('tax.service: Tax classes fetched successfully');
+    return { data: taxClasses, error: null };
+  } catch (error) {
+    console.error('tax.service: Error fetching tax classes:', error);
+    return { data: null, error: getErrorMessage(error) };
+  }
+};
+
+export const fetchTaxConfig = async (): Promise<ServiceResult<TaxConfig>> => {
+  try {
+    console.log('tax.service: Fetching tax configuration');
+    const [classesResult, settingsResult, categoriesResult] = await Promise.all([
+      fetchTaxClasses(),
+      supabase.from('tax_settings').select('prices_include_tax').maybeSingle(),
+      supabase.from('categories').select('id,tax_class_id'),
+    ]);
+
+    if (classesResult.error || !classesResult.data) {
+      return { data: null, error: classesResult.error };
+    }
+
+    const error = settingsResult.error || categoriesResult.error;
+    if (error) {
+      console.error('tax.service: Supabase error fetching tax configuration:', error);
+      return { data: null, error: getErrorMessage(error) };
+    }
+
+    const categoryTaxClassIds: Record<string, string | null> = {};
+    (categoriesResult.data || []).forEach(category => {
+      categoryTaxClassIds[category.id] = category.tax_class_id;
+    });
+
+    console.log('tax.service: Tax configuration fetched successfully');
+    return {
+      data: {
+        pricesIncludeTax: settingsResult.data?.prices_include_tax ?? true,
+        taxClasses: classesResult.data,
+        categoryTaxClassIds,
+      },
+      error: null,
+    };
+  } catch (error) {
+    console.error('tax.service: Error fetching tax configuration:', error);
+    return { data: null, error: getErrorMessage(error) };
+  }
+};
@@ -0,0 +1,87 @@
+import { supabase } from '@/lib/supabase';
+import { getErrorMessage } from '@/utils/errorHandler';
+import { HeldTicket } from '@/utils/tickets';
+import { ServiceResult } from './types';
+
+const toHeldTicket = (row: any): HeldTicket => ({
+  id: row.id,
+  name: row.name,
+  items: Array.isArray(row.items) ? row.items : [],
+  orderDiscount: row.order_discount ?? null,
+  customer: row.customer ?? null,
+  heldBy: row.held_by ?? null,
+  heldAt: row.created_at,
+  shared: true,
+});
+
+// Tickets held for any device, oldest first
+export const fetchSharedTickets = async (): Promise<ServiceResult<HeldTicket[]>> => {
+  try {
+    console.log('tickets.service: Fetching shared tickets');
+    const { data, error } = await supabase
+      .from('held_tickets')
+      .select('*')
+      .order('created_at');
+
+    if (error) {
+      console.error('tickets.service: Supabase error fetching shared tickets:', error);
+      return { data: null, error: getErrorMessage(error) };
+    }
+
+    console.log('tickets.service: Shared tickets fetched successfully');
+    return { data: (data ?? []).map(toHeldTicket), error: null };
+  } catch (error) {
+    console.error('tickets.service: Error fetching shared tickets:', error);
+    return { data: null, error: getErrorMessage(error) };
+  }
+};
+
+export const shareTicket = async (ticket: HeldTicket): Promise<ServiceResult<HeldTicket>> => {
+  try {
+    console.log('tickets.service: Sharing ticket:', ticket.id);
+    const { data, error } = await supabase
+      .from('held_tickets')
+      .insert({
+        id: ticket.id,
+        name: ticket.name,
+        items: ticket.items,
+        order_discount: ticket.orderDiscount,
+        customer: ticket.customer,
+      })
+      .select('*')
+      .single();
+
+    if (error) {
+      console.error('tickets.service: Supabase error sharing ticket:', error);
+      return { data: null, error: getErrorMessage(error) };
+    }
+
+    console.log('tickets.service: Ticket shared successfully');
+    return { data: toHeldTicket(data), error: null };
+  } catch (error) {
+    console.error('tickets.service: Error sharing ticket:', error);
+    return { data: null, error: getErrorMessage(error) };
+  }
+};
+
+// Takes the ticket off the server; data is null when another device got to it first.
+// Discarding a shared ticket is a recall that is thrown away.
+export const recallSharedTicket = async (ticketId: string): Promise<ServiceResult<HeldTicket | null>> => {
+  try {
+    console.log('tickets.service: Recalling shared ticket:', ticketId);
+    const { data, error } = await supabase.rpc('recall_held_ticket', {
+      p_ticket_id: ticketId,
+    });
+
+    if (error) {
+      console.error('tickets.service: Supabase error recalling shared ticket:', error);
+      return { data: null, error: getErrorMessage(error) };
+    }
+
+    console.log('tickets.service: Shared ticket recalled successfully');
+    return { data: data ? toHeldTicket(data) : null, error: null };
+  } catch (error) {
+    console.error('tickets.service: Error recalling shared ticket:', error);
+    return { data: null, error: getErrorMessage(error) };
+  }
+};
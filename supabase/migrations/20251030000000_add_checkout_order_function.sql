@@ -0,0 +1,153 @@
+-- Atomic checkout function for POS orders
+--
+-- Replaces the client-side createOrderWithItems orchestration, which inserted
+-- the order, then its items, then decremented stock in three separate requests
+-- and could leave orphan orders behind when a later step failed.
+--
+-- checkout_order validates every line against current stock, prices it from
+-- products (never from the client), writes orders/order_items and decrements
+-- stock in one transaction. Validation failures are returned as structured
+-- per-line errors and nothing is written.
+--
+-- Error codes:
+--   EMPTY_CART, INVALID_PAYMENT_METHOD, INVALID_QUANTITY,
+--   PRODUCT_NOT_FOUND, PRODUCT_INACTIVE, INSUFFICIENT_STOCK
+
+CREATE OR REPLACE FUNCTION checkout_order(
+  p_items jsonb,  -- Array of objects with product_id and quantity
+  p_payment_method text
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_tax_rate CONSTANT numeric := 0.10;
+  v_user_id uuid := auth.uid();
+  v_items jsonb;
+  v_errors jsonb := '[]'::jsonb;
+  v_line record;
+  v_subtotal numeric(10, 2);
+  v_tax numeric(10, 2);
+  v_order_id uuid;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF p_items IS NULL OR jsonb_typeof(p_items) <> 'array' OR jsonb_array_length(p_items) = 0 THEN
+    RETURN jsonb_build_object(
+      'order', NULL,
+      'errors', jsonb_build_array(jsonb_build_object('code', 'EMPTY_CART'))
+    );
+  END IF;
+
+  IF p_payment_method IS NULL OR p_payment_method NOT IN ('cash', 'card', 'mobile') THEN
+    RETURN jsonb_build_object(
+      'order', NULL,
+      'errors', jsonb_build_array(jsonb_build_object('code', 'INVALID_PAYMENT_METHOD'))
+    );
+  END IF;
+
+  -- Merge duplicate lines so each product is validated and decremented once
+  SELECT jsonb_agg(jsonb_build_object('product_id', product_id, 'quantity', quantity) ORDER BY product_id)
+  INTO v_items
+  FROM (
+    SELECT (item->>'product_id')::uuid AS product_id,
+           SUM((item->>'quantity')::integer) AS quantity
+    FROM jsonb_array_elements(p_items) AS item
+    GROUP BY 1
+  ) merged;
+
+  -- Lock product rows in a stable order to avoid deadlocks between tills
+  PERFORM 1
+  FROM products
+  WHERE id IN (SELECT product_id FROM jsonb_to_recordset(v_items) AS x(product_id uuid, quantity integer))
+  ORDER BY id
+  FOR UPDATE;
+
+  FOR v_line IN
+    SELECT x.product_id, x.quantity, p.id AS found_id, p.name, p.stock, p.active
+    FROM jsonb_to_recordset(v_items) AS x(product_id uuid, quantity integer)
+    LEFT JOIN products p ON p.id = x.product_id
+  LOOP
+    IF v_line.quantity IS NULL OR v_line.quantity <= 0 THEN
+      v_errors := v_errors || jsonb_build_object(
+        'product_id', v_line.product_id,
+        'product_name', v_line.name,
+        'code', 'INVALID_QUANTITY',
+        'requested_qty', v_line.quantity
+      );
+    ELSIF v_line.found_id IS NULL THEN
+      v_errors := v_errors || jsonb_build_object(
+        'product_id', v_line.product_id,
+        'code', 'PRODUCT_NOT_FOUND',
+        'requested_qty', v_line.quantity
+      );
+    ELSIF NOT v_line.active THEN
+      v_errors := v_errors || jsonb_build_object(
+        'product_id', v_line.product_id,
+        'product_name', v_line.name,
+        'code', 'PRODUCT_INACTIVE',
+        'requested_qty', v_line.quantity
+      );
+    ELSIF COALESCE(v_line.stock, 0) < v_line.quantity THEN
+      v_errors := v_errors || jsonb_build_object(
+        'product_id', v_line.product_id,
+        'product_name', v_line.name,
+        'code', 'INSUFFICIENT_STOCK',
+        'requested_qty', v_line.quantity,
+        'available_stock', COALESCE(v_line.stock, 0)
+      );
+    END IF;
+  END LOOP;
+
+  IF jsonb_array_length(v_errors) > 0 THEN
+    RETURN jsonb_build_object('order', NULL, 'errors', v_errors);
+  END IF;
+
+  SELECT SUM(p.price * x.quantity)
+  INTO v_subtotal
+  FROM jsonb_to_recordset(v_items) AS x(product_id uuid, quantity integer)
+  JOIN products p ON p.id = x.product_id;
+
+  v_tax := round(v_subtotal * v_tax_rate, 2);
+
+  INSERT INTO orders (user_id, total, tax, status, payment_method)
+  VALUES (v_user_id, v_subtotal + v_tax, v_tax, 'completed', p_payment_method)
+  RETURNING id INTO v_order_id;
+
+  -- Snapshot prices for historical accuracy
+  INSERT INTO order_items (order_id, product_id, quantity, price, subtotal)
+  SELECT v_order_id, p.id, x.quantity, p.price, p.price * x.quantity
+  FROM jsonb_to_recordset(v_items) AS x(product_id uuid, quantity integer)
+  JOIN products p ON p.id = x.product_id;
+
+  PERFORM decrement_multiple_product_stock(v_items);
+
+  RETURN jsonb_build_object(
+    'order', (
+      SELECT to_jsonb(o) || jsonb_build_object(
+        'order_items', COALESCE((
+          SELECT jsonb_agg(jsonb_build_object(
+            'id', oi.id,
+            'product_id', oi.product_id,
+            'quantity', oi.quantity,
+            'price', oi.price,
+            'subtotal', oi.subtotal,
+            'products', jsonb_build_object('id', p.id, 'name', p.name)
+          ) ORDER BY p.name)
+          FROM order_items oi
+          JOIN products p ON p.id = oi.product_id
+          WHERE oi.order_id = o.id
+        ), '[]'::jsonb)
+      )
+      FROM orders o
+      WHERE o.id = v_order_id
+    ),
+    'errors', '[]'::jsonb
+  );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION checkout_order TO authenticated;
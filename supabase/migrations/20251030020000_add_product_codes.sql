@@ -0,0 +1,33 @@
+-- Add SKU and barcode fields to products for scanning on the POS
+--
+-- Both are optional but must be unique when set. SKUs are matched
+-- case-insensitively; barcodes are matched exactly as scanned.
+
+ALTER TABLE products ADD COLUMN IF NOT EXISTS sku text;
+ALTER TABLE products ADD COLUMN IF NOT EXISTS barcode text;
+
+-- Blank values would collide with each other under the unique indexes
+ALTER TABLE products ADD CONSTRAINT products_sku_not_blank CHECK (btrim(sku) <> '');
+ALTER TABLE products ADD CONSTRAINT products_barcode_not_blank CHECK (btrim(barcode) <> '');
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_products_sku ON products (lower(sku)) WHERE sku IS NOT NULL;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_products_barcode ON products (barcode) WHERE barcode IS NOT NULL;
+
+COMMENT ON COLUMN products.sku IS 'Stock keeping unit. Unique (case-insensitive) when set.';
+COMMENT ON COLUMN products.barcode IS 'Scannable barcode (EAN/UPC/Code128). Unique when set.';
+
+-- Look up a product by scanned or typed code. Runs with the caller's
+-- privileges, so staff only find active products through RLS.
+CREATE OR REPLACE FUNCTION find_product_by_code(p_code text)
+RETURNS SETOF products
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT *
+  FROM products
+  WHERE barcode = btrim(p_code)
+  OR lower(sku) = lower(btrim(p_code))
+  LIMIT 1;
+$$;
+
+GRANT EXECUTE ON FUNCTION find_product_by_code TO authenticated;
@@ -0,0 +1,327 @@
+-- Configurable tax engine
+--
+-- Replaces the hard-coded 10% tax with Philippine VAT rules.
+--
+-- 1. New Tables
+--    - tax_classes: named rates (VAT 12%, VAT-exempt, zero-rated)
+--    - tax_settings: single row; whether shelf prices already include tax
+--
+-- 2. Tax class resolution
+--    - products.tax_class_id, else categories.tax_class_id, else the default class
+--
+-- 3. Orders
+--    - order_items snapshot the per-line tax breakdown
+--    - orders record senior citizen / PWD exemptions with the ID presented
+--
+-- 4. Important Notes
+--    - The same rules are implemented client-side in utils/tax.ts (computeTotals)
+--      for display; checkout_order is the source of truth for stored amounts
+
+CREATE TABLE IF NOT EXISTS tax_classes (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  code text NOT NULL UNIQUE,
+  name text NOT NULL,
+  kind text NOT NULL DEFAULT 'standard' CHECK (kind IN ('standard', 'exempt', 'zero_rated')),
+  rate numeric(6, 4) NOT NULL DEFAULT 0 CHECK (rate >= 0 AND rate < 1),
+  is_default boolean NOT NULL DEFAULT false,
+  created_at timestamptz DEFAULT now(),
+  CONSTRAINT tax_classes_untaxed_rate CHECK (kind = 'standard' OR rate = 0)
+);
+
+-- Only one class can be the default
+CREATE UNIQUE INDEX IF NOT EXISTS idx_tax_classes_default ON tax_classes (is_default) WHERE is_default;
+
+ALTER TABLE tax_classes ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view tax classes"
+  ON tax_classes FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Admins can insert tax classes"
+  ON tax_classes FOR INSERT
+  TO authenticated
+  WITH CHECK (is_admin());
+
+CREATE POLICY "Admins can update tax classes"
+  ON tax_classes FOR UPDATE
+  TO authenticated
+  USING (is_admin())
+  WITH CHECK (is_admin());
+
+CREATE POLICY "Admins can delete tax classes"
+  ON tax_classes FOR DELETE
+  TO authenticated
+  USING (is_admin());
+
+CREATE TABLE IF NOT EXISTS tax_settings (
+  id boolean PRIMARY KEY DEFAULT true CHECK (id),
+  prices_include_tax boolean NOT NULL DEFAULT true,
+  updated_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE tax_settings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view tax settings"
+  ON tax_settings FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Admins can update tax settings"
+  ON tax_settings FOR UPDATE
+  TO authenticated
+  USING (is_admin())
+  WITH CHECK (is_admin());
+
+INSERT INTO tax_settings (id, prices_include_tax) VALUES (true, true)
+ON CONFLICT DO NOTHING;
+
+INSERT INTO tax_classes (code, name, kind, rate, is_default) VALUES
+  ('VAT', 'VAT 12%', 'standard', 0.12, true),
+  ('VAT_EXEMPT', 'VAT-Exempt', 'exempt', 0, false),
+  ('ZERO_RATED', 'Zero-Rated', 'zero_rated', 0, false)
+ON CONFLICT (code) DO NOTHING;
+
+ALTER TABLE categories ADD COLUMN IF NOT EXISTS tax_class_id uuid REFERENCES tax_classes(id) ON DELETE SET NULL;
+ALTER TABLE products ADD COLUMN IF NOT EXISTS tax_class_id uuid REFERENCES tax_classes(id) ON DELETE SET NULL;
+
+-- Per-line tax breakdown; subtotal keeps its meaning of price * quantity
+ALTER TABLE order_items ADD COLUMN IF NOT EXISTS tax_class_code text;
+ALTER TABLE order_items ADD COLUMN IF NOT EXISTS tax_rate numeric(6, 4) NOT NULL DEFAULT 0;
+ALTER TABLE order_items ADD COLUMN IF NOT EXISTS taxable_amount numeric(10, 2);
+ALTER TABLE order_items ADD COLUMN IF NOT EXISTS tax_amount numeric(10, 2) NOT NULL DEFAULT 0;
+ALTER TABLE order_items ADD COLUMN IF NOT EXISTS line_total numeric(10, 2);
+ALTER TABLE order_items ADD COLUMN IF NOT EXISTS tax_exempt boolean NOT NULL DEFAULT false;
+
+COMMENT ON COLUMN order_items.taxable_amount IS 'Line amount net of tax.';
+COMMENT ON COLUMN order_items.line_total IS 'Amount charged for the line including tax.';
+COMMENT ON COLUMN order_items.tax_exempt IS 'True when a taxed line was exempted (senior citizen / PWD sale).';
+
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS tax_exemption text CHECK (tax_exemption IN ('senior_citizen', 'pwd'));
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS tax_exemption_id text;
+
+ALTER TABLE orders ADD CONSTRAINT orders_tax_exemption_id_required
+  CHECK (tax_exemption IS NULL OR tax_exemption_id IS NOT NULL);
+
+-- Include every order_items column so new snapshot fields come through automatically
+CREATE OR REPLACE FUNCTION get_order_json(p_order_id uuid)
+RETURNS jsonb
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT to_jsonb(o) || jsonb_build_object(
+    'order_items', COALESCE((
+      SELECT jsonb_agg(
+        to_jsonb(oi) || jsonb_build_object('products', jsonb_build_object('id', p.id, 'name', p.name))
+        ORDER BY p.name
+      )
+      FROM order_items oi
+      JOIN products p ON p.id = oi.product_id
+      WHERE oi.order_id = o.id
+    ), '[]'::jsonb)
+  )
+  FROM orders o
+  WHERE o.id = p_order_id;
+$$;
+
+-- checkout_order now takes its optional settings as one jsonb object:
+--   idempotency_key, tax_exemption ('senior_citizen' | 'pwd'), tax_exemption_id
+DROP FUNCTION IF EXISTS checkout_order(jsonb, text, uuid);
+
+CREATE OR REPLACE FUNCTION checkout_order(
+  p_items jsonb,  -- Array of objects with product_id and quantity
+  p_payment_method text,
+  p_options jsonb DEFAULT '{}'::jsonb
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_idempotency_key uuid := NULLIF(p_options->>'idempotency_key', '')::uuid;
+  v_exemption text := NULLIF(p_options->>'tax_exemption', '');
+  v_exemption_id text := NULLIF(btrim(p_options->>'tax_exemption_id'), '');
+  v_prices_include_tax boolean;
+  v_default_tax_class_id uuid;
+  v_items jsonb;
+  v_lines jsonb;
+  v_errors jsonb := '[]'::jsonb;
+  v_line record;
+  v_total numeric(10, 2);
+  v_tax numeric(10, 2);
+  v_order_id uuid;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF v_idempotency_key IS NOT NULL THEN
+    -- Serialize concurrent replays of the same sale
+    PERFORM pg_advisory_xact_lock(hashtext(v_idempotency_key::text));
+
+    SELECT id INTO v_order_id
+    FROM orders
+    WHERE idempotency_key = v_idempotency_key
+    AND user_id = v_user_id;
+
+    IF FOUND THEN
+      RETURN jsonb_build_object(
+        'order', get_order_json(v_order_id),
+        'errors', '[]'::jsonb,
+        'replayed', true
+      );
+    END IF;
+  END IF;
+
+  IF p_items IS NULL OR jsonb_typeof(p_items) <> 'array' OR jsonb_array_length(p_items) = 0 THEN
+    RETURN jsonb_build_object(
+      'order', NULL,
+      'errors', jsonb_build_array(jsonb_build_object('code', 'EMPTY_CART'))
+    );
+  END IF;
+
+  IF p_payment_method IS NULL OR p_payment_method NOT IN ('cash', 'card', 'mobile') THEN
+    RETURN jsonb_build_object(
+      'order', NULL,
+      'errors', jsonb_build_array(jsonb_build_object('code', 'INVALID_PAYMENT_METHOD'))
+    );
+  END IF;
+
+  IF v_exemption IS NOT NULL AND (v_exemption NOT IN ('senior_citizen', 'pwd') OR v_exemption_id IS NULL) THEN
+    RETURN jsonb_build_object(
+      'order', NULL,
+      'errors', jsonb_build_array(jsonb_build_object('code', 'INVALID_TAX_EXEMPTION'))
+    );
+  END IF;
+
+  -- Merge duplicate lines so each product is validated and decremented once
+  SELECT jsonb_agg(jsonb_build_object('product_id', product_id, 'quantity', quantity) ORDER BY product_id)
+  INTO v_items
+  FROM (
+    SELECT (item->>'product_id')::uuid AS product_id,
+           SUM((item->>'quantity')::integer) AS quantity
+    FROM jsonb_array_elements(p_items) AS item
+    GROUP BY 1
+  ) merged;
+
+  -- Lock product rows in a stable order to avoid deadlocks between tills
+  PERFORM 1
+  FROM products
+  WHERE id IN (SELECT product_id FROM jsonb_to_recordset(v_items) AS x(product_id uuid, quantity integer))
+  ORDER BY id
+  FOR UPDATE;
+
+  FOR v_line IN
+    SELECT x.product_id, x.quantity, p.id AS found_id, p.name, p.stock, p.active
+    FROM jsonb_to_recordset(v_items) AS x(product_id uuid, quantity integer)
+    LEFT JOIN products p ON p.id = x.product_id
+  LOOP
+    IF v_line.quantity IS NULL OR v_line.quantity <= 0 THEN
+      v_errors := v_errors || jsonb_build_object(
+        'product_id', v_line.product_id,
+        'product_name', v_line.name,
+        'code', 'INVALID_QUANTITY',
+        'requested_qty', v_line.quantity
+      );
+    ELSIF v_line.found_id IS NULL THEN
+      v_errors := v_errors || jsonb_build_object(
+        'product_id', v_line.product_id,
+        'code', 'PRODUCT_NOT_FOUND',
+        'requested_qty', v_line.quantity
+      );
+    ELSIF NOT v_line.active THEN
+      v_errors := v_errors || jsonb_build_object(
+        'product_id', v_line.product_id,
+        'product_name', v_line.name,
+        'code', 'PRODUCT_INACTIVE',
+        'requested_qty', v_line.quantity
+      );
+    ELSIF COALESCE(v_line.stock, 0) < v_line.quantity THEN
+      v_errors := v_errors || jsonb_build_object(
+        'product_id', v_line.product_id,
+        'product_name', v_line.name,
+        'code', 'INSUFFICIENT_STOCK',
+        'requested_qty', v_line.quantity,
+        'available_stock', COALESCE(v_line.stock, 0)
+      );
+    END IF;
+  END LOOP;
+
+  IF jsonb_array_length(v_errors) > 0 THEN
+    RETURN jsonb_build_object('order', NULL, 'errors', v_errors);
+  END IF;
+
+  SELECT COALESCE((SELECT prices_include_tax FROM tax_settings LIMIT 1), true)
+  INTO v_prices_include_tax;
+
+  SELECT id INTO v_default_tax_class_id FROM tax_classes WHERE is_default;
+
+  -- Price and tax every line (same rules as computeLineTotals in utils/tax.ts)
+  SELECT jsonb_agg(to_jsonb(taxed))
+  INTO v_lines
+  FROM (
+    SELECT
+      priced.*,
+      CASE WHEN priced.tax_exempt THEN 0 ELSE priced.class_rate END AS tax_rate,
+      CASE
+        WHEN priced.tax_exempt AND v_prices_include_tax THEN round(priced.gross / (1 + priced.class_rate), 2)
+        WHEN priced.tax_exempt THEN priced.gross
+        WHEN v_prices_include_tax THEN priced.gross - round(priced.gross - priced.gross / (1 + priced.class_rate), 2)
+        ELSE priced.gross
+      END AS taxable_amount,
+      CASE
+        WHEN priced.tax_exempt THEN 0
+        WHEN v_prices_include_tax THEN round(priced.gross - priced.gross / (1 + priced.class_rate), 2)
+        ELSE round(priced.gross * priced.class_rate, 2)
+      END AS tax_amount
+    FROM (
+      SELECT
+        x.product_id,
+        x.quantity,
+        p.price,
+        round(p.price * x.quantity, 2) AS gross,
+        tc.code AS tax_class_code,
+        COALESCE(tc.rate, 0) AS class_rate,
+        (v_exemption IS NOT NULL AND COALESCE(tc.rate, 0) > 0) AS tax_exempt
+      FROM jsonb_to_recordset(v_items) AS x(product_id uuid, quantity integer)
+      JOIN products p ON p.id = x.product_id
+      LEFT JOIN categories c ON c.id = p.category_id
+      LEFT JOIN tax_classes tc ON tc.id = COALESCE(p.tax_class_id, c.tax_class_id, v_default_tax_class_id)
+    ) priced
+  ) taxed;
+
+  SELECT SUM(l.taxable_amount + l.tax_amount), SUM(l.tax_amount)
+  INTO v_total, v_tax
+  FROM jsonb_to_recordset(v_lines) AS l(taxable_amount numeric, tax_amount numeric);
+
+  INSERT INTO orders (user_id, total, tax, status, payment_method, idempotency_key, tax_exemption, tax_exemption_id)
+  VALUES (
+    v_user_id, v_total, v_tax, 'completed', p_payment_method, v_idempotency_key,
+    v_exemption, CASE WHEN v_exemption IS NULL THEN NULL ELSE v_exemption_id END
+  )
+  RETURNING id INTO v_order_id;
+
+  -- Snapshot prices and tax for historical accuracy
+  INSERT INTO order_items (
+    order_id, product_id, quantity, price, subtotal,
+    tax_class_code, tax_rate, taxable_amount, tax_amount, line_total, tax_exempt
+  )
+  SELECT
+    v_order_id, l.product_id, l.quantity, l.price, l.gross,
+    l.tax_class_code, l.tax_rate, l.taxable_amount, l.tax_amount, l.taxable_amount + l.tax_amount, l.tax_exempt
+  FROM jsonb_to_recordset(v_lines) AS l(
+    product_id uuid, quantity integer, price numeric, gross numeric,
+    tax_class_code text, tax_rate numeric, taxable_amount numeric, tax_amount numeric, tax_exempt boolean
+  );
+
+  PERFORM decrement_multiple_product_stock(v_items);
+
+  RETURN jsonb_build_object(
+    'order', get_order_json(v_order_id),
+    'errors', '[]'::jsonb
+  );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION checkout_order TO authenticated;
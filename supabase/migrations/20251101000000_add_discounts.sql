@@ -0,0 +1,480 @@
+-- Line-item and order-level discounts
+--
+-- 1. New Tables
+--    - discount_settings: single row holding the approval threshold
+--    - discount_approvals: an admin's sign-off for one cashier's discounted sale
+--
+-- 2. Orders
+--    - order_items record the line discount and their share of any order discount
+--    - orders record the order discount, the total discounted and who approved it
+--
+-- 3. Approval flow
+--    - Discounts at or below approval_threshold_percent of the amount they apply
+--      to go through on the cashier's own authority
+--    - Above it, an admin inserts a discount_approvals row (their own session,
+--      enforced by RLS) and the cashier passes its id to checkout_order, which
+--      consumes it. Admins ringing up their own sales need no approval row.
+--
+-- 4. Important Notes
+--    - Discount maths mirrors utils/discounts.ts and computeTotals in utils/tax.ts
+--    - Discounts reduce the price before tax is calculated
+
+CREATE TABLE IF NOT EXISTS discount_settings (
+  id boolean PRIMARY KEY DEFAULT true CHECK (id),
+  approval_threshold_percent numeric(5, 2) NOT NULL DEFAULT 20
+    CHECK (approval_threshold_percent >= 0 AND approval_threshold_percent <= 100),
+  updated_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE discount_settings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view discount settings"
+  ON discount_settings FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Admins can update discount settings"
+  ON discount_settings FOR UPDATE
+  TO authenticated
+  USING (is_admin())
+  WITH CHECK (is_admin());
+
+INSERT INTO discount_settings (id, approval_threshold_percent) VALUES (true, 20)
+ON CONFLICT DO NOTHING;
+
+CREATE TABLE IF NOT EXISTS discount_approvals (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  requested_by uuid NOT NULL REFERENCES profiles(id),
+  approved_by uuid NOT NULL DEFAULT auth.uid() REFERENCES profiles(id),
+  max_discount_amount numeric(10, 2) NOT NULL CHECK (max_discount_amount > 0),
+  order_id uuid REFERENCES orders(id),  -- Set when a checkout uses the approval
+  created_at timestamptz DEFAULT now(),
+  expires_at timestamptz NOT NULL DEFAULT now() + interval '30 minutes'
+);
+
+CREATE INDEX IF NOT EXISTS idx_discount_approvals_requested_by ON discount_approvals(requested_by);
+
+ALTER TABLE discount_approvals ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can approve discounts"
+  ON discount_approvals FOR INSERT
+  TO authenticated
+  WITH CHECK (is_admin() AND approved_by = auth.uid() AND order_id IS NULL);
+
+CREATE POLICY "Users can view own discount approvals"
+  ON discount_approvals FOR SELECT
+  TO authenticated
+  USING (requested_by = auth.uid() OR is_admin());
+
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS discount_type text CHECK (discount_type IN ('percent', 'amount'));
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS discount_value numeric(10, 2);
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS discount_reason text
+  CHECK (discount_reason IN ('price_match', 'damaged', 'loyalty', 'promo', 'employee', 'manager', 'other'));
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS discount_amount numeric(10, 2) NOT NULL DEFAULT 0;
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS discount_total numeric(10, 2) NOT NULL DEFAULT 0;
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS discount_approved_by uuid REFERENCES profiles(id);
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS discount_approval_id uuid REFERENCES discount_approvals(id);
+
+COMMENT ON COLUMN orders.discount_amount IS 'Order-level discount only.';
+COMMENT ON COLUMN orders.discount_total IS 'All discounts on the order: line discounts plus the order-level discount.';
+
+ALTER TABLE order_items ADD COLUMN IF NOT EXISTS discount_type text CHECK (discount_type IN ('percent', 'amount'));
+ALTER TABLE order_items ADD COLUMN IF NOT EXISTS discount_value numeric(10, 2);
+ALTER TABLE order_items ADD COLUMN IF NOT EXISTS discount_reason text
+  CHECK (discount_reason IN ('price_match', 'damaged', 'loyalty', 'promo', 'employee', 'manager', 'other'));
+ALTER TABLE order_items ADD COLUMN IF NOT EXISTS discount_amount numeric(10, 2) NOT NULL DEFAULT 0;
+ALTER TABLE order_items ADD COLUMN IF NOT EXISTS order_discount_share numeric(10, 2) NOT NULL DEFAULT 0;
+
+COMMENT ON COLUMN order_items.discount_amount IS 'Discount applied to this line only.';
+COMMENT ON COLUMN order_items.order_discount_share IS 'Portion of the order-level discount allocated to this line.';
+
+-- Discount and tax figures are part of the sale record, so protect them like total/tax
+CREATE OR REPLACE FUNCTION prevent_sensitive_order_updates()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  -- Check if sensitive fields are being updated by non-superuser
+  IF (
+    TG_OP = 'UPDATE' AND
+    (
+      OLD.user_id IS DISTINCT FROM NEW.user_id OR
+      OLD.total IS DISTINCT FROM NEW.total OR
+      OLD.tax IS DISTINCT FROM NEW.tax OR
+      OLD.payment_method IS DISTINCT FROM NEW.payment_method OR
+      OLD.tax_exemption IS DISTINCT FROM NEW.tax_exemption OR
+      OLD.tax_exemption_id IS DISTINCT FROM NEW.tax_exemption_id OR
+      OLD.discount_amount IS DISTINCT FROM NEW.discount_amount OR
+      OLD.discount_total IS DISTINCT FROM NEW.discount_total OR
+      OLD.discount_approved_by IS DISTINCT FROM NEW.discount_approved_by
+    ) AND
+    NOT pg_has_role(session_user, 'postgres', 'MEMBER')
+  ) THEN
+    RAISE EXCEPTION 'Cannot update sensitive order fields (user_id, total, tax, payment_method, tax exemption, discounts) without proper privileges';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- NULL (or JSON null) means no discount
+CREATE OR REPLACE FUNCTION is_valid_discount(p_discount jsonb)
+RETURNS boolean
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE
+    WHEN p_discount IS NULL OR jsonb_typeof(p_discount) = 'null' THEN true
+    WHEN jsonb_typeof(p_discount) <> 'object' OR jsonb_typeof(p_discount->'value') <> 'number' THEN false
+    ELSE p_discount->>'type' IN ('percent', 'amount')
+      AND (p_discount->>'value')::numeric > 0
+      AND (p_discount->>'type' = 'amount' OR (p_discount->>'value')::numeric <= 100)
+      AND COALESCE(p_discount->>'reason' IN ('price_match', 'damaged', 'loyalty', 'promo', 'employee', 'manager', 'other'), false)
+  END;
+$$;
+
+-- Discount in pesos, capped at the amount it applies to (see computeDiscountAmount)
+CREATE OR REPLACE FUNCTION compute_discount_amount(p_discount jsonb, p_base numeric)
+RETURNS numeric
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE
+    WHEN p_base <= 0 OR NOT is_valid_discount(p_discount) OR jsonb_typeof(p_discount) IS DISTINCT FROM 'object' THEN 0
+    WHEN p_discount->>'type' = 'percent' THEN LEAST(round(p_base * (p_discount->>'value')::numeric / 100, 2), p_base)
+    ELSE LEAST(round((p_discount->>'value')::numeric, 2), p_base)
+  END;
+$$;
+
+-- checkout_order options now also accept:
+--   order_discount       {type, value, reason}
+--   discount_approval_id id of a discount_approvals row for this cashier
+-- and each item may carry its own discount {type, value, reason}
+CREATE OR REPLACE FUNCTION checkout_order(
+  p_items jsonb,  -- Array of objects with product_id, quantity and optional discount
+  p_payment_method text,
+  p_options jsonb DEFAULT '{}'::jsonb
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_idempotency_key uuid := NULLIF(p_options->>'idempotency_key', '')::uuid;
+  v_exemption text := NULLIF(p_options->>'tax_exemption', '');
+  v_exemption_id text := NULLIF(btrim(p_options->>'tax_exemption_id'), '');
+  v_order_discount jsonb := NULLIF(p_options->'order_discount', 'null'::jsonb);
+  v_approval_id uuid := NULLIF(p_options->>'discount_approval_id', '')::uuid;
+  v_prices_include_tax boolean;
+  v_default_tax_class_id uuid;
+  v_threshold numeric;
+  v_items jsonb;
+  v_lines jsonb;
+  v_errors jsonb := '[]'::jsonb;
+  v_line record;
+  v_discount_base numeric(10, 2);
+  v_line_discount_total numeric(10, 2);
+  v_order_discount_amount numeric(10, 2);
+  v_discount_total numeric(10, 2);
+  v_needs_approval boolean;
+  v_approved_by uuid;
+  v_used_approval_id uuid;
+  v_total numeric(10, 2);
+  v_tax numeric(10, 2);
+  v_order_id uuid;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF v_idempotency_key IS NOT NULL THEN
+    -- Serialize concurrent replays of the same sale
+    PERFORM pg_advisory_xact_lock(hashtext(v_idempotency_key::text));
+
+    SELECT id INTO v_order_id
+    FROM orders
+    WHERE idempotency_key = v_idempotency_key
+    AND user_id = v_user_id;
+
+    IF FOUND THEN
+      RETURN jsonb_build_object(
+        'order', get_order_json(v_order_id),
+        'errors', '[]'::jsonb,
+        'replayed', true
+      );
+    END IF;
+  END IF;
+
+  IF p_items IS NULL OR jsonb_typeof(p_items) <> 'array' OR jsonb_array_length(p_items) = 0 THEN
+    RETURN jsonb_build_object(
+      'order', NULL,
+      'errors', jsonb_build_array(jsonb_build_object('code', 'EMPTY_CART'))
+    );
+  END IF;
+
+  IF p_payment_method IS NULL OR p_payment_method NOT IN ('cash', 'card', 'mobile') THEN
+    RETURN jsonb_build_object(
+      'order', NULL,
+      'errors', jsonb_build_array(jsonb_build_object('code', 'INVALID_PAYMENT_METHOD'))
+    );
+  END IF;
+
+  IF v_exemption IS NOT NULL AND (v_exemption NOT IN ('senior_citizen', 'pwd') OR v_exemption_id IS NULL) THEN
+    RETURN jsonb_build_object(
+      'order', NULL,
+      'errors', jsonb_build_array(jsonb_build_object('code', 'INVALID_TAX_EXEMPTION'))
+    );
+  END IF;
+
+  IF NOT is_valid_discount(v_order_discount) THEN
+    RETURN jsonb_build_object(
+      'order', NULL,
+      'errors', jsonb_build_array(jsonb_build_object('code', 'INVALID_DISCOUNT'))
+    );
+  END IF;
+
+  -- Merge duplicate lines so each product is validated and decremented once;
+  -- the first discount given for a product wins
+  SELECT jsonb_agg(
+    jsonb_build_object('product_id', product_id, 'quantity', quantity, 'discount', discount)
+    ORDER BY product_id
+  )
+  INTO v_items
+  FROM (
+    SELECT (item->>'product_id')::uuid AS product_id,
+           SUM((item->>'quantity')::integer) AS quantity,
+           (array_agg(item->'discount') FILTER (
+             WHERE jsonb_typeof(item->'discount') IS DISTINCT FROM 'null'
+             AND item->'discount' IS NOT NULL
+           ))[1] AS discount
+    FROM jsonb_array_elements(p_items) AS item
+    GROUP BY 1
+  ) merged;
+
+  -- Lock product rows in a stable order to avoid deadlocks between tills
+  PERFORM 1
+  FROM products
+  WHERE id IN (SELECT product_id FROM jsonb_to_recordset(v_items) AS x(product_id uuid, quantity integer))
+  ORDER BY id
+  FOR UPDATE;
+
+  FOR v_line IN
+    SELECT x.product_id, x.quantity, x.discount, p.id AS found_id, p.name, p.stock, p.active
+    FROM jsonb_to_recordset(v_items) AS x(product_id uuid, quantity integer, discount jsonb)
+    LEFT JOIN products p ON p.id = x.product_id
+  LOOP
+    IF v_line.quantity IS NULL OR v_line.quantity <= 0 THEN
+      v_errors := v_errors || jsonb_build_object(
+        'product_id', v_line.product_id,
+        'product_name', v_line.name,
+        'code', 'INVALID_QUANTITY',
+        'requested_qty', v_line.quantity
+      );
+    ELSIF v_line.found_id IS NULL THEN
+      v_errors := v_errors || jsonb_build_object(
+        'product_id', v_line.product_id,
+        'code', 'PRODUCT_NOT_FOUND',
+        'requested_qty', v_line.quantity
+      );
+    ELSIF NOT v_line.active THEN
+      v_errors := v_errors || jsonb_build_object(
+        'product_id', v_line.product_id,
+        'product_name', v_line.name,
+        'code', 'PRODUCT_INACTIVE',
+        'requested_qty', v_line.quantity
+      );
+    ELSIF COALESCE(v_line.stock, 0) < v_line.quantity THEN
+      v_errors := v_errors || jsonb_build_object(
+        'product_id', v_line.product_id,
+        'product_name', v_line.name,
+        'code', 'INSUFFICIENT_STOCK',
+        'requested_qty', v_line.quantity,
+        'available_stock', COALESCE(v_line.stock, 0)
+      );
+    ELSIF NOT is_valid_discount(v_line.discount) THEN
+      v_errors := v_errors || jsonb_build_object(
+        'product_id', v_line.product_id,
+        'product_name', v_line.name,
+        'code', 'INVALID_DISCOUNT',
+        'requested_qty', v_line.quantity
+      );
+    END IF;
+  END LOOP;
+
+  IF jsonb_array_length(v_errors) > 0 THEN
+    RETURN jsonb_build_object('order', NULL, 'errors', v_errors);
+  END IF;
+
+  SELECT COALESCE((SELECT prices_include_tax FROM tax_settings LIMIT 1), true)
+  INTO v_prices_include_tax;
+
+  SELECT id INTO v_default_tax_class_id FROM tax_classes WHERE is_default;
+
+  -- Price each line and apply its own discount
+  SELECT jsonb_agg(to_jsonb(priced) ORDER BY priced.product_id)
+  INTO v_lines
+  FROM (
+    SELECT
+      base.*,
+      compute_discount_amount(base.discount, base.gross) AS line_discount
+    FROM (
+      SELECT
+        x.product_id,
+        x.quantity,
+        NULLIF(x.discount, 'null'::jsonb) AS discount,
+        p.price,
+        round(p.price * x.quantity, 2) AS gross,
+        tc.code AS tax_class_code,
+        COALESCE(tc.rate, 0) AS class_rate,
+        (v_exemption IS NOT NULL AND COALESCE(tc.rate, 0) > 0) AS tax_exempt
+      FROM jsonb_to_recordset(v_items) AS x(product_id uuid, quantity integer, discount jsonb)
+      JOIN products p ON p.id = x.product_id
+      LEFT JOIN categories c ON c.id = p.category_id
+      LEFT JOIN tax_classes tc ON tc.id = COALESCE(p.tax_class_id, c.tax_class_id, v_default_tax_class_id)
+    ) base
+  ) priced;
+
+  SELECT SUM(l.gross - l.line_discount), SUM(l.line_discount)
+  INTO v_discount_base, v_line_discount_total
+  FROM jsonb_to_recordset(v_lines) AS l(gross numeric, line_discount numeric);
+
+  v_order_discount_amount := compute_discount_amount(v_order_discount, v_discount_base);
+  v_discount_total := v_line_discount_total + v_order_discount_amount;
+
+  SELECT COALESCE((SELECT approval_threshold_percent FROM discount_settings LIMIT 1), 20)
+  INTO v_threshold;
+
+  -- Same rule as requiresDiscountApproval in utils/discounts.ts
+  SELECT EXISTS (
+    SELECT 1
+    FROM jsonb_to_recordset(v_lines) AS l(gross numeric, line_discount numeric)
+    WHERE l.line_discount > 0 AND l.line_discount > round(l.gross * v_threshold / 100, 2)
+  ) OR (
+    v_order_discount_amount > 0 AND v_order_discount_amount > round(v_discount_base * v_threshold / 100, 2)
+  )
+  INTO v_needs_approval;
+
+  IF v_discount_total > 0 AND is_admin() THEN
+    v_approved_by := v_user_id;
+  ELSIF v_needs_approval THEN
+    SELECT id, approved_by INTO v_used_approval_id, v_approved_by
+    FROM discount_approvals
+    WHERE id = v_approval_id
+    AND requested_by = v_user_id
+    AND order_id IS NULL
+    AND expires_at > now()
+    AND max_discount_amount >= v_discount_total
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+      RETURN jsonb_build_object(
+        'order', NULL,
+        'errors', jsonb_build_array(jsonb_build_object('code', 'DISCOUNT_APPROVAL_REQUIRED'))
+      );
+    END IF;
+  END IF;
+
+  -- Spread the order discount over the lines (the last line takes the rounding
+  -- remainder, as in allocateOrderDiscount), then tax what is left
+  SELECT jsonb_agg(to_jsonb(taxed))
+  INTO v_lines
+  FROM (
+    SELECT
+      shared.*,
+      CASE WHEN shared.tax_exempt THEN 0 ELSE shared.class_rate END AS tax_rate,
+      CASE
+        WHEN shared.tax_exempt AND v_prices_include_tax THEN round(shared.net / (1 + shared.class_rate), 2)
+        WHEN shared.tax_exempt THEN shared.net
+        WHEN v_prices_include_tax THEN shared.net - round(shared.net - shared.net / (1 + shared.class_rate), 2)
+        ELSE shared.net
+      END AS taxable_amount,
+      CASE
+        WHEN shared.tax_exempt THEN 0
+        WHEN v_prices_include_tax THEN round(shared.net - shared.net / (1 + shared.class_rate), 2)
+        ELSE round(shared.net * shared.class_rate, 2)
+      END AS tax_amount
+    FROM (
+      SELECT
+        allocated.*,
+        allocated.gross - allocated.line_discount - allocated.order_discount_share AS net
+      FROM (
+        SELECT
+          l.*,
+          CASE
+            WHEN v_order_discount_amount = 0 OR v_discount_base <= 0 THEN 0
+            WHEN l.position = l.line_count THEN v_order_discount_amount - COALESCE(SUM(
+              round(v_order_discount_amount * (l.gross - l.line_discount) / v_discount_base, 2)
+            ) OVER (ORDER BY l.product_id ROWS BETWEEN UNBOUNDED PRECEDING AND 1 PRECEDING), 0)
+            ELSE round(v_order_discount_amount * (l.gross - l.line_discount) / v_discount_base, 2)
+          END AS order_discount_share
+        FROM (
+          SELECT
+            r.*,
+            row_number() OVER (ORDER BY r.product_id) AS position,
+            count(*) OVER () AS line_count
+          FROM jsonb_to_recordset(v_lines) AS r(
+            product_id uuid, quantity integer, discount jsonb, price numeric, gross numeric,
+            tax_class_code text, class_rate numeric, tax_exempt boolean, line_discount numeric
+          )
+        ) l
+      ) allocated
+    ) shared
+  ) taxed;
+
+  SELECT SUM(l.taxable_amount + l.tax_amount), SUM(l.tax_amount)
+  INTO v_total, v_tax
+  FROM jsonb_to_recordset(v_lines) AS l(taxable_amount numeric, tax_amount numeric);
+
+  INSERT INTO orders (
+    user_id, total, tax, status, payment_method, idempotency_key, tax_exemption, tax_exemption_id,
+    discount_type, discount_value, discount_reason, discount_amount, discount_total,
+    discount_approved_by, discount_approval_id
+  )
+  VALUES (
+    v_user_id, v_total, v_tax, 'completed', p_payment_method, v_idempotency_key,
+    v_exemption, CASE WHEN v_exemption IS NULL THEN NULL ELSE v_exemption_id END,
+    CASE WHEN v_order_discount_amount > 0 THEN v_order_discount->>'type' END,
+    CASE WHEN v_order_discount_amount > 0 THEN (v_order_discount->>'value')::numeric END,
+    CASE WHEN v_order_discount_amount > 0 THEN v_order_discount->>'reason' END,
+    v_order_discount_amount, v_discount_total,
+    v_approved_by, v_used_approval_id
+  )
+  RETURNING id INTO v_order_id;
+
+  IF v_used_approval_id IS NOT NULL THEN
+    UPDATE discount_approvals SET order_id = v_order_id WHERE id = v_used_approval_id;
+  END IF;
+
+  -- Snapshot prices, discounts and tax for historical accuracy
+  INSERT INTO order_items (
+    order_id, product_id, quantity, price, subtotal,
+    discount_type, discount_value, discount_reason, discount_amount, order_discount_share,
+    tax_class_code, tax_rate, taxable_amount, tax_amount, line_total, tax_exempt
+  )
+  SELECT
+    v_order_id, l.product_id, l.quantity, l.price, l.gross,
+    CASE WHEN l.line_discount > 0 THEN l.discount->>'type' END,
+    CASE WHEN l.line_discount > 0 THEN (l.discount->>'value')::numeric END,
+    CASE WHEN l.line_discount > 0 THEN l.discount->>'reason' END,
+    l.line_discount, l.order_discount_share,
+    l.tax_class_code, l.tax_rate, l.taxable_amount, l.tax_amount, l.taxable_amount + l.tax_amount, l.tax_exempt
+  FROM jsonb_to_recordset(v_lines) AS l(
+    product_id uuid, quantity integer, discount jsonb, price numeric, gross numeric,
+    line_discount numeric, order_discount_share numeric,
+    tax_class_code text, tax_rate numeric, taxable_amount numeric, tax_amount numeric, tax_exempt boolean
+  );
+
+  PERFORM decrement_multiple_product_stock(v_items);
+
+  RETURN jsonb_build_object(
+    'order', get_order_json(v_order_id),
+    'errors', '[]'::jsonb
+  );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION checkout_order TO authenticated;
+GRANT EXECUTE ON FUNCTION is_valid_discount TO authenticated;
+GRANT EXECUTE ON FUNCTION compute_discount_amount TO authenticated;
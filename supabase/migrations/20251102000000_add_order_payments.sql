@@ -0,0 +1,517 @@
+-- Split tender and cash change
+--
+-- 1. New Tables
+--    - order_payments: one row per tender (cash, card, GCash/mobile) on an order
+--
+-- 2. Orders
+--    - payment_method gains 'split' for orders paid with more than one method
+--
+-- 3. checkout_order
+--    - p_options.payments: [{method, amount, reference}] where a cash amount is
+--      what the customer handed over
+--    - Card and mobile tenders can't exceed the total; cash covers the rest and
+--      any excess comes back as change, taken from the latest cash tender first
+--    - Calls without payments are treated as one tender of p_payment_method for
+--      the exact total, so sales queued by older app versions still replay
+--
+-- 4. Important Notes
+--    - Tender rules mirror utils/payments.ts
+
+CREATE TABLE IF NOT EXISTS order_payments (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  order_id uuid NOT NULL REFERENCES orders(id) ON DELETE CASCADE,
+  position integer NOT NULL,
+  method text NOT NULL CHECK (method IN ('cash', 'card', 'mobile')),
+  amount numeric(10, 2) NOT NULL CHECK (amount >= 0),
+  amount_tendered numeric(10, 2) NOT NULL CHECK (amount_tendered > 0),
+  change_due numeric(10, 2) NOT NULL DEFAULT 0 CHECK (change_due >= 0),
+  reference text,
+  created_at timestamptz DEFAULT now(),
+  UNIQUE (order_id, position),
+  CONSTRAINT order_payments_change_matches CHECK (amount_tendered = amount + change_due),
+  CONSTRAINT order_payments_change_cash_only CHECK (method = 'cash' OR change_due = 0)
+);
+
+COMMENT ON COLUMN order_payments.amount IS 'Portion of the tender applied to the order total.';
+COMMENT ON COLUMN order_payments.amount_tendered IS 'What the customer handed over (cash) or was charged (card/mobile).';
+
+ALTER TABLE order_payments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own order payments"
+  ON order_payments FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM orders
+      WHERE orders.id = order_payments.order_id
+      AND orders.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Admins can view all order payments"
+  ON order_payments FOR SELECT
+  TO authenticated
+  USING (is_admin());
+
+-- Rows are only written by checkout_order
+
+-- Existing orders get a single tender for their full total
+INSERT INTO order_payments (order_id, position, method, amount, amount_tendered, change_due)
+SELECT id, 1, payment_method, total, total, 0
+FROM orders
+WHERE total > 0
+AND NOT EXISTS (SELECT 1 FROM order_payments op WHERE op.order_id = orders.id);
+
+ALTER TABLE orders DROP CONSTRAINT IF EXISTS orders_payment_method_check;
+ALTER TABLE orders ADD CONSTRAINT orders_payment_method_check
+  CHECK (payment_method IN ('cash', 'card', 'mobile', 'split'));
+
+-- Shape check: a non-empty array of {method, amount > 0}
+CREATE OR REPLACE FUNCTION are_valid_tenders(p_payments jsonb)
+RETURNS boolean
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE
+    WHEN jsonb_typeof(p_payments) <> 'array' OR jsonb_array_length(p_payments) = 0 THEN false
+    ELSE NOT EXISTS (
+      SELECT 1
+      FROM jsonb_array_elements(p_payments) AS t
+      WHERE jsonb_typeof(t) <> 'object'
+      OR COALESCE(t->>'method' NOT IN ('cash', 'card', 'mobile'), true)
+      OR jsonb_typeof(t->'amount') IS DISTINCT FROM 'number'
+      OR CASE WHEN jsonb_typeof(t->'amount') = 'number' THEN (t->>'amount')::numeric <= 0 ELSE true END
+    )
+  END;
+$$;
+
+-- Returns an error object when the tenders don't settle the total, else NULL
+CREATE OR REPLACE FUNCTION check_tenders_cover_total(p_payments jsonb, p_total numeric)
+RETURNS jsonb
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE
+    WHEN sums.non_cash > p_total THEN jsonb_build_object('code', 'PAYMENT_EXCEEDS_TOTAL', 'amount_due', p_total)
+    WHEN sums.tendered < p_total THEN jsonb_build_object('code', 'INSUFFICIENT_PAYMENT', 'amount_due', p_total)
+    ELSE NULL
+  END
+  FROM (
+    SELECT
+      COALESCE(SUM((t->>'amount')::numeric), 0) AS tendered,
+      COALESCE(SUM((t->>'amount')::numeric) FILTER (WHERE t->>'method' <> 'cash'), 0) AS non_cash
+    FROM jsonb_array_elements(p_payments) AS t
+  ) sums;
+$$;
+
+-- Writes one order_payments row per tender; change comes out of the latest cash tenders first
+CREATE OR REPLACE FUNCTION record_order_payments(p_order_id uuid, p_payments jsonb, p_total numeric)
+RETURNS void
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_tender jsonb;
+  v_amount numeric(10, 2);
+  v_change_left numeric(10, 2);
+  v_change numeric(10, 2);
+  i integer;
+BEGIN
+  SELECT GREATEST(COALESCE(SUM(round((t->>'amount')::numeric, 2)), 0) - p_total, 0)
+  INTO v_change_left
+  FROM jsonb_array_elements(p_payments) AS t;
+
+  FOR i IN REVERSE jsonb_array_length(p_payments) - 1 .. 0 LOOP
+    v_tender := p_payments->i;
+    v_amount := round((v_tender->>'amount')::numeric, 2);
+    v_change := CASE WHEN v_tender->>'method' = 'cash' THEN LEAST(v_amount, v_change_left) ELSE 0 END;
+    v_change_left := v_change_left - v_change;
+
+    INSERT INTO order_payments (order_id, position, method, amount, amount_tendered, change_due, reference)
+    VALUES (
+      p_order_id, i + 1, v_tender->>'method', v_amount - v_change, v_amount, v_change,
+      NULLIF(btrim(v_tender->>'reference'), '')
+    );
+  END LOOP;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION get_order_json(p_order_id uuid)
+RETURNS jsonb
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT to_jsonb(o) || jsonb_build_object(
+    'order_items', COALESCE((
+      SELECT jsonb_agg(
+        to_jsonb(oi) || jsonb_build_object('products', jsonb_build_object('id', p.id, 'name', p.name))
+        ORDER BY p.name
+      )
+      FROM order_items oi
+      JOIN products p ON p.id = oi.product_id
+      WHERE oi.order_id = o.id
+    ), '[]'::jsonb),
+    'order_payments', COALESCE((
+      SELECT jsonb_agg(to_jsonb(op) ORDER BY op.position)
+      FROM order_payments op
+      WHERE op.order_id = o.id
+    ), '[]'::jsonb)
+  )
+  FROM orders o
+  WHERE o.id = p_order_id;
+$$;
+
+CREATE OR REPLACE FUNCTION checkout_order(
+  p_items jsonb,  -- Array of objects with product_id, quantity and optional discount
+  p_payment_method text,  -- Used when p_options has no payments
+  p_options jsonb DEFAULT '{}'::jsonb
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_idempotency_key uuid := NULLIF(p_options->>'idempotency_key', '')::uuid;
+  v_exemption text := NULLIF(p_options->>'tax_exemption', '');
+  v_exemption_id text := NULLIF(btrim(p_options->>'tax_exemption_id'), '');
+  v_order_discount jsonb := NULLIF(p_options->'order_discount', 'null'::jsonb);
+  v_approval_id uuid := NULLIF(p_options->>'discount_approval_id', '')::uuid;
+  v_payments jsonb := NULLIF(p_options->'payments', 'null'::jsonb);
+  v_payment_error jsonb;
+  v_payment_method text;
+  v_prices_include_tax boolean;
+  v_default_tax_class_id uuid;
+  v_threshold numeric;
+  v_items jsonb;
+  v_lines jsonb;
+  v_errors jsonb := '[]'::jsonb;
+  v_line record;
+  v_discount_base numeric(10, 2);
+  v_line_discount_total numeric(10, 2);
+  v_order_discount_amount numeric(10, 2);
+  v_discount_total numeric(10, 2);
+  v_needs_approval boolean;
+  v_approved_by uuid;
+  v_used_approval_id uuid;
+  v_total numeric(10, 2);
+  v_tax numeric(10, 2);
+  v_order_id uuid;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF v_idempotency_key IS NOT NULL THEN
+    -- Serialize concurrent replays of the same sale
+    PERFORM pg_advisory_xact_lock(hashtext(v_idempotency_key::text));
+
+    SELECT id INTO v_order_id
+    FROM orders
+    WHERE idempotency_key = v_idempotency_key
+    AND user_id = v_user_id;
+
+    IF FOUND THEN
+      RETURN jsonb_build_object(
+        'order', get_order_json(v_order_id),
+        'errors', '[]'::jsonb,
+        'replayed', true
+      );
+    END IF;
+  END IF;
+
+  IF p_items IS NULL OR jsonb_typeof(p_items) <> 'array' OR jsonb_array_length(p_items) = 0 THEN
+    RETURN jsonb_build_object(
+      'order', NULL,
+      'errors', jsonb_build_array(jsonb_build_object('code', 'EMPTY_CART'))
+    );
+  END IF;
+
+  -- Without explicit tenders the whole total is paid with p_payment_method
+  IF v_payments IS NULL AND (p_payment_method IS NULL OR p_payment_method NOT IN ('cash', 'card', 'mobile')) THEN
+    RETURN jsonb_build_object(
+      'order', NULL,
+      'errors', jsonb_build_array(jsonb_build_object('code', 'INVALID_PAYMENT_METHOD'))
+    );
+  END IF;
+
+  IF v_payments IS NOT NULL AND NOT are_valid_tenders(v_payments) THEN
+    RETURN jsonb_build_object(
+      'order', NULL,
+      'errors', jsonb_build_array(jsonb_build_object('code', 'INVALID_PAYMENT'))
+    );
+  END IF;
+
+  IF v_exemption IS NOT NULL AND (v_exemption NOT IN ('senior_citizen', 'pwd') OR v_exemption_id IS NULL) THEN
+    RETURN jsonb_build_object(
+      'order', NULL,
+      'errors', jsonb_build_array(jsonb_build_object('code', 'INVALID_TAX_EXEMPTION'))
+    );
+  END IF;
+
+  IF NOT is_valid_discount(v_order_discount) THEN
+    RETURN jsonb_build_object(
+      'order', NULL,
+      'errors', jsonb_build_array(jsonb_build_object('code', 'INVALID_DISCOUNT'))
+    );
+  END IF;
+
+  -- Merge duplicate lines so each product is validated and decremented once;
+  -- the first discount given for a product wins
+  SELECT jsonb_agg(
+    jsonb_build_object('product_id', product_id, 'quantity', quantity, 'discount', discount)
+    ORDER BY product_id
+  )
+  INTO v_items
+  FROM (
+    SELECT (item->>'product_id')::uuid AS product_id,
+           SUM((item->>'quantity')::integer) AS quantity,
+           (array_agg(item->'discount') FILTER (
+             WHERE jsonb_typeof(item->'discount') IS DISTINCT FROM 'null'
+             AND item->'discount' IS NOT NULL
+           ))[1] AS discount
+    FROM jsonb_array_elements(p_items) AS item
+    GROUP BY 1
+  ) merged;
+
+  -- Lock product rows in a stable order to avoid deadlocks between tills
+  PERFORM 1
+  FROM products
+  WHERE id IN (SELECT product_id FROM jsonb_to_recordset(v_items) AS x(product_id uuid, quantity integer))
+  ORDER BY id
+  FOR UPDATE;
+
+  FOR v_line IN
+    SELECT x.product_id, x.quantity, x.discount, p.id AS found_id, p.name, p.stock, p.active
+    FROM jsonb_to_recordset(v_items) AS x(product_id uuid, quantity integer, discount jsonb)
+    LEFT JOIN products p ON p.id = x.product_id
+  LOOP
+    IF v_line.quantity IS NULL OR v_line.quantity <= 0 THEN
+      v_errors := v_errors || jsonb_build_object(
+        'product_id', v_line.product_id,
+        'product_name', v_line.name,
+        'code', 'INVALID_QUANTITY',
+        'requested_qty', v_line.quantity
+      );
+    ELSIF v_line.found_id IS NULL THEN
+      v_errors := v_errors || jsonb_build_object(
+        'product_id', v_line.product_id,
+        'code', 'PRODUCT_NOT_FOUND',
+        'requested_qty', v_line.quantity
+      );
+    ELSIF NOT v_line.active THEN
+      v_errors := v_errors || jsonb_build_object(
+        'product_id', v_line.product_id,
+        'product_name', v_line.name,
+        'code', 'PRODUCT_INACTIVE',
+        'requested_qty', v_line.quantity
+      );
+    ELSIF COALESCE(v_line.stock, 0) < v_line.quantity THEN
+      v_errors := v_errors || jsonb_build_object(
+        'product_id', v_line.product_id,
+        'product_name', v_line.name,
+        'code', 'INSUFFICIENT_STOCK',
+        'requested_qty', v_line.quantity,
+        'available_stock', COALESCE(v_line.stock, 0)
+      );
+    ELSIF NOT is_valid_discount(v_line.discount) THEN
+      v_errors := v_errors || jsonb_build_object(
+        'product_id', v_line.product_id,
+        'product_name', v_line.name,
+        'code', 'INVALID_DISCOUNT',
+        'requested_qty', v_line.quantity
+      );
+    END IF;
+  END LOOP;
+
+  IF jsonb_array_length(v_errors) > 0 THEN
+    RETURN jsonb_build_object('order', NULL, 'errors', v_errors);
+  END IF;
+
+  SELECT COALESCE((SELECT prices_include_tax FROM tax_settings LIMIT 1), true)
+  INTO v_prices_include_tax;
+
+  SELECT id INTO v_default_tax_class_id FROM tax_classes WHERE is_default;
+
+  -- Price each line and apply its own discount
+  SELECT jsonb_agg(to_jsonb(priced) ORDER BY priced.product_id)
+  INTO v_lines
+  FROM (
+    SELECT
+      base.*,
+      compute_discount_amount(base.discount, base.gross) AS line_discount
+    FROM (
+      SELECT
+        x.product_id,
+        x.quantity,
+        NULLIF(x.discount, 'null'::jsonb) AS discount,
+        p.price,
+        round(p.price * x.quantity, 2) AS gross,
+        tc.code AS tax_class_code,
+        COALESCE(tc.rate, 0) AS class_rate,
+        (v_exemption IS NOT NULL AND COALESCE(tc.rate, 0) > 0) AS tax_exempt
+      FROM jsonb_to_recordset(v_items) AS x(product_id uuid, quantity integer, discount jsonb)
+      JOIN products p ON p.id = x.product_id
+      LEFT JOIN categories c ON c.id = p.category_id
+      LEFT JOIN tax_classes tc ON tc.id = COALESCE(p.tax_class_id, c.tax_class_id, v_default_tax_class_id)
+    ) base
+  ) priced;
+
+  SELECT SUM(l.gross - l.line_discount), SUM(l.line_discount)
+  INTO v_discount_base, v_line_discount_total
+  FROM jsonb_to_recordset(v_lines) AS l(gross numeric, line_discount numeric);
+
+  v_order_discount_amount := compute_discount_amount(v_order_discount, v_discount_base);
+  v_discount_total := v_line_discount_total + v_order_discount_amount;
+
+  SELECT COALESCE((SELECT approval_threshold_percent FROM discount_settings LIMIT 1), 20)
+  INTO v_threshold;
+
+  -- Same rule as requiresDiscountApproval in utils/discounts.ts
+  SELECT EXISTS (
+    SELECT 1
+    FROM jsonb_to_recordset(v_lines) AS l(gross numeric, line_discount numeric)
+    WHERE l.line_discount > 0 AND l.line_discount > round(l.gross * v_threshold / 100, 2)
+  ) OR (
+    v_order_discount_amount > 0 AND v_order_discount_amount > round(v_discount_base * v_threshold / 100, 2)
+  )
+  INTO v_needs_approval;
+
+  IF v_discount_total > 0 AND is_admin() THEN
+    v_approved_by := v_user_id;
+  ELSIF v_needs_approval THEN
+    SELECT id, approved_by INTO v_used_approval_id, v_approved_by
+    FROM discount_approvals
+    WHERE id = v_approval_id
+    AND requested_by = v_user_id
+    AND order_id IS NULL
+    AND expires_at > now()
+    AND max_discount_amount >= v_discount_total
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+      RETURN jsonb_build_object(
+        'order', NULL,
+        'errors', jsonb_build_array(jsonb_build_object('code', 'DISCOUNT_APPROVAL_REQUIRED'))
+      );
+    END IF;
+  END IF;
+
+  -- Spread the order discount over the lines (the last line takes the rounding
+  -- remainder, as in allocateOrderDiscount), then tax what is left
+  SELECT jsonb_agg(to_jsonb(taxed))
+  INTO v_lines
+  FROM (
+    SELECT
+      shared.*,
+      CASE WHEN shared.tax_exempt THEN 0 ELSE shared.class_rate END AS tax_rate,
+      CASE
+        WHEN shared.tax_exempt AND v_prices_include_tax THEN round(shared.net / (1 + shared.class_rate), 2)
+        WHEN shared.tax_exempt THEN shared.net
+        WHEN v_prices_include_tax THEN shared.net - round(shared.net - shared.net / (1 + shared.class_rate), 2)
+        ELSE shared.net
+      END AS taxable_amount,
+      CASE
+        WHEN shared.tax_exempt THEN 0
+        WHEN v_prices_include_tax THEN round(shared.net - shared.net / (1 + shared.class_rate), 2)
+        ELSE round(shared.net * shared.class_rate, 2)
+      END AS tax_amount
+    FROM (
+      SELECT
+        allocated.*,
+        allocated.gross - allocated.line_discount - allocated.order_discount_share AS net
+      FROM (
+        SELECT
+          l.*,
+          CASE
+            WHEN v_order_discount_amount = 0 OR v_discount_base <= 0 THEN 0
+            WHEN l.position = l.line_count THEN v_order_discount_amount - COALESCE(SUM(
+              round(v_order_discount_amount * (l.gross - l.line_discount) / v_discount_base, 2)
+            ) OVER (ORDER BY l.product_id ROWS BETWEEN UNBOUNDED PRECEDING AND 1 PRECEDING), 0)
+            ELSE round(v_order_discount_amount * (l.gross - l.line_discount) / v_discount_base, 2)
+          END AS order_discount_share
+        FROM (
+          SELECT
+            r.*,
+            row_number() OVER (ORDER BY r.product_id) AS position,
+            count(*) OVER () AS line_count
+          FROM jsonb_to_recordset(v_lines) AS r(
+            product_id uuid, quantity integer, discount jsonb, price numeric, gross numeric,
+            tax_class_code text, class_rate numeric, tax_exempt boolean, line_discount numeric
+          )
+        ) l
+      ) allocated
+    ) shared
+  ) taxed;
+
+  SELECT SUM(l.taxable_amount + l.tax_amount), SUM(l.tax_amount)
+  INTO v_total, v_tax
+  FROM jsonb_to_recordset(v_lines) AS l(taxable_amount numeric, tax_amount numeric);
+
+  -- A fully discounted sale has nothing to pay
+  IF v_payments IS NULL THEN
+    v_payments := CASE
+      WHEN v_total > 0 THEN jsonb_build_array(jsonb_build_object('method', p_payment_method, 'amount', v_total))
+      ELSE '[]'::jsonb
+    END;
+  END IF;
+
+  v_payment_error := check_tenders_cover_total(v_payments, v_total);
+  IF v_payment_error IS NOT NULL THEN
+    RETURN jsonb_build_object('order', NULL, 'errors', jsonb_build_array(v_payment_error));
+  END IF;
+
+  SELECT CASE WHEN count(DISTINCT t->>'method') > 1 THEN 'split' ELSE COALESCE(min(t->>'method'), p_payment_method) END
+  INTO v_payment_method
+  FROM jsonb_array_elements(v_payments) AS t;
+
+  INSERT INTO orders (
+    user_id, total, tax, status, payment_method, idempotency_key, tax_exemption, tax_exemption_id,
+    discount_type, discount_value, discount_reason, discount_amount, discount_total,
+    discount_approved_by, discount_approval_id
+  )
+  VALUES (
+    v_user_id, v_total, v_tax, 'completed', v_payment_method, v_idempotency_key,
+    v_exemption, CASE WHEN v_exemption IS NULL THEN NULL ELSE v_exemption_id END,
+    CASE WHEN v_order_discount_amount > 0 THEN v_order_discount->>'type' END,
+    CASE WHEN v_order_discount_amount > 0 THEN (v_order_discount->>'value')::numeric END,
+    CASE WHEN v_order_discount_amount > 0 THEN v_order_discount->>'reason' END,
+    v_order_discount_amount, v_discount_total,
+    v_approved_by, v_used_approval_id
+  )
+  RETURNING id INTO v_order_id;
+
+  IF v_used_approval_id IS NOT NULL THEN
+    UPDATE discount_approvals SET order_id = v_order_id WHERE id = v_used_approval_id;
+  END IF;
+
+  -- Snapshot prices, discounts and tax for historical accuracy
+  INSERT INTO order_items (
+    order_id, product_id, quantity, price, subtotal,
+    discount_type, discount_value, discount_reason, discount_amount, order_discount_share,
+    tax_class_code, tax_rate, taxable_amount, tax_amount, line_total, tax_exempt
+  )
+  SELECT
+    v_order_id, l.product_id, l.quantity, l.price, l.gross,
+    CASE WHEN l.line_discount > 0 THEN l.discount->>'type' END,
+    CASE WHEN l.line_discount > 0 THEN (l.discount->>'value')::numeric END,
+    CASE WHEN l.line_discount > 0 THEN l.discount->>'reason' END,
+    l.line_discount, l.order_discount_share,
+    l.tax_class_code, l.tax_rate, l.taxable_amount, l.tax_amount, l.taxable_amount + l.tax_amount, l.tax_exempt
+  FROM jsonb_to_recordset(v_lines) AS l(
+    product_id uuid, quantity integer, discount jsonb, price numeric, gross numeric,
+    line_discount numeric, order_discount_share numeric,
+    tax_class_code text, tax_rate numeric, taxable_amount numeric, tax_amount numeric, tax_exempt boolean
+  );
+
+  PERFORM record_order_payments(v_order_id, v_payments, v_total);
+
+  PERFORM decrement_multiple_product_stock(v_items);
+
+  RETURN jsonb_build_object(
+    'order', get_order_json(v_order_id),
+    'errors', '[]'::jsonb
+  );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION checkout_order TO authenticated;
@@ -0,0 +1,248 @@
+-- Partial refunds and returns
+--
+-- 1. New Tables
+--    - refunds: one row per return, linked to the original order
+--    - refund_items: the order lines and quantities taken back in a return
+--
+-- 2. Orders
+--    - status gains 'partially_refunded' for orders where only some items were returned
+--    - order_items.refunded_quantity / refunded_amount track what has already
+--      been returned so a line can't be refunded twice
+--
+-- 3. refund_order(p_order_id, p_items, p_options)
+--    - p_items: [{order_item_id, quantity}]
+--    - p_options: reason, method (cash/card/mobile), restock (default true)
+--    - Each line refunds its share of line_total (after discounts and VAT);
+--      the last units of a line get whatever is left so rounding never drifts
+--    - Restocks through increment_product_stock, which writes the stock_logs entry
+--    - Sets the order to 'refunded' once every line is fully returned,
+--      otherwise 'partially_refunded'
+--
+-- 4. Important Notes
+--    - Admin only; refund amounts mirror utils/refunds.ts
+--    - Orders placed before the tax engine have no line_total and refund from subtotal
+
+ALTER TABLE orders DROP CONSTRAINT IF EXISTS orders_status_check;
+ALTER TABLE orders ADD CONSTRAINT orders_status_check
+  CHECK (status IN ('completed', 'partially_refunded', 'refunded', 'cancelled'));
+
+ALTER TABLE order_items
+  ADD COLUMN IF NOT EXISTS refunded_quantity integer NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS refunded_amount numeric(10, 2) NOT NULL DEFAULT 0;
+
+ALTER TABLE order_items ADD CONSTRAINT order_items_refunded_quantity_check
+  CHECK (refunded_quantity >= 0 AND refunded_quantity <= quantity);
+
+CREATE TABLE IF NOT EXISTS refunds (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  order_id uuid NOT NULL REFERENCES orders(id) ON DELETE CASCADE,
+  processed_by uuid NOT NULL REFERENCES profiles(id) DEFAULT auth.uid(),
+  amount numeric(10, 2) NOT NULL CHECK (amount >= 0),
+  method text NOT NULL CHECK (method IN ('cash', 'card', 'mobile')),
+  reason text,
+  restocked boolean NOT NULL DEFAULT true,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS refund_items (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  refund_id uuid NOT NULL REFERENCES refunds(id) ON DELETE CASCADE,
+  order_item_id uuid NOT NULL REFERENCES order_items(id) ON DELETE CASCADE,
+  product_id uuid NOT NULL REFERENCES products(id),
+  quantity integer NOT NULL CHECK (quantity > 0),
+  amount numeric(10, 2) NOT NULL CHECK (amount >= 0),
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS refunds_order_id_idx ON refunds(order_id);
+CREATE INDEX IF NOT EXISTS refund_items_refund_id_idx ON refund_items(refund_id);
+
+ALTER TABLE refunds ENABLE ROW LEVEL SECURITY;
+ALTER TABLE refund_items ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view refunds of own orders"
+  ON refunds FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM orders
+      WHERE orders.id = refunds.order_id
+      AND orders.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Admins can view all refunds"
+  ON refunds FOR SELECT
+  TO authenticated
+  USING (is_admin());
+
+CREATE POLICY "Users can view refund items of own orders"
+  ON refund_items FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM refunds
+      JOIN orders ON orders.id = refunds.order_id
+      WHERE refunds.id = refund_items.refund_id
+      AND orders.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Admins can view all refund items"
+  ON refund_items FOR SELECT
+  TO authenticated
+  USING (is_admin());
+
+-- Rows are only written by refund_order
+
+CREATE OR REPLACE FUNCTION get_order_json(p_order_id uuid)
+RETURNS jsonb
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT to_jsonb(o) || jsonb_build_object(
+    'order_items', COALESCE((
+      SELECT jsonb_agg(
+        to_jsonb(oi) || jsonb_build_object('products', jsonb_build_object('id', p.id, 'name', p.name))
+        ORDER BY p.name
+      )
+      FROM order_items oi
+      JOIN products p ON p.id = oi.product_id
+      WHERE oi.order_id = o.id
+    ), '[]'::jsonb),
+    'order_payments', COALESCE((
+      SELECT jsonb_agg(to_jsonb(op) ORDER BY op.position)
+      FROM order_payments op
+      WHERE op.order_id = o.id
+    ), '[]'::jsonb),
+    'refunds', COALESCE((
+      SELECT jsonb_agg(
+        to_jsonb(r) || jsonb_build_object('refund_items', COALESCE((
+          SELECT jsonb_agg(to_jsonb(ri) ORDER BY ri.created_at)
+          FROM refund_items ri
+          WHERE ri.refund_id = r.id
+        ), '[]'::jsonb))
+        ORDER BY r.created_at
+      )
+      FROM refunds r
+      WHERE r.order_id = o.id
+    ), '[]'::jsonb)
+  )
+  FROM orders o
+  WHERE o.id = p_order_id;
+$$;
+
+CREATE OR REPLACE FUNCTION refund_order(
+  p_order_id uuid,
+  p_items jsonb,  -- Array of objects with order_item_id and quantity
+  p_options jsonb DEFAULT '{}'::jsonb
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_order orders%ROWTYPE;
+  v_item jsonb;
+  v_line order_items%ROWTYPE;
+  v_quantity integer;
+  v_line_total numeric(10, 2);
+  v_amount numeric(10, 2);
+  v_total_amount numeric(10, 2) := 0;
+  v_refund_id uuid;
+  v_restock boolean := COALESCE((p_options->>'restock')::boolean, true);
+  v_method text := NULLIF(p_options->>'method', '');
+  v_reason text := NULLIF(btrim(p_options->>'reason'), '');
+BEGIN
+  IF NOT is_admin() THEN
+    RAISE EXCEPTION 'Only admins can process refunds';
+  END IF;
+
+  SELECT * INTO v_order
+  FROM orders
+  WHERE id = p_order_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Order not found: %', p_order_id;
+  END IF;
+
+  IF v_order.status NOT IN ('completed', 'partially_refunded') THEN
+    RAISE EXCEPTION 'Order is % and cannot be refunded', v_order.status;
+  END IF;
+
+  IF p_items IS NULL OR jsonb_typeof(p_items) <> 'array' OR jsonb_array_length(p_items) = 0 THEN
+    RAISE EXCEPTION 'Select at least one item to return';
+  END IF;
+
+  -- Split orders don't say which tender to give back, so default to cash
+  v_method := COALESCE(v_method, NULLIF(v_order.payment_method, 'split'), 'cash');
+  IF v_method NOT IN ('cash', 'card', 'mobile') THEN
+    RAISE EXCEPTION 'Invalid refund method: %', v_method;
+  END IF;
+
+  INSERT INTO refunds (order_id, processed_by, amount, method, reason, restocked)
+  VALUES (p_order_id, auth.uid(), 0, v_method, v_reason, v_restock)
+  RETURNING id INTO v_refund_id;
+
+  FOR v_item IN SELECT * FROM jsonb_array_elements(p_items)
+  LOOP
+    v_quantity := (v_item->>'quantity')::integer;
+
+    SELECT * INTO v_line
+    FROM order_items
+    WHERE id = (v_item->>'order_item_id')::uuid
+      AND order_id = p_order_id
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Order item not found: %', v_item->>'order_item_id';
+    END IF;
+
+    IF v_quantity IS NULL OR v_quantity <= 0 OR v_quantity > v_line.quantity - v_line.refunded_quantity THEN
+      RAISE EXCEPTION 'Invalid return quantity %: % of % already returned', v_quantity, v_line.refunded_quantity, v_line.quantity;
+    END IF;
+
+    v_line_total := COALESCE(v_line.line_total, v_line.subtotal);
+    IF v_line.refunded_quantity + v_quantity = v_line.quantity THEN
+      v_amount := v_line_total - v_line.refunded_amount;
+    ELSE
+      v_amount := round(v_line_total * v_quantity / v_line.quantity, 2);
+    END IF;
+
+    INSERT INTO refund_items (refund_id, order_item_id, product_id, quantity, amount)
+    VALUES (v_refund_id, v_line.id, v_line.product_id, v_quantity, v_amount);
+
+    UPDATE order_items
+    SET refunded_quantity = refunded_quantity + v_quantity,
+        refunded_amount = refunded_amount + v_amount
+    WHERE id = v_line.id;
+
+    IF v_restock THEN
+      PERFORM increment_product_stock(v_line.product_id, v_quantity);
+    END IF;
+
+    v_total_amount := v_total_amount + v_amount;
+  END LOOP;
+
+  UPDATE refunds SET amount = v_total_amount WHERE id = v_refund_id;
+
+  UPDATE orders
+  SET status = CASE
+    WHEN EXISTS (
+      SELECT 1 FROM order_items
+      WHERE order_id = p_order_id AND refunded_quantity < quantity
+    ) THEN 'partially_refunded'
+    ELSE 'refunded'
+  END
+  WHERE id = p_order_id;
+
+  RETURN jsonb_build_object(
+    'refund_id', v_refund_id,
+    'amount', v_total_amount,
+    'order', get_order_json(p_order_id)
+  );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION refund_order TO authenticated;
@@ -0,0 +1,38 @@
+-- Store details for receipts
+--
+-- 1. New Tables
+--    - store_settings: single row with the store name, TIN, address, contact
+--      number, receipt footer and default paper width
+--
+-- 2. Security
+--    - Everyone signed in can read the settings (receipts are printed at the till)
+--    - Only admins can change them
+--
+-- 3. Important Notes
+--    - Receipts are rendered client-side by utils/receipt.ts
+
+CREATE TABLE IF NOT EXISTS store_settings (
+  id boolean PRIMARY KEY DEFAULT true CHECK (id),
+  store_name text NOT NULL DEFAULT 'My Store',
+  tin text,
+  address text,
+  phone text,
+  receipt_footer text DEFAULT 'Thank you for your purchase!',
+  receipt_width text NOT NULL DEFAULT '58mm' CHECK (receipt_width IN ('58mm', '80mm')),
+  updated_at timestamptz DEFAULT now()
+);
+
+INSERT INTO store_settings (id) VALUES (true) ON CONFLICT (id) DO NOTHING;
+
+ALTER TABLE store_settings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view store settings"
+  ON store_settings FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Admins can update store settings"
+  ON store_settings FOR UPDATE
+  TO authenticated
+  USING (is_admin())
+  WITH CHECK (is_admin());
@@ -0,0 +1,310 @@
+-- Cash drawer shifts
+--
+-- 1. New Tables
+--    - shifts: a cashier's session at the till, from the opening float to the
+--      counted cash at close
+--    - cash_movements: paid-ins and paid-outs during a shift
+--
+-- 2. Orders and refunds
+--    - orders.shift_id is filled from the cashier's open shift on insert;
+--      sales can't be recorded without one
+--    - refunds.shift_id records the drawer a refund was paid from, when the
+--      admin processing it has a shift open
+--
+-- 3. Functions
+--    - get_shift_report(shift_id): X report (sales by payment method, cash
+--      movements, refunds and the cash expected in the drawer)
+--    - close_shift(shift_id, counted_cash, notes): Z report; stores the
+--      expected amount and the variance and closes the shift
+--
+-- 4. Important Notes
+--    - Expected cash = opening float + cash sales (net of change) + paid-ins
+--      - paid-outs - cash refunds
+--    - Cancelled orders are left out of the report
+
+CREATE TABLE IF NOT EXISTS shifts (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES profiles(id) DEFAULT auth.uid(),
+  status text NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'closed')),
+  opening_float numeric(10, 2) NOT NULL DEFAULT 0 CHECK (opening_float >= 0),
+  opened_at timestamptz NOT NULL DEFAULT now(),
+  closed_at timestamptz,
+  counted_cash numeric(10, 2) CHECK (counted_cash >= 0),
+  expected_cash numeric(10, 2),
+  variance numeric(10, 2),
+  notes text,
+  CONSTRAINT shifts_closed_fields CHECK (
+    status = 'open' OR (closed_at IS NOT NULL AND counted_cash IS NOT NULL AND expected_cash IS NOT NULL)
+  )
+);
+
+-- A cashier has at most one open drawer
+CREATE UNIQUE INDEX IF NOT EXISTS idx_shifts_one_open_per_user ON shifts (user_id) WHERE status = 'open';
+
+CREATE TABLE IF NOT EXISTS cash_movements (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  shift_id uuid NOT NULL REFERENCES shifts(id) ON DELETE CASCADE,
+  type text NOT NULL CHECK (type IN ('paid_in', 'paid_out')),
+  amount numeric(10, 2) NOT NULL CHECK (amount > 0),
+  reason text NOT NULL,
+  created_by uuid NOT NULL REFERENCES profiles(id) DEFAULT auth.uid(),
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS cash_movements_shift_id_idx ON cash_movements(shift_id);
+
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS shift_id uuid REFERENCES shifts(id);
+ALTER TABLE refunds ADD COLUMN IF NOT EXISTS shift_id uuid REFERENCES shifts(id);
+
+CREATE INDEX IF NOT EXISTS orders_shift_id_idx ON orders(shift_id);
+CREATE INDEX IF NOT EXISTS refunds_shift_id_idx ON refunds(shift_id);
+
+ALTER TABLE shifts ENABLE ROW LEVEL SECURITY;
+ALTER TABLE cash_movements ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own shifts"
+  ON shifts FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Admins can view all shifts"
+  ON shifts FOR SELECT
+  TO authenticated
+  USING (is_admin());
+
+CREATE POLICY "Users can open own shifts"
+  ON shifts FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = user_id AND status = 'open' AND closed_at IS NULL);
+
+-- Shifts are closed through close_shift so the expected amount can't be edited
+
+CREATE POLICY "Users can view movements of own shifts"
+  ON cash_movements FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM shifts
+      WHERE shifts.id = cash_movements.shift_id
+      AND shifts.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Admins can view all cash movements"
+  ON cash_movements FOR SELECT
+  TO authenticated
+  USING (is_admin());
+
+CREATE POLICY "Users can record movements on own open shift"
+  ON cash_movements FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    created_by = auth.uid() AND
+    EXISTS (
+      SELECT 1 FROM shifts
+      WHERE shifts.id = cash_movements.shift_id
+      AND shifts.user_id = auth.uid()
+      AND shifts.status = 'open'
+    )
+  );
+
+CREATE OR REPLACE FUNCTION assign_order_shift()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  IF NEW.shift_id IS NULL THEN
+    SELECT id INTO NEW.shift_id
+    FROM shifts
+    WHERE user_id = NEW.user_id AND status = 'open';
+  END IF;
+
+  IF NEW.shift_id IS NULL THEN
+    RAISE EXCEPTION 'No open shift: open a shift with a starting float before making sales';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS assign_order_shift_trigger ON orders;
+CREATE TRIGGER assign_order_shift_trigger
+  BEFORE INSERT ON orders
+  FOR EACH ROW
+  EXECUTE FUNCTION assign_order_shift();
+
+-- Orders can't be moved to another drawer after the sale
+CREATE OR REPLACE FUNCTION prevent_sensitive_order_updates()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  -- Check if sensitive fields are being updated by non-superuser
+  IF (
+    TG_OP = 'UPDATE' AND
+    (
+      OLD.user_id IS DISTINCT FROM NEW.user_id OR
+      OLD.total IS DISTINCT FROM NEW.total OR
+      OLD.tax IS DISTINCT FROM NEW.tax OR
+      OLD.payment_method IS DISTINCT FROM NEW.payment_method OR
+      OLD.tax_exemption IS DISTINCT FROM NEW.tax_exemption OR
+      OLD.tax_exemption_id IS DISTINCT FROM NEW.tax_exemption_id OR
+      OLD.discount_amount IS DISTINCT FROM NEW.discount_amount OR
+      OLD.discount_total IS DISTINCT FROM NEW.discount_total OR
+      OLD.discount_approved_by IS DISTINCT FROM NEW.discount_approved_by OR
+      OLD.shift_id IS DISTINCT FROM NEW.shift_id
+    ) AND
+    NOT pg_has_role(session_user, 'postgres', 'MEMBER')
+  ) THEN
+    RAISE EXCEPTION 'Cannot update sensitive order fields (user_id, total, tax, payment_method, tax exemption, discounts, shift) without proper privileges';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION assign_refund_shift()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  IF NEW.shift_id IS NULL THEN
+    SELECT id INTO NEW.shift_id
+    FROM shifts
+    WHERE user_id = NEW.processed_by AND status = 'open';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS assign_refund_shift_trigger ON refunds;
+CREATE TRIGGER assign_refund_shift_trigger
+  BEFORE INSERT ON refunds
+  FOR EACH ROW
+  EXECUTE FUNCTION assign_refund_shift();
+
+CREATE OR REPLACE FUNCTION get_shift_report(p_shift_id uuid)
+RETURNS jsonb
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_shift shifts%ROWTYPE;
+  v_sales jsonb;
+  v_order_count integer;
+  v_sales_total numeric(10, 2);
+  v_paid_in numeric(10, 2);
+  v_paid_out numeric(10, 2);
+  v_refunds jsonb;
+  v_cash_sales numeric(10, 2);
+  v_cash_refunds numeric(10, 2);
+BEGIN
+  SELECT * INTO v_shift FROM shifts WHERE id = p_shift_id;
+
+  IF NOT FOUND OR (v_shift.user_id <> auth.uid() AND NOT is_admin()) THEN
+    RAISE EXCEPTION 'Shift not found: %', p_shift_id;
+  END IF;
+
+  SELECT count(*), COALESCE(sum(total), 0)
+  INTO v_order_count, v_sales_total
+  FROM orders
+  WHERE shift_id = p_shift_id AND status <> 'cancelled';
+
+  SELECT COALESCE(jsonb_agg(jsonb_build_object('method', method, 'count', count, 'amount', amount) ORDER BY method), '[]'::jsonb)
+  INTO v_sales
+  FROM (
+    SELECT op.method, count(DISTINCT op.order_id) AS count, sum(op.amount) AS amount
+    FROM order_payments op
+    JOIN orders o ON o.id = op.order_id
+    WHERE o.shift_id = p_shift_id AND o.status <> 'cancelled'
+    GROUP BY op.method
+  ) s;
+
+  SELECT
+    COALESCE(sum(amount) FILTER (WHERE type = 'paid_in'), 0),
+    COALESCE(sum(amount) FILTER (WHERE type = 'paid_out'), 0)
+  INTO v_paid_in, v_paid_out
+  FROM cash_movements
+  WHERE shift_id = p_shift_id;
+
+  SELECT COALESCE(jsonb_agg(jsonb_build_object('method', method, 'count', count, 'amount', amount) ORDER BY method), '[]'::jsonb)
+  INTO v_refunds
+  FROM (
+    SELECT method, count(*) AS count, sum(amount) AS amount
+    FROM refunds
+    WHERE shift_id = p_shift_id
+    GROUP BY method
+  ) r;
+
+  SELECT COALESCE(sum((s->>'amount')::numeric), 0) INTO v_cash_sales
+  FROM jsonb_array_elements(v_sales) s
+  WHERE s->>'method' = 'cash';
+
+  SELECT COALESCE(sum((r->>'amount')::numeric), 0) INTO v_cash_refunds
+  FROM jsonb_array_elements(v_refunds) r
+  WHERE r->>'method' = 'cash';
+
+  RETURN jsonb_build_object(
+    'shift', to_jsonb(v_shift),
+    'order_count', v_order_count,
+    'sales_total', v_sales_total,
+    'sales_by_method', v_sales,
+    'refunds_by_method', v_refunds,
+    'paid_in', v_paid_in,
+    'paid_out', v_paid_out,
+    'expected_cash', v_shift.opening_float + v_cash_sales + v_paid_in - v_paid_out - v_cash_refunds
+  );
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION close_shift(
+  p_shift_id uuid,
+  p_counted_cash numeric,
+  p_notes text DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_shift shifts%ROWTYPE;
+  v_report jsonb;
+  v_expected numeric(10, 2);
+BEGIN
+  SELECT * INTO v_shift FROM shifts WHERE id = p_shift_id FOR UPDATE;
+
+  IF NOT FOUND OR (v_shift.user_id <> auth.uid() AND NOT is_admin()) THEN
+    RAISE EXCEPTION 'Shift not found: %', p_shift_id;
+  END IF;
+
+  IF v_shift.status <> 'open' THEN
+    RAISE EXCEPTION 'Shift is already closed';
+  END IF;
+
+  IF p_counted_cash IS NULL OR p_counted_cash < 0 THEN
+    RAISE EXCEPTION 'Invalid counted cash amount';
+  END IF;
+
+  v_report := get_shift_report(p_shift_id);
+  v_expected := (v_report->>'expected_cash')::numeric;
+
+  UPDATE shifts
+  SET status = 'closed',
+      closed_at = now(),
+      counted_cash = p_counted_cash,
+      expected_cash = v_expected,
+      variance = p_counted_cash - v_expected,
+      notes = NULLIF(btrim(p_notes), '')
+  WHERE id = p_shift_id;
+
+  RETURN get_shift_report(p_shift_id);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION get_shift_report TO authenticated;
+GRANT EXECUTE ON FUNCTION close_shift TO authenticated;
@@ -0,0 +1,231 @@
+-- Sales reporting
+--
+-- 1. New Views
+--    - sales_report_facts: one row per sold order line ('sale'), per tender
+--      ('payment') and per returned line ('refund'), with the amount and the
+--      VAT it carries
+--
+-- 2. Functions
+--    - get_sales_report(from, to, timezone): totals for the range plus
+--      breakdowns by day, hour of day, product, category, staff member and
+--      payment method
+--
+-- 3. Important Notes
+--    - The view runs with the caller's privileges, so the existing RLS
+--      policies apply: admins see every order, staff only their own
+--    - get_sales_report is admin only
+--    - Cancelled orders are left out; refunds count on the day they were
+--      given, not the day of the sale
+--    - Net = gross - refunds; tax is the VAT on sales less the VAT refunded
+--    - Tax on tenders and refunds is apportioned from the order / line tax
+
+CREATE OR REPLACE VIEW sales_report_facts
+WITH (security_invoker = true)
+AS
+  SELECT
+    'sale'::text AS kind,
+    o.created_at,
+    o.id AS order_id,
+    o.user_id,
+    oi.product_id,
+    p.category_id,
+    NULL::text AS payment_method,
+    oi.quantity,
+    COALESCE(oi.line_total, oi.subtotal) AS amount,
+    oi.tax_amount AS tax
+  FROM order_items oi
+  JOIN orders o ON o.id = oi.order_id
+  LEFT JOIN products p ON p.id = oi.product_id
+  WHERE o.status <> 'cancelled'
+
+  UNION ALL
+
+  SELECT
+    'payment'::text,
+    o.created_at,
+    o.id,
+    o.user_id,
+    NULL::uuid,
+    NULL::uuid,
+    op.method,
+    0,
+    op.amount,
+    CASE WHEN o.total > 0 THEN round(o.tax * op.amount / o.total, 2) ELSE 0 END
+  FROM order_payments op
+  JOIN orders o ON o.id = op.order_id
+  WHERE o.status <> 'cancelled'
+
+  UNION ALL
+
+  SELECT
+    'refund'::text,
+    r.created_at,
+    o.id,
+    o.user_id,
+    ri.product_id,
+    p.category_id,
+    r.method,
+    ri.quantity,
+    ri.amount,
+    CASE
+      WHEN COALESCE(oi.line_total, oi.subtotal) > 0
+        THEN round(oi.tax_amount * ri.amount / COALESCE(oi.line_total, oi.subtotal), 2)
+      ELSE 0
+    END
+  FROM refund_items ri
+  JOIN refunds r ON r.id = ri.refund_id
+  JOIN order_items oi ON oi.id = ri.order_item_id
+  JOIN orders o ON o.id = r.order_id
+  LEFT JOIN products p ON p.id = ri.product_id;
+
+GRANT SELECT ON sales_report_facts TO authenticated;
+
+CREATE OR REPLACE FUNCTION get_sales_report(
+  p_from timestamptz,
+  p_to timestamptz,
+  p_timezone text DEFAULT 'Asia/Manila'
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+STABLE
+SECURITY INVOKER
+AS $$
+DECLARE
+  v_report jsonb;
+BEGIN
+  IF NOT is_admin() THEN
+    RAISE EXCEPTION 'Only admins can view sales reports';
+  END IF;
+
+  IF p_from IS NULL OR p_to IS NULL OR p_to <= p_from THEN
+    RAISE EXCEPTION 'Invalid report date range';
+  END IF;
+
+  WITH facts AS (
+    SELECT
+      f.*,
+      to_char(f.created_at AT TIME ZONE p_timezone, 'YYYY-MM-DD') AS day,
+      extract(hour FROM f.created_at AT TIME ZONE p_timezone)::integer AS hour
+    FROM sales_report_facts f
+    WHERE f.created_at >= p_from AND f.created_at < p_to
+  ),
+  -- Every breakdown except payment method is built from order lines
+  lines AS (
+    SELECT * FROM facts WHERE kind IN ('sale', 'refund')
+  ),
+  tenders AS (
+    SELECT * FROM facts WHERE kind IN ('payment', 'refund')
+  )
+  SELECT jsonb_build_object(
+    'summary', (
+      SELECT jsonb_build_object(
+        'order_count', count(DISTINCT order_id) FILTER (WHERE kind = 'sale'),
+        'item_count', COALESCE(sum(quantity) FILTER (WHERE kind = 'sale'), 0),
+        'gross', COALESCE(sum(amount) FILTER (WHERE kind = 'sale'), 0),
+        'tax', COALESCE(sum(tax) FILTER (WHERE kind = 'sale'), 0) - COALESCE(sum(tax) FILTER (WHERE kind = 'refund'), 0),
+        'refunds', COALESCE(sum(amount) FILTER (WHERE kind = 'refund'), 0)
+      )
+      FROM lines
+    ),
+    'by_day', (
+      SELECT COALESCE(jsonb_agg(to_jsonb(t) ORDER BY t.key), '[]'::jsonb)
+      FROM (
+        SELECT
+          day AS key,
+          day AS label,
+          count(DISTINCT order_id) FILTER (WHERE kind = 'sale') AS order_count,
+          COALESCE(sum(quantity) FILTER (WHERE kind = 'sale'), 0) AS quantity,
+          COALESCE(sum(amount) FILTER (WHERE kind = 'sale'), 0) AS gross,
+          COALESCE(sum(tax) FILTER (WHERE kind = 'sale'), 0) - COALESCE(sum(tax) FILTER (WHERE kind = 'refund'), 0) AS tax,
+          COALESCE(sum(amount) FILTER (WHERE kind = 'refund'), 0) AS refunds
+        FROM lines
+        GROUP BY day
+      ) t
+    ),
+    'by_hour', (
+      SELECT COALESCE(jsonb_agg(to_jsonb(t) ORDER BY t.hour), '[]'::jsonb)
+      FROM (
+        SELECT
+          hour,
+          hour::text AS key,
+          lpad(hour::text, 2, '0') || ':00' AS label,
+          count(DISTINCT order_id) FILTER (WHERE kind = 'sale') AS order_count,
+          COALESCE(sum(quantity) FILTER (WHERE kind = 'sale'), 0) AS quantity,
+          COALESCE(sum(amount) FILTER (WHERE kind = 'sale'), 0) AS gross,
+          COALESCE(sum(tax) FILTER (WHERE kind = 'sale'), 0) - COALESCE(sum(tax) FILTER (WHERE kind = 'refund'), 0) AS tax,
+          COALESCE(sum(amount) FILTER (WHERE kind = 'refund'), 0) AS refunds
+        FROM lines
+        GROUP BY hour
+      ) t
+    ),
+    'by_product', (
+      SELECT COALESCE(jsonb_agg(to_jsonb(t) ORDER BY t.gross DESC, t.label), '[]'::jsonb)
+      FROM (
+        SELECT
+          l.product_id::text AS key,
+          COALESCE(p.name, 'Deleted product') AS label,
+          count(DISTINCT l.order_id) FILTER (WHERE l.kind = 'sale') AS order_count,
+          COALESCE(sum(l.quantity) FILTER (WHERE l.kind = 'sale'), 0) AS quantity,
+          COALESCE(sum(l.amount) FILTER (WHERE l.kind = 'sale'), 0) AS gross,
+          COALESCE(sum(l.tax) FILTER (WHERE l.kind = 'sale'), 0) - COALESCE(sum(l.tax) FILTER (WHERE l.kind = 'refund'), 0) AS tax,
+          COALESCE(sum(l.amount) FILTER (WHERE l.kind = 'refund'), 0) AS refunds
+        FROM lines l
+        LEFT JOIN products p ON p.id = l.product_id
+        GROUP BY l.product_id, p.name
+      ) t
+    ),
+    'by_category', (
+      SELECT COALESCE(jsonb_agg(to_jsonb(t) ORDER BY t.gross DESC, t.label), '[]'::jsonb)
+      FROM (
+        SELECT
+          COALESCE(l.category_id::text, 'uncategorized') AS key,
+          COALESCE(c.name, 'Uncategorized') AS label,
+          count(DISTINCT l.order_id) FILTER (WHERE l.kind = 'sale') AS order_count,
+          COALESCE(sum(l.quantity) FILTER (WHERE l.kind = 'sale'), 0) AS quantity,
+          COALESCE(sum(l.amount) FILTER (WHERE l.kind = 'sale'), 0) AS gross,
+          COALESCE(sum(l.tax) FILTER (WHERE l.kind = 'sale'), 0) - COALESCE(sum(l.tax) FILTER (WHERE l.kind = 'refund'), 0) AS tax,
+          COALESCE(sum(l.amount) FILTER (WHERE l.kind = 'refund'), 0) AS refunds
+        FROM lines l
+        LEFT JOIN categories c ON c.id = l.category_id
+        GROUP BY l.category_id, c.name
+      ) t
+    ),
+    'by_staff', (
+      SELECT COALESCE(jsonb_agg(to_jsonb(t) ORDER BY t.gross DESC, t.label), '[]'::jsonb)
+      FROM (
+        SELECT
+          l.user_id::text AS key,
+          COALESCE(pr.full_name, pr.email, 'Unknown') AS label,
+          count(DISTINCT l.order_id) FILTER (WHERE l.kind = 'sale') AS order_count,
+          COALESCE(sum(l.quantity) FILTER (WHERE l.kind = 'sale'), 0) AS quantity,
+          COALESCE(sum(l.amount) FILTER (WHERE l.kind = 'sale'), 0) AS gross,
+          COALESCE(sum(l.tax) FILTER (WHERE l.kind = 'sale'), 0) - COALESCE(sum(l.tax) FILTER (WHERE l.kind = 'refund'), 0) AS tax,
+          COALESCE(sum(l.amount) FILTER (WHERE l.kind = 'refund'), 0) AS refunds
+        FROM lines l
+        LEFT JOIN profiles pr ON pr.id = l.user_id
+        GROUP BY l.user_id, pr.full_name, pr.email
+      ) t
+    ),
+    'by_payment_method', (
+      SELECT COALESCE(jsonb_agg(to_jsonb(t) ORDER BY t.gross DESC, t.key), '[]'::jsonb)
+      FROM (
+        SELECT
+          payment_method AS key,
+          payment_method AS label,
+          count(DISTINCT order_id) FILTER (WHERE kind = 'payment') AS order_count,
+          0 AS quantity,
+          COALESCE(sum(amount) FILTER (WHERE kind = 'payment'), 0) AS gross,
+          COALESCE(sum(tax) FILTER (WHERE kind = 'payment'), 0) - COALESCE(sum(tax) FILTER (WHERE kind = 'refund'), 0) AS tax,
+          COALESCE(sum(amount) FILTER (WHERE kind = 'refund'), 0) AS refunds
+        FROM tenders
+        GROUP BY payment_method
+      ) t
+    )
+  )
+  INTO v_report;
+
+  RETURN v_report;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION get_sales_report TO authenticated;
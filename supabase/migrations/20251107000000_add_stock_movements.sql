@@ -0,0 +1,746 @@
+-- Stock movement history
+--
+-- 1. stock_logs
+--    - reason: sale, return, receiving, damage or count_correction
+--    - user_id: who moved the stock (defaults to the signed-in user)
+--    - reference_type / reference_id: the order, refund or other document
+--      behind the movement
+--    - note: free text, e.g. why stock was written off
+--
+-- 2. Functions
+--    - decrement_product_stock, increment_product_stock and
+--      decrement_multiple_product_stock take an optional reason and reference
+--    - checkout_order and refund_order pass the order / refund through
+--    - adjust_product_stock(product_id, quantity_change, reason, note): admin
+--      only manual adjustment
+--
+-- 3. Important Notes
+--    - products.stock can no longer be edited directly; every change goes
+--      through the stock functions so it is logged
+--    - New products log their opening stock as 'receiving'
+--    - Existing log entries are backfilled as sales (decreases) and returns
+--      (increases)
+
+ALTER TABLE stock_logs
+  ADD COLUMN IF NOT EXISTS reason text,
+  ADD COLUMN IF NOT EXISTS user_id uuid REFERENCES profiles(id) ON DELETE SET NULL DEFAULT auth.uid(),
+  ADD COLUMN IF NOT EXISTS reference_type text,
+  ADD COLUMN IF NOT EXISTS reference_id uuid,
+  ADD COLUMN IF NOT EXISTS note text;
+
+UPDATE stock_logs
+SET reason = CASE WHEN quantity_change < 0 THEN 'sale' ELSE 'return' END
+WHERE reason IS NULL;
+
+ALTER TABLE stock_logs
+  ALTER COLUMN reason SET NOT NULL,
+  ADD CONSTRAINT stock_logs_reason_check
+    CHECK (reason IN ('sale', 'return', 'receiving', 'damage', 'count_correction'));
+
+CREATE INDEX IF NOT EXISTS stock_logs_product_id_created_at_idx ON stock_logs(product_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS stock_logs_reference_idx ON stock_logs(reference_type, reference_id);
+
+-- The old signatures are dropped so calls with two arguments aren't ambiguous
+DROP FUNCTION IF EXISTS decrement_product_stock(uuid, integer);
+DROP FUNCTION IF EXISTS increment_product_stock(uuid, integer);
+DROP FUNCTION IF EXISTS decrement_multiple_product_stock(jsonb);
+
+CREATE OR REPLACE FUNCTION decrement_product_stock(
+  product_id uuid,
+  quantity integer,
+  p_reason text DEFAULT 'sale',
+  p_reference_type text DEFAULT NULL,
+  p_reference_id uuid DEFAULT NULL,
+  p_note text DEFAULT NULL
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  current_stock integer;
+BEGIN
+  -- Get current stock and lock the row
+  SELECT stock INTO current_stock
+  FROM products
+  WHERE id = decrement_product_stock.product_id
+  FOR UPDATE;
+
+  -- Check if product exists
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Product not found: %', product_id;
+  END IF;
+
+  -- Check if sufficient stock is available
+  IF current_stock < quantity THEN
+    RAISE EXCEPTION 'Insufficient stock: requested %, available %', quantity, current_stock;
+  END IF;
+
+  -- Update stock
+  UPDATE products
+  SET stock = stock - quantity,
+      updated_at = now()
+  WHERE id = decrement_product_stock.product_id;
+
+  INSERT INTO stock_logs (product_id, quantity_change, remaining_stock, reason, reference_type, reference_id, note)
+  VALUES (product_id, -quantity, current_stock - quantity, p_reason, p_reference_type, p_reference_id, p_note);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION increment_product_stock(
+  product_id uuid,
+  quantity integer,
+  p_reason text DEFAULT 'return',
+  p_reference_type text DEFAULT NULL,
+  p_reference_id uuid DEFAULT NULL,
+  p_note text DEFAULT NULL
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  current_stock integer;
+BEGIN
+  -- Get current stock and lock the row
+  SELECT stock INTO current_stock
+  FROM products
+  WHERE id = increment_product_stock.product_id
+  FOR UPDATE;
+
+  -- Check if product exists
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Product not found: %', product_id;
+  END IF;
+
+  -- Update stock
+  UPDATE products
+  SET stock = stock + quantity,
+      updated_at = now()
+  WHERE id = increment_product_stock.product_id;
+
+  INSERT INTO stock_logs (product_id, quantity_change, remaining_stock, reason, reference_type, reference_id, note)
+  VALUES (product_id, quantity, current_stock + quantity, p_reason, p_reference_type, p_reference_id, p_note);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION decrement_multiple_product_stock(
+  order_items jsonb,  -- Array of objects with product_id and quantity
+  p_reason text DEFAULT 'sale',
+  p_reference_type text DEFAULT NULL,
+  p_reference_id uuid DEFAULT NULL
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  item_record jsonb;
+  product_id uuid;
+  quantity integer;
+  current_stock integer;
+BEGIN
+  -- Process each item in the order
+  FOR item_record IN SELECT * FROM jsonb_array_elements(order_items)
+  LOOP
+    -- Extract product_id and quantity from the JSON object
+    product_id := (item_record->>'product_id')::uuid;
+    quantity := (item_record->>'quantity')::integer;
+
+    -- Get current stock and lock the row
+    SELECT stock INTO current_stock
+    FROM products
+    WHERE id = product_id
+    FOR UPDATE;
+
+    -- Check if product exists
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Product not found: %', product_id;
+    END IF;
+
+    -- Check if sufficient stock is available
+    IF current_stock < quantity THEN
+      RAISE EXCEPTION 'Insufficient stock for product %: requested %, available %', product_id, quantity, current_stock;
+    END IF;
+
+    -- Update stock
+    UPDATE products
+    SET stock = stock - quantity,
+        updated_at = now()
+    WHERE id = product_id;
+
+    INSERT INTO stock_logs (product_id, quantity_change, remaining_stock, reason, reference_type, reference_id)
+    VALUES (product_id, -quantity, current_stock - quantity, p_reason, p_reference_type, p_reference_id);
+  END LOOP;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION decrement_product_stock TO authenticated;
+GRANT EXECUTE ON FUNCTION increment_product_stock TO authenticated;
+GRANT EXECUTE ON FUNCTION decrement_multiple_product_stock TO authenticated;
+
+CREATE OR REPLACE FUNCTION adjust_product_stock(
+  p_product_id uuid,
+  p_quantity_change integer,
+  p_reason text,
+  p_note text DEFAULT NULL
+)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_stock integer;
+  v_note text := NULLIF(btrim(p_note), '');
+BEGIN
+  IF NOT is_admin() THEN
+    RAISE EXCEPTION 'Only admins can adjust stock';
+  END IF;
+
+  -- Sales and returns are recorded by checkout and refunds
+  IF p_reason IS NULL OR p_reason NOT IN ('receiving', 'damage', 'count_correction') THEN
+    RAISE EXCEPTION 'Invalid adjustment reason: %', p_reason;
+  END IF;
+
+  IF p_quantity_change IS NULL OR p_quantity_change = 0 THEN
+    RAISE EXCEPTION 'Adjustment quantity must not be zero';
+  END IF;
+
+  IF p_reason = 'receiving' AND p_quantity_change < 0 THEN
+    RAISE EXCEPTION 'Received quantity must be positive';
+  END IF;
+
+  IF p_reason = 'damage' AND p_quantity_change > 0 THEN
+    RAISE EXCEPTION 'Damaged quantity must be negative';
+  END IF;
+
+  IF p_reason = 'damage' AND v_note IS NULL THEN
+    RAISE EXCEPTION 'Describe the damage in the note';
+  END IF;
+
+  IF p_quantity_change > 0 THEN
+    PERFORM increment_product_stock(p_product_id, p_quantity_change, p_reason, 'adjustment', NULL, v_note);
+  ELSE
+    PERFORM decrement_product_stock(p_product_id, -p_quantity_change, p_reason, 'adjustment', NULL, v_note);
+  END IF;
+
+  SELECT stock INTO v_stock FROM products WHERE id = p_product_id;
+  RETURN v_stock;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION adjust_product_stock TO authenticated;
+
+-- Direct edits would change stock without a log entry
+CREATE OR REPLACE FUNCTION prevent_direct_stock_updates()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF OLD.stock IS DISTINCT FROM NEW.stock AND NOT pg_has_role(current_user, 'postgres', 'MEMBER') THEN
+    RAISE EXCEPTION 'Stock can only be changed through a stock adjustment';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS prevent_direct_stock_updates_trigger ON products;
+CREATE TRIGGER prevent_direct_stock_updates_trigger
+  BEFORE UPDATE ON products
+  FOR EACH ROW
+  EXECUTE FUNCTION prevent_direct_stock_updates();
+
+CREATE OR REPLACE FUNCTION log_opening_stock()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  IF NEW.stock > 0 THEN
+    INSERT INTO stock_logs (product_id, quantity_change, remaining_stock, reason, note)
+    VALUES (NEW.id, NEW.stock, NEW.stock, 'receiving', 'Opening stock');
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS log_opening_stock_trigger ON products;
+CREATE TRIGGER log_opening_stock_trigger
+  AFTER INSERT ON products
+  FOR EACH ROW
+  EXECUTE FUNCTION log_opening_stock();
+
+-- Sales are logged against their order
+CREATE OR REPLACE FUNCTION checkout_order(
+  p_items jsonb,  -- Array of objects with product_id, quantity and optional discount
+  p_payment_method text,  -- Used when p_options has no payments
+  p_options jsonb DEFAULT '{}'::jsonb
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_idempotency_key uuid := NULLIF(p_options->>'idempotency_key', '')::uuid;
+  v_exemption text := NULLIF(p_options->>'tax_exemption', '');
+  v_exemption_id text := NULLIF(btrim(p_options->>'tax_exemption_id'), '');
+  v_order_discount jsonb := NULLIF(p_options->'order_discount', 'null'::jsonb);
+  v_approval_id uuid := NULLIF(p_options->>'discount_approval_id', '')::uuid;
+  v_payments jsonb := NULLIF(p_options->'payments', 'null'::jsonb);
+  v_payment_error jsonb;
+  v_payment_method text;
+  v_prices_include_tax boolean;
+  v_default_tax_class_id uuid;
+  v_threshold numeric;
+  v_items jsonb;
+  v_lines jsonb;
+  v_errors jsonb := '[]'::jsonb;
+  v_line record;
+  v_discount_base numeric(10, 2);
+  v_line_discount_total numeric(10, 2);
+  v_order_discount_amount numeric(10, 2);
+  v_discount_total numeric(10, 2);
+  v_needs_approval boolean;
+  v_approved_by uuid;
+  v_used_approval_id uuid;
+  v_total numeric(10, 2);
+  v_tax numeric(10, 2);
+  v_order_id uuid;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF v_idempotency_key IS NOT NULL THEN
+    -- Serialize concurrent replays of the same sale
+    PERFORM pg_advisory_xact_lock(hashtext(v_idempotency_key::text));
+
+    SELECT id INTO v_order_id
+    FROM orders
+    WHERE idempotency_key = v_idempotency_key
+    AND user_id = v_user_id;
+
+    IF FOUND THEN
+      RETURN jsonb_build_object(
+        'order', get_order_json(v_order_id),
+        'errors', '[]'::jsonb,
+        'replayed', true
+      );
+    END IF;
+  END IF;
+
+  IF p_items IS NULL OR jsonb_typeof(p_items) <> 'array' OR jsonb_array_length(p_items) = 0 THEN
+    RETURN jsonb_build_object(
+      'order', NULL,
+      'errors', jsonb_build_array(jsonb_build_object('code', 'EMPTY_CART'))
+    );
+  END IF;
+
+  -- Without explicit tenders the whole total is paid with p_payment_method
+  IF v_payments IS NULL AND (p_payment_method IS NULL OR p_payment_method NOT IN ('cash', 'card', 'mobile')) THEN
+    RETURN jsonb_build_object(
+      'order', NULL,
+      'errors', jsonb_build_array(jsonb_build_object('code', 'INVALID_PAYMENT_METHOD'))
+    );
+  END IF;
+
+  IF v_payments IS NOT NULL AND NOT are_valid_tenders(v_payments) THEN
+    RETURN jsonb_build_object(
+      'order', NULL,
+      'errors', jsonb_build_array(jsonb_build_object('code', 'INVALID_PAYMENT'))
+    );
+  END IF;
+
+  IF v_exemption IS NOT NULL AND (v_exemption NOT IN ('senior_citizen', 'pwd') OR v_exemption_id IS NULL) THEN
+    RETURN jsonb_build_object(
+      'order', NULL,
+      'errors', jsonb_build_array(jsonb_build_object('code', 'INVALID_TAX_EXEMPTION'))
+    );
+  END IF;
+
+  IF NOT is_valid_discount(v_order_discount) THEN
+    RETURN jsonb_build_object(
+      'order', NULL,
+      'errors', jsonb_build_array(jsonb_build_object('code', 'INVALID_DISCOUNT'))
+    );
+  END IF;
+
+  -- Merge duplicate lines so each product is validated and decremented once;
+  -- the first discount given for a product wins
+  SELECT jsonb_agg(
+    jsonb_build_object('product_id', product_id, 'quantity', quantity, 'discount', discount)
+    ORDER BY product_id
+  )
+  INTO v_items
+  FROM (
+    SELECT (item->>'product_id')::uuid AS product_id,
+           SUM((item->>'quantity')::integer) AS quantity,
+           (array_agg(item->'discount') FILTER (
+             WHERE jsonb_typeof(item->'discount') IS DISTINCT FROM 'null'
+             AND item->'discount' IS NOT NULL
+           ))[1] AS discount
+    FROM jsonb_array_elements(p_items) AS item
+    GROUP BY 1
+  ) merged;
+
+  -- Lock product rows in a stable order to avoid deadlocks between tills
+  PERFORM 1
+  FROM products
+  WHERE id IN (SELECT product_id FROM jsonb_to_recordset(v_items) AS x(product_id uuid, quantity integer))
+  ORDER BY id
+  FOR UPDATE;
+
+  FOR v_line IN
+    SELECT x.product_id, x.quantity, x.discount, p.id AS found_id, p.name, p.stock, p.active
+    FROM jsonb_to_recordset(v_items) AS x(product_id uuid, quantity integer, discount jsonb)
+    LEFT JOIN products p ON p.id = x.product_id
+  LOOP
+    IF v_line.quantity IS NULL OR v_line.quantity <= 0 THEN
+      v_errors := v_errors || jsonb_build_object(
+        'product_id', v_line.product_id,
+        'product_name', v_line.name,
+        'code', 'INVALID_QUANTITY',
+        'requested_qty', v_line.quantity
+      );
+    ELSIF v_line.found_id IS NULL THEN
+      v_errors := v_errors || jsonb_build_object(
+        'product_id', v_line.product_id,
+        'code', 'PRODUCT_NOT_FOUND',
+        'requested_qty', v_line.quantity
+      );
+    ELSIF NOT v_line.active THEN
+      v_errors := v_errors || jsonb_build_object(
+        'product_id', v_line.product_id,
+        'product_name', v_line.name,
+        'code', 'PRODUCT_INACTIVE',
+        'requested_qty', v_line.quantity
+      );
+    ELSIF COALESCE(v_line.stock, 0) < v_line.quantity THEN
+      v_errors := v_errors || jsonb_build_object(
+        'product_id', v_line.product_id,
+        'product_name', v_line.name,
+        'code', 'INSUFFICIENT_STOCK',
+        'requested_qty', v_line.quantity,
+        'available_stock', COALESCE(v_line.stock, 0)
+      );
+    ELSIF NOT is_valid_discount(v_line.discount) THEN
+      v_errors := v_errors || jsonb_build_object(
+        'product_id', v_line.product_id,
+        'product_name', v_line.name,
+        'code', 'INVALID_DISCOUNT',
+        'requested_qty', v_line.quantity
+      );
+    END IF;
+  END LOOP;
+
+  IF jsonb_array_length(v_errors) > 0 THEN
+    RETURN jsonb_build_object('order', NULL, 'errors', v_errors);
+  END IF;
+
+  SELECT COALESCE((SELECT prices_include_tax FROM tax_settings LIMIT 1), true)
+  INTO v_prices_include_tax;
+
+  SELECT id INTO v_default_tax_class_id FROM tax_classes WHERE is_default;
+
+  -- Price each line and apply its own discount
+  SELECT jsonb_agg(to_jsonb(priced) ORDER BY priced.product_id)
+  INTO v_lines
+  FROM (
+    SELECT
+      base.*,
+      compute_discount_amount(base.discount, base.gross) AS line_discount
+    FROM (
+      SELECT
+        x.product_id,
+        x.quantity,
+        NULLIF(x.discount, 'null'::jsonb) AS discount,
+        p.price,
+        round(p.price * x.quantity, 2) AS gross,
+        tc.code AS tax_class_code,
+        COALESCE(tc.rate, 0) AS class_rate,
+        (v_exemption IS NOT NULL AND COALESCE(tc.rate, 0) > 0) AS tax_exempt
+      FROM jsonb_to_recordset(v_items) AS x(product_id uuid, quantity integer, discount jsonb)
+      JOIN products p ON p.id = x.product_id
+      LEFT JOIN categories c ON c.id = p.category_id
+      LEFT JOIN tax_classes tc ON tc.id = COALESCE(p.tax_class_id, c.tax_class_id, v_default_tax_class_id)
+    ) base
+  ) priced;
+
+  SELECT SUM(l.gross - l.line_discount), SUM(l.line_discount)
+  INTO v_discount_base, v_line_discount_total
+  FROM jsonb_to_recordset(v_lines) AS l(gross numeric, line_discount numeric);
+
+  v_order_discount_amount := compute_discount_amount(v_order_discount, v_discount_base);
+  v_discount_total := v_line_discount_total + v_order_discount_amount;
+
+  SELECT COALESCE((SELECT approval_threshold_percent FROM discount_settings LIMIT 1), 20)
+  INTO v_threshold;
+
+  -- Same rule as requiresDiscountApproval in utils/discounts.ts
+  SELECT EXISTS (
+    SELECT 1
+    FROM jsonb_to_recordset(v_lines) AS l(gross numeric, line_discount numeric)
+    WHERE l.line_discount > 0 AND l.line_discount > round(l.gross * v_threshold / 100, 2)
+  ) OR (
+    v_order_discount_amount > 0 AND v_order_discount_amount > round(v_discount_base * v_threshold / 100, 2)
+  )
+  INTO v_needs_approval;
+
+  IF v_discount_total > 0 AND is_admin() THEN
+    v_approved_by := v_user_id;
+  ELSIF v_needs_approval THEN
+    SELECT id, approved_by INTO v_used_approval_id, v_approved_by
+    FROM discount_approvals
+    WHERE id = v_approval_id
+    AND requested_by = v_user_id
+    AND order_id IS NULL
+    AND expires_at > now()
+    AND max_discount_amount >= v_discount_total
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+      RETURN jsonb_build_object(
+        'order', NULL,
+        'errors', jsonb_build_array(jsonb_build_object('code', 'DISCOUNT_APPROVAL_REQUIRED'))
+      );
+    END IF;
+  END IF;
+
+  -- Spread the order discount over the lines (the last line takes the rounding
+  -- remainder, as in allocateOrderDiscount), then tax what is left
+  SELECT jsonb_agg(to_jsonb(taxed))
+  INTO v_lines
+  FROM (
+    SELECT
+      shared.*,
+      CASE WHEN shared.tax_exempt THEN 0 ELSE shared.class_rate END AS tax_rate,
+      CASE
+        WHEN shared.tax_exempt AND v_prices_include_tax THEN round(shared.net / (1 + shared.class_rate), 2)
+        WHEN shared.tax_exempt THEN shared.net
+        WHEN v_prices_include_tax THEN shared.net - round(shared.net - shared.net / (1 + shared.class_rate), 2)
+        ELSE shared.net
+      END AS taxable_amount,
+      CASE
+        WHEN shared.tax_exempt THEN 0
+        WHEN v_prices_include_tax THEN round(shared.net - shared.net / (1 + shared.class_rate), 2)
+        ELSE round(shared.net * shared.class_rate, 2)
+      END AS tax_amount
+    FROM (
+      SELECT
+        allocated.*,
+        allocated.gross - allocated.line_discount - allocated.order_discount_share AS net
+      FROM (
+        SELECT
+          l.*,
+          CASE
+            WHEN v_order_discount_amount = 0 OR v_discount_base <= 0 THEN 0
+            WHEN l.position = l.line_count THEN v_order_discount_amount - COALESCE(SUM(
+              round(v_order_discount_amount * (l.gross - l.line_discount) / v_discount_base, 2)
+            ) OVER (ORDER BY l.product_id ROWS BETWEEN UNBOUNDED PRECEDING AND 1 PRECEDING), 0)
+            ELSE round(v_order_discount_amount * (l.gross - l.line_discount) / v_discount_base, 2)
+          END AS order_discount_share
+        FROM (
+          SELECT
+            r.*,
+            row_number() OVER (ORDER BY r.product_id) AS position,
+            count(*) OVER () AS line_count
+          FROM jsonb_to_recordset(v_lines) AS r(
+            product_id uuid, quantity integer, discount jsonb, price numeric, gross numeric,
+            tax_class_code text, class_rate numeric, tax_exempt boolean, line_discount numeric
+          )
+        ) l
+      ) allocated
+    ) shared
+  ) taxed;
+
+  SELECT SUM(l.taxable_amount + l.tax_amount), SUM(l.tax_amount)
+  INTO v_total, v_tax
+  FROM jsonb_to_recordset(v_lines) AS l(taxable_amount numeric, tax_amount numeric);
+
+  -- A fully discounted sale has nothing to pay
+  IF v_payments IS NULL THEN
+    v_payments := CASE
+      WHEN v_total > 0 THEN jsonb_build_array(jsonb_build_object('method', p_payment_method, 'amount', v_total))
+      ELSE '[]'::jsonb
+    END;
+  END IF;
+
+  v_payment_error := check_tenders_cover_total(v_payments, v_total);
+  IF v_payment_error IS NOT NULL THEN
+    RETURN jsonb_build_object('order', NULL, 'errors', jsonb_build_array(v_payment_error));
+  END IF;
+
+  SELECT CASE WHEN count(DISTINCT t->>'method') > 1 THEN 'split' ELSE COALESCE(min(t->>'method'), p_payment_method) END
+  INTO v_payment_method
+  FROM jsonb_array_elements(v_payments) AS t;
+
+  INSERT INTO orders (
+    user_id, total, tax, status, payment_method, idempotency_key, tax_exemption, tax_exemption_id,
+    discount_type, discount_value, discount_reason, discount_amount, discount_total,
+    discount_approved_by, discount_approval_id
+  )
+  VALUES (
+    v_user_id, v_total, v_tax, 'completed', v_payment_method, v_idempotency_key,
+    v_exemption, CASE WHEN v_exemption IS NULL THEN NULL ELSE v_exemption_id END,
+    CASE WHEN v_order_discount_amount > 0 THEN v_order_discount->>'type' END,
+    CASE WHEN v_order_discount_amount > 0 THEN (v_order_discount->>'value')::numeric END,
+    CASE WHEN v_order_discount_amount > 0 THEN v_order_discount->>'reason' END,
+    v_order_discount_amount, v_discount_total,
+    v_approved_by, v_used_approval_id
+  )
+  RETURNING id INTO v_order_id;
+
+  IF v_used_approval_id IS NOT NULL THEN
+    UPDATE discount_approvals SET order_id = v_order_id WHERE id = v_used_approval_id;
+  END IF;
+
+  -- Snapshot prices, discounts and tax for historical accuracy
+  INSERT INTO order_items (
+    order_id, product_id, quantity, price, subtotal,
+    discount_type, discount_value, discount_reason, discount_amount, order_discount_share,
+    tax_class_code, tax_rate, taxable_amount, tax_amount, line_total, tax_exempt
+  )
+  SELECT
+    v_order_id, l.product_id, l.quantity, l.price, l.gross,
+    CASE WHEN l.line_discount > 0 THEN l.discount->>'type' END,
+    CASE WHEN l.line_discount > 0 THEN (l.discount->>'value')::numeric END,
+    CASE WHEN l.line_discount > 0 THEN l.discount->>'reason' END,
+    l.line_discount, l.order_discount_share,
+    l.tax_class_code, l.tax_rate, l.taxable_amount, l.tax_amount, l.taxable_amount + l.tax_amount, l.tax_exempt
+  FROM jsonb_to_recordset(v_lines) AS l(
+    product_id uuid, quantity integer, discount jsonb, price numeric, gross numeric,
+    line_discount numeric, order_discount_share numeric,
+    tax_class_code text, tax_rate numeric, taxable_amount numeric, tax_amount numeric, tax_exempt boolean
+  );
+
+  PERFORM record_order_payments(v_order_id, v_payments, v_total);
+
+  PERFORM decrement_multiple_product_stock(v_items, 'sale', 'order', v_order_id);
+
+  RETURN jsonb_build_object(
+    'order', get_order_json(v_order_id),
+    'errors', '[]'::jsonb
+  );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION checkout_order TO authenticated;
+
+-- Restocked returns are logged against their refund
+CREATE OR REPLACE FUNCTION refund_order(
+  p_order_id uuid,
+  p_items jsonb,  -- Array of objects with order_item_id and quantity
+  p_options jsonb DEFAULT '{}'::jsonb
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_order orders%ROWTYPE;
+  v_item jsonb;
+  v_line order_items%ROWTYPE;
+  v_quantity integer;
+  v_line_total numeric(10, 2);
+  v_amount numeric(10, 2);
+  v_total_amount numeric(10, 2) := 0;
+  v_refund_id uuid;
+  v_restock boolean := COALESCE((p_options->>'restock')::boolean, true);
+  v_method text := NULLIF(p_options->>'method', '');
+  v_reason text := NULLIF(btrim(p_options->>'reason'), '');
+BEGIN
+  IF NOT is_admin() THEN
+    RAISE EXCEPTION 'Only admins can process refunds';
+  END IF;
+
+  SELECT * INTO v_order
+  FROM orders
+  WHERE id = p_order_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Order not found: %', p_order_id;
+  END IF;
+
+  IF v_order.status NOT IN ('completed', 'partially_refunded') THEN
+    RAISE EXCEPTION 'Order is % and cannot be refunded', v_order.status;
+  END IF;
+
+  IF p_items IS NULL OR jsonb_typeof(p_items) <> 'array' OR jsonb_array_length(p_items) = 0 THEN
+    RAISE EXCEPTION 'Select at least one item to return';
+  END IF;
+
+  -- Split orders don't say which tender to give back, so default to cash
+  v_method := COALESCE(v_method, NULLIF(v_order.payment_method, 'split'), 'cash');
+  IF v_method NOT IN ('cash', 'card', 'mobile') THEN
+    RAISE EXCEPTION 'Invalid refund method: %', v_method;
+  END IF;
+
+  INSERT INTO refunds (order_id, processed_by, amount, method, reason, restocked)
+  VALUES (p_order_id, auth.uid(), 0, v_method, v_reason, v_restock)
+  RETURNING id INTO v_refund_id;
+
+  FOR v_item IN SELECT * FROM jsonb_array_elements(p_items)
+  LOOP
+    v_quantity := (v_item->>'quantity')::integer;
+
+    SELECT * INTO v_line
+    FROM order_items
+    WHERE id = (v_item->>'order_item_id')::uuid
+      AND order_id = p_order_id
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Order item not found: %', v_item->>'order_item_id';
+    END IF;
+
+    IF v_quantity IS NULL OR v_quantity <= 0 OR v_quantity > v_line.quantity - v_line.refunded_quantity THEN
+      RAISE EXCEPTION 'Invalid return quantity %: % of % already returned', v_quantity, v_line.refunded_quantity, v_line.quantity;
+    END IF;
+
+    v_line_total := COALESCE(v_line.line_total, v_line.subtotal);
+    IF v_line.refunded_quantity + v_quantity = v_line.quantity THEN
+      v_amount := v_line_total - v_line.refunded_amount;
+    ELSE
+      v_amount := round(v_line_total * v_quantity / v_line.quantity, 2);
+    END IF;
+
+    INSERT INTO refund_items (refund_id, order_item_id, product_id, quantity, amount)
+    VALUES (v_refund_id, v_line.id, v_line.product_id, v_quantity, v_amount);
+
+    UPDATE order_items
+    SET refunded_quantity = refunded_quantity + v_quantity,
+        refunded_amount = refunded_amount + v_amount
+    WHERE id = v_line.id;
+
+    IF v_restock THEN
+      PERFORM increment_product_stock(v_line.product_id, v_quantity, 'return', 'refund', v_refund_id);
+    END IF;
+
+    v_total_amount := v_total_amount + v_amount;
+  END LOOP;
+
+  UPDATE refunds SET amount = v_total_amount WHERE id = v_refund_id;
+
+  UPDATE orders
+  SET status = CASE
+    WHEN EXISTS (
+      SELECT 1 FROM order_items
+      WHERE order_id = p_order_id AND refunded_quantity < quantity
+    ) THEN 'partially_refunded'
+    ELSE 'refunded'
+  END
+  WHERE id = p_order_id;
+
+  RETURN jsonb_build_object(
+    'refund_id', v_refund_id,
+    'amount', v_total_amount,
+    'order', get_order_json(p_order_id)
+  );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION refund_order TO authenticated;
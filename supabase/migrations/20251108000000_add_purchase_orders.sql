@@ -0,0 +1,409 @@
+-- Suppliers, purchase orders and receiving
+--
+-- 1. New Tables
+--    - suppliers: who stock is bought from
+--    - purchase_orders: an order to a supplier, numbered PO-000001 and up;
+--      status is draft, sent, partially_received, received or cancelled
+--    - purchase_order_items: products, quantities and the expected unit cost
+--    - purchase_receipts / purchase_receipt_items: each delivery received
+--      against a purchase order, with the actual unit cost
+--    - product_costs: the current cost price of each product
+--
+-- 2. Functions
+--    - save_purchase_order(id, supplier_id, items, options): creates a draft
+--      or replaces the lines of an existing draft in one transaction
+--    - receive_purchase_order(id, items, notes): posts received quantities
+--      into stock through increment_product_stock and updates the cost price
+--
+-- 3. Security
+--    - Admin only throughout; cost prices are kept out of products so staff
+--      can't read them
+--
+-- 4. Important Notes
+--    - The cost price is the moving weighted average of the stock on hand and
+--      what was received (mirrors utils/purchasing.ts)
+--    - Stock log entries are 'receiving' and reference the purchase order
+--    - Receiving more than is outstanding on a line is rejected
+
+CREATE TABLE IF NOT EXISTS suppliers (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  name text NOT NULL,
+  contact_name text,
+  phone text,
+  email text,
+  address text,
+  notes text,
+  active boolean NOT NULL DEFAULT true,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS purchase_orders (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  po_number bigint GENERATED ALWAYS AS IDENTITY UNIQUE,
+  supplier_id uuid NOT NULL REFERENCES suppliers(id),
+  status text NOT NULL DEFAULT 'draft'
+    CHECK (status IN ('draft', 'sent', 'partially_received', 'received', 'cancelled')),
+  expected_date date,
+  notes text,
+  created_by uuid NOT NULL REFERENCES profiles(id) DEFAULT auth.uid(),
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  sent_at timestamptz,
+  received_at timestamptz
+);
+
+CREATE TABLE IF NOT EXISTS purchase_order_items (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  purchase_order_id uuid NOT NULL REFERENCES purchase_orders(id) ON DELETE CASCADE,
+  product_id uuid NOT NULL REFERENCES products(id),
+  quantity_ordered integer NOT NULL CHECK (quantity_ordered > 0),
+  quantity_received integer NOT NULL DEFAULT 0 CHECK (quantity_received >= 0),
+  unit_cost numeric(10, 2) NOT NULL DEFAULT 0 CHECK (unit_cost >= 0),
+  created_at timestamptz DEFAULT now(),
+  UNIQUE (purchase_order_id, product_id)
+);
+
+CREATE TABLE IF NOT EXISTS purchase_receipts (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  purchase_order_id uuid NOT NULL REFERENCES purchase_orders(id) ON DELETE CASCADE,
+  received_by uuid NOT NULL REFERENCES profiles(id) DEFAULT auth.uid(),
+  notes text,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS purchase_receipt_items (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  receipt_id uuid NOT NULL REFERENCES purchase_receipts(id) ON DELETE CASCADE,
+  purchase_order_item_id uuid NOT NULL REFERENCES purchase_order_items(id) ON DELETE CASCADE,
+  product_id uuid NOT NULL REFERENCES products(id),
+  quantity integer NOT NULL CHECK (quantity > 0),
+  unit_cost numeric(10, 2) NOT NULL CHECK (unit_cost >= 0),
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS product_costs (
+  product_id uuid PRIMARY KEY REFERENCES products(id) ON DELETE CASCADE,
+  cost_price numeric(10, 2) NOT NULL CHECK (cost_price >= 0),
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS purchase_orders_supplier_id_idx ON purchase_orders(supplier_id);
+CREATE INDEX IF NOT EXISTS purchase_orders_status_idx ON purchase_orders(status);
+CREATE INDEX IF NOT EXISTS purchase_order_items_purchase_order_id_idx ON purchase_order_items(purchase_order_id);
+CREATE INDEX IF NOT EXISTS purchase_receipts_purchase_order_id_idx ON purchase_receipts(purchase_order_id);
+CREATE INDEX IF NOT EXISTS purchase_receipt_items_receipt_id_idx ON purchase_receipt_items(receipt_id);
+
+ALTER TABLE suppliers ENABLE ROW LEVEL SECURITY;
+ALTER TABLE purchase_orders ENABLE ROW LEVEL SECURITY;
+ALTER TABLE purchase_order_items ENABLE ROW LEVEL SECURITY;
+ALTER TABLE purchase_receipts ENABLE ROW LEVEL SECURITY;
+ALTER TABLE purchase_receipt_items ENABLE ROW LEVEL SECURITY;
+ALTER TABLE product_costs ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view suppliers"
+  ON suppliers FOR SELECT
+  TO authenticated
+  USING (is_admin());
+
+CREATE POLICY "Admins can insert suppliers"
+  ON suppliers FOR INSERT
+  TO authenticated
+  WITH CHECK (is_admin());
+
+CREATE POLICY "Admins can update suppliers"
+  ON suppliers FOR UPDATE
+  TO authenticated
+  USING (is_admin())
+  WITH CHECK (is_admin());
+
+CREATE POLICY "Admins can view purchase orders"
+  ON purchase_orders FOR SELECT
+  TO authenticated
+  USING (is_admin());
+
+-- Drafts are created through save_purchase_order; admins move them along
+CREATE POLICY "Admins can update purchase orders"
+  ON purchase_orders FOR UPDATE
+  TO authenticated
+  USING (is_admin())
+  WITH CHECK (is_admin());
+
+CREATE POLICY "Admins can delete draft purchase orders"
+  ON purchase_orders FOR DELETE
+  TO authenticated
+  USING (is_admin() AND status = 'draft');
+
+CREATE POLICY "Admins can view purchase order items"
+  ON purchase_order_items FOR SELECT
+  TO authenticated
+  USING (is_admin());
+
+CREATE POLICY "Admins can view purchase receipts"
+  ON purchase_receipts FOR SELECT
+  TO authenticated
+  USING (is_admin());
+
+CREATE POLICY "Admins can view purchase receipt items"
+  ON purchase_receipt_items FOR SELECT
+  TO authenticated
+  USING (is_admin());
+
+CREATE POLICY "Admins can view product costs"
+  ON product_costs FOR SELECT
+  TO authenticated
+  USING (is_admin());
+
+CREATE POLICY "Admins can insert product costs"
+  ON product_costs FOR INSERT
+  TO authenticated
+  WITH CHECK (is_admin());
+
+CREATE POLICY "Admins can update product costs"
+  ON product_costs FOR UPDATE
+  TO authenticated
+  USING (is_admin())
+  WITH CHECK (is_admin());
+
+-- Receiving has to go through receive_purchase_order so stock moves with it
+CREATE OR REPLACE FUNCTION prevent_purchase_order_status_updates()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF pg_has_role(current_user, 'postgres', 'MEMBER') OR OLD.status IS NOT DISTINCT FROM NEW.status THEN
+    NEW.updated_at := now();
+    RETURN NEW;
+  END IF;
+
+  IF NOT (
+    (OLD.status = 'draft' AND NEW.status IN ('sent', 'cancelled')) OR
+    (OLD.status = 'sent' AND NEW.status IN ('draft', 'cancelled'))
+  ) THEN
+    RAISE EXCEPTION 'Cannot change purchase order from % to %', OLD.status, NEW.status;
+  END IF;
+
+  IF NEW.status = 'sent' THEN
+    NEW.sent_at := COALESCE(NEW.sent_at, now());
+  END IF;
+
+  NEW.updated_at := now();
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS prevent_purchase_order_status_updates_trigger ON purchase_orders;
+CREATE TRIGGER prevent_purchase_order_status_updates_trigger
+  BEFORE UPDATE ON purchase_orders
+  FOR EACH ROW
+  EXECUTE FUNCTION prevent_purchase_order_status_updates();
+
+CREATE OR REPLACE FUNCTION get_purchase_order_json(p_purchase_order_id uuid)
+RETURNS jsonb
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT to_jsonb(po) || jsonb_build_object(
+    'suppliers', (SELECT to_jsonb(s) FROM suppliers s WHERE s.id = po.supplier_id),
+    'purchase_order_items', COALESCE((
+      SELECT jsonb_agg(
+        to_jsonb(poi) || jsonb_build_object(
+          'products', (SELECT jsonb_build_object('id', p.id, 'name', p.name, 'sku', p.sku, 'stock', p.stock) FROM products p WHERE p.id = poi.product_id)
+        )
+        ORDER BY poi.created_at, poi.id
+      )
+      FROM purchase_order_items poi
+      WHERE poi.purchase_order_id = po.id
+    ), '[]'::jsonb)
+  )
+  FROM purchase_orders po
+  WHERE po.id = p_purchase_order_id;
+$$;
+
+CREATE OR REPLACE FUNCTION save_purchase_order(
+  p_purchase_order_id uuid,  -- NULL creates a new draft
+  p_supplier_id uuid,
+  p_items jsonb,  -- Array of objects with product_id, quantity and unit_cost
+  p_options jsonb DEFAULT '{}'::jsonb
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_purchase_order_id uuid := p_purchase_order_id;
+  v_status text;
+  v_expected_date date := NULLIF(p_options->>'expected_date', '')::date;
+  v_notes text := NULLIF(btrim(p_options->>'notes'), '');
+BEGIN
+  IF NOT is_admin() THEN
+    RAISE EXCEPTION 'Only admins can manage purchase orders';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM suppliers WHERE id = p_supplier_id) THEN
+    RAISE EXCEPTION 'Supplier not found: %', p_supplier_id;
+  END IF;
+
+  IF p_items IS NULL OR jsonb_typeof(p_items) <> 'array' OR jsonb_array_length(p_items) = 0 THEN
+    RAISE EXCEPTION 'Add at least one product to the purchase order';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM jsonb_to_recordset(p_items) AS i(product_id uuid, quantity integer, unit_cost numeric)
+    WHERE i.product_id IS NULL OR i.quantity IS NULL OR i.quantity <= 0 OR COALESCE(i.unit_cost, 0) < 0
+  ) THEN
+    RAISE EXCEPTION 'Every line needs a product, a quantity above zero and a cost of zero or more';
+  END IF;
+
+  IF v_purchase_order_id IS NULL THEN
+    INSERT INTO purchase_orders (supplier_id, expected_date, notes)
+    VALUES (p_supplier_id, v_expected_date, v_notes)
+    RETURNING id INTO v_purchase_order_id;
+  ELSE
+    SELECT status INTO v_status
+    FROM purchase_orders
+    WHERE id = v_purchase_order_id
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Purchase order not found: %', v_purchase_order_id;
+    END IF;
+
+    IF v_status <> 'draft' THEN
+      RAISE EXCEPTION 'Only draft purchase orders can be edited';
+    END IF;
+
+    UPDATE purchase_orders
+    SET supplier_id = p_supplier_id,
+        expected_date = v_expected_date,
+        notes = v_notes
+    WHERE id = v_purchase_order_id;
+
+    DELETE FROM purchase_order_items WHERE purchase_order_id = v_purchase_order_id;
+  END IF;
+
+  -- Repeated products are merged into one line
+  INSERT INTO purchase_order_items (purchase_order_id, product_id, quantity_ordered, unit_cost)
+  SELECT v_purchase_order_id, i.product_id, sum(i.quantity), max(COALESCE(i.unit_cost, 0))
+  FROM jsonb_to_recordset(p_items) AS i(product_id uuid, quantity integer, unit_cost numeric)
+  GROUP BY i.product_id;
+
+  RETURN get_purchase_order_json(v_purchase_order_id);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION receive_purchase_order(
+  p_purchase_order_id uuid,
+  p_items jsonb,  -- Array of objects with purchase_order_item_id, quantity and optional unit_cost
+  p_notes text DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_order purchase_orders%ROWTYPE;
+  v_item jsonb;
+  v_line purchase_order_items%ROWTYPE;
+  v_quantity integer;
+  v_unit_cost numeric(10, 2);
+  v_stock integer;
+  v_cost numeric(10, 2);
+  v_receipt_id uuid;
+  v_note text := NULLIF(btrim(p_notes), '');
+BEGIN
+  IF NOT is_admin() THEN
+    RAISE EXCEPTION 'Only admins can receive purchase orders';
+  END IF;
+
+  SELECT * INTO v_order
+  FROM purchase_orders
+  WHERE id = p_purchase_order_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Purchase order not found: %', p_purchase_order_id;
+  END IF;
+
+  IF v_order.status NOT IN ('sent', 'partially_received') THEN
+    RAISE EXCEPTION 'Purchase order is % and cannot be received', v_order.status;
+  END IF;
+
+  IF p_items IS NULL OR jsonb_typeof(p_items) <> 'array' OR jsonb_array_length(p_items) = 0 THEN
+    RAISE EXCEPTION 'Enter at least one received quantity';
+  END IF;
+
+  INSERT INTO purchase_receipts (purchase_order_id, notes)
+  VALUES (p_purchase_order_id, v_note)
+  RETURNING id INTO v_receipt_id;
+
+  FOR v_item IN SELECT * FROM jsonb_array_elements(p_items)
+  LOOP
+    v_quantity := (v_item->>'quantity')::integer;
+
+    SELECT * INTO v_line
+    FROM purchase_order_items
+    WHERE id = (v_item->>'purchase_order_item_id')::uuid
+      AND purchase_order_id = p_purchase_order_id
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Purchase order item not found: %', v_item->>'purchase_order_item_id';
+    END IF;
+
+    IF v_quantity IS NULL OR v_quantity <= 0 OR v_quantity > v_line.quantity_ordered - v_line.quantity_received THEN
+      RAISE EXCEPTION 'Invalid received quantity %: % of % already received', v_quantity, v_line.quantity_received, v_line.quantity_ordered;
+    END IF;
+
+    v_unit_cost := COALESCE(NULLIF(v_item->>'unit_cost', '')::numeric, v_line.unit_cost);
+    IF v_unit_cost < 0 THEN
+      RAISE EXCEPTION 'Invalid unit cost: %', v_unit_cost;
+    END IF;
+
+    -- Weighted average of the stock on hand and this delivery
+    SELECT p.stock, pc.cost_price INTO v_stock, v_cost
+    FROM products p
+    LEFT JOIN product_costs pc ON pc.product_id = p.id
+    WHERE p.id = v_line.product_id
+    FOR UPDATE OF p;
+
+    IF v_cost IS NULL OR COALESCE(v_stock, 0) <= 0 THEN
+      v_cost := v_unit_cost;
+    ELSE
+      v_cost := round((v_stock * v_cost + v_quantity * v_unit_cost) / (v_stock + v_quantity), 2);
+    END IF;
+
+    INSERT INTO product_costs (product_id, cost_price, updated_at)
+    VALUES (v_line.product_id, v_cost, now())
+    ON CONFLICT (product_id) DO UPDATE
+    SET cost_price = EXCLUDED.cost_price,
+        updated_at = EXCLUDED.updated_at;
+
+    PERFORM increment_product_stock(v_line.product_id, v_quantity, 'receiving', 'purchase_order', p_purchase_order_id, v_note);
+
+    INSERT INTO purchase_receipt_items (receipt_id, purchase_order_item_id, product_id, quantity, unit_cost)
+    VALUES (v_receipt_id, v_line.id, v_line.product_id, v_quantity, v_unit_cost);
+
+    UPDATE purchase_order_items
+    SET quantity_received = quantity_received + v_quantity
+    WHERE id = v_line.id;
+  END LOOP;
+
+  UPDATE purchase_orders
+  SET status = CASE
+        WHEN EXISTS (
+          SELECT 1 FROM purchase_order_items
+          WHERE purchase_order_id = p_purchase_order_id AND quantity_received < quantity_ordered
+        ) THEN 'partially_received'
+        ELSE 'received'
+      END,
+      received_at = now()
+  WHERE id = p_purchase_order_id;
+
+  RETURN get_purchase_order_json(p_purchase_order_id);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION get_purchase_order_json TO authenticated;
+GRANT EXECUTE ON FUNCTION save_purchase_order TO authenticated;
+GRANT EXECUTE ON FUNCTION receive_purchase_order TO authenticated;
@@ -0,0 +1,340 @@
+-- Stocktakes (physical stock counts)
+--
+-- 1. New Tables
+--    - stocktakes: a count session, optionally limited to one category;
+--      status is counting, review, approved or cancelled
+--    - stocktake_items: the counted quantity of each product, with the
+--      system stock at the time it was counted
+--
+-- 2. Functions
+--    - start_stocktake(category_id, notes): admin only; one session at a time
+--    - get_stocktake_counts(id): the products to count and what has been
+--      counted so far, without system quantities (blind count)
+--    - record_stocktake_count(id, product_id, quantity, mode): 'add' for each
+--      scan, 'set' for a typed quantity
+--    - set_stocktake_status(id, status): counting <-> review, or cancelled
+--    - get_stocktake_report(id): system vs counted quantities and the value
+--      of the variance at cost and at retail
+--    - approve_stocktake(id): posts the variances as 'count_correction' stock
+--      movements referencing the stocktake
+--
+-- 3. Important Notes
+--    - Sales during the count: each item keeps the system stock from when it
+--      was counted (expected_quantity). On approval the difference between
+--      counted and expected is applied to the current stock, so anything sold
+--      after the product was counted stays deducted
+--    - Typing a quantity re-takes the snapshot; scans after the first keep it
+--    - Products that were not counted are left unchanged
+--    - Decreases never take stock below zero
+
+CREATE TABLE IF NOT EXISTS stocktakes (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  status text NOT NULL DEFAULT 'counting'
+    CHECK (status IN ('counting', 'review', 'approved', 'cancelled')),
+  category_id uuid REFERENCES categories(id) ON DELETE SET NULL,
+  notes text,
+  created_by uuid NOT NULL REFERENCES profiles(id) DEFAULT auth.uid(),
+  created_at timestamptz DEFAULT now(),
+  closed_at timestamptz,
+  approved_by uuid REFERENCES profiles(id),
+  approved_at timestamptz
+);
+
+-- Counts from two sessions at once would fight over the same shelves
+CREATE UNIQUE INDEX IF NOT EXISTS idx_stocktakes_one_active
+  ON stocktakes ((true)) WHERE status IN ('counting', 'review');
+
+CREATE TABLE IF NOT EXISTS stocktake_items (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  stocktake_id uuid NOT NULL REFERENCES stocktakes(id) ON DELETE CASCADE,
+  product_id uuid NOT NULL REFERENCES products(id) ON DELETE CASCADE,
+  expected_quantity integer NOT NULL,
+  counted_quantity integer NOT NULL CHECK (counted_quantity >= 0),
+  counted_by uuid REFERENCES profiles(id) DEFAULT auth.uid(),
+  counted_at timestamptz DEFAULT now(),
+  UNIQUE (stocktake_id, product_id)
+);
+
+CREATE INDEX IF NOT EXISTS stocktake_items_stocktake_id_idx ON stocktake_items(stocktake_id);
+
+ALTER TABLE stocktakes ENABLE ROW LEVEL SECURITY;
+ALTER TABLE stocktake_items ENABLE ROW LEVEL SECURITY;
+
+-- Staff need to find the session they are counting for
+CREATE POLICY "Authenticated users can view stocktakes"
+  ON stocktakes FOR SELECT
+  TO authenticated
+  USING (true);
+
+-- Expected quantities are hidden from staff; they count through the RPCs
+CREATE POLICY "Admins can view stocktake items"
+  ON stocktake_items FOR SELECT
+  TO authenticated
+  USING (is_admin());
+
+CREATE OR REPLACE FUNCTION start_stocktake(p_category_id uuid DEFAULT NULL, p_notes text DEFAULT NULL)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_stocktake_id uuid;
+BEGIN
+  IF NOT is_admin() THEN
+    RAISE EXCEPTION 'Only admins can start a stocktake';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM stocktakes WHERE status IN ('counting', 'review')) THEN
+    RAISE EXCEPTION 'A stocktake is already in progress';
+  END IF;
+
+  INSERT INTO stocktakes (category_id, notes)
+  VALUES (p_category_id, NULLIF(btrim(p_notes), ''))
+  RETURNING id INTO v_stocktake_id;
+
+  RETURN v_stocktake_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION get_stocktake_counts(p_stocktake_id uuid)
+RETURNS TABLE (
+  product_id uuid,
+  name text,
+  sku text,
+  barcode text,
+  counted_quantity integer
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+AS $$
+  SELECT p.id, p.name, p.sku, p.barcode, si.counted_quantity
+  FROM stocktakes s
+  JOIN products p ON p.active AND (s.category_id IS NULL OR p.category_id = s.category_id)
+  LEFT JOIN stocktake_items si ON si.stocktake_id = s.id AND si.product_id = p.id
+  WHERE s.id = p_stocktake_id
+  ORDER BY p.name;
+$$;
+
+CREATE OR REPLACE FUNCTION record_stocktake_count(
+  p_stocktake_id uuid,
+  p_product_id uuid,
+  p_quantity integer,
+  p_mode text DEFAULT 'set'  -- 'set' replaces the count, 'add' adds to it (scanning)
+)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_stocktake stocktakes%ROWTYPE;
+  v_product products%ROWTYPE;
+  v_counted integer;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT * INTO v_stocktake FROM stocktakes WHERE id = p_stocktake_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Stocktake not found: %', p_stocktake_id;
+  END IF;
+
+  IF v_stocktake.status <> 'counting' THEN
+    RAISE EXCEPTION 'Counting has been closed for this stocktake';
+  END IF;
+
+  IF p_mode NOT IN ('set', 'add') THEN
+    RAISE EXCEPTION 'Invalid count mode: %', p_mode;
+  END IF;
+
+  IF p_quantity IS NULL OR p_quantity < 0 OR (p_mode = 'add' AND p_quantity = 0) THEN
+    RAISE EXCEPTION 'Invalid count quantity: %', p_quantity;
+  END IF;
+
+  SELECT * INTO v_product FROM products WHERE id = p_product_id;
+
+  IF NOT FOUND OR NOT v_product.active THEN
+    RAISE EXCEPTION 'Product not found: %', p_product_id;
+  END IF;
+
+  IF v_stocktake.category_id IS NOT NULL AND v_product.category_id IS DISTINCT FROM v_stocktake.category_id THEN
+    RAISE EXCEPTION '% is not part of this stocktake', v_product.name;
+  END IF;
+
+  INSERT INTO stocktake_items (stocktake_id, product_id, expected_quantity, counted_quantity)
+  VALUES (p_stocktake_id, p_product_id, v_product.stock, p_quantity)
+  ON CONFLICT (stocktake_id, product_id) DO UPDATE
+  SET counted_quantity = CASE
+        WHEN p_mode = 'add' THEN stocktake_items.counted_quantity + EXCLUDED.counted_quantity
+        ELSE EXCLUDED.counted_quantity
+      END,
+      expected_quantity = CASE
+        WHEN p_mode = 'add' THEN stocktake_items.expected_quantity
+        ELSE EXCLUDED.expected_quantity
+      END,
+      counted_by = auth.uid(),
+      counted_at = now()
+  RETURNING counted_quantity INTO v_counted;
+
+  RETURN v_counted;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION set_stocktake_status(p_stocktake_id uuid, p_status text)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_status text;
+BEGIN
+  IF NOT is_admin() THEN
+    RAISE EXCEPTION 'Only admins can close or reopen a stocktake';
+  END IF;
+
+  SELECT status INTO v_status FROM stocktakes WHERE id = p_stocktake_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Stocktake not found: %', p_stocktake_id;
+  END IF;
+
+  IF NOT (
+    (v_status = 'counting' AND p_status IN ('review', 'cancelled')) OR
+    (v_status = 'review' AND p_status IN ('counting', 'cancelled'))
+  ) THEN
+    RAISE EXCEPTION 'Cannot change stocktake from % to %', v_status, p_status;
+  END IF;
+
+  UPDATE stocktakes
+  SET status = p_status,
+      closed_at = CASE WHEN p_status = 'counting' THEN NULL ELSE now() END
+  WHERE id = p_stocktake_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION get_stocktake_report(p_stocktake_id uuid)
+RETURNS jsonb
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_stocktake stocktakes%ROWTYPE;
+  v_items jsonb;
+  v_uncounted jsonb;
+BEGIN
+  IF NOT is_admin() THEN
+    RAISE EXCEPTION 'Only admins can view stocktake results';
+  END IF;
+
+  SELECT * INTO v_stocktake FROM stocktakes WHERE id = p_stocktake_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Stocktake not found: %', p_stocktake_id;
+  END IF;
+
+  SELECT COALESCE(jsonb_agg(jsonb_build_object(
+    'product_id', p.id,
+    'name', p.name,
+    'sku', p.sku,
+    'expected_quantity', si.expected_quantity,
+    'counted_quantity', si.counted_quantity,
+    'current_stock', p.stock,
+    'unit_cost', pc.cost_price,
+    'unit_price', p.price
+  ) ORDER BY p.name), '[]'::jsonb)
+  INTO v_items
+  FROM stocktake_items si
+  JOIN products p ON p.id = si.product_id
+  LEFT JOIN product_costs pc ON pc.product_id = p.id
+  WHERE si.stocktake_id = p_stocktake_id;
+
+  SELECT COALESCE(jsonb_agg(jsonb_build_object(
+    'product_id', p.id,
+    'name', p.name,
+    'sku', p.sku,
+    'current_stock', p.stock
+  ) ORDER BY p.name), '[]'::jsonb)
+  INTO v_uncounted
+  FROM products p
+  WHERE p.active
+    AND (v_stocktake.category_id IS NULL OR p.category_id = v_stocktake.category_id)
+    AND NOT EXISTS (
+      SELECT 1 FROM stocktake_items si
+      WHERE si.stocktake_id = p_stocktake_id AND si.product_id = p.id
+    );
+
+  RETURN jsonb_build_object(
+    'stocktake', to_jsonb(v_stocktake),
+    'items', v_items,
+    'uncounted', v_uncounted
+  );
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION approve_stocktake(p_stocktake_id uuid)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_stocktake stocktakes%ROWTYPE;
+  v_item record;
+  v_change integer;
+  v_note text;
+BEGIN
+  IF NOT is_admin() THEN
+    RAISE EXCEPTION 'Only admins can approve a stocktake';
+  END IF;
+
+  SELECT * INTO v_stocktake FROM stocktakes WHERE id = p_stocktake_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Stocktake not found: %', p_stocktake_id;
+  END IF;
+
+  IF v_stocktake.status <> 'review' THEN
+    RAISE EXCEPTION 'Close counting before approving the stocktake';
+  END IF;
+
+  v_note := 'Stocktake ' || to_char(v_stocktake.created_at, 'YYYY-MM-DD');
+
+  FOR v_item IN
+    SELECT si.product_id, si.expected_quantity, si.counted_quantity, p.stock
+    FROM stocktake_items si
+    JOIN products p ON p.id = si.product_id
+    WHERE si.stocktake_id = p_stocktake_id
+      AND si.counted_quantity <> si.expected_quantity
+    ORDER BY si.product_id
+    FOR UPDATE OF p
+  LOOP
+    v_change := v_item.counted_quantity - v_item.expected_quantity;
+
+    IF v_change > 0 THEN
+      PERFORM increment_product_stock(v_item.product_id, v_change, 'count_correction', 'stocktake', p_stocktake_id, v_note);
+    ELSE
+      v_change := LEAST(-v_change, v_item.stock);
+      IF v_change > 0 THEN
+        PERFORM decrement_product_stock(v_item.product_id, v_change, 'count_correction', 'stocktake', p_stocktake_id, v_note);
+      END IF;
+    END IF;
+  END LOOP;
+
+  UPDATE stocktakes
+  SET status = 'approved',
+      approved_by = auth.uid(),
+      approved_at = now()
+  WHERE id = p_stocktake_id;
+
+  RETURN get_stocktake_report(p_stocktake_id);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION start_stocktake TO authenticated;
+GRANT EXECUTE ON FUNCTION get_stocktake_counts TO authenticated;
+GRANT EXECUTE ON FUNCTION record_stocktake_count TO authenticated;
+GRANT EXECUTE ON FUNCTION set_stocktake_status TO authenticated;
+GRANT EXECUTE ON FUNCTION get_stocktake_report TO authenticated;
+GRANT EXECUTE ON FUNCTION approve_stocktake TO authenticated;
@@ -0,0 +1,99 @@
+-- Reorder points and reorder suggestions
+--
+-- 1. Modified Tables
+--    - products.reorder_point: the product counts as low on stock at or
+--      below this quantity (default 5, the threshold the POS grid used)
+--    - products.reorder_quantity: how many to order when it runs low;
+--      optional, suggestions fall back to days of cover without it
+--
+-- 2. Functions
+--    - get_reorder_report(days): per product, units sold over the last
+--      `days` days (less returns) and the quantity still on order from
+--      suppliers, for products that are low or have sold recently
+--
+-- 3. Important Notes
+--    - Admin only; the report includes cost prices
+--    - Sales velocity, days of cover and the suggested quantity are worked
+--      out on the device (utils/reorder.ts) so the cover period can be
+--      changed without another round trip
+--    - On order = ordered but not yet received on sent or partially
+--      received purchase orders; drafts are not counted
+
+ALTER TABLE products
+  ADD COLUMN IF NOT EXISTS reorder_point integer NOT NULL DEFAULT 5 CHECK (reorder_point >= 0),
+  ADD COLUMN IF NOT EXISTS reorder_quantity integer CHECK (reorder_quantity > 0);
+
+CREATE OR REPLACE FUNCTION get_reorder_report(p_days integer DEFAULT 30)
+RETURNS TABLE (
+  product_id uuid,
+  name text,
+  sku text,
+  category_name text,
+  stock integer,
+  reorder_point integer,
+  reorder_quantity integer,
+  units_sold integer,
+  on_order integer,
+  cost_price numeric
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY INVOKER
+AS $$
+BEGIN
+  IF NOT is_admin() THEN
+    RAISE EXCEPTION 'Only admins can view reorder suggestions';
+  END IF;
+
+  IF p_days IS NULL OR p_days <= 0 THEN
+    RAISE EXCEPTION 'Invalid sales period: %', p_days;
+  END IF;
+
+  RETURN QUERY
+  WITH sold AS (
+    SELECT
+      oi.product_id,
+      SUM(oi.quantity - COALESCE(ri.returned, 0))::integer AS units
+    FROM order_items oi
+    JOIN orders o ON o.id = oi.order_id
+    LEFT JOIN (
+      SELECT order_item_id, SUM(quantity) AS returned
+      FROM refund_items
+      GROUP BY order_item_id
+    ) ri ON ri.order_item_id = oi.id
+    WHERE o.status <> 'cancelled'
+      AND o.created_at >= now() - make_interval(days => p_days)
+    GROUP BY oi.product_id
+  ),
+  ordered AS (
+    SELECT
+      poi.product_id,
+      SUM(GREATEST(poi.quantity_ordered - poi.quantity_received, 0))::integer AS units
+    FROM purchase_order_items poi
+    JOIN purchase_orders po ON po.id = poi.purchase_order_id
+    WHERE po.status IN ('sent', 'partially_received')
+    GROUP BY poi.product_id
+  )
+  SELECT
+    p.id,
+    p.name,
+    p.sku,
+    c.name,
+    p.stock,
+    p.reorder_point,
+    p.reorder_quantity,
+    COALESCE(s.units, 0),
+    COALESCE(od.units, 0),
+    pc.cost_price
+  FROM products p
+  LEFT JOIN categories c ON c.id = p.category_id
+  LEFT JOIN sold s ON s.product_id = p.id
+  LEFT JOIN ordered od ON od.product_id = p.id
+  LEFT JOIN product_costs pc ON pc.product_id = p.id
+  WHERE p.active
+    AND (p.stock <= p.reorder_point OR COALESCE(s.units, 0) > 0)
+  ORDER BY p.name;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION get_reorder_report TO authenticated;
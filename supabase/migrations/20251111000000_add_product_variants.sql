@@ -0,0 +1,381 @@
+-- Product variants
+--
+-- 1. Modified Tables
+--    - products.parent_id: set on a variant, pointing at the product it is
+--      a variant of (e.g. "Medium" of "Coffee")
+--    - products.variant_name: the variant's own label ("Medium", "L / Red")
+--
+-- 2. Functions
+--    - product_has_variants(product_id)
+--    - sync_variant_fields (trigger): a variant's name is "<parent> (<variant>)"
+--      and it takes the parent's category and tax class; renaming or
+--      recategorising the parent updates its variants
+--    - decrement_product_stock / decrement_multiple_product_stock: refuse a
+--      product that has variants, since its stock is held by the variants
+--    - get_stocktake_counts / get_stocktake_report / get_reorder_report:
+--      count and reorder the variants, not the parent
+--
+-- 3. Important Notes
+--    - Each variant is a products row with its own price, stock, SKU and
+--      barcode, so cart lines, order items, stock logs, purchase orders and
+--      stocktakes reference the variant sold, received or counted
+--    - Only one level: a variant cannot have variants, and a product with
+--      variants cannot become a variant
+--    - A product must have no stock of its own when its first variant is
+--      added; adjust it to zero (or onto the variants) first
+
+ALTER TABLE products
+  ADD COLUMN IF NOT EXISTS parent_id uuid REFERENCES products(id) ON DELETE CASCADE,
+  ADD COLUMN IF NOT EXISTS variant_name text;
+
+ALTER TABLE products
+  ADD CONSTRAINT products_variant_name_check
+    CHECK ((parent_id IS NULL) = (variant_name IS NULL)),
+  ADD CONSTRAINT products_parent_not_self_check
+    CHECK (parent_id <> id);
+
+CREATE INDEX IF NOT EXISTS idx_products_parent_id ON products(parent_id) WHERE parent_id IS NOT NULL;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_products_variant_name
+  ON products (parent_id, lower(variant_name)) WHERE parent_id IS NOT NULL;
+
+CREATE OR REPLACE FUNCTION product_has_variants(p_product_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT EXISTS (SELECT 1 FROM products WHERE parent_id = p_product_id);
+$$;
+
+GRANT EXECUTE ON FUNCTION product_has_variants TO authenticated;
+
+CREATE OR REPLACE FUNCTION sync_variant_fields()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_parent products%ROWTYPE;
+BEGIN
+  IF NEW.parent_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT * INTO v_parent FROM products WHERE id = NEW.parent_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Product not found: %', NEW.parent_id;
+  END IF;
+
+  IF v_parent.parent_id IS NOT NULL THEN
+    RAISE EXCEPTION 'A variant cannot have variants of its own';
+  END IF;
+
+  IF TG_OP = 'UPDATE' AND OLD.parent_id IS DISTINCT FROM NEW.parent_id AND product_has_variants(NEW.id) THEN
+    RAISE EXCEPTION 'A product with variants cannot become a variant';
+  END IF;
+
+  IF (TG_OP = 'INSERT' OR OLD.parent_id IS DISTINCT FROM NEW.parent_id)
+    AND v_parent.stock <> 0 AND NOT product_has_variants(v_parent.id) THEN
+    RAISE EXCEPTION '% still has % in stock; adjust it to zero before adding variants', v_parent.name, v_parent.stock;
+  END IF;
+
+  NEW.variant_name := btrim(NEW.variant_name);
+  IF NEW.variant_name = '' THEN
+    RAISE EXCEPTION 'Variant name is required';
+  END IF;
+
+  NEW.name := v_parent.name || ' (' || NEW.variant_name || ')';
+  NEW.category_id := v_parent.category_id;
+  NEW.tax_class_id := v_parent.tax_class_id;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS sync_variant_fields_trigger ON products;
+CREATE TRIGGER sync_variant_fields_trigger
+  BEFORE INSERT OR UPDATE ON products
+  FOR EACH ROW
+  EXECUTE FUNCTION sync_variant_fields();
+
+-- Re-saving the variants runs sync_variant_fields against the updated parent
+CREATE OR REPLACE FUNCTION sync_variants_from_parent()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  UPDATE products
+  SET updated_at = now()
+  WHERE parent_id = NEW.id;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS sync_variants_from_parent_trigger ON products;
+CREATE TRIGGER sync_variants_from_parent_trigger
+  AFTER UPDATE OF name, category_id, tax_class_id ON products
+  FOR EACH ROW
+  WHEN (NEW.parent_id IS NULL)
+  EXECUTE FUNCTION sync_variants_from_parent();
+
+CREATE OR REPLACE FUNCTION decrement_product_stock(
+  product_id uuid,
+  quantity integer,
+  p_reason text DEFAULT 'sale',
+  p_reference_type text DEFAULT NULL,
+  p_reference_id uuid DEFAULT NULL,
+  p_note text DEFAULT NULL
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  current_stock integer;
+  product_name text;
+BEGIN
+  -- Get current stock and lock the row
+  SELECT stock, name INTO current_stock, product_name
+  FROM products
+  WHERE id = decrement_product_stock.product_id
+  FOR UPDATE;
+
+  -- Check if product exists
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Product not found: %', product_id;
+  END IF;
+
+  -- Stock is held by the variants
+  IF product_has_variants(decrement_product_stock.product_id) THEN
+    RAISE EXCEPTION 'Choose a variant of %', product_name;
+  END IF;
+
+  -- Check if sufficient stock is available
+  IF current_stock < quantity THEN
+    RAISE EXCEPTION 'Insufficient stock: requested %, available %', quantity, current_stock;
+  END IF;
+
+  -- Update stock
+  UPDATE products
+  SET stock = stock - quantity,
+      updated_at = now()
+  WHERE id = decrement_product_stock.product_id;
+
+  INSERT INTO stock_logs (product_id, quantity_change, remaining_stock, reason, reference_type, reference_id, note)
+  VALUES (product_id, -quantity, current_stock - quantity, p_reason, p_reference_type, p_reference_id, p_note);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION decrement_multiple_product_stock(
+  order_items jsonb,  -- Array of objects with product_id and quantity
+  p_reason text DEFAULT 'sale',
+  p_reference_type text DEFAULT NULL,
+  p_reference_id uuid DEFAULT NULL
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  item_record jsonb;
+  product_id uuid;
+  quantity integer;
+  current_stock integer;
+  product_name text;
+BEGIN
+  -- Process each item in the order
+  FOR item_record IN SELECT * FROM jsonb_array_elements(order_items)
+  LOOP
+    -- Extract product_id and quantity from the JSON object
+    product_id := (item_record->>'product_id')::uuid;
+    quantity := (item_record->>'quantity')::integer;
+
+    -- Get current stock and lock the row
+    SELECT stock, name INTO current_stock, product_name
+    FROM products
+    WHERE id = product_id
+    FOR UPDATE;
+
+    -- Check if product exists
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Product not found: %', product_id;
+    END IF;
+
+    -- Stock is held by the variants
+    IF product_has_variants(product_id) THEN
+      RAISE EXCEPTION 'Choose a variant of %', product_name;
+    END IF;
+
+    -- Check if sufficient stock is available
+    IF current_stock < quantity THEN
+      RAISE EXCEPTION 'Insufficient stock for product %: requested %, available %', product_id, quantity, current_stock;
+    END IF;
+
+    -- Update stock
+    UPDATE products
+    SET stock = stock - quantity,
+        updated_at = now()
+    WHERE id = product_id;
+
+    INSERT INTO stock_logs (product_id, quantity_change, remaining_stock, reason, reference_type, reference_id)
+    VALUES (product_id, -quantity, current_stock - quantity, p_reason, p_reference_type, p_reference_id);
+  END LOOP;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION get_stocktake_counts(p_stocktake_id uuid)
+RETURNS TABLE (
+  product_id uuid,
+  name text,
+  sku text,
+  barcode text,
+  counted_quantity integer
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+AS $$
+  SELECT p.id, p.name, p.sku, p.barcode, si.counted_quantity
+  FROM stocktakes s
+  JOIN products p ON p.active AND (s.category_id IS NULL OR p.category_id = s.category_id)
+  LEFT JOIN stocktake_items si ON si.stocktake_id = s.id AND si.product_id = p.id
+  WHERE s.id = p_stocktake_id
+    AND NOT product_has_variants(p.id)
+  ORDER BY p.name;
+$$;
+
+CREATE OR REPLACE FUNCTION get_stocktake_report(p_stocktake_id uuid)
+RETURNS jsonb
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_stocktake stocktakes%ROWTYPE;
+  v_items jsonb;
+  v_uncounted jsonb;
+BEGIN
+  IF NOT is_admin() THEN
+    RAISE EXCEPTION 'Only admins can view stocktake results';
+  END IF;
+
+  SELECT * INTO v_stocktake FROM stocktakes WHERE id = p_stocktake_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Stocktake not found: %', p_stocktake_id;
+  END IF;
+
+  SELECT COALESCE(jsonb_agg(jsonb_build_object(
+    'product_id', p.id,
+    'name', p.name,
+    'sku', p.sku,
+    'expected_quantity', si.expected_quantity,
+    'counted_quantity', si.counted_quantity,
+    'current_stock', p.stock,
+    'unit_cost', pc.cost_price,
+    'unit_price', p.price
+  ) ORDER BY p.name), '[]'::jsonb)
+  INTO v_items
+  FROM stocktake_items si
+  JOIN products p ON p.id = si.product_id
+  LEFT JOIN product_costs pc ON pc.product_id = p.id
+  WHERE si.stocktake_id = p_stocktake_id;
+
+  SELECT COALESCE(jsonb_agg(jsonb_build_object(
+    'product_id', p.id,
+    'name', p.name,
+    'sku', p.sku,
+    'current_stock', p.stock
+  ) ORDER BY p.name), '[]'::jsonb)
+  INTO v_uncounted
+  FROM products p
+  WHERE p.active
+    AND (v_stocktake.category_id IS NULL OR p.category_id = v_stocktake.category_id)
+    AND NOT product_has_variants(p.id)
+    AND NOT EXISTS (
+      SELECT 1 FROM stocktake_items si
+      WHERE si.stocktake_id = p_stocktake_id AND si.product_id = p.id
+    );
+
+  RETURN jsonb_build_object(
+    'stocktake', to_jsonb(v_stocktake),
+    'items', v_items,
+    'uncounted', v_uncounted
+  );
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION get_reorder_report(p_days integer DEFAULT 30)
+RETURNS TABLE (
+  product_id uuid,
+  name text,
+  sku text,
+  category_name text,
+  stock integer,
+  reorder_point integer,
+  reorder_quantity integer,
+  units_sold integer,
+  on_order integer,
+  cost_price numeric
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY INVOKER
+AS $$
+BEGIN
+  IF NOT is_admin() THEN
+    RAISE EXCEPTION 'Only admins can view reorder suggestions';
+  END IF;
+
+  IF p_days IS NULL OR p_days <= 0 THEN
+    RAISE EXCEPTION 'Invalid sales period: %', p_days;
+  END IF;
+
+  RETURN QUERY
+  WITH sold AS (
+    SELECT
+      oi.product_id,
+      SUM(oi.quantity - COALESCE(ri.returned, 0))::integer AS units
+    FROM order_items oi
+    JOIN orders o ON o.id = oi.order_id
+    LEFT JOIN (
+      SELECT order_item_id, SUM(quantity) AS returned
+      FROM refund_items
+      GROUP BY order_item_id
+    ) ri ON ri.order_item_id = oi.id
+    WHERE o.status <> 'cancelled'
+      AND o.created_at >= now() - make_interval(days => p_days)
+    GROUP BY oi.product_id
+  ),
+  ordered AS (
+    SELECT
+      poi.product_id,
+      SUM(GREATEST(poi.quantity_ordered - poi.quantity_received, 0))::integer AS units
+    FROM purchase_order_items poi
+    JOIN purchase_orders po ON po.id = poi.purchase_order_id
+    WHERE po.status IN ('sent', 'partially_received')
+    GROUP BY poi.product_id
+  )
+  SELECT
+    p.id,
+    p.name,
+    p.sku,
+    c.name,
+    p.stock,
+    p.reorder_point,
+    p.reorder_quantity,
+    COALESCE(s.units, 0),
+    COALESCE(od.units, 0),
+    pc.cost_price
+  FROM products p
+  LEFT JOIN categories c ON c.id = p.category_id
+  LEFT JOIN sold s ON s.product_id = p.id
+  LEFT JOIN ordered od ON od.product_id = p.id
+  LEFT JOIN product_costs pc ON pc.product_id = p.id
+  WHERE p.active
+    AND NOT product_has_variants(p.id)
+    AND (p.stock <= p.reorder_point OR COALESCE(s.units, 0) > 0)
+  ORDER BY p.name;
+END;
+$$;
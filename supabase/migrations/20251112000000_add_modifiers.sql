@@ -0,0 +1,881 @@
+-- Modifiers and add-ons
+--
+-- 1. New Tables
+--    - modifier_groups: a set of options such as Milk or Extras, with how
+--      many may be chosen (min_select, max_select; no max means any number)
+--    - modifiers: the options in a group, in display order (position), and
+--      what each adds to the price (price_delta, may be zero or negative)
+--    - product_modifier_groups / category_modifier_groups: which products and
+--      categories a group applies to
+--
+-- 2. Modified Tables
+--    - order_items.modifiers: the options chosen for the line, snapshotted as
+--      [{id, group_name, name, price_delta}] so renaming or removing an
+--      option doesn't change past orders
+--
+-- 3. Functions
+--    - product_modifier_group_ids(product_id): the groups that apply to a
+--      product, through the product itself, its parent (for variants) or its
+--      category
+--    - is_valid_modifier_selection(product_id, modifier_ids): every option is
+--      active and belongs to one of those groups, and each group's min/max
+--      is respected
+--    - save_modifier_group(id, group): creates or replaces a group with its
+--      options and links in one transaction. Admin only
+--    - checkout_order: items take optional modifier_ids; lines are unique by
+--      product plus modifier set, the unit price includes the modifiers and
+--      stock is checked and decremented per product across lines
+--    - get_sales_report: adds by_modifier
+--
+-- 4. Important Notes
+--    - Lines are ordered by product id and then by their sorted modifier ids
+--      when the order discount is spread, mirroring getCartLineKey in
+--      utils/modifiers.ts
+--    - Options removed from a group are deleted; past orders keep their
+--      snapshot
+
+CREATE TABLE IF NOT EXISTS modifier_groups (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  name text NOT NULL,
+  min_select integer NOT NULL DEFAULT 0 CHECK (min_select >= 0),
+  max_select integer CHECK (max_select IS NULL OR (max_select >= 1 AND max_select >= min_select)),
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS modifiers (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  group_id uuid NOT NULL REFERENCES modifier_groups(id) ON DELETE CASCADE,
+  name text NOT NULL,
+  price_delta numeric(10, 2) NOT NULL DEFAULT 0,
+  active boolean NOT NULL DEFAULT true,
+  position integer NOT NULL DEFAULT 0,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS product_modifier_groups (
+  product_id uuid NOT NULL REFERENCES products(id) ON DELETE CASCADE,
+  group_id uuid NOT NULL REFERENCES modifier_groups(id) ON DELETE CASCADE,
+  PRIMARY KEY (product_id, group_id)
+);
+
+CREATE TABLE IF NOT EXISTS category_modifier_groups (
+  category_id uuid NOT NULL REFERENCES categories(id) ON DELETE CASCADE,
+  group_id uuid NOT NULL REFERENCES modifier_groups(id) ON DELETE CASCADE,
+  PRIMARY KEY (category_id, group_id)
+);
+
+CREATE INDEX IF NOT EXISTS modifiers_group_id_idx ON modifiers(group_id);
+CREATE INDEX IF NOT EXISTS product_modifier_groups_group_id_idx ON product_modifier_groups(group_id);
+CREATE INDEX IF NOT EXISTS category_modifier_groups_group_id_idx ON category_modifier_groups(group_id);
+
+ALTER TABLE order_items
+  ADD COLUMN IF NOT EXISTS modifiers jsonb NOT NULL DEFAULT '[]'::jsonb;
+
+ALTER TABLE modifier_groups ENABLE ROW LEVEL SECURITY;
+ALTER TABLE modifiers ENABLE ROW LEVEL SECURITY;
+ALTER TABLE product_modifier_groups ENABLE ROW LEVEL SECURITY;
+ALTER TABLE category_modifier_groups ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view modifier groups"
+  ON modifier_groups FOR SELECT
+  TO authenticated
+  USING (true);
+
+-- Groups are created and edited through save_modifier_group
+CREATE POLICY "Admins can delete modifier groups"
+  ON modifier_groups FOR DELETE
+  TO authenticated
+  USING (is_admin());
+
+CREATE POLICY "Anyone can view modifiers"
+  ON modifiers FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Anyone can view product modifier groups"
+  ON product_modifier_groups FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Anyone can view category modifier groups"
+  ON category_modifier_groups FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE OR REPLACE FUNCTION product_modifier_group_ids(p_product_id uuid)
+RETURNS SETOF uuid
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT pmg.group_id
+  FROM products p
+  JOIN product_modifier_groups pmg ON pmg.product_id IN (p.id, p.parent_id)
+  WHERE p.id = p_product_id
+  UNION
+  SELECT cmg.group_id
+  FROM products p
+  JOIN category_modifier_groups cmg ON cmg.category_id = p.category_id
+  WHERE p.id = p_product_id;
+$$;
+
+-- Same rules as validateModifierSelection in utils/modifiers.ts
+CREATE OR REPLACE FUNCTION is_valid_modifier_selection(p_product_id uuid, p_modifier_ids uuid[])
+RETURNS boolean
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT NOT EXISTS (
+    SELECT 1
+    FROM unnest(COALESCE(p_modifier_ids, '{}'::uuid[])) AS s(id)
+    LEFT JOIN modifiers m
+      ON m.id = s.id
+      AND m.active
+      AND m.group_id IN (SELECT product_modifier_group_ids(p_product_id))
+    WHERE m.id IS NULL
+  )
+  AND NOT EXISTS (
+    SELECT 1
+    FROM modifier_groups g
+    WHERE g.id IN (SELECT product_modifier_group_ids(p_product_id))
+    AND (
+      SELECT count(*)
+      FROM modifiers m
+      WHERE m.group_id = g.id AND m.id = ANY(COALESCE(p_modifier_ids, '{}'::uuid[]))
+    ) NOT BETWEEN g.min_select AND COALESCE(g.max_select, 2147483647)
+  );
+$$;
+
+GRANT EXECUTE ON FUNCTION product_modifier_group_ids TO authenticated;
+GRANT EXECUTE ON FUNCTION is_valid_modifier_selection TO authenticated;
+
+CREATE OR REPLACE FUNCTION save_modifier_group(
+  p_group_id uuid,  -- NULL creates a new group
+  p_group jsonb  -- name, min_select, max_select, modifiers [{id?, name, price_delta, active}], product_ids, category_ids
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_group_id uuid := p_group_id;
+  v_name text := NULLIF(btrim(p_group->>'name'), '');
+  v_min_select integer := COALESCE((p_group->>'min_select')::integer, 0);
+  v_max_select integer := NULLIF(p_group->>'max_select', '')::integer;
+  v_modifiers jsonb := COALESCE(NULLIF(p_group->'modifiers', 'null'::jsonb), '[]'::jsonb);
+BEGIN
+  IF NOT is_admin() THEN
+    RAISE EXCEPTION 'Only admins can manage modifiers';
+  END IF;
+
+  IF v_name IS NULL THEN
+    RAISE EXCEPTION 'Enter a name for the modifier group';
+  END IF;
+
+  IF jsonb_typeof(v_modifiers) <> 'array' OR jsonb_array_length(v_modifiers) = 0 THEN
+    RAISE EXCEPTION 'Add at least one option to the modifier group';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM jsonb_to_recordset(v_modifiers) AS m(name text, price_delta numeric)
+    WHERE NULLIF(btrim(m.name), '') IS NULL OR m.price_delta IS NULL
+  ) THEN
+    RAISE EXCEPTION 'Every option needs a name and a price';
+  END IF;
+
+  IF v_group_id IS NULL THEN
+    INSERT INTO modifier_groups (name, min_select, max_select)
+    VALUES (v_name, v_min_select, v_max_select)
+    RETURNING id INTO v_group_id;
+  ELSE
+    UPDATE modifier_groups
+    SET name = v_name,
+        min_select = v_min_select,
+        max_select = v_max_select,
+        updated_at = now()
+    WHERE id = v_group_id;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Modifier group not found: %', v_group_id;
+    END IF;
+  END IF;
+
+  -- Options left out of the list are removed; past orders keep their snapshot
+  DELETE FROM modifiers
+  WHERE group_id = v_group_id
+  AND id NOT IN (
+    SELECT m.id FROM jsonb_to_recordset(v_modifiers) AS m(id uuid) WHERE m.id IS NOT NULL
+  );
+
+  -- Options keep the order they were given in
+  UPDATE modifiers mo
+  SET name = btrim(m.name),
+      price_delta = m.price_delta,
+      active = COALESCE(m.active, true),
+      position = m.position
+  FROM (
+    SELECT x.id, x.name, x.price_delta, x.active, e.position::integer AS position
+    FROM jsonb_array_elements(v_modifiers) WITH ORDINALITY AS e(value, position)
+    CROSS JOIN LATERAL jsonb_to_record(e.value) AS x(id uuid, name text, price_delta numeric, active boolean)
+  ) m
+  WHERE mo.id = m.id AND mo.group_id = v_group_id;
+
+  INSERT INTO modifiers (group_id, name, price_delta, active, position)
+  SELECT v_group_id, btrim(m.name), m.price_delta, COALESCE(m.active, true), m.position
+  FROM (
+    SELECT x.id, x.name, x.price_delta, x.active, e.position::integer AS position
+    FROM jsonb_array_elements(v_modifiers) WITH ORDINALITY AS e(value, position)
+    CROSS JOIN LATERAL jsonb_to_record(e.value) AS x(id uuid, name text, price_delta numeric, active boolean)
+  ) m
+  WHERE m.id IS NULL
+  OR NOT EXISTS (SELECT 1 FROM modifiers WHERE id = m.id AND group_id = v_group_id);
+
+  DELETE FROM product_modifier_groups WHERE group_id = v_group_id;
+  INSERT INTO product_modifier_groups (product_id, group_id)
+  SELECT DISTINCT id::uuid, v_group_id
+  FROM jsonb_array_elements_text(COALESCE(NULLIF(p_group->'product_ids', 'null'::jsonb), '[]'::jsonb)) AS id;
+
+  DELETE FROM category_modifier_groups WHERE group_id = v_group_id;
+  INSERT INTO category_modifier_groups (category_id, group_id)
+  SELECT DISTINCT id::uuid, v_group_id
+  FROM jsonb_array_elements_text(COALESCE(NULLIF(p_group->'category_ids', 'null'::jsonb), '[]'::jsonb)) AS id;
+
+  RETURN v_group_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION save_modifier_group TO authenticated;
+
+CREATE OR REPLACE FUNCTION checkout_order(
+  p_items jsonb,  -- Array of objects with product_id, quantity, optional discount and optional modifier_ids
+  p_payment_method text,  -- Used when p_options has no payments
+  p_options jsonb DEFAULT '{}'::jsonb
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_idempotency_key uuid := NULLIF(p_options->>'idempotency_key', '')::uuid;
+  v_exemption text := NULLIF(p_options->>'tax_exemption', '');
+  v_exemption_id text := NULLIF(btrim(p_options->>'tax_exemption_id'), '');
+  v_order_discount jsonb := NULLIF(p_options->'order_discount', 'null'::jsonb);
+  v_approval_id uuid := NULLIF(p_options->>'discount_approval_id', '')::uuid;
+  v_payments jsonb := NULLIF(p_options->'payments', 'null'::jsonb);
+  v_payment_error jsonb;
+  v_payment_method text;
+  v_prices_include_tax boolean;
+  v_default_tax_class_id uuid;
+  v_threshold numeric;
+  v_items jsonb;
+  v_stock_items jsonb;
+  v_lines jsonb;
+  v_errors jsonb := '[]'::jsonb;
+  v_line record;
+  v_discount_base numeric(10, 2);
+  v_line_discount_total numeric(10, 2);
+  v_order_discount_amount numeric(10, 2);
+  v_discount_total numeric(10, 2);
+  v_needs_approval boolean;
+  v_approved_by uuid;
+  v_used_approval_id uuid;
+  v_total numeric(10, 2);
+  v_tax numeric(10, 2);
+  v_order_id uuid;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF v_idempotency_key IS NOT NULL THEN
+    -- Serialize concurrent replays of the same sale
+    PERFORM pg_advisory_xact_lock(hashtext(v_idempotency_key::text));
+
+    SELECT id INTO v_order_id
+    FROM orders
+    WHERE idempotency_key = v_idempotency_key
+    AND user_id = v_user_id;
+
+    IF FOUND THEN
+      RETURN jsonb_build_object(
+        'order', get_order_json(v_order_id),
+        'errors', '[]'::jsonb,
+        'replayed', true
+      );
+    END IF;
+  END IF;
+
+  IF p_items IS NULL OR jsonb_typeof(p_items) <> 'array' OR jsonb_array_length(p_items) = 0 THEN
+    RETURN jsonb_build_object(
+      'order', NULL,
+      'errors', jsonb_build_array(jsonb_build_object('code', 'EMPTY_CART'))
+    );
+  END IF;
+
+  -- Without explicit tenders the whole total is paid with p_payment_method
+  IF v_payments IS NULL AND (p_payment_method IS NULL OR p_payment_method NOT IN ('cash', 'card', 'mobile')) THEN
+    RETURN jsonb_build_object(
+      'order', NULL,
+      'errors', jsonb_build_array(jsonb_build_object('code', 'INVALID_PAYMENT_METHOD'))
+    );
+  END IF;
+
+  IF v_payments IS NOT NULL AND NOT are_valid_tenders(v_payments) THEN
+    RETURN jsonb_build_object(
+      'order', NULL,
+      'errors', jsonb_build_array(jsonb_build_object('code', 'INVALID_PAYMENT'))
+    );
+  END IF;
+
+  IF v_exemption IS NOT NULL AND (v_exemption NOT IN ('senior_citizen', 'pwd') OR v_exemption_id IS NULL) THEN
+    RETURN jsonb_build_object(
+      'order', NULL,
+      'errors', jsonb_build_array(jsonb_build_object('code', 'INVALID_TAX_EXEMPTION'))
+    );
+  END IF;
+
+  IF NOT is_valid_discount(v_order_discount) THEN
+    RETURN jsonb_build_object(
+      'order', NULL,
+      'errors', jsonb_build_array(jsonb_build_object('code', 'INVALID_DISCOUNT'))
+    );
+  END IF;
+
+  -- Merge duplicate lines so each product and modifier set is priced once;
+  -- the first discount given for a line wins
+  SELECT jsonb_agg(
+    jsonb_build_object(
+      'product_id', product_id,
+      'modifier_ids', to_jsonb(modifier_ids),
+      'modifier_key', array_to_string(modifier_ids, ','),
+      'quantity', quantity,
+      'discount', discount
+    )
+    ORDER BY product_id, array_to_string(modifier_ids, ',') COLLATE "C"
+  )
+  INTO v_items
+  FROM (
+    SELECT raw.product_id,
+           raw.modifier_ids,
+           SUM(raw.quantity) AS quantity,
+           (array_agg(raw.discount) FILTER (
+             WHERE jsonb_typeof(raw.discount) IS DISTINCT FROM 'null'
+             AND raw.discount IS NOT NULL
+           ))[1] AS discount
+    FROM (
+      SELECT (item->>'product_id')::uuid AS product_id,
+             ARRAY(
+               SELECT DISTINCT m::uuid
+               FROM jsonb_array_elements_text(
+                 CASE WHEN jsonb_typeof(item->'modifier_ids') = 'array' THEN item->'modifier_ids' ELSE '[]'::jsonb END
+               ) AS m
+               ORDER BY 1
+             ) AS modifier_ids,
+             (item->>'quantity')::integer AS quantity,
+             item->'discount' AS discount
+      FROM jsonb_array_elements(p_items) AS item
+    ) raw
+    GROUP BY raw.product_id, raw.modifier_ids
+  ) merged;
+
+  -- Stock is held per product, whatever modifiers each line has
+  SELECT jsonb_agg(jsonb_build_object('product_id', product_id, 'quantity', quantity) ORDER BY product_id)
+  INTO v_stock_items
+  FROM (
+    SELECT x.product_id, SUM(x.quantity) AS quantity
+    FROM jsonb_to_recordset(v_items) AS x(product_id uuid, quantity integer)
+    GROUP BY x.product_id
+  ) per_product;
+
+  -- Lock product rows in a stable order to avoid deadlocks between tills
+  PERFORM 1
+  FROM products
+  WHERE id IN (SELECT product_id FROM jsonb_to_recordset(v_stock_items) AS x(product_id uuid, quantity integer))
+  ORDER BY id
+  FOR UPDATE;
+
+  FOR v_line IN
+    SELECT x.product_id, x.quantity, x.discount, x.modifier_ids, p.id AS found_id, p.name, p.active
+    FROM jsonb_to_recordset(v_items) AS x(product_id uuid, quantity integer, discount jsonb, modifier_ids jsonb)
+    LEFT JOIN products p ON p.id = x.product_id
+  LOOP
+    IF v_line.quantity IS NULL OR v_line.quantity <= 0 THEN
+      v_errors := v_errors || jsonb_build_object(
+        'product_id', v_line.product_id,
+        'product_name', v_line.name,
+        'code', 'INVALID_QUANTITY',
+        'requested_qty', v_line.quantity
+      );
+    ELSIF v_line.found_id IS NULL THEN
+      v_errors := v_errors || jsonb_build_object(
+        'product_id', v_line.product_id,
+        'code', 'PRODUCT_NOT_FOUND',
+        'requested_qty', v_line.quantity
+      );
+    ELSIF NOT v_line.active THEN
+      v_errors := v_errors || jsonb_build_object(
+        'product_id', v_line.product_id,
+        'product_name', v_line.name,
+        'code', 'PRODUCT_INACTIVE',
+        'requested_qty', v_line.quantity
+      );
+    ELSIF NOT is_valid_discount(v_line.discount) THEN
+      v_errors := v_errors || jsonb_build_object(
+        'product_id', v_line.product_id,
+        'product_name', v_line.name,
+        'code', 'INVALID_DISCOUNT',
+        'requested_qty', v_line.quantity
+      );
+    ELSIF NOT is_valid_modifier_selection(
+      v_line.product_id,
+      ARRAY(SELECT jsonb_array_elements_text(v_line.modifier_ids)::uuid)
+    ) THEN
+      v_errors := v_errors || jsonb_build_object(
+        'product_id', v_line.product_id,
+        'product_name', v_line.name,
+        'code', 'INVALID_MODIFIERS',
+        'requested_qty', v_line.quantity
+      );
+    END IF;
+  END LOOP;
+
+  -- Lines of the same product share its stock
+  FOR v_line IN
+    SELECT x.product_id, x.quantity, p.name, p.stock
+    FROM jsonb_to_recordset(v_stock_items) AS x(product_id uuid, quantity integer)
+    JOIN products p ON p.id = x.product_id
+    WHERE p.active AND x.quantity > 0
+  LOOP
+    IF COALESCE(v_line.stock, 0) < v_line.quantity THEN
+      v_errors := v_errors || jsonb_build_object(
+        'product_id', v_line.product_id,
+        'product_name', v_line.name,
+        'code', 'INSUFFICIENT_STOCK',
+        'requested_qty', v_line.quantity,
+        'available_stock', COALESCE(v_line.stock, 0)
+      );
+    END IF;
+  END LOOP;
+
+  IF jsonb_array_length(v_errors) > 0 THEN
+    RETURN jsonb_build_object('order', NULL, 'errors', v_errors);
+  END IF;
+
+  SELECT COALESCE((SELECT prices_include_tax FROM tax_settings LIMIT 1), true)
+  INTO v_prices_include_tax;
+
+  SELECT id INTO v_default_tax_class_id FROM tax_classes WHERE is_default;
+
+  -- Price each line, modifiers included, and apply its own discount
+  SELECT jsonb_agg(to_jsonb(priced) ORDER BY priced.product_id, priced.modifier_key COLLATE "C")
+  INTO v_lines
+  FROM (
+    SELECT
+      base.*,
+      compute_discount_amount(base.discount, base.gross) AS line_discount
+    FROM (
+      SELECT
+        x.product_id,
+        x.modifier_key,
+        COALESCE(mods.modifiers, '[]'::jsonb) AS modifiers,
+        x.quantity,
+        NULLIF(x.discount, 'null'::jsonb) AS discount,
+        p.price + COALESCE(mods.price_delta, 0) AS price,
+        round((p.price + COALESCE(mods.price_delta, 0)) * x.quantity, 2) AS gross,
+        tc.code AS tax_class_code,
+        COALESCE(tc.rate, 0) AS class_rate,
+        (v_exemption IS NOT NULL AND COALESCE(tc.rate, 0) > 0) AS tax_exempt
+      FROM jsonb_to_recordset(v_items) AS x(
+        product_id uuid, modifier_ids jsonb, modifier_key text, quantity integer, discount jsonb
+      )
+      JOIN products p ON p.id = x.product_id
+      LEFT JOIN categories c ON c.id = p.category_id
+      LEFT JOIN tax_classes tc ON tc.id = COALESCE(p.tax_class_id, c.tax_class_id, v_default_tax_class_id)
+      LEFT JOIN LATERAL (
+        SELECT
+          SUM(m.price_delta) AS price_delta,
+          jsonb_agg(
+            jsonb_build_object('id', m.id, 'group_name', g.name, 'name', m.name, 'price_delta', m.price_delta)
+            ORDER BY g.created_at, g.id, m.position
+          ) AS modifiers
+        FROM jsonb_array_elements_text(x.modifier_ids) AS s(id)
+        JOIN modifiers m ON m.id = s.id::uuid
+        JOIN modifier_groups g ON g.id = m.group_id
+      ) mods ON true
+    ) base
+  ) priced;
+
+  SELECT SUM(l.gross - l.line_discount), SUM(l.line_discount)
+  INTO v_discount_base, v_line_discount_total
+  FROM jsonb_to_recordset(v_lines) AS l(gross numeric, line_discount numeric);
+
+  v_order_discount_amount := compute_discount_amount(v_order_discount, v_discount_base);
+  v_discount_total := v_line_discount_total + v_order_discount_amount;
+
+  SELECT COALESCE((SELECT approval_threshold_percent FROM discount_settings LIMIT 1), 20)
+  INTO v_threshold;
+
+  -- Same rule as requiresDiscountApproval in utils/discounts.ts
+  SELECT EXISTS (
+    SELECT 1
+    FROM jsonb_to_recordset(v_lines) AS l(gross numeric, line_discount numeric)
+    WHERE l.line_discount > 0 AND l.line_discount > round(l.gross * v_threshold / 100, 2)
+  ) OR (
+    v_order_discount_amount > 0 AND v_order_discount_amount > round(v_discount_base * v_threshold / 100, 2)
+  )
+  INTO v_needs_approval;
+
+  IF v_discount_total > 0 AND is_admin() THEN
+    v_approved_by := v_user_id;
+  ELSIF v_needs_approval THEN
+    SELECT id, approved_by INTO v_used_approval_id, v_approved_by
+    FROM discount_approvals
+    WHERE id = v_approval_id
+    AND requested_by = v_user_id
+    AND order_id IS NULL
+    AND expires_at > now()
+    AND max_discount_amount >= v_discount_total
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+      RETURN jsonb_build_object(
+        'order', NULL,
+        'errors', jsonb_build_array(jsonb_build_object('code', 'DISCOUNT_APPROVAL_REQUIRED'))
+      );
+    END IF;
+  END IF;
+
+  -- Spread the order discount over the lines (the last line takes the rounding
+  -- remainder, as in allocateOrderDiscount), then tax what is left
+  SELECT jsonb_agg(to_jsonb(taxed))
+  INTO v_lines
+  FROM (
+    SELECT
+      shared.*,
+      CASE WHEN shared.tax_exempt THEN 0 ELSE shared.class_rate END AS tax_rate,
+      CASE
+        WHEN shared.tax_exempt AND v_prices_include_tax THEN round(shared.net / (1 + shared.class_rate), 2)
+        WHEN shared.tax_exempt THEN shared.net
+        WHEN v_prices_include_tax THEN shared.net - round(shared.net - shared.net / (1 + shared.class_rate), 2)
+        ELSE shared.net
+      END AS taxable_amount,
+      CASE
+        WHEN shared.tax_exempt THEN 0
+        WHEN v_prices_include_tax THEN round(shared.net - shared.net / (1 + shared.class_rate), 2)
+        ELSE round(shared.net * shared.class_rate, 2)
+      END AS tax_amount
+    FROM (
+      SELECT
+        allocated.*,
+        allocated.gross - allocated.line_discount - allocated.order_discount_share AS net
+      FROM (
+        SELECT
+          l.*,
+          CASE
+            WHEN v_order_discount_amount = 0 OR v_discount_base <= 0 THEN 0
+            WHEN l.position = l.line_count THEN v_order_discount_amount - COALESCE(SUM(
+              round(v_order_discount_amount * (l.gross - l.line_discount) / v_discount_base, 2)
+            ) OVER (
+              ORDER BY l.product_id, l.modifier_key COLLATE "C"
+              ROWS BETWEEN UNBOUNDED PRECEDING AND 1 PRECEDING
+            ), 0)
+            ELSE round(v_order_discount_amount * (l.gross - l.line_discount) / v_discount_base, 2)
+          END AS order_discount_share
+        FROM (
+          SELECT
+            r.*,
+            row_number() OVER (ORDER BY r.product_id, r.modifier_key COLLATE "C") AS position,
+            count(*) OVER () AS line_count
+          FROM jsonb_to_recordset(v_lines) AS r(
+            product_id uuid, modifier_key text, modifiers jsonb, quantity integer, discount jsonb,
+            price numeric, gross numeric, tax_class_code text, class_rate numeric, tax_exempt boolean,
+            line_discount numeric
+          )
+        ) l
+      ) allocated
+    ) shared
+  ) taxed;
+
+  SELECT SUM(l.taxable_amount + l.tax_amount), SUM(l.tax_amount)
+  INTO v_total, v_tax
+  FROM jsonb_to_recordset(v_lines) AS l(taxable_amount numeric, tax_amount numeric);
+
+  -- A fully discounted sale has nothing to pay
+  IF v_payments IS NULL THEN
+    v_payments := CASE
+      WHEN v_total > 0 THEN jsonb_build_array(jsonb_build_object('method', p_payment_method, 'amount', v_total))
+      ELSE '[]'::jsonb
+    END;
+  END IF;
+
+  v_payment_error := check_tenders_cover_total(v_payments, v_total);
+  IF v_payment_error IS NOT NULL THEN
+    RETURN jsonb_build_object('order', NULL, 'errors', jsonb_build_array(v_payment_error));
+  END IF;
+
+  SELECT CASE WHEN count(DISTINCT t->>'method') > 1 THEN 'split' ELSE COALESCE(min(t->>'method'), p_payment_method) END
+  INTO v_payment_method
+  FROM jsonb_array_elements(v_payments) AS t;
+
+  INSERT INTO orders (
+    user_id, total, tax, status, payment_method, idempotency_key, tax_exemption, tax_exemption_id,
+    discount_type, discount_value, discount_reason, discount_amount, discount_total,
+    discount_approved_by, discount_approval_id
+  )
+  VALUES (
+    v_user_id, v_total, v_tax, 'completed', v_payment_method, v_idempotency_key,
+    v_exemption, CASE WHEN v_exemption IS NULL THEN NULL ELSE v_exemption_id END,
+    CASE WHEN v_order_discount_amount > 0 THEN v_order_discount->>'type' END,
+    CASE WHEN v_order_discount_amount > 0 THEN (v_order_discount->>'value')::numeric END,
+    CASE WHEN v_order_discount_amount > 0 THEN v_order_discount->>'reason' END,
+    v_order_discount_amount, v_discount_total,
+    v_approved_by, v_used_approval_id
+  )
+  RETURNING id INTO v_order_id;
+
+  IF v_used_approval_id IS NOT NULL THEN
+    UPDATE discount_approvals SET order_id = v_order_id WHERE id = v_used_approval_id;
+  END IF;
+
+  -- Snapshot prices, modifiers, discounts and tax for historical accuracy
+  INSERT INTO order_items (
+    order_id, product_id, quantity, price, subtotal, modifiers,
+    discount_type, discount_value, discount_reason, discount_amount, order_discount_share,
+    tax_class_code, tax_rate, taxable_amount, tax_amount, line_total, tax_exempt
+  )
+  SELECT
+    v_order_id, l.product_id, l.quantity, l.price, l.gross, l.modifiers,
+    CASE WHEN l.line_discount > 0 THEN l.discount->>'type' END,
+    CASE WHEN l.line_discount > 0 THEN (l.discount->>'value')::numeric END,
+    CASE WHEN l.line_discount > 0 THEN l.discount->>'reason' END,
+    l.line_discount, l.order_discount_share,
+    l.tax_class_code, l.tax_rate, l.taxable_amount, l.tax_amount, l.taxable_amount + l.tax_amount, l.tax_exempt
+  FROM jsonb_to_recordset(v_lines) AS l(
+    product_id uuid, modifiers jsonb, quantity integer, discount jsonb, price numeric, gross numeric,
+    line_discount numeric, order_discount_share numeric,
+    tax_class_code text, tax_rate numeric, taxable_amount numeric, tax_amount numeric, tax_exempt boolean
+  );
+
+  PERFORM record_order_payments(v_order_id, v_payments, v_total);
+
+  PERFORM decrement_multiple_product_stock(v_stock_items, 'sale', 'order', v_order_id);
+
+  RETURN jsonb_build_object(
+    'order', get_order_json(v_order_id),
+    'errors', '[]'::jsonb
+  );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION checkout_order TO authenticated;
+
+CREATE OR REPLACE FUNCTION get_sales_report(
+  p_from timestamptz,
+  p_to timestamptz,
+  p_timezone text DEFAULT 'Asia/Manila'
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+STABLE
+SECURITY INVOKER
+AS $$
+DECLARE
+  v_report jsonb;
+BEGIN
+  IF NOT is_admin() THEN
+    RAISE EXCEPTION 'Only admins can view sales reports';
+  END IF;
+
+  IF p_from IS NULL OR p_to IS NULL OR p_to <= p_from THEN
+    RAISE EXCEPTION 'Invalid report date range';
+  END IF;
+
+  WITH facts AS (
+    SELECT
+      f.*,
+      to_char(f.created_at AT TIME ZONE p_timezone, 'YYYY-MM-DD') AS day,
+      extract(hour FROM f.created_at AT TIME ZONE p_timezone)::integer AS hour
+    FROM sales_report_facts f
+    WHERE f.created_at >= p_from AND f.created_at < p_to
+  ),
+  -- Every breakdown except payment method is built from order lines
+  lines AS (
+    SELECT * FROM facts WHERE kind IN ('sale', 'refund')
+  ),
+  tenders AS (
+    SELECT * FROM facts WHERE kind IN ('payment', 'refund')
+  ),
+  -- Each chosen modifier's share of its line: price_delta / unit price
+  modifier_facts AS (
+    SELECT
+      'sale'::text AS kind,
+      o.id AS order_id,
+      m->>'id' AS modifier_id,
+      (m->>'group_name') || ': ' || (m->>'name') AS label,
+      oi.quantity,
+      CASE WHEN oi.price <> 0
+        THEN round(COALESCE(oi.line_total, oi.subtotal) * (m->>'price_delta')::numeric / oi.price, 2)
+        ELSE 0
+      END AS amount,
+      CASE WHEN oi.price <> 0
+        THEN round(oi.tax_amount * (m->>'price_delta')::numeric / oi.price, 2)
+        ELSE 0
+      END AS tax
+    FROM order_items oi
+    JOIN orders o ON o.id = oi.order_id
+    CROSS JOIN LATERAL jsonb_array_elements(oi.modifiers) AS m
+    WHERE o.status <> 'cancelled'
+    AND o.created_at >= p_from AND o.created_at < p_to
+
+    UNION ALL
+
+    SELECT
+      'refund'::text,
+      r.order_id,
+      m->>'id',
+      (m->>'group_name') || ': ' || (m->>'name'),
+      ri.quantity,
+      CASE WHEN oi.price <> 0
+        THEN round(ri.amount * (m->>'price_delta')::numeric / oi.price, 2)
+        ELSE 0
+      END,
+      CASE
+        WHEN oi.price <> 0 AND COALESCE(oi.line_total, oi.subtotal) > 0
+          THEN round(oi.tax_amount * ri.amount / COALESCE(oi.line_total, oi.subtotal) * (m->>'price_delta')::numeric / oi.price, 2)
+        ELSE 0
+      END
+    FROM refund_items ri
+    JOIN refunds r ON r.id = ri.refund_id
+    JOIN order_items oi ON oi.id = ri.order_item_id
+    CROSS JOIN LATERAL jsonb_array_elements(oi.modifiers) AS m
+    WHERE r.created_at >= p_from AND r.created_at < p_to
+  )
+  SELECT jsonb_build_object(
+    'summary', (
+      SELECT jsonb_build_object(
+        'order_count', count(DISTINCT order_id) FILTER (WHERE kind = 'sale'),
+        'item_count', COALESCE(sum(quantity) FILTER (WHERE kind = 'sale'), 0),
+        'gross', COALESCE(sum(amount) FILTER (WHERE kind = 'sale'), 0),
+        'tax', COALESCE(sum(tax) FILTER (WHERE kind = 'sale'), 0) - COALESCE(sum(tax) FILTER (WHERE kind = 'refund'), 0),
+        'refunds', COALESCE(sum(amount) FILTER (WHERE kind = 'refund'), 0)
+      )
+      FROM lines
+    ),
+    'by_day', (
+      SELECT COALESCE(jsonb_agg(to_jsonb(t) ORDER BY t.key), '[]'::jsonb)
+      FROM (
+        SELECT
+          day AS key,
+          day AS label,
+          count(DISTINCT order_id) FILTER (WHERE kind = 'sale') AS order_count,
+          COALESCE(sum(quantity) FILTER (WHERE kind = 'sale'), 0) AS quantity,
+          COALESCE(sum(amount) FILTER (WHERE kind = 'sale'), 0) AS gross,
+          COALESCE(sum(tax) FILTER (WHERE kind = 'sale'), 0) - COALESCE(sum(tax) FILTER (WHERE kind = 'refund'), 0) AS tax,
+          COALESCE(sum(amount) FILTER (WHERE kind = 'refund'), 0) AS refunds
+        FROM lines
+        GROUP BY day
+      ) t
+    ),
+    'by_hour', (
+      SELECT COALESCE(jsonb_agg(to_jsonb(t) ORDER BY t.hour), '[]'::jsonb)
+      FROM (
+        SELECT
+          hour,
+          hour::text AS key,
+          lpad(hour::text, 2, '0') || ':00' AS label,
+          count(DISTINCT order_id) FILTER (WHERE kind = 'sale') AS order_count,
+          COALESCE(sum(quantity) FILTER (WHERE kind = 'sale'), 0) AS quantity,
+          COALESCE(sum(amount) FILTER (WHERE kind = 'sale'), 0) AS gross,
+          COALESCE(sum(tax) FILTER (WHERE kind = 'sale'), 0) - COALESCE(sum(tax) FILTER (WHERE kind = 'refund'), 0) AS tax,
+          COALESCE(sum(amount) FILTER (WHERE kind = 'refund'), 0) AS refunds
+        FROM lines
+        GROUP BY hour
+      ) t
+    ),
+    'by_product', (
+      SELECT COALESCE(jsonb_agg(to_jsonb(t) ORDER BY t.gross DESC, t.label), '[]'::jsonb)
+      FROM (
+        SELECT
+          l.product_id::text AS key,
+          COALESCE(p.name, 'Deleted product') AS label,
+          count(DISTINCT l.order_id) FILTER (WHERE l.kind = 'sale') AS order_count,
+          COALESCE(sum(l.quantity) FILTER (WHERE l.kind = 'sale'), 0) AS quantity,
+          COALESCE(sum(l.amount) FILTER (WHERE l.kind = 'sale'), 0) AS gross,
+          COALESCE(sum(l.tax) FILTER (WHERE l.kind = 'sale'), 0) - COALESCE(sum(l.tax) FILTER (WHERE l.kind = 'refund'), 0) AS tax,
+          COALESCE(sum(l.amount) FILTER (WHERE l.kind = 'refund'), 0) AS refunds
+        FROM lines l
+        LEFT JOIN products p ON p.id = l.product_id
+        GROUP BY l.product_id, p.name
+      ) t
+    ),
+    'by_category', (
+      SELECT COALESCE(jsonb_agg(to_jsonb(t) ORDER BY t.gross DESC, t.label), '[]'::jsonb)
+      FROM (
+        SELECT
+          COALESCE(l.category_id::text, 'uncategorized') AS key,
+          COALESCE(c.name, 'Uncategorized') AS label,
+          count(DISTINCT l.order_id) FILTER (WHERE l.kind = 'sale') AS order_count,
+          COALESCE(sum(l.quantity) FILTER (WHERE l.kind = 'sale'), 0) AS quantity,
+          COALESCE(sum(l.amount) FILTER (WHERE l.kind = 'sale'), 0) AS gross,
+          COALESCE(sum(l.tax) FILTER (WHERE l.kind = 'sale'), 0) - COALESCE(sum(l.tax) FILTER (WHERE l.kind = 'refund'), 0) AS tax,
+          COALESCE(sum(l.amount) FILTER (WHERE l.kind = 'refund'), 0) AS refunds
+        FROM lines l
+        LEFT JOIN categories c ON c.id = l.category_id
+        GROUP BY l.category_id, c.name
+      ) t
+    ),
+    'by_modifier', (
+      SELECT COALESCE(jsonb_agg(to_jsonb(t) ORDER BY t.quantity DESC, t.label), '[]'::jsonb)
+      FROM (
+        SELECT
+          modifier_id AS key,
+          min(label) AS label,
+          count(DISTINCT order_id) FILTER (WHERE kind = 'sale') AS order_count,
+          COALESCE(sum(quantity) FILTER (WHERE kind = 'sale'), 0) AS quantity,
+          COALESCE(sum(amount) FILTER (WHERE kind = 'sale'), 0) AS gross,
+          COALESCE(sum(tax) FILTER (WHERE kind = 'sale'), 0) - COALESCE(sum(tax) FILTER (WHERE kind = 'refund'), 0) AS tax,
+          COALESCE(sum(amount) FILTER (WHERE kind = 'refund'), 0) AS refunds
+        FROM modifier_facts
+        GROUP BY modifier_id
+      ) t
+    ),
+    'by_staff', (
+      SELECT COALESCE(jsonb_agg(to_jsonb(t) ORDER BY t.gross DESC, t.label), '[]'::jsonb)
+      FROM (
+        SELECT
+          l.user_id::text AS key,
+          COALESCE(pr.full_name, pr.email, 'Unknown') AS label,
+          count(DISTINCT l.order_id) FILTER (WHERE l.kind = 'sale') AS order_count,
+          COALESCE(sum(l.quantity) FILTER (WHERE l.kind = 'sale'), 0) AS quantity,
+          COALESCE(sum(l.amount) FILTER (WHERE l.kind = 'sale'), 0) AS gross,
+          COALESCE(sum(l.tax) FILTER (WHERE l.kind = 'sale'), 0) - COALESCE(sum(l.tax) FILTER (WHERE l.kind = 'refund'), 0) AS tax,
+          COALESCE(sum(l.amount) FILTER (WHERE l.kind = 'refund'), 0) AS refunds
+        FROM lines l
+        LEFT JOIN profiles pr ON pr.id = l.user_id
+        GROUP BY l.user_id, pr.full_name, pr.email
+      ) t
+    ),
+    'by_payment_method', (
+      SELECT COALESCE(jsonb_agg(to_jsonb(t) ORDER BY t.gross DESC, t.key), '[]'::jsonb)
+      FROM (
+        SELECT
+          payment_method AS key,
+          payment_method AS label,
+          count(DISTINCT order_id) FILTER (WHERE kind = 'payment') AS order_count,
+          0 AS quantity,
+          COALESCE(sum(amount) FILTER (WHERE kind = 'payment'), 0) AS gross,
+          COALESCE(sum(tax) FILTER (WHERE kind = 'payment'), 0) - COALESCE(sum(tax) FILTER (WHERE kind = 'refund'), 0) AS tax,
+          COALESCE(sum(amount) FILTER (WHERE kind = 'refund'), 0) AS refunds
+        FROM tenders
+        GROUP BY payment_method
+      ) t
+    )
+  )
+  INTO v_report;
+
+  RETURN v_report;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION get_sales_report TO authenticated;
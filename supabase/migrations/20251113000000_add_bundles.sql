@@ -0,0 +1,1522 @@
+-- Bundles and combos
+--
+-- 1. New Tables
+--    - bundle_components: the products a bundle is made of and how many of
+--      each go into one bundle (e.g. Meal = 1 Burger + 1 Fries + 1 Soda)
+--
+-- 2. Modified Tables
+--    - order_items.components: a bundle's components when it was sold,
+--      snapshotted as [{product_id, name, quantity, price}] (quantity per
+--      bundle, price the component's own price) so returns restock and
+--      reports split what was actually sold
+--
+-- 3. Functions
+--    - product_is_bundle(product_id)
+--    - product_holds_stock(product_id): neither a bundle nor a product with
+--      variants
+--    - expand_bundle_items(items): the stock a list of [{product_id,
+--      quantity}] takes, with bundles replaced by their components and one
+--      entry per product
+--    - set_bundle_components(bundle_id, components): replaces a bundle's
+--      components; an empty list makes it an ordinary product again. Admin
+--      only
+--    - prevent_bundle_variants (trigger): bundles and their components
+--      cannot gain variants
+--    - decrement_product_stock / decrement_multiple_product_stock /
+--      increment_product_stock: refuse bundles, which hold no stock
+--    - checkout_order: checks, locks and decrements the components of the
+--      bundles sold and snapshots them into order_items.components
+--    - refund_order: restocks a returned bundle's components
+--    - get_stocktake_counts / get_stocktake_report / get_reorder_report:
+--      leave bundles out; bundle sales count towards their components'
+--      reorder suggestions
+--    - record_stocktake_count: refuses bundles and products with variants
+--    - approve_stocktake: skips counts of products that no longer hold stock,
+--      such as a product made a bundle after it was counted
+--    - get_sales_report: adds by_component, which splits bundle revenue over
+--      the components
+--
+-- 4. Important Notes
+--    - A bundle is a product with components. It sells at its own price and
+--      tax class, and how many can be sold is set by its scarcest component
+--      (getBundleStock in utils/bundles.ts)
+--    - Components must hold stock themselves: a bundle cannot contain
+--      another bundle or a product with variants (add a specific variant)
+--    - A product must have no stock of its own to become a bundle
+
+CREATE TABLE IF NOT EXISTS bundle_components (
+  bundle_id uuid NOT NULL REFERENCES products(id) ON DELETE CASCADE,
+  component_id uuid NOT NULL REFERENCES products(id) ON DELETE RESTRICT,
+  quantity integer NOT NULL CHECK (quantity > 0),
+  created_at timestamptz DEFAULT now(),
+  PRIMARY KEY (bundle_id, component_id),
+  CONSTRAINT bundle_components_not_self_check CHECK (bundle_id <> component_id)
+);
+
+CREATE INDEX IF NOT EXISTS bundle_components_component_id_idx ON bundle_components(component_id);
+
+ALTER TABLE order_items
+  ADD COLUMN IF NOT EXISTS components jsonb NOT NULL DEFAULT '[]'::jsonb;
+
+ALTER TABLE bundle_components ENABLE ROW LEVEL SECURITY;
+
+-- Components are changed through set_bundle_components
+CREATE POLICY "Anyone can view bundle components"
+  ON bundle_components FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE OR REPLACE FUNCTION product_is_bundle(p_product_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT EXISTS (SELECT 1 FROM bundle_components WHERE bundle_id = p_product_id);
+$$;
+
+CREATE OR REPLACE FUNCTION product_holds_stock(p_product_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT NOT product_has_variants(p_product_id) AND NOT product_is_bundle(p_product_id);
+$$;
+
+-- Same as expandBundleItems in utils/bundles.ts
+CREATE OR REPLACE FUNCTION expand_bundle_items(p_items jsonb)
+RETURNS jsonb
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT COALESCE(
+    jsonb_agg(jsonb_build_object('product_id', expanded.product_id, 'quantity', expanded.quantity) ORDER BY expanded.product_id),
+    '[]'::jsonb
+  )
+  FROM (
+    SELECT
+      COALESCE(bc.component_id, x.product_id) AS product_id,
+      SUM(x.quantity * COALESCE(bc.quantity, 1))::integer AS quantity
+    FROM jsonb_to_recordset(COALESCE(p_items, '[]'::jsonb)) AS x(product_id uuid, quantity integer)
+    LEFT JOIN bundle_components bc ON bc.bundle_id = x.product_id
+    GROUP BY COALESCE(bc.component_id, x.product_id)
+  ) expanded;
+$$;
+
+GRANT EXECUTE ON FUNCTION product_is_bundle TO authenticated;
+GRANT EXECUTE ON FUNCTION product_holds_stock TO authenticated;
+GRANT EXECUTE ON FUNCTION expand_bundle_items TO authenticated;
+
+CREATE OR REPLACE FUNCTION set_bundle_components(
+  p_bundle_id uuid,
+  p_components jsonb  -- Array of objects with product_id and quantity
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_bundle products%ROWTYPE;
+  v_component record;
+BEGIN
+  IF NOT is_admin() THEN
+    RAISE EXCEPTION 'Only admins can edit bundles';
+  END IF;
+
+  SELECT * INTO v_bundle
+  FROM products
+  WHERE id = p_bundle_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Product not found: %', p_bundle_id;
+  END IF;
+
+  IF p_components IS NULL OR jsonb_typeof(p_components) <> 'array' THEN
+    RAISE EXCEPTION 'Components must be a list';
+  END IF;
+
+  IF jsonb_array_length(p_components) > 0 THEN
+    IF v_bundle.parent_id IS NOT NULL OR product_has_variants(p_bundle_id) THEN
+      RAISE EXCEPTION '% has variants and cannot be a bundle', v_bundle.name;
+    END IF;
+
+    IF EXISTS (SELECT 1 FROM bundle_components WHERE component_id = p_bundle_id) THEN
+      RAISE EXCEPTION '% is part of a bundle and cannot be a bundle itself', v_bundle.name;
+    END IF;
+
+    IF v_bundle.stock <> 0 AND NOT product_is_bundle(p_bundle_id) THEN
+      RAISE EXCEPTION '% still has % in stock; adjust it to zero before making it a bundle', v_bundle.name, v_bundle.stock;
+    END IF;
+  END IF;
+
+  FOR v_component IN
+    SELECT x.product_id, x.quantity, p.id AS found_id, p.name
+    FROM jsonb_to_recordset(p_components) AS x(product_id uuid, quantity integer)
+    LEFT JOIN products p ON p.id = x.product_id
+  LOOP
+    IF v_component.found_id IS NULL THEN
+      RAISE EXCEPTION 'Product not found: %', v_component.product_id;
+    END IF;
+
+    IF v_component.product_id = p_bundle_id THEN
+      RAISE EXCEPTION 'A bundle cannot contain itself';
+    END IF;
+
+    IF NOT product_holds_stock(v_component.product_id) THEN
+      RAISE EXCEPTION '% cannot be a component; choose a product that holds its own stock', v_component.name;
+    END IF;
+
+    IF v_component.quantity IS NULL OR v_component.quantity <= 0 THEN
+      RAISE EXCEPTION 'Invalid quantity for %', v_component.name;
+    END IF;
+  END LOOP;
+
+  IF (SELECT count(DISTINCT x.product_id) <> count(*) FROM jsonb_to_recordset(p_components) AS x(product_id uuid)) THEN
+    RAISE EXCEPTION 'Each component can only be listed once';
+  END IF;
+
+  DELETE FROM bundle_components WHERE bundle_id = p_bundle_id;
+
+  INSERT INTO bundle_components (bundle_id, component_id, quantity)
+  SELECT p_bundle_id, x.product_id, x.quantity
+  FROM jsonb_to_recordset(p_components) AS x(product_id uuid, quantity integer);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION set_bundle_components TO authenticated;
+
+CREATE OR REPLACE FUNCTION prevent_bundle_variants()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NEW.parent_id IS NOT NULL AND (
+    product_is_bundle(NEW.parent_id)
+    OR EXISTS (SELECT 1 FROM bundle_components WHERE component_id = NEW.parent_id)
+  ) THEN
+    RAISE EXCEPTION 'Bundles and their components cannot have variants';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS prevent_bundle_variants_trigger ON products;
+CREATE TRIGGER prevent_bundle_variants_trigger
+  BEFORE INSERT OR UPDATE OF parent_id ON products
+  FOR EACH ROW
+  EXECUTE FUNCTION prevent_bundle_variants();
+
+CREATE OR REPLACE FUNCTION decrement_product_stock(
+  product_id uuid,
+  quantity integer,
+  p_reason text DEFAULT 'sale',
+  p_reference_type text DEFAULT NULL,
+  p_reference_id uuid DEFAULT NULL,
+  p_note text DEFAULT NULL
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  current_stock integer;
+  product_name text;
+BEGIN
+  -- Get current stock and lock the row
+  SELECT stock, name INTO current_stock, product_name
+  FROM products
+  WHERE id = decrement_product_stock.product_id
+  FOR UPDATE;
+
+  -- Check if product exists
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Product not found: %', product_id;
+  END IF;
+
+  -- Stock is held by the variants
+  IF product_has_variants(decrement_product_stock.product_id) THEN
+    RAISE EXCEPTION 'Choose a variant of %', product_name;
+  END IF;
+
+  -- Stock is held by the components
+  IF product_is_bundle(decrement_product_stock.product_id) THEN
+    RAISE EXCEPTION '% is a bundle; its components hold the stock', product_name;
+  END IF;
+
+  -- Check if sufficient stock is available
+  IF current_stock < quantity THEN
+    RAISE EXCEPTION 'Insufficient stock: requested %, available %', quantity, current_stock;
+  END IF;
+
+  -- Update stock
+  UPDATE products
+  SET stock = stock - quantity,
+      updated_at = now()
+  WHERE id = decrement_product_stock.product_id;
+
+  INSERT INTO stock_logs (product_id, quantity_change, remaining_stock, reason, reference_type, reference_id, note)
+  VALUES (product_id, -quantity, current_stock - quantity, p_reason, p_reference_type, p_reference_id, p_note);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION decrement_product_stock TO authenticated;
+
+CREATE OR REPLACE FUNCTION increment_product_stock(
+  product_id uuid,
+  quantity integer,
+  p_reason text DEFAULT 'return',
+  p_reference_type text DEFAULT NULL,
+  p_reference_id uuid DEFAULT NULL,
+  p_note text DEFAULT NULL
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  current_stock integer;
+  product_name text;
+BEGIN
+  -- Get current stock and lock the row
+  SELECT stock, name INTO current_stock, product_name
+  FROM products
+  WHERE id = increment_product_stock.product_id
+  FOR UPDATE;
+
+  -- Check if product exists
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Product not found: %', product_id;
+  END IF;
+
+  -- Stock is held by the components
+  IF product_is_bundle(increment_product_stock.product_id) THEN
+    RAISE EXCEPTION '% is a bundle; its components hold the stock', product_name;
+  END IF;
+
+  -- Update stock
+  UPDATE products
+  SET stock = stock + quantity,
+      updated_at = now()
+  WHERE id = increment_product_stock.product_id;
+
+  INSERT INTO stock_logs (product_id, quantity_change, remaining_stock, reason, reference_type, reference_id, note)
+  VALUES (product_id, quantity, current_stock + quantity, p_reason, p_reference_type, p_reference_id, p_note);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION increment_product_stock TO authenticated;
+
+CREATE OR REPLACE FUNCTION decrement_multiple_product_stock(
+  order_items jsonb,  -- Array of objects with product_id and quantity
+  p_reason text DEFAULT 'sale',
+  p_reference_type text DEFAULT NULL,
+  p_reference_id uuid DEFAULT NULL
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  item_record jsonb;
+  product_id uuid;
+  quantity integer;
+  current_stock integer;
+  product_name text;
+BEGIN
+  -- Process each item in the order
+  FOR item_record IN SELECT * FROM jsonb_array_elements(order_items)
+  LOOP
+    -- Extract product_id and quantity from the JSON object
+    product_id := (item_record->>'product_id')::uuid;
+    quantity := (item_record->>'quantity')::integer;
+
+    -- Get current stock and lock the row
+    SELECT stock, name INTO current_stock, product_name
+    FROM products
+    WHERE id = product_id
+    FOR UPDATE;
+
+    -- Check if product exists
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Product not found: %', product_id;
+    END IF;
+
+    -- Stock is held by the variants
+    IF product_has_variants(product_id) THEN
+      RAISE EXCEPTION 'Choose a variant of %', product_name;
+    END IF;
+
+    -- Stock is held by the components; see expand_bundle_items
+    IF product_is_bundle(product_id) THEN
+      RAISE EXCEPTION '% is a bundle; its components hold the stock', product_name;
+    END IF;
+
+    -- Check if sufficient stock is available
+    IF current_stock < quantity THEN
+      RAISE EXCEPTION 'Insufficient stock for product %: requested %, available %', product_id, quantity, current_stock;
+    END IF;
+
+    -- Update stock
+    UPDATE products
+    SET stock = stock - quantity,
+        updated_at = now()
+    WHERE id = product_id;
+
+    INSERT INTO stock_logs (product_id, quantity_change, remaining_stock, reason, reference_type, reference_id)
+    VALUES (product_id, -quantity, current_stock - quantity, p_reason, p_reference_type, p_reference_id);
+  END LOOP;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION decrement_multiple_product_stock TO authenticated;
+
+CREATE OR REPLACE FUNCTION checkout_order(
+  p_items jsonb,  -- Array of objects with product_id, quantity, optional discount and optional modifier_ids
+  p_payment_method text,  -- Used when p_options has no payments
+  p_options jsonb DEFAULT '{}'::jsonb
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_idempotency_key uuid := NULLIF(p_options->>'idempotency_key', '')::uuid;
+  v_exemption text := NULLIF(p_options->>'tax_exemption', '');
+  v_exemption_id text := NULLIF(btrim(p_options->>'tax_exemption_id'), '');
+  v_order_discount jsonb := NULLIF(p_options->'order_discount', 'null'::jsonb);
+  v_approval_id uuid := NULLIF(p_options->>'discount_approval_id', '')::uuid;
+  v_payments jsonb := NULLIF(p_options->'payments', 'null'::jsonb);
+  v_payment_error jsonb;
+  v_payment_method text;
+  v_prices_include_tax boolean;
+  v_default_tax_class_id uuid;
+  v_threshold numeric;
+  v_items jsonb;
+  v_stock_items jsonb;
+  v_lines jsonb;
+  v_errors jsonb := '[]'::jsonb;
+  v_line record;
+  v_discount_base numeric(10, 2);
+  v_line_discount_total numeric(10, 2);
+  v_order_discount_amount numeric(10, 2);
+  v_discount_total numeric(10, 2);
+  v_needs_approval boolean;
+  v_approved_by uuid;
+  v_used_approval_id uuid;
+  v_total numeric(10, 2);
+  v_tax numeric(10, 2);
+  v_order_id uuid;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF v_idempotency_key IS NOT NULL THEN
+    -- Serialize concurrent replays of the same sale
+    PERFORM pg_advisory_xact_lock(hashtext(v_idempotency_key::text));
+
+    SELECT id INTO v_order_id
+    FROM orders
+    WHERE idempotency_key = v_idempotency_key
+    AND user_id = v_user_id;
+
+    IF FOUND THEN
+      RETURN jsonb_build_object(
+        'order', get_order_json(v_order_id),
+        'errors', '[]'::jsonb,
+        'replayed', true
+      );
+    END IF;
+  END IF;
+
+  IF p_items IS NULL OR jsonb_typeof(p_items) <> 'array' OR jsonb_array_length(p_items) = 0 THEN
+    RETURN jsonb_build_object(
+      'order', NULL,
+      'errors', jsonb_build_array(jsonb_build_object('code', 'EMPTY_CART'))
+    );
+  END IF;
+
+  -- Without explicit tenders the whole total is paid with p_payment_method
+  IF v_payments IS NULL AND (p_payment_method IS NULL OR p_payment_method NOT IN ('cash', 'card', 'mobile')) THEN
+    RETURN jsonb_build_object(
+      'order', NULL,
+      'errors', jsonb_build_array(jsonb_build_object('code', 'INVALID_PAYMENT_METHOD'))
+    );
+  END IF;
+
+  IF v_payments IS NOT NULL AND NOT are_valid_tenders(v_payments) THEN
+    RETURN jsonb_build_object(
+      'order', NULL,
+      'errors', jsonb_build_array(jsonb_build_object('code', 'INVALID_PAYMENT'))
+    );
+  END IF;
+
+  IF v_exemption IS NOT NULL AND (v_exemption NOT IN ('senior_citizen', 'pwd') OR v_exemption_id IS NULL) THEN
+    RETURN jsonb_build_object(
+      'order', NULL,
+      'errors', jsonb_build_array(jsonb_build_object('code', 'INVALID_TAX_EXEMPTION'))
+    );
+  END IF;
+
+  IF NOT is_valid_discount(v_order_discount) THEN
+    RETURN jsonb_build_object(
+      'order', NULL,
+      'errors', jsonb_build_array(jsonb_build_object('code', 'INVALID_DISCOUNT'))
+    );
+  END IF;
+
+  -- Merge duplicate lines so each product and modifier set is priced once;
+  -- the first discount given for a line wins
+  SELECT jsonb_agg(
+    jsonb_build_object(
+      'product_id', product_id,
+      'modifier_ids', to_jsonb(modifier_ids),
+      'modifier_key', array_to_string(modifier_ids, ','),
+      'quantity', quantity,
+      'discount', discount
+    )
+    ORDER BY product_id, array_to_string(modifier_ids, ',') COLLATE "C"
+  )
+  INTO v_items
+  FROM (
+    SELECT raw.product_id,
+           raw.modifier_ids,
+           SUM(raw.quantity) AS quantity,
+           (array_agg(raw.discount) FILTER (
+             WHERE jsonb_typeof(raw.discount) IS DISTINCT FROM 'null'
+             AND raw.discount IS NOT NULL
+           ))[1] AS discount
+    FROM (
+      SELECT (item->>'product_id')::uuid AS product_id,
+             ARRAY(
+               SELECT DISTINCT m::uuid
+               FROM jsonb_array_elements_text(
+                 CASE WHEN jsonb_typeof(item->'modifier_ids') = 'array' THEN item->'modifier_ids' ELSE '[]'::jsonb END
+               ) AS m
+               ORDER BY 1
+             ) AS modifier_ids,
+             (item->>'quantity')::integer AS quantity,
+             item->'discount' AS discount
+      FROM jsonb_array_elements(p_items) AS item
+    ) raw
+    GROUP BY raw.product_id, raw.modifier_ids
+  ) merged;
+
+  -- Stock is held per product, whatever modifiers each line has, and
+  -- bundles take theirs from their components
+  SELECT jsonb_agg(jsonb_build_object('product_id', product_id, 'quantity', quantity) ORDER BY product_id)
+  INTO v_stock_items
+  FROM (
+    SELECT x.product_id, SUM(x.quantity) AS quantity
+    FROM jsonb_to_recordset(v_items) AS x(product_id uuid, quantity integer)
+    GROUP BY x.product_id
+  ) per_product;
+
+  v_stock_items := expand_bundle_items(v_stock_items);
+
+  -- Lock product rows in a stable order to avoid deadlocks between tills
+  PERFORM 1
+  FROM products
+  WHERE id IN (SELECT product_id FROM jsonb_to_recordset(v_stock_items) AS x(product_id uuid, quantity integer))
+  ORDER BY id
+  FOR UPDATE;
+
+  FOR v_line IN
+    SELECT x.product_id, x.quantity, x.discount, x.modifier_ids, p.id AS found_id, p.name, p.active
+    FROM jsonb_to_recordset(v_items) AS x(product_id uuid, quantity integer, discount jsonb, modifier_ids jsonb)
+    LEFT JOIN products p ON p.id = x.product_id
+  LOOP
+    IF v_line.quantity IS NULL OR v_line.quantity <= 0 THEN
+      v_errors := v_errors || jsonb_build_object(
+        'product_id', v_line.product_id,
+        'product_name', v_line.name,
+        'code', 'INVALID_QUANTITY',
+        'requested_qty', v_line.quantity
+      );
+    ELSIF v_line.found_id IS NULL THEN
+      v_errors := v_errors || jsonb_build_object(
+        'product_id', v_line.product_id,
+        'code', 'PRODUCT_NOT_FOUND',
+        'requested_qty', v_line.quantity
+      );
+    ELSIF NOT v_line.active THEN
+      v_errors := v_errors || jsonb_build_object(
+        'product_id', v_line.product_id,
+        'product_name', v_line.name,
+        'code', 'PRODUCT_INACTIVE',
+        'requested_qty', v_line.quantity
+      );
+    ELSIF NOT is_valid_discount(v_line.discount) THEN
+      v_errors := v_errors || jsonb_build_object(
+        'product_id', v_line.product_id,
+        'product_name', v_line.name,
+        'code', 'INVALID_DISCOUNT',
+        'requested_qty', v_line.quantity
+      );
+    ELSIF NOT is_valid_modifier_selection(
+      v_line.product_id,
+      ARRAY(SELECT jsonb_array_elements_text(v_line.modifier_ids)::uuid)
+    ) THEN
+      v_errors := v_errors || jsonb_build_object(
+        'product_id', v_line.product_id,
+        'product_name', v_line.name,
+        'code', 'INVALID_MODIFIERS',
+        'requested_qty', v_line.quantity
+      );
+    END IF;
+  END LOOP;
+
+  -- Lines of the same product share its stock, as do bundles sharing a
+  -- component. Inactive products in the cart are already flagged, but a
+  -- component is checked whatever its status
+  FOR v_line IN
+    SELECT x.product_id, x.quantity, p.name, p.stock
+    FROM jsonb_to_recordset(v_stock_items) AS x(product_id uuid, quantity integer)
+    JOIN products p ON p.id = x.product_id
+    WHERE x.quantity > 0
+    AND (p.active OR p.id NOT IN (SELECT i.product_id FROM jsonb_to_recordset(v_items) AS i(product_id uuid)))
+  LOOP
+    IF COALESCE(v_line.stock, 0) < v_line.quantity THEN
+      v_errors := v_errors || jsonb_build_object(
+        'product_id', v_line.product_id,
+        'product_name', v_line.name,
+        'code', 'INSUFFICIENT_STOCK',
+        'requested_qty', v_line.quantity,
+        'available_stock', COALESCE(v_line.stock, 0)
+      );
+    END IF;
+  END LOOP;
+
+  IF jsonb_array_length(v_errors) > 0 THEN
+    RETURN jsonb_build_object('order', NULL, 'errors', v_errors);
+  END IF;
+
+  SELECT COALESCE((SELECT prices_include_tax FROM tax_settings LIMIT 1), true)
+  INTO v_prices_include_tax;
+
+  SELECT id INTO v_default_tax_class_id FROM tax_classes WHERE is_default;
+
+  -- Price each line, modifiers included, and apply its own discount; bundles
+  -- sell at their own price and snapshot their components
+  SELECT jsonb_agg(to_jsonb(priced) ORDER BY priced.product_id, priced.modifier_key COLLATE "C")
+  INTO v_lines
+  FROM (
+    SELECT
+      base.*,
+      compute_discount_amount(base.discount, base.gross) AS line_discount
+    FROM (
+      SELECT
+        x.product_id,
+        x.modifier_key,
+        COALESCE(mods.modifiers, '[]'::jsonb) AS modifiers,
+        COALESCE(parts.components, '[]'::jsonb) AS components,
+        x.quantity,
+        NULLIF(x.discount, 'null'::jsonb) AS discount,
+        p.price + COALESCE(mods.price_delta, 0) AS price,
+        round((p.price + COALESCE(mods.price_delta, 0)) * x.quantity, 2) AS gross,
+        tc.code AS tax_class_code,
+        COALESCE(tc.rate, 0) AS class_rate,
+        (v_exemption IS NOT NULL AND COALESCE(tc.rate, 0) > 0) AS tax_exempt
+      FROM jsonb_to_recordset(v_items) AS x(
+        product_id uuid, modifier_ids jsonb, modifier_key text, quantity integer, discount jsonb
+      )
+      JOIN products p ON p.id = x.product_id
+      LEFT JOIN categories c ON c.id = p.category_id
+      LEFT JOIN tax_classes tc ON tc.id = COALESCE(p.tax_class_id, c.tax_class_id, v_default_tax_class_id)
+      LEFT JOIN LATERAL (
+        SELECT
+          SUM(m.price_delta) AS price_delta,
+          jsonb_agg(
+            jsonb_build_object('id', m.id, 'group_name', g.name, 'name', m.name, 'price_delta', m.price_delta)
+            ORDER BY g.created_at, g.id, m.position
+          ) AS modifiers
+        FROM jsonb_array_elements_text(x.modifier_ids) AS s(id)
+        JOIN modifiers m ON m.id = s.id::uuid
+        JOIN modifier_groups g ON g.id = m.group_id
+      ) mods ON true
+      LEFT JOIN LATERAL (
+        SELECT jsonb_agg(
+          jsonb_build_object('product_id', cp.id, 'name', cp.name, 'quantity', bc.quantity, 'price', cp.price)
+          ORDER BY cp.name, cp.id
+        ) AS components
+        FROM bundle_components bc
+        JOIN products cp ON cp.id = bc.component_id
+        WHERE bc.bundle_id = x.product_id
+      ) parts ON true
+    ) base
+  ) priced;
+
+  SELECT SUM(l.gross - l.line_discount), SUM(l.line_discount)
+  INTO v_discount_base, v_line_discount_total
+  FROM jsonb_to_recordset(v_lines) AS l(gross numeric, line_discount numeric);
+
+  v_order_discount_amount := compute_discount_amount(v_order_discount, v_discount_base);
+  v_discount_total := v_line_discount_total + v_order_discount_amount;
+
+  SELECT COALESCE((SELECT approval_threshold_percent FROM discount_settings LIMIT 1), 20)
+  INTO v_threshold;
+
+  -- Same rule as requiresDiscountApproval in utils/discounts.ts
+  SELECT EXISTS (
+    SELECT 1
+    FROM jsonb_to_recordset(v_lines) AS l(gross numeric, line_discount numeric)
+    WHERE l.line_discount > 0 AND l.line_discount > round(l.gross * v_threshold / 100, 2)
+  ) OR (
+    v_order_discount_amount > 0 AND v_order_discount_amount > round(v_discount_base * v_threshold / 100, 2)
+  )
+  INTO v_needs_approval;
+
+  IF v_discount_total > 0 AND is_admin() THEN
+    v_approved_by := v_user_id;
+  ELSIF v_needs_approval THEN
+    SELECT id, approved_by INTO v_used_approval_id, v_approved_by
+    FROM discount_approvals
+    WHERE id = v_approval_id
+    AND requested_by = v_user_id
+    AND order_id IS NULL
+    AND expires_at > now()
+    AND max_discount_amount >= v_discount_total
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+      RETURN jsonb_build_object(
+        'order', NULL,
+        'errors', jsonb_build_array(jsonb_build_object('code', 'DISCOUNT_APPROVAL_REQUIRED'))
+      );
+    END IF;
+  END IF;
+
+  -- Spread the order discount over the lines (the last line takes the rounding
+  -- remainder, as in allocateOrderDiscount), then tax what is left
+  SELECT jsonb_agg(to_jsonb(taxed))
+  INTO v_lines
+  FROM (
+    SELECT
+      shared.*,
+      CASE WHEN shared.tax_exempt THEN 0 ELSE shared.class_rate END AS tax_rate,
+      CASE
+        WHEN shared.tax_exempt AND v_prices_include_tax THEN round(shared.net / (1 + shared.class_rate), 2)
+        WHEN shared.tax_exempt THEN shared.net
+        WHEN v_prices_include_tax THEN shared.net - round(shared.net - shared.net / (1 + shared.class_rate), 2)
+        ELSE shared.net
+      END AS taxable_amount,
+      CASE
+        WHEN shared.tax_exempt THEN 0
+        WHEN v_prices_include_tax THEN round(shared.net - shared.net / (1 + shared.class_rate), 2)
+        ELSE round(shared.net * shared.class_rate, 2)
+      END AS tax_amount
+    FROM (
+      SELECT
+        allocated.*,
+        allocated.gross - allocated.line_discount - allocated.order_discount_share AS net
+      FROM (
+        SELECT
+          l.*,
+          CASE
+            WHEN v_order_discount_amount = 0 OR v_discount_base <= 0 THEN 0
+            WHEN l.position = l.line_count THEN v_order_discount_amount - COALESCE(SUM(
+              round(v_order_discount_amount * (l.gross - l.line_discount) / v_discount_base, 2)
+            ) OVER (
+              ORDER BY l.product_id, l.modifier_key COLLATE "C"
+              ROWS BETWEEN UNBOUNDED PRECEDING AND 1 PRECEDING
+            ), 0)
+            ELSE round(v_order_discount_amount * (l.gross - l.line_discount) / v_discount_base, 2)
+          END AS order_discount_share
+        FROM (
+          SELECT
+            r.*,
+            row_number() OVER (ORDER BY r.product_id, r.modifier_key COLLATE "C") AS position,
+            count(*) OVER () AS line_count
+          FROM jsonb_to_recordset(v_lines) AS r(
+            product_id uuid, modifier_key text, modifiers jsonb, components jsonb, quantity integer, discount jsonb,
+            price numeric, gross numeric, tax_class_code text, class_rate numeric, tax_exempt boolean,
+            line_discount numeric
+          )
+        ) l
+      ) allocated
+    ) shared
+  ) taxed;
+
+  SELECT SUM(l.taxable_amount + l.tax_amount), SUM(l.tax_amount)
+  INTO v_total, v_tax
+  FROM jsonb_to_recordset(v_lines) AS l(taxable_amount numeric, tax_amount numeric);
+
+  -- A fully discounted sale has nothing to pay
+  IF v_payments IS NULL THEN
+    v_payments := CASE
+      WHEN v_total > 0 THEN jsonb_build_array(jsonb_build_object('method', p_payment_method, 'amount', v_total))
+      ELSE '[]'::jsonb
+    END;
+  END IF;
+
+  v_payment_error := check_tenders_cover_total(v_payments, v_total);
+  IF v_payment_error IS NOT NULL THEN
+    RETURN jsonb_build_object('order', NULL, 'errors', jsonb_build_array(v_payment_error));
+  END IF;
+
+  SELECT CASE WHEN count(DISTINCT t->>'method') > 1 THEN 'split' ELSE COALESCE(min(t->>'method'), p_payment_method) END
+  INTO v_payment_method
+  FROM jsonb_array_elements(v_payments) AS t;
+
+  INSERT INTO orders (
+    user_id, total, tax, status, payment_method, idempotency_key, tax_exemption, tax_exemption_id,
+    discount_type, discount_value, discount_reason, discount_amount, discount_total,
+    discount_approved_by, discount_approval_id
+  )
+  VALUES (
+    v_user_id, v_total, v_tax, 'completed', v_payment_method, v_idempotency_key,
+    v_exemption, CASE WHEN v_exemption IS NULL THEN NULL ELSE v_exemption_id END,
+    CASE WHEN v_order_discount_amount > 0 THEN v_order_discount->>'type' END,
+    CASE WHEN v_order_discount_amount > 0 THEN (v_order_discount->>'value')::numeric END,
+    CASE WHEN v_order_discount_amount > 0 THEN v_order_discount->>'reason' END,
+    v_order_discount_amount, v_discount_total,
+    v_approved_by, v_used_approval_id
+  )
+  RETURNING id INTO v_order_id;
+
+  IF v_used_approval_id IS NOT NULL THEN
+    UPDATE discount_approvals SET order_id = v_order_id WHERE id = v_used_approval_id;
+  END IF;
+
+  -- Snapshot prices, modifiers, bundle components, discounts and tax for
+  -- historical accuracy
+  INSERT INTO order_items (
+    order_id, product_id, quantity, price, subtotal, modifiers, components,
+    discount_type, discount_value, discount_reason, discount_amount, order_discount_share,
+    tax_class_code, tax_rate, taxable_amount, tax_amount, line_total, tax_exempt
+  )
+  SELECT
+    v_order_id, l.product_id, l.quantity, l.price, l.gross, l.modifiers, l.components,
+    CASE WHEN l.line_discount > 0 THEN l.discount->>'type' END,
+    CASE WHEN l.line_discount > 0 THEN (l.discount->>'value')::numeric END,
+    CASE WHEN l.line_discount > 0 THEN l.discount->>'reason' END,
+    l.line_discount, l.order_discount_share,
+    l.tax_class_code, l.tax_rate, l.taxable_amount, l.tax_amount, l.taxable_amount + l.tax_amount, l.tax_exempt
+  FROM jsonb_to_recordset(v_lines) AS l(
+    product_id uuid, modifiers jsonb, components jsonb, quantity integer, discount jsonb, price numeric, gross numeric,
+    line_discount numeric, order_discount_share numeric,
+    tax_class_code text, tax_rate numeric, taxable_amount numeric, tax_amount numeric, tax_exempt boolean
+  );
+
+  PERFORM record_order_payments(v_order_id, v_payments, v_total);
+
+  PERFORM decrement_multiple_product_stock(v_stock_items, 'sale', 'order', v_order_id);
+
+  RETURN jsonb_build_object(
+    'order', get_order_json(v_order_id),
+    'errors', '[]'::jsonb
+  );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION checkout_order TO authenticated;
+
+CREATE OR REPLACE FUNCTION refund_order(
+  p_order_id uuid,
+  p_items jsonb,  -- Array of objects with order_item_id and quantity
+  p_options jsonb DEFAULT '{}'::jsonb
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_order orders%ROWTYPE;
+  v_item jsonb;
+  v_line order_items%ROWTYPE;
+  v_component record;
+  v_quantity integer;
+  v_line_total numeric(10, 2);
+  v_amount numeric(10, 2);
+  v_total_amount numeric(10, 2) := 0;
+  v_refund_id uuid;
+  v_restock boolean := COALESCE((p_options->>'restock')::boolean, true);
+  v_method text := NULLIF(p_options->>'method', '');
+  v_reason text := NULLIF(btrim(p_options->>'reason'), '');
+BEGIN
+  IF NOT is_admin() THEN
+    RAISE EXCEPTION 'Only admins can process refunds';
+  END IF;
+
+  SELECT * INTO v_order
+  FROM orders
+  WHERE id = p_order_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Order not found: %', p_order_id;
+  END IF;
+
+  IF v_order.status NOT IN ('completed', 'partially_refunded') THEN
+    RAISE EXCEPTION 'Order is % and cannot be refunded', v_order.status;
+  END IF;
+
+  IF p_items IS NULL OR jsonb_typeof(p_items) <> 'array' OR jsonb_array_length(p_items) = 0 THEN
+    RAISE EXCEPTION 'Select at least one item to return';
+  END IF;
+
+  -- Split orders don't say which tender to give back, so default to cash
+  v_method := COALESCE(v_method, NULLIF(v_order.payment_method, 'split'), 'cash');
+  IF v_method NOT IN ('cash', 'card', 'mobile') THEN
+    RAISE EXCEPTION 'Invalid refund method: %', v_method;
+  END IF;
+
+  INSERT INTO refunds (order_id, processed_by, amount, method, reason, restocked)
+  VALUES (p_order_id, auth.uid(), 0, v_method, v_reason, v_restock)
+  RETURNING id INTO v_refund_id;
+
+  FOR v_item IN SELECT * FROM jsonb_array_elements(p_items)
+  LOOP
+    v_quantity := (v_item->>'quantity')::integer;
+
+    SELECT * INTO v_line
+    FROM order_items
+    WHERE id = (v_item->>'order_item_id')::uuid
+      AND order_id = p_order_id
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Order item not found: %', v_item->>'order_item_id';
+    END IF;
+
+    IF v_quantity IS NULL OR v_quantity <= 0 OR v_quantity > v_line.quantity - v_line.refunded_quantity THEN
+      RAISE EXCEPTION 'Invalid return quantity %: % of % already returned', v_quantity, v_line.refunded_quantity, v_line.quantity;
+    END IF;
+
+    v_line_total := COALESCE(v_line.line_total, v_line.subtotal);
+    IF v_line.refunded_quantity + v_quantity = v_line.quantity THEN
+      v_amount := v_line_total - v_line.refunded_amount;
+    ELSE
+      v_amount := round(v_line_total * v_quantity / v_line.quantity, 2);
+    END IF;
+
+    INSERT INTO refund_items (refund_id, order_item_id, product_id, quantity, amount)
+    VALUES (v_refund_id, v_line.id, v_line.product_id, v_quantity, v_amount);
+
+    UPDATE order_items
+    SET refunded_quantity = refunded_quantity + v_quantity,
+        refunded_amount = refunded_amount + v_amount
+    WHERE id = v_line.id;
+
+    -- A bundle goes back as the components it was sold with
+    IF v_restock AND jsonb_array_length(v_line.components) > 0 THEN
+      FOR v_component IN
+        SELECT c.product_id, c.quantity
+        FROM jsonb_to_recordset(v_line.components) AS c(product_id uuid, quantity integer)
+      LOOP
+        PERFORM increment_product_stock(
+          v_component.product_id, v_quantity * v_component.quantity, 'return', 'refund', v_refund_id
+        );
+      END LOOP;
+    ELSIF v_restock THEN
+      PERFORM increment_product_stock(v_line.product_id, v_quantity, 'return', 'refund', v_refund_id);
+    END IF;
+
+    v_total_amount := v_total_amount + v_amount;
+  END LOOP;
+
+  UPDATE refunds SET amount = v_total_amount WHERE id = v_refund_id;
+
+  UPDATE orders
+  SET status = CASE
+    WHEN EXISTS (
+      SELECT 1 FROM order_items
+      WHERE order_id = p_order_id AND refunded_quantity < quantity
+    ) THEN 'partially_refunded'
+    ELSE 'refunded'
+  END
+  WHERE id = p_order_id;
+
+  RETURN jsonb_build_object(
+    'refund_id', v_refund_id,
+    'amount', v_total_amount,
+    'order', get_order_json(p_order_id)
+  );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION refund_order TO authenticated;
+
+CREATE OR REPLACE FUNCTION get_stocktake_counts(p_stocktake_id uuid)
+RETURNS TABLE (
+  product_id uuid,
+  name text,
+  sku text,
+  barcode text,
+  counted_quantity integer
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+AS $$
+  SELECT p.id, p.name, p.sku, p.barcode, si.counted_quantity
+  FROM stocktakes s
+  JOIN products p ON p.active AND (s.category_id IS NULL OR p.category_id = s.category_id)
+  LEFT JOIN stocktake_items si ON si.stocktake_id = s.id AND si.product_id = p.id
+  WHERE s.id = p_stocktake_id
+    AND product_holds_stock(p.id)
+  ORDER BY p.name;
+$$;
+
+CREATE OR REPLACE FUNCTION record_stocktake_count(
+  p_stocktake_id uuid,
+  p_product_id uuid,
+  p_quantity integer,
+  p_mode text DEFAULT 'set'  -- 'set' replaces the count, 'add' adds to it (scanning)
+)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_stocktake stocktakes%ROWTYPE;
+  v_product products%ROWTYPE;
+  v_counted integer;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT * INTO v_stocktake FROM stocktakes WHERE id = p_stocktake_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Stocktake not found: %', p_stocktake_id;
+  END IF;
+
+  IF v_stocktake.status <> 'counting' THEN
+    RAISE EXCEPTION 'Counting has been closed for this stocktake';
+  END IF;
+
+  IF p_mode NOT IN ('set', 'add') THEN
+    RAISE EXCEPTION 'Invalid count mode: %', p_mode;
+  END IF;
+
+  IF p_quantity IS NULL OR p_quantity < 0 OR (p_mode = 'add' AND p_quantity = 0) THEN
+    RAISE EXCEPTION 'Invalid count quantity: %', p_quantity;
+  END IF;
+
+  SELECT * INTO v_product FROM products WHERE id = p_product_id;
+
+  IF NOT FOUND OR NOT v_product.active THEN
+    RAISE EXCEPTION 'Product not found: %', p_product_id;
+  END IF;
+
+  IF product_has_variants(p_product_id) THEN
+    RAISE EXCEPTION 'Choose a variant of %', v_product.name;
+  END IF;
+
+  IF product_is_bundle(p_product_id) THEN
+    RAISE EXCEPTION '% is a bundle; its components hold the stock', v_product.name;
+  END IF;
+
+  IF v_stocktake.category_id IS NOT NULL AND v_product.category_id IS DISTINCT FROM v_stocktake.category_id THEN
+    RAISE EXCEPTION '% is not part of this stocktake', v_product.name;
+  END IF;
+
+  INSERT INTO stocktake_items (stocktake_id, product_id, expected_quantity, counted_quantity)
+  VALUES (p_stocktake_id, p_product_id, v_product.stock, p_quantity)
+  ON CONFLICT (stocktake_id, product_id) DO UPDATE
+  SET counted_quantity = CASE
+        WHEN p_mode = 'add' THEN stocktake_items.counted_quantity + EXCLUDED.counted_quantity
+        ELSE EXCLUDED.counted_quantity
+      END,
+      expected_quantity = CASE
+        WHEN p_mode = 'add' THEN stocktake_items.expected_quantity
+        ELSE EXCLUDED.expected_quantity
+      END,
+      counted_by = auth.uid(),
+      counted_at = now()
+  RETURNING counted_quantity INTO v_counted;
+
+  RETURN v_counted;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION get_stocktake_report(p_stocktake_id uuid)
+RETURNS jsonb
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_stocktake stocktakes%ROWTYPE;
+  v_items jsonb;
+  v_uncounted jsonb;
+BEGIN
+  IF NOT is_admin() THEN
+    RAISE EXCEPTION 'Only admins can view stocktake results';
+  END IF;
+
+  SELECT * INTO v_stocktake FROM stocktakes WHERE id = p_stocktake_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Stocktake not found: %', p_stocktake_id;
+  END IF;
+
+  SELECT COALESCE(jsonb_agg(jsonb_build_object(
+    'product_id', p.id,
+    'name', p.name,
+    'sku', p.sku,
+    'expected_quantity', si.expected_quantity,
+    'counted_quantity', si.counted_quantity,
+    'current_stock', p.stock,
+    'unit_cost', pc.cost_price,
+    'unit_price', p.price
+  ) ORDER BY p.name), '[]'::jsonb)
+  INTO v_items
+  FROM stocktake_items si
+  JOIN products p ON p.id = si.product_id
+  LEFT JOIN product_costs pc ON pc.product_id = p.id
+  WHERE si.stocktake_id = p_stocktake_id;
+
+  SELECT COALESCE(jsonb_agg(jsonb_build_object(
+    'product_id', p.id,
+    'name', p.name,
+    'sku', p.sku,
+    'current_stock', p.stock
+  ) ORDER BY p.name), '[]'::jsonb)
+  INTO v_uncounted
+  FROM products p
+  WHERE p.active
+    AND (v_stocktake.category_id IS NULL OR p.category_id = v_stocktake.category_id)
+    AND product_holds_stock(p.id)
+    AND NOT EXISTS (
+      SELECT 1 FROM stocktake_items si
+      WHERE si.stocktake_id = p_stocktake_id AND si.product_id = p.id
+    );
+
+  RETURN jsonb_build_object(
+    'stocktake', to_jsonb(v_stocktake),
+    'items', v_items,
+    'uncounted', v_uncounted
+  );
+END;
+$$;
+
+-- A product made a bundle or given variants after it was counted holds no
+-- stock to correct, so its count is left out rather than failing the approval
+CREATE OR REPLACE FUNCTION approve_stocktake(p_stocktake_id uuid)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_stocktake stocktakes%ROWTYPE;
+  v_item record;
+  v_change integer;
+  v_note text;
+BEGIN
+  IF NOT is_admin() THEN
+    RAISE EXCEPTION 'Only admins can approve a stocktake';
+  END IF;
+
+  SELECT * INTO v_stocktake FROM stocktakes WHERE id = p_stocktake_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Stocktake not found: %', p_stocktake_id;
+  END IF;
+
+  IF v_stocktake.status <> 'review' THEN
+    RAISE EXCEPTION 'Close counting before approving the stocktake';
+  END IF;
+
+  v_note := 'Stocktake ' || to_char(v_stocktake.created_at, 'YYYY-MM-DD');
+
+  FOR v_item IN
+    SELECT si.product_id, si.expected_quantity, si.counted_quantity, p.stock
+    FROM stocktake_items si
+    JOIN products p ON p.id = si.product_id
+    WHERE si.stocktake_id = p_stocktake_id
+      AND si.counted_quantity <> si.expected_quantity
+      AND product_holds_stock(si.product_id)
+    ORDER BY si.product_id
+    FOR UPDATE OF p
+  LOOP
+    v_change := v_item.counted_quantity - v_item.expected_quantity;
+
+    IF v_change > 0 THEN
+      PERFORM increment_product_stock(v_item.product_id, v_change, 'count_correction', 'stocktake', p_stocktake_id, v_note);
+    ELSE
+      v_change := LEAST(-v_change, v_item.stock);
+      IF v_change > 0 THEN
+        PERFORM decrement_product_stock(v_item.product_id, v_change, 'count_correction', 'stocktake', p_stocktake_id, v_note);
+      END IF;
+    END IF;
+  END LOOP;
+
+  UPDATE stocktakes
+  SET status = 'approved',
+      approved_by = auth.uid(),
+      approved_at = now()
+  WHERE id = p_stocktake_id;
+
+  RETURN get_stocktake_report(p_stocktake_id);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION get_reorder_report(p_days integer DEFAULT 30)
+RETURNS TABLE (
+  product_id uuid,
+  name text,
+  sku text,
+  category_name text,
+  stock integer,
+  reorder_point integer,
+  reorder_quantity integer,
+  units_sold integer,
+  on_order integer,
+  cost_price numeric
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY INVOKER
+AS $$
+BEGIN
+  IF NOT is_admin() THEN
+    RAISE EXCEPTION 'Only admins can view reorder suggestions';
+  END IF;
+
+  IF p_days IS NULL OR p_days <= 0 THEN
+    RAISE EXCEPTION 'Invalid sales period: %', p_days;
+  END IF;
+
+  RETURN QUERY
+  -- A bundle sold counts as its components sold
+  WITH sold AS (
+    SELECT
+      COALESCE(c.product_id, oi.product_id) AS product_id,
+      SUM((oi.quantity - COALESCE(ri.returned, 0)) * COALESCE(c.quantity, 1))::integer AS units
+    FROM order_items oi
+    JOIN orders o ON o.id = oi.order_id
+    LEFT JOIN (
+      SELECT order_item_id, SUM(quantity) AS returned
+      FROM refund_items
+      GROUP BY order_item_id
+    ) ri ON ri.order_item_id = oi.id
+    LEFT JOIN LATERAL jsonb_to_recordset(oi.components) AS c(product_id uuid, quantity integer) ON true
+    WHERE o.status <> 'cancelled'
+      AND o.created_at >= now() - make_interval(days => p_days)
+    GROUP BY COALESCE(c.product_id, oi.product_id)
+  ),
+  ordered AS (
+    SELECT
+      poi.product_id,
+      SUM(GREATEST(poi.quantity_ordered - poi.quantity_received, 0))::integer AS units
+    FROM purchase_order_items poi
+    JOIN purchase_orders po ON po.id = poi.purchase_order_id
+    WHERE po.status IN ('sent', 'partially_received')
+    GROUP BY poi.product_id
+  )
+  SELECT
+    p.id,
+    p.name,
+    p.sku,
+    c.name,
+    p.stock,
+    p.reorder_point,
+    p.reorder_quantity,
+    COALESCE(s.units, 0),
+    COALESCE(od.units, 0),
+    pc.cost_price
+  FROM products p
+  LEFT JOIN categories c ON c.id = p.category_id
+  LEFT JOIN sold s ON s.product_id = p.id
+  LEFT JOIN ordered od ON od.product_id = p.id
+  LEFT JOIN product_costs pc ON pc.product_id = p.id
+  WHERE p.active
+    AND product_holds_stock(p.id)
+    AND (p.stock <= p.reorder_point OR COALESCE(s.units, 0) > 0)
+  ORDER BY p.name;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION get_sales_report(
+  p_from timestamptz,
+  p_to timestamptz,
+  p_timezone text DEFAULT 'Asia/Manila'
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+STABLE
+SECURITY INVOKER
+AS $$
+DECLARE
+  v_report jsonb;
+BEGIN
+  IF NOT is_admin() THEN
+    RAISE EXCEPTION 'Only admins can view sales reports';
+  END IF;
+
+  IF p_from IS NULL OR p_to IS NULL OR p_to <= p_from THEN
+    RAISE EXCEPTION 'Invalid report date range';
+  END IF;
+
+  WITH facts AS (
+    SELECT
+      f.*,
+      to_char(f.created_at AT TIME ZONE p_timezone, 'YYYY-MM-DD') AS day,
+      extract(hour FROM f.created_at AT TIME ZONE p_timezone)::integer AS hour
+    FROM sales_report_facts f
+    WHERE f.created_at >= p_from AND f.created_at < p_to
+  ),
+  -- Every breakdown except payment method is built from order lines
+  lines AS (
+    SELECT * FROM facts WHERE kind IN ('sale', 'refund')
+  ),
+  tenders AS (
+    SELECT * FROM facts WHERE kind IN ('payment', 'refund')
+  ),
+  -- Each chosen modifier's share of its line: price_delta / unit price
+  modifier_facts AS (
+    SELECT
+      'sale'::text AS kind,
+      o.id AS order_id,
+      m->>'id' AS modifier_id,
+      (m->>'group_name') || ': ' || (m->>'name') AS label,
+      oi.quantity,
+      CASE WHEN oi.price <> 0
+        THEN round(COALESCE(oi.line_total, oi.subtotal) * (m->>'price_delta')::numeric / oi.price, 2)
+        ELSE 0
+      END AS amount,
+      CASE WHEN oi.price <> 0
+        THEN round(oi.tax_amount * (m->>'price_delta')::numeric / oi.price, 2)
+        ELSE 0
+      END AS tax
+    FROM order_items oi
+    JOIN orders o ON o.id = oi.order_id
+    CROSS JOIN LATERAL jsonb_array_elements(oi.modifiers) AS m
+    WHERE o.status <> 'cancelled'
+    AND o.created_at >= p_from AND o.created_at < p_to
+
+    UNION ALL
+
+    SELECT
+      'refund'::text,
+      r.order_id,
+      m->>'id',
+      (m->>'group_name') || ': ' || (m->>'name'),
+      ri.quantity,
+      CASE WHEN oi.price <> 0
+        THEN round(ri.amount * (m->>'price_delta')::numeric / oi.price, 2)
+        ELSE 0
+      END,
+      CASE
+        WHEN oi.price <> 0 AND COALESCE(oi.line_total, oi.subtotal) > 0
+          THEN round(oi.tax_amount * ri.amount / COALESCE(oi.line_total, oi.subtotal) * (m->>'price_delta')::numeric / oi.price, 2)
+        ELSE 0
+      END
+    FROM refund_items ri
+    JOIN refunds r ON r.id = ri.refund_id
+    JOIN order_items oi ON oi.id = ri.order_item_id
+    CROSS JOIN LATERAL jsonb_array_elements(oi.modifiers) AS m
+    WHERE r.created_at >= p_from AND r.created_at < p_to
+  ),
+  component_lines AS (
+    SELECT
+      'sale'::text AS kind,
+      o.id AS order_id,
+      oi.product_id,
+      oi.components,
+      oi.quantity,
+      COALESCE(oi.line_total, oi.subtotal) AS amount,
+      oi.tax_amount AS tax
+    FROM order_items oi
+    JOIN orders o ON o.id = oi.order_id
+    WHERE o.status <> 'cancelled'
+    AND o.created_at >= p_from AND o.created_at < p_to
+
+    UNION ALL
+
+    SELECT
+      'refund'::text,
+      r.order_id,
+      oi.product_id,
+      oi.components,
+      ri.quantity,
+      ri.amount,
+      CASE
+        WHEN COALESCE(oi.line_total, oi.subtotal) > 0
+          THEN round(oi.tax_amount * ri.amount / COALESCE(oi.line_total, oi.subtotal), 2)
+        ELSE 0
+      END
+    FROM refund_items ri
+    JOIN refunds r ON r.id = ri.refund_id
+    JOIN order_items oi ON oi.id = ri.order_item_id
+    WHERE r.created_at >= p_from AND r.created_at < p_to
+  ),
+  -- Bundle lines split over their components by each component's own price
+  -- times its quantity (by quantity when they are all free); other lines
+  -- count as themselves
+  component_facts AS (
+    SELECT kind, order_id, product_id, quantity, amount, tax
+    FROM component_lines
+    WHERE jsonb_array_length(components) = 0
+
+    UNION ALL
+
+    SELECT
+      cl.kind,
+      cl.order_id,
+      c.product_id,
+      cl.quantity * c.quantity,
+      round(cl.amount * c.weight, 2),
+      round(cl.tax * c.weight, 2)
+    FROM component_lines cl
+    CROSS JOIN LATERAL (
+      SELECT
+        x.product_id,
+        x.quantity,
+        CASE WHEN sum(x.price * x.quantity) OVER () > 0
+          THEN x.price * x.quantity / sum(x.price * x.quantity) OVER ()
+          ELSE x.quantity::numeric / sum(x.quantity) OVER ()
+        END AS weight
+      FROM jsonb_to_recordset(cl.components) AS x(product_id uuid, quantity integer, price numeric)
+    ) c
+    WHERE jsonb_array_length(cl.components) > 0
+  )
+  SELECT jsonb_build_object(
+    'summary', (
+      SELECT jsonb_build_object(
+        'order_count', count(DISTINCT order_id) FILTER (WHERE kind = 'sale'),
+        'item_count', COALESCE(sum(quantity) FILTER (WHERE kind = 'sale'), 0),
+        'gross', COALESCE(sum(amount) FILTER (WHERE kind = 'sale'), 0),
+        'tax', COALESCE(sum(tax) FILTER (WHERE kind = 'sale'), 0) - COALESCE(sum(tax) FILTER (WHERE kind = 'refund'), 0),
+        'refunds', COALESCE(sum(amount) FILTER (WHERE kind = 'refund'), 0)
+      )
+      FROM lines
+    ),
+    'by_day', (
+      SELECT COALESCE(jsonb_agg(to_jsonb(t) ORDER BY t.key), '[]'::jsonb)
+      FROM (
+        SELECT
+          day AS key,
+          day AS label,
+          count(DISTINCT order_id) FILTER (WHERE kind = 'sale') AS order_count,
+          COALESCE(sum(quantity) FILTER (WHERE kind = 'sale'), 0) AS quantity,
+          COALESCE(sum(amount) FILTER (WHERE kind = 'sale'), 0) AS gross,
+          COALESCE(sum(tax) FILTER (WHERE kind = 'sale'), 0) - COALESCE(sum(tax) FILTER (WHERE kind = 'refund'), 0) AS tax,
+          COALESCE(sum(amount) FILTER (WHERE kind = 'refund'), 0) AS refunds
+        FROM lines
+        GROUP BY day
+      ) t
+    ),
+    'by_hour', (
+      SELECT COALESCE(jsonb_agg(to_jsonb(t) ORDER BY t.hour), '[]'::jsonb)
+      FROM (
+        SELECT
+          hour,
+          hour::text AS key,
+          lpad(hour::text, 2, '0') || ':00' AS label,
+          count(DISTINCT order_id) FILTER (WHERE kind = 'sale') AS order_count,
+          COALESCE(sum(quantity) FILTER (WHERE kind = 'sale'), 0) AS quantity,
+          COALESCE(sum(amount) FILTER (WHERE kind = 'sale'), 0) AS gross,
+          COALESCE(sum(tax) FILTER (WHERE kind = 'sale'), 0) - COALESCE(sum(tax) FILTER (WHERE kind = 'refund'), 0) AS tax,
+          COALESCE(sum(amount) FILTER (WHERE kind = 'refund'), 0) AS refunds
+        FROM lines
+        GROUP BY hour
+      ) t
+    ),
+    'by_product', (
+      SELECT COALESCE(jsonb_agg(to_jsonb(t) ORDER BY t.gross DESC, t.label), '[]'::jsonb)
+      FROM (
+        SELECT
+          l.product_id::text AS key,
+          COALESCE(p.name, 'Deleted product') AS label,
+          count(DISTINCT l.order_id) FILTER (WHERE l.kind = 'sale') AS order_count,
+          COALESCE(sum(l.quantity) FILTER (WHERE l.kind = 'sale'), 0) AS quantity,
+          COALESCE(sum(l.amount) FILTER (WHERE l.kind = 'sale'), 0) AS gross,
+          COALESCE(sum(l.tax) FILTER (WHERE l.kind = 'sale'), 0) - COALESCE(sum(l.tax) FILTER (WHERE l.kind = 'refund'), 0) AS tax,
+          COALESCE(sum(l.amount) FILTER (WHERE l.kind = 'refund'), 0) AS refunds
+        FROM lines l
+        LEFT JOIN products p ON p.id = l.product_id
+        GROUP BY l.product_id, p.name
+      ) t
+    ),
+    'by_component', (
+      SELECT COALESCE(jsonb_agg(to_jsonb(t) ORDER BY t.gross DESC, t.label), '[]'::jsonb)
+      FROM (
+        SELECT
+          f.product_id::text AS key,
+          COALESCE(p.name, 'Deleted product') AS label,
+          count(DISTINCT f.order_id) FILTER (WHERE f.kind = 'sale') AS order_count,
+          COALESCE(sum(f.quantity) FILTER (WHERE f.kind = 'sale'), 0) AS quantity,
+          COALESCE(sum(f.amount) FILTER (WHERE f.kind = 'sale'), 0) AS gross,
+          COALESCE(sum(f.tax) FILTER (WHERE f.kind = 'sale'), 0) - COALESCE(sum(f.tax) FILTER (WHERE f.kind = 'refund'), 0) AS tax,
+          COALESCE(sum(f.amount) FILTER (WHERE f.kind = 'refund'), 0) AS refunds
+        FROM component_facts f
+        LEFT JOIN products p ON p.id = f.product_id
+        GROUP BY f.product_id, p.name
+      ) t
+    ),
+    'by_category', (
+      SELECT COALESCE(jsonb_agg(to_jsonb(t) ORDER BY t.gross DESC, t.label), '[]'::jsonb)
+      FROM (
+        SELECT
+          COALESCE(l.category_id::text, 'uncategorized') AS key,
+          COALESCE(c.name, 'Uncategorized') AS label,
+          count(DISTINCT l.order_id) FILTER (WHERE l.kind = 'sale') AS order_count,
+          COALESCE(sum(l.quantity) FILTER (WHERE l.kind = 'sale'), 0) AS quantity,
+          COALESCE(sum(l.amount) FILTER (WHERE l.kind = 'sale'), 0) AS gross,
+          COALESCE(sum(l.tax) FILTER (WHERE l.kind = 'sale'), 0) - COALESCE(sum(l.tax) FILTER (WHERE l.kind = 'refund'), 0) AS tax,
+          COALESCE(sum(l.amount) FILTER (WHERE l.kind = 'refund'), 0) AS refunds
+        FROM lines l
+        LEFT JOIN categories c ON c.id = l.category_id
+        GROUP BY l.category_id, c.name
+      ) t
+    ),
+    'by_modifier', (
+      SELECT COALESCE(jsonb_agg(to_jsonb(t) ORDER BY t.quantity DESC, t.label), '[]'::jsonb)
+      FROM (
+        SELECT
+          modifier_id AS key,
+          min(label) AS label,
+          count(DISTINCT order_id) FILTER (WHERE kind = 'sale') AS order_count,
+          COALESCE(sum(quantity) FILTER (WHERE kind = 'sale'), 0) AS quantity,
+          COALESCE(sum(amount) FILTER (WHERE kind = 'sale'), 0) AS gross,
+          COALESCE(sum(tax) FILTER (WHERE kind = 'sale'), 0) - COALESCE(sum(tax) FILTER (WHERE kind = 'refund'), 0) AS tax,
+          COALESCE(sum(amount) FILTER (WHERE kind = 'refund'), 0) AS refunds
+        FROM modifier_facts
+        GROUP BY modifier_id
+      ) t
+    ),
+    'by_staff', (
+      SELECT COALESCE(jsonb_agg(to_jsonb(t) ORDER BY t.gross DESC, t.label), '[]'::jsonb)
+      FROM (
+        SELECT
+          l.user_id::text AS key,
+          COALESCE(pr.full_name, pr.email, 'Unknown') AS label,
+          count(DISTINCT l.order_id) FILTER (WHERE l.kind = 'sale') AS order_count,
+          COALESCE(sum(l.quantity) FILTER (WHERE l.kind = 'sale'), 0) AS quantity,
+          COALESCE(sum(l.amount) FILTER (WHERE l.kind = 'sale'), 0) AS gross,
+          COALESCE(sum(l.tax) FILTER (WHERE l.kind = 'sale'), 0) - COALESCE(sum(l.tax) FILTER (WHERE l.kind = 'refund'), 0) AS tax,
+          COALESCE(sum(l.amount) FILTER (WHERE l.kind = 'refund'), 0) AS refunds
+        FROM lines l
+        LEFT JOIN profiles pr ON pr.id = l.user_id
+        GROUP BY l.user_id, pr.full_name, pr.email
+      ) t
+    ),
+    'by_payment_method', (
+      SELECT COALESCE(jsonb_agg(to_jsonb(t) ORDER BY t.gross DESC, t.key), '[]'::jsonb)
+      FROM (
+        SELECT
+          payment_method AS key,
+          payment_method AS label,
+          count(DISTINCT order_id) FILTER (WHERE kind = 'payment') AS order_count,
+          0 AS quantity,
+          COALESCE(sum(amount) FILTER (WHERE kind = 'payment'), 0) AS gross,
+          COALESCE(sum(tax) FILTER (WHERE kind = 'payment'), 0) - COALESCE(sum(tax) FILTER (WHERE kind = 'refund'), 0) AS tax,
+          COALESCE(sum(amount) FILTER (WHERE kind = 'refund'), 0) AS refunds
+        FROM tenders
+        GROUP BY payment_method
+      ) t
+    )
+  )
+  INTO v_report;
+
+  RETURN v_report;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION get_sales_report TO authenticated;
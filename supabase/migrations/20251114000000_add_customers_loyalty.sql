@@ -0,0 +1,917 @@
+-- Customers and loyalty points
+--
+-- 1. New Tables
+--    - customers: who bought (name, phone, email, notes). Phone numbers are
+--      unique so the same customer isn't entered twice
+--    - loyalty_transactions: the points ledger. A customer's balance is the
+--      sum of their rows; kinds are earn, redeem, reversal (earned or
+--      redeemed points given back when an order is cancelled or refunded)
+--      and refund (a refund paid out as points)
+--
+-- 2. Modified Tables
+--    - orders.customer_id: optional customer the sale is for
+--    - orders.points_earned / orders.points_redeemed: what the sale earned
+--      and spent when it was placed
+--    - store_settings.loyalty_earn_amount: pesos spent per point earned
+--    - store_settings.loyalty_point_value: pesos one point pays for
+--    - order_payments.method, orders.payment_method and refunds.method accept
+--      'points'
+--
+-- 3. Functions
+--    - get_customer_points(customer_id): current balance
+--    - search_customers(query): customers whose name, phone or email match,
+--      with their balance
+--    - are_valid_tenders: accepts 'points' tenders
+--    - checkout_order: takes an optional customer_id; points tenders are
+--      checked against and taken from the customer's balance, and completed
+--      sales earn points on what was not paid with points
+--    - refund_order: a 'points' refund is credited to the customer's balance
+--    - reconcile_order_points (trigger): whenever an order's status is set,
+--      earned points follow the share of the order that was kept and
+--      redeemed points come back if the order is cancelled. This covers
+--      refund_order and status changes made through updateOrderStatus
+--    - prevent_sensitive_order_updates: the customer and points can't be
+--      changed after the sale
+--
+-- 4. Important Notes
+--    - Points tenders must pay for a whole number of points and need a
+--      connection, since the balance is checked at checkout
+--    - Points earned on an order that is later refunded are taken back even
+--      if they were already spent, so a balance can go below zero
+
+CREATE TABLE IF NOT EXISTS customers (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  name text NOT NULL CHECK (btrim(name) <> ''),
+  phone text,
+  email text,
+  notes text,
+  created_by uuid REFERENCES profiles(id) DEFAULT auth.uid(),
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS customers_phone_key ON customers(phone) WHERE phone IS NOT NULL;
+CREATE INDEX IF NOT EXISTS customers_name_idx ON customers(lower(name));
+
+ALTER TABLE orders
+  ADD COLUMN IF NOT EXISTS customer_id uuid REFERENCES customers(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS points_earned integer NOT NULL DEFAULT 0 CHECK (points_earned >= 0),
+  ADD COLUMN IF NOT EXISTS points_redeemed integer NOT NULL DEFAULT 0 CHECK (points_redeemed >= 0);
+
+CREATE INDEX IF NOT EXISTS orders_customer_id_idx ON orders(customer_id);
+
+CREATE TABLE IF NOT EXISTS loyalty_transactions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  customer_id uuid NOT NULL REFERENCES customers(id) ON DELETE CASCADE,
+  order_id uuid REFERENCES orders(id) ON DELETE SET NULL,
+  refund_id uuid REFERENCES refunds(id) ON DELETE SET NULL,
+  kind text NOT NULL CHECK (kind IN ('earn', 'redeem', 'reversal', 'refund')),
+  points integer NOT NULL CHECK (points <> 0),
+  created_by uuid REFERENCES profiles(id) DEFAULT auth.uid(),
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS loyalty_transactions_customer_id_idx ON loyalty_transactions(customer_id, created_at);
+CREATE INDEX IF NOT EXISTS loyalty_transactions_order_id_idx ON loyalty_transactions(order_id);
+
+ALTER TABLE store_settings
+  ADD COLUMN IF NOT EXISTS loyalty_earn_amount numeric(10, 2) NOT NULL DEFAULT 100 CHECK (loyalty_earn_amount > 0),
+  ADD COLUMN IF NOT EXISTS loyalty_point_value numeric(10, 2) NOT NULL DEFAULT 1 CHECK (loyalty_point_value > 0);
+
+ALTER TABLE order_payments DROP CONSTRAINT IF EXISTS order_payments_method_check;
+ALTER TABLE order_payments ADD CONSTRAINT order_payments_method_check
+  CHECK (method IN ('cash', 'card', 'mobile', 'points'));
+
+ALTER TABLE orders DROP CONSTRAINT IF EXISTS orders_payment_method_check;
+ALTER TABLE orders ADD CONSTRAINT orders_payment_method_check
+  CHECK (payment_method IN ('cash', 'card', 'mobile', 'points', 'split'));
+
+ALTER TABLE refunds DROP CONSTRAINT IF EXISTS refunds_method_check;
+ALTER TABLE refunds ADD CONSTRAINT refunds_method_check
+  CHECK (method IN ('cash', 'card', 'mobile', 'points'));
+
+ALTER TABLE customers ENABLE ROW LEVEL SECURITY;
+ALTER TABLE loyalty_transactions ENABLE ROW LEVEL SECURITY;
+
+-- Cashiers look up and register customers at the till
+CREATE POLICY "Anyone can view customers"
+  ON customers FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Users can create customers"
+  ON customers FOR INSERT
+  TO authenticated
+  WITH CHECK (true);
+
+CREATE POLICY "Users can update customers"
+  ON customers FOR UPDATE
+  TO authenticated
+  USING (true)
+  WITH CHECK (true);
+
+CREATE POLICY "Admins can delete customers"
+  ON customers FOR DELETE
+  TO authenticated
+  USING (is_admin());
+
+-- Ledger rows are only written by checkout_order, refund_order and
+-- reconcile_order_points
+CREATE POLICY "Anyone can view loyalty transactions"
+  ON loyalty_transactions FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE OR REPLACE FUNCTION get_customer_points(p_customer_id uuid)
+RETURNS integer
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT COALESCE(SUM(points), 0)::integer
+  FROM loyalty_transactions
+  WHERE customer_id = p_customer_id;
+$$;
+
+CREATE OR REPLACE FUNCTION search_customers(p_query text DEFAULT NULL, p_limit integer DEFAULT 20)
+RETURNS TABLE (
+  id uuid,
+  name text,
+  phone text,
+  email text,
+  notes text,
+  created_at timestamptz,
+  points integer
+)
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT c.id, c.name, c.phone, c.email, c.notes, c.created_at, get_customer_points(c.id)
+  FROM customers c
+  WHERE NULLIF(btrim(p_query), '') IS NULL
+    OR c.name ILIKE '%' || btrim(p_query) || '%'
+    OR c.phone ILIKE '%' || btrim(p_query) || '%'
+    OR c.email ILIKE '%' || btrim(p_query) || '%'
+  ORDER BY lower(c.name), c.created_at
+  LIMIT LEAST(GREATEST(COALESCE(p_limit, 20), 1), 100);
+$$;
+
+GRANT EXECUTE ON FUNCTION get_customer_points TO authenticated;
+GRANT EXECUTE ON FUNCTION search_customers TO authenticated;
+
+-- Shape check: a non-empty array of {method, amount > 0}
+CREATE OR REPLACE FUNCTION are_valid_tenders(p_payments jsonb)
+RETURNS boolean
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE
+    WHEN jsonb_typeof(p_payments) <> 'array' OR jsonb_array_length(p_payments) = 0 THEN false
+    ELSE NOT EXISTS (
+      SELECT 1
+      FROM jsonb_array_elements(p_payments) AS t
+      WHERE jsonb_typeof(t) <> 'object'
+      OR COALESCE(t->>'method' NOT IN ('cash', 'card', 'mobile', 'points'), true)
+      OR jsonb_typeof(t->'amount') IS DISTINCT FROM 'number'
+      OR CASE WHEN jsonb_typeof(t->'amount') = 'number' THEN (t->>'amount')::numeric <= 0 ELSE true END
+    )
+  END;
+$$;
+
+-- The customer and points are part of the sale, like its totals
+CREATE OR REPLACE FUNCTION prevent_sensitive_order_updates()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  -- Check if sensitive fields are being updated by non-superuser
+  IF (
+    TG_OP = 'UPDATE' AND
+    (
+      OLD.user_id IS DISTINCT FROM NEW.user_id OR
+      OLD.total IS DISTINCT FROM NEW.total OR
+      OLD.tax IS DISTINCT FROM NEW.tax OR
+      OLD.payment_method IS DISTINCT FROM NEW.payment_method OR
+      OLD.tax_exemption IS DISTINCT FROM NEW.tax_exemption OR
+      OLD.tax_exemption_id IS DISTINCT FROM NEW.tax_exemption_id OR
+      OLD.discount_amount IS DISTINCT FROM NEW.discount_amount OR
+      OLD.discount_total IS DISTINCT FROM NEW.discount_total OR
+      OLD.discount_approved_by IS DISTINCT FROM NEW.discount_approved_by OR
+      OLD.shift_id IS DISTINCT FROM NEW.shift_id OR
+      OLD.customer_id IS DISTINCT FROM NEW.customer_id OR
+      OLD.points_earned IS DISTINCT FROM NEW.points_earned OR
+      OLD.points_redeemed IS DISTINCT FROM NEW.points_redeemed
+    ) AND
+    NOT pg_has_role(session_user, 'postgres', 'MEMBER')
+  ) THEN
+    RAISE EXCEPTION 'Cannot update sensitive order fields (user_id, total, tax, payment_method, tax exemption, discounts, shift, customer, points) without proper privileges';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Brings the order's ledger rows (other than points refunds) in line with its
+-- status: earned points in proportion to what was kept, redeemed points
+-- returned on cancellation. Refunded value comes back through the refund
+-- method, so redeemed points stay spent when items are returned
+CREATE OR REPLACE FUNCTION reconcile_order_points()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_kept numeric;
+  v_target integer;
+  v_current integer;
+BEGIN
+  IF NEW.customer_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.status IN ('cancelled', 'refunded') THEN
+    v_kept := 0;
+  ELSIF NEW.total > 0 THEN
+    SELECT GREATEST(0, 1 - COALESCE(SUM(refunded_amount), 0) / NEW.total)
+    INTO v_kept
+    FROM order_items
+    WHERE order_id = NEW.id;
+  ELSE
+    v_kept := 1;
+  END IF;
+
+  v_target := floor(NEW.points_earned * v_kept)::integer
+    - CASE WHEN NEW.status = 'cancelled' THEN 0 ELSE NEW.points_redeemed END;
+
+  SELECT COALESCE(SUM(points), 0)::integer
+  INTO v_current
+  FROM loyalty_transactions
+  WHERE order_id = NEW.id
+    AND kind <> 'refund';
+
+  IF v_target <> v_current THEN
+    INSERT INTO loyalty_transactions (customer_id, order_id, kind, points)
+    VALUES (NEW.customer_id, NEW.id, 'reversal', v_target - v_current);
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS reconcile_order_points_trigger ON orders;
+CREATE TRIGGER reconcile_order_points_trigger
+  AFTER UPDATE OF status ON orders
+  FOR EACH ROW
+  EXECUTE FUNCTION reconcile_order_points();
+
+CREATE OR REPLACE FUNCTION checkout_order(
+  p_items jsonb,  -- Array of objects with product_id, quantity, optional discount and optional modifier_ids
+  p_payment_method text,  -- Used when p_options has no payments
+  p_options jsonb DEFAULT '{}'::jsonb
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_idempotency_key uuid := NULLIF(p_options->>'idempotency_key', '')::uuid;
+  v_exemption text := NULLIF(p_options->>'tax_exemption', '');
+  v_exemption_id text := NULLIF(btrim(p_options->>'tax_exemption_id'), '');
+  v_order_discount jsonb := NULLIF(p_options->'order_discount', 'null'::jsonb);
+  v_approval_id uuid := NULLIF(p_options->>'discount_approval_id', '')::uuid;
+  v_payments jsonb := NULLIF(p_options->'payments', 'null'::jsonb);
+  v_customer_id uuid := NULLIF(p_options->>'customer_id', '')::uuid;
+  v_payment_error jsonb;
+  v_payment_method text;
+  v_earn_amount numeric;
+  v_point_value numeric;
+  v_points_amount numeric(10, 2);
+  v_points_redeemed numeric;
+  v_points_balance integer;
+  v_points_earned integer := 0;
+  v_prices_include_tax boolean;
+  v_default_tax_class_id uuid;
+  v_threshold numeric;
+  v_items jsonb;
+  v_stock_items jsonb;
+  v_lines jsonb;
+  v_errors jsonb := '[]'::jsonb;
+  v_line record;
+  v_discount_base numeric(10, 2);
+  v_line_discount_total numeric(10, 2);
+  v_order_discount_amount numeric(10, 2);
+  v_discount_total numeric(10, 2);
+  v_needs_approval boolean;
+  v_approved_by uuid;
+  v_used_approval_id uuid;
+  v_total numeric(10, 2);
+  v_tax numeric(10, 2);
+  v_order_id uuid;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF v_idempotency_key IS NOT NULL THEN
+    -- Serialize concurrent replays of the same sale
+    PERFORM pg_advisory_xact_lock(hashtext(v_idempotency_key::text));
+
+    SELECT id INTO v_order_id
+    FROM orders
+    WHERE idempotency_key = v_idempotency_key
+    AND user_id = v_user_id;
+
+    IF FOUND THEN
+      RETURN jsonb_build_object(
+        'order', get_order_json(v_order_id),
+        'errors', '[]'::jsonb,
+        'replayed', true
+      );
+    END IF;
+  END IF;
+
+  IF p_items IS NULL OR jsonb_typeof(p_items) <> 'array' OR jsonb_array_length(p_items) = 0 THEN
+    RETURN jsonb_build_object(
+      'order', NULL,
+      'errors', jsonb_build_array(jsonb_build_object('code', 'EMPTY_CART'))
+    );
+  END IF;
+
+  -- Without explicit tenders the whole total is paid with p_payment_method
+  IF v_payments IS NULL AND (p_payment_method IS NULL OR p_payment_method NOT IN ('cash', 'card', 'mobile')) THEN
+    RETURN jsonb_build_object(
+      'order', NULL,
+      'errors', jsonb_build_array(jsonb_build_object('code', 'INVALID_PAYMENT_METHOD'))
+    );
+  END IF;
+
+  IF v_payments IS NOT NULL AND NOT are_valid_tenders(v_payments) THEN
+    RETURN jsonb_build_object(
+      'order', NULL,
+      'errors', jsonb_build_array(jsonb_build_object('code', 'INVALID_PAYMENT'))
+    );
+  END IF;
+
+  IF v_customer_id IS NOT NULL AND NOT EXISTS (SELECT 1 FROM customers WHERE id = v_customer_id) THEN
+    RETURN jsonb_build_object(
+      'order', NULL,
+      'errors', jsonb_build_array(jsonb_build_object('code', 'CUSTOMER_NOT_FOUND'))
+    );
+  END IF;
+
+  -- Points are spent from a customer's balance, so they need a whole number
+  -- of points and a customer to take them from
+  SELECT
+    COALESCE((SELECT loyalty_earn_amount FROM store_settings LIMIT 1), 100),
+    COALESCE((SELECT loyalty_point_value FROM store_settings LIMIT 1), 1)
+  INTO v_earn_amount, v_point_value;
+
+  SELECT COALESCE(SUM(round((t->>'amount')::numeric, 2)), 0)
+  INTO v_points_amount
+  FROM jsonb_array_elements(COALESCE(v_payments, '[]'::jsonb)) AS t
+  WHERE t->>'method' = 'points';
+  v_points_redeemed := v_points_amount / v_point_value;
+
+  IF v_points_amount > 0 AND (v_customer_id IS NULL OR v_points_redeemed <> trunc(v_points_redeemed)) THEN
+    RETURN jsonb_build_object(
+      'order', NULL,
+      'errors', jsonb_build_array(jsonb_build_object('code', 'INVALID_PAYMENT'))
+    );
+  END IF;
+
+  IF v_exemption IS NOT NULL AND (v_exemption NOT IN ('senior_citizen', 'pwd') OR v_exemption_id IS NULL) THEN
+    RETURN jsonb_build_object(
+      'order', NULL,
+      'errors', jsonb_build_array(jsonb_build_object('code', 'INVALID_TAX_EXEMPTION'))
+    );
+  END IF;
+
+  IF NOT is_valid_discount(v_order_discount) THEN
+    RETURN jsonb_build_object(
+      'order', NULL,
+      'errors', jsonb_build_array(jsonb_build_object('code', 'INVALID_DISCOUNT'))
+    );
+  END IF;
+
+  -- Merge duplicate lines so each product and modifier set is priced once;
+  -- the first discount given for a line wins
+  SELECT jsonb_agg(
+    jsonb_build_object(
+      'product_id', product_id,
+      'modifier_ids', to_jsonb(modifier_ids),
+      'modifier_key', array_to_string(modifier_ids, ','),
+      'quantity', quantity,
+      'discount', discount
+    )
+    ORDER BY product_id, array_to_string(modifier_ids, ',') COLLATE "C"
+  )
+  INTO v_items
+  FROM (
+    SELECT raw.product_id,
+           raw.modifier_ids,
+           SUM(raw.quantity) AS quantity,
+           (array_agg(raw.discount) FILTER (
+             WHERE jsonb_typeof(raw.discount) IS DISTINCT FROM 'null'
+             AND raw.discount IS NOT NULL
+           ))[1] AS discount
+    FROM (
+      SELECT (item->>'product_id')::uuid AS product_id,
+             ARRAY(
+               SELECT DISTINCT m::uuid
+               FROM jsonb_array_elements_text(
+                 CASE WHEN jsonb_typeof(item->'modifier_ids') = 'array' THEN item->'modifier_ids' ELSE '[]'::jsonb END
+               ) AS m
+               ORDER BY 1
+             ) AS modifier_ids,
+             (item->>'quantity')::integer AS quantity,
+             item->'discount' AS discount
+      FROM jsonb_array_elements(p_items) AS item
+    ) raw
+    GROUP BY raw.product_id, raw.modifier_ids
+  ) merged;
+
+  -- Stock is held per product, whatever modifiers each line has, and
+  -- bundles take theirs from their components
+  SELECT jsonb_agg(jsonb_build_object('product_id', product_id, 'quantity', quantity) ORDER BY product_id)
+  INTO v_stock_items
+  FROM (
+    SELECT x.product_id, SUM(x.quantity) AS quantity
+    FROM jsonb_to_recordset(v_items) AS x(product_id uuid, quantity integer)
+    GROUP BY x.product_id
+  ) per_product;
+
+  v_stock_items := expand_bundle_items(v_stock_items);
+
+  -- Lock product rows in a stable order to avoid deadlocks between tills
+  PERFORM 1
+  FROM products
+  WHERE id IN (SELECT product_id FROM jsonb_to_recordset(v_stock_items) AS x(product_id uuid, quantity integer))
+  ORDER BY id
+  FOR UPDATE;
+
+  FOR v_line IN
+    SELECT x.product_id, x.quantity, x.discount, x.modifier_ids, p.id AS found_id, p.name, p.active
+    FROM jsonb_to_recordset(v_items) AS x(product_id uuid, quantity integer, discount jsonb, modifier_ids jsonb)
+    LEFT JOIN products p ON p.id = x.product_id
+  LOOP
+    IF v_line.quantity IS NULL OR v_line.quantity <= 0 THEN
+      v_errors := v_errors || jsonb_build_object(
+        'product_id', v_line.product_id,
+        'product_name', v_line.name,
+        'code', 'INVALID_QUANTITY',
+        'requested_qty', v_line.quantity
+      );
+    ELSIF v_line.found_id IS NULL THEN
+      v_errors := v_errors || jsonb_build_object(
+        'product_id', v_line.product_id,
+        'code', 'PRODUCT_NOT_FOUND',
+        'requested_qty', v_line.quantity
+      );
+    ELSIF NOT v_line.active THEN
+      v_errors := v_errors || jsonb_build_object(
+        'product_id', v_line.product_id,
+        'product_name', v_line.name,
+        'code', 'PRODUCT_INACTIVE',
+        'requested_qty', v_line.quantity
+      );
+    ELSIF NOT is_valid_discount(v_line.discount) THEN
+      v_errors := v_errors || jsonb_build_object(
+        'product_id', v_line.product_id,
+        'product_name', v_line.name,
+        'code', 'INVALID_DISCOUNT',
+        'requested_qty', v_line.quantity
+      );
+    ELSIF NOT is_valid_modifier_selection(
+      v_line.product_id,
+      ARRAY(SELECT jsonb_array_elements_text(v_line.modifier_ids)::uuid)
+    ) THEN
+      v_errors := v_errors || jsonb_build_object(
+        'product_id', v_line.product_id,
+        'product_name', v_line.name,
+        'code', 'INVALID_MODIFIERS',
+        'requested_qty', v_line.quantity
+      );
+    END IF;
+  END LOOP;
+
+  -- Lines of the same product share its stock, as do bundles sharing a
+  -- component. Inactive products in the cart are already flagged, but a
+  -- component is checked whatever its status
+  FOR v_line IN
+    SELECT x.product_id, x.quantity, p.name, p.stock
+    FROM jsonb_to_recordset(v_stock_items) AS x(product_id uuid, quantity integer)
+    JOIN products p ON p.id = x.product_id
+    WHERE x.quantity > 0
+    AND (p.active OR p.id NOT IN (SELECT i.product_id FROM jsonb_to_recordset(v_items) AS i(product_id uuid)))
+  LOOP
+    IF COALESCE(v_line.stock, 0) < v_line.quantity THEN
+      v_errors := v_errors || jsonb_build_object(
+        'product_id', v_line.product_id,
+        'product_name', v_line.name,
+        'code', 'INSUFFICIENT_STOCK',
+        'requested_qty', v_line.quantity,
+        'available_stock', COALESCE(v_line.stock, 0)
+      );
+    END IF;
+  END LOOP;
+
+  IF jsonb_array_length(v_errors) > 0 THEN
+    RETURN jsonb_build_object('order', NULL, 'errors', v_errors);
+  END IF;
+
+  SELECT COALESCE((SELECT prices_include_tax FROM tax_settings LIMIT 1), true)
+  INTO v_prices_include_tax;
+
+  SELECT id INTO v_default_tax_class_id FROM tax_classes WHERE is_default;
+
+  -- Price each line, modifiers included, and apply its own discount; bundles
+  -- sell at their own price and snapshot their components
+  SELECT jsonb_agg(to_jsonb(priced) ORDER BY priced.product_id, priced.modifier_key COLLATE "C")
+  INTO v_lines
+  FROM (
+    SELECT
+      base.*,
+      compute_discount_amount(base.discount, base.gross) AS line_discount
+    FROM (
+      SELECT
+        x.product_id,
+        x.modifier_key,
+        COALESCE(mods.modifiers, '[]'::jsonb) AS modifiers,
+        COALESCE(parts.components, '[]'::jsonb) AS components,
+        x.quantity,
+        NULLIF(x.discount, 'null'::jsonb) AS discount,
+        p.price + COALESCE(mods.price_delta, 0) AS price,
+        round((p.price + COALESCE(mods.price_delta, 0)) * x.quantity, 2) AS gross,
+        tc.code AS tax_class_code,
+        COALESCE(tc.rate, 0) AS class_rate,
+        (v_exemption IS NOT NULL AND COALESCE(tc.rate, 0) > 0) AS tax_exempt
+      FROM jsonb_to_recordset(v_items) AS x(
+        product_id uuid, modifier_ids jsonb, modifier_key text, quantity integer, discount jsonb
+      )
+      JOIN products p ON p.id = x.product_id
+      LEFT JOIN categories c ON c.id = p.category_id
+      LEFT JOIN tax_classes tc ON tc.id = COALESCE(p.tax_class_id, c.tax_class_id, v_default_tax_class_id)
+      LEFT JOIN LATERAL (
+        SELECT
+          SUM(m.price_delta) AS price_delta,
+          jsonb_agg(
+            jsonb_build_object('id', m.id, 'group_name', g.name, 'name', m.name, 'price_delta', m.price_delta)
+            ORDER BY g.created_at, g.id, m.position
+          ) AS modifiers
+        FROM jsonb_array_elements_text(x.modifier_ids) AS s(id)
+        JOIN modifiers m ON m.id = s.id::uuid
+        JOIN modifier_groups g ON g.id = m.group_id
+      ) mods ON true
+      LEFT JOIN LATERAL (
+        SELECT jsonb_agg(
+          jsonb_build_object('product_id', cp.id, 'name', cp.name, 'quantity', bc.quantity, 'price', cp.price)
+          ORDER BY cp.name, cp.id
+        ) AS components
+        FROM bundle_components bc
+        JOIN products cp ON cp.id = bc.component_id
+        WHERE bc.bundle_id = x.product_id
+      ) parts ON true
+    ) base
+  ) priced;
+
+  SELECT SUM(l.gross - l.line_discount), SUM(l.line_discount)
+  INTO v_discount_base, v_line_discount_total
+  FROM jsonb_to_recordset(v_lines) AS l(gross numeric, line_discount numeric);
+
+  v_order_discount_amount := compute_discount_amount(v_order_discount, v_discount_base);
+  v_discount_total := v_line_discount_total + v_order_discount_amount;
+
+  SELECT COALESCE((SELECT approval_threshold_percent FROM discount_settings LIMIT 1), 20)
+  INTO v_threshold;
+
+  -- Same rule as requiresDiscountApproval in utils/discounts.ts
+  SELECT EXISTS (
+    SELECT 1
+    FROM jsonb_to_recordset(v_lines) AS l(gross numeric, line_discount numeric)
+    WHERE l.line_discount > 0 AND l.line_discount > round(l.gross * v_threshold / 100, 2)
+  ) OR (
+    v_order_discount_amount > 0 AND v_order_discount_amount > round(v_discount_base * v_threshold / 100, 2)
+  )
+  INTO v_needs_approval;
+
+  IF v_discount_total > 0 AND is_admin() THEN
+    v_approved_by := v_user_id;
+  ELSIF v_needs_approval THEN
+    SELECT id, approved_by INTO v_used_approval_id, v_approved_by
+    FROM discount_approvals
+    WHERE id = v_approval_id
+    AND requested_by = v_user_id
+    AND order_id IS NULL
+    AND expires_at > now()
+    AND max_discount_amount >= v_discount_total
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+      RETURN jsonb_build_object(
+        'order', NULL,
+        'errors', jsonb_build_array(jsonb_build_object('code', 'DISCOUNT_APPROVAL_REQUIRED'))
+      );
+    END IF;
+  END IF;
+
+  -- Spread the order discount over the lines (the last line takes the rounding
+  -- remainder, as in allocateOrderDiscount), then tax what is left
+  SELECT jsonb_agg(to_jsonb(taxed))
+  INTO v_lines
+  FROM (
+    SELECT
+      shared.*,
+      CASE WHEN shared.tax_exempt THEN 0 ELSE shared.class_rate END AS tax_rate,
+      CASE
+        WHEN shared.tax_exempt AND v_prices_include_tax THEN round(shared.net / (1 + shared.class_rate), 2)
+        WHEN shared.tax_exempt THEN shared.net
+        WHEN v_prices_include_tax THEN shared.net - round(shared.net - shared.net / (1 + shared.class_rate), 2)
+        ELSE shared.net
+      END AS taxable_amount,
+      CASE
+        WHEN shared.tax_exempt THEN 0
+        WHEN v_prices_include_tax THEN round(shared.net - shared.net / (1 + shared.class_rate), 2)
+        ELSE round(shared.net * shared.class_rate, 2)
+      END AS tax_amount
+    FROM (
+      SELECT
+        allocated.*,
+        allocated.gross - allocated.line_discount - allocated.order_discount_share AS net
+      FROM (
+        SELECT
+          l.*,
+          CASE
+            WHEN v_order_discount_amount = 0 OR v_discount_base <= 0 THEN 0
+            WHEN l.position = l.line_count THEN v_order_discount_amount - COALESCE(SUM(
+              round(v_order_discount_amount * (l.gross - l.line_discount) / v_discount_base, 2)
+            ) OVER (
+              ORDER BY l.product_id, l.modifier_key COLLATE "C"
+              ROWS BETWEEN UNBOUNDED PRECEDING AND 1 PRECEDING
+            ), 0)
+            ELSE round(v_order_discount_amount * (l.gross - l.line_discount) / v_discount_base, 2)
+          END AS order_discount_share
+        FROM (
+          SELECT
+            r.*,
+            row_number() OVER (ORDER BY r.product_id, r.modifier_key COLLATE "C") AS position,
+            count(*) OVER () AS line_count
+          FROM jsonb_to_recordset(v_lines) AS r(
+            product_id uuid, modifier_key text, modifiers jsonb, components jsonb, quantity integer, discount jsonb,
+            price numeric, gross numeric, tax_class_code text, class_rate numeric, tax_exempt boolean,
+            line_discount numeric
+          )
+        ) l
+      ) allocated
+    ) shared
+  ) taxed;
+
+  SELECT SUM(l.taxable_amount + l.tax_amount), SUM(l.tax_amount)
+  INTO v_total, v_tax
+  FROM jsonb_to_recordset(v_lines) AS l(taxable_amount numeric, tax_amount numeric);
+
+  -- A fully discounted sale has nothing to pay
+  IF v_payments IS NULL THEN
+    v_payments := CASE
+      WHEN v_total > 0 THEN jsonb_build_array(jsonb_build_object('method', p_payment_method, 'amount', v_total))
+      ELSE '[]'::jsonb
+    END;
+  END IF;
+
+  v_payment_error := check_tenders_cover_total(v_payments, v_total);
+  IF v_payment_error IS NOT NULL THEN
+    RETURN jsonb_build_object('order', NULL, 'errors', jsonb_build_array(v_payment_error));
+  END IF;
+
+  IF v_customer_id IS NOT NULL THEN
+    -- Serialize sales spending the same customer's points
+    PERFORM 1 FROM customers WHERE id = v_customer_id FOR UPDATE;
+
+    IF v_points_redeemed > 0 THEN
+      v_points_balance := get_customer_points(v_customer_id);
+      IF v_points_balance < v_points_redeemed THEN
+        RETURN jsonb_build_object(
+          'order', NULL,
+          'errors', jsonb_build_array(jsonb_build_object(
+            'code', 'INSUFFICIENT_POINTS',
+            'available_points', v_points_balance,
+            'requested_points', v_points_redeemed
+          ))
+        );
+      END IF;
+    END IF;
+
+    -- Points aren't earned on what was paid with points
+    v_points_earned := floor((v_total - v_points_amount) / v_earn_amount)::integer;
+  END IF;
+
+  SELECT CASE WHEN count(DISTINCT t->>'method') > 1 THEN 'split' ELSE COALESCE(min(t->>'method'), p_payment_method) END
+  INTO v_payment_method
+  FROM jsonb_array_elements(v_payments) AS t;
+
+  INSERT INTO orders (
+    user_id, total, tax, status, payment_method, idempotency_key, tax_exemption, tax_exemption_id,
+    discount_type, discount_value, discount_reason, discount_amount, discount_total,
+    discount_approved_by, discount_approval_id, customer_id, points_earned, points_redeemed
+  )
+  VALUES (
+    v_user_id, v_total, v_tax, 'completed', v_payment_method, v_idempotency_key,
+    v_exemption, CASE WHEN v_exemption IS NULL THEN NULL ELSE v_exemption_id END,
+    CASE WHEN v_order_discount_amount > 0 THEN v_order_discount->>'type' END,
+    CASE WHEN v_order_discount_amount > 0 THEN (v_order_discount->>'value')::numeric END,
+    CASE WHEN v_order_discount_amount > 0 THEN v_order_discount->>'reason' END,
+    v_order_discount_amount, v_discount_total,
+    v_approved_by, v_used_approval_id, v_customer_id, v_points_earned, v_points_redeemed
+  )
+  RETURNING id INTO v_order_id;
+
+  IF v_used_approval_id IS NOT NULL THEN
+    UPDATE discount_approvals SET order_id = v_order_id WHERE id = v_used_approval_id;
+  END IF;
+
+  -- Snapshot prices, modifiers, bundle components, discounts and tax for
+  -- historical accuracy
+  INSERT INTO order_items (
+    order_id, product_id, quantity, price, subtotal, modifiers, components,
+    discount_type, discount_value, discount_reason, discount_amount, order_discount_share,
+    tax_class_code, tax_rate, taxable_amount, tax_amount, line_total, tax_exempt
+  )
+  SELECT
+    v_order_id, l.product_id, l.quantity, l.price, l.gross, l.modifiers, l.components,
+    CASE WHEN l.line_discount > 0 THEN l.discount->>'type' END,
+    CASE WHEN l.line_discount > 0 THEN (l.discount->>'value')::numeric END,
+    CASE WHEN l.line_discount > 0 THEN l.discount->>'reason' END,
+    l.line_discount, l.order_discount_share,
+    l.tax_class_code, l.tax_rate, l.taxable_amount, l.tax_amount, l.taxable_amount + l.tax_amount, l.tax_exempt
+  FROM jsonb_to_recordset(v_lines) AS l(
+    product_id uuid, modifiers jsonb, components jsonb, quantity integer, discount jsonb, price numeric, gross numeric,
+    line_discount numeric, order_discount_share numeric,
+    tax_class_code text, tax_rate numeric, taxable_amount numeric, tax_amount numeric, tax_exempt boolean
+  );
+
+  PERFORM record_order_payments(v_order_id, v_payments, v_total);
+
+  IF v_points_redeemed > 0 THEN
+    INSERT INTO loyalty_transactions (customer_id, order_id, kind, points)
+    VALUES (v_customer_id, v_order_id, 'redeem', -v_points_redeemed);
+  END IF;
+
+  IF v_points_earned > 0 THEN
+    INSERT INTO loyalty_transactions (customer_id, order_id, kind, points)
+    VALUES (v_customer_id, v_order_id, 'earn', v_points_earned);
+  END IF;
+
+  PERFORM decrement_multiple_product_stock(v_stock_items, 'sale', 'order', v_order_id);
+
+  RETURN jsonb_build_object(
+    'order', get_order_json(v_order_id),
+    'errors', '[]'::jsonb
+  );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION checkout_order TO authenticated;
+
+CREATE OR REPLACE FUNCTION refund_order(
+  p_order_id uuid,
+  p_items jsonb,  -- Array of objects with order_item_id and quantity
+  p_options jsonb DEFAULT '{}'::jsonb
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_order orders%ROWTYPE;
+  v_item jsonb;
+  v_line order_items%ROWTYPE;
+  v_component record;
+  v_quantity integer;
+  v_line_total numeric(10, 2);
+  v_amount numeric(10, 2);
+  v_total_amount numeric(10, 2) := 0;
+  v_refund_id uuid;
+  v_restock boolean := COALESCE((p_options->>'restock')::boolean, true);
+  v_method text := NULLIF(p_options->>'method', '');
+  v_reason text := NULLIF(btrim(p_options->>'reason'), '');
+  v_point_value numeric;
+  v_points integer;
+BEGIN
+  IF NOT is_admin() THEN
+    RAISE EXCEPTION 'Only admins can process refunds';
+  END IF;
+
+  SELECT * INTO v_order
+  FROM orders
+  WHERE id = p_order_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Order not found: %', p_order_id;
+  END IF;
+
+  IF v_order.status NOT IN ('completed', 'partially_refunded') THEN
+    RAISE EXCEPTION 'Order is % and cannot be refunded', v_order.status;
+  END IF;
+
+  IF p_items IS NULL OR jsonb_typeof(p_items) <> 'array' OR jsonb_array_length(p_items) = 0 THEN
+    RAISE EXCEPTION 'Select at least one item to return';
+  END IF;
+
+  -- Split orders don't say which tender to give back, so default to cash
+  v_method := COALESCE(v_method, NULLIF(v_order.payment_method, 'split'), 'cash');
+  IF v_method NOT IN ('cash', 'card', 'mobile', 'points') THEN
+    RAISE EXCEPTION 'Invalid refund method: %', v_method;
+  END IF;
+
+  IF v_method = 'points' AND v_order.customer_id IS NULL THEN
+    RAISE EXCEPTION 'Only orders with a customer can be refunded as points';
+  END IF;
+
+  INSERT INTO refunds (order_id, processed_by, amount, method, reason, restocked)
+  VALUES (p_order_id, auth.uid(), 0, v_method, v_reason, v_restock)
+  RETURNING id INTO v_refund_id;
+
+  FOR v_item IN SELECT * FROM jsonb_array_elements(p_items)
+  LOOP
+    v_quantity := (v_item->>'quantity')::integer;
+
+    SELECT * INTO v_line
+    FROM order_items
+    WHERE id = (v_item->>'order_item_id')::uuid
+      AND order_id = p_order_id
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Order item not found: %', v_item->>'order_item_id';
+    END IF;
+
+    IF v_quantity IS NULL OR v_quantity <= 0 OR v_quantity > v_line.quantity - v_line.refunded_quantity THEN
+      RAISE EXCEPTION 'Invalid return quantity %: % of % already returned', v_quantity, v_line.refunded_quantity, v_line.quantity;
+    END IF;
+
+    v_line_total := COALESCE(v_line.line_total, v_line.subtotal);
+    IF v_line.refunded_quantity + v_quantity = v_line.quantity THEN
+      v_amount := v_line_total - v_line.refunded_amount;
+    ELSE
+      v_amount := round(v_line_total * v_quantity / v_line.quantity, 2);
+    END IF;
+
+    INSERT INTO refund_items (refund_id, order_item_id, product_id, quantity, amount)
+    VALUES (v_refund_id, v_line.id, v_line.product_id, v_quantity, v_amount);
+
+    UPDATE order_items
+    SET refunded_quantity = refunded_quantity + v_quantity,
+        refunded_amount = refunded_amount + v_amount
+    WHERE id = v_line.id;
+
+    -- A bundle goes back as the components it was sold with
+    IF v_restock AND jsonb_array_length(v_line.components) > 0 THEN
+      FOR v_component IN
+        SELECT c.product_id, c.quantity
+        FROM jsonb_to_recordset(v_line.components) AS c(product_id uuid, quantity integer)
+      LOOP
+        PERFORM increment_product_stock(
+          v_component.product_id, v_quantity * v_component.quantity, 'return', 'refund', v_refund_id
+        );
+      END LOOP;
+    ELSIF v_restock THEN
+      PERFORM increment_product_stock(v_line.product_id, v_quantity, 'return', 'refund', v_refund_id);
+    END IF;
+
+    v_total_amount := v_total_amount + v_amount;
+  END LOOP;
+
+  UPDATE refunds SET amount = v_total_amount WHERE id = v_refund_id;
+
+  -- Part points round up in the customer's favour
+  IF v_method = 'points' THEN
+    SELECT COALESCE((SELECT loyalty_point_value FROM store_settings LIMIT 1), 1)
+    INTO v_point_value;
+    v_points := ceil(v_total_amount / v_point_value)::integer;
+
+    IF v_points > 0 THEN
+      INSERT INTO loyalty_transactions (customer_id, order_id, refund_id, kind, points)
+      VALUES (v_order.customer_id, p_order_id, v_refund_id, 'refund', v_points);
+    END IF;
+  END IF;
+
+  UPDATE orders
+  SET status = CASE
+    WHEN EXISTS (
+      SELECT 1 FROM order_items
+      WHERE order_id = p_order_id AND refunded_quantity < quantity
+    ) THEN 'partially_refunded'
+    ELSE 'refunded'
+  END
+  WHERE id = p_order_id;
+
+  RETURN jsonb_build_object(
+    'refund_id', v_refund_id,
+    'amount', v_total_amount,
+    'order', get_order_json(p_order_id)
+  );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION refund_order TO authenticated;
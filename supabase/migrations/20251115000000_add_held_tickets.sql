@@ -0,0 +1,68 @@
+-- Held tickets shared between devices
+--
+-- 1. New Tables
+--    - held_tickets: a cart put on hold so it can be recalled from any
+--      device. The id is generated on the device that held it; items,
+--      order_discount and customer are stored in the app's cart shape
+--
+-- 2. Functions
+--    - recall_held_ticket(ticket_id): removes the ticket and returns it, or
+--      NULL when another device already recalled or discarded it
+--
+-- 3. Important Notes
+--    - Tickets only kept on the device that held them never reach the server
+--    - Prices and stock in a ticket are a snapshot; the app refreshes them and
+--      re-checks stock when the ticket is recalled
+
+CREATE TABLE IF NOT EXISTS held_tickets (
+  id uuid PRIMARY KEY,
+  name text NOT NULL CHECK (btrim(name) <> ''),
+  items jsonb NOT NULL DEFAULT '[]'::jsonb CHECK (jsonb_typeof(items) = 'array'),
+  order_discount jsonb,
+  customer jsonb,
+  held_by uuid NOT NULL REFERENCES profiles(id) DEFAULT auth.uid(),
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS held_tickets_created_at_idx ON held_tickets(created_at);
+
+ALTER TABLE held_tickets ENABLE ROW LEVEL SECURITY;
+
+-- Any cashier can pick up a ticket held at another till
+CREATE POLICY "Anyone can view held tickets"
+  ON held_tickets FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Users can hold tickets"
+  ON held_tickets FOR INSERT
+  TO authenticated
+  WITH CHECK (held_by = auth.uid());
+
+-- Tickets leave the table through recall_held_ticket, so two devices can't
+-- both recall the same one
+CREATE OR REPLACE FUNCTION recall_held_ticket(p_ticket_id uuid)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_ticket held_tickets%ROWTYPE;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  DELETE FROM held_tickets
+  WHERE id = p_ticket_id
+  RETURNING * INTO v_ticket;
+
+  IF NOT FOUND THEN
+    RETURN NULL;
+  END IF;
+
+  RETURN to_jsonb(v_ticket);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION recall_held_ticket TO authenticated;
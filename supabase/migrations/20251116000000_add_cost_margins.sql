@@ -0,0 +1,176 @@
+-- Cost snapshots and gross margin reporting
+--
+-- 1. New Tables
+--    - order_item_costs: the unit cost of each order line when it was sold,
+--      taken from product_costs. A bundle line costs what its components cost
+--
+-- 2. Functions
+--    - snapshot_order_item_cost (trigger): records the cost of every new
+--      order line; lines whose product (or any bundle component) has no cost
+--      price get no row and count as uncosted
+--    - get_margin_report(from, to): revenue net of tax, cost and uncosted
+--      quantities by product and by category, less returns
+--
+-- 3. Security
+--    - Costs sit beside order_items rather than on it because RLS works on
+--      rows: staff keep reading order lines while costs stay admin only,
+--      like product_costs
+--
+-- 4. Important Notes
+--    - Sales made before this migration have no cost snapshot
+--    - Returned items give back their revenue net of tax and their cost at
+--      the snapshot, whether or not they were restocked
+
+CREATE TABLE IF NOT EXISTS order_item_costs (
+  order_item_id uuid PRIMARY KEY REFERENCES order_items(id) ON DELETE CASCADE,
+  unit_cost numeric(10, 2) NOT NULL CHECK (unit_cost >= 0),
+  created_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE order_item_costs ENABLE ROW LEVEL SECURITY;
+
+-- Rows are only written by snapshot_order_item_cost
+CREATE POLICY "Admins can view order item costs"
+  ON order_item_costs FOR SELECT
+  TO authenticated
+  USING (is_admin());
+
+CREATE OR REPLACE FUNCTION snapshot_order_item_cost()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_cost numeric;
+BEGIN
+  IF jsonb_array_length(NEW.components) > 0 THEN
+    SELECT CASE WHEN count(pc.cost_price) = count(*) THEN sum(c.quantity * pc.cost_price) END
+    INTO v_cost
+    FROM jsonb_to_recordset(NEW.components) AS c(product_id uuid, quantity integer)
+    LEFT JOIN product_costs pc ON pc.product_id = c.product_id;
+  ELSE
+    SELECT cost_price INTO v_cost
+    FROM product_costs
+    WHERE product_id = NEW.product_id;
+  END IF;
+
+  IF v_cost IS NOT NULL THEN
+    INSERT INTO order_item_costs (order_item_id, unit_cost)
+    VALUES (NEW.id, round(v_cost, 2));
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS snapshot_order_item_cost_trigger ON order_items;
+CREATE TRIGGER snapshot_order_item_cost_trigger
+  AFTER INSERT ON order_items
+  FOR EACH ROW
+  EXECUTE FUNCTION snapshot_order_item_cost();
+
+CREATE OR REPLACE FUNCTION get_margin_report(
+  p_from timestamptz,
+  p_to timestamptz
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+STABLE
+SECURITY INVOKER
+AS $$
+DECLARE
+  v_report jsonb;
+BEGIN
+  IF NOT is_admin() THEN
+    RAISE EXCEPTION 'Only admins can view margin reports';
+  END IF;
+
+  IF p_from IS NULL OR p_to IS NULL OR p_to <= p_from THEN
+    RAISE EXCEPTION 'Invalid report date range';
+  END IF;
+
+  WITH lines AS (
+    SELECT
+      oi.product_id,
+      p.category_id,
+      oi.quantity,
+      COALESCE(oi.taxable_amount, oi.subtotal) AS revenue,
+      oi.quantity * oic.unit_cost AS cost
+    FROM order_items oi
+    JOIN orders o ON o.id = oi.order_id
+    LEFT JOIN products p ON p.id = oi.product_id
+    LEFT JOIN order_item_costs oic ON oic.order_item_id = oi.id
+    WHERE o.status <> 'cancelled'
+    AND o.created_at >= p_from AND o.created_at < p_to
+
+    UNION ALL
+
+    -- Returns count against the period they were made in, net of their tax
+    SELECT
+      oi.product_id,
+      p.category_id,
+      -ri.quantity,
+      -CASE
+        WHEN COALESCE(oi.line_total, oi.subtotal) > 0
+          THEN round(COALESCE(oi.taxable_amount, oi.subtotal) * ri.amount / COALESCE(oi.line_total, oi.subtotal), 2)
+        ELSE 0
+      END,
+      -ri.quantity * oic.unit_cost
+    FROM refund_items ri
+    JOIN refunds r ON r.id = ri.refund_id
+    JOIN order_items oi ON oi.id = ri.order_item_id
+    LEFT JOIN products p ON p.id = oi.product_id
+    LEFT JOIN order_item_costs oic ON oic.order_item_id = oi.id
+    WHERE r.created_at >= p_from AND r.created_at < p_to
+  )
+  SELECT jsonb_build_object(
+    'summary', (
+      SELECT jsonb_build_object(
+        'quantity', COALESCE(sum(quantity), 0),
+        'revenue', COALESCE(sum(revenue), 0),
+        'costed_revenue', COALESCE(sum(revenue) FILTER (WHERE cost IS NOT NULL), 0),
+        'cost', COALESCE(sum(cost), 0),
+        'uncosted_quantity', COALESCE(sum(quantity) FILTER (WHERE cost IS NULL), 0)
+      )
+      FROM lines
+    ),
+    'by_product', (
+      SELECT COALESCE(jsonb_agg(to_jsonb(t) ORDER BY t.revenue DESC, t.label), '[]'::jsonb)
+      FROM (
+        SELECT
+          l.product_id::text AS key,
+          COALESCE(p.name, 'Deleted product') AS label,
+          COALESCE(sum(l.quantity), 0) AS quantity,
+          COALESCE(sum(l.revenue), 0) AS revenue,
+          COALESCE(sum(l.revenue) FILTER (WHERE l.cost IS NOT NULL), 0) AS costed_revenue,
+          COALESCE(sum(l.cost), 0) AS cost,
+          COALESCE(sum(l.quantity) FILTER (WHERE l.cost IS NULL), 0) AS uncosted_quantity
+        FROM lines l
+        LEFT JOIN products p ON p.id = l.product_id
+        GROUP BY l.product_id, p.name
+      ) t
+    ),
+    'by_category', (
+      SELECT COALESCE(jsonb_agg(to_jsonb(t) ORDER BY t.revenue DESC, t.label), '[]'::jsonb)
+      FROM (
+        SELECT
+          COALESCE(l.category_id::text, 'uncategorized') AS key,
+          COALESCE(c.name, 'Uncategorized') AS label,
+          COALESCE(sum(l.quantity), 0) AS quantity,
+          COALESCE(sum(l.revenue), 0) AS revenue,
+          COALESCE(sum(l.revenue) FILTER (WHERE l.cost IS NOT NULL), 0) AS costed_revenue,
+          COALESCE(sum(l.cost), 0) AS cost,
+          COALESCE(sum(l.quantity) FILTER (WHERE l.cost IS NULL), 0) AS uncosted_quantity
+        FROM lines l
+        LEFT JOIN categories c ON c.id = l.category_id
+        GROUP BY l.category_id, c.name
+      ) t
+    )
+  )
+  INTO v_report;
+
+  RETURN v_report;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION get_margin_report TO authenticated;
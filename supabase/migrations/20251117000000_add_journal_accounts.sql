@@ -0,0 +1,22 @@
+-- Accounting journal export
+--
+-- 1. New Columns
+--    - store_settings.journal_accounts: the account code and name each line
+--      of the daily journal export posts to, keyed by sales, salesReturns,
+--      vatOutput and payment method. Accounts left out fall back to the
+--      defaults in utils/orderExport.ts
+--
+-- 2. Indexes
+--    - orders(created_at) and refunds(created_at), for exports over a date
+--      range
+--
+-- 3. Important Notes
+--    - Order, line and journal CSVs are built client-side from the same
+--      order query as the order history
+
+ALTER TABLE store_settings
+  ADD COLUMN IF NOT EXISTS journal_accounts jsonb NOT NULL DEFAULT '{}'::jsonb
+    CHECK (jsonb_typeof(journal_accounts) = 'object');
+
+CREATE INDEX IF NOT EXISTS orders_created_at_idx ON orders(created_at);
+CREATE INDEX IF NOT EXISTS refunds_created_at_idx ON refunds(created_at);
@@ -0,0 +1,30 @@
+-- Paginated order history
+--
+-- 1. New Columns
+--    - orders.short_id: the first 8 characters of the id, as printed on
+--      receipts, so orders can be searched by the number on a receipt
+--
+-- 2. Indexes
+--    - The order history pages newest first by (created_at, id). Each filter
+--      it offers (status, payment method, cashier, customer) gets an index
+--      that leads with the filter and then follows the same order, so a page
+--      is an index range scan however deep the list is scrolled
+--    - orders_created_at_idx and orders_customer_id_idx are replaced by the
+--      wider indexes
+--
+-- 3. Important Notes
+--    - Searching by customer looks the customers up first and filters the
+--      orders by their ids
+
+ALTER TABLE orders
+  ADD COLUMN IF NOT EXISTS short_id text GENERATED ALWAYS AS (left(id::text, 8)) STORED;
+
+DROP INDEX IF EXISTS orders_created_at_idx;
+DROP INDEX IF EXISTS orders_customer_id_idx;
+
+CREATE INDEX IF NOT EXISTS orders_created_at_id_idx ON orders(created_at DESC, id DESC);
+CREATE INDEX IF NOT EXISTS orders_status_created_at_idx ON orders(status, created_at DESC, id DESC);
+CREATE INDEX IF NOT EXISTS orders_payment_method_created_at_idx ON orders(payment_method, created_at DESC, id DESC);
+CREATE INDEX IF NOT EXISTS orders_user_id_created_at_idx ON orders(user_id, created_at DESC, id DESC);
+CREATE INDEX IF NOT EXISTS orders_customer_id_created_at_idx ON orders(customer_id, created_at DESC, id DESC);
+CREATE INDEX IF NOT EXISTS orders_short_id_idx ON orders(short_id text_pattern_ops);
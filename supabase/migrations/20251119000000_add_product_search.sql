@@ -0,0 +1,99 @@
+-- Server-side product search and paging
+--
+-- 1. Extensions
+--    - pg_trgm, for fuzzy matching of product names and SKUs
+--
+-- 2. Indexes
+--    - Trigram indexes on products.name and products.sku serve both the
+--      substring (ILIKE) and the similarity (%) matches
+--    - The catalog lists top-level products by name, optionally within one
+--      category, so a page without a search term is an index range scan
+--
+-- 3. Functions
+--    - search_products: one page of top-level products matching a search
+--      term on name, SKU, barcode, category name or any variant's SKU,
+--      barcode or option name. Exact code matches come first, then names
+--      starting with the term, then names containing it, then the closest
+--      fuzzy matches
+--
+-- 4. Important Notes
+--    - Results are ranked, so pages are fetched by offset rather than by
+--      cursor
+--    - The function runs with the caller's privileges, so staff only find
+--      active products through RLS; p_include_inactive only has an effect
+--      for admins
+--    - Variants are not returned; the app fetches the variants of the
+--      products on each page
+
+CREATE EXTENSION IF NOT EXISTS pg_trgm;
+
+CREATE INDEX IF NOT EXISTS idx_products_name_trgm ON products USING gin (name gin_trgm_ops);
+CREATE INDEX IF NOT EXISTS idx_products_sku_trgm ON products USING gin (sku gin_trgm_ops);
+
+CREATE INDEX IF NOT EXISTS idx_products_catalog ON products (name, id) WHERE parent_id IS NULL;
+CREATE INDEX IF NOT EXISTS idx_products_category_catalog
+  ON products (category_id, name, id) WHERE parent_id IS NULL;
+
+CREATE OR REPLACE FUNCTION search_products(
+  p_query text DEFAULT NULL,
+  p_category_id uuid DEFAULT NULL,
+  p_include_inactive boolean DEFAULT false,
+  p_limit integer DEFAULT 60,
+  p_offset integer DEFAULT 0
+)
+RETURNS SETOF products
+LANGUAGE sql
+STABLE
+AS $$
+  WITH term AS (
+    SELECT
+      nullif(btrim(p_query), '') AS query,
+      -- Wildcards typed into the search box are matched literally
+      replace(replace(replace(btrim(coalesce(p_query, '')), '\', '\\'), '%', '\%'), '_', '\_') AS escaped
+  )
+  SELECT p.*
+  FROM products p
+  CROSS JOIN term t
+  WHERE p.parent_id IS NULL
+    AND (p_include_inactive OR p.active)
+    AND (p_category_id IS NULL OR p.category_id = p_category_id)
+    AND (
+      t.query IS NULL
+      OR p.name ILIKE '%' || t.escaped || '%'
+      OR p.sku ILIKE '%' || t.escaped || '%'
+      OR p.barcode = t.query
+      OR p.name % t.query
+      OR EXISTS (
+        SELECT 1
+        FROM categories c
+        WHERE c.id = p.category_id
+        AND c.name ILIKE '%' || t.escaped || '%'
+      )
+      OR EXISTS (
+        SELECT 1
+        FROM products v
+        WHERE v.parent_id = p.id
+        AND (p_include_inactive OR v.active)
+        AND (
+          v.sku ILIKE '%' || t.escaped || '%'
+          OR v.barcode = t.query
+          OR v.variant_name ILIKE '%' || t.escaped || '%'
+        )
+      )
+    )
+  ORDER BY
+    CASE
+      WHEN t.query IS NULL THEN 0
+      WHEN lower(p.sku) = lower(t.query) OR p.barcode = t.query THEN 0
+      WHEN p.name ILIKE t.escaped || '%' THEN 1
+      WHEN p.name ILIKE '%' || t.escaped || '%' THEN 2
+      ELSE 3
+    END,
+    CASE WHEN t.query IS NULL THEN 0 ELSE similarity(p.name, t.query) END DESC,
+    p.name,
+    p.id
+  LIMIT least(greatest(p_limit, 1), 200)
+  OFFSET greatest(p_offset, 0);
+$$;
+
+GRANT EXECUTE ON FUNCTION search_products TO authenticated;
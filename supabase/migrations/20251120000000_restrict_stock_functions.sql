@@ -0,0 +1,193 @@
+-- Restrict the low-level stock functions
+--
+-- 1. Functions
+--    - decrement_product_stock / increment_product_stock /
+--      decrement_multiple_product_stock: refuse zero, negative or missing
+--      quantities
+--
+-- 2. Security
+--    - The three functions are SECURITY DEFINER and take the stock_logs reason
+--      and reference from the caller, so calling them directly would change
+--      stock and write made-up movements without going through
+--      adjust_product_stock. They are no longer executable by clients; only
+--      the functions that record sales, refunds, receipts, adjustments and
+--      stocktakes call them, and those run as their owner
+--
+-- 3. Important Notes
+--    - Every caller already passes a positive quantity: adjust_product_stock
+--      and approve_stocktake pick increment or decrement by the sign of the
+--      change, and checkout, refunds and receiving reject quantities below 1
+
+CREATE OR REPLACE FUNCTION decrement_product_stock(
+  product_id uuid,
+  quantity integer,
+  p_reason text DEFAULT 'sale',
+  p_reference_type text DEFAULT NULL,
+  p_reference_id uuid DEFAULT NULL,
+  p_note text DEFAULT NULL
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  current_stock integer;
+  product_name text;
+BEGIN
+  IF quantity IS NULL OR quantity <= 0 THEN
+    RAISE EXCEPTION 'Stock quantity must be positive: %', quantity;
+  END IF;
+
+  -- Get current stock and lock the row
+  SELECT stock, name INTO current_stock, product_name
+  FROM products
+  WHERE id = decrement_product_stock.product_id
+  FOR UPDATE;
+
+  -- Check if product exists
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Product not found: %', product_id;
+  END IF;
+
+  -- Stock is held by the variants
+  IF product_has_variants(decrement_product_stock.product_id) THEN
+    RAISE EXCEPTION 'Choose a variant of %', product_name;
+  END IF;
+
+  -- Stock is held by the components
+  IF product_is_bundle(decrement_product_stock.product_id) THEN
+    RAISE EXCEPTION '% is a bundle; its components hold the stock', product_name;
+  END IF;
+
+  -- Check if sufficient stock is available
+  IF current_stock < quantity THEN
+    RAISE EXCEPTION 'Insufficient stock: requested %, available %', quantity, current_stock;
+  END IF;
+
+  -- Update stock
+  UPDATE products
+  SET stock = stock - quantity,
+      updated_at = now()
+  WHERE id = decrement_product_stock.product_id;
+
+  INSERT INTO stock_logs (product_id, quantity_change, remaining_stock, reason, reference_type, reference_id, note)
+  VALUES (product_id, -quantity, current_stock - quantity, p_reason, p_reference_type, p_reference_id, p_note);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION increment_product_stock(
+  product_id uuid,
+  quantity integer,
+  p_reason text DEFAULT 'return',
+  p_reference_type text DEFAULT NULL,
+  p_reference_id uuid DEFAULT NULL,
+  p_note text DEFAULT NULL
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  current_stock integer;
+  product_name text;
+BEGIN
+  IF quantity IS NULL OR quantity <= 0 THEN
+    RAISE EXCEPTION 'Stock quantity must be positive: %', quantity;
+  END IF;
+
+  -- Get current stock and lock the row
+  SELECT stock, name INTO current_stock, product_name
+  FROM products
+  WHERE id = increment_product_stock.product_id
+  FOR UPDATE;
+
+  -- Check if product exists
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Product not found: %', product_id;
+  END IF;
+
+  -- Stock is held by the components
+  IF product_is_bundle(increment_product_stock.product_id) THEN
+    RAISE EXCEPTION '% is a bundle; its components hold the stock', product_name;
+  END IF;
+
+  -- Update stock
+  UPDATE products
+  SET stock = stock + quantity,
+      updated_at = now()
+  WHERE id = increment_product_stock.product_id;
+
+  INSERT INTO stock_logs (product_id, quantity_change, remaining_stock, reason, reference_type, reference_id, note)
+  VALUES (product_id, quantity, current_stock + quantity, p_reason, p_reference_type, p_reference_id, p_note);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION decrement_multiple_product_stock(
+  order_items jsonb,  -- Array of objects with product_id and quantity
+  p_reason text DEFAULT 'sale',
+  p_reference_type text DEFAULT NULL,
+  p_reference_id uuid DEFAULT NULL
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  item_record jsonb;
+  product_id uuid;
+  quantity integer;
+  current_stock integer;
+  product_name text;
+BEGIN
+  -- Process each item in the order
+  FOR item_record IN SELECT * FROM jsonb_array_elements(order_items)
+  LOOP
+    -- Extract product_id and quantity from the JSON object
+    product_id := (item_record->>'product_id')::uuid;
+    quantity := (item_record->>'quantity')::integer;
+
+    IF quantity IS NULL OR quantity <= 0 THEN
+      RAISE EXCEPTION 'Stock quantity must be positive for product %: %', product_id, quantity;
+    END IF;
+
+    -- Get current stock and lock the row
+    SELECT stock, name INTO current_stock, product_name
+    FROM products
+    WHERE id = product_id
+    FOR UPDATE;
+
+    -- Check if product exists
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Product not found: %', product_id;
+    END IF;
+
+    -- Stock is held by the variants
+    IF product_has_variants(product_id) THEN
+      RAISE EXCEPTION 'Choose a variant of %', product_name;
+    END IF;
+
+    -- Stock is held by the components; see expand_bundle_items
+    IF product_is_bundle(product_id) THEN
+      RAISE EXCEPTION '% is a bundle; its components hold the stock', product_name;
+    END IF;
+
+    -- Check if sufficient stock is available
+    IF current_stock < quantity THEN
+      RAISE EXCEPTION 'Insufficient stock for product %: requested %, available %', product_id, quantity, current_stock;
+    END IF;
+
+    -- Update stock
+    UPDATE products
+    SET stock = stock - quantity,
+        updated_at = now()
+    WHERE id = product_id;
+
+    INSERT INTO stock_logs (product_id, quantity_change, remaining_stock, reason, reference_type, reference_id)
+    VALUES (product_id, -quantity, current_stock - quantity, p_reason, p_reference_type, p_reference_id);
+  END LOOP;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION decrement_product_stock(uuid, integer, text, text, uuid, text) FROM PUBLIC, authenticated, anon;
+REVOKE EXECUTE ON FUNCTION increment_product_stock(uuid, integer, text, text, uuid, text) FROM PUBLIC, authenticated, anon;
+REVOKE EXECUTE ON FUNCTION decrement_multiple_product_stock(jsonb, text, text, uuid) FROM PUBLIC, authenticated, anon;
@@ -0,0 +1,21 @@
+-- Make scanned code lookups deterministic
+--
+-- SKUs and barcodes are each unique within their own column, so one product's
+-- barcode can equal another product's SKU. find_product_by_code used to return
+-- whichever row came first; it now prefers the exact barcode match, since a
+-- scanner reads barcodes, and falls back to the SKU.
+
+CREATE OR REPLACE FUNCTION find_product_by_code(p_code text)
+RETURNS SETOF products
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT *
+  FROM products
+  WHERE barcode = btrim(p_code)
+  OR lower(sku) = lower(btrim(p_code))
+  ORDER BY (barcode IS NOT DISTINCT FROM btrim(p_code)) DESC
+  LIMIT 1;
+$$;
+
+GRANT EXECUTE ON FUNCTION find_product_by_code TO authenticated;
@@ -0,0 +1,69 @@
+import {
+  expandBundleItems,
+  formatBundleComponents,
+  getBundleStock,
+  isBundle,
+  parseOrderItemComponents,
+  withBundleStock,
+} from '../bundles';
+
+const components = [
+  { bundle_id: 'meal', component_id: 'burger', quantity: 1 },
+  { bundle_id: 'meal', component_id: 'fries', quantity: 1 },
+  { bundle_id: 'meal', component_id: 'soda', quantity: 1 },
+  { bundle_id: 'party', component_id: 'burger', quantity: 4 },
+  { bundle_id: 'party', component_id: 'fries', quantity: 2 },
+];
+
+describe('Bundles', () => {
+  it('should make up as many bundles as the scarcest component allows', () => {
+    expect(getBundleStock([{ quantity: 1, stock: 10 }, { quantity: 2, stock: 7 }])).toBe(3);
+    expect(getBundleStock([{ quantity: 1, stock: -2 }])).toBe(0);
+    expect(getBundleStock([])).toBe(0);
+  });
+
+  it('should replace bundles with their components and add up shared products', () => {
+    expect(
+      expandBundleItems(
+        [
+          { product_id: 'meal', quantity: 2 },
+          { product_id: 'party', quantity: 1 },
+          { product_id: 'fries', quantity: 1 },
+          { product_id: 'cookie', quantity: 3 },
+        ],
+        components
+      )
+    ).toEqual([
+      { product_id: 'burger', quantity: 6 },
+      { product_id: 'cookie', quantity: 3 },
+      { product_id: 'fries', quantity: 5 },
+      { product_id: 'soda', quantity: 2 },
+    ]);
+  });
+
+  it('should give bundles the stock their components make up', () => {
+    const meal = withBundleStock({
+      id: 'meal',
+      stock: 0,
+      bundle_components: [
+        { component_id: 'fries', quantity: 2, component: { name: 'Fries', stock: 9 } },
+        { component_id: 'burger', quantity: 1, component: [{ name: 'Burger', stock: 12 }] },
+      ],
+    });
+
+    expect(meal.stock).toBe(4);
+    expect(isBundle(meal)).toBe(true);
+    expect(formatBundleComponents(meal.bundle_components)).toBe('1× Burger, 2× Fries');
+
+    const cookie = withBundleStock({ id: 'cookie', stock: 5, bundle_components: [] });
+    expect(cookie.stock).toBe(5);
+    expect(isBundle(cookie)).toBe(false);
+  });
+
+  it('should read the components stored on order items', () => {
+    expect(parseOrderItemComponents(null)).toEqual([]);
+    expect(parseOrderItemComponents([{ product_id: 'fries', name: 'Fries', quantity: 2, price: '45.00' }])).toEqual([
+      { product_id: 'fries', name: 'Fries', quantity: 2, price: 45 },
+    ]);
+  });
+});
@@ -0,0 +1,46 @@
+import { parseCsv, parseCsvRecords, toCsv } from '../csv';
+
+describe('CSV', () => {
+  it('should parse quoted fields, doubled quotes and line breaks', () => {
+    const text = '\uFEFFname,note\r\n"Latte, large","Say ""hi""\nthen go"\r\nTea,\n';
+    expect(parseCsv(text)).toEqual([
+      ['name', 'note'],
+      ['Latte, large', 'Say "hi"\nthen go'],
+      ['Tea', ''],
+    ]);
+  });
+
+  it('should key records by lowercased header and skip blank lines', () => {
+    const { headers, records } = parseCsvRecords(' Name ,PRICE\nLatte, 120 \n\n,\nTea,80');
+    expect(headers).toEqual(['name', 'price']);
+    expect(records).toEqual([
+      { line: 2, values: { name: 'Latte', price: '120' } },
+      { line: 5, values: { name: 'Tea', price: '80' } },
+    ]);
+  });
+
+  it('should write values that survive a round trip', () => {
+    const csv = toCsv(['name', 'sku', 'price'], [['Latte, "large"', null, 120], [' padded', undefined, 0]]);
+    expect(csv).toBe('name,sku,price\r\n"Latte, ""large""",,120\r\n" padded",,0\r\n');
+    expect(parseCsv(csv)).toEqual([
+      ['name', 'sku', 'price'],
+      ['Latte, "large"', '', '120'],
+      [' padded', '', '0'],
+    ]);
+  });
+
+  it('should keep spreadsheets from running text as a formula', () => {
+    const csv = toCsv(
+      ['name', 'note', 'amount'],
+      [
+        ['=HYPERLINK("x")', '@SUM(A1)', '-12.50'],
+        ['+1 shot', '-', -3],
+      ]
+    );
+    expect(csv).toBe('name,note,amount\r\n"\'=HYPERLINK(""x"")",\'@SUM(A1),-12.50\r\n\'+1 shot,\'-,-3\r\n');
+    expect(parseCsvRecords(csv).records.map(record => record.values)).toEqual([
+      { name: '=HYPERLINK("x")', note: '@SUM(A1)', amount: '-12.50' },
+      { name: '+1 shot', note: '-', amount: '-3' },
+    ]);
+  });
+});
@@ -0,0 +1,67 @@
+import {
+  computeDiscountAmount,
+  exceedsApprovalThreshold,
+  isValidDiscount,
+  requiresDiscountApproval,
+} from '../discounts';
+
+describe('Discounts', () => {
+  describe('isValidDiscount', () => {
+    it('should reject non-positive values and percentages over 100', () => {
+      expect(isValidDiscount({ type: 'percent', value: 0, reason: 'promo' })).toBe(false);
+      expect(isValidDiscount({ type: 'percent', value: 101, reason: 'promo' })).toBe(false);
+      expect(isValidDiscount({ type: 'amount', value: -5, reason: 'promo' })).toBe(false);
+      expect(isValidDiscount({ type: 'amount', value: 150, reason: 'promo' })).toBe(true);
+    });
+
+    it('should reject unknown reason codes', () => {
+      expect(isValidDiscount({ type: 'percent', value: 10, reason: 'bogus' as any })).toBe(false);
+    });
+  });
+
+  describe('computeDiscountAmount', () => {
+    it('should apply percentages to the base amount', () => {
+      expect(computeDiscountAmount({ type: 'percent', value: 15, reason: 'loyalty' }, 200)).toBe(30);
+    });
+
+    it('should cap fixed amounts at the base amount', () => {
+      expect(computeDiscountAmount({ type: 'amount', value: 500, reason: 'damaged' }, 120)).toBe(120);
+    });
+
+    it('should return zero without a discount', () => {
+      expect(computeDiscountAmount(null, 100)).toBe(0);
+    });
+  });
+
+  describe('approval threshold', () => {
+    it('should only require approval above the threshold', () => {
+      expect(exceedsApprovalThreshold(20, 100, 20)).toBe(false);
+      expect(exceedsApprovalThreshold(20.01, 100, 20)).toBe(true);
+      expect(exceedsApprovalThreshold(0, 100, 0)).toBe(false);
+    });
+
+    it('should check line discounts against their own line', () => {
+      const totals = {
+        lines: [
+          { gross: 100, lineDiscount: 50 },
+          { gross: 900, lineDiscount: 0 },
+        ],
+        grossSubtotal: 1000,
+        lineDiscount: 50,
+        orderDiscount: 0,
+      };
+      expect(requiresDiscountApproval(totals, 20)).toBe(true);
+    });
+
+    it('should check the order discount against the discounted subtotal', () => {
+      const totals = {
+        lines: [{ gross: 200, lineDiscount: 100 }],
+        grossSubtotal: 200,
+        lineDiscount: 100,
+        orderDiscount: 25,
+      };
+      expect(requiresDiscountApproval(totals, 30)).toBe(true);
+      expect(requiresDiscountApproval({ ...totals, lines: [{ gross: 200, lineDiscount: 0 }], lineDiscount: 0 }, 30)).toBe(false);
+    });
+  });
+});
@@ -1,4 +1,4 @@
-import { getErrorMessage, ErrorContext, SupabaseError } from '../errorHandler';
+import { getErrorMessage, isNetworkErrorMessage, ErrorContext, SupabaseError } from '../errorHandler';
 
 // Mock Supabase error objects based on real Supabase error structures
 const createSupabaseError = (code: string, message: string, details?: string, hint?: string): SupabaseError & Error => {
@@ -79,6 +79,20 @@ describe('Error Handler', () => {
     });
   });
 
+  describe('isNetworkErrorMessage', () => {
+    it('should recognise requests that never reached the server', () => {
+      expect(isNetworkErrorMessage('TypeError: Network request failed')).toBe(true);
+      expect(isNetworkErrorMessage('TypeError: Failed to fetch')).toBe(true);
+      expect(isNetworkErrorMessage(getErrorMessage(new Error('fetch failed')))).toBe(true);
+    });
+
+    it('should not treat server errors as network errors', () => {
+      expect(isNetworkErrorMessage('Product not found: 123')).toBe(false);
+      expect(isNetworkErrorMessage('Permission denied')).toBe(false);
+      expect(isNetworkErrorMessage(null)).toBe(false);
+    });
+  });
+
   describe('Pattern Matching', () => {
     describe('Specific Error Code Mappings', () => {
       it('should map specific error codes correctly', () => {
@@ -0,0 +1,57 @@
+import {
+  formatPoints,
+  getMaxPointsAmount,
+  getPointsEarned,
+  getPointsForAmount,
+  getPointsValue,
+  summarizeLoyalty,
+} from '../loyalty';
+
+const settings = { earnAmount: 100, pointValue: 1 };
+const halfPeso = { earnAmount: 50, pointValue: 0.5 };
+
+describe('Loyalty', () => {
+  it('should earn a point per full earn amount not paid with points', () => {
+    expect(getPointsEarned(1299.99, 0, settings)).toBe(12);
+    expect(getPointsEarned(1299.99, 300, settings)).toBe(9);
+    expect(getPointsEarned(99.99, 0, settings)).toBe(0);
+    expect(getPointsEarned(100, 0, halfPeso)).toBe(2);
+  });
+
+  it('should only accept points tenders worth whole points', () => {
+    expect(getPointsForAmount(25, settings)).toBe(25);
+    expect(getPointsForAmount(25.5, settings)).toBeNull();
+    expect(getPointsForAmount(25.5, halfPeso)).toBe(51);
+    expect(getPointsForAmount(0.1 + 0.2, { earnAmount: 100, pointValue: 0.1 })).toBe(3);
+  });
+
+  it('should value points at the point value', () => {
+    expect(getPointsValue(51, halfPeso)).toBe(25.5);
+    expect(getPointsValue(-4, settings)).toBe(0);
+  });
+
+  it('should cap points tenders at the balance and what is due', () => {
+    expect(getMaxPointsAmount(40, 125.75, settings)).toBe(40);
+    expect(getMaxPointsAmount(500, 125.75, settings)).toBe(125);
+    expect(getMaxPointsAmount(500, 125.75, halfPeso)).toBe(125.5);
+    expect(getMaxPointsAmount(-3, 125.75, settings)).toBe(0);
+  });
+
+  it('should sum the ledger into a balance', () => {
+    expect(
+      summarizeLoyalty([
+        { kind: 'earn', points: 12 },
+        { kind: 'redeem', points: -5 },
+        { kind: 'earn', points: 8 },
+        { kind: 'reversal', points: -8 },
+        { kind: 'refund', points: 3 },
+      ])
+    ).toEqual({ balance: 10, earned: 20, redeemed: 5 });
+  });
+
+  it('should format points', () => {
+    expect(formatPoints(1)).toBe('1 point');
+    expect(formatPoints(0)).toBe('0 points');
+    expect(formatPoints(-12)).toBe('-12 points');
+  });
+});
@@ -0,0 +1,62 @@
+import { formatPercent, getBundleCost, getMargin, getNetPrice, parseMarginReport } from '../margins';
+import { DEFAULT_TAX_CONFIG, TaxConfig } from '../tax';
+
+describe('Margins', () => {
+  it('should work out profit, margin and markup', () => {
+    expect(getMargin(100, 60)).toEqual({ profit: 40, marginPercent: 40, markupPercent: 66.7 });
+    expect(getMargin(50, 80)).toEqual({ profit: -30, marginPercent: -60, markupPercent: -37.5 });
+    expect(getMargin(0, 0)).toEqual({ profit: 0, marginPercent: null, markupPercent: null });
+  });
+
+  it('should measure cost against the price without VAT', () => {
+    const product = { id: 'p1', price: 112 };
+    expect(getNetPrice(product, DEFAULT_TAX_CONFIG)).toBe(100);
+
+    const exclusive: TaxConfig = { ...DEFAULT_TAX_CONFIG, pricesIncludeTax: false };
+    expect(getNetPrice(product, exclusive)).toBe(112);
+
+    const exempt: TaxConfig = {
+      ...DEFAULT_TAX_CONFIG,
+      taxClasses: [...DEFAULT_TAX_CONFIG.taxClasses, { id: 'exempt', code: 'EX', name: 'Exempt', kind: 'exempt', rate: 0, is_default: false }],
+    };
+    expect(getNetPrice({ ...product, tax_class_id: 'exempt' }, exempt)).toBe(112);
+  });
+
+  it('should cost bundles from their components', () => {
+    const components = [
+      { component_id: 'burger', quantity: 1 },
+      { component_id: 'fries', quantity: 2 },
+    ];
+    expect(getBundleCost(components, { burger: 45.5, fries: 12.25 })).toBe(70);
+    expect(getBundleCost(components, { burger: 45.5 })).toBeNull();
+    expect(getBundleCost([], { burger: 45.5 })).toBeNull();
+  });
+
+  it('should format percentages', () => {
+    expect(formatPercent(32.456)).toBe('32.5%');
+    expect(formatPercent(null)).toBe('—');
+  });
+
+  it('should parse the margin report and work margins out on costed revenue', () => {
+    const report = parseMarginReport({
+      summary: { quantity: 12, revenue: '1000.00', costed_revenue: '800.00', cost: '500.00', uncosted_quantity: 3 },
+      by_product: [
+        { key: 'p1', label: 'Latte', quantity: 9, revenue: '800.00', costed_revenue: '800.00', cost: '500.00', uncosted_quantity: 0 },
+      ],
+      by_category: null,
+    });
+
+    expect(report.summary).toEqual({
+      quantity: 12,
+      revenue: 1000,
+      costedRevenue: 800,
+      cost: 500,
+      uncostedQuantity: 3,
+      profit: 300,
+      marginPercent: 37.5,
+      markupPercent: 60,
+    });
+    expect(report.breakdowns.product[0]).toMatchObject({ key: 'p1', label: 'Latte', profit: 300 });
+    expect(report.breakdowns.category).toEqual([]);
+  });
+});
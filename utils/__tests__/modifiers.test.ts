@@ -0,0 +1,111 @@
+import {
+  describeSelectionRule,
+  formatModifiers,
+  getCartLineKey,
+  getProductModifierGroups,
+  ModifierGroup,
+  parseOrderItemModifiers,
+  toggleModifier,
+  toSelectedModifiers,
+  validateModifierSelection,
+} from '../modifiers';
+
+const option = (id: string, groupId: string, name: string, priceDelta: number, position: number, active = true) => ({
+  id,
+  group_id: groupId,
+  name,
+  price_delta: priceDelta,
+  active,
+  position,
+});
+
+const milk: ModifierGroup = {
+  id: 'milk',
+  name: 'Milk',
+  min_select: 1,
+  max_select: 1,
+  created_at: '2025-11-12T00:00:00Z',
+  modifiers: [option('whole', 'milk', 'Whole milk', 0, 1), option('oat', 'milk', 'Oat milk', 20, 2)],
+  product_ids: [],
+  category_ids: ['coffee'],
+};
+
+const extras: ModifierGroup = {
+  id: 'extras',
+  name: 'Extras',
+  min_select: 0,
+  max_select: 2,
+  created_at: '2025-11-12T00:00:01Z',
+  modifiers: [
+    option('shot', 'extras', 'Extra shot', 30, 1),
+    option('no-sugar', 'extras', 'No sugar', 0, 2),
+    option('syrup', 'extras', 'Vanilla syrup', 25, 3, false),
+  ],
+  product_ids: ['latte'],
+  category_ids: [],
+};
+
+describe('Modifiers', () => {
+  it('should key lines by product and the sorted option ids', () => {
+    expect(getCartLineKey('latte')).toBe('latte');
+    expect(getCartLineKey('latte', [{ id: 'shot' }, { id: 'oat' }])).toBe('latte|oat,shot');
+    expect(getCartLineKey('latte', [{ id: 'oat' }, { id: 'shot' }])).toBe('latte|oat,shot');
+  });
+
+  it('should find groups through the product, its parent or its category', () => {
+    expect(getProductModifierGroups([extras, milk], { id: 'latte', category_id: 'coffee' }).map(g => g.id)).toEqual([
+      'milk',
+      'extras',
+    ]);
+    expect(getProductModifierGroups([extras, milk], { id: 'latte-l', parent_id: 'latte' }).map(g => g.id)).toEqual([
+      'extras',
+    ]);
+    expect(getProductModifierGroups([extras, milk], { id: 'muffin', category_id: 'bakery' })).toEqual([]);
+  });
+
+  it('should describe the selection rules', () => {
+    expect(describeSelectionRule(milk)).toBe('Choose 1');
+    expect(describeSelectionRule(extras)).toBe('Optional, up to 2');
+    expect(describeSelectionRule({ min_select: 0, max_select: null })).toBe('Optional');
+    expect(describeSelectionRule({ min_select: 1, max_select: 3 })).toBe('Choose 1–3');
+  });
+
+  it('should enforce the minimum and maximum per group', () => {
+    expect(validateModifierSelection([milk, extras], [])).toBe('Choose an option for Milk');
+    expect(validateModifierSelection([milk, extras], ['oat'])).toBeNull();
+    expect(validateModifierSelection([milk, extras], ['oat', 'whole'])).toBe('Choose only one option for Milk');
+    expect(validateModifierSelection([milk, extras], ['oat', 'shot', 'no-sugar', 'syrup'])).toBe(
+      'Choose up to 2 options for Extras'
+    );
+  });
+
+  it('should replace the choice in single-choice groups and stop at the maximum', () => {
+    expect(toggleModifier(milk, ['whole', 'shot'], 'oat')).toEqual(['shot', 'oat']);
+    expect(toggleModifier(milk, ['oat'], 'oat')).toEqual([]);
+    expect(toggleModifier(extras, ['shot', 'no-sugar'], 'syrup')).toEqual(['shot', 'no-sugar']);
+    expect(toggleModifier(extras, ['shot'], 'no-sugar')).toEqual(['shot', 'no-sugar']);
+  });
+
+  it('should snapshot the chosen options in group order', () => {
+    expect(toSelectedModifiers([milk, extras], ['no-sugar', 'oat'])).toEqual([
+      { id: 'oat', group_name: 'Milk', name: 'Oat milk', price_delta: 20 },
+      { id: 'no-sugar', group_name: 'Extras', name: 'No sugar', price_delta: 0 },
+    ]);
+  });
+
+  it('should show price changes only for options that have one', () => {
+    expect(
+      formatModifiers([
+        { name: 'Oat milk', price_delta: 20 },
+        { name: 'No sugar', price_delta: 0 },
+        { name: 'Small cup', price_delta: -5 },
+      ])
+    ).toBe('Oat milk (+₱20.00), No sugar, Small cup (−₱5.00)');
+  });
+
+  it('should read the snapshot stored on order items', () => {
+    expect(parseOrderItemModifiers(null)).toEqual([]);
+    expect(parseOrderItemModifiers([{ id: 'shot', group_name: 'Extras', name: 'Extra shot', price_delta: '30.00' }]))
+      .toEqual([{ id: 'shot', group_name: 'Extras', name: 'Extra shot', price_delta: 30 }]);
+  });
+});
@@ -0,0 +1,181 @@
+import {
+  buildDailyJournal,
+  DEFAULT_JOURNAL_ACCOUNTS,
+  ExportOrder,
+  getOrderExportFilename,
+  getRefundTax,
+  journalToCsv,
+  orderLinesToCsv,
+  ordersToCsv,
+  parseJournalAccounts,
+} from '../orderExport';
+import { parseCsv } from '../csv';
+
+const range = { from: new Date(2025, 10, 1), to: new Date(2025, 10, 3) };
+const at = (month: number, day: number, hour: number) => new Date(2025, month, day, hour).toISOString();
+
+const line = (id: string, lineTotal: number, tax: number) => ({
+  id,
+  quantity: 1,
+  price: lineTotal,
+  subtotal: lineTotal,
+  discount_amount: 0,
+  order_discount_share: 0,
+  tax_class_code: 'V',
+  tax_rate: 0.12,
+  taxable_amount: lineTotal - tax,
+  tax_amount: tax,
+  line_total: lineTotal,
+  refunded_quantity: 0,
+  refunded_amount: 0,
+  products: { name: `Product ${id}` },
+});
+
+const orders: ExportOrder[] = [
+  {
+    id: 'o1',
+    created_at: at(10, 1, 9),
+    status: 'completed',
+    total: 224,
+    tax: 24,
+    discount_total: 0,
+    payment_method: 'split',
+    tax_exemption: null,
+    profiles: { full_name: 'Ana', email: 'ana@example.com' },
+    customers: null,
+    order_items: [line('i1', 112, 12), line('i2', 112, 12)],
+    order_payments: [
+      { method: 'cash', amount: 100 },
+      { method: 'card', amount: 124 },
+    ],
+    refunds: [
+      {
+        id: 'r1',
+        amount: 112,
+        method: 'cash',
+        created_at: at(10, 2, 10),
+        refund_items: [{ order_item_id: 'i1', quantity: 1, amount: 112 }],
+      },
+    ],
+  },
+  {
+    id: 'o2',
+    created_at: at(10, 2, 11),
+    status: 'completed',
+    total: 56,
+    tax: 6,
+    discount_total: 0,
+    payment_method: 'mobile',
+    tax_exemption: null,
+    customers: { name: 'Ben, Jr.' },
+    order_items: [line('i3', 56, 6)],
+    order_payments: [],
+    refunds: [],
+  },
+  {
+    id: 'o3',
+    created_at: at(10, 2, 12),
+    status: 'cancelled',
+    total: 50,
+    tax: 0,
+    discount_total: 0,
+    payment_method: 'cash',
+    tax_exemption: null,
+    order_items: [line('i4', 50, 0)],
+    order_payments: [{ method: 'cash', amount: 50 }],
+    refunds: [],
+  },
+  // Placed before the range and refunded inside it
+  {
+    id: 'o4',
+    created_at: at(9, 31, 18),
+    status: 'refunded',
+    total: 112,
+    tax: 12,
+    discount_total: 0,
+    payment_method: 'card',
+    tax_exemption: null,
+    order_items: [line('i5', 112, 12)],
+    order_payments: [{ method: 'card', amount: 112 }],
+    refunds: [
+      {
+        id: 'r2',
+        amount: 56,
+        method: 'card',
+        created_at: at(10, 1, 8),
+        refund_items: [{ order_item_id: 'i5', quantity: 1, amount: 56 }],
+      },
+    ],
+  },
+];
+
+describe('Order export', () => {
+  it('should export orders placed in the range with payments by method', () => {
+    const rows = parseCsv(ordersToCsv(orders, range));
+    expect(rows[0].slice(0, 5)).toEqual(['order_id', 'date', 'status', 'cashier', 'customer']);
+    expect(rows.map(row => row[0]).slice(1)).toEqual(['o1', 'o2', 'o3']);
+    expect(rows[1]).toEqual([
+      'o1', '2025-11-01 09:00', 'completed', 'Ana', '', '2', '0.00', '200.00', '24.00', '224.00', 'split',
+      '100.00', '124.00', '0.00', '0.00', '112.00', '',
+    ]);
+    // Orders from before split tenders are paid in full by their single method
+    expect(rows[2][4]).toBe('Ben, Jr.');
+    expect(rows[2].slice(11, 15)).toEqual(['0.00', '0.00', '56.00', '0.00']);
+  });
+
+  it('should export one row per order line', () => {
+    const rows = parseCsv(orderLinesToCsv(orders, range));
+    expect(rows).toHaveLength(5);
+    expect(rows[1]).toEqual([
+      'o1', '2025-11-01 09:00', 'completed', 'Product i1', '1', '112.00', '112.00', '0.00', '100.00', 'V', '0.12',
+      '12.00', '112.00', '0', '0.00',
+    ]);
+  });
+
+  it('should take the VAT out of refunds in proportion to the lines returned', () => {
+    expect(getRefundTax(orders[3].refunds![0], orders[3].order_items)).toBe(6);
+    expect(getRefundTax({ ...orders[3].refunds![0], refund_items: null }, orders[3].order_items)).toBe(0);
+  });
+
+  it('should build a balanced journal for each day', () => {
+    const lines = buildDailyJournal(orders, range);
+    const summary = lines.map(l => [l.date, l.account, l.debit, l.credit]);
+    expect(summary).toEqual([
+      ['2025-11-01', 'cash', 100, 0],
+      ['2025-11-01', 'card', 124, 0],
+      ['2025-11-01', 'sales', 0, 200],
+      ['2025-11-01', 'vatOutput', 0, 24],
+      ['2025-11-01', 'salesReturns', 50, 0],
+      ['2025-11-01', 'vatOutput', 6, 0],
+      ['2025-11-01', 'card', 0, 56],
+      ['2025-11-02', 'mobile', 56, 0],
+      ['2025-11-02', 'sales', 0, 50],
+      ['2025-11-02', 'vatOutput', 0, 6],
+      ['2025-11-02', 'salesReturns', 100, 0],
+      ['2025-11-02', 'vatOutput', 12, 0],
+      ['2025-11-02', 'cash', 0, 112],
+    ]);
+
+    ['2025-11-01', '2025-11-02'].forEach(date => {
+      const day = lines.filter(l => l.date === date);
+      const debits = day.reduce((sum, l) => sum + l.debit, 0);
+      const credits = day.reduce((sum, l) => sum + l.credit, 0);
+      expect(debits).toBeCloseTo(credits, 2);
+    });
+  });
+
+  it('should write the journal with the mapped accounts', () => {
+    const accounts = parseJournalAccounts({ cash: { code: '1001', name: 'Till Cash' }, card: { code: ' ' } });
+    expect(accounts.cash).toEqual({ code: '1001', name: 'Till Cash' });
+    expect(accounts.card).toEqual(DEFAULT_JOURNAL_ACCOUNTS.card);
+    expect(parseJournalAccounts(null)).toEqual(DEFAULT_JOURNAL_ACCOUNTS);
+
+    const rows = parseCsv(journalToCsv(buildDailyJournal(orders, range), accounts));
+    expect(rows[0]).toEqual(['date', 'reference', 'account_code', 'account_name', 'description', 'debit', 'credit']);
+    expect(rows[1]).toEqual(['2025-11-01', 'POS-2025-11-01', '1001', 'Till Cash', 'POS takings 2025-11-01', '100.00', '']);
+  });
+
+  it('should name files after the days the range covers', () => {
+    expect(getOrderExportFilename('lines', range)).toBe('order-lines-2025-11-01-to-2025-11-02.csv');
+  });
+});
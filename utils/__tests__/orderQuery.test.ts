@@ -0,0 +1,43 @@
+import { combineOrFilters, getOrderCursorFilter, getOrderPage, parseOrderSearch } from '../orderQuery';
+
+describe('Order queries', () => {
+  it('should continue after the cursor, breaking ties by id', () => {
+    expect(getOrderCursorFilter({ createdAt: '2025-11-01T09:00:00.123+00:00', id: 'abc' })).toBe(
+      'created_at.lt."2025-11-01T09:00:00.123+00:00",and(created_at.eq."2025-11-01T09:00:00.123+00:00",id.lt.abc)'
+    );
+  });
+
+  it('should return a cursor only when another page follows', () => {
+    const rows = [
+      { id: 'c', created_at: '2025-11-03' },
+      { id: 'b', created_at: '2025-11-02' },
+      { id: 'a', created_at: '2025-11-01' },
+    ];
+
+    expect(getOrderPage(rows, 2)).toEqual({
+      orders: rows.slice(0, 2),
+      nextCursor: { createdAt: '2025-11-02', id: 'b' },
+    });
+    expect(getOrderPage(rows, 3)).toEqual({ orders: rows, nextCursor: null });
+    expect(getOrderPage([], 3)).toEqual({ orders: [], nextCursor: null });
+  });
+
+  it('should search by receipt number and customer', () => {
+    expect(parseOrderSearch('#3F2A9C01')).toEqual({ idPrefix: '3f2a9c01', text: '3F2A9C01' });
+    expect(parseOrderSearch('  Ana  Cruz ')).toEqual({ idPrefix: null, text: 'Ana Cruz' });
+    expect(parseOrderSearch('0917')).toEqual({ idPrefix: '0917', text: '0917' });
+    expect(parseOrderSearch('a')).toEqual({ idPrefix: null, text: null });
+    expect(parseOrderSearch(' ')).toBeNull();
+    expect(parseOrderSearch(null)).toBeNull();
+  });
+
+  it('should drop characters that would break the filter', () => {
+    expect(parseOrderSearch('Ana,(x)*%"')).toEqual({ idPrefix: null, text: 'Ana x' });
+  });
+
+  it('should nest several or filters in one', () => {
+    expect(combineOrFilters([])).toBeNull();
+    expect(combineOrFilters(['a.eq.1,b.eq.2'])).toBe('a.eq.1,b.eq.2');
+    expect(combineOrFilters(['a.eq.1,b.eq.2', 'c.eq.3'])).toBe('and(or(a.eq.1,b.eq.2),or(c.eq.3))');
+  });
+});
@@ -0,0 +1,75 @@
+import { applyTenders, getOrderPaymentMethod, summarizeTenders } from '../payments';
+
+describe('Payments', () => {
+  describe('summarizeTenders', () => {
+    it('should compute change when cash exceeds the total', () => {
+      const summary = summarizeTenders([{ method: 'cash', amount: 1000 }], 845.5);
+      expect(summary.isCovered).toBe(true);
+      expect(summary.changeDue).toBe(154.5);
+      expect(summary.remaining).toBe(0);
+    });
+
+    it('should report the remaining amount for a partial payment', () => {
+      const summary = summarizeTenders(
+        [{ method: 'cash', amount: 500 }, { method: 'mobile', amount: 200 }],
+        845.5
+      );
+      expect(summary.isCovered).toBe(false);
+      expect(summary.remaining).toBe(145.5);
+      expect(summary.changeDue).toBe(0);
+    });
+
+    it('should not cover the total when card payments exceed it', () => {
+      const summary = summarizeTenders([{ method: 'card', amount: 900 }], 845.5);
+      expect(summary.nonCashExceedsTotal).toBe(true);
+      expect(summary.isCovered).toBe(false);
+      expect(summary.changeDue).toBe(0);
+    });
+
+    it('should not treat an empty tender list as covered', () => {
+      expect(summarizeTenders([], 100).isCovered).toBe(false);
+    });
+  });
+
+  describe('applyTenders', () => {
+    it('should give change from the last cash tender', () => {
+      const applied = applyTenders(
+        [
+          { method: 'cash', amount: 100 },
+          { method: 'card', amount: 500 },
+          { method: 'cash', amount: 300 },
+        ],
+        750
+      );
+      expect(applied.map(t => [t.applied, t.changeDue])).toEqual([
+        [100, 0],
+        [500, 0],
+        [150, 150],
+      ]);
+    });
+
+    it('should spill change over to earlier cash tenders', () => {
+      const applied = applyTenders(
+        [
+          { method: 'cash', amount: 500 },
+          { method: 'cash', amount: 100 },
+        ],
+        300
+      );
+      expect(applied.map(t => [t.applied, t.changeDue])).toEqual([
+        [300, 200],
+        [0, 100],
+      ]);
+    });
+  });
+
+  describe('getOrderPaymentMethod', () => {
+    it('should return the method when all tenders share it', () => {
+      expect(getOrderPaymentMethod([{ method: 'card' }, { method: 'card' }])).toBe('card');
+    });
+
+    it('should return split for mixed methods', () => {
+      expect(getOrderPaymentMethod([{ method: 'cash' }, { method: 'mobile' }])).toBe('split');
+    });
+  });
+});
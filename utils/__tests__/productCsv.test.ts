@@ -0,0 +1,114 @@
+import { getProductImportPayload, planProductImport, productsToCsv } from '../productCsv';
+
+const categories = [
+  { id: 'c1', name: 'Coffee' },
+  { id: 'c2', name: 'Pastry' },
+];
+
+const products = [
+  { id: 'p1', name: 'Latte', sku: 'LAT-01', barcode: '4800001', price: 120, stock: 10, active: true, category_id: 'c1' },
+  { id: 'p2', name: 'Croissant', sku: null, barcode: null, price: 85, stock: 4, active: false, category_id: 'c2' },
+  { id: 'p3', name: 'Muffin', sku: null, barcode: null, price: 60, stock: 0, active: true, category_id: null },
+  { id: 'p4', name: 'Muffin', sku: null, barcode: null, price: 65, stock: 0, active: true, category_id: null },
+  { id: 'p5', name: 'Tee (S)', sku: 'TEE-S', barcode: null, price: 300, stock: 5, active: true, category_id: null, parent_id: 'p6' },
+];
+
+describe('Product CSV', () => {
+  it('should export products with their category names', () => {
+    expect(productsToCsv(products.slice(0, 2), categories)).toBe(
+      'name,sku,barcode,category,price,stock,active\r\n' +
+        'Latte,LAT-01,4800001,Coffee,120.00,10,true\r\n' +
+        'Croissant,,,Pastry,85.00,4,false\r\n'
+    );
+  });
+
+  it('should find nothing to change when an export is imported again', () => {
+    const plan = planProductImport(productsToCsv(products.slice(0, 2), categories), products, categories);
+    expect(plan.errors).toEqual([]);
+    expect(plan.counts).toEqual({ create: 0, update: 0, unchanged: 2, reject: 0 });
+  });
+
+  it('should match by SKU, then by name, and only change the columns given', () => {
+    const plan = planProductImport(
+      'sku,name,price,category\nlat-01,Latte Grande,130,Coffee\n,croissant,85,Breads',
+      products,
+      categories
+    );
+
+    expect(plan.rows[0]).toMatchObject({ action: 'update', productId: 'p1', changes: { name: 'Latte Grande', price: 130 } });
+    expect(plan.rows[0].categoryName).toBeUndefined();
+    expect(plan.rows[1]).toMatchObject({ action: 'update', productId: 'p2', changes: {}, categoryName: 'Breads' });
+    expect(plan.newCategories).toEqual(['Breads']);
+  });
+
+  it('should create new products with an opening stock and new categories', () => {
+    const plan = planProductImport(
+      'name,category,price,stock,active\nScone,pastry,70,12,yes\nBagel,Breads,55,,\nRoll,breads,40,,no',
+      products,
+      categories
+    );
+
+    expect(plan.counts.create).toBe(3);
+    expect(plan.rows[0]).toMatchObject({
+      changes: { name: 'Scone', sku: null, barcode: null, price: 70, stock: 12, active: true },
+      categoryName: 'Pastry',
+    });
+    expect(plan.rows[2]).toMatchObject({ changes: { stock: 0, active: false }, categoryName: 'Breads' });
+    expect(plan.newCategories).toEqual(['Breads']);
+
+    expect(getProductImportPayload(plan.rows[1], { pastry: 'c2', breads: 'c9' })).toMatchObject({
+      name: 'Bagel',
+      category_id: 'c9',
+    });
+  });
+
+  it('should reject rows that fail validation with their reasons', () => {
+    const plan = planProductImport(
+      [
+        'name,sku,barcode,price,stock,active',
+        ',,,10,,',
+        'Bun,,,abc,1.5,maybe',
+        'Muffin,,,60,,',
+        'Cookie,,4800001,30,,',
+        'Latte,LAT-99,,120,,',
+        'Donut,DN-1,,50,,',
+        'Donut Holes,dn-1,,20,,',
+        'Brownie,,,,,',
+      ].join('\n'),
+      products,
+      categories
+    );
+
+    const errors = plan.rows.map(row => row.errors);
+    expect(plan.rows.every((row, index) => row.action === (index === 5 ? 'create' : 'reject'))).toBe(true);
+    expect(errors[0]).toEqual(['Name is required']);
+    expect(errors[1]).toEqual([
+      'Price must be a number of 0 or more',
+      'Stock must be a whole number of 0 or more',
+      'Active must be true or false',
+    ]);
+    expect(errors[2][0]).toMatch(/2 products are named "Muffin"/);
+    expect(errors[3]).toEqual(['Barcode 4800001 belongs to "Latte"']);
+    expect(errors[4]).toEqual(['"Latte" already has SKU LAT-01']);
+    expect(errors[6]).toEqual(['Same product, SKU or barcode as line 7']);
+    expect(errors[7]).toEqual(['Price is required for new products']);
+  });
+
+  it('should leave stock on existing products to stock adjustments', () => {
+    const plan = planProductImport('name,stock\nLatte,25', products, categories);
+    expect(plan.rows[0]).toMatchObject({ action: 'unchanged', changes: {} });
+    expect(plan.rows[0].warnings).toEqual(['Stock stays at 10; use a stock adjustment to change it']);
+  });
+
+  it('should not rename variants or move them between categories', () => {
+    const plan = planProductImport('sku,name,category\nTEE-S,Tee Small,Coffee', products, categories);
+    expect(plan.rows[0].action).toBe('reject');
+    expect(plan.rows[0].errors).toEqual(['A variant takes its name and category from its parent product']);
+    expect(plan.newCategories).toEqual([]);
+  });
+
+  it('should refuse files without a name column or without rows', () => {
+    expect(planProductImport('sku,price\nA,1', products, categories).errors).toEqual(['The file needs a "name" column']);
+    expect(planProductImport('name,price\n', products, categories).errors).toEqual(['The file has no products']);
+  });
+});
@@ -0,0 +1,72 @@
+import {
+  findProductByCode,
+  getProductSearchKey,
+  isNearScrollEnd,
+  isProductSearchStale,
+  mergeProductPages,
+  normalizeProductSearch,
+  PRODUCT_SEARCH_MAX_AGE_MS,
+} from '../productSearch';
+
+describe('Product search', () => {
+  it('should prefer a barcode match over another product\'s SKU', () => {
+    const products = [
+      { id: 'a', sku: '12345', barcode: null },
+      { id: 'b', sku: 'B-1', barcode: '12345' },
+    ];
+
+    expect(findProductByCode(products, ' 12345 ')?.id).toBe('b');
+    expect(findProductByCode(products, 'b-1')?.id).toBe('b');
+    expect(findProductByCode(products, ' ')).toBeUndefined();
+  });
+
+  it('should tidy the search term', () => {
+    expect(normalizeProductSearch('  iced   latte ')).toBe('iced latte');
+    expect(normalizeProductSearch('   ')).toBeNull();
+    expect(normalizeProductSearch(null)).toBeNull();
+  });
+
+  it('should share a cache entry between equivalent searches', () => {
+    expect(getProductSearchKey({ query: ' latte ' })).toBe(getProductSearchKey({ query: 'latte', categoryId: null }));
+    expect(getProductSearchKey({ query: '' })).toBe(getProductSearchKey({}));
+    expect(getProductSearchKey({ query: 'latte' })).not.toBe(getProductSearchKey({ query: 'latte', categoryId: 'c1' }));
+    expect(getProductSearchKey({ query: 'latte' })).not.toBe(getProductSearchKey({ query: 'latte', includeInactive: true }));
+  });
+
+  it('should refetch cached results once they are too old', () => {
+    const now = 1_000_000;
+    expect(isProductSearchStale(now - PRODUCT_SEARCH_MAX_AGE_MS, now)).toBe(false);
+    expect(isProductSearchStale(now - PRODUCT_SEARCH_MAX_AGE_MS - 1, now)).toBe(true);
+  });
+
+  it('should append a page without repeating products', () => {
+    const loaded = [
+      { id: 'a', stock: 1 },
+      { id: 'b', stock: 2 },
+    ];
+    const page = [
+      { id: 'b', stock: 5 },
+      { id: 'c', stock: 3 },
+    ];
+
+    expect(mergeProductPages(loaded, page)).toEqual([
+      { id: 'a', stock: 1 },
+      { id: 'b', stock: 5 },
+      { id: 'c', stock: 3 },
+    ]);
+    expect(mergeProductPages([], page)).toEqual(page);
+  });
+
+  it('should load more before the end of the list is reached', () => {
+    const metrics = (offset: number) => ({
+      layoutMeasurement: { height: 800 },
+      contentOffset: { y: offset },
+      contentSize: { height: 3000 },
+    });
+
+    expect(isNearScrollEnd(metrics(1000))).toBe(false);
+    expect(isNearScrollEnd(metrics(1800))).toBe(true);
+    expect(isNearScrollEnd(metrics(2100), 0)).toBe(false);
+    expect(isNearScrollEnd(metrics(2200), 0)).toBe(true);
+  });
+});
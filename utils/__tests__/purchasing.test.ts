@@ -0,0 +1,64 @@
+import {
+  canReceivePurchaseOrder,
+  computeAverageCost,
+  formatPoNumber,
+  getOutstandingQuantity,
+  getPurchaseOrderTotal,
+  parsePurchaseOrder,
+} from '../purchasing';
+
+describe('Purchasing', () => {
+  describe('computeAverageCost', () => {
+    it('should weight the delivery against the stock on hand', () => {
+      expect(computeAverageCost(10, 20, 30, 24)).toBe(23);
+    });
+
+    it('should take the delivery cost when there is no current cost or stock', () => {
+      expect(computeAverageCost(10, null, 5, 18.5)).toBe(18.5);
+      expect(computeAverageCost(0, 20, 5, 18.5)).toBe(18.5);
+      expect(computeAverageCost(-2, 20, 5, 18.5)).toBe(18.5);
+    });
+
+    it('should round to centavos', () => {
+      expect(computeAverageCost(2, 10, 1, 11)).toBe(10.33);
+    });
+  });
+
+  describe('getOutstandingQuantity', () => {
+    it('should never go below zero', () => {
+      expect(getOutstandingQuantity({ quantity_ordered: 12, quantity_received: 5 })).toBe(7);
+      expect(getOutstandingQuantity({ quantity_ordered: 12, quantity_received: 12 })).toBe(0);
+    });
+  });
+
+  describe('getPurchaseOrderTotal', () => {
+    it('should sum quantity times unit cost', () => {
+      expect(getPurchaseOrderTotal([
+        { quantity: 3, unit_cost: 12.5 },
+        { quantity: 24, unit_cost: 0.35 },
+      ])).toBe(45.9);
+    });
+  });
+
+  it('should format PO numbers', () => {
+    expect(formatPoNumber(42)).toBe('PO-000042');
+  });
+
+  it('should only receive sent or partially received orders', () => {
+    expect(canReceivePurchaseOrder('sent')).toBe(true);
+    expect(canReceivePurchaseOrder('partially_received')).toBe(true);
+    expect(canReceivePurchaseOrder('draft')).toBe(false);
+    expect(canReceivePurchaseOrder('received')).toBe(false);
+  });
+
+  it('should convert numeric strings from the RPCs', () => {
+    const order = parsePurchaseOrder({
+      id: 'po-1',
+      po_number: '7',
+      purchase_order_items: [{ id: 'poi-1', quantity_ordered: 10, quantity_received: 4, unit_cost: '12.50' }],
+    });
+
+    expect(order.po_number).toBe(7);
+    expect(order.purchase_order_items[0].unit_cost).toBe(12.5);
+  });
+});
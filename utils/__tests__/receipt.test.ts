@@ -0,0 +1,91 @@
+import { DEFAULT_STORE_INFO, encodeEscPos, renderReceiptHtml, renderReceiptText, ReceiptOrder } from '../receipt';
+
+describe('Receipt', () => {
+  const store = {
+    ...DEFAULT_STORE_INFO,
+    storeName: 'Sari-Sari Store',
+    tin: '123-456-789-000',
+    address: 'Quezon City',
+  };
+
+  const order: ReceiptOrder = {
+    id: 'abcdef12-3456-7890-abcd-ef1234567890',
+    created_at: '2025-11-04T02:30:00Z',
+    total: 336,
+    tax: 36,
+    order_items: [
+      { quantity: 2, price: 150, subtotal: 300, line_total: 300, tax_amount: 32.14, products: { name: 'Coffee Beans 250g' } },
+      { quantity: 1, price: 36, subtotal: 36, line_total: 36, tax_amount: 0, products: { name: 'Rice' } },
+    ],
+    order_payments: [
+      { position: 1, method: 'cash', amount: 336, amount_tendered: 500, change_due: 164, reference: null },
+    ],
+  };
+
+  describe('renderReceiptText', () => {
+    it('should keep every line within the paper width', () => {
+      const narrow = renderReceiptText(order, store, { width: '58mm' }).split('\n');
+      const wide = renderReceiptText(order, store, { width: '80mm' }).split('\n');
+      expect(Math.max(...narrow.map(line => line.length))).toBeLessThanOrEqual(32);
+      expect(Math.max(...wide.map(line => line.length))).toBeLessThanOrEqual(48);
+    });
+
+    it('should right-align amounts and show the store details', () => {
+      const text = renderReceiptText(order, store, { width: '58mm' });
+      expect(text).toContain('TIN: 123-456-789-000');
+      expect(text).toContain('Order #abcdef12');
+      expect(text.split('\n')).toContain(`TOTAL${' '.repeat(32 - 'TOTAL'.length - '336.00'.length)}336.00`);
+      expect(text).toMatch(/Change\s+164\.00/);
+    });
+
+    it('should report exempt sales separately from VATable sales', () => {
+      const text = renderReceiptText(order, store);
+      expect(text).toMatch(/VATable Sales\s+264\.00/);
+      expect(text).toMatch(/VAT-Exempt Sales\s+36\.00/);
+    });
+
+    it('should list the options chosen under the item', () => {
+      const latte = {
+        quantity: 1,
+        price: 150,
+        subtotal: 150,
+        line_total: 150,
+        tax_amount: 16.07,
+        modifiers: [
+          { name: 'Oat milk', price_delta: 20 },
+          { name: 'No sugar', price_delta: 0 },
+        ],
+        products: { name: 'Latte' },
+      };
+      const lines = renderReceiptText({ ...order, order_items: [latte] }, store).split('\n');
+      const itemIndex = lines.findIndex(line => line.startsWith('1 x Latte'));
+      expect(lines[itemIndex + 1]).toBe('  + Oat milk (+20.00)');
+      expect(lines[itemIndex + 2]).toBe('  + No sugar');
+    });
+
+    it('should mark reprints', () => {
+      expect(renderReceiptText(order, store, { reprint: true })).toContain('REPRINT');
+    });
+  });
+
+  describe('encodeEscPos', () => {
+    it('should initialise the printer, fold text to ASCII and cut', () => {
+      const bytes = encodeEscPos('₱5 Piña');
+      expect(Array.from(bytes.slice(0, 2))).toEqual([0x1b, 0x40]);
+      expect(String.fromCharCode(...Array.from(bytes.slice(2, 9)))).toBe('P5 Pina');
+      expect(Array.from(bytes.slice(-4))).toEqual([0x1d, 0x56, 0x42, 0]);
+    });
+  });
+
+  describe('renderReceiptHtml', () => {
+    it('should escape store and product text', () => {
+      const html = renderReceiptHtml(
+        { ...order, order_items: [{ ...order.order_items[0], products: { name: '<b>Beans</b>' } }] },
+        { ...store, storeName: 'Tom & Jerry' }
+      );
+      expect(html).toContain('Tom &amp; Jerry');
+      expect(html).toContain('&lt;b&gt;Beans&lt;/b&gt;');
+      expect(html).not.toContain('<b>Beans</b>');
+    });
+  });
+});
@@ -0,0 +1,38 @@
+import { computeRefundAmount, getReturnableQuantity } from '../refunds';
+
+describe('Refunds', () => {
+  const line = {
+    quantity: 3,
+    subtotal: 300,
+    line_total: 100,
+    refunded_quantity: 0,
+    refunded_amount: 0,
+  };
+
+  describe('getReturnableQuantity', () => {
+    it('should exclude units already returned', () => {
+      expect(getReturnableQuantity({ ...line, refunded_quantity: 2 })).toBe(1);
+    });
+  });
+
+  describe('computeRefundAmount', () => {
+    it('should refund a proportional share of the line total', () => {
+      expect(computeRefundAmount(line, 1)).toBe(33.33);
+    });
+
+    it('should refund the remainder for the last units', () => {
+      const partlyReturned = { ...line, refunded_quantity: 2, refunded_amount: 66.66 };
+      expect(computeRefundAmount(partlyReturned, 1)).toBe(33.34);
+      expect(computeRefundAmount(line, 3)).toBe(100);
+    });
+
+    it('should fall back to subtotal for orders without line totals', () => {
+      expect(computeRefundAmount({ ...line, line_total: null }, 1)).toBe(100);
+    });
+
+    it('should refund nothing for quantities that cannot be returned', () => {
+      expect(computeRefundAmount(line, 0)).toBe(0);
+      expect(computeRefundAmount({ ...line, refunded_quantity: 3, refunded_amount: 100 }, 1)).toBe(0);
+    });
+  });
+});
@@ -0,0 +1,122 @@
+import {
+  buildReorderSuggestions,
+  getDailyVelocity,
+  getDaysOfCover,
+  getSuggestedQuantity,
+  isLowStock,
+  parseReorderReport,
+  ReorderReportRow,
+  toPurchaseOrderLines,
+} from '../reorder';
+
+const row = (overrides: Partial<ReorderReportRow>): ReorderReportRow => ({
+  product_id: 'p1',
+  name: 'Coke 330ml',
+  sku: null,
+  category_name: 'Drinks',
+  stock: 20,
+  reorder_point: 5,
+  reorder_quantity: null,
+  units_sold: 0,
+  on_order: 0,
+  cost_price: 20,
+  ...overrides,
+});
+
+describe('Reorder', () => {
+  describe('isLowStock', () => {
+    it('should use the product reorder point', () => {
+      expect(isLowStock({ stock: 8, reorder_point: 10 })).toBe(true);
+      expect(isLowStock({ stock: 8, reorder_point: 4 })).toBe(false);
+    });
+
+    it('should fall back to the default threshold', () => {
+      expect(isLowStock({ stock: 5 })).toBe(true);
+      expect(isLowStock({ stock: 6, reorder_point: null })).toBe(false);
+    });
+
+    it('should not flag products that are out of stock', () => {
+      expect(isLowStock({ stock: 0, reorder_point: 10 })).toBe(false);
+    });
+  });
+
+  describe('getDaysOfCover', () => {
+    it('should divide stock by the daily sales', () => {
+      expect(getDaysOfCover(20, getDailyVelocity(60, 30))).toBe(10);
+      expect(getDaysOfCover(7, 2)).toBe(3);
+    });
+
+    it('should be zero when out of stock and null with no sales', () => {
+      expect(getDaysOfCover(0, 2)).toBe(0);
+      expect(getDaysOfCover(10, 0)).toBeNull();
+    });
+  });
+
+  describe('getSuggestedQuantity', () => {
+    it('should order nothing while stock is above the reorder point and lasts the cover period', () => {
+      expect(getSuggestedQuantity(row({ stock: 20, units_sold: 30 }), 30, 14)).toBe(0);
+    });
+
+    it('should use the reorder quantity when set', () => {
+      expect(getSuggestedQuantity(row({ stock: 4, reorder_quantity: 24 }), 30, 14)).toBe(24);
+    });
+
+    it('should cover the period on top of the reorder point', () => {
+      // 2 a day for 14 days + reorder point 5 - 10 in stock
+      expect(getSuggestedQuantity(row({ stock: 10, units_sold: 60 }), 30, 14)).toBe(23);
+    });
+
+    it('should count stock already on order', () => {
+      expect(getSuggestedQuantity(row({ stock: 3, on_order: 12 }), 30, 14)).toBe(0);
+      expect(getSuggestedQuantity(row({ stock: 10, on_order: 10, units_sold: 60 }), 30, 14)).toBe(13);
+    });
+
+    it('should suggest at least one for a low product with no sales', () => {
+      expect(getSuggestedQuantity(row({ stock: 5 }), 30, 14)).toBe(1);
+    });
+  });
+
+  describe('buildReorderSuggestions', () => {
+    it('should rank by days of cover and drop products that do not need ordering', () => {
+      const suggestions = buildReorderSuggestions(
+        [
+          row({ product_id: 'slow', stock: 2 }),
+          row({ product_id: 'fine', stock: 50, units_sold: 30 }),
+          row({ product_id: 'fast', stock: 6, units_sold: 90 }),
+          row({ product_id: 'out', stock: 0, units_sold: 3 }),
+          row({ product_id: 'lower', stock: 1 }),
+        ],
+        30,
+        14
+      );
+
+      expect(suggestions.map(s => s.product_id)).toEqual(['out', 'fast', 'lower', 'slow']);
+      expect(suggestions[1].daysOfCover).toBe(2);
+    });
+  });
+
+  describe('toPurchaseOrderLines', () => {
+    it('should use the cost price, or zero without one', () => {
+      expect(toPurchaseOrderLines([
+        { product_id: 'p1', suggestedQuantity: 12, cost_price: 18.5 },
+        { product_id: 'p2', suggestedQuantity: 3, cost_price: null },
+      ])).toEqual([
+        { product_id: 'p1', quantity: 12, unit_cost: 18.5 },
+        { product_id: 'p2', quantity: 3, unit_cost: 0 },
+      ]);
+    });
+  });
+
+  describe('parseReorderReport', () => {
+    it('should convert numeric fields', () => {
+      const [parsed] = parseReorderReport([
+        { ...row({}), stock: '4', units_sold: '12', on_order: '0', reorder_quantity: null, cost_price: '20.00' },
+      ]);
+
+      expect(parsed.stock).toBe(4);
+      expect(parsed.units_sold).toBe(12);
+      expect(parsed.reorder_quantity).toBeNull();
+      expect(parsed.cost_price).toBe(20);
+    });
+  });
+});
@@ -0,0 +1,60 @@
+import { getReportRange, parseSalesReport } from '../reports';
+
+describe('Reports', () => {
+  describe('parseSalesReport', () => {
+    it('should convert numeric strings and compute net sales', () => {
+      const report = parseSalesReport({
+        summary: { order_count: 3, item_count: '7', gross: '1120.00', tax: '108.00', refunds: '112.00' },
+        by_day: [{ key: '2025-11-06', label: '2025-11-06', order_count: 3, quantity: 7, gross: '1120.00', tax: '108.00', refunds: '112.00' }],
+        by_payment_method: [{ key: 'mobile', label: 'mobile', order_count: 1, quantity: 0, gross: 500, tax: 53.57, refunds: 0 }],
+      });
+
+      expect(report.summary).toEqual({
+        orderCount: 3,
+        quantity: 7,
+        gross: 1120,
+        tax: 108,
+        refunds: 112,
+        net: 1008,
+      });
+      expect(report.breakdowns.day[0].net).toBe(1008);
+      expect(report.breakdowns.paymentMethod[0].label).toBe('GCash / Mobile');
+    });
+
+    it('should default missing breakdowns to empty lists', () => {
+      const report = parseSalesReport({ summary: null });
+
+      expect(report.summary.gross).toBe(0);
+      expect(report.breakdowns.product).toEqual([]);
+      expect(report.breakdowns.staff).toEqual([]);
+      expect(report.breakdowns.modifier).toEqual([]);
+      expect(report.breakdowns.component).toEqual([]);
+    });
+  });
+
+  describe('getReportRange', () => {
+    const now = new Date(2025, 10, 6, 15, 30);
+
+    it('should cover the whole of today', () => {
+      const range = getReportRange('today', now);
+      expect(range.from).toEqual(new Date(2025, 10, 6));
+      expect(range.to).toEqual(new Date(2025, 10, 7));
+    });
+
+    it('should end yesterday at midnight today', () => {
+      const range = getReportRange('yesterday', now);
+      expect(range.from).toEqual(new Date(2025, 10, 5));
+      expect(range.to).toEqual(new Date(2025, 10, 6));
+    });
+
+    it('should include today in the last 7 days', () => {
+      const range = getReportRange('last7', now);
+      expect(range.from).toEqual(new Date(2025, 9, 31));
+      expect(range.to).toEqual(new Date(2025, 10, 7));
+    });
+
+    it('should start this month on the first', () => {
+      expect(getReportRange('thisMonth', now).from).toEqual(new Date(2025, 10, 1));
+    });
+  });
+});
@@ -0,0 +1,117 @@
+import {
+  applyReplayOutcome,
+  getAvailableSale,
+  getReplayOrder,
+  getReplayOutcome,
+  ReplayableSale,
+  shouldStopReplay,
+} from '../salesQueue';
+
+const sale = (overrides: Partial<ReplayableSale> = {}): ReplayableSale => ({
+  id: 'sale-1',
+  userId: 'user-1',
+  items: [{ product_id: 'p1', quantity: 2 }],
+  queuedAt: '2025-11-01T10:00:00.000Z',
+  status: 'pending',
+  errors: [],
+  lastError: null,
+  ...overrides,
+});
+
+describe('Sales queue replay', () => {
+  it('should replay the cashier\'s pending sales in the order they were rung up', () => {
+    const sales = [
+      sale({ id: 'late', queuedAt: '2025-11-01T10:05:00.000Z' }),
+      sale({ id: 'other-cashier', userId: 'user-2', queuedAt: '2025-11-01T09:00:00.000Z' }),
+      sale({ id: 'conflict', status: 'conflict', queuedAt: '2025-11-01T09:30:00.000Z' }),
+      sale({ id: 'early', queuedAt: '2025-11-01T09:45:00.000Z' }),
+    ];
+
+    expect(getReplayOrder(sales, 'user-1').map(s => s.id)).toEqual(['early', 'late']);
+  });
+
+  it('should tell a lost connection apart from a rejected sale', () => {
+    expect(getReplayOutcome({ data: null, error: 'Network request failed' })).toEqual({
+      kind: 'unreachable',
+      error: 'Network request failed',
+    });
+    expect(getReplayOutcome({ data: null, error: 'Permission denied' })).toEqual({
+      kind: 'rejected',
+      error: 'Permission denied',
+    });
+    expect(getReplayOutcome({ data: null, error: null }).kind).toBe('rejected');
+
+    const errors = [{ code: 'INSUFFICIENT_STOCK', product_id: 'p1', available_stock: 1 }];
+    expect(getReplayOutcome({ data: { errors }, error: null })).toEqual({ kind: 'conflict', errors });
+    expect(getReplayOutcome({ data: { errors: [] }, error: null })).toEqual({ kind: 'submitted' });
+  });
+
+  it('should only stop replaying when the server cannot be reached', () => {
+    expect(shouldStopReplay({ kind: 'unreachable', error: 'timeout' })).toBe(true);
+    expect(shouldStopReplay({ kind: 'rejected', error: 'Permission denied' })).toBe(false);
+    expect(shouldStopReplay({ kind: 'conflict', errors: [] })).toBe(false);
+    expect(shouldStopReplay({ kind: 'submitted' })).toBe(false);
+  });
+
+  it('should keep the idempotency key across attempts', () => {
+    const queued = sale();
+    const errors: ReplayableSale['errors'] = [{ code: 'PRODUCT_INACTIVE', product_id: 'p1' }];
+
+    expect(applyReplayOutcome(queued, { kind: 'submitted' })).toBeNull();
+    expect(applyReplayOutcome(queued, { kind: 'conflict', errors })).toEqual({
+      ...queued,
+      status: 'conflict',
+      errors,
+      lastError: null,
+    });
+    expect(applyReplayOutcome(queued, { kind: 'rejected', error: 'Permission denied' })).toEqual({
+      ...queued,
+      status: 'conflict',
+      errors: [],
+      lastError: 'Permission denied',
+    });
+    expect(applyReplayOutcome(queued, { kind: 'unreachable', error: 'timeout' })).toEqual({
+      ...queued,
+      lastError: 'timeout',
+    });
+  });
+
+  it('should sell what is available under a new id', () => {
+    const conflicted = sale({
+      status: 'conflict',
+      items: [
+        { product_id: 'p1', quantity: 2 },
+        { product_id: 'p1', quantity: 2 },
+        { product_id: 'p2', quantity: 1 },
+        { product_id: 'p3', quantity: 4 },
+      ],
+      errors: [
+        { code: 'INSUFFICIENT_STOCK', product_id: 'p1', available_stock: 3 },
+        { code: 'PRODUCT_INACTIVE', product_id: 'p2' },
+      ],
+      lastError: 'timeout',
+    });
+
+    expect(getAvailableSale(conflicted, 'sale-2')).toEqual({
+      ...conflicted,
+      id: 'sale-2',
+      items: [
+        { product_id: 'p1', quantity: 2 },
+        { product_id: 'p1', quantity: 1 },
+        { product_id: 'p3', quantity: 4 },
+      ],
+      status: 'pending',
+      errors: [],
+      lastError: null,
+    });
+  });
+
+  it('should leave nothing to sell when every line was turned down', () => {
+    const conflicted = sale({
+      status: 'conflict',
+      errors: [{ code: 'INSUFFICIENT_STOCK', product_id: 'p1', available_stock: 0 }],
+    });
+
+    expect(getAvailableSale(conflicted, 'sale-2')).toBeNull();
+  });
+});
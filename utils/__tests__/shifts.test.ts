@@ -0,0 +1,68 @@
+import { formatVariance, getCashVariance, parseShiftReport } from '../shifts';
+
+describe('Shifts', () => {
+  describe('parseShiftReport', () => {
+    it('should convert numeric strings from the report', () => {
+      const report = parseShiftReport({
+        shift: {
+          id: 'shift-1',
+          user_id: 'user-1',
+          status: 'closed',
+          opening_float: '2000.00',
+          opened_at: '2025-11-05T08:00:00Z',
+          closed_at: '2025-11-05T17:00:00Z',
+          counted_cash: '3450.00',
+          expected_cash: '3500.00',
+          variance: '-50.00',
+          notes: null,
+        },
+        order_count: 4,
+        sales_total: '1800.00',
+        sales_by_method: [
+          { method: 'cash', count: 3, amount: '1600.00' },
+          { method: 'card', count: 1, amount: '200.00' },
+        ],
+        refunds_by_method: [],
+        paid_in: '0',
+        paid_out: '100.00',
+        expected_cash: '3500.00',
+      });
+
+      expect(report.shift.opening_float).toBe(2000);
+      expect(report.shift.variance).toBe(-50);
+      expect(report.salesByMethod[0]).toEqual({ method: 'cash', count: 3, amount: 1600 });
+      expect(report.paidOut).toBe(100);
+      expect(report.expectedCash).toBe(3500);
+    });
+
+    it('should keep unset close fields as null on an open shift', () => {
+      const report = parseShiftReport({
+        shift: { id: 'shift-1', status: 'open', opening_float: 500, counted_cash: null, expected_cash: null, variance: null },
+        sales_by_method: null,
+      });
+
+      expect(report.shift.counted_cash).toBeNull();
+      expect(report.shift.variance).toBeNull();
+      expect(report.salesByMethod).toEqual([]);
+      expect(report.orderCount).toBe(0);
+    });
+  });
+
+  describe('getCashVariance', () => {
+    it('should be positive when the drawer is over', () => {
+      expect(getCashVariance(1000.1, 1000.3)).toBe(0.2);
+    });
+
+    it('should be negative when the drawer is short', () => {
+      expect(getCashVariance(1000, 975.5)).toBe(-24.5);
+    });
+  });
+
+  describe('formatVariance', () => {
+    it('should describe the variance', () => {
+      expect(formatVariance(0)).toBe('Balanced');
+      expect(formatVariance(20)).toBe('Over ₱20.00');
+      expect(formatVariance(-24.5)).toBe('Short ₱24.50');
+    });
+  });
+});
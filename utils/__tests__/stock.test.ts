@@ -0,0 +1,40 @@
+import { formatQuantityChange, formatStockReference, getAdjustmentChange } from '../stock';
+
+describe('Stock', () => {
+  describe('getAdjustmentChange', () => {
+    it('should add received quantities', () => {
+      expect(getAdjustmentChange('receiving', 10, 24)).toBe(24);
+    });
+
+    it('should remove damaged quantities', () => {
+      expect(getAdjustmentChange('damage', 10, 3)).toBe(-3);
+    });
+
+    it('should move stock to the counted quantity', () => {
+      expect(getAdjustmentChange('count_correction', 10, 7)).toBe(-3);
+      expect(getAdjustmentChange('count_correction', 10, 12)).toBe(2);
+      expect(getAdjustmentChange('count_correction', 10, 10)).toBe(0);
+    });
+  });
+
+  describe('formatQuantityChange', () => {
+    it('should sign the change', () => {
+      expect(formatQuantityChange(5)).toBe('+5');
+      expect(formatQuantityChange(-2)).toBe('-2');
+    });
+  });
+
+  describe('formatStockReference', () => {
+    it('should describe the document behind a movement', () => {
+      expect(formatStockReference({ reference_type: 'order', reference_id: '0123456789abcdef' })).toBe('Order #01234567');
+      expect(formatStockReference({ reference_type: 'purchase_order', reference_id: 'abcdef0123456789' })).toBe(
+        'Purchase order #abcdef01'
+      );
+    });
+
+    it('should label manual adjustments and unreferenced entries', () => {
+      expect(formatStockReference({ reference_type: 'adjustment', reference_id: null })).toBe('Manual adjustment');
+      expect(formatStockReference({ reference_type: null, reference_id: null })).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,114 @@
+import {
+  findStocktakeProduct,
+  getApprovalChange,
+  getStocktakeTotals,
+  getVariance,
+  isStocktakeActive,
+  parseStocktakeReport,
+  StocktakeReportItem,
+} from '../stocktake';
+
+const item = (overrides: Partial<StocktakeReportItem>): StocktakeReportItem => ({
+  product_id: 'p1',
+  name: 'Coke 330ml',
+  sku: 'COKE-330',
+  expected_quantity: 10,
+  counted_quantity: 10,
+  current_stock: 10,
+  unit_cost: 20,
+  unit_price: 35,
+  ...overrides,
+});
+
+describe('Stocktake', () => {
+  describe('isStocktakeActive', () => {
+    it('should treat counting and review as active', () => {
+      expect(isStocktakeActive('counting')).toBe(true);
+      expect(isStocktakeActive('review')).toBe(true);
+      expect(isStocktakeActive('approved')).toBe(false);
+      expect(isStocktakeActive('cancelled')).toBe(false);
+    });
+  });
+
+  describe('getVariance', () => {
+    it('should be counted minus expected', () => {
+      expect(getVariance(item({ counted_quantity: 8 }))).toBe(-2);
+      expect(getVariance(item({ counted_quantity: 13 }))).toBe(3);
+    });
+  });
+
+  describe('getApprovalChange', () => {
+    it('should post the variance against the current stock', () => {
+      // Counted 8 of 10, then 4 more were sold before approval: stock goes 6 -> 4
+      expect(getApprovalChange(item({ counted_quantity: 8, current_stock: 6 }))).toBe(-2);
+      expect(getApprovalChange(item({ counted_quantity: 12, current_stock: 6 }))).toBe(2);
+    });
+
+    it('should not take stock below zero', () => {
+      expect(getApprovalChange(item({ counted_quantity: 2, current_stock: 3 }))).toBe(-3);
+      expect(getApprovalChange(item({ counted_quantity: 2, current_stock: 0 }))).toBe(0);
+    });
+  });
+
+  describe('getStocktakeTotals', () => {
+    it('should sum unit and value variances', () => {
+      const totals = getStocktakeTotals([
+        item({ product_id: 'p1', counted_quantity: 8 }),
+        item({ product_id: 'p2', counted_quantity: 11, unit_cost: 12.5, unit_price: 20 }),
+        item({ product_id: 'p3' }),
+      ]);
+
+      expect(totals).toEqual({
+        countedProducts: 3,
+        productsWithVariance: 2,
+        unitsOver: 1,
+        unitsShort: 2,
+        costVariance: -27.5,
+        retailVariance: -50,
+        missingCost: 0,
+      });
+    });
+
+    it('should leave lines without a cost price out of the cost variance', () => {
+      const totals = getStocktakeTotals([
+        item({ counted_quantity: 7, unit_cost: null }),
+      ]);
+
+      expect(totals.costVariance).toBe(0);
+      expect(totals.retailVariance).toBe(-105);
+      expect(totals.missingCost).toBe(1);
+    });
+  });
+
+  describe('findStocktakeProduct', () => {
+    const counts = [
+      { product_id: 'p1', name: 'Coke', sku: 'COKE-330', barcode: '4800000000011', counted_quantity: null },
+      { product_id: 'p2', name: 'Sprite', sku: 'SPR-330', barcode: null, counted_quantity: 4 },
+    ];
+
+    it('should match barcodes and SKUs', () => {
+      expect(findStocktakeProduct(counts, ' 4800000000011 ')?.product_id).toBe('p1');
+      expect(findStocktakeProduct(counts, 'spr-330')?.product_id).toBe('p2');
+    });
+
+    it('should return undefined for unknown or blank codes', () => {
+      expect(findStocktakeProduct(counts, 'nope')).toBeUndefined();
+      expect(findStocktakeProduct(counts, '  ')).toBeUndefined();
+    });
+  });
+
+  describe('parseStocktakeReport', () => {
+    it('should convert numeric fields', () => {
+      const report = parseStocktakeReport({
+        stocktake: { id: 's1', status: 'review' },
+        items: [{ product_id: 'p1', expected_quantity: '10', counted_quantity: '9', current_stock: '9', unit_cost: null, unit_price: '35.00' }],
+        uncounted: [{ product_id: 'p2', current_stock: '4' }],
+      });
+
+      expect(report.items[0].expected_quantity).toBe(10);
+      expect(report.items[0].unit_cost).toBeNull();
+      expect(report.items[0].unit_price).toBe(35);
+      expect(report.uncounted[0].current_stock).toBe(4);
+    });
+  });
+});
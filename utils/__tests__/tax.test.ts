@@ -0,0 +1,131 @@
+import { allocateOrderDiscount, computeTotals, resolveTaxClass, roundMoney, TaxConfig } from '../tax';
+
+const vat = { id: 'vat', code: 'VAT', name: 'VAT 12%', kind: 'standard' as const, rate: 0.12, is_default: true };
+const exempt = { id: 'exempt', code: 'VAT_EXEMPT', name: 'VAT-Exempt', kind: 'exempt' as const, rate: 0, is_default: false };
+const zeroRated = { id: 'zero', code: 'ZERO_RATED', name: 'Zero-Rated', kind: 'zero_rated' as const, rate: 0, is_default: false };
+
+const inclusiveConfig: TaxConfig = {
+  pricesIncludeTax: true,
+  taxClasses: [vat, exempt, zeroRated],
+  categoryTaxClassIds: { produce: 'exempt' },
+};
+
+const exclusiveConfig: TaxConfig = { ...inclusiveConfig, pricesIncludeTax: false };
+
+const item = (id: string, price: number, quantity: number, extra: Record<string, string | null> = {}) => ({
+  product: { id, price, ...extra },
+  quantity,
+});
+
+describe('Tax Engine', () => {
+  describe('roundMoney', () => {
+    it('should round to two decimal places', () => {
+      expect(roundMoney(1.005)).toBe(1.01);
+      expect(roundMoney(0.1 * 3)).toBe(0.3);
+    });
+  });
+
+  describe('resolveTaxClass', () => {
+    it('should prefer the product tax class over the category', () => {
+      const result = resolveTaxClass({ id: 'p1', price: 10, category_id: 'produce', tax_class_id: 'zero' }, inclusiveConfig);
+      expect(result?.code).toBe('ZERO_RATED');
+    });
+
+    it('should fall back to the category tax class', () => {
+      const result = resolveTaxClass({ id: 'p1', price: 10, category_id: 'produce' }, inclusiveConfig);
+      expect(result?.code).toBe('VAT_EXEMPT');
+    });
+
+    it('should fall back to the default tax class', () => {
+      const result = resolveTaxClass({ id: 'p1', price: 10, category_id: 'drinks' }, inclusiveConfig);
+      expect(result?.code).toBe('VAT');
+    });
+  });
+
+  describe('allocateOrderDiscount', () => {
+    it('should give the rounding remainder to the last line by line key', () => {
+      const shares = allocateOrderDiscount(
+        [{ lineKey: 'c', amount: 10 }, { lineKey: 'a', amount: 10 }, { lineKey: 'b', amount: 10 }],
+        10
+      );
+      expect(shares).toEqual({ a: 3.33, b: 3.33, c: 3.34 });
+    });
+  });
+
+  describe('computeTotals', () => {
+    it('should extract VAT from VAT-inclusive prices', () => {
+      const totals = computeTotals([item('p1', 112, 1)], inclusiveConfig);
+      expect(totals.total).toBe(112);
+      expect(totals.tax).toBe(12);
+      expect(totals.subtotal).toBe(100);
+      expect(totals.vatableSales).toBe(100);
+    });
+
+    it('should add tax on top of VAT-exclusive prices', () => {
+      const totals = computeTotals([item('p1', 100, 2)], exclusiveConfig);
+      expect(totals.subtotal).toBe(200);
+      expect(totals.tax).toBe(24);
+      expect(totals.total).toBe(224);
+    });
+
+    it('should not tax VAT-exempt and zero-rated items', () => {
+      const totals = computeTotals(
+        [item('p1', 50, 1, { category_id: 'produce' }), item('p2', 30, 1, { tax_class_id: 'zero' })],
+        inclusiveConfig
+      );
+      expect(totals.tax).toBe(0);
+      expect(totals.total).toBe(80);
+      expect(totals.vatExemptSales).toBe(50);
+      expect(totals.zeroRatedSales).toBe(30);
+    });
+
+    it('should remove VAT for senior citizen and PWD sales', () => {
+      const totals = computeTotals(
+        [item('p1', 112, 1), item('p2', 50, 1, { category_id: 'produce' })],
+        inclusiveConfig,
+        { exemption: { type: 'senior_citizen', idNumber: 'SC-123' } }
+      );
+      expect(totals.tax).toBe(0);
+      expect(totals.total).toBe(150);
+      expect(totals.vatExemptSales).toBe(150);
+      expect(totals.lines[0].taxExempt).toBe(true);
+      expect(totals.lines[0].taxRate).toBe(0);
+      expect(totals.lines[1].taxExempt).toBe(false);
+    });
+
+    it('should round each line before summing', () => {
+      const totals = computeTotals([item('p1', 9.99, 3), item('p2', 0.1, 3)], inclusiveConfig);
+      const lineSum = totals.lines.reduce((sum, line) => sum + line.taxAmount, 0);
+      expect(totals.tax).toBe(roundMoney(lineSum));
+      expect(totals.total).toBe(30.27);
+      expect(roundMoney(totals.subtotal + totals.tax)).toBe(totals.total);
+    });
+
+    it('should take line discounts off before extracting VAT', () => {
+      const totals = computeTotals(
+        [{ ...item('p1', 112, 2), discount: { type: 'percent' as const, value: 50, reason: 'promo' as const } }],
+        inclusiveConfig
+      );
+      expect(totals.grossSubtotal).toBe(224);
+      expect(totals.discount).toBe(112);
+      expect(totals.total).toBe(112);
+      expect(totals.tax).toBe(12);
+    });
+
+    it('should spread an order discount across lines', () => {
+      const totals = computeTotals([item('a', 100, 1), item('b', 200, 1)], exclusiveConfig, {
+        orderDiscount: { type: 'amount', value: 30, reason: 'loyalty' },
+      });
+      expect(totals.orderDiscount).toBe(30);
+      expect(totals.lines.map(line => line.orderDiscountShare)).toEqual([10, 20]);
+      expect(totals.subtotal).toBe(270);
+      expect(totals.total).toBe(302.4);
+    });
+
+    it('should return zero totals for an empty cart', () => {
+      const totals = computeTotals([], inclusiveConfig);
+      expect(totals.total).toBe(0);
+      expect(totals.lines).toHaveLength(0);
+    });
+  });
+});
@@ -0,0 +1,100 @@
+import {
+  CartItem,
+  getCartStorageKey,
+  getDefaultTicketName,
+  getHandoffTicketName,
+  getTicketCount,
+  getTicketSubtotal,
+  HeldTicket,
+  refreshCartItems,
+  resolveSignInCart,
+  shouldStoreCart,
+  StoredCart,
+} from '../tickets';
+
+const item = (id: string, price: number, quantity: number, extras: Partial<CartItem> = {}): CartItem => ({
+  key: id,
+  product: { id, name: `Product ${id}`, price, stock: 10 },
+  quantity,
+  modifiers: [],
+  ...extras,
+});
+
+describe('Held tickets', () => {
+  it('should count items and sum the subtotal with modifiers', () => {
+    const ticket = {
+      items: [
+        item('a', 100, 2),
+        item('b', 50, 1, { modifiers: [{ id: 'm1', group_name: 'Size', name: 'Large', price_delta: 20 }] }),
+      ],
+    };
+
+    expect(getTicketCount(ticket)).toBe(3);
+    expect(getTicketSubtotal(ticket)).toBe(270);
+  });
+
+  it('should name tickets after the next free number', () => {
+    expect(getDefaultTicketName([])).toBe('Ticket 1');
+    expect(getDefaultTicketName([{ name: 'Table 4' }])).toBe('Ticket 2');
+    expect(getDefaultTicketName([{ name: 'ticket 2' }])).toBe('Ticket 3');
+  });
+
+  it('should refresh prices and stock and drop missing products', () => {
+    const refreshed = refreshCartItems(
+      [item('a', 100, 2), item('b', 50, 1), item('c', 25, 1)],
+      [
+        { id: 'a', name: 'Product a', price: 120, stock: 1 },
+        { id: 'c', name: 'Renamed c', price: 25, stock: 8 },
+      ]
+    );
+
+    expect(refreshed.items.map(line => line.product)).toEqual([
+      { id: 'a', name: 'Product a', price: 120, stock: 1 },
+      { id: 'c', name: 'Renamed c', price: 25, stock: 8 },
+    ]);
+    expect(refreshed.items[0].quantity).toBe(2);
+    expect(refreshed.removed).toEqual(['Product b']);
+    expect(refreshed.repriced).toEqual(['Product a']);
+  });
+});
+
+describe('Stored carts', () => {
+  const handoff: HeldTicket = {
+    id: 't1',
+    name: 'From Sam',
+    items: [item('a', 100, 1)],
+    orderDiscount: null,
+    customer: { id: 'c1', name: 'Alex', phone: null, points: 0 },
+    heldBy: 'user-1',
+    heldAt: '2025-11-01T10:00:00.000Z',
+    shared: false,
+  };
+  const own: StoredCart = { items: [item('b', 50, 2)], orderDiscount: null, customer: null, ticketName: null };
+
+  it('should keep each cashier\'s cart apart and only store carts with items', () => {
+    expect(getCartStorageKey('user-1')).not.toBe(getCartStorageKey('user-2'));
+    expect(shouldStoreCart(own)).toBe(true);
+    expect(shouldStoreCart({ items: [] })).toBe(false);
+    expect(shouldStoreCart(null)).toBe(false);
+  });
+
+  it('should hold a handed off cart when the cashier has their own', () => {
+    expect(resolveSignInCart(own, handoff)).toEqual({ cart: own, held: handoff });
+    expect(resolveSignInCart(own, null)).toEqual({ cart: own, held: null });
+  });
+
+  it('should pick up a handed off cart when the cashier has none', () => {
+    const expected = { cart: { items: handoff.items, orderDiscount: null, customer: handoff.customer, ticketName: 'From Sam' }, held: null };
+
+    expect(resolveSignInCart(null, handoff)).toEqual(expected);
+    expect(resolveSignInCart({ ...own, items: [] }, handoff)).toEqual(expected);
+    expect(resolveSignInCart({ ...own, items: [] }, null)).toEqual({ cart: null, held: null });
+  });
+
+  it('should name a handed off cart after the cashier who left it', () => {
+    expect(getHandoffTicketName('Table 4', { full_name: 'Sam' })).toBe('Table 4');
+    expect(getHandoffTicketName(null, { full_name: 'Sam', email: 'sam@example.com' })).toBe('From Sam');
+    expect(getHandoffTicketName(null, { full_name: null, email: 'sam@example.com' })).toBe('From sam@example.com');
+    expect(getHandoffTicketName(null, null)).toBe('From previous cashier');
+  });
+});
@@ -0,0 +1,47 @@
+import {
+  formatPriceRange,
+  formatVariantProductName,
+  getStockProducts,
+  getTopLevelProducts,
+  getVariants,
+  getVariantStock,
+  hasVariants,
+} from '../variants';
+
+const products = [
+  { id: 'coffee', price: 0, stock: 0, parent_id: null, created_at: '2025-11-01T00:00:00Z' },
+  { id: 'coffee-l', price: 140, stock: 4, parent_id: 'coffee', variant_name: 'Large', created_at: '2025-11-01T00:00:03Z' },
+  { id: 'coffee-s', price: 100, stock: 10, parent_id: 'coffee', variant_name: 'Small', created_at: '2025-11-01T00:00:01Z' },
+  { id: 'coffee-m', price: 120, stock: -1, parent_id: 'coffee', variant_name: 'Medium', created_at: '2025-11-01T00:00:02Z' },
+  { id: 'muffin', price: 85, stock: 12, parent_id: null, created_at: '2025-11-01T00:00:00Z' },
+];
+
+describe('Variants', () => {
+  it('should name variants after the parent', () => {
+    expect(formatVariantProductName('Coffee', ' Medium ')).toBe('Coffee (Medium)');
+  });
+
+  it('should list variants in the order they were added', () => {
+    expect(getVariants(products, 'coffee').map(p => p.id)).toEqual(['coffee-s', 'coffee-m', 'coffee-l']);
+    expect(getVariants(products, 'muffin')).toEqual([]);
+  });
+
+  it('should tell parents from standalone products', () => {
+    expect(hasVariants(products, 'coffee')).toBe(true);
+    expect(hasVariants(products, 'muffin')).toBe(false);
+  });
+
+  it('should hide variants from the top level and parents from stock lists', () => {
+    expect(getTopLevelProducts(products).map(p => p.id)).toEqual(['coffee', 'muffin']);
+    expect(getStockProducts(products).map(p => p.id)).toEqual(['coffee-l', 'coffee-s', 'coffee-m', 'muffin']);
+  });
+
+  it('should total variant stock, ignoring negative counts', () => {
+    expect(getVariantStock(getVariants(products, 'coffee'))).toBe(14);
+  });
+
+  it('should format a price range', () => {
+    expect(formatPriceRange(getVariants(products, 'coffee'))).toBe('₱100.00 – ₱140.00');
+    expect(formatPriceRange([{ price: 85 }, { price: 85 }])).toBe('₱85.00');
+  });
+});
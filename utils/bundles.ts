@@ -0,0 +1,95 @@
+export interface BundleComponent {
+  component_id: string;
+  // How many go into one bundle
+  quantity: number;
+  name: string;
+  stock: number;
+}
+
+// What order_items.components keeps of each component when a bundle is sold
+export interface OrderItemComponent {
+  product_id: string;
+  name: string;
+  quantity: number;
+  price: number;
+}
+
+type StockItem = { product_id: string; quantity: number };
+
+// How many bundles the components on hand make up
+export function getBundleStock(components: { quantity: number; stock: number }[]): number {
+  if (components.length === 0) return 0;
+  return Math.max(0, Math.min(...components.map(component => Math.floor(component.stock / component.quantity))));
+}
+
+// Same as expand_bundle_items: bundles are replaced by their components and
+// each product appears once, so bundles sharing a component share its stock
+export function expandBundleItems(
+  items: StockItem[],
+  components: { bundle_id: string; component_id: string; quantity: number }[]
+): StockItem[] {
+  const quantities = new Map<string, number>();
+  const add = (productId: string, quantity: number) =>
+    quantities.set(productId, (quantities.get(productId) ?? 0) + quantity);
+
+  items.forEach(item => {
+    const parts = components.filter(component => component.bundle_id === item.product_id);
+    if (parts.length === 0) {
+      add(item.product_id, item.quantity);
+    } else {
+      parts.forEach(part => add(part.component_id, item.quantity * part.quantity));
+    }
+  });
+
+  return Array.from(quantities, ([product_id, quantity]) => ({ product_id, quantity })).sort((a, b) =>
+    a.product_id.localeCompare(b.product_id)
+  );
+}
+
+// Components as embedded by BUNDLE_COMPONENTS_SELECT in products.service
+export function parseBundleComponents(raw: any): BundleComponent[] {
+  if (!Array.isArray(raw)) return [];
+  return raw
+    .map(row => {
+      const component = Array.isArray(row.component) ? row.component[0] : row.component;
+      return {
+        component_id: row.component_id,
+        quantity: Number(row.quantity),
+        name: component?.name ?? '',
+        stock: Number(component?.stock ?? 0),
+      };
+    })
+    .sort((a, b) => a.name.localeCompare(b.name));
+}
+
+// A bundle holds no stock itself; its stock is what its components make up
+export function withBundleStock<T extends { stock: number; bundle_components?: any }>(
+  product: T
+): T & { bundle_components: BundleComponent[] } {
+  const components = parseBundleComponents(product.bundle_components);
+  return {
+    ...product,
+    bundle_components: components,
+    stock: components.length > 0 ? getBundleStock(components) : product.stock,
+  };
+}
+
+export function isBundle(product: { bundle_components?: unknown[] | null }): boolean {
+  return (product.bundle_components?.length ?? 0) > 0;
+}
+
+// e.g. "1× Burger, 2× Fries"
+export function formatBundleComponents(components: { name: string; quantity: number }[]): string {
+  return components.map(component => `${component.quantity}× ${component.name}`).join(', ');
+}
+
+// order_items.components is jsonb; numbers can arrive as strings
+export function parseOrderItemComponents(raw: any): OrderItemComponent[] {
+  if (!Array.isArray(raw)) return [];
+  return raw.map(component => ({
+    product_id: String(component.product_id),
+    name: String(component.name ?? ''),
+    quantity: Number(component.quantity ?? 0),
+    price: Number(component.price ?? 0),
+  }));
+}
@@ -0,0 +1,91 @@
+export type CsvValue = string | number | boolean | null | undefined;
+
+export interface CsvRecord {
+  // 1-based line of the record in the file, counting the header
+  line: number;
+  values: Record<string, string>;
+}
+
+// RFC 4180: quoted fields may hold commas, doubled quotes and line breaks
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+  const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+    if (quoted) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === '') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows;
+}
+
+// Spreadsheets run text starting with these as a formula
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+// Money and quantity columns, which may be negative and must stay numbers
+const NUMERIC_TEXT = /^-?\d+(\.\d+)?$/;
+
+// Undoes the quote toCsv puts in front of text that looks like a formula, so
+// an exported file imports back unchanged
+const unescapeFormula = (value: string) =>
+  value.startsWith("'") && FORMULA_PREFIX.test(value.slice(1)) ? value.slice(1) : value;
+
+// Headers are matched case-insensitively; blank lines are skipped
+export function parseCsvRecords(text: string): { headers: string[]; records: CsvRecord[] } {
+  const rows = parseCsv(text);
+  const headers = (rows[0] ?? []).map(header => header.trim().toLowerCase());
+  const records = rows
+    .slice(1)
+    .map((row, index) => ({
+      line: index + 2,
+      values: Object.fromEntries(
+        headers.map((header, column) => [header, unescapeFormula((row[column] ?? '').trim())])
+      ),
+    }))
+    .filter(record => Object.values(record.values).some(value => value !== ''));
+
+  return { headers, records };
+}
+
+const escapeCsvValue = (value: CsvValue) => {
+  let text = value === null || value === undefined ? '' : String(value);
+  // Product names, notes and the like are quoted so a spreadsheet shows them
+  // as text instead of running them
+  if (typeof value === 'string' && FORMULA_PREFIX.test(text) && !NUMERIC_TEXT.test(text)) {
+    text = `'${text}`;
+  }
+  return /[",\r\n]/.test(text) || text.trim() !== text ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export function toCsv(headers: string[], rows: CsvValue[][]): string {
+  return [headers, ...rows].map(row => row.map(escapeCsvValue).join(',')).join('\r\n') + '\r\n';
+}
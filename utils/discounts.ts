@@ -0,0 +1,75 @@
+import { formatPrice } from './currency';
+
+export type DiscountType = 'percent' | 'amount';
+
+export type DiscountReason =
+  | 'price_match'
+  | 'damaged'
+  | 'loyalty'
+  | 'promo'
+  | 'employee'
+  | 'manager'
+  | 'other';
+
+export interface Discount {
+  type: DiscountType;
+  // Percentage (0-100) or a fixed peso amount, depending on type
+  value: number;
+  reason: DiscountReason;
+}
+
+export const DISCOUNT_REASON_LABELS: Record<DiscountReason, string> = {
+  price_match: 'Price Match',
+  damaged: 'Damaged Item',
+  loyalty: 'Loyal Customer',
+  promo: 'Promotion',
+  employee: 'Employee',
+  manager: 'Manager Discretion',
+  other: 'Other',
+};
+
+// Mirrors the discount_settings seed; used until the real threshold loads
+export const DEFAULT_APPROVAL_THRESHOLD_PERCENT = 20;
+
+const round = (amount: number) => Math.round((amount + Number.EPSILON) * 100) / 100;
+
+export function isValidDiscount(discount: Discount): boolean {
+  if (!Number.isFinite(discount.value) || discount.value <= 0) return false;
+  if (discount.type === 'percent' && discount.value > 100) return false;
+  return discount.reason in DISCOUNT_REASON_LABELS;
+}
+
+// Discount in pesos, never more than the amount it applies to
+export function computeDiscountAmount(discount: Discount | null | undefined, base: number): number {
+  if (!discount || base <= 0 || !isValidDiscount(discount)) return 0;
+  const amount = discount.type === 'percent' ? round((base * discount.value) / 100) : round(discount.value);
+  return Math.min(amount, base);
+}
+
+// Must stay in step with checkout_order, which applies the same threshold server-side
+export function exceedsApprovalThreshold(discountAmount: number, base: number, thresholdPercent: number): boolean {
+  if (discountAmount <= 0) return false;
+  return discountAmount > round((base * thresholdPercent) / 100);
+}
+
+// True when any line discount, or the order discount, is above the threshold
+// and so needs an admin to sign off
+export function requiresDiscountApproval(
+  totals: {
+    lines: { gross: number; lineDiscount: number }[];
+    grossSubtotal: number;
+    lineDiscount: number;
+    orderDiscount: number;
+  },
+  thresholdPercent: number
+): boolean {
+  const lineOverThreshold = totals.lines.some(line =>
+    exceedsApprovalThreshold(line.lineDiscount, line.gross, thresholdPercent)
+  );
+  const orderBase = round(totals.grossSubtotal - totals.lineDiscount);
+  return lineOverThreshold || exceedsApprovalThreshold(totals.orderDiscount, orderBase, thresholdPercent);
+}
+
+export function formatDiscount(discount: Discount): string {
+  return discount.type === 'percent' ? `${discount.value}% off` : `${formatPrice(discount.value)} off`;
+}
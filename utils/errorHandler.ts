@@ -32,10 +32,20 @@ const ERROR_PATTERNS = [
   { pattern: /^23[0-9A-F]{3}$/, message: 'Database constraint violation' }
 ];
 
+const NETWORK_ERROR_PATTERNS = [
+  'network error', 'fetch failed', 'failed to fetch', 'load failed', 'connection refused', 'timeout',
+  'network request failed', 'unable to connect',
+];
+
 function isNetworkError(error: Error): boolean {
-  const msg = error.message?.toLowerCase() || '';
-  return ['network error', 'fetch failed', 'connection refused', 'timeout', 'network request failed', 'unable to connect']
-    .some(pattern => msg.includes(pattern));
+  return isNetworkErrorMessage(error.message);
+}
+
+// Services return errors as messages; this tells a request that never reached
+// the server (or never came back) from one the server turned down
+export function isNetworkErrorMessage(message: string | null | undefined): boolean {
+  const msg = message?.toLowerCase() || '';
+  return NETWORK_ERROR_PATTERNS.some(pattern => msg.includes(pattern));
 }
 
 function getSupabaseErrorMessage(error: SupabaseError): string {
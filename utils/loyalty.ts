@@ -0,0 +1,81 @@
+export type LoyaltyTransactionKind = 'earn' | 'redeem' | 'reversal' | 'refund';
+
+export interface LoyaltySettings {
+  // Pesos spent per point earned
+  earnAmount: number;
+  // Pesos one point pays for
+  pointValue: number;
+}
+
+export interface LoyaltyTransaction {
+  id: string;
+  customer_id: string;
+  order_id: string | null;
+  refund_id: string | null;
+  kind: LoyaltyTransactionKind;
+  points: number;
+  created_at: string;
+}
+
+export interface LoyaltySummary {
+  balance: number;
+  earned: number;
+  redeemed: number;
+}
+
+export const DEFAULT_LOYALTY_SETTINGS: LoyaltySettings = {
+  earnAmount: 100,
+  pointValue: 1,
+};
+
+export const LOYALTY_KIND_LABELS: Record<LoyaltyTransactionKind, string> = {
+  earn: 'Earned',
+  redeem: 'Redeemed',
+  reversal: 'Reversed',
+  refund: 'Refund',
+};
+
+const toCents = (amount: number) => Math.round(amount * 100);
+
+// Same as checkout_order: points aren't earned on what was paid with points
+export function getPointsEarned(total: number, pointsAmount: number, settings: LoyaltySettings): number {
+  const earnCents = toCents(settings.earnAmount);
+  if (earnCents <= 0) return 0;
+  return Math.max(0, Math.floor((toCents(total) - toCents(pointsAmount)) / earnCents));
+}
+
+// Points tenders must pay for a whole number of points
+export function getPointsForAmount(amount: number, settings: LoyaltySettings): number | null {
+  const valueCents = toCents(settings.pointValue);
+  const amountCents = toCents(amount);
+  if (valueCents <= 0 || amountCents % valueCents !== 0) return null;
+  return amountCents / valueCents;
+}
+
+export function getPointsValue(points: number, settings: LoyaltySettings): number {
+  return (Math.max(0, points) * toCents(settings.pointValue)) / 100;
+}
+
+// The most a points tender can pay: whole points, no more than the balance or what is due
+export function getMaxPointsAmount(points: number, amountDue: number, settings: LoyaltySettings): number {
+  const valueCents = toCents(settings.pointValue);
+  if (valueCents <= 0) return 0;
+  const usable = Math.min(Math.max(0, Math.floor(points)), Math.floor(toCents(amountDue) / valueCents));
+  return Math.max(0, usable * valueCents) / 100;
+}
+
+export function summarizeLoyalty(transactions: Pick<LoyaltyTransaction, 'kind' | 'points'>[]): LoyaltySummary {
+  return transactions.reduce(
+    (summary, transaction) => ({
+      balance: summary.balance + transaction.points,
+      earned: summary.earned + (transaction.kind === 'earn' ? transaction.points : 0),
+      redeemed: summary.redeemed + (transaction.kind === 'redeem' ? -transaction.points : 0),
+    }),
+    { balance: 0, earned: 0, redeemed: 0 }
+  );
+}
+
+// e.g. "1 point", "-12 points"
+export function formatPoints(points: number): string {
+  return `${points} ${Math.abs(points) === 1 ? 'point' : 'points'}`;
+}
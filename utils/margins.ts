@@ -0,0 +1,106 @@
+import { resolveTaxClass, roundMoney, TaxableCartItem, TaxConfig } from './tax';
+
+export type MarginDimension = 'product' | 'category';
+
+export const MARGIN_DIMENSION_LABELS: Record<MarginDimension, string> = {
+  product: 'By Product',
+  category: 'By Category',
+};
+
+export interface Margin {
+  profit: number;
+  // Profit as a share of the selling price; null without revenue
+  marginPercent: number | null;
+  // Profit as a share of the cost; null without a cost
+  markupPercent: number | null;
+}
+
+export interface MarginTotals extends Margin {
+  quantity: number;
+  // Net of discounts and tax
+  revenue: number;
+  // Revenue from lines sold with a cost snapshot; margins are worked out on this
+  costedRevenue: number;
+  cost: number;
+  uncostedQuantity: number;
+}
+
+export interface MarginRow extends MarginTotals {
+  key: string;
+  label: string;
+}
+
+export interface MarginReport {
+  summary: MarginTotals;
+  breakdowns: Record<MarginDimension, MarginRow[]>;
+}
+
+const toPercent = (part: number, whole: number) =>
+  whole > 0 ? Math.round((part / whole) * 1000) / 10 : null;
+
+export function getMargin(revenue: number, cost: number): Margin {
+  const profit = roundMoney(revenue - cost);
+  return {
+    profit,
+    marginPercent: toPercent(profit, revenue),
+    markupPercent: toPercent(profit, cost),
+  };
+}
+
+// The shelf price less the VAT in it, which is what the cost is measured against
+export function getNetPrice(product: TaxableCartItem['product'], config: TaxConfig): number {
+  const rate = resolveTaxClass(product, config)?.rate ?? 0;
+  return config.pricesIncludeTax ? roundMoney(product.price / (1 + rate)) : product.price;
+}
+
+// A bundle costs what its components cost; unknown while any of them has no cost
+export function getBundleCost(
+  components: { component_id: string; quantity: number }[],
+  costs: Record<string, number>
+): number | null {
+  if (components.length === 0) return null;
+  let total = 0;
+  for (const component of components) {
+    const cost = costs[component.component_id];
+    if (cost === undefined) return null;
+    total += cost * component.quantity;
+  }
+  return roundMoney(total);
+}
+
+export function formatPercent(percent: number | null): string {
+  return percent === null ? '—' : `${percent.toFixed(1)}%`;
+}
+
+const toNumber = (value: unknown) => Number(value ?? 0);
+
+const toTotals = (raw: any): MarginTotals => {
+  const costedRevenue = toNumber(raw?.costed_revenue);
+  const cost = toNumber(raw?.cost);
+  return {
+    quantity: toNumber(raw?.quantity),
+    revenue: toNumber(raw?.revenue),
+    costedRevenue,
+    cost,
+    uncostedQuantity: toNumber(raw?.uncosted_quantity),
+    ...getMargin(costedRevenue, cost),
+  };
+};
+
+const toRows = (rows: any[] | null | undefined): MarginRow[] =>
+  (rows ?? []).map(row => ({
+    key: String(row.key),
+    label: String(row.label),
+    ...toTotals(row),
+  }));
+
+// numeric columns can arrive as strings from get_margin_report
+export function parseMarginReport(raw: any): MarginReport {
+  return {
+    summary: toTotals(raw?.summary),
+    breakdowns: {
+      product: toRows(raw?.by_product),
+      category: toRows(raw?.by_category),
+    },
+  };
+}
@@ -0,0 +1,163 @@
+export interface Modifier {
+  id: string;
+  group_id: string;
+  name: string;
+  price_delta: number;
+  active: boolean;
+  position: number;
+}
+
+export interface ModifierGroup {
+  id: string;
+  name: string;
+  min_select: number;
+  // Null means any number of options may be chosen
+  max_select: number | null;
+  created_at: string;
+  modifiers: Modifier[];
+  product_ids: string[];
+  category_ids: string[];
+}
+
+// What a cart line and order_items.modifiers keep of each chosen option
+export interface SelectedModifier {
+  id: string;
+  group_name: string;
+  name: string;
+  price_delta: number;
+}
+
+// Cart lines are unique by product plus modifier set. Sorting the ids keeps
+// the key stable, and the line order matches checkout_order's
+export function getCartLineKey(productId: string, modifiers: { id: string }[] = []): string {
+  if (modifiers.length === 0) return productId;
+  const ids = modifiers.map(modifier => modifier.id).sort();
+  return `${productId}|${ids.join(',')}`;
+}
+
+export function getModifiersTotal(modifiers: { price_delta: number }[] = []): number {
+  return modifiers.reduce((sum, modifier) => sum + Number(modifier.price_delta), 0);
+}
+
+// Groups attached to the product, to its parent (for variants) or to its category
+export function getProductModifierGroups(
+  groups: ModifierGroup[],
+  product: { id: string; parent_id?: string | null; category_id?: string | null }
+): ModifierGroup[] {
+  return groups
+    .filter(group =>
+      group.product_ids.includes(product.id) ||
+      (!!product.parent_id && group.product_ids.includes(product.parent_id)) ||
+      (!!product.category_id && group.category_ids.includes(product.category_id))
+    )
+    .sort((a, b) => a.created_at.localeCompare(b.created_at) || a.id.localeCompare(b.id));
+}
+
+export function getActiveModifiers(group: ModifierGroup): Modifier[] {
+  return group.modifiers.filter(modifier => modifier.active).sort((a, b) => a.position - b.position);
+}
+
+export function describeSelectionRule(group: Pick<ModifierGroup, 'min_select' | 'max_select'>): string {
+  const { min_select: min, max_select: max } = group;
+  if (max === null) return min > 0 ? `Choose at least ${min}` : 'Optional';
+  if (min === max) return `Choose ${min}`;
+  if (min === 0) return `Optional, up to ${max}`;
+  return `Choose ${min}–${max}`;
+}
+
+// Same rules as is_valid_modifier_selection; returns the first problem found
+export function validateModifierSelection(groups: ModifierGroup[], selectedIds: string[]): string | null {
+  for (const group of groups) {
+    const count = group.modifiers.filter(modifier => selectedIds.includes(modifier.id)).length;
+    if (count < group.min_select) {
+      return group.min_select === 1
+        ? `Choose an option for ${group.name}`
+        : `Choose at least ${group.min_select} options for ${group.name}`;
+    }
+    if (group.max_select !== null && count > group.max_select) {
+      return group.max_select === 1
+        ? `Choose only one option for ${group.name}`
+        : `Choose up to ${group.max_select} options for ${group.name}`;
+    }
+  }
+  return null;
+}
+
+// Flips an option, replacing the current choice in single-choice groups
+export function toggleModifier(group: ModifierGroup, selectedIds: string[], modifierId: string): string[] {
+  if (selectedIds.includes(modifierId)) {
+    return selectedIds.filter(id => id !== modifierId);
+  }
+  if (group.max_select === 1) {
+    const groupIds = group.modifiers.map(modifier => modifier.id);
+    return [...selectedIds.filter(id => !groupIds.includes(id)), modifierId];
+  }
+  const count = group.modifiers.filter(modifier => selectedIds.includes(modifier.id)).length;
+  if (group.max_select !== null && count >= group.max_select) return selectedIds;
+  return [...selectedIds, modifierId];
+}
+
+// The chosen options in group and display order, as checkout_order snapshots them
+export function toSelectedModifiers(groups: ModifierGroup[], selectedIds: string[]): SelectedModifier[] {
+  return groups.flatMap(group =>
+    [...group.modifiers]
+      .sort((a, b) => a.position - b.position)
+      .filter(modifier => selectedIds.includes(modifier.id))
+      .map(modifier => ({
+        id: modifier.id,
+        group_name: group.name,
+        name: modifier.name,
+        price_delta: Number(modifier.price_delta),
+      }))
+  );
+}
+
+export function formatPriceDelta(priceDelta: number): string {
+  const sign = priceDelta < 0 ? '−' : '+';
+  return `${sign}₱${Math.abs(priceDelta).toFixed(2)}`;
+}
+
+// e.g. "Oat milk (+₱20.00), No sugar"
+export function formatModifiers(modifiers: { name: string; price_delta: number }[]): string {
+  return modifiers
+    .map(modifier =>
+      Number(modifier.price_delta) !== 0
+        ? `${modifier.name} (${formatPriceDelta(Number(modifier.price_delta))})`
+        : modifier.name
+    )
+    .join(', ');
+}
+
+// order_items.modifiers is jsonb; price_delta can arrive as a string
+export function parseOrderItemModifiers(raw: any): SelectedModifier[] {
+  if (!Array.isArray(raw)) return [];
+  return raw.map(modifier => ({
+    id: String(modifier.id),
+    group_name: String(modifier.group_name ?? ''),
+    name: String(modifier.name ?? ''),
+    price_delta: Number(modifier.price_delta ?? 0),
+  }));
+}
+
+// Groups as fetched with their options and links (see fetchModifierGroups)
+export function parseModifierGroups(rows: any[]): ModifierGroup[] {
+  return rows.map(row => ({
+    id: row.id,
+    name: row.name,
+    min_select: Number(row.min_select ?? 0),
+    max_select: row.max_select === null || row.max_select === undefined ? null : Number(row.max_select),
+    created_at: row.created_at ?? '',
+    modifiers: (row.modifiers ?? [])
+      .map((modifier: any) => ({
+        id: modifier.id,
+        group_id: modifier.group_id ?? row.id,
+        name: modifier.name,
+        price_delta: Number(modifier.price_delta ?? 0),
+        active: modifier.active !== false,
+        position: Number(modifier.position ?? 0),
+      }))
+      .sort((a: Modifier, b: Modifier) => a.position - b.position),
+    product_ids: (row.product_modifier_groups ?? []).map((link: any) => link.product_id),
+    category_ids: (row.category_modifier_groups ?? []).map((link: any) => link.category_id),
+  }));
+}
@@ -0,0 +1,352 @@
+import { toCsv } from './csv';
+import { PaymentMethod } from './payments';
+import { ReportRange } from './reports';
+import { roundMoney } from './tax';
+
+export interface ExportOrderItem {
+  id: string;
+  quantity: number;
+  price: number;
+  subtotal: number;
+  discount_amount: number | null;
+  order_discount_share: number | null;
+  tax_class_code: string | null;
+  tax_rate: number | null;
+  // Null for orders placed before the tax engine
+  taxable_amount: number | null;
+  tax_amount: number | null;
+  line_total: number | null;
+  refunded_quantity: number | null;
+  refunded_amount: number | null;
+  products: { name: string } | null;
+}
+
+export interface ExportRefund {
+  id: string;
+  amount: number;
+  method: PaymentMethod;
+  created_at: string;
+  refund_items: { order_item_id: string | null; quantity: number; amount: number }[] | null;
+}
+
+export interface ExportOrder {
+  id: string;
+  created_at: string;
+  status: string;
+  total: number;
+  tax: number;
+  discount_total: number | null;
+  payment_method: PaymentMethod | 'split';
+  tax_exemption: string | null;
+  profiles?: { full_name: string | null; email: string } | null;
+  customers?: { name: string } | null;
+  order_items: ExportOrderItem[];
+  order_payments: { method: PaymentMethod; amount: number }[] | null;
+  refunds: ExportRefund[] | null;
+}
+
+export type OrderExportKind = 'orders' | 'lines' | 'journal';
+
+export const ORDER_EXPORT_LABELS: Record<OrderExportKind, string> = {
+  orders: 'Orders',
+  lines: 'Line Items',
+  journal: 'Daily Journal',
+};
+
+export type JournalAccountKey = 'sales' | 'salesReturns' | 'vatOutput' | PaymentMethod;
+
+export interface JournalAccount {
+  code: string;
+  name: string;
+}
+
+export type JournalAccounts = Record<JournalAccountKey, JournalAccount>;
+
+export const JOURNAL_ACCOUNT_KEYS: JournalAccountKey[] = [
+  'sales',
+  'salesReturns',
+  'vatOutput',
+  'cash',
+  'card',
+  'mobile',
+  'points',
+];
+
+export const JOURNAL_ACCOUNT_LABELS: Record<JournalAccountKey, string> = {
+  sales: 'Sales',
+  salesReturns: 'Sales Returns',
+  vatOutput: 'Output VAT',
+  cash: 'Cash Clearing',
+  card: 'Card Clearing',
+  mobile: 'GCash / Mobile Clearing',
+  points: 'Loyalty Points',
+};
+
+export const DEFAULT_JOURNAL_ACCOUNTS: JournalAccounts = {
+  sales: { code: '4000', name: 'Sales' },
+  salesReturns: { code: '4010', name: 'Sales Returns and Allowances' },
+  vatOutput: { code: '2200', name: 'Output VAT Payable' },
+  cash: { code: '1000', name: 'Cash on Hand' },
+  card: { code: '1010', name: 'Card Clearing' },
+  mobile: { code: '1020', name: 'E-Wallet Clearing' },
+  points: { code: '2300', name: 'Loyalty Points Liability' },
+};
+
+export interface JournalLine {
+  date: string;
+  reference: string;
+  account: JournalAccountKey;
+  description: string;
+  debit: number;
+  credit: number;
+}
+
+const toNumber = (value: unknown) => Number(value ?? 0);
+const pad = (value: number) => String(value).padStart(2, '0');
+
+// Days are in the device's local time, like the report ranges
+export function getLocalDateKey(iso: string): string {
+  const date = new Date(iso);
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+const formatDateTime = (iso: string) => {
+  const date = new Date(iso);
+  return `${getLocalDateKey(iso)} ${pad(date.getHours())}:${pad(date.getMinutes())}`;
+};
+
+// e.g. orders-2025-11-01-to-2025-11-30.csv; the range's end is exclusive
+export function getOrderExportFilename(kind: OrderExportKind, range: ReportRange): string {
+  const last = new Date(range.to.getTime() - 1).toISOString();
+  return `${kind === 'lines' ? 'order-lines' : kind}-${getLocalDateKey(range.from.toISOString())}-to-${getLocalDateKey(last)}.csv`;
+}
+
+const isInRange = (iso: string, range: ReportRange) => {
+  const time = new Date(iso).getTime();
+  return time >= range.from.getTime() && time < range.to.getTime();
+};
+
+// Saved mappings may predate an account or leave a field blank
+export function parseJournalAccounts(raw: any): JournalAccounts {
+  return Object.fromEntries(
+    JOURNAL_ACCOUNT_KEYS.map(key => {
+      const saved = raw?.[key];
+      return [
+        key,
+        {
+          code: typeof saved?.code === 'string' && saved.code.trim() ? saved.code.trim() : DEFAULT_JOURNAL_ACCOUNTS[key].code,
+          name: typeof saved?.name === 'string' && saved.name.trim() ? saved.name.trim() : DEFAULT_JOURNAL_ACCOUNTS[key].name,
+        },
+      ];
+    })
+  ) as JournalAccounts;
+}
+
+// What was paid by each method; orders from before split tenders have no payment rows
+export function getOrderPayments(order: ExportOrder): Partial<Record<PaymentMethod, number>> {
+  const payments = order.order_payments ?? [];
+  if (payments.length === 0) {
+    return order.payment_method === 'split' ? {} : { [order.payment_method]: toNumber(order.total) };
+  }
+  const totals: Partial<Record<PaymentMethod, number>> = {};
+  payments.forEach(payment => {
+    totals[payment.method] = roundMoney((totals[payment.method] ?? 0) + toNumber(payment.amount));
+  });
+  return totals;
+}
+
+// The VAT inside a refund, in proportion to the VAT on the lines it returned
+export function getRefundTax(refund: ExportRefund, items: ExportOrderItem[]): number {
+  const tax = (refund.refund_items ?? []).reduce((sum, refundItem) => {
+    const item = items.find(line => line.id === refundItem.order_item_id);
+    const lineTotal = toNumber(item?.line_total ?? item?.subtotal);
+    if (!item || lineTotal <= 0) return sum;
+    return sum + roundMoney((toNumber(item.tax_amount) * toNumber(refundItem.amount)) / lineTotal);
+  }, 0);
+  return roundMoney(tax);
+}
+
+export const ORDER_CSV_HEADERS = [
+  'order_id',
+  'date',
+  'status',
+  'cashier',
+  'customer',
+  'items',
+  'discount',
+  'net_sales',
+  'vat',
+  'total',
+  'payment_method',
+  'cash',
+  'card',
+  'mobile',
+  'points',
+  'refunded',
+  'tax_exemption',
+];
+
+export function ordersToCsv(orders: ExportOrder[], range: ReportRange): string {
+  const rows = orders
+    .filter(order => isInRange(order.created_at, range))
+    .map(order => {
+      const payments = getOrderPayments(order);
+      const refunded = (order.refunds ?? []).reduce((sum, refund) => sum + toNumber(refund.amount), 0);
+      return [
+        order.id,
+        formatDateTime(order.created_at),
+        order.status,
+        order.profiles?.full_name || order.profiles?.email || '',
+        order.customers?.name ?? '',
+        order.order_items.reduce((sum, item) => sum + item.quantity, 0),
+        toNumber(order.discount_total).toFixed(2),
+        roundMoney(toNumber(order.total) - toNumber(order.tax)).toFixed(2),
+        toNumber(order.tax).toFixed(2),
+        toNumber(order.total).toFixed(2),
+        order.payment_method,
+        (payments.cash ?? 0).toFixed(2),
+        (payments.card ?? 0).toFixed(2),
+        (payments.mobile ?? 0).toFixed(2),
+        (payments.points ?? 0).toFixed(2),
+        roundMoney(refunded).toFixed(2),
+        order.tax_exemption ?? '',
+      ];
+    });
+  return toCsv(ORDER_CSV_HEADERS, rows);
+}
+
+export const ORDER_LINE_CSV_HEADERS = [
+  'order_id',
+  'date',
+  'status',
+  'product',
+  'quantity',
+  'unit_price',
+  'subtotal',
+  'discount',
+  'net_amount',
+  'tax_class',
+  'vat_rate',
+  'vat',
+  'line_total',
+  'refunded_quantity',
+  'refunded_amount',
+];
+
+export function orderLinesToCsv(orders: ExportOrder[], range: ReportRange): string {
+  const rows = orders
+    .filter(order => isInRange(order.created_at, range))
+    .flatMap(order =>
+      order.order_items.map(item => [
+        order.id,
+        formatDateTime(order.created_at),
+        order.status,
+        item.products?.name ?? 'Deleted product',
+        item.quantity,
+        toNumber(item.price).toFixed(2),
+        toNumber(item.subtotal).toFixed(2),
+        roundMoney(toNumber(item.discount_amount) + toNumber(item.order_discount_share)).toFixed(2),
+        toNumber(item.taxable_amount ?? item.subtotal).toFixed(2),
+        item.tax_class_code ?? '',
+        item.tax_rate === null ? '' : toNumber(item.tax_rate),
+        toNumber(item.tax_amount).toFixed(2),
+        toNumber(item.line_total ?? item.subtotal).toFixed(2),
+        toNumber(item.refunded_quantity),
+        toNumber(item.refunded_amount).toFixed(2),
+      ])
+    );
+  return toCsv(ORDER_LINE_CSV_HEADERS, rows);
+}
+
+type DayTotals = {
+  sales: number;
+  tax: number;
+  receipts: Partial<Record<PaymentMethod, number>>;
+  refunds: number;
+  refundTax: number;
+  payouts: Partial<Record<PaymentMethod, number>>;
+};
+
+const addTo = (totals: Partial<Record<PaymentMethod, number>>, method: PaymentMethod, amount: number) => {
+  totals[method] = roundMoney((totals[method] ?? 0) + amount);
+};
+
+// One balanced entry per day: takings by payment method against sales net of
+// VAT and output VAT, and refunds the other way round. Sales count on the day
+// they were made and refunds on the day they were given; cancelled orders are
+// left out.
+export function buildDailyJournal(orders: ExportOrder[], range: ReportRange): JournalLine[] {
+  const days = new Map<string, DayTotals>();
+  const getDay = (iso: string) => {
+    const key = getLocalDateKey(iso);
+    if (!days.has(key)) {
+      days.set(key, { sales: 0, tax: 0, receipts: {}, refunds: 0, refundTax: 0, payouts: {} });
+    }
+    return days.get(key)!;
+  };
+
+  orders.forEach(order => {
+    if (order.status !== 'cancelled' && isInRange(order.created_at, range)) {
+      const day = getDay(order.created_at);
+      const payments = getOrderPayments(order);
+      (Object.keys(payments) as PaymentMethod[]).forEach(method => addTo(day.receipts, method, payments[method]!));
+      day.tax = roundMoney(day.tax + toNumber(order.tax));
+      day.sales = roundMoney(day.sales + toNumber(order.total) - toNumber(order.tax));
+    }
+
+    (order.refunds ?? [])
+      .filter(refund => isInRange(refund.created_at, range))
+      .forEach(refund => {
+        const day = getDay(refund.created_at);
+        const amount = toNumber(refund.amount);
+        const tax = getRefundTax(refund, order.order_items);
+        addTo(day.payouts, refund.method, amount);
+        day.refundTax = roundMoney(day.refundTax + tax);
+        day.refunds = roundMoney(day.refunds + amount - tax);
+      });
+  });
+
+  const lines: JournalLine[] = [];
+  Array.from(days.keys())
+    .sort()
+    .forEach(date => {
+      const day = days.get(date)!;
+      const reference = `POS-${date}`;
+      const add = (account: JournalAccountKey, description: string, debit: number, credit: number) => {
+        if (debit !== 0 || credit !== 0) {
+          lines.push({ date, reference, account, description, debit, credit });
+        }
+      };
+
+      (Object.keys(day.receipts) as PaymentMethod[]).forEach(method =>
+        add(method, `POS takings ${date}`, day.receipts[method]!, 0)
+      );
+      add('sales', `POS sales ${date}`, 0, day.sales);
+      add('vatOutput', `Output VAT on sales ${date}`, 0, day.tax);
+
+      add('salesReturns', `POS refunds ${date}`, day.refunds, 0);
+      add('vatOutput', `Output VAT on refunds ${date}`, day.refundTax, 0);
+      (Object.keys(day.payouts) as PaymentMethod[]).forEach(method =>
+        add(method, `POS refunds paid ${date}`, 0, day.payouts[method]!)
+      );
+    });
+
+  return lines;
+}
+
+export const JOURNAL_CSV_HEADERS = ['date', 'reference', 'account_code', 'account_name', 'description', 'debit', 'credit'];
+
+export function journalToCsv(lines: JournalLine[], accounts: JournalAccounts): string {
+  return toCsv(
+    JOURNAL_CSV_HEADERS,
+    lines.map(line => [
+      line.date,
+      line.reference,
+      accounts[line.account].code,
+      accounts[line.account].name,
+      line.description,
+      line.debit ? line.debit.toFixed(2) : '',
+      line.credit ? line.credit.toFixed(2) : '',
+    ])
+  );
+}
@@ -0,0 +1,73 @@
+import { PaymentMethod } from './payments';
+
+export type OrderStatus = 'completed' | 'partially_refunded' | 'refunded' | 'cancelled';
+
+export const ORDER_STATUS_LABELS: Record<OrderStatus, string> = {
+  completed: 'Completed',
+  partially_refunded: 'Partially Refunded',
+  refunded: 'Refunded',
+  cancelled: 'Cancelled',
+};
+
+export const ORDERS_PAGE_SIZE = 25;
+
+// The last order of a page; the next page starts after it
+export interface OrderCursor {
+  createdAt: string;
+  id: string;
+}
+
+export interface OrderFilters {
+  status?: OrderStatus | null;
+  paymentMethod?: PaymentMethod | 'split' | null;
+  userId?: string | null;
+  dateFrom?: Date | null;
+  // Exclusive
+  dateTo?: Date | null;
+  search?: string | null;
+}
+
+export interface OrderSearch {
+  // Receipts show the first 8 characters of the order id
+  idPrefix: string | null;
+  // Matched against customer names and phone numbers
+  text: string | null;
+}
+
+// Orders are listed newest first, with the id breaking ties between orders
+// placed in the same instant. Values are quoted because timestamps hold dots.
+export function getOrderCursorFilter(cursor: OrderCursor): string {
+  return `created_at.lt."${cursor.createdAt}",and(created_at.eq."${cursor.createdAt}",id.lt.${cursor.id})`;
+}
+
+// Asks for one more row than the page holds to know whether another page follows
+export function getOrderPage<T extends { id: string; created_at: string }>(
+  rows: T[],
+  limit: number
+): { orders: T[]; nextCursor: OrderCursor | null } {
+  const orders = rows.slice(0, limit);
+  const last = orders[orders.length - 1];
+  return {
+    orders,
+    nextCursor: rows.length > limit && last ? { createdAt: last.created_at, id: last.id } : null,
+  };
+}
+
+// Characters with a meaning in PostgREST filters are dropped rather than escaped
+export function parseOrderSearch(search: string | null | undefined): OrderSearch | null {
+  const text = (search ?? '').replace(/[,()"\\%*:]/g, ' ').replace(/\s+/g, ' ').trim().replace(/^#/, '');
+  if (!text) return null;
+
+  const id = text.toLowerCase();
+  return {
+    idPrefix: /^[0-9a-f-]{4,36}$/.test(id) ? id : null,
+    text: text.length >= 2 ? text : null,
+  };
+}
+
+// PostgREST takes one `or` filter per query, so several are nested in an `and`
+export function combineOrFilters(filters: string[]): string | null {
+  if (filters.length === 0) return null;
+  if (filters.length === 1) return filters[0];
+  return `and(${filters.map(filter => `or(${filter})`).join(',')})`;
+}
@@ -0,0 +1,69 @@
+export type PaymentMethod = 'cash' | 'card' | 'mobile' | 'points';
+
+export interface Tender {
+  method: PaymentMethod;
+  // For cash this is what the customer handed over, which may be more than is owed
+  amount: number;
+  reference?: string | null;
+}
+
+export interface AppliedTender extends Tender {
+  // Portion of the tender that pays for the order
+  applied: number;
+  changeDue: number;
+}
+
+export interface TenderSummary {
+  tendered: number;
+  cashTendered: number;
+  nonCashTendered: number;
+  remaining: number;
+  changeDue: number;
+  isCovered: boolean;
+  // Card, mobile and points payments can't give change, so they may not exceed the total
+  nonCashExceedsTotal: boolean;
+}
+
+export const PAYMENT_METHOD_LABELS: Record<PaymentMethod, string> = {
+  cash: 'Cash',
+  card: 'Card',
+  mobile: 'GCash / Mobile',
+  points: 'Points',
+};
+
+const round = (amount: number) => Math.round((amount + Number.EPSILON) * 100) / 100;
+
+export function summarizeTenders(tenders: Tender[], total: number): TenderSummary {
+  const cashTendered = round(tenders.filter(t => t.method === 'cash').reduce((sum, t) => sum + t.amount, 0));
+  const nonCashTendered = round(tenders.filter(t => t.method !== 'cash').reduce((sum, t) => sum + t.amount, 0));
+  const tendered = round(cashTendered + nonCashTendered);
+  const nonCashExceedsTotal = nonCashTendered > total;
+
+  return {
+    tendered,
+    cashTendered,
+    nonCashTendered,
+    remaining: Math.max(0, round(total - tendered)),
+    changeDue: nonCashExceedsTotal ? 0 : Math.max(0, round(tendered - total)),
+    isCovered: tenders.length > 0 && tendered >= total && !nonCashExceedsTotal,
+    nonCashExceedsTotal,
+  };
+}
+
+// Change is handed back out of the most recent cash tenders first, matching
+// checkout_order's order_payments rows
+export function applyTenders(tenders: Tender[], total: number): AppliedTender[] {
+  let changeLeft = summarizeTenders(tenders, total).changeDue;
+  const applied = [...tenders].reverse().map(tender => {
+    const changeDue = tender.method === 'cash' ? Math.min(tender.amount, changeLeft) : 0;
+    changeLeft = round(changeLeft - changeDue);
+    return { ...tender, applied: round(tender.amount - changeDue), changeDue };
+  });
+  return applied.reverse();
+}
+
+// orders.payment_method keeps a single value for reporting; mixed tenders are 'split'
+export function getOrderPaymentMethod(tenders: Pick<Tender, 'method'>[]): PaymentMethod | 'split' {
+  const methods = new Set(tenders.map(t => t.method));
+  return methods.size === 1 ? tenders[0].method : 'split';
+}
@@ -0,0 +1,268 @@
+import { parseCsvRecords, toCsv } from './csv';
+
+export const PRODUCT_CSV_HEADERS = ['name', 'sku', 'barcode', 'category', 'price', 'stock', 'active'];
+
+// Rows are written this many at a time so a large file doesn't flood the connection
+export const PRODUCT_IMPORT_BATCH_SIZE = 20;
+
+export interface CsvCategory {
+  id: string;
+  name: string;
+}
+
+export interface CsvProduct {
+  id: string;
+  name: string;
+  sku: string | null;
+  barcode: string | null;
+  price: number;
+  stock: number;
+  active: boolean;
+  category_id: string | null;
+  parent_id?: string | null;
+}
+
+export type ProductImportAction = 'create' | 'update' | 'unchanged' | 'reject';
+
+export const PRODUCT_IMPORT_ACTION_LABELS: Record<ProductImportAction, string> = {
+  create: 'Create',
+  update: 'Update',
+  unchanged: 'Unchanged',
+  reject: 'Rejected',
+};
+
+export interface ProductImportChanges {
+  name?: string;
+  sku?: string | null;
+  barcode?: string | null;
+  price?: number;
+  stock?: number;
+  active?: boolean;
+}
+
+export interface ProductImportRow {
+  line: number;
+  action: ProductImportAction;
+  name: string;
+  // The product an update applies to
+  productId: string | null;
+  changes: ProductImportChanges;
+  // Looked up, or created, by name when the row is applied; undefined leaves
+  // the category alone and null clears it
+  categoryName?: string | null;
+  errors: string[];
+  warnings: string[];
+}
+
+export interface ProductImportPlan {
+  // Problems with the file as a whole; nothing can be imported
+  errors: string[];
+  rows: ProductImportRow[];
+  // Categories named in the file that don't exist yet
+  newCategories: string[];
+  counts: Record<ProductImportAction, number>;
+}
+
+const normalize = (value: string) => value.trim().toLowerCase();
+
+export function productsToCsv(products: CsvProduct[], categories: CsvCategory[]): string {
+  const categoryNames = new Map(categories.map(category => [category.id, category.name]));
+  return toCsv(
+    PRODUCT_CSV_HEADERS,
+    products.map(product => [
+      product.name,
+      product.sku,
+      product.barcode,
+      product.category_id ? categoryNames.get(product.category_id) ?? '' : '',
+      Number(product.price).toFixed(2),
+      product.stock,
+      product.active ? 'true' : 'false',
+    ])
+  );
+}
+
+const parseActive = (value: string): boolean | null => {
+  const normalized = normalize(value);
+  if (['true', 'yes', 'y', '1', 'active'].includes(normalized)) return true;
+  if (['false', 'no', 'n', '0', 'inactive'].includes(normalized)) return false;
+  return null;
+};
+
+// Works out what each row would do without writing anything. Rows match an
+// existing product by SKU, then by name; only the columns present in the file
+// are changed on a match.
+export function planProductImport(
+  text: string,
+  products: CsvProduct[],
+  categories: CsvCategory[]
+): ProductImportPlan {
+  const { headers, records } = parseCsvRecords(text);
+  const counts: Record<ProductImportAction, number> = { create: 0, update: 0, unchanged: 0, reject: 0 };
+
+  if (!headers.includes('name')) {
+    return { errors: ['The file needs a "name" column'], rows: [], newCategories: [], counts };
+  }
+  if (records.length === 0) {
+    return { errors: ['The file has no products'], rows: [], newCategories: [], counts };
+  }
+
+  const has = (column: string) => headers.includes(column);
+  const bySku = new Map(products.filter(p => p.sku).map(p => [normalize(p.sku!), p]));
+  const byBarcode = new Map(products.filter(p => p.barcode).map(p => [p.barcode!.trim(), p]));
+  const categoriesByName = new Map(categories.map(category => [normalize(category.name), category]));
+  const newCategories = new Map<string, string>();
+  // First line each product, SKU, barcode or new name was seen on
+  const seen = new Map<string, number>();
+
+  const rows = records.map(({ line, values }): ProductImportRow => {
+    const errors: string[] = [];
+    const warnings: string[] = [];
+    const name = values.name ?? '';
+    const sku = has('sku') ? values.sku || null : undefined;
+    const barcode = has('barcode') ? values.barcode || null : undefined;
+
+    if (!name) errors.push('Name is required');
+
+    let match: CsvProduct | undefined = sku ? bySku.get(normalize(sku)) : undefined;
+    if (!match && name) {
+      const named = products.filter(p => normalize(p.name) === normalize(name));
+      if (named.length > 1) {
+        errors.push(`${named.length} products are named "${name}"; add a SKU to pick one`);
+      } else if (named.length === 1) {
+        match = named[0];
+        if (sku && match.sku && normalize(match.sku) !== normalize(sku)) {
+          errors.push(`"${match.name}" already has SKU ${match.sku}`);
+        }
+      }
+    }
+
+    const barcodeOwner = barcode ? byBarcode.get(barcode) : undefined;
+    if (barcodeOwner && barcodeOwner.id !== match?.id) {
+      errors.push(`Barcode ${barcode} belongs to "${barcodeOwner.name}"`);
+    }
+
+    const keys = [
+      match ? `product:${match.id}` : name ? `name:${normalize(name)}` : null,
+      sku ? `sku:${normalize(sku)}` : null,
+      barcode ? `barcode:${barcode}` : null,
+    ].filter((key): key is string => key !== null);
+    const duplicateOf = keys.map(key => seen.get(key)).find(seenLine => seenLine !== undefined);
+    if (duplicateOf !== undefined) {
+      errors.push(`Same product, SKU or barcode as line ${duplicateOf}`);
+    }
+    keys.forEach(key => {
+      if (!seen.has(key)) seen.set(key, line);
+    });
+
+    let price: number | undefined;
+    if (has('price') && values.price !== '') {
+      price = Number(values.price);
+      if (!Number.isFinite(price) || price < 0) errors.push('Price must be a number of 0 or more');
+    } else if (!match) {
+      errors.push('Price is required for new products');
+    }
+
+    let stock: number | undefined;
+    if (has('stock') && values.stock !== '') {
+      stock = Number(values.stock);
+      if (!Number.isInteger(stock) || stock < 0) errors.push('Stock must be a whole number of 0 or more');
+    }
+
+    let active: boolean | undefined;
+    if (has('active') && values.active !== '') {
+      const parsed = parseActive(values.active);
+      if (parsed === null) errors.push('Active must be true or false');
+      else active = parsed;
+    }
+
+    let categoryName: string | null | undefined;
+    if (has('category')) {
+      categoryName = values.category || null;
+      if (categoryName) {
+        // Names differing only in case share one category
+        categoryName =
+          categoriesByName.get(normalize(categoryName))?.name ??
+          newCategories.get(normalize(categoryName)) ??
+          categoryName;
+      }
+    }
+
+    if (errors.length > 0) {
+      return { line, action: 'reject', name, productId: match?.id ?? null, changes: {}, errors, warnings };
+    }
+
+    const addCategory = (category: string | null | undefined) => {
+      if (category && !categoriesByName.has(normalize(category))) {
+        newCategories.set(normalize(category), category);
+      }
+    };
+
+    if (!match) {
+      addCategory(categoryName);
+      return {
+        line,
+        action: 'create',
+        name,
+        productId: null,
+        changes: { name, sku: sku ?? null, barcode: barcode ?? null, price, stock: stock ?? 0, active: active ?? true },
+        categoryName: categoryName ?? null,
+        errors,
+        warnings,
+      };
+    }
+
+    // Stock on existing products only moves through logged adjustments
+    if (stock !== undefined && stock !== match.stock) {
+      warnings.push(`Stock stays at ${match.stock}; use a stock adjustment to change it`);
+    }
+
+    const changes: ProductImportChanges = {};
+    if (name !== match.name) changes.name = name;
+    if (sku !== undefined && sku !== match.sku) changes.sku = sku;
+    if (barcode !== undefined && barcode !== match.barcode) changes.barcode = barcode;
+    if (price !== undefined && price !== Number(match.price)) changes.price = price;
+    if (active !== undefined && active !== match.active) changes.active = active;
+
+    const currentCategory = categories.find(category => category.id === match!.category_id)?.name ?? null;
+    const categoryChanged = categoryName !== undefined && categoryName !== currentCategory;
+
+    // sync_variant_fields copies both from the parent product
+    if (match.parent_id && (changes.name !== undefined || categoryChanged)) {
+      return {
+        line,
+        action: 'reject',
+        name,
+        productId: match.id,
+        changes: {},
+        errors: ['A variant takes its name and category from its parent product'],
+        warnings,
+      };
+    }
+
+    const changed = Object.keys(changes).length > 0 || categoryChanged;
+    if (categoryChanged) addCategory(categoryName);
+
+    return {
+      line,
+      action: changed ? 'update' : 'unchanged',
+      name,
+      productId: match.id,
+      changes,
+      categoryName: categoryChanged ? categoryName : undefined,
+      errors,
+      warnings,
+    };
+  });
+
+  rows.forEach(row => counts[row.action]++);
+  return { errors: [], rows, newCategories: Array.from(newCategories.values()), counts };
+}
+
+// What createProduct/updateProduct are given for a row, once new categories exist
+export function getProductImportPayload(row: ProductImportRow, categoryIds: Record<string, string>) {
+  const payload: Record<string, unknown> = { ...row.changes };
+  if (row.categoryName !== undefined) {
+    payload.category_id = row.categoryName ? categoryIds[normalize(row.categoryName)] ?? null : null;
+  }
+  return payload;
+}
@@ -0,0 +1,73 @@
+export const PRODUCT_PAGE_SIZE = 60;
+
+// Cached results older than this are still shown, then refetched behind them
+export const PRODUCT_SEARCH_MAX_AGE_MS = 60 * 1000;
+
+export interface ProductSearchParams {
+  query?: string | null;
+  categoryId?: string | null;
+  // Only admins can see inactive products, whatever is asked for
+  includeInactive?: boolean;
+}
+
+export interface ProductSearchPage<T> {
+  // The page's products followed by their variants
+  products: T[];
+  // Top-level products on the page, which is how far the next page starts
+  count: number;
+  hasMore: boolean;
+}
+
+export interface ScrollMetrics {
+  layoutMeasurement: { height: number };
+  contentOffset: { y: number };
+  contentSize: { height: number };
+}
+
+// Mirrors find_product_by_code: a barcode match wins over a SKU match, since
+// one product's barcode can be another product's SKU
+export function findProductByCode<T extends { barcode?: string | null; sku?: string | null }>(
+  products: T[],
+  code: string
+): T | undefined {
+  const trimmed = code.trim();
+  if (!trimmed) return undefined;
+  const normalized = trimmed.toLowerCase();
+  return (
+    products.find(p => p.barcode === trimmed) ??
+    products.find(p => p.sku?.toLowerCase() === normalized)
+  );
+}
+
+export function normalizeProductSearch(query: string | null | undefined): string | null {
+  const normalized = (query ?? '').replace(/\s+/g, ' ').trim();
+  return normalized || null;
+}
+
+// Searches that would return the same rows share one cache entry
+export function getProductSearchKey(params: ProductSearchParams): string {
+  return JSON.stringify([
+    normalizeProductSearch(params.query) ?? '',
+    params.categoryId ?? '',
+    !!params.includeInactive,
+  ]);
+}
+
+export function isProductSearchStale(fetchedAt: number, now: number = Date.now()): boolean {
+  return now - fetchedAt > PRODUCT_SEARCH_MAX_AGE_MS;
+}
+
+// Pages are fetched by offset, so a product added or renamed between pages
+// can come back twice; the copy already on screen is replaced in place
+export function mergeProductPages<T extends { id: string }>(loaded: T[], page: T[]): T[] {
+  const pageById = new Map(page.map(product => [product.id, product]));
+  const merged = loaded.map(product => pageById.get(product.id) ?? product);
+  const loadedIds = new Set(loaded.map(product => product.id));
+  return [...merged, ...page.filter(product => !loadedIds.has(product.id))];
+}
+
+// Starts on the next page before the end of the list comes into view
+export function isNearScrollEnd(metrics: ScrollMetrics, threshold: number = 400): boolean {
+  const { layoutMeasurement, contentOffset, contentSize } = metrics;
+  return layoutMeasurement.height + contentOffset.y >= contentSize.height - threshold;
+}
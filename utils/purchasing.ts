@@ -0,0 +1,102 @@
+import { roundMoney } from './tax';
+
+export type PurchaseOrderStatus = 'draft' | 'sent' | 'partially_received' | 'received' | 'cancelled';
+
+export const PURCHASE_ORDER_STATUS_LABELS: Record<PurchaseOrderStatus, string> = {
+  draft: 'Draft',
+  sent: 'Sent',
+  partially_received: 'Partially Received',
+  received: 'Received',
+  cancelled: 'Cancelled',
+};
+
+export const PURCHASE_ORDER_STATUS_COLORS: Record<PurchaseOrderStatus, string> = {
+  draft: '#6B7280',
+  sent: '#3B82F6',
+  partially_received: '#F59E0B',
+  received: '#10B981',
+  cancelled: '#EF4444',
+};
+
+export interface Supplier {
+  id: string;
+  name: string;
+  contact_name: string | null;
+  phone: string | null;
+  email: string | null;
+  address: string | null;
+  notes: string | null;
+  active: boolean;
+}
+
+export interface PurchaseOrderItem {
+  id: string;
+  product_id: string;
+  quantity_ordered: number;
+  quantity_received: number;
+  unit_cost: number;
+  products?: { id: string; name: string; sku: string | null; stock: number } | null;
+}
+
+export interface PurchaseOrder {
+  id: string;
+  po_number: number;
+  supplier_id: string;
+  status: PurchaseOrderStatus;
+  expected_date: string | null;
+  notes: string | null;
+  created_at: string;
+  sent_at: string | null;
+  received_at: string | null;
+  suppliers?: Pick<Supplier, 'id' | 'name'> | null;
+  purchase_order_items: PurchaseOrderItem[];
+}
+
+// A line being edited on a draft, before it has an id
+export interface PurchaseOrderLineInput {
+  product_id: string;
+  quantity: number;
+  unit_cost: number;
+}
+
+export function formatPoNumber(poNumber: number): string {
+  return `PO-${String(poNumber).padStart(6, '0')}`;
+}
+
+export function getOutstandingQuantity(item: Pick<PurchaseOrderItem, 'quantity_ordered' | 'quantity_received'>): number {
+  return Math.max(0, item.quantity_ordered - item.quantity_received);
+}
+
+export function getPurchaseOrderTotal(items: { quantity: number; unit_cost: number }[]): number {
+  return roundMoney(items.reduce((sum, item) => sum + item.quantity * item.unit_cost, 0));
+}
+
+export function canReceivePurchaseOrder(status: PurchaseOrderStatus): boolean {
+  return status === 'sent' || status === 'partially_received';
+}
+
+// Mirrors receive_purchase_order: a moving weighted average of the stock on
+// hand and the delivery; with nothing on hand the delivery cost is taken as is
+export function computeAverageCost(
+  stockOnHand: number,
+  currentCost: number | null,
+  receivedQuantity: number,
+  unitCost: number
+): number {
+  if (currentCost === null || stockOnHand <= 0) return roundMoney(unitCost);
+  return roundMoney((stockOnHand * currentCost + receivedQuantity * unitCost) / (stockOnHand + receivedQuantity));
+}
+
+// numeric columns can arrive as strings from the purchase order RPCs
+export function parsePurchaseOrder(raw: any): PurchaseOrder {
+  return {
+    ...raw,
+    po_number: Number(raw.po_number),
+    purchase_order_items: (raw.purchase_order_items ?? []).map((item: any) => ({
+      ...item,
+      quantity_ordered: Number(item.quantity_ordered),
+      quantity_received: Number(item.quantity_received),
+      unit_cost: Number(item.unit_cost),
+    })),
+  };
+}
@@ -0,0 +1,310 @@
+import { DISCOUNT_REASON_LABELS, DiscountReason } from './discounts';
+import { PAYMENT_METHOD_LABELS, PaymentMethod } from './payments';
+import { TAX_EXEMPTION_LABELS, TaxExemptionType, roundMoney } from './tax';
+
+export type ReceiptWidth = '58mm' | '80mm';
+
+// Characters per line in the printer's default font
+export const RECEIPT_COLUMNS: Record<ReceiptWidth, number> = {
+  '58mm': 32,
+  '80mm': 48,
+};
+
+export interface StoreInfo {
+  storeName: string;
+  tin: string | null;
+  address: string | null;
+  phone: string | null;
+  footer: string | null;
+  receiptWidth: ReceiptWidth;
+}
+
+export const DEFAULT_STORE_INFO: StoreInfo = {
+  storeName: 'My Store',
+  tin: null,
+  address: null,
+  phone: null,
+  footer: 'Thank you for your purchase!',
+  receiptWidth: '58mm',
+};
+
+// Structural so both a fresh checkout result and a fetched order can be printed
+export interface ReceiptLine {
+  quantity: number;
+  price: number;
+  subtotal: number;
+  line_total: number | null; // Null for orders placed before the tax engine
+  tax_amount?: number;
+  discount_amount?: number;
+  discount_reason?: DiscountReason | null;
+  refunded_quantity?: number;
+  // Chosen options; their price deltas are already in price
+  modifiers?: Array<{ name: string; price_delta: number }>;
+  products: {
+    name: string;
+  };
+}
+
+export interface ReceiptOrder {
+  id: string;
+  created_at: string;
+  total: number;
+  tax: number;
+  tax_exemption?: TaxExemptionType | null;
+  tax_exemption_id?: string | null;
+  discount_amount?: number;
+  discount_reason?: DiscountReason | null;
+  order_items: ReceiptLine[];
+  order_payments?: Array<{
+    position: number;
+    method: PaymentMethod;
+    amount: number;
+    amount_tendered: number;
+    change_due: number;
+    reference: string | null;
+  }>;
+  refunds?: Array<{
+    amount: number;
+  }>;
+  profiles?: {
+    full_name: string;
+  };
+}
+
+export interface ReceiptOptions {
+  width?: ReceiptWidth;
+  reprint?: boolean;
+}
+
+type ReceiptRow =
+  | { kind: 'center'; text: string; bold?: boolean }
+  | { kind: 'pair'; left: string; right: string; bold?: boolean }
+  | { kind: 'text'; text: string }
+  | { kind: 'rule' };
+
+const amount = (value: number) => Number(value).toFixed(2);
+
+const formatReceiptDate = (dateString: string) =>
+  new Date(dateString).toLocaleString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+
+// Lines with no VAT (exempt, zero-rated or SC/PWD) are reported separately
+// from VATable sales, as BIR receipts require
+function getSalesBreakdown(order: ReceiptOrder) {
+  const exemptSales = roundMoney(
+    order.order_items
+      .filter(item => item.line_total !== null && Number(item.tax_amount ?? 0) === 0)
+      .reduce((sum, item) => sum + Number(item.line_total), 0)
+  );
+  const vatableSales = roundMoney(Number(order.total) - Number(order.tax) - exemptSales);
+  return { vatableSales, exemptSales };
+}
+
+// The receipt as layout-neutral rows, rendered to text or HTML below
+function buildReceiptRows(order: ReceiptOrder, store: StoreInfo, reprint: boolean): ReceiptRow[] {
+  const rows: ReceiptRow[] = [{ kind: 'center', text: store.storeName, bold: true }];
+  if (store.address) rows.push({ kind: 'center', text: store.address });
+  if (store.tin) rows.push({ kind: 'center', text: `TIN: ${store.tin}` });
+  if (store.phone) rows.push({ kind: 'center', text: store.phone });
+  if (reprint) rows.push({ kind: 'center', text: '*** REPRINT ***', bold: true });
+
+  rows.push({ kind: 'rule' });
+  rows.push({ kind: 'text', text: `Order #${order.id.substring(0, 8)}` });
+  rows.push({ kind: 'text', text: formatReceiptDate(order.created_at) });
+  if (order.profiles?.full_name) rows.push({ kind: 'text', text: `Cashier: ${order.profiles.full_name}` });
+  rows.push({ kind: 'rule' });
+
+  order.order_items.forEach(item => {
+    rows.push({
+      kind: 'pair',
+      left: `${item.quantity} x ${item.products.name}`,
+      right: amount(item.line_total ?? item.subtotal),
+    });
+    (item.modifiers ?? []).forEach(modifier => {
+      const delta = Number(modifier.price_delta);
+      rows.push({
+        kind: 'text',
+        text: delta !== 0 ? `  + ${modifier.name} (${delta > 0 ? '+' : ''}${amount(delta)})` : `  + ${modifier.name}`,
+      });
+    });
+    if (item.quantity > 1) rows.push({ kind: 'text', text: `  @ ${amount(item.price)}` });
+    if (item.discount_amount && item.discount_amount > 0) {
+      const reason = item.discount_reason ? DISCOUNT_REASON_LABELS[item.discount_reason] : 'Discount';
+      rows.push({ kind: 'pair', left: `  Less: ${reason}`, right: `-${amount(item.discount_amount)}` });
+    }
+    if (item.refunded_quantity && item.refunded_quantity > 0) {
+      rows.push({ kind: 'text', text: `  ${item.refunded_quantity} returned` });
+    }
+  });
+
+  rows.push({ kind: 'rule' });
+  if (order.discount_amount && order.discount_amount > 0) {
+    const reason = order.discount_reason ? DISCOUNT_REASON_LABELS[order.discount_reason] : 'Discount';
+    rows.push({ kind: 'pair', left: `Order Discount (${reason})`, right: `-${amount(order.discount_amount)}` });
+  }
+
+  const { vatableSales, exemptSales } = getSalesBreakdown(order);
+  rows.push({ kind: 'pair', left: 'VATable Sales', right: amount(vatableSales) });
+  if (exemptSales > 0) rows.push({ kind: 'pair', left: 'VAT-Exempt Sales', right: amount(exemptSales) });
+  rows.push({ kind: 'pair', left: 'VAT', right: amount(order.tax) });
+  rows.push({ kind: 'pair', left: 'TOTAL', right: amount(order.total), bold: true });
+  rows.push({ kind: 'rule' });
+
+  [...(order.order_payments ?? [])]
+    .sort((a, b) => a.position - b.position)
+    .forEach(payment => {
+      const label = PAYMENT_METHOD_LABELS[payment.method];
+      rows.push({
+        kind: 'pair',
+        left: payment.reference ? `${label} ${payment.reference}` : label,
+        right: amount(payment.amount_tendered),
+      });
+      if (payment.change_due > 0) rows.push({ kind: 'pair', left: 'Change', right: amount(payment.change_due) });
+    });
+
+  const refunded = (order.refunds ?? []).reduce((sum, refund) => sum + Number(refund.amount), 0);
+  if (refunded > 0) rows.push({ kind: 'pair', left: 'Refunded', right: `-${amount(refunded)}` });
+
+  if (order.tax_exemption) {
+    rows.push({ kind: 'rule' });
+    rows.push({ kind: 'text', text: `${TAX_EXEMPTION_LABELS[order.tax_exemption]} ID: ${order.tax_exemption_id ?? ''}` });
+    rows.push({ kind: 'text', text: 'Signature: ____________________' });
+  }
+
+  if (store.footer) {
+    rows.push({ kind: 'rule' });
+    rows.push({ kind: 'center', text: store.footer });
+  }
+  return rows;
+}
+
+// Word-wraps to the column width, keeping any leading indent on every line
+function wrap(text: string, columns: number): string[] {
+  const indent = text.match(/^ */)?.[0] ?? '';
+  const width = columns - indent.length;
+  const lines: string[] = [];
+  let line = '';
+  text.split(/\s+/).filter(Boolean).forEach(word => {
+    while (word.length > width) {
+      if (line) {
+        lines.push(line);
+        line = '';
+      }
+      lines.push(word.slice(0, width));
+      word = word.slice(width);
+    }
+    if (!line) {
+      line = word;
+    } else if (line.length + 1 + word.length <= width) {
+      line += ` ${word}`;
+    } else {
+      lines.push(line);
+      line = word;
+    }
+  });
+  if (line) lines.push(line);
+  return lines.map(wrapped => indent + wrapped);
+}
+
+function renderRow(row: ReceiptRow, columns: number): string[] {
+  switch (row.kind) {
+    case 'rule':
+      return ['-'.repeat(columns)];
+    case 'center':
+      return wrap(row.text, columns).map(line => {
+        const padding = Math.floor((columns - line.length) / 2);
+        return ' '.repeat(padding) + line;
+      });
+    case 'text':
+      return wrap(row.text, columns);
+    case 'pair': {
+      // Long item names wrap and the amount goes on the last line
+      const lines = wrap(row.left, columns - row.right.length - 1);
+      const last = lines.pop() ?? '';
+      return [...lines, last + ' '.repeat(columns - last.length - row.right.length) + row.right];
+    }
+  }
+}
+
+// Monospaced layout for thermal printers; also used for on-screen previews and sharing
+export function renderReceiptText(order: ReceiptOrder, store: StoreInfo, options: ReceiptOptions = {}): string {
+  const columns = RECEIPT_COLUMNS[options.width ?? store.receiptWidth];
+  return buildReceiptRows(order, store, options.reprint ?? false)
+    .flatMap(row => renderRow(row, columns))
+    .join('\n');
+}
+
+const ESC = 0x1b;
+const GS = 0x1d;
+
+// Printers use a single-byte code page, so fold accents and symbols to ASCII
+function toPrinterAscii(text: string): string {
+  return text
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/₱/g, 'P')
+    .replace(/[−–—]/g, '-')
+    .replace(/[^\x0a\x20-\x7e]/g, '?');
+}
+
+// ESC/POS byte stream: initialise, print the text receipt, feed and cut
+export function encodeEscPos(text: string): Uint8Array {
+  const body = toPrinterAscii(text);
+  const bytes = [ESC, 0x40];
+  for (let i = 0; i < body.length; i++) {
+    bytes.push(body.charCodeAt(i));
+  }
+  bytes.push(0x0a, ESC, 0x64, 4, GS, 0x56, 0x42, 0);
+  return Uint8Array.from(bytes);
+}
+
+const escapeHtml = (text: string) =>
+  text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+
+// Standalone page sized to the paper width, for browser printing and sharing
+export function renderReceiptHtml(order: ReceiptOrder, store: StoreInfo, options: ReceiptOptions = {}): string {
+  const width = options.width ?? store.receiptWidth;
+  const body = buildReceiptRows(order, store, options.reprint ?? false)
+    .map(row => {
+      switch (row.kind) {
+        case 'rule':
+          return '<hr>';
+        case 'center':
+          return `<div class="center${row.bold ? ' bold' : ''}">${escapeHtml(row.text)}</div>`;
+        case 'text':
+          return `<div>${escapeHtml(row.text)}</div>`;
+        case 'pair':
+          return `<div class="pair${row.bold ? ' bold' : ''}"><span>${escapeHtml(row.left)}</span><span>${escapeHtml(row.right)}</span></div>`;
+      }
+    })
+    .join('\n');
+
+  return `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8">
+<title>Receipt ${escapeHtml(order.id.substring(0, 8))}</title>
+<style>
+  @page { size: ${width} auto; margin: 0; }
+  body { width: ${width}; margin: 0 auto; padding: 4mm; box-sizing: border-box; font-family: monospace; font-size: 12px; }
+  .center { text-align: center; }
+  .bold { font-weight: bold; }
+  .pair { display: flex; justify-content: space-between; gap: 8px; }
+  hr { border: none; border-top: 1px dashed #000; }
+</style>
+</head>
+<body>
+${body}
+</body>
+</html>`;
+}
@@ -0,0 +1,26 @@
+import { roundMoney } from './tax';
+
+export interface RefundableLine {
+  quantity: number;
+  subtotal: number;
+  line_total: number | null; // Null for orders placed before the tax engine
+  refunded_quantity: number;
+  refunded_amount: number;
+}
+
+export function getReturnableQuantity(line: RefundableLine): number {
+  return Math.max(0, line.quantity - (line.refunded_quantity ?? 0));
+}
+
+// Mirrors refund_order: each unit refunds its share of the line total after
+// discounts and VAT, and returning the last units refunds whatever is left
+export function computeRefundAmount(line: RefundableLine, quantity: number): number {
+  const returnable = getReturnableQuantity(line);
+  if (quantity <= 0 || quantity > returnable) return 0;
+
+  const lineTotal = Number(line.line_total ?? line.subtotal);
+  if (quantity === returnable) {
+    return roundMoney(lineTotal - Number(line.refunded_amount ?? 0));
+  }
+  return roundMoney((lineTotal * quantity) / line.quantity);
+}
@@ -0,0 +1,112 @@
+import { PurchaseOrderLineInput } from './purchasing';
+
+// Products saved before reorder points existed (or cached offline) use the
+// old fixed threshold
+export const DEFAULT_REORDER_POINT = 5;
+
+export const REORDER_SALES_DAYS = 30;
+
+export const REORDER_COVER_OPTIONS = [7, 14, 30];
+
+export interface ReorderReportRow {
+  product_id: string;
+  name: string;
+  sku: string | null;
+  category_name: string | null;
+  stock: number;
+  reorder_point: number;
+  reorder_quantity: number | null;
+  units_sold: number;
+  on_order: number;
+  cost_price: number | null;
+}
+
+export interface ReorderSuggestion extends ReorderReportRow {
+  dailyVelocity: number;
+  // null when nothing has sold in the period
+  daysOfCover: number | null;
+  suggestedQuantity: number;
+}
+
+export function isLowStock(product: { stock: number; reorder_point?: number | null }): boolean {
+  return product.stock > 0 && product.stock <= (product.reorder_point ?? DEFAULT_REORDER_POINT);
+}
+
+export function getDailyVelocity(unitsSold: number, salesDays: number): number {
+  if (salesDays <= 0 || unitsSold <= 0) return 0;
+  return unitsSold / salesDays;
+}
+
+export function getDaysOfCover(stock: number, dailyVelocity: number): number | null {
+  if (stock <= 0) return 0;
+  if (dailyVelocity <= 0) return null;
+  return Math.floor(stock / dailyVelocity);
+}
+
+// Stock already on order counts towards what is available. A product needs
+// ordering at or below its reorder point, or when it would run out within
+// the cover period; it then gets its reorder quantity, or without one
+// enough for the cover period on top of the reorder point
+export function getSuggestedQuantity(row: ReorderReportRow, salesDays: number, coverDays: number): number {
+  const available = row.stock + row.on_order;
+  const velocity = getDailyVelocity(row.units_sold, salesDays);
+  const runsOut = velocity > 0 && available / velocity < coverDays;
+
+  if (available > row.reorder_point && !runsOut) return 0;
+  if (row.reorder_quantity) return row.reorder_quantity;
+
+  const target = row.reorder_point + Math.ceil(velocity * coverDays);
+  return Math.max(1, target - available);
+}
+
+// Most urgent first: fewest days of cover, then products with no recent
+// sales by how far they are below their reorder point
+export function buildReorderSuggestions(
+  rows: ReorderReportRow[],
+  salesDays: number,
+  coverDays: number
+): ReorderSuggestion[] {
+  return rows
+    .map(row => {
+      const dailyVelocity = getDailyVelocity(row.units_sold, salesDays);
+      return {
+        ...row,
+        dailyVelocity,
+        daysOfCover: getDaysOfCover(row.stock, dailyVelocity),
+        suggestedQuantity: getSuggestedQuantity(row, salesDays, coverDays),
+      };
+    })
+    .filter(suggestion => suggestion.suggestedQuantity > 0)
+    .sort((a, b) => {
+      if (a.daysOfCover !== b.daysOfCover) {
+        if (a.daysOfCover === null) return 1;
+        if (b.daysOfCover === null) return -1;
+        return a.daysOfCover - b.daysOfCover;
+      }
+      return (a.stock - a.reorder_point) - (b.stock - b.reorder_point);
+    });
+}
+
+// Products without a cost price go on the draft at zero for the buyer to fill in
+export function toPurchaseOrderLines(
+  suggestions: Pick<ReorderSuggestion, 'product_id' | 'suggestedQuantity' | 'cost_price'>[]
+): PurchaseOrderLineInput[] {
+  return suggestions.map(suggestion => ({
+    product_id: suggestion.product_id,
+    quantity: suggestion.suggestedQuantity,
+    unit_cost: suggestion.cost_price ?? 0,
+  }));
+}
+
+// numeric columns can arrive as strings from get_reorder_report
+export function parseReorderReport(raw: any[]): ReorderReportRow[] {
+  return raw.map(row => ({
+    ...row,
+    stock: Number(row.stock),
+    reorder_point: Number(row.reorder_point),
+    reorder_quantity: row.reorder_quantity === null ? null : Number(row.reorder_quantity),
+    units_sold: Number(row.units_sold),
+    on_order: Number(row.on_order),
+    cost_price: row.cost_price === null ? null : Number(row.cost_price),
+  }));
+}
@@ -0,0 +1,133 @@
+import { PAYMENT_METHOD_LABELS, PaymentMethod } from './payments';
+import { roundMoney } from './tax';
+
+export type ReportRangePreset = 'today' | 'yesterday' | 'last7' | 'last30' | 'thisMonth';
+
+export type ReportDimension =
+  | 'day'
+  | 'hour'
+  | 'product'
+  | 'component'
+  | 'category'
+  | 'modifier'
+  | 'staff'
+  | 'paymentMethod';
+
+export const REPORT_RANGE_LABELS: Record<ReportRangePreset, string> = {
+  today: 'Today',
+  yesterday: 'Yesterday',
+  last7: 'Last 7 Days',
+  last30: 'Last 30 Days',
+  thisMonth: 'This Month',
+};
+
+export const REPORT_DIMENSION_LABELS: Record<ReportDimension, string> = {
+  day: 'By Day',
+  hour: 'By Hour',
+  product: 'By Product',
+  component: 'By Component',
+  category: 'By Category',
+  modifier: 'By Modifier',
+  staff: 'By Staff',
+  paymentMethod: 'By Payment',
+};
+
+export interface ReportTotals {
+  orderCount: number;
+  quantity: number;
+  gross: number;
+  // VAT on sales less the VAT given back in refunds
+  tax: number;
+  refunds: number;
+  net: number;
+}
+
+export interface ReportRow extends ReportTotals {
+  key: string;
+  label: string;
+}
+
+export interface SalesReport {
+  summary: ReportTotals;
+  breakdowns: Record<ReportDimension, ReportRow[]>;
+}
+
+export interface ReportRange {
+  from: Date;
+  to: Date;
+}
+
+const toNumber = (value: unknown) => Number(value ?? 0);
+
+const toTotals = (raw: any): ReportTotals => {
+  const gross = toNumber(raw?.gross);
+  const refunds = toNumber(raw?.refunds);
+  return {
+    orderCount: toNumber(raw?.order_count),
+    quantity: toNumber(raw?.quantity ?? raw?.item_count),
+    gross,
+    tax: toNumber(raw?.tax),
+    refunds,
+    net: roundMoney(gross - refunds),
+  };
+};
+
+const toRows = (rows: any[] | null | undefined, getLabel?: (row: any) => string): ReportRow[] =>
+  (rows ?? []).map(row => ({
+    key: String(row.key),
+    label: getLabel ? getLabel(row) : String(row.label),
+    ...toTotals(row),
+  }));
+
+// numeric columns can arrive as strings from get_sales_report
+export function parseSalesReport(raw: any): SalesReport {
+  return {
+    summary: toTotals(raw?.summary),
+    breakdowns: {
+      day: toRows(raw?.by_day),
+      hour: toRows(raw?.by_hour),
+      product: toRows(raw?.by_product),
+      // Bundles split over the products they are made of
+      component: toRows(raw?.by_component),
+      category: toRows(raw?.by_category),
+      // Each option's share of the lines it was sold on
+      modifier: toRows(raw?.by_modifier),
+      staff: toRows(raw?.by_staff),
+      paymentMethod: toRows(
+        raw?.by_payment_method,
+        row => PAYMENT_METHOD_LABELS[row.key as PaymentMethod] ?? String(row.label)
+      ),
+    },
+  };
+}
+
+// Ranges are in the device's local time; `to` is exclusive
+export function getReportRange(preset: ReportRangePreset, now: Date = new Date()): ReportRange {
+  const startOfDay = (date: Date) => new Date(date.getFullYear(), date.getMonth(), date.getDate());
+  const addDays = (date: Date, days: number) =>
+    new Date(date.getFullYear(), date.getMonth(), date.getDate() + days);
+
+  const today = startOfDay(now);
+  const tomorrow = addDays(today, 1);
+
+  switch (preset) {
+    case 'today':
+      return { from: today, to: tomorrow };
+    case 'yesterday':
+      return { from: addDays(today, -1), to: today };
+    case 'last7':
+      return { from: addDays(today, -6), to: tomorrow };
+    case 'last30':
+      return { from: addDays(today, -29), to: tomorrow };
+    case 'thisMonth':
+      return { from: new Date(today.getFullYear(), today.getMonth(), 1), to: tomorrow };
+  }
+}
+
+export function getDeviceTimeZone(): string {
+  try {
+    return Intl.DateTimeFormat().resolvedOptions().timeZone || 'Asia/Manila';
+  } catch {
+    return 'Asia/Manila';
+  }
+}
@@ -0,0 +1,105 @@
+import { isNetworkErrorMessage } from './errorHandler';
+
+export type QueuedSaleStatus = 'pending' | 'conflict';
+
+// The parts of a checkout line error the queue acts on
+export type QueuedSaleLineError = {
+  code: string;
+  product_id?: string;
+  available_stock?: number;
+};
+
+export type ReplayableSale<E extends QueuedSaleLineError = QueuedSaleLineError> = {
+  // Also sent as the checkout idempotency key
+  id: string;
+  userId: string;
+  items: { product_id: string; quantity: number }[];
+  queuedAt: string;
+  status: QueuedSaleStatus;
+  errors: E[];
+  lastError: string | null;
+};
+
+export type ReplayOutcome<E extends QueuedSaleLineError = QueuedSaleLineError> =
+  // Recorded, or already recorded under the same key
+  | { kind: 'submitted' }
+  // checkout_order turned down some lines; the cashier resolves them
+  | { kind: 'conflict'; errors: E[] }
+  // The server failed the sale as a whole; retrying as is will not help
+  | { kind: 'rejected'; error: string }
+  // The server could not be reached; the sale and the ones after it wait
+  | { kind: 'unreachable'; error: string };
+
+// Sales are replayed in the order they were rung up, and only for the cashier
+// who made them since checkout_order attributes orders to auth.uid()
+export function getReplayOrder<T extends ReplayableSale<any>>(sales: T[], userId: string): T[] {
+  return sales
+    .filter(sale => sale.userId === userId && sale.status === 'pending')
+    .sort((a, b) => a.queuedAt.localeCompare(b.queuedAt));
+}
+
+export function getReplayOutcome<E extends QueuedSaleLineError>(result: {
+  data: { errors: E[] } | null;
+  error: string | null;
+}): ReplayOutcome<E> {
+  if (result.error || !result.data) {
+    const error = result.error || 'No response from the server';
+    return isNetworkErrorMessage(error) ? { kind: 'unreachable', error } : { kind: 'rejected', error };
+  }
+  if (result.data.errors.length > 0) {
+    return { kind: 'conflict', errors: result.data.errors };
+  }
+  return { kind: 'submitted' };
+}
+
+// Only a lost connection stops the replay; a sale the server turns down is
+// set aside so it does not hold up the sales queued after it
+export function shouldStopReplay(outcome: ReplayOutcome<any>): boolean {
+  return outcome.kind === 'unreachable';
+}
+
+// The queued sale after a replay attempt, or null once it has been recorded.
+// The id is kept, so a later attempt cannot record the sale twice.
+export function applyReplayOutcome<E extends QueuedSaleLineError, T extends ReplayableSale<E>>(
+  sale: T,
+  outcome: ReplayOutcome<E>
+): T | null {
+  switch (outcome.kind) {
+    case 'submitted':
+      return null;
+    case 'conflict':
+      return { ...sale, status: 'conflict', errors: outcome.errors, lastError: null };
+    case 'rejected':
+      return { ...sale, status: 'conflict', errors: [], lastError: outcome.error };
+    case 'unreachable':
+      return { ...sale, lastError: outcome.error };
+  }
+}
+
+// Resolves a stock conflict by trimming each line to what the server reported
+// as available and dropping lines that can no longer be sold. Lines of the
+// same product with different modifiers share what is available. Returns null
+// when nothing is left to sell; otherwise the sale goes back in the queue
+// under a new id, since its contents changed.
+export function getAvailableSale<E extends QueuedSaleLineError, T extends ReplayableSale<E>>(
+  sale: T,
+  newId: string
+): T | null {
+  const remaining: Record<string, number> = {};
+  const items = sale.items
+    .map(item => {
+      const lineError = sale.errors.find(e => e.product_id === item.product_id);
+      if (!lineError) return item;
+      if (lineError.code === 'INSUFFICIENT_STOCK') {
+        const available = remaining[item.product_id] ?? lineError.available_stock ?? 0;
+        const quantity = Math.min(item.quantity, available);
+        remaining[item.product_id] = available - quantity;
+        return { ...item, quantity };
+      }
+      return { ...item, quantity: 0 };
+    })
+    .filter(item => item.quantity > 0);
+
+  if (items.length === 0) return null;
+  return { ...sale, id: newId, items, status: 'pending', errors: [], lastError: null };
+}
@@ -0,0 +1,77 @@
+import { formatPrice } from './currency';
+import { PaymentMethod } from './payments';
+import { roundMoney } from './tax';
+
+export type CashMovementType = 'paid_in' | 'paid_out';
+
+export const CASH_MOVEMENT_LABELS: Record<CashMovementType, string> = {
+  paid_in: 'Paid In',
+  paid_out: 'Paid Out',
+};
+
+export interface Shift {
+  id: string;
+  user_id: string;
+  status: 'open' | 'closed';
+  opening_float: number;
+  opened_at: string;
+  closed_at: string | null;
+  counted_cash: number | null;
+  expected_cash: number | null;
+  variance: number | null;
+  notes: string | null;
+}
+
+export interface MethodTotal {
+  method: PaymentMethod;
+  count: number;
+  amount: number;
+}
+
+// X report while the shift is open, Z report once it is closed
+export interface ShiftReport {
+  shift: Shift;
+  orderCount: number;
+  salesTotal: number;
+  salesByMethod: MethodTotal[];
+  refundsByMethod: MethodTotal[];
+  paidIn: number;
+  paidOut: number;
+  expectedCash: number;
+}
+
+const toNumber = (value: unknown) => Number(value ?? 0);
+
+const toMethodTotals = (rows: any[] | null | undefined): MethodTotal[] =>
+  (rows ?? []).map(row => ({ method: row.method, count: toNumber(row.count), amount: toNumber(row.amount) }));
+
+const toNullableNumber = (value: unknown) => (value === null || value === undefined ? null : Number(value));
+
+// numeric columns can arrive as strings from get_shift_report / close_shift
+export function parseShiftReport(raw: any): ShiftReport {
+  return {
+    shift: {
+      ...raw.shift,
+      opening_float: toNumber(raw.shift.opening_float),
+      counted_cash: toNullableNumber(raw.shift.counted_cash),
+      expected_cash: toNullableNumber(raw.shift.expected_cash),
+      variance: toNullableNumber(raw.shift.variance),
+    },
+    orderCount: toNumber(raw.order_count),
+    salesTotal: toNumber(raw.sales_total),
+    salesByMethod: toMethodTotals(raw.sales_by_method),
+    refundsByMethod: toMethodTotals(raw.refunds_by_method),
+    paidIn: toNumber(raw.paid_in),
+    paidOut: toNumber(raw.paid_out),
+    expectedCash: toNumber(raw.expected_cash),
+  };
+}
+
+export function getCashVariance(expectedCash: number, countedCash: number): number {
+  return roundMoney(countedCash - expectedCash);
+}
+
+export function formatVariance(variance: number): string {
+  if (variance === 0) return 'Balanced';
+  return variance > 0 ? `Over ${formatPrice(variance)}` : `Short ${formatPrice(-variance)}`;
+}
@@ -0,0 +1,53 @@
+export type StockReason = 'sale' | 'return' | 'receiving' | 'damage' | 'count_correction';
+
+// Sales and returns are logged by checkout and refunds; these are entered by hand
+export type StockAdjustmentReason = 'receiving' | 'damage' | 'count_correction';
+
+export const STOCK_REASON_LABELS: Record<StockReason, string> = {
+  sale: 'Sale',
+  return: 'Return',
+  receiving: 'Received',
+  damage: 'Damaged',
+  count_correction: 'Count Correction',
+};
+
+export const STOCK_ADJUSTMENT_REASONS: StockAdjustmentReason[] = ['receiving', 'damage', 'count_correction'];
+
+export interface StockLog {
+  id: string;
+  product_id: string;
+  quantity_change: number;
+  remaining_stock: number;
+  reason: StockReason;
+  user_id: string | null;
+  reference_type: string | null;
+  reference_id: string | null;
+  note: string | null;
+  created_at: string;
+  profiles?: { full_name: string | null; email: string } | null;
+}
+
+// Received and damaged quantities are amounts; for a count correction the
+// number entered is what is actually on the shelf
+export function getAdjustmentChange(reason: StockAdjustmentReason, currentStock: number, entered: number): number {
+  switch (reason) {
+    case 'receiving':
+      return entered;
+    case 'damage':
+      return -entered;
+    case 'count_correction':
+      return entered - currentStock;
+  }
+}
+
+export function formatQuantityChange(change: number): string {
+  return change > 0 ? `+${change}` : `${change}`;
+}
+
+export function formatStockReference(log: Pick<StockLog, 'reference_type' | 'reference_id'>): string | null {
+  if (!log.reference_type) return null;
+  if (log.reference_type === 'adjustment' || !log.reference_id) return 'Manual adjustment';
+
+  const label = log.reference_type.charAt(0).toUpperCase() + log.reference_type.slice(1).replace(/_/g, ' ');
+  return `${label} #${log.reference_id.substring(0, 8)}`;
+}
@@ -0,0 +1,145 @@
+import { roundMoney } from './tax';
+import { findProductByCode } from './productSearch';
+
+export type StocktakeStatus = 'counting' | 'review' | 'approved' | 'cancelled';
+
+// 'add' is used for scans, 'set' for a quantity typed in
+export type StocktakeCountMode = 'set' | 'add';
+
+export const STOCKTAKE_STATUS_LABELS: Record<StocktakeStatus, string> = {
+  counting: 'Counting',
+  review: 'In Review',
+  approved: 'Approved',
+  cancelled: 'Cancelled',
+};
+
+export interface Stocktake {
+  id: string;
+  status: StocktakeStatus;
+  category_id: string | null;
+  notes: string | null;
+  created_by: string;
+  created_at: string;
+  closed_at: string | null;
+  approved_by: string | null;
+  approved_at: string | null;
+  categories?: { name: string } | null;
+}
+
+// What counters see: no system quantities, so the count stays blind
+export interface StocktakeCount {
+  product_id: string;
+  name: string;
+  sku: string | null;
+  barcode: string | null;
+  counted_quantity: number | null;
+}
+
+export interface StocktakeReportItem {
+  product_id: string;
+  name: string;
+  sku: string | null;
+  expected_quantity: number;
+  counted_quantity: number;
+  current_stock: number;
+  unit_cost: number | null;
+  unit_price: number;
+}
+
+export interface StocktakeUncountedItem {
+  product_id: string;
+  name: string;
+  sku: string | null;
+  current_stock: number;
+}
+
+export interface StocktakeReport {
+  stocktake: Stocktake;
+  items: StocktakeReportItem[];
+  uncounted: StocktakeUncountedItem[];
+}
+
+export interface StocktakeTotals {
+  countedProducts: number;
+  productsWithVariance: number;
+  unitsOver: number;
+  unitsShort: number;
+  costVariance: number;
+  retailVariance: number;
+  // Variance lines without a cost price are left out of costVariance
+  missingCost: number;
+}
+
+export function isStocktakeActive(status: StocktakeStatus): boolean {
+  return status === 'counting' || status === 'review';
+}
+
+export function getVariance(item: Pick<StocktakeReportItem, 'expected_quantity' | 'counted_quantity'>): number {
+  return item.counted_quantity - item.expected_quantity;
+}
+
+// Mirrors approve_stocktake: the variance is applied to today's stock, so
+// sales made after the product was counted stay deducted; a shortage never
+// takes stock below zero
+export function getApprovalChange(
+  item: Pick<StocktakeReportItem, 'expected_quantity' | 'counted_quantity' | 'current_stock'>
+): number {
+  const variance = getVariance(item);
+  if (variance >= 0) return variance;
+  const decrease = Math.min(-variance, item.current_stock);
+  return decrease > 0 ? -decrease : 0;
+}
+
+export function getStocktakeTotals(items: StocktakeReportItem[]): StocktakeTotals {
+  return items.reduce<StocktakeTotals>(
+    (totals, item) => {
+      const variance = getVariance(item);
+      if (variance === 0) return { ...totals, countedProducts: totals.countedProducts + 1 };
+
+      return {
+        countedProducts: totals.countedProducts + 1,
+        productsWithVariance: totals.productsWithVariance + 1,
+        unitsOver: totals.unitsOver + Math.max(0, variance),
+        unitsShort: totals.unitsShort + Math.max(0, -variance),
+        costVariance: item.unit_cost === null
+          ? totals.costVariance
+          : roundMoney(totals.costVariance + variance * item.unit_cost),
+        retailVariance: roundMoney(totals.retailVariance + variance * item.unit_price),
+        missingCost: totals.missingCost + (item.unit_cost === null ? 1 : 0),
+      };
+    },
+    {
+      countedProducts: 0,
+      productsWithVariance: 0,
+      unitsOver: 0,
+      unitsShort: 0,
+      costVariance: 0,
+      retailVariance: 0,
+      missingCost: 0,
+    }
+  );
+}
+
+// Finds a counted product by barcode or SKU, the same way the register does
+export function findStocktakeProduct(counts: StocktakeCount[], code: string): StocktakeCount | undefined {
+  return findProductByCode(counts, code);
+}
+
+// numeric columns can arrive as strings from the stocktake RPCs
+export function parseStocktakeReport(raw: any): StocktakeReport {
+  return {
+    stocktake: raw.stocktake,
+    items: (raw.items ?? []).map((item: any) => ({
+      ...item,
+      expected_quantity: Number(item.expected_quantity),
+      counted_quantity: Number(item.counted_quantity),
+      current_stock: Number(item.current_stock),
+      unit_cost: item.unit_cost === null || item.unit_cost === undefined ? null : Number(item.unit_cost),
+      unit_price: Number(item.unit_price),
+    })),
+    uncounted: (raw.uncounted ?? []).map((item: any) => ({
+      ...item,
+      current_stock: Number(item.current_stock),
+    })),
+  };
+}
@@ -0,0 +1,239 @@
+import { computeDiscountAmount, Discount } from './discounts';
+import { getCartLineKey, getModifiersTotal } from './modifiers';
+
+export type TaxClassKind = 'standard' | 'exempt' | 'zero_rated';
+
+export interface TaxClass {
+  id: string;
+  code: string;
+  name: string;
+  kind: TaxClassKind;
+  rate: number;
+  is_default: boolean;
+}
+
+export interface TaxConfig {
+  pricesIncludeTax: boolean;
+  taxClasses: TaxClass[];
+  // category_id -> tax_class_id, used when a product has no class of its own
+  categoryTaxClassIds: Record<string, string | null>;
+}
+
+export type TaxExemptionType = 'senior_citizen' | 'pwd';
+
+export interface TaxExemption {
+  type: TaxExemptionType;
+  idNumber: string;
+}
+
+export interface TaxableCartItem {
+  product: {
+    id: string;
+    price: number;
+    category_id?: string | null;
+    tax_class_id?: string | null;
+  };
+  quantity: number;
+  discount?: Discount | null;
+  // Chosen options; their price deltas are part of the unit price
+  modifiers?: { id: string; price_delta: number }[];
+}
+
+export interface LineTotals {
+  productId: string;
+  // Product plus modifier set, see getCartLineKey
+  lineKey: string;
+  quantity: number;
+  unitPrice: number;
+  gross: number;
+  lineDiscount: number;
+  // Portion of the order-level discount carried by this line
+  orderDiscountShare: number;
+  taxClassCode: string | null;
+  taxRate: number;
+  taxableAmount: number;
+  taxAmount: number;
+  lineTotal: number;
+  taxExempt: boolean;
+}
+
+export interface CartTotals {
+  lines: LineTotals[];
+  // Before discounts
+  grossSubtotal: number;
+  lineDiscount: number;
+  orderDiscount: number;
+  discount: number;
+  // Net of discounts and tax
+  subtotal: number;
+  tax: number;
+  total: number;
+  vatableSales: number;
+  vatExemptSales: number;
+  zeroRatedSales: number;
+}
+
+export const TAX_EXEMPTION_LABELS: Record<TaxExemptionType, string> = {
+  senior_citizen: 'Senior Citizen',
+  pwd: 'PWD',
+};
+
+// Mirrors the seed in the tax engine migration; used until the real config loads
+export const DEFAULT_TAX_CONFIG: TaxConfig = {
+  pricesIncludeTax: true,
+  taxClasses: [
+    { id: 'default-vat', code: 'VAT', name: 'VAT 12%', kind: 'standard', rate: 0.12, is_default: true },
+  ],
+  categoryTaxClassIds: {},
+};
+
+export function roundMoney(amount: number): number {
+  return Math.round((amount + Number.EPSILON) * 100) / 100;
+}
+
+export function getUnitPrice(item: Pick<TaxableCartItem, 'product' | 'modifiers'>): number {
+  return roundMoney(item.product.price + getModifiersTotal(item.modifiers));
+}
+
+export function resolveTaxClass(product: TaxableCartItem['product'], config: TaxConfig): TaxClass | null {
+  const categoryClassId = product.category_id ? config.categoryTaxClassIds[product.category_id] : null;
+  const classId = product.tax_class_id || categoryClassId;
+  if (classId) {
+    const taxClass = config.taxClasses.find(tc => tc.id === classId);
+    if (taxClass) return taxClass;
+  }
+  return config.taxClasses.find(tc => tc.is_default) || null;
+}
+
+// Must stay in step with checkout_order, which recomputes the same figures server-side
+export function computeLineTotals(
+  item: TaxableCartItem,
+  config: TaxConfig,
+  exemption: TaxExemption | null = null,
+  orderDiscountShare = 0
+): LineTotals {
+  const taxClass = resolveTaxClass(item.product, config);
+  const classRate = taxClass?.rate ?? 0;
+  const unitPrice = getUnitPrice(item);
+  const gross = roundMoney(unitPrice * item.quantity);
+  const lineDiscount = computeDiscountAmount(item.discount, gross);
+  // Discounts come off the shelf price before tax is worked out
+  const net = roundMoney(gross - lineDiscount - orderDiscountShare);
+  // Senior citizen / PWD sales are VAT-exempt, so VAT is removed from taxed lines
+  const taxExempt = exemption !== null && classRate > 0;
+
+  let taxableAmount: number;
+  let taxAmount: number;
+  if (taxExempt) {
+    taxableAmount = config.pricesIncludeTax ? roundMoney(net / (1 + classRate)) : net;
+    taxAmount = 0;
+  } else if (config.pricesIncludeTax) {
+    taxAmount = roundMoney(net - net / (1 + classRate));
+    taxableAmount = roundMoney(net - taxAmount);
+  } else {
+    taxableAmount = net;
+    taxAmount = roundMoney(net * classRate);
+  }
+
+  return {
+    productId: item.product.id,
+    lineKey: getCartLineKey(item.product.id, item.modifiers),
+    quantity: item.quantity,
+    unitPrice,
+    gross,
+    lineDiscount,
+    orderDiscountShare,
+    taxClassCode: taxClass?.code ?? null,
+    taxRate: taxExempt ? 0 : classRate,
+    taxableAmount,
+    taxAmount,
+    lineTotal: roundMoney(taxableAmount + taxAmount),
+    taxExempt,
+  };
+}
+
+// Spreads an order-level discount across lines in proportion to their
+// discounted amounts. Lines are taken in line key order and the last one
+// absorbs the rounding remainder, matching checkout_order.
+export function allocateOrderDiscount(
+  lines: { lineKey: string; amount: number }[],
+  orderDiscount: number
+): Record<string, number> {
+  const shares: Record<string, number> = {};
+  const base = roundMoney(lines.reduce((sum, line) => sum + line.amount, 0));
+  if (orderDiscount <= 0 || base <= 0) return shares;
+
+  const sorted = [...lines].sort((a, b) => (a.lineKey < b.lineKey ? -1 : a.lineKey > b.lineKey ? 1 : 0));
+  let allocated = 0;
+  sorted.forEach((line, index) => {
+    const share = index === sorted.length - 1
+      ? roundMoney(orderDiscount - allocated)
+      : roundMoney((orderDiscount * line.amount) / base);
+    shares[line.lineKey] = share;
+    allocated = roundMoney(allocated + share);
+  });
+  return shares;
+}
+
+export function computeTotals(
+  cart: TaxableCartItem[],
+  taxConfig: TaxConfig,
+  options: { exemption?: TaxExemption | null; orderDiscount?: Discount | null } = {}
+): CartTotals {
+  const discounted = cart.map(item => {
+    const gross = roundMoney(getUnitPrice(item) * item.quantity);
+    return {
+      lineKey: getCartLineKey(item.product.id, item.modifiers),
+      amount: roundMoney(gross - computeDiscountAmount(item.discount, gross)),
+    };
+  });
+  const discountBase = roundMoney(discounted.reduce((sum, line) => sum + line.amount, 0));
+  const orderDiscount = computeDiscountAmount(options.orderDiscount, discountBase);
+  const shares = allocateOrderDiscount(discounted, orderDiscount);
+
+  const lines = cart.map(item => {
+    const share = shares[getCartLineKey(item.product.id, item.modifiers)] ?? 0;
+    return computeLineTotals(item, taxConfig, options.exemption ?? null, share);
+  });
+
+  const totals: CartTotals = {
+    lines,
+    grossSubtotal: 0,
+    lineDiscount: 0,
+    orderDiscount,
+    discount: 0,
+    subtotal: 0,
+    tax: 0,
+    total: 0,
+    vatableSales: 0,
+    vatExemptSales: 0,
+    zeroRatedSales: 0,
+  };
+
+  lines.forEach((line, index) => {
+    const kind = resolveTaxClass(cart[index].product, taxConfig)?.kind ?? 'exempt';
+    totals.grossSubtotal += line.gross;
+    totals.lineDiscount += line.lineDiscount;
+    totals.subtotal += line.taxableAmount;
+    totals.tax += line.taxAmount;
+    totals.total += line.lineTotal;
+    if (line.taxExempt || kind === 'exempt') {
+      totals.vatExemptSales += line.taxableAmount;
+    } else if (kind === 'zero_rated') {
+      totals.zeroRatedSales += line.taxableAmount;
+    } else {
+      totals.vatableSales += line.taxableAmount;
+    }
+  });
+
+  totals.grossSubtotal = roundMoney(totals.grossSubtotal);
+  totals.lineDiscount = roundMoney(totals.lineDiscount);
+  totals.discount = roundMoney(totals.lineDiscount + totals.orderDiscount);
+  totals.subtotal = roundMoney(totals.subtotal);
+  totals.tax = roundMoney(totals.tax);
+  totals.total = roundMoney(totals.total);
+  totals.vatableSales = roundMoney(totals.vatableSales);
+  totals.vatExemptSales = roundMoney(totals.vatExemptSales);
+  totals.zeroRatedSales = roundMoney(totals.zeroRatedSales);
+  return totals;
+}
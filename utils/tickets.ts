@@ -0,0 +1,146 @@
+import { Discount } from './discounts';
+import { SelectedModifier } from './modifiers';
+import { getUnitPrice } from './tax';
+
+export type CartProduct = {
+  id: string;
+  name: string;
+  price: number;
+  stock: number;
+  // Used to resolve the tax class when computing totals
+  category_id?: string | null;
+  tax_class_id?: string | null;
+};
+
+export type CartItem = {
+  // Product plus modifier set; lines with different modifiers are kept apart
+  key: string;
+  product: CartProduct;
+  quantity: number;
+  modifiers: SelectedModifier[];
+  discount?: Discount | null;
+};
+
+export type TicketCustomer = {
+  id: string;
+  name: string;
+  phone: string | null;
+  points: number;
+};
+
+// A cart set aside so the till can serve someone else
+export type HeldTicket = {
+  id: string;
+  name: string;
+  items: CartItem[];
+  orderDiscount: Discount | null;
+  customer: TicketCustomer | null;
+  heldBy: string | null;
+  heldAt: string;
+  // Stored on the server so any device can recall it
+  shared: boolean;
+};
+
+// A cashier's cart in progress, kept on the device between sign-ins
+export type StoredCart = {
+  items: CartItem[];
+  orderDiscount: Discount | null;
+  customer: TicketCustomer | null;
+  ticketName: string | null;
+};
+
+export type RefreshedCart = {
+  items: CartItem[];
+  // Names of products that no longer exist and were dropped
+  removed: string[];
+  // Names of products whose price changed since they were added
+  repriced: string[];
+};
+
+export function getTicketCount(ticket: Pick<HeldTicket, 'items'>): number {
+  return ticket.items.reduce((count, item) => count + item.quantity, 0);
+}
+
+// Before tax and discounts; the cart recomputes the real total once recalled
+export function getTicketSubtotal(ticket: Pick<HeldTicket, 'items'>): number {
+  return ticket.items.reduce((total, item) => total + getUnitPrice(item) * item.quantity, 0);
+}
+
+// "Ticket 3" after Ticket 1 and Ticket 2
+export function getDefaultTicketName(tickets: Pick<HeldTicket, 'name'>[]): string {
+  const taken = new Set(tickets.map(ticket => ticket.name.trim().toLowerCase()));
+  let number = tickets.length + 1;
+  while (taken.has(`ticket ${number}`)) number++;
+  return `Ticket ${number}`;
+}
+
+// Puts the latest price and stock from fetchProductsForCart on each line
+export function refreshCartItems(
+  items: CartItem[],
+  products: { id: string; name: string; price: number; stock: number }[]
+): RefreshedCart {
+  const removed: string[] = [];
+  const repriced = new Set<string>();
+
+  const refreshed = items.flatMap(item => {
+    const product = products.find(p => p.id === item.product.id);
+    if (!product) {
+      removed.push(item.product.name);
+      return [];
+    }
+    if (Number(product.price) !== item.product.price) {
+      repriced.add(product.name);
+    }
+    return [
+      {
+        ...item,
+        product: { ...item.product, name: product.name, price: Number(product.price), stock: product.stock },
+      },
+    ];
+  });
+
+  return { items: refreshed, removed, repriced: Array.from(repriced) };
+}
+
+// Each cashier's cart in progress is kept under their own key
+export function getCartStorageKey(userId: string): string {
+  return `boltpos:cart:${userId}`;
+}
+
+// Kept only while there is something to come back to
+export function shouldStoreCart(cart: Pick<StoredCart, 'items'> | null): boolean {
+  return !!cart && cart.items.length > 0;
+}
+
+export function getStoredCartFromTicket(ticket: HeldTicket): StoredCart {
+  return {
+    items: ticket.items,
+    orderDiscount: ticket.orderDiscount,
+    customer: ticket.customer,
+    ticketName: ticket.name,
+  };
+}
+
+// A handed off cart keeps its ticket name, or is named after the cashier who left it
+export function getHandoffTicketName(
+  ticketName: string | null,
+  cashier: { full_name?: string | null; email?: string | null } | null
+): string {
+  return ticketName || `From ${cashier?.full_name || cashier?.email || 'previous cashier'}`;
+}
+
+// Decides what the signing-in cashier's cart becomes. Their own stored cart
+// comes first and a handed off cart waits as a held ticket; with no cart of
+// their own, the handed off one is picked up as the cart.
+export function resolveSignInCart(
+  stored: StoredCart | null,
+  handoff: HeldTicket | null
+): { cart: StoredCart | null; held: HeldTicket | null } {
+  if (!handoff) {
+    return { cart: shouldStoreCart(stored) ? stored : null, held: null };
+  }
+  if (shouldStoreCart(stored)) {
+    return { cart: stored, held: handoff };
+  }
+  return { cart: shouldStoreCart(handoff) ? getStoredCartFromTicket(handoff) : null, held: null };
+}
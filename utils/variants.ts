@@ -0,0 +1,53 @@
+import { formatPrice } from './currency';
+
+export type VariantFields = {
+  id: string;
+  price: number;
+  stock: number;
+  parent_id?: string | null;
+  variant_name?: string | null;
+  created_at?: string;
+};
+
+// Mirrors sync_variant_fields, which sets the stored name
+export function formatVariantProductName(parentName: string, variantName: string): string {
+  return `${parentName} (${variantName.trim()})`;
+}
+
+export function isVariant(product: Pick<VariantFields, 'parent_id'>): boolean {
+  return !!product.parent_id;
+}
+
+// Variants in the order they were added (S, M, L rather than alphabetical)
+export function getVariants<T extends VariantFields>(products: T[], parentId: string): T[] {
+  return products
+    .filter(p => p.parent_id === parentId)
+    .sort((a, b) => (a.created_at ?? '').localeCompare(b.created_at ?? ''));
+}
+
+export function hasVariants(products: Pick<VariantFields, 'parent_id'>[], productId: string): boolean {
+  return products.some(p => p.parent_id === productId);
+}
+
+// The catalog as shown in lists: standalone products and parents, not variants
+export function getTopLevelProducts<T extends VariantFields>(products: T[]): T[] {
+  return products.filter(p => !isVariant(p));
+}
+
+// Products that hold stock themselves: everything except parents with variants
+export function getStockProducts<T extends VariantFields>(products: T[]): T[] {
+  return products.filter(p => !hasVariants(products, p.id));
+}
+
+export function getVariantStock(variants: Pick<VariantFields, 'stock'>[]): number {
+  return variants.reduce((sum, variant) => sum + Math.max(0, variant.stock), 0);
+}
+
+export function formatPriceRange(variants: Pick<VariantFields, 'price'>[]): string {
+  if (variants.length === 0) return formatPrice(0);
+
+  const prices = variants.map(variant => variant.price);
+  const min = Math.min(...prices);
+  const max = Math.max(...prices);
+  return min === max ? formatPrice(min) : `${formatPrice(min)} – ${formatPrice(max)}`;
+}